@@ -14,6 +14,9 @@ module.exports = {
     '^@secrets$': '<rootDir>/src/infrastructure/secrets',
     '^@ai$': '<rootDir>/src/infrastructure/ai',
     '^@logging$': '<rootDir>/src/infrastructure/logging',
+    '^@resources$': '<rootDir>/src/infrastructure/resources',
+    '^@storage$': '<rootDir>/src/infrastructure/storage',
+    '^@imaging$': '<rootDir>/src/infrastructure/imaging',
     '^@shared/(.*)$': '<rootDir>/src/shared/$1',
     '^@handlers/(.*)$': '<rootDir>/src/application/handlers/$1',
     '^@services/(.*)$': '<rootDir>/src/infrastructure/api/services/$1',
@@ -22,6 +22,52 @@ const mockSecretStorage = {
   onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
 };
 
+const mockPromptLoader = {
+  load: jest.fn(),
+};
+
+const mockConversationStore = {
+  save: jest.fn(),
+  load: jest.fn(),
+  delete: jest.fn(),
+};
+
+const mockHistoryStore = {
+  record: jest.fn(),
+  list: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+};
+
+const mockModelCatalog = {
+  getCatalog: jest.fn(),
+  findModel: jest.fn(),
+};
+
+const mockBudgetStore = {
+  getStatus: jest.fn(),
+  check: jest.fn(() => null),
+  reserve: jest.fn(),
+  release: jest.fn(async () => undefined),
+  recordSpend: jest.fn(async () => []),
+  setLimits: jest.fn(),
+};
+
+const mockTemplateStore = {
+  list: jest.fn(async () => []),
+  save: jest.fn(),
+  delete: jest.fn(),
+  hasWorkspace: jest.fn(() => true),
+};
+
+const mockStyleProfileStore = {
+  getState: jest.fn(async () => ({ profiles: [], activeProfileId: null })),
+  getActive: jest.fn(async () => undefined),
+  save: jest.fn(),
+  delete: jest.fn(),
+  setActive: jest.fn(),
+};
+
 // Mock the domain handlers
 jest.mock('../../../application/handlers/domain/HelloWorldHandler', () => ({
   HelloWorldHandler: jest.fn().mockImplementation(() => ({
@@ -56,6 +102,13 @@ describe('MessageHandler', () => {
     handler = new MessageHandler(
       postMessage,
       mockSecretStorage as never,
+      mockPromptLoader as never,
+      mockConversationStore as never,
+      mockHistoryStore as never,
+      mockModelCatalog as never,
+      mockBudgetStore as never,
+      mockTemplateStore as never,
+      mockStyleProfileStore as never,
       mockLogger as never
     );
   });
@@ -0,0 +1,71 @@
+/**
+ * IconBundleHandler tests
+ *
+ * Tests the bundle export and the sources it refuses
+ */
+import { IconBundleHandler } from '../../../../application/handlers/domain/IconBundleHandler';
+import { MessageType, createEnvelope, IconBundleExportRequestPayload } from '@messages';
+import { createRasterImage, encodePng, encodeWebp } from '../../../../infrastructure/imaging';
+import * as vscode from 'vscode';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const exportRequest = (bytes: Uint8Array, mimeType: string) => createEnvelope<IconBundleExportRequestPayload>(
+  MessageType.ICON_BUNDLE_EXPORT_REQUEST,
+  'webview.imageGeneration',
+  { sourceId: 'img-1', imageData: `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`, name: 'Fox' },
+  'icons-1'
+);
+
+describe('IconBundleHandler', () => {
+  let postMessage: jest.Mock;
+  let handler: IconBundleHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    postMessage = jest.fn();
+    Object.assign(vscode.workspace, { workspaceFolders: [{ uri: { fsPath: '/ws', path: '/ws' } }] });
+    handler = new IconBundleHandler(postMessage, mockLogger as never);
+  });
+
+  afterEach(() => {
+    Object.assign(vscode.workspace, { workspaceFolders: [] });
+  });
+
+  it('should write the bundle and report its files', async () => {
+    await handler.handleExportRequest(exportRequest(encodePng(createRasterImage(32, 32)), 'image/png'));
+
+    const { payload } = postMessage.mock.calls[0][0];
+    expect(payload.success).toBe(true);
+    expect(payload.files).toContain('icon-links.html');
+    expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(payload.files.length);
+  });
+
+  it('should refuse a WebP source with an icon-specific message', async () => {
+    await handler.handleExportRequest(exportRequest(encodeWebp(createRasterImage(32, 32)), 'image/webp'));
+
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: MessageType.ICON_BUNDLE_EXPORT_RESULT,
+      correlationId: 'icons-1',
+      payload: {
+        success: false,
+        sourceId: 'img-1',
+        error: 'Icons cannot be made from a WebP image - export them from a PNG or baseline JPEG',
+      },
+    }));
+    expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a progressive JPEG source', async () => {
+    const progressive = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46, 0xff, 0xc2, 0x00, 0x02]);
+
+    await handler.handleExportRequest(exportRequest(progressive, 'image/jpeg'));
+
+    expect(postMessage.mock.calls[0][0].payload.error).toMatch(/^Icons cannot be made from a progressive/);
+  });
+});
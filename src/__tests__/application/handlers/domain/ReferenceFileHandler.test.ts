@@ -0,0 +1,107 @@
+/**
+ * ReferenceFileHandler tests
+ *
+ * Tests the Explorer command and the workspace picker
+ */
+import { ReferenceFileHandler } from '../../../../application/handlers/domain/ReferenceFileHandler';
+import { MessageType, createEnvelope, WorkspaceReferencePickPayload } from '@messages';
+import * as vscode from 'vscode';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const SVG_TEXT = '<svg xmlns="http://www.w3.org/2000/svg"><rect/></svg>';
+const uri = (path: string) => ({ path, fsPath: path });
+
+const showQuickPick = jest.fn();
+Object.assign(vscode.window, { showQuickPick });
+Object.assign(vscode.workspace, { asRelativePath: (file: { path: string }) => file.path.replace('/ws/', '') });
+
+describe('ReferenceFileHandler', () => {
+  let postMessage: jest.Mock;
+  let findFiles: jest.Mock;
+  let handler: ReferenceFileHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    postMessage = jest.fn();
+    findFiles = jest.fn();
+    (vscode.workspace.fs.readFile as jest.Mock).mockImplementation(async (file: { path: string }) => (
+      file.path.endsWith('.svg') ? Buffer.from(SVG_TEXT, 'utf-8') : PNG_BYTES
+    ));
+    handler = new ReferenceFileHandler(postMessage, { findFiles } as never, mockLogger as never);
+  });
+
+  describe('handleUseFiles', () => {
+    it('should send images as data URLs and SVGs with their source text', async () => {
+      await handler.handleUseFiles([uri('/ws/art/cat.png'), uri('/ws/logo.svg')] as never);
+
+      expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+        type: MessageType.REFERENCE_FILES,
+        source: 'extension.referenceFiles',
+        payload: {
+          files: [
+            { fileName: 'cat.png', referenceImage: `data:image/png;base64,${Buffer.from(PNG_BYTES).toString('base64')}` },
+            {
+              fileName: 'logo.svg',
+              referenceImage: `data:image/svg+xml;base64,${Buffer.from(SVG_TEXT, 'utf-8').toString('base64')}`,
+              referenceSvgText: SVG_TEXT,
+            },
+          ],
+        },
+      }));
+    });
+
+    it('should skip files that are not images and report them', async () => {
+      (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(new Uint8Array([1, 2, 3]));
+
+      await handler.handleUseFiles([uri('/ws/broken.png')] as never);
+
+      expect(postMessage).not.toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Pixel Minion: Could not attach broken.png: Unsupported image format (expected PNG, JPEG or WebP)'
+      );
+    });
+  });
+
+  describe('handlePickRequest', () => {
+    const pickRequest = (payload: WorkspaceReferencePickPayload) => createEnvelope<WorkspaceReferencePickPayload>(
+      MessageType.WORKSPACE_REFERENCE_PICK,
+      'webview.referenceFiles',
+      payload,
+      'pick-1'
+    );
+
+    it('should list workspace images and attach the picked ones up to the free slots', async () => {
+      findFiles.mockResolvedValue([uri('/ws/b.png'), uri('/ws/icons/a.svg'), uri('/ws/c.png')]);
+      showQuickPick.mockImplementation(async (items: { uri: unknown }[]) => items);
+
+      await handler.handlePickRequest(pickRequest({ target: 'image', maxFiles: 2 }));
+
+      expect(findFiles).toHaveBeenCalledWith('**/*.{png,jpg,jpeg,webp,svg}', 500, '**/node_modules/**');
+      expect(showQuickPick.mock.calls[0][0].map((item: { label: string; description?: string }) => [item.label, item.description]))
+        .toEqual([['a.svg', 'icons'], ['b.png', undefined], ['c.png', undefined]]);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalled();
+
+      const message = postMessage.mock.calls[0][0];
+      expect(message.correlationId).toBe('pick-1');
+      expect(message.payload.target).toBe('image');
+      expect(message.payload.files.map((file: { fileName: string }) => file.fileName)).toEqual(['a.svg', 'b.png']);
+    });
+
+    it('should send nothing when the picker is dismissed', async () => {
+      findFiles.mockResolvedValue([uri('/ws/a.png')]);
+      showQuickPick.mockResolvedValue(undefined);
+
+      await handler.handlePickRequest(pickRequest({ target: 'svg', maxFiles: 1 }));
+
+      expect(showQuickPick.mock.calls[0][1]).not.toHaveProperty('canPickMany');
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * SVGArchitectHandler tests
+ *
+ * Tests session cancellation, the wait for the webview's PNG, usage accounting and the
+ * budget reservation held across a session
+ */
+import { SVGArchitectHandler, SVG_ARCHITECT_PNG_TIMEOUT_MS } from '../../../../application/handlers/domain/SVGArchitectHandler';
+import { GenerationCancellation } from '../../../../application/handlers/GenerationCancellation';
+import { BudgetHandler } from '../../../../application/handlers/domain/BudgetHandler';
+import { BudgetStore } from '../../../../infrastructure/storage/BudgetStore';
+import {
+  MessageType,
+  createEnvelope,
+  SVGArchitectRequestPayload,
+  SVGArchitectPngReadyPayload,
+  SVGArchitectProgressPayload,
+} from '@messages';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const request = createEnvelope<SVGArchitectRequestPayload>(
+  MessageType.SVG_ARCHITECT_REQUEST,
+  'webview.svgArchitect',
+  { prompt: 'A red circle', blueprintModel: 'a', renderModel: 'b', aspectRatio: '1:1', maxIterations: 3 },
+  'arch-1'
+);
+
+const pngReady = createEnvelope<SVGArchitectPngReadyPayload>(
+  MessageType.SVG_ARCHITECT_PNG_READY,
+  'webview.svgArchitect',
+  { conversationId: 'svgarch-1', iteration: 1, pngData: 'data:image/png;base64,AAA' }
+);
+
+describe('SVGArchitectHandler', () => {
+  let postMessage: jest.Mock;
+  let orchestrator: { start: jest.Mock; submitRender: jest.Mock; clearConversation: jest.Mock };
+  let cancellation: GenerationCancellation;
+  let handler: SVGArchitectHandler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    postMessage = jest.fn();
+    orchestrator = {
+      // Pauses awaiting the PNG of iteration 1
+      start: jest.fn(async (_input, _options, onProgress: (progress: SVGArchitectProgressPayload) => void) => {
+        onProgress({ conversationId: 'svgarch-1', status: 'awaiting-png', iteration: 1, maxIterations: 3, message: '' });
+        return { conversationId: 'svgarch-1' };
+      }),
+      submitRender: jest.fn(),
+      clearConversation: jest.fn(),
+    };
+    cancellation = new GenerationCancellation();
+    handler = new SVGArchitectHandler(postMessage, orchestrator as never, mockLogger as never, undefined, cancellation);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should drop a session whose PNG never arrives', async () => {
+    await handler.handleGenerationRequest(request);
+
+    jest.advanceTimersByTime(SVG_ARCHITECT_PNG_TIMEOUT_MS);
+
+    expect(orchestrator.clearConversation).toHaveBeenCalledWith('svgarch-1');
+    expect(cancellation.isActive('arch-1')).toBe(false);
+    expect(postMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      type: MessageType.ERROR,
+      correlationId: 'arch-1',
+      payload: expect.objectContaining({ code: 'SVG_ARCHITECT_TIMEOUT' }),
+    }));
+  });
+
+  it('should resume with the session signal and stop the timer once the PNG arrives', async () => {
+    orchestrator.submitRender.mockResolvedValue({ conversationId: 'svgarch-1', result: { iteration: 1, iterationCount: 1 } });
+    await handler.handleGenerationRequest(request);
+
+    await handler.handlePngReady(pngReady);
+    jest.advanceTimersByTime(SVG_ARCHITECT_PNG_TIMEOUT_MS);
+
+    expect(orchestrator.submitRender.mock.calls[0][5]).toBe(orchestrator.start.mock.calls[0][3]);
+    expect(postMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      type: MessageType.SVG_ARCHITECT_RESULT,
+      correlationId: 'arch-1',
+    }));
+    expect(cancellation.isActive('arch-1')).toBe(false);
+  });
+
+  it('should clear a cancelled session and ignore its late PNG', async () => {
+    await handler.handleGenerationRequest(request);
+
+    cancellation.cancel('arch-1');
+    await handler.handlePngReady(pngReady);
+
+    expect(orchestrator.clearConversation).toHaveBeenCalledWith('svgarch-1');
+    expect(orchestrator.submitRender).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(SVG_ARCHITECT_PNG_TIMEOUT_MS);
+    expect(postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: MessageType.ERROR }));
+  });
+
+  it('should apply the usage a failed step had already spent', async () => {
+    const applyTokenUsage = jest.fn();
+    handler = new SVGArchitectHandler(postMessage, orchestrator as never, mockLogger as never, applyTokenUsage, cancellation);
+    const spent = { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.01 };
+    orchestrator.start.mockRejectedValue(Object.assign(new Error('Render model unavailable'), { stepUsage: spent }));
+
+    await handler.handleGenerationRequest(request);
+
+    expect(applyTokenUsage).toHaveBeenCalledWith(spent, 'arch-1');
+    expect(postMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      type: MessageType.ERROR,
+      correlationId: 'arch-1',
+      payload: expect.objectContaining({ message: 'Render model unavailable' }),
+    }));
+  });
+
+  describe('budget', () => {
+    const usage = (costUsd: number) => ({ promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd });
+    let store: BudgetStore;
+    let budgetHandler: BudgetHandler;
+
+    beforeEach(async () => {
+      const data: Record<string, unknown> = {};
+      const memento = {
+        get: (key: string, defaultValue?: unknown) => data[key] ?? defaultValue,
+        update: async (key: string, value: unknown) => {
+          data[key] = value;
+        },
+      };
+      store = new BudgetStore(memento as never, mockLogger as never);
+      await store.setLimits({ sessionUsd: 0.6 });
+      budgetHandler = new BudgetHandler(postMessage, store, { findModel: jest.fn() } as never, mockLogger as never);
+      handler = new SVGArchitectHandler(
+        postMessage,
+        orchestrator as never,
+        mockLogger as never,
+        (spentUsage, correlationId) => void budgetHandler.recordUsage(spentUsage, correlationId),
+        cancellation,
+        {
+          allowStep: (correlationId) => budgetHandler.allowNextStep('extension.svgArchitect', correlationId),
+          release: (correlationId) => void budgetHandler.releaseGeneration(correlationId),
+        }
+      );
+      // Admitted by MessageHandler before the first step
+      store.reserve('arch-1', 0.5);
+    });
+
+    it('should hold the reservation between steps and release it with the result', async () => {
+      orchestrator.start.mockImplementation(async (_input, _options, onProgress: (progress: SVGArchitectProgressPayload) => void) => {
+        onProgress({ conversationId: 'svgarch-1', status: 'awaiting-png', iteration: 1, maxIterations: 3, message: '' });
+        return { conversationId: 'svgarch-1', usage: usage(0.2) };
+      });
+      orchestrator.submitRender.mockResolvedValue({
+        conversationId: 'svgarch-1',
+        usage: usage(0.1),
+        result: { iteration: 1, iterationCount: 1 },
+      });
+
+      await handler.handleGenerationRequest(request);
+      await store.recordSpend(0);  // queued behind the step's spend
+      expect(store.getReservedUsd()).toBeCloseTo(0.3);
+
+      await handler.handlePngReady(pngReady);
+      await store.recordSpend(0);
+      expect(store.getReservedUsd()).toBe(0);
+      expect(store.getSpend().sessionUsd).toBeCloseTo(0.3);
+    });
+
+    it('should stop a session between steps once a cap is reached', async () => {
+      orchestrator.start.mockImplementation(async (_input, _options, onProgress: (progress: SVGArchitectProgressPayload) => void) => {
+        onProgress({ conversationId: 'svgarch-1', status: 'awaiting-png', iteration: 1, maxIterations: 3, message: '' });
+        return { conversationId: 'svgarch-1', usage: usage(0.3) };
+      });
+      // Iteration 1 needs another render, which costs more than the session reserved
+      orchestrator.submitRender.mockResolvedValue({ conversationId: 'svgarch-1', usage: usage(0.4) });
+      const secondPng = createEnvelope<SVGArchitectPngReadyPayload>(
+        MessageType.SVG_ARCHITECT_PNG_READY,
+        'webview.svgArchitect',
+        { conversationId: 'svgarch-1', iteration: 2, pngData: 'data:image/png;base64,BBB' }
+      );
+
+      await handler.handleGenerationRequest(request);
+      await handler.handlePngReady(pngReady);
+      await store.recordSpend(0);
+      await handler.handlePngReady(secondPng);
+      await store.recordSpend(0);
+
+      expect(orchestrator.submitRender).toHaveBeenCalledTimes(1);
+      expect(orchestrator.clearConversation).toHaveBeenCalledWith('svgarch-1');
+      expect(cancellation.isActive('arch-1')).toBe(false);
+      expect(store.getReservedUsd()).toBe(0);
+      expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({
+        type: MessageType.ERROR,
+        source: 'extension.svgArchitect',
+        correlationId: 'arch-1',
+        payload: expect.objectContaining({ code: 'BUDGET_EXCEEDED' }),
+      }));
+      jest.advanceTimersByTime(SVG_ARCHITECT_PNG_TIMEOUT_MS);
+      expect(postMessage).not.toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ code: 'SVG_ARCHITECT_TIMEOUT' }),
+      }));
+    });
+  });
+});
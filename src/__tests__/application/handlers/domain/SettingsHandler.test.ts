@@ -26,6 +26,14 @@ const mockSecretStorage = {
   hasApiKey: jest.fn(),
 };
 
+const providerStatus = (configured: string[] = []) => ({
+  openrouter: configured.includes('openrouter'),
+  openai: configured.includes('openai'),
+  gemini: configured.includes('gemini'),
+  anthropic: configured.includes('anthropic'),
+  custom: configured.includes('custom'),
+});
+
 // Mock vscode.workspace.getConfiguration
 const mockConfig = {
   get: jest.fn(),
@@ -56,6 +64,8 @@ describe('SettingsHandler', () => {
         openRouterModel: 'anthropic/claude-sonnet-4',
         imageModel: 'google/gemini-2.5-flash-image',
         svgModel: 'google/gemini-3-pro-preview',
+        svgBlueprintModel: 'google/gemini-3.1-pro-preview',
+        svgArchitectMaxIterations: 5,
       };
       return settings[key] ?? defaultValue;
     });
@@ -81,6 +91,12 @@ describe('SettingsHandler', () => {
             openRouterModel: 'anthropic/claude-sonnet-4',
             imageModel: 'google/gemini-2.5-flash-image',
             svgModel: 'google/gemini-3-pro-preview',
+            fallbackImageModel: '',
+            fallbackSvgModel: '',
+            svgBlueprintModel: 'google/gemini-3.1-pro-preview',
+            svgArchitectMaxIterations: 5,
+            customProviderBaseUrl: '',
+            customProviderModels: [],
           },
           correlationId: 'correlation-123',
         })
@@ -142,7 +158,7 @@ describe('SettingsHandler', () => {
 
   describe('handleApiKeyStatusRequest', () => {
     it('should return true when API key is configured', async () => {
-      mockSecretStorage.hasApiKey.mockResolvedValue(true);
+      mockSecretStorage.hasApiKey.mockImplementation(async (provider: string) => provider === 'openrouter');
 
       const message = createEnvelope(
         MessageType.REQUEST_API_KEY_STATUS,
@@ -156,7 +172,7 @@ describe('SettingsHandler', () => {
       expect(postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           type: MessageType.API_KEY_STATUS,
-          payload: { isConfigured: true },
+          payload: { isConfigured: true, providers: providerStatus(['openrouter']) },
           correlationId: 'correlation-123',
         })
       );
@@ -176,7 +192,7 @@ describe('SettingsHandler', () => {
       expect(postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           type: MessageType.API_KEY_STATUS,
-          payload: { isConfigured: false },
+          payload: { isConfigured: false, providers: providerStatus() },
         })
       );
     });
@@ -185,6 +201,7 @@ describe('SettingsHandler', () => {
   describe('handleSaveApiKey', () => {
     it('should save API key and return success status', async () => {
       mockSecretStorage.setApiKey.mockResolvedValue(undefined);
+      mockSecretStorage.hasApiKey.mockImplementation(async (provider: string) => provider === 'openrouter');
 
       const message = createEnvelope<SaveApiKeyPayload>(
         MessageType.SAVE_API_KEY,
@@ -195,13 +212,13 @@ describe('SettingsHandler', () => {
 
       await handler.handleSaveApiKey(message);
 
-      expect(mockSecretStorage.setApiKey).toHaveBeenCalledWith('sk-test-key-123');
+      expect(mockSecretStorage.setApiKey).toHaveBeenCalledWith('sk-test-key-123', 'openrouter');
       expect(mockLogger.info).toHaveBeenCalledWith('Saving API key to secure storage');
 
       expect(postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           type: MessageType.API_KEY_STATUS,
-          payload: { isConfigured: true },
+          payload: { isConfigured: true, providers: providerStatus(['openrouter']) },
           correlationId: 'correlation-456',
         })
       );
@@ -237,9 +254,50 @@ describe('SettingsHandler', () => {
     });
   });
 
+  describe('provider API keys', () => {
+    it('should save a key for the requested provider', async () => {
+      mockSecretStorage.setApiKey.mockResolvedValue(undefined);
+      mockSecretStorage.hasApiKey.mockImplementation(async (provider: string) => provider === 'gemini');
+
+      const message = createEnvelope<SaveApiKeyPayload>(
+        MessageType.SAVE_API_KEY,
+        'webview.settings',
+        { apiKey: 'AIza-test', provider: 'gemini' }
+      );
+
+      await handler.handleSaveApiKey(message);
+
+      expect(mockSecretStorage.setApiKey).toHaveBeenCalledWith('AIza-test', 'gemini');
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: MessageType.API_KEY_STATUS,
+          payload: { isConfigured: true, providers: providerStatus(['gemini']) },
+        })
+      );
+    });
+
+    it('should report the custom endpoint as configured once it has a base URL', async () => {
+      mockSecretStorage.hasApiKey.mockResolvedValue(false);
+      mockConfig.get.mockImplementation((key: string, defaultValue: unknown) =>
+        key === 'customProviderBaseUrl' ? 'http://localhost:11434/v1' : defaultValue
+      );
+
+      await handler.handleApiKeyStatusRequest(
+        createEnvelope(MessageType.REQUEST_API_KEY_STATUS, 'webview.settings', {})
+      );
+
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: { isConfigured: true, providers: providerStatus(['custom']) },
+        })
+      );
+    });
+  });
+
   describe('handleClearApiKey', () => {
     it('should clear API key and return success status', async () => {
       mockSecretStorage.deleteApiKey.mockResolvedValue(undefined);
+      mockSecretStorage.hasApiKey.mockResolvedValue(false);
 
       const message = createEnvelope(
         MessageType.CLEAR_API_KEY,
@@ -250,13 +308,13 @@ describe('SettingsHandler', () => {
 
       await handler.handleClearApiKey(message);
 
-      expect(mockSecretStorage.deleteApiKey).toHaveBeenCalled();
+      expect(mockSecretStorage.deleteApiKey).toHaveBeenCalledWith('openrouter');
       expect(mockLogger.info).toHaveBeenCalledWith('Clearing API key from secure storage');
 
       expect(postMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           type: MessageType.API_KEY_STATUS,
-          payload: { isConfigured: false },
+          payload: { isConfigured: false, providers: providerStatus() },
           correlationId: 'correlation-123',
         })
       );
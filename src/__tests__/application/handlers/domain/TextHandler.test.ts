@@ -4,6 +4,8 @@
  * Tests text conversation handling and orchestration
  */
 import { TextHandler } from '../../../../application/handlers/domain/TextHandler';
+import { GenerationCancellation } from '../../../../application/handlers/GenerationCancellation';
+import { TextOrchestrator } from '@ai';
 import {
   MessageType,
   createEnvelope,
@@ -20,6 +22,8 @@ jest.mock('@ai', () => ({
     setClient: jest.fn(),
     startConversation: jest.fn().mockReturnValue('conv-123'),
     rehydrateConversation: jest.fn(),
+    loadConversation: jest.fn().mockResolvedValue(false),
+    setStore: jest.fn(),
     sendMessage: jest.fn().mockResolvedValue({
       response: 'Text response',
       conversationId: 'conv-123',
@@ -30,6 +34,7 @@ jest.mock('@ai', () => ({
     setMaxTurns: jest.fn(),
   })),
   OpenRouterTextClient: jest.fn().mockImplementation(() => ({})),
+  ...jest.requireActual('../../../../infrastructure/ai/clients/ProviderErrors'),
 }));
 
 const mockLogger = {
@@ -171,7 +176,7 @@ describe('TextHandler', () => {
           type: MessageType.ERROR,
           payload: {
             message: expect.stringContaining('API key not configured'),
-            code: 'TEXT_REQUEST_ERROR',
+            code: 'INVALID_API_KEY',
           },
           correlationId: 'correlation-789',
         })
@@ -216,6 +221,72 @@ describe('TextHandler', () => {
         expect.any(String)
       );
     });
+
+    it('prefers the stored conversation over webview history', async () => {
+      const mockOrchestrator = (TextOrchestrator as unknown as jest.Mock).mock.results[0].value;
+      mockOrchestrator.hasConversation.mockReturnValue(false);
+      mockOrchestrator.loadConversation.mockResolvedValueOnce(true);
+
+      const message = createEnvelope<AIConversationRequestPayload>(
+        MessageType.AI_CONVERSATION_REQUEST,
+        'webview.ai',
+        {
+          message: 'Continue',
+          conversationId: 'conv-999',
+          history: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }],
+        }
+      );
+
+      await handler.handleConversationRequest(message);
+
+      expect(mockOrchestrator.loadConversation).toHaveBeenCalledWith('conv-999');
+      expect(mockOrchestrator.rehydrateConversation).not.toHaveBeenCalled();
+      expect(mockOrchestrator.startConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      mockSecretStorage.getApiKey.mockResolvedValue('sk-test-key');
+    });
+
+    it('should abort the request and skip the error when cancelled', async () => {
+      const cancellation = new GenerationCancellation();
+      const cancellableHandler = new TextHandler(
+        postMessage,
+        mockSecretStorage as never,
+        mockLogger as never,
+        applyTokenUsageCallback,
+        cancellation
+      );
+      const orchestratorMock = TextOrchestrator as unknown as jest.Mock;
+      const mockOrchestrator = orchestratorMock.mock.results[orchestratorMock.mock.results.length - 1].value;
+      mockOrchestrator.sendMessage.mockImplementationOnce(
+        (_id: string, _message: string, options: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+          })
+      );
+
+      const pending = cancellableHandler.handleConversationRequest(createEnvelope<AIConversationRequestPayload>(
+        MessageType.AI_CONVERSATION_REQUEST,
+        'webview.ai',
+        { message: 'Hello' },
+        'correlation-cancel'
+      ));
+      // Let the handler reach the orchestrator call
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(cancellation.cancel('correlation-cancel')).toBe(true);
+      await pending;
+
+      expect(postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: MessageType.ERROR }));
+      expect(postMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: MessageType.STATUS,
+        payload: { message: '', isLoading: false },
+      }));
+      expect(cancellation.isActive('correlation-cancel')).toBe(false);
+    });
   });
 
   describe('handleClearConversation', () => {
@@ -0,0 +1,74 @@
+import { AnthropicTextClient } from '../../../../infrastructure/ai/clients/AnthropicTextClient';
+import {
+  ContentModerationError,
+  NetworkOfflineError,
+  RateLimitedError,
+} from '../../../../infrastructure/ai/clients/ProviderErrors';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+describe('AnthropicTextClient', () => {
+  const messages = [
+    { role: 'system' as const, content: 'You draw SVGs' },
+    { role: 'user' as const, content: 'A red circle' },
+  ];
+  let client: AnthropicTextClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new AnthropicTextClient('https://anthropic.test/v1', 'test-key', 'claude-test');
+  });
+
+  it('should move system messages to the system field and map usage', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 'msg-1',
+        content: [{ type: 'text', text: '<svg/>' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 4 },
+      }),
+    });
+
+    const result = await client.createCompletion(messages);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.system).toBe('You draw SVGs');
+    expect(body.messages).toEqual([{ role: 'user', content: 'A red circle' }]);
+    expect(result).toEqual({
+      content: '<svg/>',
+      finishReason: 'end_turn',
+      usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+      id: 'msg-1',
+    });
+  });
+
+  it('should report a refusal as moderation', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ content: [], stop_reason: 'refusal' }),
+    });
+
+    await expect(client.createCompletion(messages)).rejects.toBeInstanceOf(ContentModerationError);
+  });
+
+  it('should classify HTTP errors by status', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      headers: new Headers({ 'retry-after': '3' }),
+      text: async () => JSON.stringify({ type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }),
+    });
+
+    const error = await client.createCompletion(messages).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(3000);
+  });
+
+  it('should report an unreachable endpoint as offline', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(client.createCompletion(messages)).rejects.toThrow(NetworkOfflineError);
+  });
+});
@@ -0,0 +1,85 @@
+import { GeminiImageClient } from '../../../../infrastructure/ai/clients/GeminiImageClient';
+import {
+  ContentModerationError,
+  InvalidApiKeyError,
+  NetworkOfflineError,
+} from '../../../../infrastructure/ai/clients/ProviderErrors';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+describe('GeminiImageClient', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const request = {
+    model: 'gemini-2.5-flash-image',
+    aspectRatio: '1:1',
+    messages: [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'A fox' }] }],
+  };
+  let client: GeminiImageClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new GeminiImageClient('https://gemini.test/v1beta', 'test-key', mockLogger as never);
+  });
+
+  it('should parse inline images and usage', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        candidates: [{ content: { parts: [{ text: 'Here it is' }, { inlineData: { mimeType: 'image/png', data: 'AAA' } }] } }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 6 },
+      }),
+    });
+
+    const result = await client.generateImages(request);
+
+    expect(result.images).toEqual([{ data: 'data:image/png;base64,AAA', mimeType: 'image/png' }]);
+    expect(result.text).toBe('Here it is');
+    expect(result.usage).toEqual({ promptTokens: 4, completionTokens: 6, totalTokens: 10 });
+  });
+
+  it('should report a blocked prompt as moderation', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } }),
+    });
+
+    const error = await client.generateImages(request).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ContentModerationError);
+    expect((error as ContentModerationError).reasons).toEqual(['PROHIBITED_CONTENT']);
+  });
+
+  it('should report a safety stop without output as moderation', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ candidates: [{ finishReason: 'IMAGE_SAFETY' }] }),
+    });
+
+    await expect(client.generateImages(request)).rejects.toBeInstanceOf(ContentModerationError);
+  });
+
+  it('should classify HTTP errors', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      headers: new Headers(),
+      text: async () => JSON.stringify({
+        error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' },
+      }),
+    });
+
+    await expect(client.generateImages(request)).rejects.toBeInstanceOf(InvalidApiKeyError);
+  });
+
+  it('should report an unreachable endpoint as offline, but pass a cancellation through', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(client.generateImages(request)).rejects.toBeInstanceOf(NetworkOfflineError);
+
+    const controller = new AbortController();
+    controller.abort();
+    const abortError = new DOMException('The operation was aborted', 'AbortError');
+    mockFetch.mockRejectedValueOnce(abortError);
+    await expect(client.generateImages({ ...request, signal: controller.signal })).rejects.toBe(abortError);
+  });
+});
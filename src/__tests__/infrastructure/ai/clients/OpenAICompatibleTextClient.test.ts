@@ -0,0 +1,42 @@
+import { OpenAICompatibleTextClient } from '../../../../infrastructure/ai/clients/OpenAICompatibleTextClient';
+import { ContentModerationError, NetworkOfflineError } from '../../../../infrastructure/ai/clients/ProviderErrors';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+describe('OpenAICompatibleTextClient', () => {
+  const messages = [{ role: 'user' as const, content: 'A red circle' }];
+  let client: OpenAICompatibleTextClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new OpenAICompatibleTextClient('http://localhost:11434/v1', undefined, 'llama3', 'Ollama');
+  });
+
+  it('should send no Authorization header without a key', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'c-1', choices: [{ message: { content: '<svg/>' }, finish_reason: 'stop' }] }),
+    });
+
+    const result = await client.createCompletion(messages);
+
+    expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+    expect(result.content).toBe('<svg/>');
+  });
+
+  it('should report a content filter stop as moderation', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] }),
+    });
+
+    await expect(client.createCompletion(messages)).rejects.toBeInstanceOf(ContentModerationError);
+  });
+
+  it('should report an unreachable server as offline, naming the provider', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(client.createCompletion(messages)).rejects.toThrow(new NetworkOfflineError('Could not reach Ollama: fetch failed'));
+  });
+});
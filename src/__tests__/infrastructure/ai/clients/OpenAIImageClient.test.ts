@@ -0,0 +1,50 @@
+import { OpenAIImageClient } from '../../../../infrastructure/ai/clients/OpenAIImageClient';
+import { ContentModerationError, NetworkOfflineError } from '../../../../infrastructure/ai/clients/ProviderErrors';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+describe('OpenAIImageClient', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const request = {
+    model: 'gpt-image-1',
+    aspectRatio: '16:9',
+    messages: [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'A fox' }] }],
+  };
+  let client: OpenAIImageClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new OpenAIImageClient('https://openai.test/v1', 'test-key', mockLogger as never);
+  });
+
+  it('should parse base64 images in the requested output format', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [{ b64_json: 'AAA' }], output_format: 'webp', usage: { input_tokens: 3, output_tokens: 5 } }),
+    });
+
+    const result = await client.generateImages(request);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).size).toBe('1536x1024');
+    expect(result.images).toEqual([{ data: 'data:image/webp;base64,AAA', mimeType: 'image/webp' }]);
+    expect(result.usage).toEqual({ promptTokens: 3, completionTokens: 5, totalTokens: 8 });
+  });
+
+  it('should classify a safety rejection', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      headers: new Headers(),
+      text: async () => JSON.stringify({ error: { message: 'Rejected by the safety system', code: 'moderation_blocked' } }),
+    });
+
+    await expect(client.generateImages(request)).rejects.toBeInstanceOf(ContentModerationError);
+  });
+
+  it('should report an unreachable endpoint as offline', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(client.generateImages(request)).rejects.toThrow(NetworkOfflineError);
+  });
+});
@@ -10,6 +10,7 @@
 import { OpenRouterDynamicTextClient } from '../../../../infrastructure/ai/clients/OpenRouterDynamicTextClient';
 import { SecretStorageService } from '../../../../infrastructure/secrets/SecretStorageService';
 import { LoggingService } from '../../../../infrastructure/logging/LoggingService';
+import { RateLimitedError } from '../../../../infrastructure/ai/clients/ProviderErrors';
 import { TextMessage } from '../../../../infrastructure/ai/clients/TextClient';
 
 // Mock fetch globally
@@ -439,7 +440,8 @@ describe('OpenRouterDynamicTextClient', () => {
           totalTokens: 34,
           costUsd: 0.0001
         },
-        id: 'test-completion-id'
+        id: 'test-completion-id',
+        model: 'anthropic/claude-sonnet-4'
       });
     });
 
@@ -616,4 +618,83 @@ describe('OpenRouterDynamicTextClient', () => {
       ]);
     });
   });
+
+  describe('createCompletion() - streaming', () => {
+    const createStreamResponse = (events: string[]) => {
+      const encoder = new TextEncoder();
+      return {
+        ok: true,
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            events.forEach((event) => controller.enqueue(encoder.encode(event)));
+            controller.close();
+          }
+        })
+      };
+    };
+
+    const testMessages: TextMessage[] = [
+      { role: 'user', content: 'Draw a circle' }
+    ];
+
+    it('should request a stream and deliver accumulated chunks', async () => {
+      mockFetch.mockResolvedValueOnce(createStreamResponse([
+        ': OPENROUTER PROCESSING\n\n',
+        'data: {"choices":[{"delta":{"content":"<svg>"}}]}\n\n',
+        // Event split across network reads
+        'data: {"choices":[{"delta":{"content":"<circle/>',
+        '"}}]}\n\ndata: {"choices":[{"delta":{"content":"</svg>"},"finish_reason":"stop"}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":20,"cost":0.0002}}\n\n',
+        'data: [DONE]\n\n'
+      ]));
+      const onChunk = jest.fn();
+
+      const result = await client.createCompletion(testMessages, { onChunk });
+
+      const requestBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.stream).toBe(true);
+      expect(onChunk.mock.calls.map(([chunk]) => chunk.content)).toEqual([
+        '<svg>',
+        '<svg><circle/>',
+        '<svg><circle/></svg>',
+      ]);
+      expect(onChunk).toHaveBeenLastCalledWith({ delta: '</svg>', content: '<svg><circle/></svg>' });
+      expect(result.content).toBe('<svg><circle/></svg>');
+      expect(result.finishReason).toBe('stop');
+      expect(result.usage).toEqual({
+        promptTokens: 10,
+        completionTokens: 20,
+        totalTokens: 30,
+        costUsd: 0.0002,
+      });
+    });
+
+    it('should not request a stream without onChunk', async () => {
+      await client.createCompletion(testMessages);
+
+      const requestBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.stream).toBeUndefined();
+    });
+
+    it('should throw when the stream reports an error', async () => {
+      mockFetch.mockResolvedValueOnce(createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"<svg>"}}]}\n\n',
+        'data: {"error":{"message":"Provider disconnected"}}\n\n'
+      ]));
+
+      await expect(
+        client.createCompletion(testMessages, { onChunk: jest.fn() })
+      ).rejects.toThrow('OpenRouter API error (502): Provider disconnected');
+    });
+
+    it('should classify a mid-stream error by its code', async () => {
+      mockFetch.mockResolvedValueOnce(createStreamResponse([
+        'data: {"error":{"code":429,"message":"Rate limit exceeded"}}\n\n'
+      ]));
+
+      await expect(
+        client.createCompletion(testMessages, { onChunk: jest.fn() })
+      ).rejects.toBeInstanceOf(RateLimitedError);
+    });
+  });
 });
@@ -88,4 +88,58 @@ describe('OpenRouterImageClient', () => {
     const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
     expect(body.modalities).toEqual(['image', 'text']);
   });
+
+  it('omits the seed for models without seed support', async () => {
+    await client.generateImages({
+      model: 'openai/gpt-5-image',
+      aspectRatio: '3:2',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'A tree' }] }],
+      seed: 42,
+    });
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
+    expect(body.seed).toBeUndefined();
+    expect(body.image_config).toEqual({ aspect_ratio: '3:2' });
+  });
+
+  it('passes the abort signal to fetch', async () => {
+    const controller = new AbortController();
+    await client.generateImages({
+      model: 'google/gemini-3.1-flash-image-preview',
+      aspectRatio: '1:1',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'A tree' }] }],
+      signal: controller.signal,
+    });
+
+    expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  it('returns the model commentary alongside the images', async () => {
+    const result = await client.generateImages({
+      model: 'google/gemini-3.1-flash-image-preview',
+      aspectRatio: '1:1',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'A tree' }] }],
+    });
+
+    expect(result.images).toHaveLength(1);
+    expect(result.text).toBe('Generated image');
+  });
+
+  it('treats a text-only reply as a result without images', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: 'Which season should the tree be in?' } }],
+      }),
+    });
+
+    const result = await client.generateImages({
+      model: 'google/gemini-3.1-flash-image-preview',
+      aspectRatio: '1:1',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'A tree' }] }],
+    });
+
+    expect(result.images).toEqual([]);
+    expect(result.text).toBe('Which season should the tree be in?');
+  });
 });
@@ -0,0 +1,84 @@
+import {
+  createProviderError,
+  createOpenRouterError,
+  getErrorCode,
+  ContentModerationError,
+  InsufficientCreditsError,
+  InvalidApiKeyError,
+  ModelUnavailableError,
+  NetworkOfflineError,
+  RateLimitedError,
+} from '../../../../infrastructure/ai/clients/ProviderErrors';
+
+const body = (code: number, message: string, metadata?: Record<string, unknown>) =>
+  JSON.stringify({ error: { code, message, metadata } });
+
+describe('ProviderErrors', () => {
+  describe('createOpenRouterError', () => {
+    it('should classify by status and keep the OpenRouter message', () => {
+      const error = createOpenRouterError(402, body(402, 'Insufficient credits. Add more using https://openrouter.ai/credits'));
+
+      expect(error).toBeInstanceOf(InsufficientCreditsError);
+      expect(error.message).toBe('OpenRouter API error (402): Insufficient credits. Add more using https://openrouter.ai/credits');
+      expect(getErrorCode(error, 'IMAGE_GENERATION_ERROR')).toBe('INSUFFICIENT_CREDITS');
+      expect(getErrorCode(createOpenRouterError(401, body(401, 'No auth credentials found')), 'X')).toBe('INVALID_API_KEY');
+      expect(getErrorCode(createOpenRouterError(413, 'Request Entity Too Large'), 'X')).toBe('PAYLOAD_TOO_LARGE');
+      expect(getErrorCode(createOpenRouterError(524, body(524, 'Provider timed out')), 'X')).toBe('TIMEOUT');
+    });
+
+    it('should carry Retry-After on a rate limit', () => {
+      const error = createOpenRouterError(429, body(429, 'Rate limit exceeded'), 5000);
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect((error as RateLimitedError).retryAfterMs).toBe(5000);
+    });
+
+    it('should read moderation reasons from the metadata', () => {
+      const error = createOpenRouterError(403, body(403, 'Input was flagged', { reasons: ['violence'] }));
+
+      expect(error).toBeInstanceOf(ContentModerationError);
+      expect((error as ContentModerationError).reasons).toEqual(['violence']);
+    });
+
+    it('should recognise an unavailable model from the message', () => {
+      const error = createOpenRouterError(400, body(400, 'acme/pixel-9 is not a valid model ID'));
+
+      expect(error).toBeInstanceOf(ModelUnavailableError);
+    });
+
+    it('should fall back to a plain error for anything else', () => {
+      const error = createOpenRouterError(400, 'Bad request - missing messages');
+
+      expect(error.message).toBe('OpenRouter API error (400): Bad request - missing messages');
+      expect(getErrorCode(error, 'SVG_GENERATION_ERROR')).toBe('SVG_GENERATION_ERROR');
+    });
+  });
+
+  describe('createProviderError', () => {
+    it('should name the provider and read OpenAI codes', () => {
+      const error = createProviderError('OpenAI', 400, JSON.stringify({
+        error: { message: 'Your request was rejected by the safety system.', type: 'image_generation_user_error', code: 'moderation_blocked' },
+      }));
+
+      expect(error).toBeInstanceOf(ContentModerationError);
+      expect(error.message).toBe('OpenAI API error (400): Your request was rejected by the safety system.');
+      expect(getErrorCode(createProviderError('OpenAI', 429, body(429, 'You exceeded your current quota')), 'X'))
+        .toBe('INSUFFICIENT_CREDITS');
+    });
+
+    it('should recognise an invalid Gemini key and Anthropic error types', () => {
+      expect(createProviderError('Gemini', 400, body(400, 'API key not valid. Please pass a valid API key.')))
+        .toBeInstanceOf(InvalidApiKeyError);
+      expect(createProviderError('Anthropic', 429, JSON.stringify({
+        type: 'error',
+        error: { type: 'rate_limit_error', message: 'Number of requests has exceeded your rate limit' },
+      }))).toBeInstanceOf(RateLimitedError);
+    });
+  });
+
+  describe('NetworkOfflineError', () => {
+    it('should expose the offline code', () => {
+      expect(new NetworkOfflineError('fetch failed').code).toBe('NETWORK_OFFLINE');
+    });
+  });
+});
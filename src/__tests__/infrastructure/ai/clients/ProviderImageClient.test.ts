@@ -0,0 +1,36 @@
+import { ProviderImageClient } from '../../../../infrastructure/ai/clients/ProviderImageClient';
+
+describe('ProviderImageClient', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  let registry: { isConfigured: jest.Mock; hasAnyConfigured: jest.Mock };
+  let openRouterClient: { isConfigured: jest.Mock; generateImages: jest.Mock };
+  let client: ProviderImageClient;
+
+  beforeEach(() => {
+    registry = {
+      isConfigured: jest.fn(async (providerId: string) => providerId === 'openai'),
+      hasAnyConfigured: jest.fn().mockResolvedValue(true),
+    };
+    openRouterClient = { isConfigured: jest.fn().mockResolvedValue(false), generateImages: jest.fn() };
+    client = new ProviderImageClient(registry as never, openRouterClient, mockLogger as never);
+  });
+
+  describe('isConfigured()', () => {
+    it('should check the provider the model prefix points to', async () => {
+      expect(await client.isConfigured('openai:gpt-image-1')).toBe(true);
+      expect(await client.isConfigured('gemini:gemini-2.5-flash-image')).toBe(false);
+      expect(registry.isConfigured).toHaveBeenCalledWith('gemini');
+    });
+
+    it('should ask the OpenRouter client for unprefixed models', async () => {
+      expect(await client.isConfigured('google/gemini-2.5-flash-image')).toBe(false);
+      expect(openRouterClient.isConfigured).toHaveBeenCalled();
+      expect(registry.isConfigured).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to any provider without a model', async () => {
+      expect(await client.isConfigured()).toBe(true);
+      expect(registry.hasAnyConfigured).toHaveBeenCalled();
+    });
+  });
+});
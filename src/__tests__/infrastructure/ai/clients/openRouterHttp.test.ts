@@ -0,0 +1,123 @@
+import {
+  postOpenRouter,
+  getBackoffDelay,
+  parseRetryAfter,
+  describeRetryNotice,
+} from '../../../../infrastructure/ai/clients/openRouterHttp';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as never;
+
+// Retry-After: 0 keeps the retries instant
+const failure = (status: number, retryAfter = '0') => ({
+  ok: false,
+  status,
+  text: async () => `error ${status}`,
+  headers: { get: (name: string) => (name === 'retry-after' ? retryAfter : null) },
+});
+const success = () => ({ ok: true, status: 200 });
+
+const requestedModels = () =>
+  mockFetch.mock.calls.map(([, init]) => JSON.parse((init as { body: string }).body).model);
+
+describe('openRouterHttp', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('postOpenRouter', () => {
+    it('should retry a rate-limited request and report each retry', async () => {
+      mockFetch.mockResolvedValueOnce(failure(429)).mockResolvedValueOnce(success());
+      const onRetry = jest.fn();
+
+      const result = await postOpenRouter('/chat/completions', 'key', { model: 'a/model' }, { retry: { onRetry } });
+
+      expect(result.model).toBe('a/model');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith({
+        model: 'a/model',
+        attempt: 2,
+        maxAttempts: 3,
+        delayMs: 0,
+        reason: 'HTTP 429',
+        fallback: false,
+      });
+    });
+
+    it('should switch to the fallback model once the attempts run out', async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(success());
+      const onRetry = jest.fn();
+
+      const result = await postOpenRouter(
+        '/chat/completions',
+        'key',
+        { model: 'a/model' },
+        { retry: { fallbackModel: 'b/model', onRetry } }
+      );
+
+      expect(result.model).toBe('b/model');
+      expect(requestedModels()).toEqual(['a/model', 'a/model', 'a/model', 'b/model']);
+      expect(onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ model: 'b/model', attempt: 1, fallback: true }));
+    });
+
+    it('should throw the last error when there is no fallback', async () => {
+      mockFetch.mockResolvedValue(failure(500));
+
+      await expect(postOpenRouter('/chat/completions', 'key', { model: 'a/model' }))
+        .rejects.toThrow('OpenRouter API error (500): error 500');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back straight away when the requested model is unavailable', async () => {
+      mockFetch.mockResolvedValueOnce(failure(404)).mockResolvedValueOnce(success());
+
+      const result = await postOpenRouter('/chat/completions', 'key', { model: 'a/model' }, { retry: { fallbackModel: 'b/model' } });
+
+      expect(result.model).toBe('b/model');
+      expect(requestedModels()).toEqual(['a/model', 'b/model']);
+    });
+
+    it('should not retry a client error', async () => {
+      mockFetch.mockResolvedValue(failure(400));
+
+      await expect(postOpenRouter('/chat/completions', 'key', { model: 'a/model' }, { retry: { fallbackModel: 'b/model' } }))
+        .rejects.toThrow('OpenRouter API error (400): error 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially and prefer Retry-After, both capped', () => {
+      expect(getBackoffDelay(1)).toBeGreaterThanOrEqual(1000);
+      expect(getBackoffDelay(1)).toBeLessThan(1500);
+      expect(getBackoffDelay(3)).toBeGreaterThanOrEqual(4000);
+      expect(getBackoffDelay(10)).toBe(30000);
+      expect(getBackoffDelay(3, 250)).toBe(250);
+      expect(getBackoffDelay(1, 120000)).toBe(30000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read delay seconds and HTTP dates', () => {
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    });
+  });
+
+  describe('describeRetryNotice', () => {
+    it('should describe retries and the switch to the fallback model', () => {
+      expect(describeRetryNotice({
+        model: 'a/model', attempt: 2, maxAttempts: 3, delayMs: 3500, reason: 'HTTP 429', fallback: false,
+      })).toBe('OpenRouter HTTP 429 - retrying (attempt 2/3) in 4s…');
+      expect(describeRetryNotice({
+        model: 'b/model', attempt: 1, maxAttempts: 3, delayMs: 0, reason: 'HTTP 503', fallback: true,
+      })).toBe('OpenRouter HTTP 503 - falling back to b/model…');
+    });
+  });
+});
@@ -87,4 +87,181 @@ describe('ImageConversationManager', () => {
     expect(assistant?.content).toEqual([{ type: 'text', text: 'Here is your image' }]);
     expect(saved?.lastImages).toEqual(['data:image/png;base64,AAA']);
   });
+
+  it('removes only a trailing user message', () => {
+    const manager = new ImageConversationManager(logger as unknown as LoggingService);
+    const conversation = manager.create('openai/gpt-5-image', '1:1');
+
+    manager.addUserMessage(conversation.id, 'A tree');
+    manager.addAssistantResponse(conversation.id, {
+      images: [{ data: 'data:image/png;base64,AAA', mimeType: 'image/png' }],
+      seed: 1,
+    });
+    manager.addUserMessage(conversation.id, 'Make it autumn');
+
+    expect(manager.removeLastUserMessage(conversation.id)).toBe(true);
+    expect(conversation.messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(manager.removeLastUserMessage(conversation.id)).toBe(false);
+    expect(conversation.messages).toHaveLength(2);
+  });
+
+  it('appends the brand style guide and attaches its references to the first message only', () => {
+    const manager = new ImageConversationManager(logger as unknown as LoggingService);
+    const conversation = manager.create('openai/gpt-5-image', '1:1');
+    const style = {
+      id: 'style-1',
+      name: 'Acme',
+      palette: ['#112233', '#FFAA00'],
+      descriptors: 'Flat vector',
+      negativeGuidance: 'Gradients',
+      referenceImages: ['data:image/png;base64,STYLE'],
+    };
+
+    manager.addUserMessage(conversation.id, 'A rocket', ['data:image/png;base64,REF'], undefined, style);
+    manager.addAssistantResponse(conversation.id, {
+      images: [{ data: 'data:image/png;base64,AAA', mimeType: 'image/png' }],
+      seed: 1,
+    });
+    manager.addUserMessage(conversation.id, 'Make it blue', undefined, undefined, style);
+
+    const [first, , second] = conversation.messages;
+    expect(first.content[0].text).toMatch(/^A rocket\n\nBrand style guide "Acme"/);
+    expect(first.content[0].text).toContain('- Palette: #112233, #FFAA00');
+    expect(first.content[0].text).toContain('- Avoid: Gradients');
+    expect(first.content.slice(1).map((part) => part.image_url?.url ?? part.text)).toEqual([
+      'data:image/png;base64,REF',
+      expect.stringMatching(/^Style reference 1 of 1 \("Acme"\)/),
+      'data:image/png;base64,STYLE',
+    ]);
+    expect(second.content).toHaveLength(1);
+    expect(second.content[0].text).toContain('Brand style guide "Acme"');
+  });
+
+  it('sends only the latest message to single-turn models and caps reference images', () => {
+    const manager = new ImageConversationManager(logger as unknown as LoggingService);
+    const conversation = manager.create('black-forest-labs/flux.2-pro', '1:1');
+    const references = ['a', 'b', 'c', 'd', 'e'].map((id) => `data:image/png;base64,${id}`);
+
+    manager.addUserMessage(conversation.id, 'A tree');
+    manager.addAssistantResponse(conversation.id, {
+      images: [{ data: 'data:image/png;base64,AAA', mimeType: 'image/png' }],
+      seed: 1,
+    });
+    manager.addUserMessage(conversation.id, 'Make it autumn', references);
+
+    const messages = manager.getRequestMessages(conversation.id);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content[0].text).toBe('Make it autumn');
+    expect(messages[0].content.slice(1).map((part) => part.image_url?.url)).toEqual(references.slice(0, 4));
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  describe('addInpaintMessage', () => {
+    const mask = {
+      sourceImage: 'data:image/png;base64,SRC',
+      maskImage: 'data:image/png;base64,MASK',
+      guidanceImage: 'data:image/png;base64,GUIDE',
+    };
+
+    it('sends a native mask block to models with a mask parameter', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const conversation = manager.create('openai:gpt-image-1', '1:1');
+
+      manager.addInpaintMessage(conversation.id, 'Give the cat a hat', mask);
+
+      expect(conversation.messages[0].content).toEqual([
+        { type: 'text', text: 'Give the cat a hat' },
+        { type: 'image_url', image_url: { url: mask.sourceImage } },
+        { type: 'image_url', image_url: { url: mask.maskImage }, mask: true },
+      ]);
+    });
+
+    it('falls back to the highlighted guidance image with instructions', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const conversation = manager.create('google/gemini-3.1-flash-image-preview', '1:1');
+
+      manager.addInpaintMessage(conversation.id, 'Give the cat a hat', mask);
+
+      const content = conversation.messages[0].content;
+      expect(content[0].text).toMatch(/^Give the cat a hat\n\nEdit only the region highlighted/);
+      expect(content.slice(1)).toEqual([
+        { type: 'image_url', image_url: { url: mask.sourceImage } },
+        { type: 'image_url', image_url: { url: mask.guidanceImage } },
+      ]);
+    });
+  });
+
+  describe('branch', () => {
+    const signedTurn = (n: number) => ({
+      images: [{ data: `data:image/png;base64,IMG${n}`, mimeType: 'image/png' }],
+      seed: n,
+      assistantMessage: {
+        role: 'assistant' as const,
+        content: [{ type: 'text' as const, text: `Image ${n}` }],
+        images: [{ image_url: { url: `data:image/png;base64,IMG${n}` }, thought_signature: `sig-${n}` }],
+      },
+    });
+
+    it('copies the exact messages up to the branch turn into a new conversation', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const source = manager.create('google/gemini-3.1-flash-image-preview', '1:1');
+      for (const n of [1, 2, 3]) {
+        manager.addUserMessage(source.id, `Prompt ${n}`);
+        manager.addAssistantResponse(source.id, signedTurn(n));
+      }
+
+      const branch = manager.branch(source.id, 2, [{ data: 'data:image/png;base64,IMG2', seed: 2 }]);
+
+      expect(branch.id).not.toBe(source.id);
+      expect(branch.turnNumber).toBe(2);
+      expect(branch.messages).toEqual(source.messages.slice(0, 4));
+      expect(branch.messages[3].images?.[0]).toHaveProperty('thought_signature', 'sig-2');
+      expect(branch.lastImages).toEqual(['data:image/png;base64,IMG2']);
+      expect(branch.lastSeed).toBe(2);
+
+      // Extending the branch leaves the source untouched
+      manager.addUserMessage(branch.id, 'Different direction');
+      expect(source.messages).toHaveLength(6);
+      expect(manager.get(branch.id)?.messages).toHaveLength(5);
+    });
+
+    it('rejects a turn the conversation does not have', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const source = manager.create('google/gemini-3.1-flash-image-preview', '1:1');
+      manager.addUserMessage(source.id, 'Prompt 1');
+      manager.addAssistantResponse(source.id, signedTurn(1));
+
+      expect(() => manager.branch(source.id, 2)).toThrow(`Conversation ${source.id} has no turn 2`);
+    });
+  });
+
+  describe('getContinuationReferences', () => {
+    const images = ['A', 'B', 'C'].map((id) => ({ data: `data:image/png;base64,${id}`, mimeType: 'image/png' }));
+    const createWithImages = (manager: ImageConversationManager) => {
+      const conversation = manager.create('google/gemini-3.1-flash-image-preview', '1:1');
+      manager.addUserMessage(conversation.id, 'Three logo options');
+      manager.addAssistantResponse(conversation.id, { images, seed: 1 });
+      return conversation;
+    };
+
+    it('references only the picked images and names them in a note', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const conversation = createWithImages(manager);
+
+      expect(manager.getContinuationReferences(conversation.id, ['data:image/png;base64,C', 'data:image/png;base64,A'])).toEqual({
+        images: ['data:image/png;base64,A', 'data:image/png;base64,C'],
+        note: 'Continue from images 1, 3 of the 3 in your last reply (attached) and ignore the others.',
+      });
+    });
+
+    it('references every latest image when none, all or only unknown ones are picked', () => {
+      const manager = new ImageConversationManager(logger as unknown as LoggingService);
+      const conversation = createWithImages(manager);
+      const all = { images: images.map((img) => img.data) };
+
+      expect(manager.getContinuationReferences(conversation.id)).toEqual(all);
+      expect(manager.getContinuationReferences(conversation.id, all.images)).toEqual(all);
+      expect(manager.getContinuationReferences(conversation.id, ['data:image/png;base64,Z'])).toEqual(all);
+    });
+  });
 });
@@ -0,0 +1,176 @@
+import { ImageOrchestrator, ImageVariationResult } from '@ai';
+import { LoggingService } from '@logging';
+
+const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.01 };
+
+describe('ImageOrchestrator', () => {
+  let orchestrator: ImageOrchestrator;
+  let mockLogger: jest.Mocked<LoggingService>;
+  let mockClient: { isConfigured: jest.Mock; generateImages: jest.Mock };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as any;
+
+    mockClient = {
+      isConfigured: jest.fn().mockResolvedValue(true),
+      generateImages: jest.fn().mockImplementation((request: { seed: number }) => Promise.resolve({
+        images: [{ data: `data:image/png;base64,SEED${request.seed}`, mimeType: 'image/png' }],
+        seed: request.seed,
+        usage,
+      })),
+    };
+
+    orchestrator = new ImageOrchestrator(mockLogger);
+    orchestrator.setClient(mockClient as any);
+  });
+
+  const options = { model: 'google/gemini-2.5-flash-image', aspectRatio: '1:1', seed: 100 };
+
+  describe('generateImage', () => {
+    it('should record the fallback model that answered on the turn and the conversation', async () => {
+      mockClient.generateImages.mockResolvedValueOnce({
+        images: [{ data: 'data:image/png;base64,AAA', mimeType: 'image/png' }],
+        seed: 100,
+        model: 'openai/gpt-5-image',
+      });
+
+      const turn = await orchestrator.generateImage('A fox', options);
+      await orchestrator.continueConversation(turn.conversationId, 'At night');
+
+      expect(turn.model).toBe('openai/gpt-5-image');
+      expect(orchestrator.getConversation(turn.conversationId)?.model).toBe('openai/gpt-5-image');
+      expect(mockClient.generateImages.mock.calls[1][0].model).toBe('openai/gpt-5-image');
+    });
+  });
+
+  describe('generateVariations', () => {
+    it('should use consecutive seeds and a separate conversation per variation', async () => {
+      const results = await orchestrator.generateVariations('A fox', options, 3);
+
+      expect(results.map((variation) => variation.seed)).toEqual([100, 101, 102]);
+      expect(mockClient.isConfigured).toHaveBeenCalledWith(options.model);
+      const ids = results.map((variation) => variation.turn!.conversationId);
+      expect(new Set(ids).size).toBe(3);
+      for (const variation of results) {
+        const conversation = orchestrator.getConversation(variation.turn!.conversationId);
+        expect(conversation?.lastSeed).toBe(variation.seed);
+        expect(conversation?.turnNumber).toBe(1);
+      }
+    });
+
+    it('should never run more requests at once than the concurrency cap', async () => {
+      let running = 0;
+      let peak = 0;
+      mockClient.generateImages.mockImplementation(async (request: { seed: number }) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return { images: [{ data: 'data:image/png;base64,X', mimeType: 'image/png' }], seed: request.seed };
+      });
+
+      const results = await orchestrator.generateVariations('A fox', options, 5, 2);
+
+      expect(mockClient.generateImages).toHaveBeenCalledTimes(5);
+      expect(peak).toBe(2);
+      expect(results).toHaveLength(5);
+    });
+
+    it('should report each variation and keep going when one fails', async () => {
+      mockClient.generateImages.mockImplementationOnce(() => Promise.reject(new Error('Rate limited')));
+      const reported: ImageVariationResult[] = [];
+
+      const results = await orchestrator.generateVariations('A fox', options, 3, 1, (variation) => reported.push(variation));
+
+      expect(reported.map((variation) => variation.index)).toEqual([0, 1, 2]);
+      expect(results[0].error?.message).toBe('Rate limited');
+      expect(results[0].turn).toBeUndefined();
+      expect(results[1].turn?.usage).toEqual(usage);
+      expect(results[2].turn?.result.seed).toBe(102);
+    });
+
+    it('should throw when every variation fails', async () => {
+      mockClient.generateImages.mockRejectedValue(new Error('Model unavailable'));
+
+      await expect(orchestrator.generateVariations('A fox', options, 2)).rejects.toThrow('Model unavailable');
+    });
+
+    it('should stop the batch when cancelled', async () => {
+      const controller = new AbortController();
+      mockClient.generateImages.mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new Error('Aborted'));
+      });
+
+      await expect(
+        orchestrator.generateVariations('A fox', { ...options, signal: controller.signal }, 4, 1)
+      ).rejects.toThrow();
+      expect(mockClient.generateImages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('compareModels', () => {
+    const models = ['google/gemini-2.5-flash-image', 'openai/gpt-5-image-mini', 'sourceful/riverflow-v2'];
+
+    it('should send the same seed to every model, each in its own conversation', async () => {
+      const results = await orchestrator.compareModels('A fox', { aspectRatio: '1:1', seed: 7 }, models);
+
+      const requests = mockClient.generateImages.mock.calls.map(([request]) => request);
+      expect(requests.map((request) => request.model)).toEqual(models);
+      expect(requests.every((request) => request.seed === 7)).toBe(true);
+      expect(results.map((result) => result.model)).toEqual(models);
+      expect(new Set(results.map((result) => result.turn!.conversationId)).size).toBe(3);
+    });
+
+    it('should report a failing model with its latency and keep the others', async () => {
+      mockClient.generateImages.mockImplementationOnce(() => Promise.reject(new Error('Model unavailable')));
+      const reported: string[] = [];
+
+      const results = await orchestrator.compareModels(
+        'A fox', { aspectRatio: '1:1' }, models, 1, (result) => reported.push(result.model)
+      );
+
+      expect(reported).toEqual(models);
+      expect(results[0].error?.message).toBe('Model unavailable');
+      expect(results[0].latencyMs).toBeGreaterThanOrEqual(0);
+      expect(results[1].turn?.usage).toEqual(usage);
+      expect(results[2].turn?.result.seed).toBe(results[1].turn?.result.seed);
+    });
+  });
+
+  describe('branchConversation', () => {
+    const history = [
+      { prompt: 'A fox', images: [{ data: 'data:image/png;base64,FOX', seed: 7 }] },
+      { prompt: 'Is it day or night?', images: [], text: 'Which time of day?' },
+      { prompt: 'At night', images: [{ data: 'data:image/png;base64,NIGHT', seed: 7 }] },
+    ];
+
+    it('should re-hydrate a lost source and refine the latest images up to the branch turn', async () => {
+      const branch = await orchestrator.branchConversation('img-lost', 2, history, options.model, '1:1');
+
+      expect(branch.id).not.toBe('img-lost');
+      expect(branch.messages).toHaveLength(4);
+      expect(branch.lastImages).toEqual(['data:image/png;base64,FOX']);
+      expect(orchestrator.getConversation('img-lost')?.turnNumber).toBe(3);
+
+      await orchestrator.continueConversation(branch.id, 'In the snow');
+      const request = mockClient.generateImages.mock.calls[0][0];
+      expect(request.messages[3].content).toEqual([{ type: 'text', text: 'Which time of day?' }]);
+      expect(request.messages[4].content).toEqual([
+        { type: 'text', text: 'In the snow' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,FOX' } },
+      ]);
+      expect(request.seed).toBe(7);
+    });
+
+    it('should fail without a stored source or history', async () => {
+      await expect(orchestrator.branchConversation('img-lost', 1))
+        .rejects.toThrow('Conversation img-lost not found');
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { SVGArchitectOrchestrator, getFailedStepUsage } from '@ai';
+import { LoggingService } from '@logging';
+import { SVGArchitectProgressPayload } from '@messages';
+
+const ORIGINAL_PNG = 'data:image/png;base64,ORIGINAL';
+const RENDERED_PNG = 'data:image/png;base64,RENDERED';
+
+const analysisResponse = `### Description
+A red circle on a white background.
+
+### Blueprint
+#### Layout
+- Circle centered at (512, 512), radius 300
+#### Colors
+- Fill #ff0000
+
+### Confidence
+90`;
+
+const validationResponse = (score: number) => `### Comparison Analysis
+Shapes match.
+
+### Issues Found
+- Circle is slightly small
+
+### Blueprint Corrections
+- Increase radius to 320
+
+### Confidence Score
+${score}
+
+### Recommendation
+${score >= 85 ? 'ACCEPT' : 'ITERATE'}`;
+
+const svgResponse = (radius: number) =>
+  `\`\`\`svg\n<svg viewBox="0 0 1024 1024"><circle cx="512" cy="512" r="${radius}" fill="#ff0000"/></svg>\n\`\`\``;
+
+describe('SVGArchitectOrchestrator', () => {
+  let orchestrator: SVGArchitectOrchestrator;
+  let mockLogger: jest.Mocked<LoggingService>;
+  let mockClient: { isConfigured: jest.Mock; createCompletion: jest.Mock };
+  let mockPromptLoader: { load: jest.Mock };
+  let progress: SVGArchitectProgressPayload[];
+  const onProgress = (payload: SVGArchitectProgressPayload) => progress.push(payload);
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as any;
+
+    mockClient = {
+      isConfigured: jest.fn().mockResolvedValue(true),
+      createCompletion: jest.fn(),
+    };
+
+    mockPromptLoader = {
+      load: jest.fn().mockImplementation((_category: string, name: string) => Promise.resolve(`PROMPT:${name}`)),
+    };
+
+    progress = [];
+    orchestrator = new SVGArchitectOrchestrator(mockLogger, mockPromptLoader as any);
+    orchestrator.setClient(mockClient as any);
+  });
+
+  const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: 0.01 };
+
+  const startSession = async (maxIterations = 3) => {
+    mockClient.createCompletion
+      .mockResolvedValueOnce({ content: analysisResponse, usage })
+      .mockResolvedValueOnce({ content: svgResponse(300), usage });
+
+    return orchestrator.start(
+      { prompt: 'Recreate this logo', referenceImage: ORIGINAL_PNG },
+      {
+        blueprintModel: 'google/gemini-3.1-pro-preview',
+        renderModel: 'openai/gpt-5.3-codex',
+        aspectRatio: '1:1',
+        maxIterations,
+      },
+      onProgress
+    );
+  };
+
+  describe('start', () => {
+    it('should throw if no client is configured', async () => {
+      const unconfigured = new SVGArchitectOrchestrator(mockLogger, mockPromptLoader as any);
+      await expect(unconfigured.start(
+        { prompt: 'x' },
+        { blueprintModel: 'a', renderModel: 'b', aspectRatio: '1:1', maxIterations: 1 },
+        onProgress
+      )).rejects.toThrow('No text client configured');
+    });
+
+    it('should analyze with the blueprint model and render with the render model', async () => {
+      const step = await startSession();
+
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(2);
+      const [analysisMessages, analysisOptions] = mockClient.createCompletion.mock.calls[0];
+      expect(analysisOptions).toEqual({ model: 'google/gemini-3.1-pro-preview' });
+      expect(analysisMessages[0].content).toContain('PROMPT:blueprint-analysis');
+      expect(analysisMessages[0].content).toContain('viewBox="0 0 1024 1024"');
+      expect(analysisMessages[1].content).toEqual(expect.arrayContaining([
+        { type: 'image_url', image_url: { url: ORIGINAL_PNG } },
+      ]));
+
+      const [renderMessages, renderOptions] = mockClient.createCompletion.mock.calls[1];
+      expect(renderOptions).toEqual({ model: 'openai/gpt-5.3-codex' });
+      expect(renderMessages[1].content[0].text).toContain('Circle centered at (512, 512)');
+
+      expect(step.result).toBeUndefined();
+      expect(step.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30, costUsd: 0.02 });
+    });
+
+    it('should end awaiting a PNG of iteration 1 with the extracted SVG', async () => {
+      const step = await startSession();
+
+      const last = progress[progress.length - 1];
+      expect(last.status).toBe('awaiting-png');
+      expect(last.iteration).toBe(1);
+      expect(last.svgCode).toBe('<svg viewBox="0 0 1024 1024"><circle cx="512" cy="512" r="300" fill="#ff0000"/></svg>');
+      expect(last.description).toBe('A red circle on a white background.');
+      expect(orchestrator.getConversation(step.conversationId)?.status).toBe('awaiting-png');
+    });
+
+    it('should cap the iterations and pass the abort signal to every agent call', async () => {
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: analysisResponse })
+        .mockResolvedValueOnce({ content: svgResponse(300) });
+      const controller = new AbortController();
+
+      const step = await orchestrator.start(
+        { prompt: 'x' },
+        { blueprintModel: 'a', renderModel: 'b', aspectRatio: '1:1', maxIterations: 1000 },
+        onProgress,
+        controller.signal
+      );
+
+      expect(orchestrator.getConversation(step.conversationId)?.maxIterations).toBe(10);
+      expect(mockClient.createCompletion.mock.calls.map(([, options]) => options.signal))
+        .toEqual([controller.signal, controller.signal]);
+    });
+
+    it('should throw when the render response has no SVG', async () => {
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: analysisResponse })
+        .mockResolvedValueOnce({ content: 'I cannot draw that.' });
+
+      await expect(orchestrator.start(
+        { prompt: 'x' },
+        { blueprintModel: 'a', renderModel: 'b', aspectRatio: '1:1', maxIterations: 1 },
+        onProgress
+      )).rejects.toThrow('No valid SVG code found in render response');
+    });
+
+    it('should attach the usage already spent to the error of a failed step', async () => {
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: analysisResponse, usage })
+        .mockRejectedValueOnce(new Error('Render model unavailable'));
+
+      const error = await orchestrator.start(
+        { prompt: 'x' },
+        { blueprintModel: 'a', renderModel: 'b', aspectRatio: '1:1', maxIterations: 1 },
+        onProgress
+      ).catch((caught: unknown) => caught);
+
+      expect((error as Error).message).toBe('Render model unavailable');
+      expect(getFailedStepUsage(error)).toEqual(usage);
+    });
+  });
+
+  describe('submitRender', () => {
+    it('should complete when validation confidence meets the threshold', async () => {
+      const { conversationId } = await startSession();
+      mockClient.createCompletion.mockResolvedValueOnce({ content: validationResponse(92), usage });
+
+      const step = await orchestrator.submitRender(conversationId, 1, RENDERED_PNG, undefined, onProgress);
+
+      const [validationMessages] = mockClient.createCompletion.mock.calls[2];
+      const images = validationMessages[1].content.filter((part: any) => part.type === 'image_url');
+      expect(images.map((part: any) => part.image_url.url)).toEqual([ORIGINAL_PNG, RENDERED_PNG]);
+
+      expect(step.result).toEqual(expect.objectContaining({
+        conversationId,
+        iteration: 1,
+        iterationCount: 1,
+        confidenceScore: 92,
+        accepted: true,
+      }));
+      expect(step.result?.usage?.totalTokens).toBe(45);
+    });
+
+    it('should re-render with corrections when confidence is below the threshold', async () => {
+      const { conversationId } = await startSession();
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: validationResponse(60) })
+        .mockResolvedValueOnce({ content: svgResponse(320) });
+
+      const step = await orchestrator.submitRender(conversationId, 1, RENDERED_PNG, undefined, onProgress);
+
+      expect(step.result).toBeUndefined();
+      const [renderMessages] = mockClient.createCompletion.mock.calls[3];
+      const renderText = renderMessages[1].content[0].text;
+      expect(renderText).toContain('Previous SVG (iteration 1)');
+      expect(renderText).toContain('Increase radius to 320');
+
+      const last = progress[progress.length - 1];
+      expect(last.status).toBe('awaiting-png');
+      expect(last.iteration).toBe(2);
+    });
+
+    it('should return the best iteration when the iteration cap is reached', async () => {
+      const { conversationId } = await startSession(2);
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: validationResponse(70) })
+        .mockResolvedValueOnce({ content: svgResponse(320) })
+        .mockResolvedValueOnce({ content: validationResponse(50) });
+
+      await orchestrator.submitRender(conversationId, 1, RENDERED_PNG, undefined, onProgress);
+      const step = await orchestrator.submitRender(conversationId, 2, RENDERED_PNG, undefined, onProgress);
+
+      expect(step.result).toEqual(expect.objectContaining({
+        iteration: 1,
+        iterationCount: 2,
+        confidenceScore: 70,
+        accepted: false,
+      }));
+      expect(step.result?.svgCode).toContain('r="300"');
+    });
+
+    it('should skip the validation call when the webview could not rasterize the SVG', async () => {
+      const { conversationId } = await startSession();
+      mockClient.createCompletion.mockResolvedValueOnce({ content: svgResponse(310) });
+
+      await orchestrator.submitRender(conversationId, 1, undefined, 'Browser could not parse the SVG', onProgress);
+
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(3);
+      const [renderMessages, renderOptions] = mockClient.createCompletion.mock.calls[2];
+      expect(renderOptions).toEqual({ model: 'openai/gpt-5.3-codex' });
+      expect(renderMessages[1].content[0].text).toContain('failed to render in the browser');
+    });
+
+    it('should reject a PNG for a stale iteration', async () => {
+      const { conversationId } = await startSession();
+
+      await expect(
+        orchestrator.submitRender(conversationId, 2, RENDERED_PNG, undefined, onProgress)
+      ).rejects.toThrow('is not awaiting a render for iteration 2');
+    });
+
+    it('should keep only the latest rendered PNG in session state', async () => {
+      const { conversationId } = await startSession();
+      mockClient.createCompletion
+        .mockResolvedValueOnce({ content: validationResponse(60) })
+        .mockResolvedValueOnce({ content: svgResponse(320) })
+        .mockResolvedValueOnce({ content: validationResponse(90) });
+
+      await orchestrator.submitRender(conversationId, 1, 'data:image/png;base64,FIRST', undefined, onProgress);
+      await orchestrator.submitRender(conversationId, 2, 'data:image/png;base64,SECOND', undefined, onProgress);
+
+      const iterations = orchestrator.getConversation(conversationId)!.iterations;
+      expect(iterations[0].renderedPng).toBeUndefined();
+      expect(iterations[1].renderedPng).toBe('data:image/png;base64,SECOND');
+    });
+  });
+
+  describe('parseValidation', () => {
+    const callParseValidation = (content: string) => (orchestrator as any).parseValidation(content);
+
+    it('should parse the confidence score and join issues with corrections', () => {
+      const verdict = callParseValidation(validationResponse(77));
+      expect(verdict.confidenceScore).toBe(77);
+      expect(verdict.corrections).toContain('Circle is slightly small');
+      expect(verdict.corrections).toContain('Increase radius to 320');
+    });
+
+    it('should fall back to an inline confidence mention', () => {
+      const verdict = callParseValidation('Looks close. Confidence: 88/100. Tweak the stroke.');
+      expect(verdict.confidenceScore).toBe(88);
+      expect(verdict.corrections).toBe('Looks close. Confidence: 88/100. Tweak the stroke.');
+    });
+
+    it('should clamp scores and default to 0 when missing', () => {
+      expect(callParseValidation('### Confidence Score\n150').confidenceScore).toBe(100);
+      expect(callParseValidation('No score here').confidenceScore).toBe(0);
+    });
+  });
+
+  describe('parseAnalysis', () => {
+    const callParseAnalysis = (content: string) => (orchestrator as any).parseAnalysis(content);
+
+    it('should keep nested headings inside the blueprint', () => {
+      const { description, blueprint } = callParseAnalysis(analysisResponse);
+      expect(description).toBe('A red circle on a white background.');
+      expect(blueprint).toContain('#### Layout');
+      expect(blueprint).toContain('#### Colors');
+      expect(blueprint).not.toContain('### Confidence');
+    });
+
+    it('should use the full response when there is no Blueprint section', () => {
+      const { blueprint } = callParseAnalysis('Draw a red circle.');
+      expect(blueprint).toBe('Draw a red circle.');
+    });
+  });
+});
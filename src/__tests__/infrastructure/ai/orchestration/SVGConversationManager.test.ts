@@ -28,4 +28,47 @@ describe('SVGConversationManager', () => {
     expect(conversation.messages[2].role).toBe('assistant');
     expect(conversation.messages[conversation.messages.length - 1].content).toContain('<svg><g /></svg>');
   });
+
+  it('adds the brand style guide to the system prompt and its references to the first user message', () => {
+    const manager = new SVGConversationManager(mockLogger);
+    const style = {
+      id: 'style-1',
+      name: 'Acme',
+      palette: ['#112233'],
+      descriptors: 'Rounded strokes',
+      negativeGuidance: '',
+      referenceImages: ['data:image/png;base64,STYLE'],
+    };
+    const conversation = manager.create('model-a', '1:1', style);
+
+    manager.addUserMessage(conversation.id, 'Draw a cat', undefined, undefined, style);
+    manager.addAssistantResponse(conversation.id, '<svg></svg>');
+    manager.addUserMessage(conversation.id, 'Refine it', undefined, undefined, style);
+
+    expect(conversation.messages[0].content).toContain('Brand style guide "Acme"');
+    expect(conversation.messages[0].content).toContain('- Style: Rounded strokes');
+    expect(conversation.messages[1].content).toEqual([
+      { type: 'text', text: 'Draw a cat' },
+      { type: 'text', text: expect.stringMatching(/^Style reference 1 of 1/) },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,STYLE' } },
+    ]);
+    expect(conversation.messages[3].content).toBe('Refine it');
+  });
+
+  it('branches from an earlier turn, keeping the system prompt', () => {
+    const manager = new SVGConversationManager(mockLogger);
+    const source = manager.create('model-a', '1:1');
+    manager.addUserMessage(source.id, 'Draw a cat');
+    manager.addAssistantResponse(source.id, '<svg id="1"></svg>');
+    manager.addUserMessage(source.id, 'Make it orange');
+    manager.addAssistantResponse(source.id, '<svg id="2"></svg>');
+
+    const branch = manager.branch(source.id, 1);
+
+    expect(branch.id).not.toBe(source.id);
+    expect(branch.turnNumber).toBe(1);
+    expect(branch.messages).toEqual(source.messages.slice(0, 3));
+    expect(branch.messages[0].role).toBe('system');
+    expect(() => manager.branch(source.id, 3)).toThrow('has no turn 3');
+  });
 });
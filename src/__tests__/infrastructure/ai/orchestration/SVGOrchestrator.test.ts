@@ -170,4 +170,134 @@ describe('SVGOrchestrator', () => {
       });
     });
   });
+
+  describe('rollback on failure or cancel', () => {
+    let mockClient: { isConfigured: jest.Mock; createCompletion: jest.Mock };
+    const svgResponse = '<svg viewBox="0 0 1024 1024"><circle r="10"/></svg>';
+
+    beforeEach(() => {
+      mockClient = {
+        isConfigured: jest.fn().mockResolvedValue(true),
+        createCompletion: jest.fn(),
+      };
+      orchestrator.setClient(mockClient as any);
+    });
+
+    const startConversation = async () => {
+      mockClient.createCompletion.mockResolvedValueOnce({ content: svgResponse });
+      return orchestrator.generateSVG('A circle', { model: 'm', aspectRatio: '1:1' });
+    };
+
+    it('should pass the abort signal to the client', async () => {
+      const controller = new AbortController();
+      mockClient.createCompletion.mockResolvedValueOnce({ content: svgResponse });
+
+      await orchestrator.generateSVG('A circle', { model: 'm', aspectRatio: '1:1', signal: controller.signal });
+
+      expect(mockClient.createCompletion.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it('should remove the pending user message when a continuation is aborted', async () => {
+      const { conversationId } = await startConversation();
+      const controller = new AbortController();
+      mockClient.createCompletion.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error('This operation was aborted');
+      });
+
+      await expect(
+        orchestrator.continueSVG(conversationId, 'Make it red', undefined, undefined, undefined, undefined, undefined, controller.signal)
+      ).rejects.toThrow('aborted');
+
+      const conversation = orchestrator.getConversation(conversationId)!;
+      expect(conversation.turnNumber).toBe(1);
+      expect(conversation.messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant']);
+    });
+
+    it('should discard a response that arrives after cancel', async () => {
+      const { conversationId } = await startConversation();
+      const controller = new AbortController();
+      mockClient.createCompletion.mockImplementationOnce(async () => {
+        controller.abort();
+        return { content: svgResponse };
+      });
+
+      await expect(
+        orchestrator.continueSVG(conversationId, 'Make it red', undefined, undefined, undefined, undefined, undefined, controller.signal)
+      ).rejects.toThrow();
+
+      expect(orchestrator.getConversation(conversationId)!.messages).toHaveLength(3);
+    });
+
+    it('should drop a conversation created by a failed first turn', async () => {
+      mockClient.createCompletion.mockResolvedValueOnce({ content: 'Sorry, I cannot draw that.' });
+
+      await expect(
+        orchestrator.generateSVG('A circle', { model: 'm', aspectRatio: '1:1' })
+      ).rejects.toThrow('No valid SVG code found');
+
+      expect((orchestrator as any).conversationManager.conversations.size).toBe(0);
+    });
+  });
+
+  describe('conversation store', () => {
+    let mockClient: { isConfigured: jest.Mock; createCompletion: jest.Mock };
+    let mockStore: { save: jest.Mock; load: jest.Mock; delete: jest.Mock };
+    const svgResponse = '<svg viewBox="0 0 1024 1024"><circle r="10"/></svg>';
+
+    beforeEach(() => {
+      mockClient = {
+        isConfigured: jest.fn().mockResolvedValue(true),
+        createCompletion: jest.fn().mockResolvedValue({ content: svgResponse }),
+      };
+      mockStore = {
+        save: jest.fn().mockResolvedValue(undefined),
+        load: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+      };
+      orchestrator.setClient(mockClient as any);
+      orchestrator.setStore(mockStore as any);
+    });
+
+    it('should save the conversation after each completed turn', async () => {
+      const { conversationId } = await orchestrator.generateSVG('A circle', { model: 'm', aspectRatio: '1:1' });
+
+      expect(mockStore.save).toHaveBeenCalledWith('svg', expect.objectContaining({ id: conversationId }));
+    });
+
+    it('should restore a stored conversation before falling back to history', async () => {
+      mockStore.load.mockResolvedValueOnce({
+        id: 'svg-stored',
+        messages: [
+          { role: 'system', content: 'system' },
+          { role: 'user', content: 'A circle' },
+          { role: 'assistant', content: svgResponse },
+        ],
+        model: 'stored-model',
+        aspectRatio: '16:9',
+        turnNumber: 1,
+      });
+
+      const result = await orchestrator.continueSVG(
+        'svg-stored',
+        'Make it red',
+        [{ prompt: 'Lossy history', svgCode: '<svg/>' }],
+        'history-model',
+        '1:1'
+      );
+
+      expect(mockStore.load).toHaveBeenCalledWith('svg', 'svg-stored');
+      expect(result.turnNumber).toBe(2);
+      const [messages, options] = mockClient.createCompletion.mock.calls[0];
+      expect(options.model).toBe('stored-model');
+      expect(messages[2].content).toBe(svgResponse);
+      expect(orchestrator.getConversation('svg-stored')?.aspectRatio).toBe('16:9');
+    });
+
+    it('should delete the stored copy when a conversation is cleared', () => {
+      orchestrator.clearConversation('svg-1');
+
+      expect(mockStore.delete).toHaveBeenCalledWith('svg', 'svg-1');
+    });
+  });
 });
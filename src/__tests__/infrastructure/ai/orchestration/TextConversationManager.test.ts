@@ -22,4 +22,23 @@ describe('TextConversationManager', () => {
     expect(conversation.messages[1]).toEqual({ role: 'user', content: 'Hi' });
     expect(conversation.messages[2]).toEqual({ role: 'assistant', content: 'Hello' });
   });
+
+  it('rolls back an unanswered user message and its turn', () => {
+    const manager = new TextConversationManager({ maxTurns: 5 });
+    const id = manager.createConversation();
+
+    manager.addUserMessage(id, 'First');
+    manager.addAssistantMessage(id, 'Reply');
+    manager.addUserMessage(id, 'Second');
+
+    expect(manager.removeLastUserMessage(id)).toBe(true);
+    expect(manager.getTurnCount(id)).toBe(1);
+    expect(manager.getMessages(id).map((m) => m.content)).toEqual([
+      'You are a helpful assistant.',
+      'First',
+      'Reply',
+    ]);
+    // Last message is now the assistant reply - nothing to roll back
+    expect(manager.removeLastUserMessage(id)).toBe(false);
+  });
 });
@@ -0,0 +1,59 @@
+import {
+  ALL_ASPECT_RATIOS,
+  DEFAULT_MODEL_CAPABILITIES,
+  getModelCapabilities,
+  resolveAspectRatio,
+} from '../../../../infrastructure/ai/providers/ModelCapabilities';
+
+describe('ModelCapabilities', () => {
+  describe('getModelCapabilities', () => {
+    it('limits Sourceful reference images to 4.5MB', () => {
+      for (const id of ['sourceful/riverflow-v2-max-preview', 'sourceful/riverflow-v2-fast-preview']) {
+        expect(getModelCapabilities(id).maxReferenceBytes).toBe(4.5 * 1024 * 1024);
+      }
+      for (const id of ['google/gemini-2.5-flash-image', 'openai/gpt-5-image', 'black-forest-labs/flux.2-max', '']) {
+        expect(getModelCapabilities(id).maxReferenceBytes).toBeUndefined();
+      }
+    });
+
+    it('makes FLUX and Sourceful image-only and single-turn', () => {
+      for (const id of ['black-forest-labs/flux.2-pro', 'sourceful/riverflow-v2-pro']) {
+        expect(getModelCapabilities(id)).toMatchObject({ outputModalities: ['image'], multiTurn: false });
+      }
+    });
+
+    it('requires thought signatures for Gemini through either provider', () => {
+      expect(getModelCapabilities('google/gemini-3-pro-image-preview').thoughtSignatures).toBe(true);
+      expect(getModelCapabilities('gemini:gemini-3.1-flash-image-preview').thoughtSignatures).toBe(true);
+      expect(getModelCapabilities('openai/gpt-5-image').thoughtSignatures).toBe(false);
+    });
+
+    it('restricts GPT image models and gives the direct Images API a native mask', () => {
+      expect(getModelCapabilities('openai/gpt-5-image')).toMatchObject({
+        aspectRatios: ['1:1', '3:2', '2:3'],
+        seed: false,
+        multiTurn: true,
+        nativeMask: false,
+      });
+      expect(getModelCapabilities('openai:gpt-image-1')).toMatchObject({ multiTurn: false, nativeMask: true });
+    });
+
+    it('applies curated overrides on top of the family', () => {
+      expect(getModelCapabilities('google/gemini-2.5-flash-image')).toMatchObject({
+        maxReferenceImages: 3,
+        thoughtSignatures: true,
+      });
+      expect(getModelCapabilities('vendor/unknown-image-model')).toEqual(DEFAULT_MODEL_CAPABILITIES);
+    });
+  });
+
+  describe('resolveAspectRatio', () => {
+    it('falls back to the first supported ratio', () => {
+      const gpt = getModelCapabilities('openai/gpt-5-image');
+
+      expect(resolveAspectRatio(gpt, '3:2')).toBe('3:2');
+      expect(resolveAspectRatio(gpt, '16:9')).toBe('1:1');
+      expect(DEFAULT_MODEL_CAPABILITIES.aspectRatios).toBe(ALL_ASPECT_RATIOS);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { ModelCatalogService, buildModelCatalog, OpenRouterModelRecord } from '@ai';
+import { OPENROUTER_CONFIG } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const records: OpenRouterModelRecord[] = [
+  {
+    id: 'google/gemini-2.5-flash-image',
+    name: 'Google: Gemini 2.5 Flash Image',
+    context_length: 32768,
+    architecture: { input_modalities: ['image', 'text'], output_modalities: ['image', 'text'] },
+    pricing: { prompt: '0.0000003', completion: '0.0000025' },
+  },
+  {
+    id: 'acme/text-only',
+    name: 'Acme: Text Only',
+    context_length: 128000,
+    architecture: { input_modalities: ['text'], output_modalities: ['text'] },
+    pricing: { prompt: '0.000001', completion: '0.000002' },
+  },
+  {
+    id: 'acme/vision',
+    name: 'Acme: Vision',
+    architecture: { input_modalities: ['text', 'image'], output_modalities: ['text'] },
+    pricing: { prompt: '-1', completion: '-1' },
+  },
+];
+
+const curated = {
+  image: [{ id: 'google/gemini-2.5-flash-image', displayName: 'Nano Banana', inputCost: 9, outputCost: 9 }],
+  svg: [{ id: 'acme/missing', displayName: 'Missing Model' }],
+  svgBlueprint: [],
+};
+
+function createMemento(initial: Record<string, unknown> = {}) {
+  const data = { ...initial };
+  return {
+    get: jest.fn((key: string) => data[key]),
+    update: jest.fn(async (key: string, value: unknown) => {
+      data[key] = value;
+    }),
+    keys: () => Object.keys(data),
+  };
+}
+
+describe('buildModelCatalog', () => {
+  it('sorts models into generation types by modality', () => {
+    const catalog = buildModelCatalog(records, curated);
+
+    expect(catalog.image.map((model) => model.id)).toEqual(['google/gemini-2.5-flash-image']);
+    expect(catalog.svg.map((model) => model.id)).toEqual(['acme/missing', 'acme/text-only', 'acme/vision']);
+    expect(catalog.svgBlueprint.map((model) => model.id)).toEqual(['acme/vision']);
+  });
+
+  it('keeps curated names and flags while applying live pricing', () => {
+    const [model] = buildModelCatalog(records, curated).image;
+
+    expect(model).toEqual(expect.objectContaining({
+      displayName: 'Nano Banana',
+      inputCost: 0.3,
+      outputCost: 2.5,
+      contextLength: 32768,
+      inputModalities: ['image', 'text'],
+      recommended: true,
+    }));
+  });
+
+  it('leaves variable pricing unknown', () => {
+    const vision = buildModelCatalog(records, curated).svgBlueprint[0];
+    expect(vision.inputCost).toBeUndefined();
+    expect(vision.outputCost).toBeUndefined();
+  });
+});
+
+describe('ModelCatalogService', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches and caches the catalog', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: records }) });
+    const memento = createMemento();
+    const service = new ModelCatalogService(memento as never, mockLogger as never);
+
+    const first = await service.getCatalog();
+    const second = await service.getCatalog();
+
+    expect(first.source).toBe('live');
+    expect(second.source).toBe('cache');
+    expect(second.models).toEqual(first.models);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches when the cache has expired or a refresh is forced', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: records }) });
+    const memento = createMemento({
+      'pixelMinion.modelCatalog': { fetchedAt: Date.now() - 2000, models: OPENROUTER_CONFIG.models },
+    });
+    const service = new ModelCatalogService(memento as never, mockLogger as never, 1000);
+
+    expect((await service.getCatalog()).source).toBe('live');
+    expect((await service.getCatalog(true)).source).toBe('live');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves a stale cache when the endpoint fails', async () => {
+    mockFetch.mockRejectedValue(new Error('offline'));
+    const memento = createMemento({
+      'pixelMinion.modelCatalog': { fetchedAt: 1, models: curated },
+    });
+    const service = new ModelCatalogService(memento as never, mockLogger as never);
+
+    const catalog = await service.getCatalog();
+
+    expect(catalog).toEqual({ models: curated, source: 'cache', fetchedAt: 1 });
+  });
+
+  it('falls back to the curated lists without a cache', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+    const service = new ModelCatalogService(createMemento() as never, mockLogger as never);
+
+    const catalog = await service.getCatalog();
+
+    expect(catalog).toEqual({ models: OPENROUTER_CONFIG.models, source: 'fallback' });
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  parseModelId,
+  getModelsForType,
+  groupModelsByProvider,
+} from '../../../../infrastructure/ai/providers/ProviderCatalog';
+
+describe('ProviderCatalog', () => {
+  describe('parseModelId', () => {
+    it('treats unprefixed IDs as OpenRouter models', () => {
+      expect(parseModelId('google/gemini-2.5-flash-image')).toEqual({
+        providerId: 'openrouter',
+        model: 'google/gemini-2.5-flash-image',
+      });
+    });
+
+    it('keeps OpenRouter variant suffixes intact', () => {
+      expect(parseModelId('meta-llama/llama-3.3-70b-instruct:free')).toEqual({
+        providerId: 'openrouter',
+        model: 'meta-llama/llama-3.3-70b-instruct:free',
+      });
+    });
+
+    it('strips known provider prefixes', () => {
+      expect(parseModelId('openai:gpt-image-1')).toEqual({ providerId: 'openai', model: 'gpt-image-1' });
+      expect(parseModelId('anthropic:claude-sonnet-4-5')).toEqual({
+        providerId: 'anthropic',
+        model: 'claude-sonnet-4-5',
+      });
+    });
+
+    it('only strips the first separator for custom models', () => {
+      expect(parseModelId('custom:qwen2.5-coder:32b')).toEqual({
+        providerId: 'custom',
+        model: 'qwen2.5-coder:32b',
+      });
+    });
+  });
+
+  describe('getModelsForType', () => {
+    it('includes custom endpoint models for SVG generation', () => {
+      const models = getModelsForType('svg', ['llama3.1']);
+      expect(models).toContainEqual(expect.objectContaining({ id: 'custom:llama3.1', provider: 'custom' }));
+    });
+
+    it('never offers custom endpoint models for image generation', () => {
+      const models = getModelsForType('image', ['llama3.1']);
+      expect(models.some((model) => model.id.startsWith('custom:'))).toBe(false);
+      expect(models.some((model) => model.id.startsWith('anthropic:'))).toBe(false);
+    });
+  });
+
+  describe('groupModelsByProvider', () => {
+    it('groups in provider display order and drops empty groups', () => {
+      const groups = groupModelsByProvider([
+        { id: 'gemini:gemini-2.5-flash-image', displayName: 'Nano Banana' },
+        { id: 'google/gemini-2.5-flash-image', displayName: 'Nano Banana (OpenRouter)' },
+      ]);
+
+      expect(groups.map((group) => group.providerId)).toEqual(['openrouter', 'gemini']);
+      expect(groups[1].models).toHaveLength(1);
+    });
+  });
+});
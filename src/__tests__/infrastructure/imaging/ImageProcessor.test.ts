@@ -0,0 +1,348 @@
+/**
+ * ImageProcessor tests
+ *
+ * Round-trips synthetic images through the codecs and checks the save pipeline
+ * (crop, resize, format conversion, metadata stripping), provenance embedding
+ * and reading, and the icon bundle
+ */
+import {
+  processImage,
+  decodeImage,
+  decodePng,
+  decodeJpeg,
+  encodePng,
+  encodeJpeg,
+  encodeWebp,
+  readPngChunks,
+  writePngChunks,
+  resizeImage,
+  cropImage,
+  createRasterImage,
+  detectImageFormat,
+  getUndecodableReason,
+  buildIconBundle,
+  embedProvenance,
+  embedSvgProvenance,
+  readProvenance,
+  readSvgProvenance,
+  serializeProvenanceSidecar,
+  parseProvenanceSidecar,
+  RasterImage,
+} from '../../../infrastructure/imaging';
+import { DEFAULT_IMAGE_SAVE_OPTIONS } from '../../../shared/types/messages/imageGeneration';
+
+/** Smooth gradient with an alpha ramp */
+function gradient(width: number, height: number, withAlpha = false): RasterImage {
+  const image = createRasterImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      image.data[i] = Math.round((x / width) * 255);
+      image.data[i + 1] = Math.round((y / height) * 255);
+      image.data[i + 2] = 128;
+      image.data[i + 3] = withAlpha ? Math.round(((x + y) / (width + height)) * 255) : 255;
+    }
+  }
+  return image;
+}
+
+function meanError(a: RasterImage, b: RasterImage): number {
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    total += Math.abs(a.data[i] - b.data[i]);
+  }
+  return total / a.data.length;
+}
+
+function withTextChunk(png: Uint8Array): Uint8Array {
+  const chunks = readPngChunks(png);
+  const text = { type: 'tEXt', data: new TextEncoder().encode('Comment\0secret prompt') };
+  return writePngChunks([chunks[0], text, ...chunks.slice(1)]);
+}
+
+describe('imaging codecs', () => {
+  it('round-trips PNG losslessly, including alpha', () => {
+    const image = gradient(37, 21, true);
+    const decoded = decodePng(encodePng(image));
+
+    expect(decoded.width).toBe(37);
+    expect(decoded.height).toBe(21);
+    expect(Buffer.from(decoded.data).equals(Buffer.from(image.data))).toBe(true);
+  });
+
+  it('round-trips JPEG within compression error', () => {
+    const image = gradient(40, 24);
+    const decoded = decodeJpeg(encodeJpeg(image, 90));
+
+    expect(decoded.width).toBe(40);
+    expect(decoded.height).toBe(24);
+    expect(meanError(decoded, image)).toBeLessThan(3);
+  });
+
+  it('shrinks JPEGs as quality drops', () => {
+    const image = gradient(64, 64);
+
+    expect(encodeJpeg(image, 30).length).toBeLessThan(encodeJpeg(image, 95).length);
+  });
+
+  it('writes a lossless WebP container', () => {
+    const webp = encodeWebp(gradient(20, 10, true));
+    const view = new DataView(webp.buffer);
+
+    expect(detectImageFormat(webp)).toBe('webp');
+    expect(view.getUint32(4, true)).toBe(webp.length - 8);
+    expect(String.fromCharCode(...webp.subarray(12, 16))).toBe('VP8L');
+    expect(webp[20]).toBe(0x2f);
+    // 14-bit width-1 and height-1, then the alpha hint
+    const header = view.getUint32(21, true);
+    expect((header & 0x3fff) + 1).toBe(20);
+    expect(((header >> 14) & 0x3fff) + 1).toBe(10);
+    expect((header >> 28) & 1).toBe(1);
+  });
+
+  it('rejects WebP input for pixel processing', () => {
+    expect(() => decodeImage(encodeWebp(gradient(4, 4)))).toThrow(/original format/);
+  });
+
+  it('names the inputs that can only be saved as-is', () => {
+    const jfif = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+    const progressive = new Uint8Array([...jfif, 0xff, 0xc2, 0x00, 0x02]);
+    const lossless = new Uint8Array([...jfif, 0xff, 0xc3, 0x00, 0x02]);
+
+    expect(getUndecodableReason(encodeWebp(gradient(4, 4)))).toMatch(/WebP/);
+    expect(getUndecodableReason(progressive)).toMatch(/Progressive/);
+    expect(() => decodeJpeg(progressive)).toThrow();
+    expect(getUndecodableReason(lossless)).toMatch(/baseline/);
+    expect(getUndecodableReason(encodeJpeg(gradient(8, 8), 90))).toBeNull();
+    expect(getUndecodableReason(encodePng(gradient(4, 4)))).toBeNull();
+  });
+});
+
+describe('imaging transforms', () => {
+  it('resizes to exact dimensions and keeps flat colours', () => {
+    const image = createRasterImage(64, 48);
+    image.data.fill(200);
+
+    const resized = resizeImage(image, 17, 9);
+
+    expect(resized.width).toBe(17);
+    expect(resized.height).toBe(9);
+    expect(resized.data.every((value) => value === 200)).toBe(true);
+  });
+
+  it('does not darken edges of transparent regions', () => {
+    const image = createRasterImage(4, 1);
+    image.data.set([255, 0, 0, 255, 255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    const resized = resizeImage(image, 2, 1);
+
+    expect(Array.from(resized.data.subarray(0, 3))).toEqual([255, 0, 0]);
+  });
+
+  it('crops to the region inside the image', () => {
+    const image = gradient(10, 10);
+    const cropped = cropImage(image, { x: 2, y: 3, width: 4, height: 20 });
+
+    expect(cropped.width).toBe(4);
+    expect(cropped.height).toBe(7);
+    expect(Array.from(cropped.data.subarray(0, 4))).toEqual(Array.from(image.data.subarray((3 * 10 + 2) * 4, (3 * 10 + 2) * 4 + 4)));
+    expect(() => cropImage(image, { x: 20, y: 0, width: 5, height: 5 })).toThrow(/outside/);
+  });
+});
+
+describe('processImage', () => {
+  const png = encodePng(gradient(64, 32));
+
+  it('keeps the original bytes when nothing changes', () => {
+    const result = processImage(png, DEFAULT_IMAGE_SAVE_OPTIONS);
+
+    expect(result.bytes).toBe(png);
+    expect(result.extension).toBe('png');
+  });
+
+  it('strips PNG text chunks without touching pixels', () => {
+    const tagged = withTextChunk(png);
+    const result = processImage(tagged, { ...DEFAULT_IMAGE_SAVE_OPTIONS, stripMetadata: true });
+
+    expect(readPngChunks(tagged).map((chunk) => chunk.type)).toContain('tEXt');
+    expect(readPngChunks(result.bytes).map((chunk) => chunk.type)).not.toContain('tEXt');
+    expect(decodePng(result.bytes).data).toEqual(decodePng(png).data);
+  });
+
+  it('converts format and resizes, keeping aspect with one side set', () => {
+    const result = processImage(png, { ...DEFAULT_IMAGE_SAVE_OPTIONS, format: 'jpeg', quality: 80, width: 32 });
+    const decoded = decodeJpeg(result.bytes);
+
+    expect(result.mimeType).toBe('image/jpeg');
+    expect(result.extension).toBe('jpg');
+    expect([decoded.width, decoded.height]).toEqual([32, 16]);
+  });
+
+  it('center-crops to fill exact dimensions', () => {
+    const result = processImage(png, { ...DEFAULT_IMAGE_SAVE_OPTIONS, format: 'png', width: 16, height: 16, fit: 'cover' });
+    const decoded = decodePng(result.bytes);
+
+    expect([decoded.width, decoded.height]).toEqual([16, 16]);
+    // The left quarter was cropped away, so the first column starts a quarter into the red ramp
+    expect(decoded.data[0]).toBeGreaterThan(40);
+  });
+
+  it('stretches when asked', () => {
+    const result = processImage(png, { ...DEFAULT_IMAGE_SAVE_OPTIONS, format: 'png', width: 16, height: 16, fit: 'stretch' });
+
+    expect(decodePng(result.bytes).data[0]).toBeLessThan(16);
+  });
+});
+
+describe('embedProvenance', () => {
+  const provenance = {
+    prompt: 'a fox in "snow" & ice\nwatercolor',
+    model: 'google/gemini-2.5-flash-image',
+    aspectRatio: '1:1',
+    seed: 42,
+    conversationId: 'conv-1',
+    timestamp: Date.UTC(2026, 2, 14, 12),
+  };
+  const image = gradient(16, 16);
+  const text = (bytes: Uint8Array) => Buffer.from(bytes).toString('utf-8');
+
+  it('writes PNG text chunks ahead of the image data, iTXt for non-Latin-1 values', () => {
+    const result = embedProvenance(encodePng(image), 'png', { ...provenance, prompt: 'ein Fuchs 🦊' });
+    const chunks = readPngChunks(result);
+    const keyword = (data: Uint8Array) => Buffer.from(data.subarray(0, data.indexOf(0))).toString('latin1');
+
+    expect(chunks.map((chunk) => chunk.type).slice(0, 3)).toEqual(['IHDR', 'tEXt', 'iTXt']);
+    expect(chunks.filter((chunk) => chunk.type !== 'IHDR' && chunk.type !== 'IDAT' && chunk.type !== 'IEND').map((chunk) => keyword(chunk.data)))
+      .toEqual(['Software', 'pixel-minion:prompt', 'pixel-minion:model', 'pixel-minion:seed', 'pixel-minion:aspectRatio', 'pixel-minion:conversationId', 'pixel-minion:timestamp']);
+    expect(text(result)).toContain('ein Fuchs 🦊');
+    expect(decodePng(result).data).toEqual(image.data);
+  });
+
+  it('replaces provenance from an earlier save', () => {
+    const once = embedProvenance(encodePng(image), 'png', provenance);
+    const twice = embedProvenance(once, 'png', { ...provenance, seed: 7 });
+
+    expect(readPngChunks(twice).length).toBe(readPngChunks(once).length);
+    expect(text(twice)).toContain('pixel-minion:seed\u00007');
+    expect(text(twice)).not.toContain('pixel-minion:seed\u000042');
+  });
+
+  it('adds an XMP segment to JPEGs after the JFIF header', () => {
+    const result = embedProvenance(encodeJpeg(image, 90), 'jpeg', provenance);
+
+    expect([result[2], result[3]]).toEqual([0xff, 0xe0]);
+    expect(text(result)).toContain('http://ns.adobe.com/xap/1.0/');
+    expect(text(result)).toContain('pm:prompt="a fox in &quot;snow&quot; &amp; ice&#10;watercolor"');
+    expect(text(result)).toContain('pm:timestamp="2026-03-14T12:00:00.000Z"');
+    expect(decodeJpeg(result).width).toBe(16);
+  });
+
+  it('converts simple WebPs to the extended layout with an XMP chunk', () => {
+    const result = embedProvenance(encodeWebp(gradient(20, 12, true)), 'webp', provenance);
+    const view = new DataView(result.buffer, result.byteOffset, result.byteLength);
+
+    expect(text(result.subarray(12, 16))).toBe('VP8X');
+    expect(result[20] & 0x04).toBe(0x04);
+    expect(result[20] & 0x10).toBe(0x10);
+    expect([(view.getUint32(24, true) & 0xffffff) + 1, (view.getUint32(27, true) & 0xffffff) + 1]).toEqual([20, 12]);
+    expect(view.getUint32(4, true)).toBe(result.length - 8);
+    expect(text(result)).toContain('XMP ');
+  });
+
+  it('writes a <metadata> element into SVGs, replacing an earlier one', () => {
+    const svg = '<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><rect/></svg>';
+    const once = embedSvgProvenance(svg, provenance);
+    const twice = embedSvgProvenance(once, { ...provenance, model: 'openai/gpt-5' });
+
+    expect(once).toMatch(/viewBox="0 0 10 10">\n<metadata id="pixel-minion-provenance">/);
+    expect(once).toContain('pm:seed="42"');
+    expect(twice.match(/<metadata/g)).toHaveLength(1);
+    expect(twice).toContain('pm:model="openai/gpt-5"');
+    expect(twice).toMatch(/<\/metadata><rect\/><\/svg>$/);
+  });
+});
+
+describe('readProvenance', () => {
+  const provenance = {
+    prompt: 'ein Fuchs 🦊 in "snow" & ice\n\twatercolor',
+    model: 'google/gemini-2.5-flash-image',
+    aspectRatio: '16:9',
+    seed: 42,
+    conversationId: 'conv-1',
+    timestamp: Date.UTC(2026, 2, 14, 12),
+  };
+  const image = gradient(16, 16);
+
+  it('reads back what each format embeds', () => {
+    expect(readProvenance(embedProvenance(encodePng(image), 'png', provenance), 'png')).toEqual(provenance);
+    expect(readProvenance(embedProvenance(encodeJpeg(image, 90), 'jpeg', provenance), 'jpeg')).toEqual(provenance);
+    expect(readProvenance(embedProvenance(encodeWebp(image), 'webp', provenance), 'webp')).toEqual(provenance);
+    expect(readSvgProvenance(embedSvgProvenance('<svg viewBox="0 0 10 10"><rect/></svg>', provenance))).toEqual(provenance);
+  });
+
+  it('returns null for files without provenance', () => {
+    expect(readProvenance(encodePng(image), 'png')).toBeNull();
+    expect(readProvenance(encodeJpeg(image, 90), 'jpeg')).toBeNull();
+    expect(readSvgProvenance('<svg><metadata>other</metadata></svg>')).toBeNull();
+  });
+
+  it('round-trips the JSON sidecar and skips malformed ones', () => {
+    const sidecar = serializeProvenanceSidecar(provenance);
+
+    expect(JSON.parse(sidecar)).toMatchObject({ generator: 'Pixel Minion', timestamp: '2026-03-14T12:00:00.000Z' });
+    expect(parseProvenanceSidecar(sidecar)).toEqual(provenance);
+    expect(parseProvenanceSidecar('{"prompt": "cat", "seed": 7, "timestamp": 1700000000000}'))
+      .toEqual({ prompt: 'cat', seed: 7, timestamp: 1700000000000 });
+    expect(parseProvenanceSidecar('not json')).toBeNull();
+    expect(parseProvenanceSidecar('{"width": 10}')).toBeNull();
+  });
+});
+
+describe('buildIconBundle', () => {
+  // Transparent corners, so the opaque icons get a white background
+  const files = buildIconBundle(gradient(96, 64, true), { appName: 'Demo', svgCode: '<svg></svg>' });
+  const file = (name: string): Uint8Array => files.find((candidate) => candidate.name === name)?.bytes ?? new Uint8Array();
+
+  it('writes every icon, the manifest and the link snippet', () => {
+    expect(files.map((candidate) => candidate.name)).toEqual([
+      'favicon.ico',
+      'favicon-16x16.png',
+      'favicon-32x32.png',
+      'apple-touch-icon.png',
+      'android-chrome-192x192.png',
+      'android-chrome-512x512.png',
+      'maskable-icon-512x512.png',
+      'favicon.svg',
+      'manifest.webmanifest',
+      'icon-links.html',
+    ]);
+  });
+
+  it('packs 16, 32 and 48px PNG entries into favicon.ico', () => {
+    const ico = file('favicon.ico');
+    const view = new DataView(ico.buffer, ico.byteOffset, ico.byteLength);
+
+    expect(view.getUint16(2, true)).toBe(1);
+    expect(view.getUint16(4, true)).toBe(3);
+    const sizes = [0, 1, 2].map((i) => {
+      const entry = 6 + i * 16;
+      const offset = view.getUint32(entry + 12, true);
+      const decoded = decodePng(ico.subarray(offset, offset + view.getUint32(entry + 8, true)));
+      return [ico[entry], decoded.width, decoded.height];
+    });
+    expect(sizes).toEqual([[16, 16, 16], [32, 32, 32], [48, 48, 48]]);
+  });
+
+  it('makes touch and maskable icons opaque and links the manifest icons', () => {
+    const touch = decodePng(file('apple-touch-icon.png'));
+    const maskable = decodePng(file('maskable-icon-512x512.png'));
+    const manifest = JSON.parse(new TextDecoder().decode(file('manifest.webmanifest')));
+
+    expect(touch.width).toBe(180);
+    expect(touch.data.filter((_, i) => i % 4 === 3).every((alpha) => alpha === 255)).toBe(true);
+    expect(Array.from(maskable.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(manifest.name).toBe('Demo');
+    expect(manifest.icons.map((icon: { src: string }) => icon.src)).toContain('/maskable-icon-512x512.png');
+    expect(new TextDecoder().decode(file('icon-links.html'))).toContain('href="/favicon.svg"');
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  parsePromptTemplate,
+  serializePromptTemplate,
+  promptTemplateFileName,
+} from '../../../infrastructure/resources/PromptTemplates';
+
+describe('PromptTemplates', () => {
+  describe('parsePromptTemplate', () => {
+    it('should read front matter defaults and the body variables', () => {
+      const template = parsePromptTemplate([
+        '---',
+        'name: Isometric icon',
+        'description: "Brand icon set: one subject"',
+        'type: svg',
+        'model: openai/gpt-5.3-codex',
+        'aspectRatio: 16:9',
+        '---',
+        'Isometric icon of {{subject}} in the {{ brand }} palette, {{subject}} centered',
+        '',
+      ].join('\n'), 'isometric-icon');
+
+      expect(template).toEqual({
+        name: 'Isometric icon',
+        description: 'Brand icon set: one subject',
+        type: 'svg',
+        model: 'openai/gpt-5.3-codex',
+        aspectRatio: '16:9',
+        body: 'Isometric icon of {{subject}} in the {{ brand }} palette, {{subject}} centered',
+        variables: ['subject', 'brand'],
+      });
+    });
+
+    it('should fall back to the file name and an image template without front matter', () => {
+      const template = parsePromptTemplate('A {{animal}} in the snow\n', 'snow-scene');
+
+      expect(template.name).toBe('snow-scene');
+      expect(template.type).toBe('image');
+      expect(template.model).toBeUndefined();
+      expect(template.body).toBe('A {{animal}} in the snow');
+    });
+
+    it('should ignore an unknown aspect ratio', () => {
+      const template = parsePromptTemplate('---\naspectRatio: 7:5\n---\nA fox', 'fox');
+
+      expect(template.aspectRatio).toBeUndefined();
+    });
+
+    it('should round-trip a saved template', () => {
+      const saved = {
+        scope: 'global' as const,
+        name: 'Hero banner',
+        description: 'Wide banner\nwith a tagline',
+        type: 'image' as const,
+        model: 'google/gemini-2.5-flash-image',
+        aspectRatio: '3:2' as const,
+        body: 'Hero banner for {{product}} with the tagline "{{tagline}}"',
+      };
+
+      const parsed = parsePromptTemplate(serializePromptTemplate(saved), 'fallback');
+
+      expect(parsed).toEqual({
+        name: 'Hero banner',
+        description: 'Wide banner with a tagline',
+        type: 'image',
+        model: 'google/gemini-2.5-flash-image',
+        aspectRatio: '3:2',
+        body: saved.body,
+        variables: ['product', 'tagline'],
+      });
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should replace every occurrence and keep unfilled placeholders', () => {
+      const body = '{{subject}} on {{background}}, {{ subject }} in focus';
+
+      expect(extractTemplateVariables(body)).toEqual(['subject', 'background']);
+      expect(fillTemplate(body, { subject: 'A fox' })).toBe('A fox on {{background}}, A fox in focus');
+    });
+  });
+
+  describe('promptTemplateFileName', () => {
+    it('should slug the template name', () => {
+      expect(promptTemplateFileName('Isometric Icon (v2)!')).toBe('isometric-icon-v2.md');
+      expect(promptTemplateFileName('???')).toBe('template.md');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * BudgetStore tests
+ *
+ * Tests cap checks, reservations, warning thresholds and period rollover against an in-memory Memento
+ */
+import { BudgetStore } from '../../../infrastructure/storage/BudgetStore';
+import { estimateGenerationCost, sumCostEstimates } from '../../../infrastructure/ai/providers/CostEstimator';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+function createMemento(initial: Record<string, unknown> = {}) {
+  const data = { ...initial };
+  return {
+    get: jest.fn((key: string, defaultValue?: unknown) => data[key] ?? defaultValue),
+    update: jest.fn(async (key: string, value: unknown) => {
+      data[key] = value;
+    }),
+    keys: () => Object.keys(data),
+  };
+}
+
+describe('BudgetStore', () => {
+  let date: Date;
+  let store: BudgetStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    date = new Date(2026, 2, 14, 12);
+    store = new BudgetStore(createMemento() as never, mockLogger as never, () => date);
+  });
+
+  it('allows everything when no cap is set', async () => {
+    await store.recordSpend(50);
+
+    expect(store.check(100)).toBeNull();
+    expect(store.getStatus().remainingUsd).toBeNull();
+  });
+
+  it('blocks a generation whose estimate would exceed a cap', async () => {
+    await store.setLimits({ dailyUsd: 1 });
+    await store.recordSpend(0.9);
+
+    expect(store.check(0.05)).toBeNull();
+    expect(store.check(0.2)).toEqual({ period: 'daily', limitUsd: 1, spentUsd: 0.9, reservedUsd: 0, estimateUsd: 0.2 });
+  });
+
+  it('counts running generations against the cap until their spend settles', async () => {
+    await store.setLimits({ dailyUsd: 1 });
+
+    expect(store.check(0.4)).toBeNull();
+    store.reserve('first', 0.4);
+    expect(store.check(0.4)).toBeNull();
+    store.reserve('second', 0.4);
+    expect(store.check(0.4)).toEqual(expect.objectContaining({ spentUsd: 0, reservedUsd: 0.8 }));
+
+    // Actual cost replaces the estimate, and a finished generation frees what is left
+    await store.recordSpend(0.3, 'first');
+    expect(store.getReservedUsd()).toBeCloseTo(0.5);
+    await store.release('first');
+    expect(store.getReservedUsd()).toBeCloseTo(0.4);
+    expect(store.check(0.3)).toBeNull();
+
+    await store.release('second');
+    expect(store.getReservedUsd()).toBe(0);
+  });
+
+  it('settles only the reservation of the generation the spend came from', async () => {
+    await store.setLimits({ dailyUsd: 1 });
+    store.reserve('image', 0.4);
+    store.reserve('svg', 0.2);
+
+    // Text and enhance calls reserve nothing and must not eat into a running generation's hold
+    await store.recordSpend(0.1);
+    expect(store.getReservedUsd()).toBeCloseTo(0.6);
+
+    await store.recordSpend(0.15, 'svg');
+    await store.recordSpend(0.5, 'image');
+    expect(store.getReservedUsd()).toBeCloseTo(0.05);
+    expect(store.getSpend().dailyUsd).toBeCloseTo(0.75);
+  });
+
+  it('blocks unknown-cost generations once a cap is used up', async () => {
+    await store.setLimits({ sessionUsd: 0.5 });
+    await store.recordSpend(0.5);
+
+    expect(store.check(0)).toEqual(expect.objectContaining({ period: 'session' }));
+  });
+
+  it('reports the tightest remaining cap', async () => {
+    await store.setLimits({ sessionUsd: 2, monthlyUsd: 10 });
+    await store.recordSpend(1.5);
+
+    expect(store.getStatus()).toEqual({
+      limits: { sessionUsd: 2, dailyUsd: 0, monthlyUsd: 10, warnAtPercent: 80 },
+      spend: { sessionUsd: 1.5, dailyUsd: 1.5, monthlyUsd: 1.5 },
+      remainingUsd: 0.5,
+    });
+  });
+
+  it('warns once per period when the threshold is reached', async () => {
+    await store.setLimits({ dailyUsd: 1, monthlyUsd: 100, warnAtPercent: 50 });
+
+    expect(await store.recordSpend(0.4)).toEqual([]);
+    expect(await store.recordSpend(0.25)).toEqual([{ period: 'daily', limitUsd: 1, spentUsd: 0.65 }]);
+    expect(await store.recordSpend(0.2)).toEqual([]);
+  });
+
+  it('keeps concurrent spend updates', async () => {
+    await Promise.all([store.recordSpend(0.1), store.recordSpend(0.2), store.recordSpend(0.3)]);
+
+    expect(store.getSpend().dailyUsd).toBeCloseTo(0.6);
+  });
+
+  it('rolls daily and monthly spend over on a new day and month', async () => {
+    await store.recordSpend(1);
+
+    date = new Date(2026, 2, 15, 9);
+    expect(store.getSpend()).toEqual({ sessionUsd: 1, dailyUsd: 0, monthlyUsd: 1 });
+
+    date = new Date(2026, 3, 1, 9);
+    expect(store.getSpend()).toEqual({ sessionUsd: 1, dailyUsd: 0, monthlyUsd: 0 });
+  });
+
+  it('sanitizes limits', async () => {
+    const limits = await store.setLimits({ sessionUsd: -5, dailyUsd: NaN, warnAtPercent: 400 });
+
+    expect(limits).toEqual({ sessionUsd: 0, dailyUsd: 0, monthlyUsd: 0, warnAtPercent: 100 });
+  });
+});
+
+describe('estimateGenerationCost', () => {
+  const model = { id: 'acme/image', displayName: 'Acme Image', inputCost: 1, outputCost: 10 };
+
+  it('prices prompt, references and output from $ per 1M tokens', () => {
+    const estimate = estimateGenerationCost(model, { promptChars: 400, referenceImageCount: 1, outputImages: 1 });
+
+    expect(estimate.inputTokens).toBe(100 + 1290);
+    expect(estimate.outputTokens).toBe(1290);
+    expect(estimate.costUsd).toBeCloseTo((1390 * 1 + 1290 * 10) / 1_000_000);
+  });
+
+  it('returns null cost for unpriced models, ignored when summing with priced ones', () => {
+    const unpriced = estimateGenerationCost({ id: 'acme/free', displayName: 'Free' }, { promptChars: 40 });
+    const priced = estimateGenerationCost(model, { promptChars: 0, outputTokens: 1000 });
+
+    expect(unpriced.costUsd).toBeNull();
+    expect(sumCostEstimates([unpriced]).costUsd).toBeNull();
+    expect(sumCostEstimates([unpriced, priced]).costUsd).toBeCloseTo(0.01);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * ConversationStore tests
+ *
+ * Tests persistence, size limits and eviction against an in-memory file system
+ */
+import { ConversationStore } from '../../../infrastructure/storage/ConversationStore';
+import * as vscode from 'vscode';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('ConversationStore', () => {
+  const storageUri = { fsPath: '/global', path: '/global' } as vscode.Uri;
+  let files: Map<string, Uint8Array>;
+  let now: number;
+
+  const createStore = (options = {}) => new ConversationStore(storageUri, mockLogger as never, options);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = new Map();
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+
+    (vscode.workspace.fs.writeFile as jest.Mock).mockImplementation(async (uri: vscode.Uri, content: Uint8Array) => {
+      files.set(uri.path, content);
+    });
+    (vscode.workspace.fs.readFile as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+      const content = files.get(uri.path);
+      if (!content) {
+        throw new Error(`File not found: ${uri.path}`);
+      }
+      return content;
+    });
+    (vscode.workspace.fs.delete as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+      for (const path of [...files.keys()]) {
+        if (path === uri.path || path.startsWith(`${uri.path}/`)) {
+          files.delete(path);
+        }
+      }
+    });
+    (vscode.workspace.fs.createDirectory as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should round-trip a conversation including provider-specific fields', async () => {
+    const store = createStore();
+    const state = {
+      id: 'img-1',
+      messages: [{ role: 'assistant', content: 'ok', reasoning_details: [{ signature: 'abc' }] }],
+    };
+
+    await store.save('image', state);
+
+    expect(files.has('/global/conversations/image/img-1.json')).toBe(true);
+    expect(await store.load('image', 'img-1')).toEqual(state);
+  });
+
+  it('should survive a restart by reading the index from disk', async () => {
+    await createStore().save('svg', { id: 'svg-1', turnNumber: 2 });
+
+    const restarted = createStore();
+    expect(await restarted.load('svg', 'svg-1')).toEqual({ id: 'svg-1', turnNumber: 2 });
+    expect(await restarted.load('image', 'svg-1')).toBeUndefined();
+  });
+
+  it('should not write conversations over the size limit and drop older copies', async () => {
+    const store = createStore({ maxConversationBytes: 100 });
+    await store.save('text', { id: 'text-1', messages: [] });
+
+    await store.save('text', { id: 'text-1', messages: ['x'.repeat(200)] });
+
+    expect(await store.load('text', 'text-1')).toBeUndefined();
+    expect(files.has('/global/conversations/text/text-1.json')).toBe(false);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should evict the least recently saved conversations beyond the count limit', async () => {
+    const store = createStore({ maxConversations: 2 });
+
+    await store.save('image', { id: 'a' });
+    await store.save('image', { id: 'b' });
+    await store.save('image', { id: 'a' });
+    await store.save('svg', { id: 'c' });
+
+    expect(await store.load('image', 'b')).toBeUndefined();
+    expect(await store.load('image', 'a')).toEqual({ id: 'a' });
+    expect(await store.load('svg', 'c')).toEqual({ id: 'c' });
+  });
+
+  it('should delete a stored conversation', async () => {
+    const store = createStore();
+    await store.save('image', { id: 'img-1' });
+
+    await store.delete('image', 'img-1');
+
+    expect(await store.load('image', 'img-1')).toBeUndefined();
+    expect(files.has('/global/conversations/image/img-1.json')).toBe(false);
+  });
+
+  it('should log instead of rejecting when the file system fails', async () => {
+    (vscode.workspace.fs.writeFile as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+    const store = createStore();
+
+    await expect(store.save('image', { id: 'img-1' })).resolves.toBeUndefined();
+    expect(mockLogger.error).toHaveBeenCalledWith('Conversation store operation failed', expect.any(Error));
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * GenerationHistoryStore tests
+ *
+ * Tests turn recording, entry summaries and eviction against an in-memory file system
+ */
+import { GenerationHistoryStore } from '../../../infrastructure/storage/GenerationHistoryStore';
+import { ConversationTurn, HistoryRecordPayload } from '@messages';
+import * as vscode from 'vscode';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const imageTurn = (turnNumber: number, prompt: string, costUsd: number): ConversationTurn => ({
+  id: `turn-${turnNumber}`,
+  prompt,
+  images: [{
+    id: `img-${turnNumber}`,
+    data: 'data:image/png;base64,AAAA',
+    mimeType: 'image/png',
+    prompt,
+    timestamp: turnNumber,
+    seed: 100 + turnNumber,
+  }],
+  turnNumber,
+  timestamp: turnNumber,
+  usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2, costUsd },
+});
+
+const imageRecord = (conversationId: string, turn: ConversationTurn, overrides: Partial<HistoryRecordPayload> = {}) => ({
+  type: 'image',
+  conversationId,
+  model: 'google/gemini-2.5-flash-image',
+  aspectRatio: '1:1',
+  turn,
+  thumbnail: `thumb-${turn.turnNumber}`,
+  ...overrides,
+}) as HistoryRecordPayload;
+
+describe('GenerationHistoryStore', () => {
+  const storageUri = { fsPath: '/global', path: '/global' } as vscode.Uri;
+  let files: Map<string, Uint8Array>;
+  let store: GenerationHistoryStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = new Map();
+
+    (vscode.workspace.fs.writeFile as jest.Mock).mockImplementation(async (uri: vscode.Uri, content: Uint8Array) => {
+      files.set(uri.path, content);
+    });
+    (vscode.workspace.fs.readFile as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+      const content = files.get(uri.path);
+      if (!content) {
+        throw new Error(`File not found: ${uri.path}`);
+      }
+      return content;
+    });
+    (vscode.workspace.fs.delete as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+      files.delete(uri.path);
+    });
+    (vscode.workspace.fs.createDirectory as jest.Mock).mockResolvedValue(undefined);
+
+    store = new GenerationHistoryStore(storageUri, mockLogger as never, { maxEntries: 2 });
+  });
+
+  it('should summarize a conversation across turns', async () => {
+    await store.record(imageRecord('conv-1', imageTurn(1, 'A fox', 0.01)));
+    await store.record(imageRecord('conv-1', imageTurn(2, 'Make it blue', 0.02), { model: 'other/model' }));
+
+    const [entry] = await store.list();
+    expect(entry).toEqual(expect.objectContaining({
+      conversationId: 'conv-1',
+      type: 'image',
+      prompt: 'A fox',
+      prompts: ['A fox', 'Make it blue'],
+      model: 'google/gemini-2.5-flash-image',
+      seed: 101,
+      thumbnail: 'thumb-2',
+      turnCount: 2,
+    }));
+    expect(entry.costUsd).toBeCloseTo(0.03);
+  });
+
+  it('should replace a re-recorded turn instead of duplicating it', async () => {
+    await store.record(imageRecord('conv-1', imageTurn(1, 'A fox', 0.01)));
+    await store.record(imageRecord('conv-1', imageTurn(1, 'A fox', 0.01)));
+
+    const conversation = await store.get('conv-1');
+    expect(conversation?.type).toBe('image');
+    expect(conversation?.turns).toHaveLength(1);
+  });
+
+  it('should list newest first and evict the oldest beyond the limit', async () => {
+    await store.record(imageRecord('conv-1', imageTurn(1, 'First', 0)));
+    await store.record(imageRecord('conv-2', imageTurn(1, 'Second', 0)));
+    await store.record({
+      type: 'svg',
+      conversationId: 'conv-3',
+      model: 'openai/gpt-5.3-codex',
+      aspectRatio: '1:1',
+      turn: { prompt: 'Third', svgCode: '<svg/>', turnNumber: 1 },
+    });
+
+    const entries = await store.list();
+    expect(entries.map((entry) => entry.conversationId)).toEqual(['conv-3', 'conv-2']);
+    expect(entries[0].seed).toBeUndefined();
+    expect(await store.get('conv-1')).toBeUndefined();
+    expect(files.has('/global/history/conv-1.json')).toBe(false);
+  });
+
+  it('should evict the oldest entries beyond the total size and drop an oversized one', async () => {
+    const recordSize = (conversationId: string) => files.get(`/global/history/${conversationId}.json`)!.length;
+    await store.record(imageRecord('conv-1', imageTurn(1, 'First', 0)));
+    const bytes = recordSize('conv-1');
+    store = new GenerationHistoryStore(storageUri, mockLogger as never, { maxEntryBytes: bytes * 2, maxTotalBytes: bytes * 2 });
+
+    await store.record(imageRecord('conv-2', imageTurn(1, 'Other', 0)));
+    await store.record(imageRecord('conv-3', imageTurn(1, 'Third', 0)));
+    expect((await store.list()).map((entry) => entry.conversationId)).toEqual(['conv-3', 'conv-2']);
+    expect(files.has('/global/history/conv-1.json')).toBe(false);
+
+    await store.record(imageRecord('conv-3', imageTurn(2, 'x'.repeat(bytes * 2), 0)));
+    expect((await store.list()).map((entry) => entry.conversationId)).toEqual(['conv-2']);
+    expect(files.has('/global/history/conv-3.json')).toBe(false);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should delete an entry and its turns', async () => {
+    await store.record(imageRecord('conv-1', imageTurn(1, 'A fox', 0)));
+
+    await store.delete('conv-1');
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('conv-1')).toBeUndefined();
+  });
+});
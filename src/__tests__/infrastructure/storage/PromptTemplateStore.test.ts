@@ -0,0 +1,52 @@
+/**
+ * PromptTemplateStore tests
+ *
+ * Tests which ids delete may act on
+ */
+import { PromptTemplateStore } from '../../../infrastructure/storage/PromptTemplateStore';
+import * as vscode from 'vscode';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('PromptTemplateStore', () => {
+  const storageUri = { fsPath: '/global', path: '/global' } as vscode.Uri;
+  let store: PromptTemplateStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(vscode.workspace, { workspaceFolders: [{ uri: { fsPath: '/ws', path: '/ws' } }] });
+    store = new PromptTemplateStore(storageUri, mockLogger as never);
+  });
+
+  afterEach(() => {
+    Object.assign(vscode.workspace, { workspaceFolders: [] });
+  });
+
+  describe('delete', () => {
+    it('should delete a template file in its scope directory', async () => {
+      await store.delete('workspace/Logo style.md');
+      await store.delete('global/icons.md');
+
+      const paths = (vscode.workspace.fs.delete as jest.Mock).mock.calls.map(([uri]) => uri.path);
+      expect(paths).toEqual(['/ws/.pixel-minion/templates/Logo style.md', '/global/templates/icons.md']);
+    });
+
+    it('should refuse ids that point at a template directory or its parent', async () => {
+      for (const id of ['workspace/..', 'global/.', 'global/..', 'workspace/']) {
+        await expect(store.delete(id)).rejects.toThrow(`Invalid template id: ${id}`);
+      }
+      expect(vscode.workspace.fs.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse files that are not templates', async () => {
+      await expect(store.delete('workspace/settings.json')).rejects.toThrow('Invalid template id');
+      await expect(store.delete('global/nested/icons.md')).rejects.toThrow('Invalid template id');
+      expect(vscode.workspace.fs.delete).not.toHaveBeenCalled();
+    });
+  });
+});
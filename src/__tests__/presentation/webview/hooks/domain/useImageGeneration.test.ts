@@ -2,45 +2,9 @@
  * Tests for useImageGeneration utility functions
  */
 import {
-  isSourcefulModel,
   calculateBase64Size,
 } from '../../../../../presentation/webview/hooks/domain/useImageGeneration';
 
-describe('isSourcefulModel', () => {
-  it('returns true for Sourceful Riverflow V2 Max Preview', () => {
-    expect(isSourcefulModel('sourceful/riverflow-v2-max-preview')).toBe(true);
-  });
-
-  it('returns true for Sourceful Riverflow V2 Standard Preview', () => {
-    expect(isSourcefulModel('sourceful/riverflow-v2-standard-preview')).toBe(true);
-  });
-
-  it('returns true for Sourceful Riverflow V2 Fast Preview', () => {
-    expect(isSourcefulModel('sourceful/riverflow-v2-fast-preview')).toBe(true);
-  });
-
-  it('returns false for Google Gemini models', () => {
-    expect(isSourcefulModel('google/gemini-2.5-flash-image')).toBe(false);
-  });
-
-  it('returns false for OpenAI models', () => {
-    expect(isSourcefulModel('openai/gpt-5-image')).toBe(false);
-  });
-
-  it('returns false for Black Forest Labs models', () => {
-    expect(isSourcefulModel('black-forest-labs/flux.2-max')).toBe(false);
-  });
-
-  it('returns false for empty string', () => {
-    expect(isSourcefulModel('')).toBe(false);
-  });
-
-  it('is case-sensitive (lowercase only)', () => {
-    expect(isSourcefulModel('Sourceful/riverflow-v2-max-preview')).toBe(false);
-    expect(isSourcefulModel('SOURCEFUL/riverflow-v2-max-preview')).toBe(false);
-  });
-});
-
 describe('calculateBase64Size', () => {
   it('returns 0 for empty array', () => {
     expect(calculateBase64Size([])).toBe(0);
@@ -0,0 +1,56 @@
+import {
+  ROOT_BRANCH_ID,
+  ConversationBranch,
+  snapshotBranch,
+  getBranchTree,
+} from '../../../../presentation/webview/utils/conversationBranches';
+
+type Turn = { prompt: string };
+
+const branch = (id: string, parentId: string | null, turns: Turn[] = []): ConversationBranch<Turn> => ({
+  id,
+  parentId,
+  branchTurnNumber: parentId ? 1 : null,
+  conversationId: `conv-${id}`,
+  turns,
+});
+
+describe('conversationBranches', () => {
+  describe('snapshotBranch', () => {
+    it('should create the root from the current conversation on first use', () => {
+      const turns = [{ prompt: 'A cat' }];
+
+      expect(snapshotBranch<Turn>([], ROOT_BRANCH_ID, 'conv-1', turns)).toEqual([
+        { id: ROOT_BRANCH_ID, parentId: null, branchTurnNumber: null, conversationId: 'conv-1', turns },
+      ]);
+    });
+
+    it('should update only the active branch', () => {
+      const branches = [branch(ROOT_BRANCH_ID, null), branch('b1', ROOT_BRANCH_ID)];
+      const turns = [{ prompt: 'A cat' }, { prompt: 'In a hat' }];
+
+      const updated = snapshotBranch(branches, 'b1', 'conv-b1', turns);
+
+      expect(updated[0]).toBe(branches[0]);
+      expect(updated[1].turns).toBe(turns);
+    });
+  });
+
+  describe('getBranchTree', () => {
+    it('should list children under their parent with creation-order names', () => {
+      const tree = getBranchTree([
+        branch(ROOT_BRANCH_ID, null),
+        branch('b1', ROOT_BRANCH_ID),
+        branch('b2', ROOT_BRANCH_ID),
+        branch('b3', 'b1'),
+      ]);
+
+      expect(tree.map(({ branch: { id }, depth, name }) => [id, depth, name])).toEqual([
+        [ROOT_BRANCH_ID, 0, 'Main'],
+        ['b1', 1, 'Branch 1'],
+        ['b3', 2, 'Branch 3'],
+        ['b2', 1, 'Branch 2'],
+      ]);
+    });
+  });
+});
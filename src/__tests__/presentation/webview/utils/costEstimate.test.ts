@@ -0,0 +1,61 @@
+import {
+  estimateImageRequestCost,
+  estimateSVGRequestCost,
+  describeEstimateAccuracy,
+  formatCostEstimate,
+} from '../../../../presentation/webview/utils/costEstimate';
+import { IMAGE_TOKENS, MIN_IMAGE_TOKENS, SVG_OUTPUT_TOKENS } from '../../../../infrastructure/ai/providers/CostEstimator';
+
+const model = { id: 'acme/image', displayName: 'Acme Image', inputCost: 1, outputCost: 10 };
+
+// ~1.2KB decoded - below one tile's worth of bytes
+const smallImage = `data:image/png;base64,${'A'.repeat(1600)}`;
+// ~1.5MB decoded - capped at a full image
+const largeImage = `data:image/png;base64,${'A'.repeat(2_000_000)}`;
+
+describe('costEstimate', () => {
+  it('prices reference images by size', () => {
+    const small = estimateImageRequestCost(model, { prompt: '', referenceImages: [smallImage] });
+    const large = estimateImageRequestCost(model, { prompt: '', referenceImages: [largeImage] });
+
+    expect(small.inputTokens).toBe(MIN_IMAGE_TOKENS);
+    expect(large.inputTokens).toBe(IMAGE_TOKENS);
+  });
+
+  it('multiplies a batch by its variation count', () => {
+    const single = estimateImageRequestCost(model, { prompt: 'a fox' });
+    const batch = estimateImageRequestCost(model, { prompt: 'a fox', variations: 4 });
+
+    expect(batch.outputTokens).toBe(single.outputTokens * 4);
+    expect(batch.costUsd).toBeCloseTo((single.costUsd ?? 0) * 4);
+  });
+
+  it('counts re-sent history in a continuation', () => {
+    const fresh = estimateImageRequestCost(model, { prompt: 'smaller' });
+    const continued = estimateImageRequestCost(model, {
+      prompt: 'smaller',
+      history: [{ prompt: 'a fox in the snow', images: [{ data: largeImage, seed: 1 }] }],
+    });
+
+    // 'smaller' + 'a fox in the snow' = 24 chars (6 tokens) vs 7 chars (2 tokens)
+    expect(continued.inputTokens - fresh.inputTokens).toBe(4 + IMAGE_TOKENS);
+  });
+
+  it('includes earlier SVG code when continuing an SVG conversation', () => {
+    const estimate = estimateSVGRequestCost(model, {
+      prompt: 'add a gradient',
+      history: [{ prompt: 'a logo', svgCode: '<svg></svg>' }],
+    });
+
+    expect(estimate.inputTokens).toBe(Math.ceil((14 + 6 + 11) / 4));
+    expect(estimate.outputTokens).toBe(SVG_OUTPUT_TOKENS);
+  });
+
+  it('formats estimates and their accuracy', () => {
+    expect(formatCostEstimate({ inputTokens: 1, outputTokens: 1, costUsd: 0.0039 })).toBe('~$0.0039');
+    expect(formatCostEstimate({ inputTokens: 1, outputTokens: 1, costUsd: null })).toBe('cost unknown');
+    expect(describeEstimateAccuracy(0.004, 0.005)).toBe('est. $0.0040 (actual 25% higher)');
+    expect(describeEstimateAccuracy(0.2, 0.1)).toBe('est. $0.20 (actual 50% lower)');
+    expect(describeEstimateAccuracy(0.04, 0.04)).toBe('est. $0.04 (on target)');
+  });
+});
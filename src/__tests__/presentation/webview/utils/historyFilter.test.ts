@@ -0,0 +1,54 @@
+import { filterHistory, getHistoryModels } from '../../../../presentation/webview/utils/historyFilter';
+import { HistoryEntry } from '@messages';
+
+const entry = (conversationId: string, overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  conversationId,
+  type: 'image',
+  prompt: overrides.prompts?.[0] ?? '',
+  prompts: [],
+  model: 'google/gemini-2.5-flash-image',
+  aspectRatio: '1:1',
+  turnCount: 1,
+  costUsd: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('historyFilter', () => {
+  const entries = [
+    entry('a', { prompts: ['A red fox in the snow', 'Make the fox smaller'] }),
+    entry('b', { type: 'svg', model: 'openai/gpt-5.3-codex', prompts: ['Fox logo icon'] }),
+    entry('c', { prompts: ['Mountain sunrise'] }),
+  ];
+  const noFilter = { query: '', model: null, type: null };
+
+  describe('filterHistory', () => {
+    it('should return everything without a query or filters', () => {
+      expect(filterHistory(entries, noFilter)).toHaveLength(3);
+    });
+
+    it('should search every turn prompt case-insensitively', () => {
+      const ids = filterHistory(entries, { ...noFilter, query: 'SMALLER' }).map((e) => e.conversationId);
+      expect(ids).toEqual(['a']);
+    });
+
+    it('should require all query terms to match', () => {
+      const ids = filterHistory(entries, { ...noFilter, query: 'fox snow' }).map((e) => e.conversationId);
+      expect(ids).toEqual(['a']);
+    });
+
+    it('should combine the query with type and model filters', () => {
+      expect(filterHistory(entries, { ...noFilter, query: 'fox', type: 'svg' }).map((e) => e.conversationId))
+        .toEqual(['b']);
+      expect(filterHistory(entries, { ...noFilter, model: 'google/gemini-2.5-flash-image' }).map((e) => e.conversationId))
+        .toEqual(['a', 'c']);
+    });
+  });
+
+  describe('getHistoryModels', () => {
+    it('should list each model once, sorted', () => {
+      expect(getHistoryModels(entries)).toEqual(['google/gemini-2.5-flash-image', 'openai/gpt-5.3-codex']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { getStreamingSvgCode, balancePartialSvg } from '../../../../presentation/webview/utils/svgStreaming';
+
+describe('svgStreaming', () => {
+  describe('getStreamingSvgCode', () => {
+    it('should return null before the <svg> tag arrives', () => {
+      expect(getStreamingSvgCode('Here is your icon:\n```svg\n')).toBeNull();
+    });
+
+    it('should skip leading prose and code fences', () => {
+      expect(getStreamingSvgCode('Sure!\n```svg\n<svg viewBox="0 0 10 10"><rect'))
+        .toBe('<svg viewBox="0 0 10 10"><rect');
+    });
+
+    it('should stop at the closing </svg> tag', () => {
+      expect(getStreamingSvgCode('```svg\n<svg><g/></svg>\n```\nEnjoy!')).toBe('<svg><g/></svg>');
+    });
+
+    it('should drop a trailing fence when </svg> never arrived', () => {
+      expect(getStreamingSvgCode('<svg><g>\n```')).toBe('<svg><g>\n');
+    });
+  });
+
+  describe('balancePartialSvg', () => {
+    it('should close open elements in reverse order', () => {
+      expect(balancePartialSvg('<svg viewBox="0 0 10 10"><g fill="red"><circle r="2"/>'))
+        .toBe('<svg viewBox="0 0 10 10"><g fill="red"><circle r="2"/></g></svg>');
+    });
+
+    it('should drop an unfinished trailing tag', () => {
+      expect(balancePartialSvg('<svg><path d="M0 0 L10'))
+        .toBe('<svg></svg>');
+    });
+
+    it('should keep a tag whose quoted attribute contains ">"', () => {
+      expect(balancePartialSvg('<svg><text data-x="a>b">Hi'))
+        .toBe('<svg><text data-x="a>b">Hi</text></svg>');
+    });
+
+    it('should drop unterminated comments and partial entities', () => {
+      expect(balancePartialSvg('<svg><!-- layer')).toBe('<svg></svg>');
+      expect(balancePartialSvg('<svg><text>A &am')).toBe('<svg><text>A </text></svg>');
+    });
+
+    it('should ignore tags inside completed comments', () => {
+      expect(balancePartialSvg('<svg><!-- <g> --><rect/>')).toBe('<svg><!-- <g> --><rect/></svg>');
+    });
+
+    it('should leave complete SVG unchanged', () => {
+      const complete = '<svg><g><rect/></g></svg>';
+      expect(balancePartialSvg(complete)).toBe(complete);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * GenerationCancellation - Registry of in-flight generations, keyed by correlationId
+ *
+ * Pattern: Map-based registry shared by the domain handlers
+ * - Handlers call begin() before calling the orchestrator and end() in finally
+ * - GENERATION_CANCEL from the webview aborts the matching request
+ */
+export class GenerationCancellation {
+  private readonly controllers = new Map<string, AbortController>();
+
+  /**
+   * Register a request and get the signal to pass down to the client fetch.
+   * Requests without a correlationId still get a signal, but cannot be cancelled.
+   */
+  begin(correlationId?: string): AbortSignal {
+    const controller = new AbortController();
+    if (correlationId) {
+      this.controllers.set(correlationId, controller);
+    }
+    return controller.signal;
+  }
+
+  /**
+   * Forget a finished request
+   */
+  end(correlationId?: string): void {
+    if (correlationId) {
+      this.controllers.delete(correlationId);
+    }
+  }
+
+  /**
+   * Abort a request
+   * @returns false if no request with that correlationId is in flight
+   */
+  cancel(correlationId: string): boolean {
+    const controller = this.controllers.get(correlationId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.controllers.delete(correlationId);
+    return true;
+  }
+
+  /**
+   * Check whether a request is still in flight
+   */
+  isActive(correlationId: string): boolean {
+    return this.controllers.has(correlationId);
+  }
+}
@@ -9,30 +9,66 @@
  *
  * Reference: docs/example-repo/src/application/handlers/MessageHandler.ts
  */
+import * as vscode from 'vscode';
 import {
   MessageType,
   MessageEnvelope,
   HelloWorldRequestPayload,
   UpdateSettingPayload,
   SaveApiKeyPayload,
+  ClearApiKeyPayload,
   AIConversationRequestPayload,
   ImageGenerationRequestPayload,
   ImageGenerationContinuePayload,
+  ImageGenerationBranchPayload,
   ImageSaveRequestPayload,
   SVGGenerationRequestPayload,
   SVGGenerationContinuePayload,
+  SVGGenerationBranchPayload,
   SVGSaveRequestPayload,
+  SVGArchitectRequestPayload,
+  SVGArchitectPngReadyPayload,
+  SVGArchitectClearPayload,
   EnhancePromptRequestPayload,
+  GenerationCancelPayload,
+  HistoryRecordPayload,
+  HistoryRestoreRequestPayload,
+  HistoryDeletePayload,
+  ModelCatalogRequestPayload,
+  BudgetUpdateLimitsPayload,
+  IconBundleExportRequestPayload,
+  WorkspaceReferencePickPayload,
+  ComparisonRequestPayload,
+  MAX_COMPARISON_MODELS,
+  PromptTemplateSavePayload,
+  PromptTemplateDeletePayload,
+  StyleProfileSavePayload,
+  StyleProfileDeletePayload,
+  StyleProfileActivatePayload,
   TokenUsage,
   TokenUsageUpdatePayload,
   createEnvelope,
   SettingsPayload,
 } from '@messages';
 import { MessageRouter } from './MessageRouter';
-import { HelloWorldHandler, SettingsHandler, TextHandler, ImageGenerationHandler, SVGGenerationHandler, EnhanceHandler } from './domain';
+import { GenerationCancellation } from './GenerationCancellation';
+import { HelloWorldHandler, SettingsHandler, TextHandler, ImageGenerationHandler, SVGGenerationHandler, SVGArchitectHandler, EnhanceHandler, HistoryHandler, ModelCatalogHandler, BudgetHandler, IconBundleHandler, LoadParametersHandler, ReferenceFileHandler, PromptTemplateHandler, StyleProfileHandler } from './domain';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
-import { OpenRouterImageClient, ImageOrchestrator, OpenRouterDynamicTextClient, SVGOrchestrator } from '@ai';
+import { PromptLoader } from '@resources';
+import { ConversationStore, GenerationHistoryStore, BudgetStore, PromptTemplateStore, StyleProfileStore } from '@storage';
+import {
+  OpenRouterImageClient,
+  ImageOrchestrator,
+  OpenRouterDynamicTextClient,
+  SVGOrchestrator,
+  SVGArchitectOrchestrator,
+  ProviderRegistry,
+  ProviderImageClient,
+  ProviderTextClient,
+  ModelCatalogService,
+  FileToolProvider,
+} from '@ai';
 
 export class MessageHandler {
   private readonly router: MessageRouter;
@@ -41,7 +77,19 @@ export class MessageHandler {
   private readonly textHandler: TextHandler;
   private readonly imageGenerationHandler: ImageGenerationHandler;
   private readonly svgGenerationHandler: SVGGenerationHandler;
+  private readonly svgArchitectHandler: SVGArchitectHandler;
   private readonly enhanceHandler: EnhanceHandler;
+  private readonly historyHandler: HistoryHandler;
+  private readonly modelCatalogHandler: ModelCatalogHandler;
+  private readonly budgetHandler: BudgetHandler;
+  private readonly iconBundleHandler: IconBundleHandler;
+  private readonly loadParametersHandler: LoadParametersHandler;
+  private readonly referenceFileHandler: ReferenceFileHandler;
+  private readonly promptTemplateHandler: PromptTemplateHandler;
+  private readonly styleProfileHandler: StyleProfileHandler;
+
+  // In-flight generations across all domains - GENERATION_CANCEL aborts by correlationId
+  private readonly generationCancellation = new GenerationCancellation();
 
   // Token usage accumulator - tracks total usage across the session
   private tokenTotals: TokenUsage = {
@@ -54,6 +102,13 @@ export class MessageHandler {
   constructor(
     private readonly postMessage: (message: MessageEnvelope) => void,
     secretStorage: SecretStorageService,
+    promptLoader: PromptLoader,
+    conversationStore: ConversationStore,
+    historyStore: GenerationHistoryStore,
+    modelCatalog: ModelCatalogService,
+    budgetStore: BudgetStore,
+    templateStore: PromptTemplateStore,
+    styleProfileStore: StyleProfileStore,
     private readonly logger: LoggingService
   ) {
     this.router = new MessageRouter();
@@ -64,7 +119,9 @@ export class MessageHandler {
       postMessage,
       secretStorage,
       logger,
-      (usage) => this.applyTokenUsage(usage)
+      (usage) => this.applyTokenUsage(usage),
+      this.generationCancellation,
+      conversationStore
     );
     this.settingsHandler = new SettingsHandler(
       postMessage,
@@ -73,24 +130,61 @@ export class MessageHandler {
       (settings) => this.handleSettingsChanged(settings),
       () => this.resetClients()
     );
+    // Provider-routing clients: OpenRouter models keep the OpenRouter clients,
+    // prefixed models ('openai:', 'gemini:', 'anthropic:', 'custom:') go direct
+    const providerRegistry = new ProviderRegistry(secretStorage, logger);
+
     // Create image generation orchestrator and inject client
     const imageOrchestrator = new ImageOrchestrator(logger);
-    imageOrchestrator.setClient(new OpenRouterImageClient(secretStorage, logger));
+    imageOrchestrator.setClient(new ProviderImageClient(
+      providerRegistry,
+      new OpenRouterImageClient(secretStorage, logger),
+      logger
+    ));
+    imageOrchestrator.setStore(conversationStore);
+    imageOrchestrator.setStyleProfiles(styleProfileStore);
     this.imageGenerationHandler = new ImageGenerationHandler(
       postMessage,
       imageOrchestrator,
       logger,
-      (usage) => this.applyTokenUsage(usage)
+      (usage, correlationId) => this.applyTokenUsage(usage, correlationId),
+      this.generationCancellation
     );
 
     // Create SVG generation orchestrator and inject dynamic text client
     const svgOrchestrator = new SVGOrchestrator(logger);
-    svgOrchestrator.setClient(new OpenRouterDynamicTextClient(secretStorage, logger));
+    svgOrchestrator.setClient(new ProviderTextClient(
+      providerRegistry,
+      new OpenRouterDynamicTextClient(secretStorage, logger),
+      logger
+    ));
+    svgOrchestrator.setStore(conversationStore);
+    svgOrchestrator.setStyleProfiles(styleProfileStore);
     this.svgGenerationHandler = new SVGGenerationHandler(
       postMessage,
       svgOrchestrator,
       logger,
-      (usage) => this.applyTokenUsage(usage)
+      (usage, correlationId) => this.applyTokenUsage(usage, correlationId),
+      this.generationCancellation
+    );
+
+    // Create SVG Architect orchestrator (multi-agent) - models are chosen per request
+    const svgArchitectOrchestrator = new SVGArchitectOrchestrator(logger, promptLoader);
+    svgArchitectOrchestrator.setClient(new ProviderTextClient(
+      providerRegistry,
+      new OpenRouterDynamicTextClient(secretStorage, logger),
+      logger
+    ));
+    this.svgArchitectHandler = new SVGArchitectHandler(
+      postMessage,
+      svgArchitectOrchestrator,
+      logger,
+      (usage, correlationId) => this.applyTokenUsage(usage, correlationId),
+      this.generationCancellation,
+      {
+        allowStep: (correlationId) => this.budgetHandler.allowNextStep('extension.svgArchitect', correlationId),
+        release: (correlationId) => void this.budgetHandler.releaseGeneration(correlationId),
+      }
     );
 
     // Create enhance handler for prompt enhancement
@@ -98,9 +192,34 @@ export class MessageHandler {
       postMessage,
       secretStorage,
       logger,
-      (usage) => this.applyTokenUsage(usage)
+      (usage) => this.applyTokenUsage(usage),
+      this.generationCancellation
     );
 
+    // Create history handler for the History tab
+    this.historyHandler = new HistoryHandler(postMessage, historyStore, conversationStore, logger);
+
+    // Create model catalog handler for the model selectors
+    this.modelCatalogHandler = new ModelCatalogHandler(postMessage, modelCatalog, logger);
+
+    // Create budget handler for spending caps (checked before every generation)
+    this.budgetHandler = new BudgetHandler(postMessage, budgetStore, modelCatalog, logger);
+
+    // Create icon bundle handler for favicon/PWA exports
+    this.iconBundleHandler = new IconBundleHandler(postMessage, logger);
+
+    // Create load parameters handler for the Explorer "Load Parameters From File" command
+    this.loadParametersHandler = new LoadParametersHandler(postMessage, logger);
+
+    // Create reference file handler for "Use as Pixel Minion Reference" and the workspace picker
+    this.referenceFileHandler = new ReferenceFileHandler(postMessage, new FileToolProvider(), logger);
+
+    // Create prompt template handler for the template pickers
+    this.promptTemplateHandler = new PromptTemplateHandler(postMessage, templateStore, logger);
+
+    // Create style profile handler for Settings and the view chips
+    this.styleProfileHandler = new StyleProfileHandler(postMessage, styleProfileStore, logger);
+
     // Register routes
     this.registerRoutes();
     this.logger.info('MessageHandler initialized with routes', this.router.getRegisteredTypes());
@@ -111,8 +230,9 @@ export class MessageHandler {
 
   /**
    * Apply token usage from an AI operation - accumulates to session totals
+   * @param correlationId - the generation the usage belongs to, whose budget reservation it settles
    */
-  applyTokenUsage(usage: TokenUsage): void {
+  applyTokenUsage(usage: TokenUsage, correlationId?: string): void {
     try {
       // Add to running totals
       this.tokenTotals.promptTokens += usage.promptTokens || 0;
@@ -126,6 +246,9 @@ export class MessageHandler {
 
       this.logger.debug('Token usage applied', this.tokenTotals);
       this.broadcastTokenUsage();
+
+      // Spend counts toward the budget even when the token display is reset
+      void this.budgetHandler.recordUsage(usage, correlationId);
     } catch (error) {
       this.logger.error('Failed to apply token usage update', error);
     }
@@ -194,7 +317,9 @@ export class MessageHandler {
     );
     this.router.register(
       MessageType.CLEAR_API_KEY,
-      (msg) => this.settingsHandler.handleClearApiKey(msg)
+      (msg) => this.settingsHandler.handleClearApiKey(
+        msg as MessageEnvelope<ClearApiKeyPayload>
+      )
     );
 
     // Text conversation domain
@@ -211,6 +336,14 @@ export class MessageHandler {
       )
     );
 
+    // Generation control
+    this.router.register(
+      MessageType.GENERATION_CANCEL,
+      (msg) => this.handleGenerationCancel(
+        msg as MessageEnvelope<GenerationCancelPayload>
+      )
+    );
+
     // Token usage
     this.router.register(
       MessageType.RESET_TOKEN_USAGE,
@@ -220,14 +353,20 @@ export class MessageHandler {
     // Image Generation domain
     this.router.register(
       MessageType.IMAGE_GENERATION_REQUEST,
-      (msg) => this.imageGenerationHandler.handleGenerationRequest(
+      this.withinBudget((msg) => this.imageGenerationHandler.handleGenerationRequest(
         msg as MessageEnvelope<ImageGenerationRequestPayload>
-      )
+      ))
     );
     this.router.register(
       MessageType.IMAGE_GENERATION_CONTINUE,
-      (msg) => this.imageGenerationHandler.handleContinueRequest(
+      this.withinBudget((msg) => this.imageGenerationHandler.handleContinueRequest(
         msg as MessageEnvelope<ImageGenerationContinuePayload>
+      ))
+    );
+    this.router.register(
+      MessageType.IMAGE_GENERATION_BRANCH,
+      (msg) => this.imageGenerationHandler.handleBranchRequest(
+        msg as MessageEnvelope<ImageGenerationBranchPayload>
       )
     );
     this.router.register(
@@ -246,14 +385,20 @@ export class MessageHandler {
     // SVG Generation domain
     this.router.register(
       MessageType.SVG_GENERATION_REQUEST,
-      (msg) => this.svgGenerationHandler.handleGenerationRequest(
+      this.withinBudget((msg) => this.svgGenerationHandler.handleGenerationRequest(
         msg as MessageEnvelope<SVGGenerationRequestPayload>
-      )
+      ))
     );
     this.router.register(
       MessageType.SVG_GENERATION_CONTINUE,
-      (msg) => this.svgGenerationHandler.handleContinueRequest(
+      this.withinBudget((msg) => this.svgGenerationHandler.handleContinueRequest(
         msg as MessageEnvelope<SVGGenerationContinuePayload>
+      ))
+    );
+    this.router.register(
+      MessageType.SVG_GENERATION_BRANCH,
+      (msg) => this.svgGenerationHandler.handleBranchRequest(
+        msg as MessageEnvelope<SVGGenerationBranchPayload>
       )
     );
     this.router.register(
@@ -269,6 +414,26 @@ export class MessageHandler {
       )
     );
 
+    // SVG Architect domain
+    this.router.register(
+      MessageType.SVG_ARCHITECT_REQUEST,
+      this.withinBudget((msg) => this.svgArchitectHandler.handleGenerationRequest(
+        msg as MessageEnvelope<SVGArchitectRequestPayload>
+      ), true)
+    );
+    this.router.register(
+      MessageType.SVG_ARCHITECT_PNG_READY,
+      (msg) => this.svgArchitectHandler.handlePngReady(
+        msg as MessageEnvelope<SVGArchitectPngReadyPayload>
+      )
+    );
+    this.router.register(
+      MessageType.SVG_ARCHITECT_CLEAR,
+      (msg) => this.svgArchitectHandler.handleClearConversation(
+        msg as MessageEnvelope<SVGArchitectClearPayload>
+      )
+    );
+
     // Prompt Enhancement domain
     this.router.register(
       MessageType.ENHANCE_PROMPT_REQUEST,
@@ -276,6 +441,166 @@ export class MessageHandler {
         msg as MessageEnvelope<EnhancePromptRequestPayload>
       )
     );
+
+    // Generation History domain
+    this.router.register(
+      MessageType.HISTORY_RECORD,
+      (msg) => this.historyHandler.handleRecord(
+        msg as MessageEnvelope<HistoryRecordPayload>
+      )
+    );
+    this.router.register(
+      MessageType.HISTORY_LIST_REQUEST,
+      (msg) => this.historyHandler.handleListRequest(msg)
+    );
+    this.router.register(
+      MessageType.HISTORY_RESTORE_REQUEST,
+      (msg) => this.historyHandler.handleRestoreRequest(
+        msg as MessageEnvelope<HistoryRestoreRequestPayload>
+      )
+    );
+    this.router.register(
+      MessageType.HISTORY_DELETE,
+      (msg) => this.historyHandler.handleDelete(
+        msg as MessageEnvelope<HistoryDeletePayload>
+      )
+    );
+
+    // Model Catalog domain
+    this.router.register(
+      MessageType.MODEL_CATALOG_REQUEST,
+      (msg) => this.modelCatalogHandler.handleCatalogRequest(
+        msg as MessageEnvelope<ModelCatalogRequestPayload>
+      )
+    );
+
+    // Budget domain
+    this.router.register(
+      MessageType.BUDGET_STATUS_REQUEST,
+      (msg) => this.budgetHandler.handleStatusRequest(msg)
+    );
+    this.router.register(
+      MessageType.BUDGET_UPDATE_LIMITS,
+      (msg) => this.budgetHandler.handleUpdateLimits(
+        msg as MessageEnvelope<BudgetUpdateLimitsPayload>
+      )
+    );
+
+    // Model Comparison - image or SVG models, by payload type
+    this.router.register(
+      MessageType.COMPARISON_REQUEST,
+      this.withinBudget((msg) => this.handleCompareRequest(
+        msg as MessageEnvelope<ComparisonRequestPayload>
+      ))
+    );
+
+    // Icon Bundle domain
+    this.router.register(
+      MessageType.ICON_BUNDLE_EXPORT_REQUEST,
+      (msg) => this.iconBundleHandler.handleExportRequest(
+        msg as MessageEnvelope<IconBundleExportRequestPayload>
+      )
+    );
+
+    // Workspace Reference Files domain
+    this.router.register(
+      MessageType.WORKSPACE_REFERENCE_PICK,
+      (msg) => this.referenceFileHandler.handlePickRequest(
+        msg as MessageEnvelope<WorkspaceReferencePickPayload>
+      )
+    );
+
+    // Prompt Template domain
+    this.router.register(
+      MessageType.PROMPT_TEMPLATE_LIST_REQUEST,
+      (msg) => this.promptTemplateHandler.handleListRequest(msg)
+    );
+    this.router.register(
+      MessageType.PROMPT_TEMPLATE_SAVE,
+      (msg) => this.promptTemplateHandler.handleSave(
+        msg as MessageEnvelope<PromptTemplateSavePayload>
+      )
+    );
+    this.router.register(
+      MessageType.PROMPT_TEMPLATE_DELETE,
+      (msg) => this.promptTemplateHandler.handleDelete(
+        msg as MessageEnvelope<PromptTemplateDeletePayload>
+      )
+    );
+
+    // Brand Style Profile domain
+    this.router.register(
+      MessageType.STYLE_PROFILES_REQUEST,
+      (msg) => this.styleProfileHandler.handleRequest(msg)
+    );
+    this.router.register(
+      MessageType.STYLE_PROFILE_SAVE,
+      (msg) => this.styleProfileHandler.handleSave(
+        msg as MessageEnvelope<StyleProfileSavePayload>
+      )
+    );
+    this.router.register(
+      MessageType.STYLE_PROFILE_DELETE,
+      (msg) => this.styleProfileHandler.handleDelete(
+        msg as MessageEnvelope<StyleProfileDeletePayload>
+      )
+    );
+    this.router.register(
+      MessageType.STYLE_PROFILE_ACTIVATE,
+      (msg) => this.styleProfileHandler.handleActivate(
+        msg as MessageEnvelope<StyleProfileActivatePayload>
+      )
+    );
+  }
+
+  /**
+   * Gate a generation route on the spending caps - a refused request never reaches its handler,
+   * an admitted one holds its estimate until the handler settles.
+   * @param heldBySession - the handler runs a multi-step session past its return (SVG Architect)
+   *   and releases the reservation itself when the session ends
+   */
+  private withinBudget(
+    handler: (message: MessageEnvelope) => Promise<void> | void,
+    heldBySession = false
+  ): (message: MessageEnvelope) => Promise<void> | void {
+    return async (message) => {
+      const reservationKey = this.budgetHandler.reserveGeneration(message);
+      if (reservationKey === null) {
+        return;
+      }
+      // A session can only release a reservation named by its correlationId
+      const releasedBySession = heldBySession && reservationKey === message.correlationId;
+      try {
+        await handler(message);
+      } finally {
+        if (!releasedBySession) {
+          void this.budgetHandler.releaseGeneration(reservationKey);
+        }
+      }
+    };
+  }
+
+  /**
+   * Route a comparison to the image or SVG domain, without duplicate models and within the cap
+   */
+  private handleCompareRequest(message: MessageEnvelope<ComparisonRequestPayload>): Promise<void> {
+    const models = Array.from(new Set(message.payload.models)).slice(0, MAX_COMPARISON_MODELS);
+    const request = { ...message, payload: { ...message.payload, models } };
+    return message.payload.type === 'svg'
+      ? this.svgGenerationHandler.handleCompareRequest(request)
+      : this.imageGenerationHandler.handleCompareRequest(request);
+  }
+
+  /**
+   * Abort an in-flight generation - the owning handler skips its error and clears loading
+   */
+  private handleGenerationCancel(message: MessageEnvelope<GenerationCancelPayload>): void {
+    const { correlationId } = message.payload;
+    if (this.generationCancellation.cancel(correlationId)) {
+      this.logger.info(`Generation cancelled: ${correlationId}`);
+    } else {
+      this.logger.debug(`No in-flight generation to cancel: ${correlationId}`);
+    }
   }
 
   /**
@@ -295,6 +620,20 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * Load generation parameters from a saved file (invoked by WebviewViewProvider)
+   */
+  async loadParametersFromFile(uri: vscode.Uri): Promise<void> {
+    await this.loadParametersHandler.handleLoadFromFile(uri);
+  }
+
+  /**
+   * Attach workspace files as references (invoked by WebviewViewProvider)
+   */
+  async useAsReference(uris: vscode.Uri[]): Promise<void> {
+    await this.referenceFileHandler.handleUseFiles(uris);
+  }
+
   /**
    * React to configuration changes (invoked by WebviewViewProvider)
    */
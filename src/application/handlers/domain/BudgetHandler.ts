@@ -0,0 +1,284 @@
+/**
+ * BudgetHandler - Spending caps: pre-generation checks, spend tracking and alerts
+ *
+ * Pattern: Domain handler over BudgetStore (globalState)
+ * Responsibilities:
+ * - Estimate a generation's cost from model pricing and refuse it when a cap would be exceeded,
+ *   otherwise reserve the estimate, under its correlationId, until the generation ends
+ * - Stop a multi-step generation (SVG Architect) between steps once its spend has pushed a cap over
+ * - Record the costUsd of every completed call and warn once per period at the threshold
+ * - Send budget status (limits, spend, remaining) to the webview
+ */
+import * as vscode from 'vscode';
+import {
+  MessageType,
+  MessageEnvelope,
+  MessageSource,
+  createEnvelope,
+  BudgetPeriod,
+  BudgetStatusPayload,
+  BudgetUpdateLimitsPayload,
+  ImageGenerationRequestPayload,
+  ImageGenerationContinuePayload,
+  SVGGenerationRequestPayload,
+  SVGGenerationContinuePayload,
+  SVGArchitectRequestPayload,
+  ComparisonRequestPayload,
+  TokenUsage,
+  MAX_IMAGE_VARIATIONS,
+  MAX_COMPARISON_MODELS,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { BudgetStore, BudgetBlock, BudgetWarning } from '@storage';
+import {
+  ModelCatalogService,
+  CostEstimate,
+  estimateGenerationCost,
+  estimateArchitectCost,
+  sumCostEstimates,
+  SVG_OUTPUT_TOKENS,
+} from '@ai';
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  session: 'session',
+  daily: 'daily',
+  monthly: 'monthly',
+};
+
+const PERIOD_RESETS: Record<BudgetPeriod, string> = {
+  session: 'restart VS Code',
+  daily: 'wait until tomorrow',
+  monthly: 'wait until next month',
+};
+
+export class BudgetHandler {
+  private readonly configSection = 'pixelMinion';
+  private nextUnnamedReservation = 1;
+
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly budgetStore: BudgetStore,
+    private readonly modelCatalog: ModelCatalogService,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('BudgetHandler initialized');
+  }
+
+  /**
+   * Handle budget status request
+   */
+  async handleStatusRequest(message: MessageEnvelope): Promise<void> {
+    this.sendStatus(message.correlationId);
+  }
+
+  /**
+   * Handle cap/threshold changes from Settings
+   */
+  async handleUpdateLimits(message: MessageEnvelope<BudgetUpdateLimitsPayload>): Promise<void> {
+    try {
+      await this.budgetStore.setLimits(message.payload);
+    } catch (error) {
+      this.logger.error('Failed to update budget limits', error);
+      this.postMessage(createEnvelope(
+        MessageType.ERROR,
+        'extension.budget',
+        {
+          message: `Failed to update budget limits: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          code: 'BUDGET_UPDATE_ERROR',
+        },
+        message.correlationId
+      ));
+    }
+    this.sendStatus(message.correlationId);
+  }
+
+  /**
+   * Add a completed call's cost to every period and alert on newly reached thresholds
+   * @param correlationId - the generation the call belongs to, whose reservation the cost settles
+   */
+  async recordUsage(usage: TokenUsage, correlationId?: string): Promise<void> {
+    if (typeof usage.costUsd !== 'number') {
+      return;
+    }
+
+    const warnings = await this.budgetStore.recordSpend(usage.costUsd, correlationId);
+    for (const warning of warnings) {
+      this.showWarning(warning);
+    }
+    this.sendStatus();
+  }
+
+  /**
+   * Check a generation request against the caps and reserve its estimate. When refused,
+   * the error goes to the requesting domain so its loading state clears.
+   * A request without a correlationId gets a key of its own - no usage names it, so its
+   * whole estimate stays held until it ends.
+   * @returns the reservation key (normally the correlationId) to release when the generation ends,
+   *   or null if refused
+   */
+  reserveGeneration(message: MessageEnvelope): string | null {
+    const estimate = this.estimate(message);
+    const block = this.budgetStore.check(estimate.costUsd ?? 0);
+    if (block) {
+      const estimateText = estimate.costUsd !== null ? `~$${estimate.costUsd.toFixed(3)}` : 'unknown cost';
+      this.refuse(block, `This generation (${estimateText})`, this.sourceFor(message.type), message.correlationId);
+      return null;
+    }
+
+    const reservationKey = message.correlationId ?? `unnamed-${this.nextUnnamedReservation++}`;
+    this.budgetStore.reserve(reservationKey, estimate.costUsd ?? 0);
+    return reservationKey;
+  }
+
+  /**
+   * Check that a running multi-step generation may start its next step. Its own reservation
+   * still counts, so it is stopped only once spend has pushed a cap past its limit.
+   */
+  allowNextStep(source: MessageSource, correlationId: string): boolean {
+    const block = this.budgetStore.check(0);
+    if (block) {
+      this.refuse(block, 'The next step', source, correlationId);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Release a generation's reservation once it has finished, failed or been cancelled
+   */
+  releaseGeneration(reservationKey: string): Promise<void> {
+    return this.budgetStore.release(reservationKey);
+  }
+
+  /**
+   * Tell the requesting domain why a cap stopped its generation
+   */
+  private refuse(block: BudgetBlock, subject: string, source: MessageSource, correlationId?: string): void {
+    const spentText = block.reservedUsd > 0
+      ? `$${block.spentUsd.toFixed(2)} spent, $${block.reservedUsd.toFixed(2)} held by running generations`
+      : `$${block.spentUsd.toFixed(2)} spent`;
+    const text = block.spentUsd >= block.limitUsd
+      ? `Your ${PERIOD_LABELS[block.period]} budget of $${block.limitUsd.toFixed(2)} is used up (${spentText}).`
+      : `${subject} would exceed your ${PERIOD_LABELS[block.period]} budget of $${block.limitUsd.toFixed(2)} (${spentText}).`;
+
+    this.logger.warn(`Generation blocked by ${block.period} budget`, block);
+    this.postMessage(createEnvelope(
+      MessageType.ERROR,
+      source,
+      {
+        message: `${text} Raise the limit in Settings or ${PERIOD_RESETS[block.period]}.`,
+        code: 'BUDGET_EXCEEDED',
+      },
+      correlationId
+    ));
+  }
+
+  private estimate(message: MessageEnvelope): CostEstimate {
+    const config = vscode.workspace.getConfiguration(this.configSection);
+
+    switch (message.type) {
+      case MessageType.IMAGE_GENERATION_REQUEST: {
+        const payload = message.payload as ImageGenerationRequestPayload;
+        const count = payload.conversationId
+          ? 1
+          : Math.min(MAX_IMAGE_VARIATIONS, Math.max(1, Math.floor(payload.variations ?? 1)));
+        const single = estimateGenerationCost(this.modelCatalog.findModel(payload.model), {
+          promptChars: payload.prompt.length + (payload.referenceSvgText?.length ?? 0),
+          referenceImageCount: payload.referenceImages?.length ?? 0,
+          outputImages: 1,
+        });
+        return sumCostEstimates(Array.from({ length: count }, () => single));
+      }
+
+      case MessageType.IMAGE_GENERATION_CONTINUE: {
+        const payload = message.payload as ImageGenerationContinuePayload;
+        const model = payload.model ?? config.get<string>('imageModel', '');
+        return estimateGenerationCost(this.modelCatalog.findModel(model), {
+          promptChars: payload.prompt.length + (payload.referenceSvgText?.length ?? 0),
+          historyChars: (payload.history ?? []).reduce((sum, turn) => sum + turn.prompt.length, 0),
+          // Earlier images are re-sent with the thread (at least the latest one)
+          referenceImageCount: Math.max(1, (payload.history ?? []).reduce((sum, turn) => sum + turn.images.length, 0))
+            + (payload.mask ? 2 : 0),  // source plus mask or guidance image
+          outputImages: 1,
+        });
+      }
+
+      case MessageType.SVG_GENERATION_REQUEST: {
+        const payload = message.payload as SVGGenerationRequestPayload;
+        return estimateGenerationCost(this.modelCatalog.findModel(payload.model), {
+          promptChars: payload.prompt.length + (payload.referenceSvgText?.length ?? 0),
+          referenceImageCount: payload.referenceImage ? 1 : 0,
+          outputTokens: SVG_OUTPUT_TOKENS,
+        });
+      }
+
+      case MessageType.SVG_GENERATION_CONTINUE: {
+        const payload = message.payload as SVGGenerationContinuePayload;
+        const model = payload.model ?? config.get<string>('svgModel', '');
+        return estimateGenerationCost(this.modelCatalog.findModel(model), {
+          promptChars: payload.prompt.length + (payload.referenceSvgText?.length ?? 0),
+          historyChars: (payload.history ?? []).reduce((sum, turn) => sum + turn.prompt.length + turn.svgCode.length, 0),
+          outputTokens: SVG_OUTPUT_TOKENS,
+        });
+      }
+
+      case MessageType.SVG_ARCHITECT_REQUEST: {
+        const payload = message.payload as SVGArchitectRequestPayload;
+        return estimateArchitectCost(
+          this.modelCatalog.findModel(payload.blueprintModel),
+          this.modelCatalog.findModel(payload.renderModel),
+          {
+            promptChars: payload.prompt.length + (payload.referenceSvgText?.length ?? 0),
+            hasReferenceImage: !!payload.referenceImage,
+            maxIterations: payload.maxIterations,
+          }
+        );
+      }
+
+      case MessageType.COMPARISON_REQUEST: {
+        // One call per distinct model, each priced at its own rates
+        const payload = message.payload as ComparisonRequestPayload;
+        const models = Array.from(new Set(payload.models)).slice(0, MAX_COMPARISON_MODELS);
+        const promptChars = payload.prompt.length + (payload.referenceSvgText?.length ?? 0);
+        return sumCostEstimates(models.map((model) => estimateGenerationCost(
+          this.modelCatalog.findModel(model),
+          payload.type === 'svg'
+            ? { promptChars, referenceImageCount: payload.referenceImages?.length ? 1 : 0, outputTokens: SVG_OUTPUT_TOKENS }
+            : { promptChars, referenceImageCount: payload.referenceImages?.length ?? 0, outputImages: 1 }
+        )));
+      }
+
+      default:
+        return { inputTokens: 0, outputTokens: 0, costUsd: null };
+    }
+  }
+
+  private sourceFor(type: MessageType): MessageSource {
+    if (type === MessageType.COMPARISON_REQUEST) {
+      return 'extension.comparison';
+    }
+    if (type === MessageType.SVG_ARCHITECT_REQUEST) {
+      return 'extension.svgArchitect';
+    }
+    if (type === MessageType.SVG_GENERATION_REQUEST || type === MessageType.SVG_GENERATION_CONTINUE) {
+      return 'extension.svgGeneration';
+    }
+    return 'extension.imageGeneration';
+  }
+
+  private showWarning({ period, limitUsd, spentUsd }: BudgetWarning): void {
+    const percent = Math.round((spentUsd / limitUsd) * 100);
+    const text = `Pixel Minion: ${percent}% of your ${PERIOD_LABELS[period]} budget used ($${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)}).`;
+    this.logger.warn(text);
+    void vscode.window.showWarningMessage(text);
+  }
+
+  private sendStatus(correlationId?: string): void {
+    this.postMessage(createEnvelope<BudgetStatusPayload>(
+      MessageType.BUDGET_STATUS,
+      'extension.budget',
+      this.budgetStore.getStatus(),
+      correlationId
+    ));
+  }
+}
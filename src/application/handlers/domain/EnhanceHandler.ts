@@ -13,9 +13,10 @@ import {
   StatusPayload,
   TokenUsage,
 } from '@messages';
-import { OpenRouterTextClient } from '@ai';
+import { OpenRouterTextClient, InvalidApiKeyError, getErrorCode } from '@ai';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { GenerationCancellation } from '../GenerationCancellation';
 
 const SYSTEM_PROMPTS: Record<EnhancePromptType, string> = {
   image: `You are an expert prompt engineer for AI image generation. Your task is to enhance the user's prompt to produce better, more detailed images.
@@ -49,7 +50,8 @@ export class EnhanceHandler {
     private readonly postMessage: (message: MessageEnvelope) => void,
     private readonly secretStorage: SecretStorageService,
     private readonly logger: LoggingService,
-    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void
+    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void,
+    private readonly cancellation: GenerationCancellation = new GenerationCancellation()
   ) {
     this.logger.debug('EnhanceHandler initialized');
   }
@@ -68,11 +70,12 @@ export class EnhanceHandler {
       { message: 'Enhancing prompt...', isLoading: true },
       message.correlationId
     ));
+    const signal = this.cancellation.begin(message.correlationId);
 
     try {
       const apiKey = await this.secretStorage.getApiKey();
       if (!apiKey) {
-        throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+        throw new InvalidApiKeyError('API key not configured. Please add your OpenRouter API key in Settings.');
       }
 
       const client = new OpenRouterTextClient(apiKey, ENHANCE_MODEL);
@@ -81,7 +84,7 @@ export class EnhanceHandler {
       const result = await client.createCompletion([
         { role: 'system', content: systemPrompt },
         { role: 'user', content: prompt },
-      ]);
+      ], { signal });
 
       const enhancedPrompt = result.content.trim();
       this.logger.info(`Enhanced prompt: ${enhancedPrompt.substring(0, 50)}...`);
@@ -102,17 +105,22 @@ export class EnhanceHandler {
         this.applyTokenUsage(result.usage);
       }
     } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('Enhance request cancelled');
+        return;
+      }
       this.logger.error('Enhance request failed', error);
       this.postMessage(createEnvelope(
         MessageType.ERROR,
         'extension.enhance',
         {
           message: error instanceof Error ? error.message : 'Enhancement failed',
-          code: 'ENHANCE_ERROR',
+          code: getErrorCode(error, 'ENHANCE_ERROR'),
         },
         message.correlationId
       ));
     } finally {
+      this.cancellation.end(message.correlationId);
       // Clear loading status
       this.postMessage(createEnvelope<StatusPayload>(
         MessageType.STATUS,
@@ -0,0 +1,106 @@
+/**
+ * HistoryHandler - Handles generation history messages (thin handler)
+ *
+ * Pattern: Thin message router - persistence lives in GenerationHistoryStore
+ * Responsibilities:
+ * - Record completed image/SVG turns reported by the webview
+ * - Send the history list and restore full conversations
+ * - Delete entries (including the stored provider conversation)
+ */
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  HistoryRecordPayload,
+  HistoryListPayload,
+  HistoryRestoreRequestPayload,
+  HistoryRestoreResultPayload,
+  HistoryDeletePayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { ConversationStore, GenerationHistoryStore } from '@storage';
+
+export class HistoryHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly historyStore: GenerationHistoryStore,
+    private readonly conversationStore: ConversationStore,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('HistoryHandler initialized');
+  }
+
+  /**
+   * Record a completed turn, then refresh the list
+   */
+  async handleRecord(message: MessageEnvelope<HistoryRecordPayload>): Promise<void> {
+    const { type, conversationId, turn } = message.payload;
+    this.logger.debug(`Recording ${type} history turn ${turn.turnNumber ?? '?'} for ${conversationId}`);
+    await this.historyStore.record(message.payload);
+    await this.sendList(message.correlationId);
+  }
+
+  /**
+   * Send all history entries (newest first)
+   */
+  async handleListRequest(message: MessageEnvelope): Promise<void> {
+    await this.sendList(message.correlationId);
+  }
+
+  /**
+   * Load a conversation's turns so the webview can restore it into its view
+   */
+  async handleRestoreRequest(message: MessageEnvelope<HistoryRestoreRequestPayload>): Promise<void> {
+    const { conversationId } = message.payload;
+    const conversation = await this.historyStore.get(conversationId);
+
+    if (!conversation) {
+      this.logger.warn(`History entry not found: ${conversationId}`);
+      this.postMessage(createEnvelope(
+        MessageType.ERROR,
+        'extension.history',
+        {
+          message: 'This history entry is no longer available',
+          code: 'HISTORY_NOT_FOUND',
+        },
+        message.correlationId
+      ));
+      await this.sendList(message.correlationId);
+      return;
+    }
+
+    this.logger.info(`Restoring ${conversation.type} conversation ${conversationId} (${conversation.turns.length} turns)`);
+    this.postMessage(createEnvelope<HistoryRestoreResultPayload>(
+      MessageType.HISTORY_RESTORE_RESULT,
+      'extension.history',
+      conversation,
+      message.correlationId
+    ));
+  }
+
+  /**
+   * Delete an entry and the provider conversation behind it
+   */
+  async handleDelete(message: MessageEnvelope<HistoryDeletePayload>): Promise<void> {
+    const { conversationId } = message.payload;
+    const conversation = await this.historyStore.get(conversationId);
+
+    await this.historyStore.delete(conversationId);
+    if (conversation) {
+      await this.conversationStore.delete(conversation.type, conversationId);
+    }
+
+    this.logger.info(`Deleted history entry: ${conversationId}`);
+    await this.sendList(message.correlationId);
+  }
+
+  private async sendList(correlationId?: string): Promise<void> {
+    const entries = await this.historyStore.list();
+    this.postMessage(createEnvelope<HistoryListPayload>(
+      MessageType.HISTORY_LIST,
+      'extension.history',
+      { entries },
+      correlationId
+    ));
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * IconBundleHandler - Writes favicon / touch / PWA icon bundles to the output directory
+ *
+ * Pattern: Domain handler over the imaging pipeline
+ * Responsibilities:
+ * - Decode the source image and build the bundle (icons, manifest, link snippet);
+ *   sources the decoder cannot read (WebP, progressive JPEG) are refused up front
+ * - Write it to a new folder in the outputDirectory used by image and SVG saves
+ *   (folder picker when no workspace is open)
+ * - Open the link snippet and report the written files to the webview
+ */
+import * as vscode from 'vscode';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  IconBundleExportRequestPayload,
+  IconBundleExportResultPayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { buildIconBundle, decodeImage, detectImageFormat, getUndecodableReason } from '@imaging';
+
+export class IconBundleHandler {
+  private readonly configSection = 'pixelMinion';
+
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('IconBundleHandler initialized');
+  }
+
+  /**
+   * Handle icon bundle export request
+   */
+  async handleExportRequest(message: MessageEnvelope<IconBundleExportRequestPayload>): Promise<void> {
+    const { sourceId, imageData, svgCode, name } = message.payload;
+
+    try {
+      const match = imageData.match(/^data:image\/[\w+.-]+;base64,(.+)$/);
+      if (!match) {
+        throw new Error('Invalid image data URL');
+      }
+
+      const bytes = Buffer.from(match[1], 'base64');
+      if (getUndecodableReason(bytes)) {
+        const kind = detectImageFormat(bytes) === 'webp' ? 'a WebP image' : 'a progressive or non-baseline JPEG';
+        throw new Error(`Icons cannot be made from ${kind} - export them from a PNG or baseline JPEG`);
+      }
+
+      const files = buildIconBundle(decodeImage(bytes), { svgCode });
+      const directoryUri = await this.resolveBundleDirectory(name);
+
+      await vscode.workspace.fs.createDirectory(directoryUri);
+      for (const file of files) {
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(directoryUri, file.name), file.bytes);
+      }
+
+      this.postMessage(createEnvelope<IconBundleExportResultPayload>(
+        MessageType.ICON_BUNDLE_EXPORT_RESULT,
+        'extension.iconBundle',
+        { success: true, sourceId, directory: directoryUri.fsPath, files: files.map((file) => file.name) },
+        message.correlationId
+      ));
+
+      await vscode.commands.executeCommand('vscode.open', vscode.Uri.joinPath(directoryUri, 'icon-links.html'));
+      void vscode.window.showInformationMessage(`Pixel Minion: ${files.length} icon files exported to ${directoryUri.fsPath}`);
+      this.logger.info(`Icon bundle exported: ${directoryUri.fsPath}`);
+    } catch (error) {
+      this.logger.error('Icon bundle export failed', error);
+      this.postMessage(createEnvelope<IconBundleExportResultPayload>(
+        MessageType.ICON_BUNDLE_EXPORT_RESULT,
+        'extension.iconBundle',
+        {
+          success: false,
+          sourceId,
+          error: error instanceof Error ? error.message : 'Failed to export icon bundle',
+        },
+        message.correlationId
+      ));
+    }
+  }
+
+  /**
+   * New folder for this bundle - inside the output directory, or a picked folder without a workspace
+   */
+  private async resolveBundleDirectory(name?: string): Promise<vscode.Uri> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+    const slug = (name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 40);
+    const folderName = `${slug || 'icons'}-${timestamp}`;
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      // No workspace open - ask where to put the bundle
+      const result = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Export Icons Here',
+      });
+      if (!result || result.length === 0) {
+        throw new Error('Export cancelled');
+      }
+      return vscode.Uri.joinPath(result[0], folderName);
+    }
+
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    const outputDir = config.get<string>('outputDirectory', 'pixel-minion');
+    return vscode.Uri.joinPath(workspaceFolders[0].uri, outputDir, folderName);
+  }
+}
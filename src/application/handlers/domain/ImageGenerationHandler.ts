@@ -6,7 +6,13 @@
  * - Extract payloads from messages
  * - Route to orchestrator
  * - Transform responses for presentation
- * - Handle file operations (VSCode-specific)
+ * - Handle file operations (VSCode-specific), post-processing saved images per the save options
+ *   and embedding their generation provenance
+ * - Register requests for GENERATION_CANCEL
+ * - Report batch variations as each one lands
+ * - Run model comparisons, reporting each model's result with its latency
+ * - Branch new conversations from earlier turns
+ * - Report OpenRouter retries as STATUS and apply the fallback image model setting
  */
 import * as vscode from 'vscode';
 import {
@@ -15,15 +21,31 @@ import {
   createEnvelope,
   ImageGenerationRequestPayload,
   ImageGenerationContinuePayload,
+  ImageGenerationBranchPayload,
+  ConversationBranchResultPayload,
   ImageGenerationResponsePayload,
+  ImageVariationPayload,
   ImageSaveRequestPayload,
   ImageSaveResultPayload,
+  ImageSaveOptions,
+  GenerationProvenance,
   GeneratedImage,
   StatusPayload,
   TokenUsage,
+  MAX_IMAGE_VARIATIONS,
+  ComparisonRequestPayload,
+  ComparisonResultPayload,
 } from '@messages';
 import { LoggingService } from '@logging';
-import { ImageOrchestrator, RehydrationTurn } from '@ai';
+import { ImageOrchestrator, ImageTurnResult, RehydrationTurn, RetryOptions, describeRetryNotice, getErrorCode } from '@ai';
+import {
+  processImage,
+  embedProvenance,
+  detectImageFormat,
+  serializeProvenanceSidecar,
+  PROVENANCE_SIDECAR_SUFFIX,
+} from '@imaging';
+import { GenerationCancellation } from '../GenerationCancellation';
 
 export class ImageGenerationHandler {
   private readonly configSection = 'pixelMinion';
@@ -32,7 +54,8 @@ export class ImageGenerationHandler {
     private readonly postMessage: (message: MessageEnvelope) => void,
     private readonly orchestrator: ImageOrchestrator,
     private readonly logger: LoggingService,
-    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void
+    private readonly applyTokenUsageCallback?: (usage: TokenUsage, correlationId?: string) => void,
+    private readonly cancellation: GenerationCancellation = new GenerationCancellation()
   ) {
     this.logger.debug('ImageGenerationHandler initialized');
   }
@@ -41,31 +64,37 @@ export class ImageGenerationHandler {
    * Handle new image generation request
    */
   async handleGenerationRequest(message: MessageEnvelope<ImageGenerationRequestPayload>): Promise<void> {
-    const { prompt, model, aspectRatio, referenceImages, referenceSvgText, conversationId, seed } = message.payload;
+    const { prompt, model, aspectRatio, referenceImages, referenceSvgText, conversationId, seed, variations } = message.payload;
     this.logger.info(`Image generation request: ${prompt.substring(0, 50)}...`);
 
     this.sendLoadingStatus(true, message.correlationId);
+    const signal = this.cancellation.begin(message.correlationId);
+
+    // Variations only start new conversations - a continuation stays a single turn
+    const variationCount = conversationId ? 1 : this.clampVariations(variations);
 
     try {
+      if (variationCount > 1) {
+        await this.generateVariations(message, variationCount, signal);
+        return;
+      }
+
       const result = await this.orchestrator.generateImage(prompt, {
         model,
         aspectRatio,
         seed,
         referenceImages,
         referenceSvgText,
+        signal,
+        retry: this.createRetryOptions(message.correlationId),
       }, conversationId);
 
       // Apply token usage if available
       if (result.usage) {
-        this.applyTokenUsage(result.usage);
+        this.applyTokenUsage(result.usage, message.correlationId);
       }
 
-      const images = this.transformToGeneratedImages(
-        result.result,
-        result.conversationId,
-        result.turnNumber,
-        prompt
-      );
+      const images = this.transformToGeneratedImages(result, prompt);
 
       this.postMessage(createEnvelope<ImageGenerationResponsePayload>(
         MessageType.IMAGE_GENERATION_RESPONSE,
@@ -75,12 +104,18 @@ export class ImageGenerationHandler {
           images,
           turnNumber: result.turnNumber,
           usage: result.usage,
+          text: result.result.text,
         },
         message.correlationId
       ));
     } catch (error) {
-      this.sendError(error, message.correlationId);
+      if (signal.aborted) {
+        this.logger.info('Image generation cancelled');
+      } else {
+        this.sendError(error, message.correlationId);
+      }
     } finally {
+      this.cancellation.end(message.correlationId);
       this.sendLoadingStatus(false, message.correlationId);
     }
   }
@@ -89,10 +124,11 @@ export class ImageGenerationHandler {
    * Handle conversation continuation request
    */
   async handleContinueRequest(message: MessageEnvelope<ImageGenerationContinuePayload>): Promise<void> {
-    const { prompt, conversationId, history, model, aspectRatio, referenceSvgText } = message.payload;
-    this.logger.info(`Image generation continue: ${prompt.substring(0, 50)}...`);
+    const { prompt, conversationId, history, model, aspectRatio, referenceSvgText, mask, targetImages } = message.payload;
+    this.logger.info(`Image generation ${mask ? 'inpaint' : 'continue'}: ${prompt.substring(0, 50)}...`);
 
     this.sendLoadingStatus(true, message.correlationId);
+    const signal = this.cancellation.begin(message.correlationId);
 
     try {
       // Transform history to rehydration format
@@ -100,6 +136,7 @@ export class ImageGenerationHandler {
         prompt: h.prompt,
         images: h.images,
         referenceSvgText: h.referenceSvgText,
+        text: h.text,
       }));
 
       const result = await this.orchestrator.continueConversation(
@@ -108,20 +145,19 @@ export class ImageGenerationHandler {
         rehydrationHistory,
         model,
         aspectRatio,
-        referenceSvgText
+        referenceSvgText,
+        signal,
+        mask,
+        this.createRetryOptions(message.correlationId),
+        targetImages
       );
 
       // Apply token usage if available
       if (result.usage) {
-        this.applyTokenUsage(result.usage);
+        this.applyTokenUsage(result.usage, message.correlationId);
       }
 
-      const images = this.transformToGeneratedImages(
-        result.result,
-        result.conversationId,
-        result.turnNumber,
-        prompt
-      );
+      const images = this.transformToGeneratedImages(result, prompt);
 
       this.postMessage(createEnvelope<ImageGenerationResponsePayload>(
         MessageType.IMAGE_GENERATION_RESPONSE,
@@ -131,16 +167,134 @@ export class ImageGenerationHandler {
           images,
           turnNumber: result.turnNumber,
           usage: result.usage,
+          text: result.result.text,
         },
         message.correlationId
       ));
     } catch (error) {
-      this.sendError(error, message.correlationId);
+      if (signal.aborted) {
+        this.logger.info('Image generation cancelled');
+      } else {
+        this.sendError(error, message.correlationId);
+      }
     } finally {
+      this.cancellation.end(message.correlationId);
       this.sendLoadingStatus(false, message.correlationId);
     }
   }
 
+  /**
+   * Handle a model comparison - one new conversation per model, same prompt, references and seed
+   */
+  async handleCompareRequest(message: MessageEnvelope<ComparisonRequestPayload>): Promise<void> {
+    const { prompt, models, aspectRatio, seed, referenceImages, referenceSvgText } = message.payload;
+    this.logger.info(`Image comparison of ${models.length} models: ${prompt.substring(0, 50)}...`);
+
+    const signal = this.cancellation.begin(message.correlationId);
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    let completed = 0;
+
+    try {
+      await this.orchestrator.compareModels(
+        prompt,
+        {
+          aspectRatio,
+          seed,
+          referenceImages,
+          referenceSvgText,
+          signal,
+          retry: this.createRetryOptions(message.correlationId),
+        },
+        models,
+        config.get<number>('maxConcurrentVariations', 3),
+        ({ index, model, latencyMs, turn, error }) => {
+          completed++;
+          if (turn?.usage) {
+            this.applyTokenUsage(turn.usage, message.correlationId);
+          }
+
+          this.postMessage(createEnvelope<ComparisonResultPayload>(
+            MessageType.COMPARISON_RESULT,
+            'extension.comparison',
+            {
+              type: 'image',
+              index,
+              model,
+              total: models.length,
+              completed,
+              latencyMs,
+              conversationId: turn?.conversationId,
+              images: turn ? this.transformToGeneratedImages(turn, prompt) : undefined,
+              usage: turn?.usage,
+              error: error?.message,
+            },
+            message.correlationId
+          ));
+        }
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('Image comparison cancelled');
+      } else {
+        this.logger.error('Image comparison failed', error);
+        this.postMessage(createEnvelope(
+          MessageType.ERROR,
+          'extension.comparison',
+          {
+            message: error instanceof Error ? error.message : 'Model comparison failed',
+            code: getErrorCode(error, 'COMPARISON_ERROR'),
+          },
+          message.correlationId
+        ));
+      }
+    } finally {
+      this.cancellation.end(message.correlationId);
+      // Clears any retry notice left by the comparison
+      this.sendLoadingStatus(false, message.correlationId);
+    }
+  }
+
+  /**
+   * Handle "Branch from here" - a new conversation sharing the source's turns up to turnNumber
+   */
+  async handleBranchRequest(message: MessageEnvelope<ImageGenerationBranchPayload>): Promise<void> {
+    const { conversationId, turnNumber, history, model, aspectRatio } = message.payload;
+    this.logger.info(`Branching conversation ${conversationId} at turn ${turnNumber}`);
+
+    try {
+      const branch = await this.orchestrator.branchConversation(
+        conversationId,
+        turnNumber,
+        history?.map(h => ({
+          prompt: h.prompt,
+          images: h.images,
+          referenceSvgText: h.referenceSvgText,
+          text: h.text,
+        })),
+        model,
+        aspectRatio
+      );
+
+      this.postMessage(createEnvelope<ConversationBranchResultPayload>(
+        MessageType.IMAGE_GENERATION_BRANCH_RESULT,
+        'extension.imageGeneration',
+        { sourceConversationId: conversationId, conversationId: branch.id, turnNumber },
+        message.correlationId
+      ));
+    } catch (error) {
+      this.logger.error('Conversation branch failed', error);
+      this.postMessage(createEnvelope(
+        MessageType.ERROR,
+        'extension.imageGeneration',
+        {
+          message: error instanceof Error ? error.message : 'Could not branch the conversation',
+          code: getErrorCode(error, 'CONVERSATION_NOT_FOUND'),
+        },
+        message.correlationId
+      ));
+    }
+  }
+
   /**
    * Handle conversation clear request
    */
@@ -154,11 +308,11 @@ export class ImageGenerationHandler {
    * Handle image save request
    */
   async handleSaveRequest(message: MessageEnvelope<ImageSaveRequestPayload>): Promise<void> {
-    const { imageId, data, mimeType, suggestedFilename } = message.payload;
+    const { imageId, data, mimeType, suggestedFilename, options, provenance } = message.payload;
     this.logger.info(`Saving image: ${suggestedFilename}`);
 
     try {
-      const fileUri = await this.saveImage(data, mimeType, suggestedFilename);
+      const fileUri = await this.saveImage(data, mimeType, suggestedFilename, options, provenance);
 
       this.postMessage(createEnvelope<ImageSaveResultPayload>(
         MessageType.IMAGE_SAVE_RESULT,
@@ -188,6 +342,100 @@ export class ImageGenerationHandler {
   // Private helpers
   // ─────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Run a batch of variations: post each one as it lands, then a single response
+   * with every successful image and the summed usage
+   */
+  private async generateVariations(
+    message: MessageEnvelope<ImageGenerationRequestPayload>,
+    count: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    const { prompt, model, aspectRatio, referenceImages, referenceSvgText, seed } = message.payload;
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    const concurrency = config.get<number>('maxConcurrentVariations', 3);
+    let completed = 0;
+
+    const variations = await this.orchestrator.generateVariations(
+      prompt,
+      {
+        model,
+        aspectRatio,
+        seed,
+        referenceImages,
+        referenceSvgText,
+        signal,
+        retry: this.createRetryOptions(message.correlationId),
+      },
+      count,
+      concurrency,
+      (variation) => {
+        completed++;
+        const turn = variation.turn;
+        if (turn?.usage) {
+          this.applyTokenUsage(turn.usage, message.correlationId);
+        }
+
+        this.postMessage(createEnvelope<ImageVariationPayload>(
+          MessageType.IMAGE_GENERATION_VARIATION,
+          'extension.imageGeneration',
+          {
+            index: variation.index,
+            total: count,
+            completed,
+            images: turn
+              ? this.transformToGeneratedImages(turn, prompt)
+              : [],
+            error: variation.error?.message,
+          },
+          message.correlationId
+        ));
+      }
+    );
+
+    const turns = variations.flatMap((variation) => variation.turn ? [variation.turn] : []);
+    const images = turns.flatMap((turn) =>
+      this.transformToGeneratedImages(turn, prompt)
+    );
+
+    this.logger.info(`Variations complete: ${turns.length}/${count} succeeded`);
+
+    this.postMessage(createEnvelope<ImageGenerationResponsePayload>(
+      MessageType.IMAGE_GENERATION_RESPONSE,
+      'extension.imageGeneration',
+      {
+        conversationId: turns[0].conversationId,
+        images,
+        turnNumber: 1,
+        usage: this.sumUsage(turns.map((turn) => turn.usage)),
+      },
+      message.correlationId
+    ));
+  }
+
+  private clampVariations(variations?: number): number {
+    if (!variations || !Number.isFinite(variations)) {
+      return 1;
+    }
+    return Math.min(Math.max(Math.floor(variations), 1), MAX_IMAGE_VARIATIONS);
+  }
+
+  private sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+    const reported = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+    if (reported.length === 0) {
+      return undefined;
+    }
+
+    return reported.reduce((total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      costUsd: total.costUsd !== undefined || usage.costUsd !== undefined
+        ? (total.costUsd ?? 0) + (usage.costUsd ?? 0)
+        : undefined,
+    }));
+  }
+
   private sendLoadingStatus(isLoading: boolean, correlationId?: string): void {
     this.postMessage(createEnvelope<StatusPayload>(
       MessageType.STATUS,
@@ -197,6 +445,22 @@ export class ImageGenerationHandler {
     ));
   }
 
+  /**
+   * Fallback model from settings, with each retry posted as a loading STATUS
+   */
+  private createRetryOptions(correlationId?: string): RetryOptions {
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    return {
+      fallbackModel: config.get<string>('fallbackImageModel', '').trim() || undefined,
+      onRetry: (notice) => this.postMessage(createEnvelope<StatusPayload>(
+        MessageType.STATUS,
+        'extension.imageGeneration',
+        { message: describeRetryNotice(notice), isLoading: true, retry: true },
+        correlationId
+      )),
+    };
+  }
+
   private sendError(error: unknown, correlationId?: string): void {
     this.logger.error('Image generation failed', error);
     this.postMessage(createEnvelope(
@@ -204,16 +468,14 @@ export class ImageGenerationHandler {
       'extension.imageGeneration',
       {
         message: error instanceof Error ? error.message : 'Image generation failed',
-        code: 'IMAGE_GENERATION_ERROR',
+        code: getErrorCode(error, 'IMAGE_GENERATION_ERROR'),
       },
       correlationId
     ));
   }
 
   private transformToGeneratedImages(
-    result: { images: Array<{ data: string; mimeType: string }>; seed: number },
-    conversationId: string,
-    turnNumber: number,
+    { result, conversationId, turnNumber, model, aspectRatio }: ImageTurnResult,
     prompt: string
   ): GeneratedImage[] {
     return result.images.map((img, index) => ({
@@ -223,16 +485,45 @@ export class ImageGenerationHandler {
       prompt,
       timestamp: Date.now(),
       seed: result.seed,
+      conversationId,
+      model,
+      aspectRatio,
     }));
   }
 
-  private async saveImage(dataUrl: string, mimeType: string, suggestedFilename: string): Promise<vscode.Uri> {
+  private async saveImage(
+    dataUrl: string,
+    mimeType: string,
+    suggestedFilename: string,
+    options?: ImageSaveOptions,
+    provenance?: GenerationProvenance
+  ): Promise<vscode.Uri> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
 
+    const match = dataUrl.match(/^data:image\/\w+;base64,(.+)$/);
+    if (!match) {
+      throw new Error('Invalid image data URL');
+    }
+
+    // Post-process (resize, crop, convert, strip metadata) before choosing the extension
+    let bytes: Uint8Array = Buffer.from(match[1], 'base64');
+    let extension = mimeType === 'image/png' ? 'png' : 'jpg';
+    if (options) {
+      const processed = processImage(bytes, options);
+      this.logger.debug(`Processed image for save: ${processed.format}, ${processed.bytes.length} bytes`);
+      bytes = processed.bytes;
+      extension = processed.extension;
+    }
+
+    // Provenance is metadata too - stripping wins
+    const format = detectImageFormat(bytes);
+    if (provenance && format && !options?.stripMetadata) {
+      bytes = embedProvenance(bytes, format, provenance);
+    }
+
     // Generate filename if not provided
-    let filename = suggestedFilename;
+    let filename = suggestedFilename ? suggestedFilename.replace(/\.\w+$/, `.${extension}`) : '';
     if (!filename) {
-      const extension = mimeType === 'image/png' ? 'png' : 'jpg';
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
       filename = `image-${timestamp}.${extension}`;
     }
@@ -241,7 +532,6 @@ export class ImageGenerationHandler {
 
     if (!workspaceFolders || workspaceFolders.length === 0) {
       // No workspace open - show save dialog
-      const extension = mimeType === 'image/png' ? 'png' : 'jpg';
       const result = await vscode.window.showSaveDialog({
         defaultUri: vscode.Uri.file(filename),
         filters: {
@@ -270,20 +560,24 @@ export class ImageGenerationHandler {
 
       fileUri = vscode.Uri.joinPath(outputDirUri, filename);
     }
-    const match = dataUrl.match(/^data:image\/\w+;base64,(.+)$/);
-    if (!match) {
-      throw new Error('Invalid image data URL');
-    }
 
-    const buffer = Buffer.from(match[1], 'base64');
-    await vscode.workspace.fs.writeFile(fileUri, buffer);
+    await vscode.workspace.fs.writeFile(fileUri, bytes);
+
+    // Opt-in sidecar - the parameters survive stripping and tools that drop metadata
+    const writeSidecar = vscode.workspace.getConfiguration(this.configSection).get<boolean>('saveParametersSidecar', false);
+    if (provenance && writeSidecar) {
+      await vscode.workspace.fs.writeFile(
+        fileUri.with({ path: `${fileUri.path}${PROVENANCE_SIDECAR_SUFFIX}` }),
+        Buffer.from(serializeProvenanceSidecar(provenance), 'utf-8')
+      );
+    }
 
     return fileUri;
   }
 
-  private applyTokenUsage(usage: TokenUsage): void {
+  private applyTokenUsage(usage: TokenUsage, correlationId?: string): void {
     if (this.applyTokenUsageCallback) {
-      this.applyTokenUsageCallback(usage);
+      this.applyTokenUsageCallback(usage, correlationId);
     }
   }
 }
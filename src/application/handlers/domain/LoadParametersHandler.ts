@@ -0,0 +1,108 @@
+/**
+ * LoadParametersHandler - "Load Parameters From File" for saved images and SVGs
+ *
+ * Pattern: Domain handler driven by an Explorer command rather than a webview request
+ * Responsibilities:
+ * - Read the generation provenance embedded at save time (PNG text chunks, XMP,
+ *   SVG <metadata>), falling back to a <file>.json sidecar
+ * - Send it to the webview with the file itself as a reference image
+ * - Tell the user when the file carries no parameters (it is still attached)
+ */
+import * as vscode from 'vscode';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  GenerationProvenance,
+  LoadGenerationParametersPayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import {
+  detectImageFormat,
+  readProvenance,
+  readSvgProvenance,
+  parseProvenanceSidecar,
+  PROVENANCE_SIDECAR_SUFFIX,
+  IMAGE_FORMAT_MIME_TYPES,
+} from '@imaging';
+
+export class LoadParametersHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('LoadParametersHandler initialized');
+  }
+
+  /**
+   * Handle the Explorer command for one .png/.jpg/.webp/.svg file
+   */
+  async handleLoadFromFile(uri: vscode.Uri): Promise<void> {
+    const fileName = uri.path.split('/').pop() ?? uri.path;
+
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      const payload = fileName.toLowerCase().endsWith('.svg')
+        ? this.fromSvg(fileName, Buffer.from(bytes).toString('utf-8'))
+        : this.fromImage(fileName, bytes);
+
+      if (!payload.provenance) {
+        payload.provenance = await this.readSidecar(uri);
+      }
+
+      this.postMessage(createEnvelope<LoadGenerationParametersPayload>(
+        MessageType.LOAD_GENERATION_PARAMETERS,
+        'extension.provenance',
+        payload
+      ));
+
+      if (payload.provenance) {
+        this.logger.info(`Loaded generation parameters from ${uri.fsPath}`);
+      } else {
+        this.logger.info(`No generation parameters in ${uri.fsPath}`);
+        void vscode.window.showInformationMessage(
+          `Pixel Minion: ${fileName} has no saved generation parameters - attached it as a reference only.`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Load parameters from file failed', error);
+      void vscode.window.showErrorMessage(
+        `Pixel Minion: Could not load ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private fromImage(fileName: string, bytes: Uint8Array): LoadGenerationParametersPayload {
+    const format = detectImageFormat(bytes);
+    if (!format) {
+      throw new Error('Unsupported image format (expected PNG, JPEG or WebP)');
+    }
+    return {
+      target: 'image',
+      fileName,
+      provenance: readProvenance(bytes, format),
+      referenceImage: `data:${IMAGE_FORMAT_MIME_TYPES[format]};base64,${Buffer.from(bytes).toString('base64')}`,
+    };
+  }
+
+  private fromSvg(fileName: string, svgCode: string): LoadGenerationParametersPayload {
+    return {
+      target: 'svg',
+      fileName,
+      provenance: readSvgProvenance(svgCode),
+      referenceImage: `data:image/svg+xml;base64,${Buffer.from(svgCode, 'utf-8').toString('base64')}`,
+      referenceSvgText: svgCode,
+    };
+  }
+
+  private async readSidecar(uri: vscode.Uri): Promise<Partial<GenerationProvenance> | null> {
+    const sidecarUri = uri.with({ path: `${uri.path}${PROVENANCE_SIDECAR_SUFFIX}` });
+    try {
+      const json = Buffer.from(await vscode.workspace.fs.readFile(sidecarUri)).toString('utf-8');
+      return parseProvenanceSidecar(json);
+    } catch {
+      // No sidecar next to the file
+      return null;
+    }
+  }
+}
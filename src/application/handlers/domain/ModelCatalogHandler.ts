@@ -0,0 +1,40 @@
+/**
+ * ModelCatalogHandler - Sends the OpenRouter model catalog to the webview (thin handler)
+ *
+ * Pattern: Thin message router - fetching and caching live in ModelCatalogService,
+ * which always answers (stale cache or curated lists when offline)
+ */
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  ModelCatalogPayload,
+  ModelCatalogRequestPayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { ModelCatalogService } from '@ai';
+
+export class ModelCatalogHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly catalogService: ModelCatalogService,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('ModelCatalogHandler initialized');
+  }
+
+  /**
+   * Send the catalog (refetched when forced or when the cache has expired)
+   */
+  async handleCatalogRequest(message: MessageEnvelope<ModelCatalogRequestPayload>): Promise<void> {
+    const catalog = await this.catalogService.getCatalog(message.payload?.forceRefresh ?? false);
+    this.logger.debug(`Sending model catalog (${catalog.source})`);
+
+    this.postMessage(createEnvelope<ModelCatalogPayload>(
+      MessageType.MODEL_CATALOG,
+      'extension.modelCatalog',
+      catalog,
+      message.correlationId
+    ));
+  }
+}
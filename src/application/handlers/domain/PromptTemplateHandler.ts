@@ -0,0 +1,87 @@
+/**
+ * PromptTemplateHandler - Handles prompt template messages (thin handler)
+ *
+ * Pattern: Thin message router - files are read and written by PromptTemplateStore
+ * Responsibilities:
+ * - Send the template list (workspace and global) to the pickers
+ * - Save the current prompt as a template, delete templates
+ * - Answer every change with the refreshed list
+ */
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  PromptTemplateListPayload,
+  PromptTemplateSavePayload,
+  PromptTemplateDeletePayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { PromptTemplateStore } from '@storage';
+
+export class PromptTemplateHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly templateStore: PromptTemplateStore,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('PromptTemplateHandler initialized');
+  }
+
+  /**
+   * Send all templates (re-read from disk, so hand edits show up)
+   */
+  async handleListRequest(message: MessageEnvelope): Promise<void> {
+    await this.sendList(message.correlationId);
+  }
+
+  /**
+   * Save a template, then refresh the list
+   */
+  async handleSave(message: MessageEnvelope<PromptTemplateSavePayload>): Promise<void> {
+    try {
+      await this.templateStore.save(message.payload);
+    } catch (error) {
+      this.postError(error, 'TEMPLATE_SAVE_ERROR', message.correlationId);
+    }
+    await this.sendList(message.correlationId);
+  }
+
+  /**
+   * Delete a template, then refresh the list
+   */
+  async handleDelete(message: MessageEnvelope<PromptTemplateDeletePayload>): Promise<void> {
+    try {
+      await this.templateStore.delete(message.payload.id);
+    } catch (error) {
+      this.postError(error, 'TEMPLATE_DELETE_ERROR', message.correlationId);
+    }
+    await this.sendList(message.correlationId);
+  }
+
+  private async sendList(correlationId?: string): Promise<void> {
+    try {
+      const templates = await this.templateStore.list();
+      this.postMessage(createEnvelope<PromptTemplateListPayload>(
+        MessageType.PROMPT_TEMPLATE_LIST,
+        'extension.templates',
+        { templates, workspaceAvailable: this.templateStore.hasWorkspace() },
+        correlationId
+      ));
+    } catch (error) {
+      this.postError(error, 'TEMPLATE_LIST_ERROR', correlationId);
+    }
+  }
+
+  private postError(error: unknown, code: string, correlationId?: string): void {
+    this.logger.error(`Prompt template operation failed (${code})`, error);
+    this.postMessage(createEnvelope(
+      MessageType.ERROR,
+      'extension.templates',
+      {
+        message: error instanceof Error ? error.message : 'Prompt template operation failed',
+        code,
+      },
+      correlationId
+    ));
+  }
+}
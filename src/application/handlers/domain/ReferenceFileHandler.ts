@@ -0,0 +1,150 @@
+/**
+ * ReferenceFileHandler - Workspace images and SVGs as reference attachments
+ *
+ * Pattern: Domain handler driven by an Explorer command and a webview request
+ * Responsibilities:
+ * - "Use as Pixel Minion Reference": attach the selected Explorer files
+ * - Workspace picker: list workspace images in a QuickPick (FileToolProvider.findFiles)
+ *   and attach the picked ones
+ * - Read the files here and send them as data URLs, SVGs with their source text
+ */
+import * as vscode from 'vscode';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  ReferenceFile,
+  ReferenceFilesPayload,
+  WorkspaceReferencePickPayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { FileToolProvider } from '@ai';
+import { detectImageFormat, IMAGE_FORMAT_MIME_TYPES } from '@imaging';
+
+const REFERENCE_FILE_PATTERN = '**/*.{png,jpg,jpeg,webp,svg}';
+const MAX_PICKER_FILES = 500;
+
+export class ReferenceFileHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly fileTools: FileToolProvider,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('ReferenceFileHandler initialized');
+  }
+
+  /**
+   * Handle the Explorer command for one or more .png/.jpg/.webp/.svg files
+   */
+  async handleUseFiles(uris: vscode.Uri[]): Promise<void> {
+    const files = await this.readFiles(uris);
+    if (files.length > 0) {
+      this.postFiles({ files });
+    }
+  }
+
+  /**
+   * Handle the webview's workspace picker request
+   */
+  async handlePickRequest(message: MessageEnvelope<WorkspaceReferencePickPayload>): Promise<void> {
+    const { target, maxFiles } = message.payload;
+
+    try {
+      const uris = await this.fileTools.findFiles(REFERENCE_FILE_PATTERN, MAX_PICKER_FILES, '**/node_modules/**');
+      if (uris.length === 0) {
+        void vscode.window.showInformationMessage('Pixel Minion: No PNG, JPEG, WebP or SVG files found in the workspace.');
+        return;
+      }
+
+      const items = uris
+        .map((uri) => {
+          const relativePath = vscode.workspace.asRelativePath(uri);
+          const separator = relativePath.lastIndexOf('/');
+          return {
+            label: relativePath.slice(separator + 1),
+            description: separator > 0 ? relativePath.slice(0, separator) : undefined,
+            uri,
+          };
+        })
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+      const canPickMany = maxFiles > 1;
+      const placeHolder = target === 'svg'
+        ? 'Pick a reference image or SVG for the SVG tab'
+        : `Pick up to ${maxFiles} reference images or SVGs for the Image tab`;
+      const picked = canPickMany
+        ? await vscode.window.showQuickPick(items, { placeHolder, canPickMany: true, matchOnDescription: true })
+        : await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true });
+      const pickedItems = Array.isArray(picked) ? picked : picked ? [picked] : [];
+      if (pickedItems.length === 0) {
+        return;
+      }
+
+      if (pickedItems.length > maxFiles) {
+        void vscode.window.showWarningMessage(
+          `Pixel Minion: Only ${maxFiles} more reference ${maxFiles === 1 ? 'slot is' : 'slots are'} free - attached the first ${maxFiles}.`
+        );
+      }
+      const files = await this.readFiles(pickedItems.slice(0, maxFiles).map((item) => item.uri));
+      if (files.length > 0) {
+        this.postFiles({ target, files }, message.correlationId);
+      }
+    } catch (error) {
+      this.logger.error('Workspace reference picker failed', error);
+      void vscode.window.showErrorMessage(
+        `Pixel Minion: Could not list workspace images: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Read each file, skipping (and reporting) the ones that are not usable references
+   */
+  private async readFiles(uris: vscode.Uri[]): Promise<ReferenceFile[]> {
+    const files: ReferenceFile[] = [];
+    for (const uri of uris) {
+      const fileName = uri.path.split('/').pop() ?? uri.path;
+      try {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        files.push(fileName.toLowerCase().endsWith('.svg')
+          ? this.fromSvg(fileName, Buffer.from(bytes).toString('utf-8'))
+          : this.fromImage(fileName, bytes));
+        this.logger.info(`Attaching ${uri.fsPath} as a reference`);
+      } catch (error) {
+        this.logger.error(`Could not attach ${uri.fsPath} as a reference`, error);
+        void vscode.window.showErrorMessage(
+          `Pixel Minion: Could not attach ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+    return files;
+  }
+
+  private fromImage(fileName: string, bytes: Uint8Array): ReferenceFile {
+    const format = detectImageFormat(bytes);
+    if (!format) {
+      throw new Error('Unsupported image format (expected PNG, JPEG or WebP)');
+    }
+    return {
+      fileName,
+      referenceImage: `data:${IMAGE_FORMAT_MIME_TYPES[format]};base64,${Buffer.from(bytes).toString('base64')}`,
+    };
+  }
+
+  private fromSvg(fileName: string, svgCode: string): ReferenceFile {
+    return {
+      fileName,
+      referenceImage: `data:image/svg+xml;base64,${Buffer.from(svgCode, 'utf-8').toString('base64')}`,
+      referenceSvgText: svgCode,
+    };
+  }
+
+  private postFiles(payload: ReferenceFilesPayload, correlationId?: string): void {
+    this.postMessage(createEnvelope<ReferenceFilesPayload>(
+      MessageType.REFERENCE_FILES,
+      'extension.referenceFiles',
+      payload,
+      correlationId
+    ));
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * SVGArchitectHandler - Handles SVG Architect (multi-agent) messages (thin handler)
+ *
+ * Pattern: Thin message router - pipeline logic lives in SVGArchitectOrchestrator
+ * Responsibilities:
+ * - Start architect sessions and stream progress to the webview
+ * - Resume the pipeline when the webview posts a rasterized PNG
+ * - Apply token usage after each agent step, including what a failed step had spent
+ * - Hold the request's budget reservation for the whole session and stop it between
+ *   steps once a spending cap is reached
+ * - Cancel a session (GENERATION_CANCEL with the request's correlationId) and give up
+ *   on one whose PNG does not arrive in time (hidden webview, silent render failure)
+ */
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  SVGArchitectRequestPayload,
+  SVGArchitectPngReadyPayload,
+  SVGArchitectProgressPayload,
+  SVGArchitectResultPayload,
+  SVGArchitectClearPayload,
+  TokenUsage,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { SVGArchitectOrchestrator, SVGArchitectStepResult, getErrorCode, getFailedStepUsage } from '@ai';
+import { GenerationCancellation } from '../GenerationCancellation';
+
+/** How long a session waits for the webview's PNG before it is dropped */
+export const SVG_ARCHITECT_PNG_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * A running session - its signal spans every step, from the request to the result
+ */
+interface ArchitectSession {
+  correlationId?: string;
+  signal: AbortSignal;
+  pngTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The spending caps as seen by a session - the request's reservation (keyed by its
+ * correlationId) is held until the session ends, not just through its first step
+ */
+export interface SVGArchitectBudget {
+  /** Whether the session may run its next step - a refusal has already been reported */
+  allowStep(correlationId: string): boolean;
+  /** Release the reservation once the session has finished, failed or been dropped */
+  release(correlationId: string): void;
+}
+
+export class SVGArchitectHandler {
+  private readonly sessions = new Map<string, ArchitectSession>();
+
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly architectOrchestrator: SVGArchitectOrchestrator,
+    private readonly logger: LoggingService,
+    private readonly applyTokenUsageCallback?: (usage: TokenUsage, correlationId?: string) => void,
+    private readonly cancellation: GenerationCancellation = new GenerationCancellation(),
+    private readonly budget?: SVGArchitectBudget
+  ) {
+    this.logger.debug('SVGArchitectHandler initialized');
+  }
+
+  /**
+   * Handle a new architect request: analyze + first render
+   */
+  async handleGenerationRequest(message: MessageEnvelope<SVGArchitectRequestPayload>): Promise<void> {
+    const { prompt, blueprintModel, renderModel, aspectRatio, maxIterations, referenceImage, referenceSvgText } = message.payload;
+    this.logger.info(`SVG Architect request: ${prompt.substring(0, 50)}...`);
+
+    const session: ArchitectSession = {
+      correlationId: message.correlationId,
+      signal: this.cancellation.begin(message.correlationId),
+    };
+    // The session id arrives with the first progress update
+    let conversationId: string | undefined;
+    session.signal.addEventListener('abort', () => {
+      if (conversationId) {
+        this.endSession(conversationId);
+      }
+    }, { once: true });
+
+    try {
+      const step = await this.architectOrchestrator.start(
+        { prompt, referenceImage, referenceSvgText },
+        { blueprintModel, renderModel, aspectRatio, maxIterations },
+        (progress) => {
+          if (!conversationId) {
+            conversationId = progress.conversationId;
+            this.sessions.set(conversationId, session);
+          }
+          this.sendProgress(progress, message.correlationId);
+        },
+        session.signal
+      );
+      this.completeStep(step, session);
+    } catch (error) {
+      this.failStep(error, 'SVG Architect generation failed', session, conversationId);
+    }
+  }
+
+  /**
+   * Handle a rasterized PNG from the webview: validate, then iterate or finish
+   */
+  async handlePngReady(message: MessageEnvelope<SVGArchitectPngReadyPayload>): Promise<void> {
+    const { conversationId, iteration, pngData, renderError } = message.payload;
+    this.logger.debug(`SVG Architect PNG ready: ${conversationId} (iteration ${iteration})`);
+
+    const session = this.sessions.get(conversationId);
+    if (!session) {
+      // Cancelled, cleared or timed out while the webview was rasterizing
+      this.logger.debug(`SVG Architect session ${conversationId} is no longer running - PNG ignored`);
+      return;
+    }
+    clearTimeout(session.pngTimer);
+
+    if (this.budget && session.correlationId && !this.budget.allowStep(session.correlationId)) {
+      this.logger.warn(`SVG Architect session ${conversationId} stopped by the budget before iteration ${iteration} was validated`);
+      this.endSession(conversationId);
+      return;
+    }
+
+    try {
+      const step = await this.architectOrchestrator.submitRender(
+        conversationId,
+        iteration,
+        pngData,
+        renderError,
+        (progress) => this.sendProgress(progress, session.correlationId),
+        session.signal
+      );
+      this.completeStep(step, session);
+    } catch (error) {
+      this.failStep(error, 'SVG Architect validation failed', session, conversationId);
+    }
+  }
+
+  /**
+   * Handle session clear request
+   */
+  handleClearConversation(message: MessageEnvelope<SVGArchitectClearPayload>): void {
+    const { conversationId } = message.payload;
+    this.logger.info(`Clearing SVG Architect session: ${conversationId}`);
+    this.endSession(conversationId);
+  }
+
+  private completeStep(step: SVGArchitectStepResult, session: ArchitectSession): void {
+    if (step.usage) {
+      this.applyTokenUsage(step.usage, session.correlationId);
+    }
+
+    if (step.result) {
+      this.postMessage(createEnvelope<SVGArchitectResultPayload>(
+        MessageType.SVG_ARCHITECT_RESULT,
+        'extension.svgArchitect',
+        step.result,
+        session.correlationId
+      ));
+      this.logger.info(`SVG Architect result sent (iteration ${step.result.iteration}/${step.result.iterationCount})`);
+      // The finished session stays with the orchestrator until the webview clears it
+      this.sessions.delete(step.conversationId);
+      this.cancellation.end(session.correlationId);
+      this.releaseBudget(session);
+      return;
+    }
+
+    // Paused until the webview posts the PNG
+    session.pngTimer = setTimeout(() => {
+      this.logger.warn(`SVG Architect session ${step.conversationId} got no PNG within ${SVG_ARCHITECT_PNG_TIMEOUT_MS}ms`);
+      this.endSession(step.conversationId);
+      this.sendError(
+        new Error('SVG Architect stopped: the rendered SVG never came back from the view. Keep Pixel Minion open and try again.'),
+        'SVG Architect timed out',
+        session.correlationId,
+        'SVG_ARCHITECT_TIMEOUT'
+      );
+    }, SVG_ARCHITECT_PNG_TIMEOUT_MS);
+  }
+
+  private failStep(error: unknown, fallback: string, session: ArchitectSession, conversationId?: string): void {
+    // Agent calls that finished before the failure (or cancel) were still billed
+    const spent = getFailedStepUsage(error);
+    if (spent) {
+      this.applyTokenUsage(spent, session.correlationId);
+    }
+    this.releaseBudget(session);
+
+    if (session.signal.aborted) {
+      this.logger.info('SVG Architect cancelled');
+      return;
+    }
+    this.logger.error(fallback, error);
+    if (conversationId) {
+      this.endSession(conversationId);
+    } else {
+      this.cancellation.end(session.correlationId);
+    }
+    this.sendError(error, fallback, session.correlationId);
+  }
+
+  /**
+   * Stop waiting on a session and drop it (abort handler, clear, timeout, failure, budget)
+   */
+  private endSession(conversationId: string): void {
+    const session = this.sessions.get(conversationId);
+    if (session) {
+      clearTimeout(session.pngTimer);
+      this.sessions.delete(conversationId);
+      if (session.correlationId) {
+        this.cancellation.cancel(session.correlationId);
+      }
+      this.releaseBudget(session);
+    }
+    this.architectOrchestrator.clearConversation(conversationId);
+  }
+
+  /**
+   * Hand the session's reservation back - queued behind the usage applied before it
+   */
+  private releaseBudget(session: ArchitectSession): void {
+    if (this.budget && session.correlationId) {
+      this.budget.release(session.correlationId);
+    }
+  }
+
+  private sendProgress(progress: SVGArchitectProgressPayload, correlationId?: string): void {
+    this.postMessage(createEnvelope<SVGArchitectProgressPayload>(
+      MessageType.SVG_ARCHITECT_PROGRESS,
+      'extension.svgArchitect',
+      progress,
+      correlationId
+    ));
+  }
+
+  private sendError(error: unknown, fallback: string, correlationId?: string, code = 'SVG_ARCHITECT_ERROR'): void {
+    this.postMessage(createEnvelope(
+      MessageType.ERROR,
+      'extension.svgArchitect',
+      {
+        message: error instanceof Error ? error.message : fallback,
+        code: getErrorCode(error, code),
+      },
+      correlationId
+    ));
+  }
+
+  private applyTokenUsage(usage: TokenUsage, correlationId?: string): void {
+    if (this.applyTokenUsageCallback) {
+      this.applyTokenUsageCallback(usage, correlationId);
+    }
+  }
+}
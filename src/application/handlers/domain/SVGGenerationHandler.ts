@@ -4,8 +4,12 @@
  * Pattern: Thin message router - all business logic in infrastructure layer
  * Responsibilities:
  * - Route SVG generation messages
- * - Send status updates
- * - Handle file save operations (uses VSCode workspace APIs)
+ * - Send status updates, including OpenRouter retries (fallback SVG model setting)
+ * - Forward streamed chunks (throttled) for live preview
+ * - Register requests for GENERATION_CANCEL
+ * - Run model comparisons, reporting each model's SVG with its latency
+ * - Branch new conversations from earlier turns
+ * - Handle file save operations (uses VSCode workspace APIs), writing provenance as <metadata>
  */
 import * as vscode from 'vscode';
 import {
@@ -14,14 +18,24 @@ import {
   createEnvelope,
   SVGGenerationRequestPayload,
   SVGGenerationContinuePayload,
+  SVGGenerationBranchPayload,
+  ConversationBranchResultPayload,
   SVGGenerationResponsePayload,
+  SVGGenerationChunkPayload,
   SVGSaveRequestPayload,
   SVGSaveResultPayload,
   StatusPayload,
   TokenUsage,
+  ComparisonRequestPayload,
+  ComparisonResultPayload,
 } from '@messages';
 import { LoggingService } from '@logging';
-import { SVGOrchestrator } from '@ai';
+import { SVGOrchestrator, SVGStreamChunk, RetryOptions, describeRetryNotice, getErrorCode } from '@ai';
+import { embedSvgProvenance, serializeProvenanceSidecar, PROVENANCE_SIDECAR_SUFFIX } from '@imaging';
+import { GenerationCancellation } from '../GenerationCancellation';
+
+/** Minimum gap between streamed chunk messages - keeps postMessage traffic bounded */
+const CHUNK_THROTTLE_MS = 100;
 
 export class SVGGenerationHandler {
   private readonly configSection = 'pixelMinion';
@@ -30,7 +44,8 @@ export class SVGGenerationHandler {
     private readonly postMessage: (message: MessageEnvelope) => void,
     private readonly svgOrchestrator: SVGOrchestrator,
     private readonly logger: LoggingService,
-    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void
+    private readonly applyTokenUsageCallback?: (usage: TokenUsage, correlationId?: string) => void,
+    private readonly cancellation: GenerationCancellation = new GenerationCancellation()
   ) {
     this.logger.debug('SVGGenerationHandler initialized');
   }
@@ -49,18 +64,27 @@ export class SVGGenerationHandler {
       { message: 'Generating SVG...', isLoading: true },
       message.correlationId
     ));
+    const signal = this.cancellation.begin(message.correlationId);
 
     try {
       // Use orchestrator for generation
       const result = await this.svgOrchestrator.generateSVG(
         prompt,
-        { model, aspectRatio, referenceImage, referenceSvgText },
-        conversationId
+        {
+          model,
+          aspectRatio,
+          referenceImage,
+          referenceSvgText,
+          signal,
+          retry: this.createRetryOptions(message.correlationId),
+        },
+        conversationId,
+        this.createChunkForwarder(message.correlationId)
       );
 
       // Apply token usage if available
       if (result.usage) {
-        this.applyTokenUsage(result.usage);
+        this.applyTokenUsage(result.usage, message.correlationId);
       }
 
       // Send response
@@ -72,23 +96,30 @@ export class SVGGenerationHandler {
           svgCode: result.svgCode,
           turnNumber: result.turnNumber,
           usage: result.usage,
+          model: result.model,
+          aspectRatio: result.aspectRatio,
         },
         message.correlationId
       ));
 
       this.logger.info(`SVG generation complete (turn ${result.turnNumber})`);
     } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('SVG generation cancelled');
+        return;
+      }
       this.logger.error('SVG generation failed', error);
       this.postMessage(createEnvelope(
         MessageType.ERROR,
         'extension.svgGeneration',
         {
           message: error instanceof Error ? error.message : 'SVG generation failed',
-          code: 'SVG_GENERATION_ERROR',
+          code: getErrorCode(error, 'SVG_GENERATION_ERROR'),
         },
         message.correlationId
       ));
     } finally {
+      this.cancellation.end(message.correlationId);
       // Clear loading status
       this.postMessage(createEnvelope<StatusPayload>(
         MessageType.STATUS,
@@ -99,6 +130,81 @@ export class SVGGenerationHandler {
     }
   }
 
+  /**
+   * Handle a model comparison - one new conversation per model, same prompt and reference
+   */
+  async handleCompareRequest(message: MessageEnvelope<ComparisonRequestPayload>): Promise<void> {
+    const { prompt, models, aspectRatio, referenceImages, referenceSvgText } = message.payload;
+    this.logger.info(`SVG comparison of ${models.length} models: ${prompt.substring(0, 50)}...`);
+
+    const signal = this.cancellation.begin(message.correlationId);
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    let completed = 0;
+
+    try {
+      await this.svgOrchestrator.compareModels(
+        prompt,
+        {
+          aspectRatio,
+          referenceImage: referenceImages?.[0],
+          referenceSvgText,
+          signal,
+          retry: this.createRetryOptions(message.correlationId),
+        },
+        models,
+        config.get<number>('maxConcurrentVariations', 3),
+        ({ index, model, latencyMs, turn, error }) => {
+          completed++;
+          if (turn?.usage) {
+            this.applyTokenUsage(turn.usage, message.correlationId);
+          }
+
+          this.postMessage(createEnvelope<ComparisonResultPayload>(
+            MessageType.COMPARISON_RESULT,
+            'extension.comparison',
+            {
+              type: 'svg',
+              index,
+              model,
+              total: models.length,
+              completed,
+              latencyMs,
+              conversationId: turn?.conversationId,
+              svgCode: turn?.svgCode,
+              usage: turn?.usage,
+              error: error?.message,
+            },
+            message.correlationId
+          ));
+        }
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('SVG comparison cancelled');
+        return;
+      }
+      this.logger.error('SVG comparison failed', error);
+      this.postMessage(createEnvelope(
+        MessageType.ERROR,
+        'extension.comparison',
+        {
+          message: error instanceof Error ? error.message : 'Model comparison failed',
+          code: getErrorCode(error, 'COMPARISON_ERROR'),
+        },
+        message.correlationId
+      ));
+    } finally {
+      this.cancellation.end(message.correlationId);
+      // Clears any retry notice left by the comparison
+      this.postMessage(createEnvelope<StatusPayload>(
+        MessageType.STATUS,
+        'extension.svgGeneration',
+        { message: '', isLoading: false },
+        message.correlationId
+      ));
+    }
+  }
+
   /**
    * Handle conversation continuation request
    */
@@ -113,6 +219,7 @@ export class SVGGenerationHandler {
       { message: 'Generating SVG...', isLoading: true },
       message.correlationId
     ));
+    const signal = this.cancellation.begin(message.correlationId);
 
     try {
       // Use orchestrator for continuation
@@ -122,12 +229,15 @@ export class SVGGenerationHandler {
         history,
         model,
         aspectRatio,
-        referenceSvgText
+        referenceSvgText,
+        this.createChunkForwarder(message.correlationId),
+        signal,
+        this.createRetryOptions(message.correlationId)
       );
 
       // Apply token usage if available
       if (result.usage) {
-        this.applyTokenUsage(result.usage);
+        this.applyTokenUsage(result.usage, message.correlationId);
       }
 
       // Send response
@@ -139,23 +249,30 @@ export class SVGGenerationHandler {
           svgCode: result.svgCode,
           turnNumber: result.turnNumber,
           usage: result.usage,
+          model: result.model,
+          aspectRatio: result.aspectRatio,
         },
         message.correlationId
       ));
 
       this.logger.info(`SVG generation complete (turn ${result.turnNumber})`);
     } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('SVG generation cancelled');
+        return;
+      }
       this.logger.error('SVG generation continuation failed', error);
       this.postMessage(createEnvelope(
         MessageType.ERROR,
         'extension.svgGeneration',
         {
           message: error instanceof Error ? error.message : 'Conversation not found. Please start a new generation.',
-          code: 'CONVERSATION_NOT_FOUND',
+          code: getErrorCode(error, 'CONVERSATION_NOT_FOUND'),
         },
         message.correlationId
       ));
     } finally {
+      this.cancellation.end(message.correlationId);
       // Clear loading status
       this.postMessage(createEnvelope<StatusPayload>(
         MessageType.STATUS,
@@ -166,6 +283,36 @@ export class SVGGenerationHandler {
     }
   }
 
+  /**
+   * Handle "Branch from here" - a new conversation sharing the source's turns up to turnNumber
+   */
+  async handleBranchRequest(message: MessageEnvelope<SVGGenerationBranchPayload>): Promise<void> {
+    const { conversationId, turnNumber, history, model, aspectRatio } = message.payload;
+    this.logger.info(`Branching SVG conversation ${conversationId} at turn ${turnNumber}`);
+
+    try {
+      const branch = await this.svgOrchestrator.branchSVG(conversationId, turnNumber, history, model, aspectRatio);
+
+      this.postMessage(createEnvelope<ConversationBranchResultPayload>(
+        MessageType.SVG_GENERATION_BRANCH_RESULT,
+        'extension.svgGeneration',
+        { sourceConversationId: conversationId, conversationId: branch.id, turnNumber },
+        message.correlationId
+      ));
+    } catch (error) {
+      this.logger.error('SVG conversation branch failed', error);
+      this.postMessage(createEnvelope(
+        MessageType.ERROR,
+        'extension.svgGeneration',
+        {
+          message: error instanceof Error ? error.message : 'Could not branch the conversation',
+          code: getErrorCode(error, 'CONVERSATION_NOT_FOUND'),
+        },
+        message.correlationId
+      ));
+    }
+  }
+
   /**
    * Handle conversation clear request
    */
@@ -179,11 +326,20 @@ export class SVGGenerationHandler {
    * Handle SVG save request
    */
   async handleSaveRequest(message: MessageEnvelope<SVGSaveRequestPayload>): Promise<void> {
-    const { svgCode, suggestedFilename } = message.payload;
+    const { svgCode, suggestedFilename, provenance } = message.payload;
     this.logger.info(`Saving SVG: ${suggestedFilename}`);
 
     try {
-      const fileUri = await this.saveSVG(svgCode, suggestedFilename);
+      const fileUri = await this.saveSVG(provenance ? embedSvgProvenance(svgCode, provenance) : svgCode, suggestedFilename);
+
+      // Opt-in sidecar next to the SVG
+      const config = vscode.workspace.getConfiguration(this.configSection);
+      if (provenance && config.get<boolean>('saveParametersSidecar', false)) {
+        await vscode.workspace.fs.writeFile(
+          fileUri.with({ path: `${fileUri.path}${PROVENANCE_SIDECAR_SUFFIX}` }),
+          Buffer.from(serializeProvenanceSidecar(provenance), 'utf-8')
+        );
+      }
 
       this.postMessage(createEnvelope<SVGSaveResultPayload>(
         MessageType.SVG_SAVE_RESULT,
@@ -273,9 +429,52 @@ export class SVGGenerationHandler {
     return fileUri;
   }
 
-  private applyTokenUsage(usage: TokenUsage): void {
+  /**
+   * Build a chunk callback that posts SVG_GENERATION_CHUNK at most every CHUNK_THROTTLE_MS.
+   * Skipped chunks are safe to drop: each carries the full content so far.
+   */
+  private createChunkForwarder(correlationId?: string): (chunk: SVGStreamChunk) => void {
+    let lastSent = 0;
+
+    return (chunk) => {
+      const now = Date.now();
+      if (now - lastSent < CHUNK_THROTTLE_MS) {
+        return;
+      }
+      lastSent = now;
+
+      this.postMessage(createEnvelope<SVGGenerationChunkPayload>(
+        MessageType.SVG_GENERATION_CHUNK,
+        'extension.svgGeneration',
+        {
+          conversationId: chunk.conversationId,
+          turnNumber: chunk.turnNumber,
+          content: chunk.content,
+        },
+        correlationId
+      ));
+    };
+  }
+
+  /**
+   * Fallback model from settings, with each retry posted as a loading STATUS
+   */
+  private createRetryOptions(correlationId?: string): RetryOptions {
+    const config = vscode.workspace.getConfiguration(this.configSection);
+    return {
+      fallbackModel: config.get<string>('fallbackSvgModel', '').trim() || undefined,
+      onRetry: (notice) => this.postMessage(createEnvelope<StatusPayload>(
+        MessageType.STATUS,
+        'extension.svgGeneration',
+        { message: describeRetryNotice(notice), isLoading: true, retry: true },
+        correlationId
+      )),
+    };
+  }
+
+  private applyTokenUsage(usage: TokenUsage, correlationId?: string): void {
     if (this.applyTokenUsageCallback) {
-      this.applyTokenUsageCallback(usage);
+      this.applyTokenUsageCallback(usage, correlationId);
     }
   }
 }
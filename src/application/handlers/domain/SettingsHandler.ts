@@ -2,6 +2,8 @@
  * SettingsHandler - Handles Settings domain messages including API key management
  *
  * Pattern: Domain handler with secure secret storage integration
+ * API keys are stored per provider; status reports every provider so Settings
+ * can show which ones are ready.
  * Reference: docs/example-repo/src/application/handlers/domain/ConfigurationHandler.ts
  */
 import * as vscode from 'vscode';
@@ -13,12 +15,15 @@ import {
   UpdateSettingPayload,
   ApiKeyStatusPayload,
   SaveApiKeyPayload,
+  ClearApiKeyPayload,
 } from '@messages';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { ProviderRegistry } from '@ai';
 
 export class SettingsHandler {
   private readonly configSection = 'pixelMinion';
+  private readonly providerRegistry: ProviderRegistry;
 
   constructor(
     private readonly postMessage: (message: MessageEnvelope) => void,
@@ -26,7 +31,9 @@ export class SettingsHandler {
     private readonly logger: LoggingService,
     private readonly onSettingsChanged?: (settings: SettingsPayload) => void,
     private readonly onSecretsChanged?: () => void
-  ) {}
+  ) {
+    this.providerRegistry = new ProviderRegistry(secretStorage, logger);
+  }
 
   /**
    * Handle request for current settings
@@ -59,6 +66,11 @@ export class SettingsHandler {
 
       // Send updated settings back
       await this.handleRequestSettings(message);
+
+      // The custom endpoint counts as configured once it has a base URL
+      if (key === 'customProviderBaseUrl') {
+        await this.handleApiKeyStatusRequest(message);
+      }
     } catch (error) {
       this.logger.error(`Failed to update setting ${key}`, error);
       this.postMessage(createEnvelope(
@@ -77,13 +89,13 @@ export class SettingsHandler {
    * Handle API key status request (only returns boolean, never the key!)
    */
   async handleApiKeyStatusRequest(message: MessageEnvelope): Promise<void> {
-    const isConfigured = await this.secretStorage.hasApiKey();
-    this.logger.debug(`API key status: ${isConfigured ? 'configured' : 'not configured'}`);
+    const status = await this.getApiKeyStatus();
+    this.logger.debug(`API key status: ${status.isConfigured ? 'configured' : 'not configured'}`);
 
     this.postMessage(createEnvelope<ApiKeyStatusPayload>(
       MessageType.API_KEY_STATUS,
       'extension.settings',
-      { isConfigured },
+      status,
       message.correlationId
     ));
   }
@@ -94,14 +106,14 @@ export class SettingsHandler {
   async handleSaveApiKey(message: MessageEnvelope<SaveApiKeyPayload>): Promise<void> {
     try {
       this.logger.info('Saving API key to secure storage');
-      await this.secretStorage.setApiKey(message.payload.apiKey);
+      await this.secretStorage.setApiKey(message.payload.apiKey, message.payload.provider ?? 'openrouter');
       this.onSecretsChanged?.();
 
       // Send updated status
       this.postMessage(createEnvelope<ApiKeyStatusPayload>(
         MessageType.API_KEY_STATUS,
         'extension.settings',
-        { isConfigured: true },
+        await this.getApiKeyStatus(),
         message.correlationId
       ));
     } catch (error) {
@@ -121,17 +133,17 @@ export class SettingsHandler {
   /**
    * Handle clearing API key from secure storage
    */
-  async handleClearApiKey(message: MessageEnvelope): Promise<void> {
+  async handleClearApiKey(message: MessageEnvelope<ClearApiKeyPayload>): Promise<void> {
     try {
       this.logger.info('Clearing API key from secure storage');
-      await this.secretStorage.deleteApiKey();
+      await this.secretStorage.deleteApiKey(message.payload?.provider ?? 'openrouter');
       this.onSecretsChanged?.();
 
       // Send updated status
       this.postMessage(createEnvelope<ApiKeyStatusPayload>(
         MessageType.API_KEY_STATUS,
         'extension.settings',
-        { isConfigured: false },
+        await this.getApiKeyStatus(),
         message.correlationId
       ));
     } catch (error) {
@@ -160,6 +172,20 @@ export class SettingsHandler {
       openRouterModel: config.get<string>('openRouterModel', legacyConfig.get('openRouterModel', 'openai/gpt-5.1')),
       imageModel: config.get<string>('imageModel', 'google/gemini-3.1-flash-image-preview'),
       svgModel: config.get<string>('svgModel', 'google/gemini-3-pro-preview'),
+      fallbackImageModel: config.get<string>('fallbackImageModel', ''),
+      fallbackSvgModel: config.get<string>('fallbackSvgModel', ''),
+      svgBlueprintModel: config.get<string>('svgBlueprintModel', 'google/gemini-3.1-pro-preview'),
+      svgArchitectMaxIterations: config.get<number>('svgArchitectMaxIterations', 5),
+      customProviderBaseUrl: config.get<string>('customProviderBaseUrl', ''),
+      customProviderModels: config.get<string[]>('customProviderModels', []),
+    };
+  }
+
+  private async getApiKeyStatus(): Promise<ApiKeyStatusPayload> {
+    const providers = await this.providerRegistry.getStatus();
+    return {
+      isConfigured: Object.values(providers).some(Boolean),
+      providers,
     };
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * StyleProfileHandler - Handles brand style profile messages (thin handler)
+ *
+ * Pattern: Thin message router - profiles are kept by StyleProfileStore and read
+ * by the orchestrators at generation time
+ * Responsibilities:
+ * - Send the profiles and the active profile to Settings and the view chips
+ * - Save, delete and activate profiles
+ * - Answer every change with the refreshed profiles
+ */
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  StyleProfilesPayload,
+  StyleProfileSavePayload,
+  StyleProfileDeletePayload,
+  StyleProfileActivatePayload,
+} from '@messages';
+import { LoggingService } from '@logging';
+import { StyleProfileStore } from '@storage';
+
+export class StyleProfileHandler {
+  constructor(
+    private readonly postMessage: (message: MessageEnvelope) => void,
+    private readonly styleProfileStore: StyleProfileStore,
+    private readonly logger: LoggingService
+  ) {
+    this.logger.debug('StyleProfileHandler initialized');
+  }
+
+  /**
+   * Send all profiles and the active profile id
+   */
+  async handleRequest(message: MessageEnvelope): Promise<void> {
+    await this.sendProfiles(message.correlationId);
+  }
+
+  /**
+   * Save a new or edited profile, then refresh the profiles
+   */
+  async handleSave(message: MessageEnvelope<StyleProfileSavePayload>): Promise<void> {
+    try {
+      await this.styleProfileStore.save(message.payload);
+    } catch (error) {
+      this.postError(error, 'STYLE_PROFILE_SAVE_ERROR', message.correlationId);
+    }
+    await this.sendProfiles(message.correlationId);
+  }
+
+  /**
+   * Delete a profile, then refresh the profiles
+   */
+  async handleDelete(message: MessageEnvelope<StyleProfileDeletePayload>): Promise<void> {
+    try {
+      await this.styleProfileStore.delete(message.payload.id);
+    } catch (error) {
+      this.postError(error, 'STYLE_PROFILE_DELETE_ERROR', message.correlationId);
+    }
+    await this.sendProfiles(message.correlationId);
+  }
+
+  /**
+   * Switch the active profile (null turns brand styling off), then refresh the profiles
+   */
+  async handleActivate(message: MessageEnvelope<StyleProfileActivatePayload>): Promise<void> {
+    try {
+      await this.styleProfileStore.setActive(message.payload.id);
+    } catch (error) {
+      this.postError(error, 'STYLE_PROFILE_ACTIVATE_ERROR', message.correlationId);
+    }
+    await this.sendProfiles(message.correlationId);
+  }
+
+  private async sendProfiles(correlationId?: string): Promise<void> {
+    const state = await this.styleProfileStore.getState();
+    this.postMessage(createEnvelope<StyleProfilesPayload>(
+      MessageType.STYLE_PROFILES,
+      'extension.styleProfiles',
+      state,
+      correlationId
+    ));
+  }
+
+  private postError(error: unknown, code: string, correlationId?: string): void {
+    this.logger.error(`Style profile operation failed (${code})`, error);
+    this.postMessage(createEnvelope(
+      MessageType.ERROR,
+      'extension.styleProfiles',
+      {
+        message: error instanceof Error ? error.message : 'Style profile operation failed',
+        code,
+      },
+      correlationId
+    ));
+  }
+}
@@ -13,9 +13,11 @@ import {
   StatusPayload,
   TokenUsage,
 } from '@messages';
-import { TextOrchestrator, OpenRouterTextClient } from '@ai';
+import { TextOrchestrator, OpenRouterTextClient, InvalidApiKeyError, getErrorCode } from '@ai';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { ConversationStore } from '@storage';
+import { GenerationCancellation } from '../GenerationCancellation';
 
 export class TextHandler {
   private readonly orchestrator: TextOrchestrator;
@@ -27,7 +29,9 @@ export class TextHandler {
     private readonly postMessage: (message: MessageEnvelope) => void,
     private readonly secretStorage: SecretStorageService,
     private readonly logger: LoggingService,
-    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void
+    private readonly applyTokenUsageCallback?: (usage: TokenUsage) => void,
+    private readonly cancellation: GenerationCancellation = new GenerationCancellation(),
+    conversationStore?: ConversationStore
   ) {
     const config = vscode.workspace.getConfiguration(this.configSection);
     const maxTurns = config.get<number>('maxConversationTurns', 10);
@@ -36,6 +40,9 @@ export class TextHandler {
       maxTurns,
       systemPrompt: this.defaultSystemPrompt,
     });
+    if (conversationStore) {
+      this.orchestrator.setStore(conversationStore);
+    }
     this.logger.debug(`TextHandler initialized with maxTurns: ${maxTurns}`);
   }
 
@@ -53,6 +60,7 @@ export class TextHandler {
       { message: 'Processing...', isLoading: true },
       message.correlationId
     ));
+    const signal = this.cancellation.begin(message.correlationId);
 
     try {
       // Ensure client is configured
@@ -62,7 +70,9 @@ export class TextHandler {
       let activeConversationId = conversationId;
       if (conversationId) {
         if (!this.orchestrator.hasConversation(conversationId)) {
-          if (history?.length) {
+          if (await this.orchestrator.loadConversation(conversationId)) {
+            this.logger.info(`Restored text conversation ${conversationId} from storage`);
+          } else if (history?.length) {
             this.logger.info(`Rehydrating text conversation ${conversationId} from history (${history.length} turns)`);
             this.orchestrator.rehydrateConversation(conversationId, history, systemPrompt ?? this.defaultSystemPrompt);
           } else {
@@ -80,7 +90,7 @@ export class TextHandler {
       this.logger.debug(`Using conversation: ${activeConversationId}`);
 
       // Send the message
-      const result = await this.orchestrator.sendMessage(activeConversationId, userMessage);
+      const result = await this.orchestrator.sendMessage(activeConversationId, userMessage, { signal });
       this.logger.info(`Text response received (turn ${result.turnNumber})`);
 
       // Send response
@@ -100,17 +110,22 @@ export class TextHandler {
         this.applyTokenUsage(result.usage);
       }
     } catch (error) {
+      if (signal.aborted) {
+        this.logger.info('Text request cancelled');
+        return;
+      }
       this.logger.error('Text request failed', error);
       this.postMessage(createEnvelope(
         MessageType.ERROR,
         'extension.ai',
         {
           message: error instanceof Error ? error.message : 'Text request failed',
-          code: 'TEXT_REQUEST_ERROR',
+          code: getErrorCode(error, 'TEXT_REQUEST_ERROR'),
         },
         message.correlationId
       ));
     } finally {
+      this.cancellation.end(message.correlationId);
       // Clear loading status
       this.postMessage(createEnvelope<StatusPayload>(
         MessageType.STATUS,
@@ -141,7 +156,7 @@ export class TextHandler {
     this.logger.debug('Configuring text client...');
     const apiKey = await this.secretStorage.getApiKey();
     if (!apiKey) {
-      throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+      throw new InvalidApiKeyError('API key not configured. Please add your OpenRouter API key in Settings.');
     }
 
     const config = vscode.workspace.getConfiguration(this.configSection);
@@ -4,3 +4,12 @@ export { TextHandler } from './TextHandler';
 export { ImageGenerationHandler } from './ImageGenerationHandler';
 export { SVGGenerationHandler } from './SVGGenerationHandler';
 export { EnhanceHandler } from './EnhanceHandler';
+export { SVGArchitectHandler } from './SVGArchitectHandler';
+export { HistoryHandler } from './HistoryHandler';
+export { ModelCatalogHandler } from './ModelCatalogHandler';
+export { BudgetHandler } from './BudgetHandler';
+export { IconBundleHandler } from './IconBundleHandler';
+export { LoadParametersHandler } from './LoadParametersHandler';
+export { ReferenceFileHandler } from './ReferenceFileHandler';
+export { PromptTemplateHandler } from './PromptTemplateHandler';
+export { StyleProfileHandler } from './StyleProfileHandler';
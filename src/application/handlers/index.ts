@@ -1,4 +1,5 @@
 export { MessageRouter } from './MessageRouter';
 export type { MessageHandlerFn } from './MessageRouter';
+export { GenerationCancellation } from './GenerationCancellation';
 export { MessageHandler } from './MessageHandler';
 export * from './domain';
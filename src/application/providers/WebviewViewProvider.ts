@@ -13,6 +13,9 @@ import * as vscode from 'vscode';
 import { MessageHandler } from '../handlers/MessageHandler';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { PromptLoader } from '@resources';
+import { ConversationStore, GenerationHistoryStore, BudgetStore, PromptTemplateStore, StyleProfileStore } from '@storage';
+import { ModelCatalogService } from '@ai';
 import { MessageType, createEnvelope } from '@messages';
 
 export class WebviewViewProvider implements vscode.WebviewViewProvider {
@@ -20,10 +23,20 @@ export class WebviewViewProvider implements vscode.WebviewViewProvider {
 
   private _view?: vscode.WebviewView;
   private messageHandler?: MessageHandler;
+  // Set by the webview's first message - React is mounted and listening from then on
+  private webviewReady = false;
+  private readonly pendingActions: Array<(handler: MessageHandler) => void> = [];
 
   constructor(
     private readonly extensionUri: vscode.Uri,
     private readonly secretStorage: SecretStorageService,
+    private readonly promptLoader: PromptLoader,
+    private readonly conversationStore: ConversationStore,
+    private readonly historyStore: GenerationHistoryStore,
+    private readonly modelCatalog: ModelCatalogService,
+    private readonly budgetStore: BudgetStore,
+    private readonly templateStore: PromptTemplateStore,
+    private readonly styleProfileStore: StyleProfileStore,
     private readonly logger: LoggingService
   ) {}
 
@@ -48,12 +61,23 @@ export class WebviewViewProvider implements vscode.WebviewViewProvider {
     this.messageHandler = new MessageHandler(
       (message) => webviewView.webview.postMessage(message),
       this.secretStorage,
+      this.promptLoader,
+      this.conversationStore,
+      this.historyStore,
+      this.modelCatalog,
+      this.budgetStore,
+      this.templateStore,
+      this.styleProfileStore,
       this.logger
     );
 
     // Handle messages from webview
     webviewView.webview.onDidReceiveMessage(
       async (message) => {
+        if (!this.webviewReady) {
+          this.webviewReady = true;
+          this.flushPendingActions();
+        }
         try {
           await this.messageHandler?.handleMessage(message);
         } catch (error) {
@@ -69,6 +93,7 @@ export class WebviewViewProvider implements vscode.WebviewViewProvider {
       this.logger.info('Webview disposed');
       this._view = undefined;
       this.messageHandler = undefined;
+      this.webviewReady = false;
     });
 
     this.logger.info('Webview view resolved successfully');
@@ -107,6 +132,42 @@ export class WebviewViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Reveal the view and load generation parameters from a saved file into it
+   */
+  public async loadParametersFromFile(uri: vscode.Uri): Promise<void> {
+    await vscode.commands.executeCommand(`${WebviewViewProvider.viewType}.focus`);
+    this.whenReady((handler) => void handler.loadParametersFromFile(uri));
+  }
+
+  /**
+   * Reveal the view and attach workspace files as references in its active tab
+   */
+  public async useAsReference(uris: vscode.Uri[]): Promise<void> {
+    await vscode.commands.executeCommand(`${WebviewViewProvider.viewType}.focus`);
+    this.whenReady((handler) => void handler.useAsReference(uris));
+  }
+
+  /**
+   * Run now when the webview is listening, otherwise once it is (first reveal)
+   */
+  private whenReady(action: (handler: MessageHandler) => void): void {
+    this.pendingActions.push(action);
+    if (this.webviewReady) {
+      this.flushPendingActions();
+    }
+  }
+
+  private flushPendingActions(): void {
+    const handler = this.messageHandler;
+    if (!handler) {
+      return;
+    }
+    for (const action of this.pendingActions.splice(0)) {
+      action(handler);
+    }
+  }
+
   /**
    * Generate the HTML for the webview
    */
@@ -12,6 +12,12 @@ import { WebviewViewProvider } from './application/providers/WebviewViewProvider
 import { SecretStorageService } from './infrastructure/secrets/SecretStorageService';
 import { LoggingService } from './infrastructure/logging/LoggingService';
 import { PromptLoader } from './infrastructure/resources/PromptLoader';
+import { ConversationStore } from './infrastructure/storage/ConversationStore';
+import { GenerationHistoryStore } from './infrastructure/storage/GenerationHistoryStore';
+import { ModelCatalogService } from './infrastructure/ai/providers/ModelCatalogService';
+import { BudgetStore } from './infrastructure/storage/BudgetStore';
+import { PromptTemplateStore } from './infrastructure/storage/PromptTemplateStore';
+import { StyleProfileStore } from './infrastructure/storage/StyleProfileStore';
 
 // Module-level reference to logging service for deactivate()
 let logger: LoggingService | undefined;
@@ -38,9 +44,26 @@ export function activate(context: vscode.ExtensionContext): void {
   // Initialize infrastructure services (with logging injected)
   const secretStorage = new SecretStorageService(context.secrets, loggingService);
   const promptLoader = new PromptLoader(context.extensionUri, loggingService);
+  const conversationStore = new ConversationStore(context.globalStorageUri, loggingService);
+  const historyStore = new GenerationHistoryStore(context.globalStorageUri, loggingService);
+  const modelCatalog = new ModelCatalogService(context.globalState, loggingService);
+  const budgetStore = new BudgetStore(context.globalState, loggingService);
+  const templateStore = new PromptTemplateStore(context.globalStorageUri, loggingService);
+  const styleProfileStore = new StyleProfileStore(context.globalStorageUri, loggingService);
 
   // Create and register the webview view provider
-  const provider = new WebviewViewProvider(context.extensionUri, secretStorage, loggingService);
+  const provider = new WebviewViewProvider(
+    context.extensionUri,
+    secretStorage,
+    promptLoader,
+    conversationStore,
+    historyStore,
+    modelCatalog,
+    budgetStore,
+    templateStore,
+    styleProfileStore,
+    loggingService
+  );
 
   // Register the webview view provider
   const viewDisposable = vscode.window.registerWebviewViewProvider(
@@ -81,6 +104,33 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   );
 
+  // Explorer context menu - fills a generation view from a saved image/SVG
+  const loadParametersCommand = vscode.commands.registerCommand(
+    'pixelMinion.loadParametersFromFile',
+    (uri?: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showWarningMessage('Right-click an image or SVG in the Explorer to load its parameters.');
+        return;
+      }
+      loggingService.info('Loading parameters from file', uri.fsPath);
+      void provider.loadParametersFromFile(uri);
+    }
+  );
+
+  // Explorer context menu - attaches the selected images/SVGs as references
+  const useAsReferenceCommand = vscode.commands.registerCommand(
+    'pixelMinion.useAsReference',
+    (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      const uris = selectedUris && selectedUris.length > 0 ? selectedUris : uri ? [uri] : [];
+      if (uris.length === 0) {
+        vscode.window.showWarningMessage('Right-click an image or SVG in the Explorer to use it as a reference.');
+        return;
+      }
+      loggingService.info('Using files as references', uris.map((selected) => selected.fsPath));
+      void provider.useAsReference(uris);
+    }
+  );
+
   // Listen for configuration changes
   const configChangeDisposable = vscode.workspace.onDidChangeConfiguration((e) => {
     provider.handleConfigurationChanged(e);
@@ -92,6 +142,8 @@ export function activate(context: vscode.ExtensionContext): void {
     helloCommand,
     settingsCommand,
     outputCommand,
+    loadParametersCommand,
+    useAsReferenceCommand,
     configChangeDisposable
   );
 }
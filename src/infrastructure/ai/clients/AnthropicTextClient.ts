@@ -0,0 +1,247 @@
+/**
+ * AnthropicTextClient - TextClient for the Anthropic Messages API
+ *
+ * Translates the shared message format:
+ * - system messages move to the top-level `system` field
+ * - image_url parts become base64 (data URL) or url image blocks
+ *
+ * Streaming uses Anthropic's event stream (content_block_delta / message_delta)
+ * rather than Chat Completions chunks.
+ * https://docs.anthropic.com/en/api/messages
+ */
+import {
+  TextClient,
+  TextMessage,
+  TextMessageContent,
+  TextCompletionOptions,
+  TextCompletionResult,
+  TextStreamChunk,
+} from './TextClient';
+import { ContentModerationError, createProviderError, toNetworkError } from './ProviderErrors';
+import { parseRetryAfter } from './openRouterHttp';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// HTTP status of each error type, for errors that arrive mid-stream
+const ANTHROPIC_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { id?: string; usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+export class AnthropicTextClient implements TextClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly model: string
+  ) {}
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return this.apiKey.length > 0;
+  }
+
+  async createCompletion(
+    messages: TextMessage[],
+    options?: TextCompletionOptions
+  ): Promise<TextCompletionResult> {
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => this.textOf(m.content))
+      .join('\n\n');
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: options?.model ?? this.model,
+        ...(system ? { system } : {}),
+        messages: messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => this.toAnthropicMessage(m)),
+        max_tokens: options?.maxTokens ?? 16384,
+        ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(options?.onChunk ? { stream: true } : {}),
+      }),
+      signal: options?.signal,
+    }).catch((error: unknown) => {
+      throw toNetworkError('Anthropic', error, options?.signal);
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw createProviderError('Anthropic', response.status, errorText, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    if (options?.onChunk) {
+      return this.rejectRefusal(await this.readStream(response, options.onChunk));
+    }
+
+    const data = await response.json();
+    const content = Array.isArray(data.content)
+      ? data.content
+          .filter((block: { type: string }) => block.type === 'text')
+          .map((block: { text: string }) => block.text)
+          .join('')
+      : '';
+
+    return this.rejectRefusal({
+      content,
+      finishReason: data.stop_reason,
+      usage: this.mapUsage(data.usage),
+      id: data.id,
+    });
+  }
+
+  /**
+   * A refusal still arrives as a 200 - report it as moderation rather than as (partial) content
+   */
+  private rejectRefusal(result: TextCompletionResult): TextCompletionResult {
+    if (result.finishReason === 'refusal') {
+      throw new ContentModerationError('Anthropic declined the request (refusal)', undefined, ['refusal']);
+    }
+    return result;
+  }
+
+  private toAnthropicMessage(message: TextMessage): AnthropicMessage {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    if (typeof message.content === 'string') {
+      return { role, content: message.content };
+    }
+    return { role, content: message.content.map((part) => this.toContentBlock(part)) };
+  }
+
+  private toContentBlock(part: TextMessageContent): AnthropicContentBlock {
+    const url = part.image_url?.url;
+    if (part.type !== 'image_url' || !url) {
+      return { type: 'text', text: part.text ?? '' };
+    }
+
+    const match = url.match(/^data:([^;]+);base64,(.+)$/);
+    return match
+      ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+      : { type: 'image', source: { type: 'url', url } };
+  }
+
+  private textOf(content: string | TextMessageContent[]): string {
+    return typeof content === 'string'
+      ? content
+      : content.map((part) => part.text ?? '').join('');
+  }
+
+  private mapUsage(usage: AnthropicUsage | undefined): TextCompletionResult['usage'] {
+    if (!usage) {
+      return undefined;
+    }
+    const promptTokens = usage.input_tokens ?? 0;
+    const completionTokens = usage.output_tokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  /**
+   * Read Anthropic's SSE stream: input tokens arrive on message_start, output tokens on message_delta
+   */
+  private async readStream(
+    response: Response,
+    onChunk: (chunk: TextStreamChunk) => void
+  ): Promise<TextCompletionResult> {
+    if (!response.body) {
+      throw new Error('Anthropic streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let finishReason: string | undefined;
+    let id: string | undefined;
+    const usage: AnthropicUsage = {};
+
+    const handleLine = (line: string): void => {
+      if (!line.startsWith('data:')) {
+        return;
+      }
+
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(line.slice(5).trim()) as AnthropicStreamEvent;
+      } catch {
+        return;
+      }
+
+      if (event.type === 'error') {
+        throw createProviderError('Anthropic', ANTHROPIC_ERROR_STATUS[event.error?.type ?? ''] ?? 500, JSON.stringify(event));
+      }
+      if (event.type === 'message_start') {
+        id = event.message?.id;
+        usage.input_tokens = event.message?.usage?.input_tokens;
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        content += event.delta.text;
+        onChunk({ delta: event.delta.text, content });
+      }
+      if (event.type === 'message_delta') {
+        finishReason = event.delta?.stop_reason ?? finishReason;
+        usage.output_tokens = event.usage?.output_tokens ?? usage.output_tokens;
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        handleLine(buffer.slice(0, newlineIndex).trim());
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    handleLine((buffer + decoder.decode()).trim());
+
+    return {
+      content,
+      finishReason,
+      usage: this.mapUsage(usage),
+      id,
+    };
+  }
+}
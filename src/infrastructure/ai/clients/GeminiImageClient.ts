@@ -0,0 +1,189 @@
+/**
+ * GeminiImageClient - Image generation via the Gemini API (generateContent)
+ *
+ * Handles:
+ * - Converting the shared (OpenAI-style) conversation into Gemini contents/parts
+ * - Replaying model turns exactly: the raw parts (with thoughtSignature) are kept
+ *   on the assistant message as `gemini_parts`
+ * - Response parsing for inlineData images
+ * https://ai.google.dev/gemini-api/docs/image-generation
+ */
+import {
+  ImageGenerationClient,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageConversationMessage,
+  ImageMessageImage,
+  GeneratedImageData,
+} from './ImageGenerationClient';
+import {
+  ContentModerationError,
+  MODERATION_FINISH_REASONS,
+  createProviderError,
+  toNetworkError,
+} from './ProviderErrors';
+import { parseRetryAfter } from './openRouterHttp';
+import { LoggingService } from '@logging';
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  thoughtSignature?: string;
+  [key: string]: unknown;
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiGenerateContentResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };  // set when the prompt itself was blocked
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+export class GeminiImageClient implements ImageGenerationClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly logger: LoggingService
+  ) {}
+
+  async isConfigured(): Promise<boolean> {
+    return this.apiKey.length > 0;
+  }
+
+  async generateImages(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const contents = request.messages.map((message) => this.toContent(message));
+
+    this.logger.debug('Calling Gemini image generation', {
+      model: request.model,
+      aspectRatio: request.aspectRatio,
+      seed: request.seed,
+      messageCount: contents.length,
+    });
+
+    const response = await fetch(`${this.baseUrl}/models/${encodeURIComponent(request.model)}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        contents,
+        generationConfig: {
+          responseModalities: ['TEXT', 'IMAGE'],
+          imageConfig: { aspectRatio: request.aspectRatio },
+          ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        },
+      }),
+      signal: request.signal,
+    }).catch((error: unknown) => {
+      throw toNetworkError('Gemini', error, request.signal);
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error(`Gemini API error: ${response.status} ${errorText}`);
+      throw createProviderError('Gemini', response.status, errorText, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    return this.parseResponse(await response.json() as GeminiGenerateContentResponse, request.seed);
+  }
+
+  private parseResponse(result: GeminiGenerateContentResponse, requestedSeed?: number): ImageGenerationResult {
+    const parts: GeminiPart[] = result.candidates?.[0]?.content?.parts ?? [];
+    const imageParts = parts.filter((part) => part.inlineData && !part.thought);
+    const text = parts
+      .filter((part) => part.text && !part.thought)
+      .map((part) => part.text)
+      .join('');
+    // A text-only reply (question, refusal) is still a turn
+    if (imageParts.length === 0 && !text.trim()) {
+      const finishReason = result.candidates?.[0]?.finishReason ?? '';
+      const blockReason = result.promptFeedback?.blockReason
+        ?? (MODERATION_FINISH_REASONS.test(finishReason) ? finishReason : undefined);
+      if (blockReason) {
+        throw new ContentModerationError(`Gemini declined the request (${blockReason})`, undefined, [blockReason]);
+      }
+      throw new Error('No images returned from API');
+    }
+
+    const images: GeneratedImageData[] = imageParts.map((part) => ({
+      data: `data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}`,
+      mimeType: part.inlineData!.mimeType,
+    }));
+
+    const assistantImages: ImageMessageImage[] = imageParts.map((part, index) => ({
+      image_url: { url: images[index].data },
+      ...(part.thoughtSignature ? { thought_signature: part.thoughtSignature } : {}),
+    }));
+
+    const metadata = result.usageMetadata;
+    const promptTokens = metadata?.promptTokenCount ?? 0;
+    const completionTokens = metadata?.candidatesTokenCount ?? 0;
+
+    return {
+      images,
+      seed: requestedSeed ?? 0,
+      assistantMessage: {
+        role: 'assistant',
+        content: [{ type: 'text', text: text || 'Generated images' }],
+        images: assistantImages,
+        gemini_parts: parts,
+      },
+      text: text.trim() || undefined,
+      usage: metadata ? {
+        promptTokens,
+        completionTokens,
+        totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens,
+      } : undefined,
+    };
+  }
+
+  /**
+   * Convert one conversation message. Model turns replay their raw parts when available;
+   * otherwise images without a thought signature are dropped (Gemini rejects them) -
+   * the orchestrator re-sends the last images as user references instead.
+   */
+  private toContent(message: ImageConversationMessage): GeminiContent {
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    if (role === 'model' && Array.isArray(message.gemini_parts)) {
+      return { role, parts: message.gemini_parts as GeminiPart[] };
+    }
+
+    const parts: GeminiPart[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text' && block.text) {
+        parts.push({ text: block.text });
+      } else if (block.type === 'image_url' && block.image_url?.url) {
+        const inline = this.toInlineData(block.image_url.url);
+        if (inline && (role === 'user' || block.thought_signature)) {
+          parts.push({ inlineData: inline, ...(block.thought_signature ? { thoughtSignature: block.thought_signature as string } : {}) });
+        }
+      }
+    }
+
+    for (const image of message.images ?? []) {
+      const inline = this.toInlineData(image.image_url.url);
+      if (inline && image.thought_signature) {
+        parts.push({ inlineData: inline, thoughtSignature: image.thought_signature as string });
+      }
+    }
+
+    return { role, parts: parts.length > 0 ? parts : [{ text: 'Generated images' }] };
+  }
+
+  private toInlineData(dataUrl: string): { mimeType: string; data: string } | null {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+  }
+}
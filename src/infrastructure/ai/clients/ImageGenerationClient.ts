@@ -6,7 +6,7 @@
  * - Response format (images array instead of text content)
  * - Message structure (multimodal content with image_url)
  */
-import { TokenUsage } from './TextClient';
+import { RetryOptions, TokenUsage } from './TextClient';
 
 /**
  * Multimodal message content for image generation
@@ -15,6 +15,8 @@ export interface ImageMessageContent {
   type: 'text' | 'image_url';
   text?: string;
   image_url?: { url: string };
+  /** Inpainting mask for clients with a native mask parameter - never sent as an image */
+  mask?: boolean;
   [key: string]: unknown;
 }
 
@@ -47,6 +49,8 @@ export interface ImageGenerationRequest {
   model: string;
   aspectRatio: string;
   seed?: number;
+  signal?: AbortSignal;  // Aborts the HTTP request (GENERATION_CANCEL)
+  retry?: RetryOptions;  // fallback model and retry notices (OpenRouter client)
 }
 
 /**
@@ -61,9 +65,11 @@ export interface GeneratedImageData {
  * Result from image generation
  */
 export interface ImageGenerationResult {
-  images: GeneratedImageData[];
+  images: GeneratedImageData[];  // empty when the model answered with text only
   seed: number;
   usage?: TokenUsage;
+  /** Assistant commentary - the whole reply for a text-only turn (clarifying question, refusal) */
+  text?: string;
   /** Raw assistant message from provider response (must be replayed unmodified for strict Gemini validation) */
   assistantMessage?: ImageConversationMessage;
   /** Actual content blocks from the assistant response (text, images, etc.) */
@@ -72,6 +78,8 @@ export interface ImageGenerationResult {
   assistantImages?: ImageMessageImage[];
   /** Reasoning details from the model response (must be preserved for multi-turn Gemini conversations) */
   reasoning_details?: unknown[];
+  /** Model that answered, when the client knows it (the fallback model after a switch) */
+  model?: string;
 }
 
 /**
@@ -89,7 +97,7 @@ export interface ImageGenerationClient {
   generateImages(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
 
   /**
-   * Check if the client is configured (has API key)
+   * Check if the client is configured (has API key) - for the given model's provider when the client routes by model
    */
-  isConfigured(): Promise<boolean>;
+  isConfigured(model?: string): Promise<boolean>;
 }
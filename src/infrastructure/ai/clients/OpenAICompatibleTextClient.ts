@@ -0,0 +1,86 @@
+/**
+ * OpenAICompatibleTextClient - TextClient for any Chat Completions endpoint
+ *
+ * Serves direct OpenAI, Gemini's OpenAI-compatible endpoint, and local servers
+ * (Ollama, LM Studio). Unlike OpenRouter these reject OpenRouter-only fields
+ * such as `usage: { include: true }`, and none report cost.
+ */
+import { TextClient, TextMessage, TextCompletionOptions, TextCompletionResult } from './TextClient';
+import { mapOpenRouterUsage, readChatCompletionStream } from './openRouterStream';
+import { ContentModerationError, createProviderError, toNetworkError } from './ProviderErrors';
+import { parseRetryAfter } from './openRouterHttp';
+
+export class OpenAICompatibleTextClient implements TextClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly model: string,
+    private readonly providerName: string,
+    private readonly useCompletionTokenLimit: boolean = false  // OpenAI reasoning models reject max_tokens
+  ) {}
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return this.baseUrl.length > 0;
+  }
+
+  async createCompletion(
+    messages: TextMessage[],
+    options?: TextCompletionOptions
+  ): Promise<TextCompletionResult> {
+    const maxTokens = options?.maxTokens ?? 16384;
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options?.model ?? this.model,
+        messages: messages.map(m => ({ role: m.role, content: m.content })),
+        ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(this.useCompletionTokenLimit ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+        ...(options?.onChunk ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: options?.signal,
+    }).catch((error: unknown) => {
+      throw toNetworkError(this.providerName, error, options?.signal);
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw createProviderError(this.providerName, response.status, errorText, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    if (options?.onChunk) {
+      return this.rejectContentFilter(await readChatCompletionStream(response, options.onChunk, this.providerName));
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    if (!choice) {
+      throw new Error(`No completion choice returned from ${this.providerName}`);
+    }
+
+    return this.rejectContentFilter({
+      content: choice.message?.content ?? '',
+      finishReason: choice.finish_reason,
+      usage: mapOpenRouterUsage(data.usage),
+      id: data.id,
+    });
+  }
+
+  /**
+   * A content filter stop still arrives as a 200 - report it as moderation rather than as (partial) content
+   */
+  private rejectContentFilter(result: TextCompletionResult): TextCompletionResult {
+    if (result.finishReason === 'content_filter') {
+      throw new ContentModerationError(`${this.providerName} declined the request (content_filter)`, undefined, ['content_filter']);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * OpenAIImageClient - Image generation via the OpenAI Images API
+ *
+ * The Images API is stateless, so a conversation turn is sent as the latest prompt
+ * plus the latest user images (references, or the previous result on continuation):
+ * - no images: POST /images/generations
+ * - with images: POST /images/edits (multipart), with the inpainting mask block as `mask`
+ * Seeds are not supported; the requested seed is echoed for display only.
+ * https://platform.openai.com/docs/api-reference/images
+ */
+import {
+  ImageGenerationClient,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageConversationMessage,
+  GeneratedImageData,
+} from './ImageGenerationClient';
+import { createProviderError, toNetworkError } from './ProviderErrors';
+import { parseRetryAfter } from './openRouterHttp';
+import { LoggingService } from '@logging';
+
+const LANDSCAPE_RATIOS = new Set(['4:3', '16:9', '3:2']);
+const PORTRAIT_RATIOS = new Set(['3:4', '9:16', '2:3']);
+
+interface OpenAIImageUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIImagesResponse {
+  data?: Array<{ b64_json?: string }>;
+  output_format?: string;
+  usage?: OpenAIImageUsage;
+}
+
+export class OpenAIImageClient implements ImageGenerationClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly logger: LoggingService
+  ) {}
+
+  async isConfigured(): Promise<boolean> {
+    return this.apiKey.length > 0;
+  }
+
+  async generateImages(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const lastUser = [...request.messages].reverse().find((message) => message.role === 'user');
+    if (!lastUser) {
+      throw new Error('No prompt to send to OpenAI');
+    }
+
+    const prompt = this.getPrompt(lastUser);
+    const imageBlocks = lastUser.content.filter((block) => block.type === 'image_url' && block.image_url?.url);
+    const inputImages = imageBlocks.filter((block) => !block.mask).map((block) => block.image_url!.url);
+    const maskImage = imageBlocks.find((block) => block.mask)?.image_url?.url;
+    const size = this.getSize(request.aspectRatio);
+
+    this.logger.debug('Calling OpenAI image generation', {
+      model: request.model,
+      size,
+      inputImageCount: inputImages.length,
+      masked: !!maskImage,
+    });
+
+    const pending = inputImages.length > 0
+      ? fetch(`${this.baseUrl}/images/edits`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${this.apiKey}` },
+          body: this.buildEditForm(request.model, prompt, size, inputImages, maskImage),
+          signal: request.signal,
+        })
+      : fetch(`${this.baseUrl}/images/generations`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.apiKey}`,
+          },
+          body: JSON.stringify({ model: request.model, prompt, size, n: 1 }),
+          signal: request.signal,
+        });
+    const response = await pending.catch((error: unknown) => {
+      throw toNetworkError('OpenAI', error, request.signal);
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error(`OpenAI API error: ${response.status} ${errorText}`);
+      throw createProviderError('OpenAI', response.status, errorText, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    return this.parseResponse(await response.json() as OpenAIImagesResponse, request.seed);
+  }
+
+  private parseResponse(result: OpenAIImagesResponse, requestedSeed?: number): ImageGenerationResult {
+    const mimeType = `image/${result.output_format ?? 'png'}`;
+    const images: GeneratedImageData[] = (result.data ?? [])
+      .filter((item) => item.b64_json)
+      .map((item) => ({
+        data: `data:${mimeType};base64,${item.b64_json}`,
+        mimeType,
+      }));
+
+    if (images.length === 0) {
+      throw new Error('No images returned from API');
+    }
+
+    const usage = result.usage;
+    return {
+      images,
+      seed: requestedSeed ?? 0,
+      usage: usage ? {
+        promptTokens: usage.input_tokens ?? 0,
+        completionTokens: usage.output_tokens ?? 0,
+        totalTokens: usage.total_tokens ?? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
+      } : undefined,
+    };
+  }
+
+  private getPrompt(message: ImageConversationMessage): string {
+    return message.content
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('\n');
+  }
+
+  /**
+   * Map an aspect ratio onto the sizes the GPT image models accept
+   */
+  private getSize(aspectRatio: string): string {
+    if (LANDSCAPE_RATIOS.has(aspectRatio)) {
+      return '1536x1024';
+    }
+    if (PORTRAIT_RATIOS.has(aspectRatio)) {
+      return '1024x1536';
+    }
+    return '1024x1024';
+  }
+
+  private buildEditForm(
+    model: string,
+    prompt: string,
+    size: string,
+    dataUrls: string[],
+    maskDataUrl?: string
+  ): FormData {
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', prompt);
+    form.append('size', size);
+
+    dataUrls.forEach((dataUrl, index) => {
+      const file = this.toFile(dataUrl);
+      if (file) {
+        form.append('image[]', file.blob, `reference-${index}.${file.extension}`);
+      }
+    });
+
+    // Applies to the first image: transparent pixels mark the area to edit
+    const mask = maskDataUrl ? this.toFile(maskDataUrl) : null;
+    if (mask) {
+      form.append('mask', mask.blob, `mask.${mask.extension}`);
+    }
+
+    return form;
+  }
+
+  private toFile(dataUrl: string): { blob: Blob; extension: string } | null {
+    const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) {
+      return null;
+    }
+    return {
+      blob: new Blob([Buffer.from(match[2], 'base64')], { type: match[1] }),
+      extension: match[1].split('/')[1] ?? 'png',
+    };
+  }
+}
@@ -3,13 +3,16 @@
  *
  * This client allows the model to be set per-request (via setModel) rather than at construction time.
  * This is useful for SVG generation where different models can be selected from the UI.
+ * Requests go through postOpenRouter (retries, optional fallback model).
  */
 import { TextClient, TextMessage, TextCompletionOptions, TextCompletionResult } from './TextClient';
+import { mapOpenRouterUsage, readChatCompletionStream } from './openRouterStream';
+import { postOpenRouter } from './openRouterHttp';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { InvalidApiKeyError } from './ProviderErrors';
 
 export class OpenRouterDynamicTextClient implements TextClient {
-  private readonly baseUrl = 'https://openrouter.ai/api/v1';
   private currentModel: string;
 
   constructor(
@@ -44,7 +47,7 @@ export class OpenRouterDynamicTextClient implements TextClient {
   ): Promise<TextCompletionResult> {
     const apiKey = await this.secretStorage.getApiKey();
     if (!apiKey) {
-      throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+      throw new InvalidApiKeyError('API key not configured. Please add your OpenRouter API key in Settings.');
     }
 
     // Use passed model if provided, otherwise fall back to this.currentModel
@@ -55,29 +58,23 @@ export class OpenRouterDynamicTextClient implements TextClient {
       messageCount: messages.length,
     });
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://github.com/pixel-minion-vscode',
-        'X-Title': 'Pixel Minion VS Code Extension',
-      },
-      body: JSON.stringify({
-        model: modelToUse,
-        // Content can be either string or multimodal array - pass as-is
-        messages: messages.map(m => ({ role: m.role, content: m.content })),
-        temperature: options?.temperature ?? 0.7,
-        max_tokens: options?.maxTokens ?? 16384,
-        usage: { include: true },  // Request native token counts and cost
-      }),
-      signal: options?.signal,
-    });
+    const { response, model } = await postOpenRouter('/chat/completions', apiKey, {
+      model: modelToUse,
+      // Content can be either string or multimodal array - pass as-is
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens ?? 16384,
+      usage: { include: true },  // Request native token counts and cost
+      ...(options?.onChunk ? { stream: true } : {}),
+    }, { signal: options?.signal, retry: options?.retry, logger: this.logger });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      this.logger.error(`OpenRouter API error: ${response.status} ${errorText}`);
-      throw new Error(`OpenRouter API error (${response.status}): ${errorText}`);
+    if (options?.onChunk) {
+      const streamed = await readChatCompletionStream(response, options.onChunk);
+      this.logger.debug('OpenRouter stream complete', {
+        contentLength: streamed.content.length,
+        usage: streamed.usage,
+      });
+      return { ...streamed, model };
     }
 
     const data = await response.json();
@@ -95,16 +92,9 @@ export class OpenRouterDynamicTextClient implements TextClient {
     return {
       content: choice.message?.content ?? '',
       finishReason: choice.finish_reason,
-      usage: data.usage ? {
-        // Prefer native token counts if available, fall back to normalized
-        promptTokens: data.usage.native_tokens_prompt ?? data.usage.prompt_tokens ?? 0,
-        completionTokens: data.usage.native_tokens_completion ?? data.usage.completion_tokens ?? 0,
-        totalTokens: (data.usage.native_tokens_prompt ?? data.usage.prompt_tokens ?? 0) +
-                     (data.usage.native_tokens_completion ?? data.usage.completion_tokens ?? 0),
-        // Cost may be in different fields depending on OpenRouter version
-        costUsd: data.usage.cost ?? data.usage.total_cost,
-      } : undefined,
+      usage: mapOpenRouterUsage(data.usage),
       id: data.id,
+      model,
     };
   }
 }
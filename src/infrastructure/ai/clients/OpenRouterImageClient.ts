@@ -3,8 +3,9 @@
  *
  * Handles:
  * - API authentication via SecretStorageService
- * - Image-specific request formatting (modalities, image_config)
- * - Response parsing for generated images
+ * - Retries and the fallback model (postOpenRouter)
+ * - Image-specific request formatting (modalities, seed, image_config) from the model's capabilities
+ * - Response parsing for generated images and the model's text (a text-only reply is a valid turn)
  */
 import {
   ImageGenerationClient,
@@ -17,10 +18,17 @@ import {
 } from './ImageGenerationClient';
 import { SecretStorageService } from '@secrets';
 import { LoggingService } from '@logging';
+import { getModelCapabilities } from '../providers/ModelCapabilities';
+import { postOpenRouter } from './openRouterHttp';
+import { mapOpenRouterUsage } from './openRouterStream';
+import {
+  ContentModerationError,
+  InvalidApiKeyError,
+  MODERATION_FINISH_REASONS,
+  createOpenRouterError,
+} from './ProviderErrors';
 
 export class OpenRouterImageClient implements ImageGenerationClient {
-  private readonly baseUrl = 'https://openrouter.ai/api/v1';
-
   constructor(
     private readonly secretStorage: SecretStorageService,
     private readonly logger: LoggingService
@@ -33,10 +41,11 @@ export class OpenRouterImageClient implements ImageGenerationClient {
   async generateImages(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
     const apiKey = await this.secretStorage.getApiKey();
     if (!apiKey) {
-      throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+      throw new InvalidApiKeyError('API key not configured. Please add your OpenRouter API key in Settings.');
     }
 
-    const modalities = this.getModalitiesForModel(request.model);
+    const capabilities = getModelCapabilities(request.model);
+    const modalities = capabilities.outputModalities;
 
     this.logger.debug('Calling OpenRouter image generation', {
       model: request.model,
@@ -47,29 +56,14 @@ export class OpenRouterImageClient implements ImageGenerationClient {
       assistantMessageDiagnostics: this.getAssistantMessageDiagnostics(request.messages),
     });
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://github.com/pixel-minion-vscode',
-        'X-Title': 'Pixel Minion VS Code Extension',
-      },
-      body: JSON.stringify({
-        model: request.model,
-        messages: request.messages,
-        modalities,
-        seed: request.seed,
-        image_config: { aspect_ratio: request.aspectRatio },
-        usage: { include: true },  // Request native token counts and cost
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      this.logger.error(`OpenRouter API error: ${response.status} ${errorText}`);
-      throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
-    }
+    const { response, model } = await postOpenRouter('/chat/completions', apiKey, {
+      model: request.model,
+      messages: request.messages,
+      modalities,
+      seed: capabilities.seed ? request.seed : undefined,
+      image_config: { ...capabilities.imageConfig, aspect_ratio: request.aspectRatio },
+      usage: { include: true },  // Request native token counts and cost
+    }, { signal: request.signal, retry: request.retry, logger: this.logger });
 
     const result = await response.json();
     this.logger.debug('OpenRouter response received', {
@@ -77,12 +71,33 @@ export class OpenRouterImageClient implements ImageGenerationClient {
       usage: result.usage,  // Log full usage object to see available fields
     });
 
-    return this.parseResponse(result, request.seed);
+    return { ...this.parseResponse(result, request.seed), model };
   }
 
   private parseResponse(result: any, requestedSeed?: number): ImageGenerationResult {
+    // Upstream failures can arrive in a 200 body
+    if (result.error) {
+      throw createOpenRouterError(Number(result.error.code) || 502, JSON.stringify(result));
+    }
+
     const choice = result.choices?.[0];
+    const text = this.extractText(choice?.message?.content);
     if (!choice?.message?.images?.length) {
+      // A clarifying question or a refusal in words is still a turn
+      if (text) {
+        return {
+          images: [],
+          seed: requestedSeed ?? 0,
+          text,
+          assistantMessage: choice.message as ImageConversationMessage,
+          usage: mapOpenRouterUsage(result.usage),
+        };
+      }
+      if (MODERATION_FINISH_REASONS.test(`${choice?.finish_reason} ${choice?.native_finish_reason}`)) {
+        throw new ContentModerationError(
+          `The model declined the request (${choice.native_finish_reason ?? choice.finish_reason})`
+        );
+      }
       throw new Error('No images returned from API');
     }
 
@@ -135,18 +150,26 @@ export class OpenRouterImageClient implements ImageGenerationClient {
       assistantContent,
       assistantImages,
       reasoning_details,
-      usage: result.usage ? {
-        // Prefer native token counts if available, fall back to normalized
-        promptTokens: result.usage.native_tokens_prompt ?? result.usage.prompt_tokens ?? 0,
-        completionTokens: result.usage.native_tokens_completion ?? result.usage.completion_tokens ?? 0,
-        totalTokens: (result.usage.native_tokens_prompt ?? result.usage.prompt_tokens ?? 0) +
-                     (result.usage.native_tokens_completion ?? result.usage.completion_tokens ?? 0),
-        // Cost may be in different fields depending on OpenRouter version
-        costUsd: result.usage.cost ?? result.usage.total_cost,
-      } : undefined,
+      text,
+      usage: mapOpenRouterUsage(result.usage),
     };
   }
 
+  /**
+   * The assistant's words - string content or the text blocks of array content
+   */
+  private extractText(content: unknown): string | undefined {
+    const text = typeof content === 'string'
+      ? content
+      : Array.isArray(content)
+        ? content
+          .filter((block): block is { type: 'text'; text: string } => block?.type === 'text' && typeof block.text === 'string')
+          .map((block) => block.text)
+          .join('\n')
+        : '';
+    return text.trim() || undefined;
+  }
+
   /**
    * Parse assistant content from API response into ImageMessageContent[].
    * Content may be a string, an array of content blocks, or absent.
@@ -212,16 +235,4 @@ export class OpenRouterImageClient implements ImageGenerationClient {
       withContentImageThoughtSignatures,
     };
   }
-
-  private getModalitiesForModel(model: string): Array<'image' | 'text'> {
-    const normalizedModel = model.toLowerCase();
-
-    // Flux and Sourceful endpoints are image-only and reject ["image", "text"].
-    if (normalizedModel.startsWith('black-forest-labs/') || normalizedModel.startsWith('sourceful/')) {
-      return ['image'];
-    }
-
-    // Gemini and similar multimodal image models support both.
-    return ['image', 'text'];
-  }
 }
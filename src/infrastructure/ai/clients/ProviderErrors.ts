@@ -0,0 +1,157 @@
+/**
+ * ProviderErrors - Typed provider failures with stable codes
+ *
+ * The code travels to the webview in ErrorPayload.code, which picks a remediation
+ * for it (top-up link, Settings, another model, smaller references).
+ * createProviderError classifies the providers' JSON error bodies, which all nest an error object:
+ *   OpenRouter { "error": { "code": 402, "message": "...", "metadata": { ... } } }
+ *   OpenAI     { "error": { "message": "...", "type": "...", "code": "moderation_blocked" } }
+ *   Gemini     { "error": { "code": 400, "message": "...", "status": "INVALID_ARGUMENT" } }
+ *   Anthropic  { "type": "error", "error": { "type": "rate_limit_error", "message": "..." } }
+ */
+import { ProviderErrorCode } from '@messages';
+
+export class ProviderError extends Error {
+  constructor(
+    readonly code: ProviderErrorCode,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InsufficientCreditsError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('INSUFFICIENT_CREDITS', message, status);
+  }
+}
+
+export class InvalidApiKeyError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('INVALID_API_KEY', message, status);
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(message: string, status?: number, readonly retryAfterMs?: number) {
+    super('RATE_LIMITED', message, status);
+  }
+}
+
+export class ModelUnavailableError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('MODEL_UNAVAILABLE', message, status);
+  }
+}
+
+export class ContentModerationError extends ProviderError {
+  constructor(message: string, status?: number, readonly reasons: string[] = []) {
+    super('CONTENT_MODERATED', message, status);
+  }
+}
+
+export class PayloadTooLargeError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('PAYLOAD_TOO_LARGE', message, status);
+  }
+}
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('TIMEOUT', message, status);
+  }
+}
+
+export class NetworkOfflineError extends ProviderError {
+  constructor(message: string) {
+    super('NETWORK_OFFLINE', message);
+  }
+}
+
+interface ProviderErrorBody {
+  code?: number | string;
+  type?: string;
+  status?: string;
+  message?: string;
+  metadata?: { reasons?: string[] };  // OpenRouter moderation reasons on a 403
+}
+
+/** Finish/stop reasons of a successful response that mean the provider refused the request */
+export const MODERATION_FINISH_REASONS = /content_filter|safety|prohibited|blocklist|spii|refusal/i;
+
+const INVALID_API_KEY_PATTERN = /api key not valid|api_key_invalid|invalid api key|incorrect api key|invalid x-api-key/i;
+const INSUFFICIENT_CREDITS_PATTERN = /insufficient_quota|exceeded your current quota|credit balance is too low/i;
+const MODEL_UNAVAILABLE_PATTERN = /no endpoints found|not a valid model|model .*(not found|unavailable|does not exist)|no allowed providers/i;
+const PAYLOAD_TOO_LARGE_PATTERN = /too large|exceeds the maximum|request entity/i;
+const MODERATION_PATTERN = /moderation|flagged|safety|prohibited content/i;
+
+/**
+ * Turn a provider's error response into a typed error (plain Error when unrecognised)
+ * @param providerName - Display name leading the message, e.g. "Gemini"
+ * @param body - Raw response text; JSON error bodies contribute their message, codes and metadata
+ */
+export function createProviderError(providerName: string, status: number, body: string, retryAfterMs?: number): Error {
+  const details = parseErrorBody(body);
+  const detail = details?.message ?? body;
+  const message = `${providerName} API error (${status}): ${detail}`;
+  // Codes like "moderation_blocked" or "insufficient_quota" say more than some messages
+  const signature = [detail, details?.code, details?.type, details?.status].join(' ');
+
+  if (status === 401 || ((status === 400 || status === 403) && INVALID_API_KEY_PATTERN.test(signature))) {
+    return new InvalidApiKeyError(message, status);
+  }
+  if (status === 402 || INSUFFICIENT_CREDITS_PATTERN.test(signature)) {
+    return new InsufficientCreditsError(message, status);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, status, retryAfterMs);
+  }
+  if (status === 413 || PAYLOAD_TOO_LARGE_PATTERN.test(detail)) {
+    return new PayloadTooLargeError(message, status);
+  }
+  if ((status === 400 || status === 403) && (details?.metadata?.reasons || MODERATION_PATTERN.test(signature))) {
+    return new ContentModerationError(message, status, details?.metadata?.reasons);
+  }
+  if (status === 408 || status === 504 || status === 524) {
+    return new ProviderTimeoutError(message, status);
+  }
+  if (status === 404 || MODEL_UNAVAILABLE_PATTERN.test(detail)) {
+    return new ModelUnavailableError(message, status);
+  }
+  return new Error(message);
+}
+
+/**
+ * createProviderError for OpenRouter responses
+ */
+export function createOpenRouterError(status: number, body: string, retryAfterMs?: number): Error {
+  return createProviderError('OpenRouter', status, body, retryAfterMs);
+}
+
+/**
+ * A rejected fetch as NetworkOfflineError - cancellations and non-Error values pass through unchanged
+ */
+export function toNetworkError(providerName: string, error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted || !(error instanceof Error)) {
+    return error;
+  }
+  return new NetworkOfflineError(`Could not reach ${providerName}: ${error.message}`);
+}
+
+/**
+ * The stable code for an error, or the handler's generic code
+ */
+export function getErrorCode(error: unknown, fallbackCode: string): string {
+  return error instanceof ProviderError ? error.code : fallbackCode;
+}
+
+function parseErrorBody(body: string): ProviderErrorBody | undefined {
+  try {
+    const parsed = JSON.parse(body) as { error?: ProviderErrorBody };
+    return parsed.error && typeof parsed.error === 'object' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
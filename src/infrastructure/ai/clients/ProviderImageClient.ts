@@ -0,0 +1,57 @@
+/**
+ * ProviderImageClient - ImageGenerationClient that routes each request to the provider owning the model
+ *
+ * Pattern: Strategy selection per request - ImageOrchestrator keeps one client
+ * - Unprefixed (OpenRouter) models go to the injected OpenRouter client unchanged
+ * - 'gemini:' models use generateContent
+ * - 'openai:' models use the Images API
+ */
+import {
+  ImageGenerationClient,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+} from './ImageGenerationClient';
+import { GeminiImageClient } from './GeminiImageClient';
+import { OpenAIImageClient } from './OpenAIImageClient';
+import { ProviderRegistry } from '../providers/ProviderRegistry';
+import { parseModelId } from '../providers/ProviderCatalog';
+import { LoggingService } from '@logging';
+
+export class ProviderImageClient implements ImageGenerationClient {
+  constructor(
+    private readonly registry: ProviderRegistry,
+    private readonly openRouterClient: ImageGenerationClient,
+    private readonly logger: LoggingService
+  ) {}
+
+  /**
+   * True when the provider the model's prefix points to is usable; without a model, when any provider is
+   */
+  async isConfigured(model?: string): Promise<boolean> {
+    if (model === undefined) {
+      return this.registry.hasAnyConfigured();
+    }
+    const { providerId } = parseModelId(model);
+    return providerId === 'openrouter'
+      ? this.openRouterClient.isConfigured()
+      : this.registry.isConfigured(providerId);
+  }
+
+  async generateImages(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (parseModelId(request.model).providerId === 'openrouter') {
+      return this.openRouterClient.generateImages(request);
+    }
+
+    const resolved = await this.registry.resolve(request.model);
+    if (!resolved.config.supportsImageOutput) {
+      throw new Error(`${resolved.config.displayName} does not support image generation`);
+    }
+
+    this.logger.debug(`Routing image generation to ${resolved.config.displayName}`);
+    const client = resolved.config.apiStyle === 'gemini'
+      ? new GeminiImageClient(resolved.baseUrl, resolved.apiKey ?? '', this.logger)
+      : new OpenAIImageClient(resolved.baseUrl, resolved.apiKey ?? '', this.logger);
+
+    return client.generateImages({ ...request, model: resolved.model });
+  }
+}
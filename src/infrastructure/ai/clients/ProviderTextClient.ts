@@ -0,0 +1,68 @@
+/**
+ * ProviderTextClient - TextClient that routes each request to the provider owning the model
+ *
+ * Pattern: Strategy selection per request - orchestrators keep talking to one TextClient
+ * - Unprefixed (OpenRouter) models go to the injected OpenRouter client unchanged
+ * - 'anthropic:' models use the Messages API
+ * - 'openai:', 'gemini:' and 'custom:' models use Chat Completions
+ */
+import { TextClient, TextMessage, TextCompletionOptions, TextCompletionResult } from './TextClient';
+import { OpenAICompatibleTextClient } from './OpenAICompatibleTextClient';
+import { AnthropicTextClient } from './AnthropicTextClient';
+import { ProviderRegistry, ResolvedProvider } from '../providers/ProviderRegistry';
+import { parseModelId } from '../providers/ProviderCatalog';
+import { LoggingService } from '@logging';
+
+export class ProviderTextClient implements TextClient {
+  constructor(
+    private readonly registry: ProviderRegistry,
+    private readonly openRouterClient: TextClient,
+    private readonly logger: LoggingService,
+    private readonly defaultModel: string = 'openai/gpt-5.1'
+  ) {}
+
+  getModel(): string {
+    return this.defaultModel;
+  }
+
+  /**
+   * True when any provider is usable - a missing key for the chosen model is reported per request
+   */
+  async isConfigured(): Promise<boolean> {
+    return this.registry.hasAnyConfigured();
+  }
+
+  async createCompletion(
+    messages: TextMessage[],
+    options?: TextCompletionOptions
+  ): Promise<TextCompletionResult> {
+    const modelId = options?.model ?? this.defaultModel;
+    if (parseModelId(modelId).providerId === 'openrouter') {
+      return this.openRouterClient.createCompletion(messages, { ...options, model: modelId });
+    }
+
+    const resolved = await this.registry.resolve(modelId);
+    this.logger.debug(`Calling ${resolved.config.displayName} text completion`, {
+      model: resolved.model,
+      messageCount: messages.length,
+    });
+
+    return this.createClient(resolved).createCompletion(messages, { ...options, model: resolved.model });
+  }
+
+  private createClient(resolved: ResolvedProvider): TextClient {
+    if (resolved.config.apiStyle === 'anthropic') {
+      return new AnthropicTextClient(resolved.baseUrl, resolved.apiKey ?? '', resolved.model);
+    }
+
+    // Gemini serves Chat Completions under /openai on its API root
+    const baseUrl = resolved.config.apiStyle === 'gemini' ? `${resolved.baseUrl}/openai` : resolved.baseUrl;
+    return new OpenAICompatibleTextClient(
+      baseUrl,
+      resolved.apiKey,
+      resolved.model,
+      resolved.config.displayName,
+      resolved.config.id === 'openai'
+    );
+  }
+}
@@ -6,7 +6,6 @@
  *
  * Reference: Improved from docs/example-repo/src/infrastructure/api/OpenRouterClient.ts
  */
-
 /**
  * Multimodal content for messages (supports text and images)
  */
@@ -21,11 +20,38 @@ export interface TextMessage {
   content: string | TextMessageContent[];  // Simple or multimodal
 }
 
+/**
+ * Incremental content from a streamed completion
+ */
+export interface TextStreamChunk {
+  delta: string;    // newly received text
+  content: string;  // everything received so far
+}
+
+/**
+ * A retry about to happen - attempt 1 of a fallback round means the model just switched
+ */
+export interface RetryNotice {
+  model: string;        // model the next attempt uses
+  attempt: number;      // next attempt for that model, 1-based
+  maxAttempts: number;
+  delayMs: number;      // wait before the next attempt
+  reason: string;       // e.g. 'HTTP 429' or 'network error'
+  fallback: boolean;    // true once the fallback model is in use
+}
+
+export interface RetryOptions {
+  fallbackModel?: string;                   // tried after the requested model's attempts run out
+  onRetry?: (notice: RetryNotice) => void;
+}
+
 export interface TextCompletionOptions {
   temperature?: number;
   maxTokens?: number;
   signal?: AbortSignal;
   model?: string;  // Optional model override to avoid race conditions
+  onChunk?: (chunk: TextStreamChunk) => void;  // When set, the response is streamed (SSE)
+  retry?: RetryOptions;  // fallback model and retry notices (OpenRouter clients)
 }
 
 export interface TokenUsage {
@@ -40,6 +66,7 @@ export interface TextCompletionResult {
   finishReason?: string;
   usage?: TokenUsage;
   id?: string;
+  model?: string;  // model that answered, when the client knows it (the fallback model after a switch)
 }
 
 export interface TextClient {
@@ -51,7 +78,7 @@ export interface TextClient {
   /**
    * Create a text completion
    * @param messages The conversation messages
-   * @param options Optional parameters (temperature, maxTokens, abort signal)
+   * @param options Optional parameters (temperature, maxTokens, abort signal, onChunk for streaming)
    * @returns The completion result with content and metadata
    */
   createCompletion(
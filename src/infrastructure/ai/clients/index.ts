@@ -5,10 +5,32 @@ export type {
   TextMessageContent,
   TextCompletionOptions,
   TextCompletionResult,
+  TextStreamChunk,
   TokenUsage,
+  RetryNotice,
+  RetryOptions,
 } from './TextClient';
+export { readChatCompletionStream, mapOpenRouterUsage } from './openRouterStream';
+export { postOpenRouter, describeRetryNotice } from './openRouterHttp';
+export {
+  ProviderError,
+  InsufficientCreditsError,
+  InvalidApiKeyError,
+  RateLimitedError,
+  ModelUnavailableError,
+  ContentModerationError,
+  PayloadTooLargeError,
+  ProviderTimeoutError,
+  NetworkOfflineError,
+  createProviderError,
+  createOpenRouterError,
+  getErrorCode,
+} from './ProviderErrors';
 export { OpenRouterTextClient } from './OpenRouterTextClient';
 export { OpenRouterDynamicTextClient } from './OpenRouterDynamicTextClient';
+export { OpenAICompatibleTextClient } from './OpenAICompatibleTextClient';
+export { AnthropicTextClient } from './AnthropicTextClient';
+export { ProviderTextClient } from './ProviderTextClient';
 
 // Image generation client
 export type {
@@ -20,3 +42,6 @@ export type {
   ImageConversationMessage,
 } from './ImageGenerationClient';
 export { OpenRouterImageClient } from './OpenRouterImageClient';
+export { GeminiImageClient } from './GeminiImageClient';
+export { OpenAIImageClient } from './OpenAIImageClient';
+export { ProviderImageClient } from './ProviderImageClient';
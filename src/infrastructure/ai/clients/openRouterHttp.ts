@@ -0,0 +1,189 @@
+/**
+ * OpenRouter HTTP layer shared by the OpenRouter image and text clients
+ *
+ * - postOpenRouter: POST with retries on 408/429/5xx and network errors, exponential
+ *   backoff that honours Retry-After, then one more round on the fallback model - also
+ *   straight away when the requested model is unavailable (404), which retries cannot fix
+ * - Each retry is announced through RetryOptions.onRetry (sent to the webview as STATUS)
+ *
+ * The request body must carry `model` - a fallback round swaps it for the fallback model.
+ * Failures surface as typed ProviderErrors where OpenRouter's response allows it.
+ */
+import { LoggingService } from '@logging';
+import { RetryNotice, RetryOptions } from './TextClient';
+import { ModelUnavailableError, NetworkOfflineError, createOpenRouterError } from './ProviderErrors';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+export const MAX_ATTEMPTS_PER_MODEL = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export interface OpenRouterPostResult {
+  response: Response;   // ok response, body not yet read
+  model: string;        // model that answered (the fallback model after a switch)
+}
+
+interface AttemptFailure {
+  reason: string;
+  retryAfterMs?: number;
+  error: Error;
+}
+
+/**
+ * POST to an OpenRouter endpoint with retries and an optional fallback model
+ * @throws The last attempt's error once every attempt has failed, or the abort error
+ */
+export async function postOpenRouter(
+  path: string,
+  apiKey: string,
+  body: { model: string } & Record<string, unknown>,
+  options: { signal?: AbortSignal; retry?: RetryOptions; logger?: LoggingService } = {}
+): Promise<OpenRouterPostResult> {
+  const { signal, retry, logger } = options;
+  const models = retry?.fallbackModel && retry.fallbackModel !== body.model
+    ? [body.model, retry.fallbackModel]
+    : [body.model];
+
+  let lastFailure: AttemptFailure | undefined;
+  for (const [modelIndex, model] of models.entries()) {
+    const fallback = modelIndex > 0;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_MODEL; attempt++) {
+      if (lastFailure) {
+        const delayMs = attempt === 1 ? 0 : getBackoffDelay(attempt - 1, lastFailure.retryAfterMs);
+        logger?.warn(
+          `OpenRouter ${lastFailure.reason} - ${fallback && attempt === 1 ? 'falling back to' : 'retrying'} ${model}`
+          + ` (attempt ${attempt}/${MAX_ATTEMPTS_PER_MODEL}) in ${delayMs}ms`
+        );
+        retry?.onRetry?.({
+          model,
+          attempt,
+          maxAttempts: MAX_ATTEMPTS_PER_MODEL,
+          delayMs,
+          reason: lastFailure.reason,
+          fallback,
+        });
+        await sleep(delayMs, signal);
+      }
+
+      const outcome = await attemptPost(path, apiKey, { ...body, model }, signal, logger);
+      if ('response' in outcome) {
+        return { response: outcome.response, model };
+      }
+      lastFailure = outcome.failure;
+      if (!outcome.retryable) {
+        // Another model may still answer when this one is gone
+        if (lastFailure.error instanceof ModelUnavailableError && modelIndex < models.length - 1) {
+          break;
+        }
+        throw lastFailure.error;
+      }
+    }
+  }
+
+  throw lastFailure?.error ?? new Error('OpenRouter request failed');
+}
+
+async function attemptPost(
+  path: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  signal: AbortSignal | undefined,
+  logger: LoggingService | undefined
+): Promise<{ response: Response } | { failure: AttemptFailure; retryable: boolean }> {
+  let response: Response;
+  try {
+    response = await fetch(`${OPENROUTER_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+        'HTTP-Referer': 'https://github.com/pixel-minion-vscode',
+        'X-Title': 'Pixel Minion VS Code Extension',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    // Cancelled requests are never retried
+    if (signal?.aborted || !(error instanceof Error)) {
+      throw error;
+    }
+    return {
+      failure: { reason: 'network error', error: new NetworkOfflineError(`Could not reach OpenRouter: ${error.message}`) },
+      retryable: true,
+    };
+  }
+
+  if (response.ok) {
+    return { response };
+  }
+
+  const errorText = await response.text();
+  logger?.error(`OpenRouter API error: ${response.status} ${errorText}`);
+  const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after') ?? null);
+  return {
+    failure: {
+      reason: `HTTP ${response.status}`,
+      retryAfterMs,
+      error: createOpenRouterError(response.status, errorText, retryAfterMs),
+    },
+    retryable: RETRYABLE_STATUSES.has(response.status),
+  };
+}
+
+/**
+ * One-line status for a retry notice, e.g. "OpenRouter HTTP 429 - retrying (attempt 2/3) in 4s…"
+ */
+export function describeRetryNotice(notice: RetryNotice): string {
+  const action = notice.fallback && notice.attempt === 1
+    ? `falling back to ${notice.model}`
+    : `retrying${notice.fallback ? ` ${notice.model}` : ''} (attempt ${notice.attempt}/${notice.maxAttempts})`;
+  const wait = notice.delayMs > 0 ? ` in ${Math.ceil(notice.delayMs / 1000)}s` : '';
+  return `OpenRouter ${notice.reason} - ${action}${wait}…`;
+}
+
+/**
+ * Delay before retry n (1-based): Retry-After when the server sent one, otherwise
+ * exponential backoff with jitter - both capped
+ */
+export function getBackoffDelay(retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_DELAY_MS);
+  }
+  const exponential = BASE_DELAY_MS * 2 ** (retry - 1);
+  return Math.min(exponential + Math.floor(Math.random() * BASE_DELAY_MS / 2), MAX_DELAY_MS);
+}
+
+/**
+ * Retry-After is either delay seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * OpenRouter response helpers shared by the text clients
+ *
+ * - mapOpenRouterUsage: normalize OpenRouter usage fields into TokenUsage
+ * - readChatCompletionStream: consume an SSE chat completion (stream: true)
+ *
+ * SSE format: "data: {json}" lines separated by blank lines, ": comment" keep-alives,
+ * and a terminal "data: [DONE]". Usage arrives on the final chunk when requested.
+ */
+import { TextCompletionResult, TextStreamChunk, TokenUsage } from './TextClient';
+import { createProviderError } from './ProviderErrors';
+
+interface OpenRouterUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  native_tokens_prompt?: number;
+  native_tokens_completion?: number;
+  cost?: number;
+  total_cost?: number;
+}
+
+interface OpenRouterStreamEvent {
+  id?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenRouterUsage;
+  error?: { message?: string; code?: number | string };
+}
+
+/**
+ * Normalize an OpenRouter usage object
+ */
+export function mapOpenRouterUsage(usage: OpenRouterUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  // Prefer native token counts if available, fall back to normalized
+  const promptTokens = usage.native_tokens_prompt ?? usage.prompt_tokens ?? 0;
+  const completionTokens = usage.native_tokens_completion ?? usage.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    // Cost may be in different fields depending on OpenRouter version
+    costUsd: usage.cost ?? usage.total_cost,
+  };
+}
+
+/**
+ * Read a streamed chat completion, reporting each content delta.
+ * Resolves with the same shape as a non-streamed completion.
+ * @param providerName - Names the provider in mid-stream errors
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onChunk: (chunk: TextStreamChunk) => void,
+  providerName: string = 'OpenRouter'
+): Promise<TextCompletionResult> {
+  if (!response.body) {
+    throw new Error('OpenRouter streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: OpenRouterUsage | undefined;
+  let id: string | undefined;
+
+  const handleLine = (line: string): void => {
+    // Skip blank separators and ": OPENROUTER PROCESSING" keep-alives
+    if (!line.startsWith('data:')) {
+      return;
+    }
+
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') {
+      return;
+    }
+
+    let event: OpenRouterStreamEvent;
+    try {
+      event = JSON.parse(data) as OpenRouterStreamEvent;
+    } catch {
+      return;
+    }
+
+    // Errors after the 200 carry their status as the code (502 when the upstream gave none)
+    if (event.error) {
+      throw createProviderError(providerName, Number(event.error.code) || 502, data);
+    }
+
+    id = id ?? event.id;
+    const choice = event.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (delta) {
+      content += delta;
+      onChunk({ delta, content });
+    }
+    if (choice?.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+    if (event.usage) {
+      usage = event.usage;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      handleLine(buffer.slice(0, newlineIndex).trim());
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  // Flush a final line without trailing newline
+  handleLine((buffer + decoder.decode()).trim());
+
+  return {
+    content,
+    finishReason,
+    usage: mapOpenRouterUsage(usage),
+    id,
+  };
+}
@@ -2,7 +2,7 @@
  * AI Infrastructure Layer
  *
  * Client-agnostic AI orchestration with:
- * - Pluggable AI clients (OpenRouter, etc.)
+ * - Pluggable AI clients (OpenRouter, OpenAI, Gemini, Anthropic, OpenAI-compatible)
  * - Conversation management with turn limits
  * - Extensible tool system
  */
@@ -14,9 +14,16 @@ export type {
   TextMessageContent,
   TextCompletionOptions,
   TextCompletionResult,
+  TextStreamChunk,
   TokenUsage,
 } from './clients';
-export { OpenRouterTextClient, OpenRouterDynamicTextClient } from './clients';
+export {
+  OpenRouterTextClient,
+  OpenRouterDynamicTextClient,
+  OpenAICompatibleTextClient,
+  AnthropicTextClient,
+  ProviderTextClient,
+} from './clients';
 
 // Image generation client
 export type {
@@ -27,7 +34,42 @@ export type {
   ImageMessageContent,
   ImageConversationMessage,
 } from './clients';
-export { OpenRouterImageClient } from './clients';
+export { OpenRouterImageClient, GeminiImageClient, OpenAIImageClient, ProviderImageClient } from './clients';
+
+// OpenRouter retries and fallback
+export type { RetryNotice, RetryOptions } from './clients';
+export { describeRetryNotice } from './clients';
+
+// Typed provider errors (stable codes for the webview)
+export {
+  ProviderError,
+  InsufficientCreditsError,
+  InvalidApiKeyError,
+  RateLimitedError,
+  ModelUnavailableError,
+  ContentModerationError,
+  PayloadTooLargeError,
+  ProviderTimeoutError,
+  NetworkOfflineError,
+  createProviderError,
+  createOpenRouterError,
+  getErrorCode,
+} from './clients';
+
+// Providers
+export { ProviderRegistry } from './providers/ProviderRegistry';
+export type { ResolvedProvider } from './providers/ProviderRegistry';
+export { ModelCatalogService, buildModelCatalog } from './providers/ModelCatalogService';
+export type { OpenRouterModelRecord } from './providers/ModelCatalogService';
+export {
+  estimateGenerationCost,
+  estimateTextTokens,
+  estimateArchitectCost,
+  sumCostEstimates,
+  SVG_OUTPUT_TOKENS,
+  REPORT_OUTPUT_TOKENS,
+} from './providers/CostEstimator';
+export type { CostEstimate, GenerationCostInput, ArchitectCostInput } from './providers/CostEstimator';
 
 // Text orchestration
 export { TextOrchestrator, TextConversationManager } from './orchestration';
@@ -45,6 +87,7 @@ export type {
   RehydrationTurn,
   ImageGenerationOptions,
   ImageTurnResult,
+  ImageVariationResult,
 } from './orchestration';
 
 // SVG orchestration
@@ -54,6 +97,27 @@ export type {
   SVGGenerationOptions,
   SVGTurnResult,
   SVGRehydrationTurn,
+  SVGStreamChunk,
+} from './orchestration';
+
+// Model comparison
+export { runModelComparison } from './orchestration';
+export type { ModelComparisonResult } from './orchestration';
+
+// SVG Architect orchestration
+export {
+  SVGArchitectConversationManager,
+  SVGArchitectOrchestrator,
+  SVG_ARCHITECT_ACCEPT_THRESHOLD,
+  getFailedStepUsage,
+} from './orchestration';
+export type {
+  SVGArchitectConversationState,
+  SVGArchitectInput,
+  SVGArchitectIteration,
+  SVGArchitectSessionOptions,
+  SVGArchitectProgressCallback,
+  SVGArchitectStepResult,
 } from './orchestration';
 
 // Tools
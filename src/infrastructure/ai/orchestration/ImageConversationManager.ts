@@ -3,8 +3,13 @@
  *
  * Responsibilities:
  * - Store and retrieve conversation state
- * - Build messages for API calls
+ * - Build messages for API calls (including masked inpainting edits), shaped by the
+ *   model's capabilities (reference limit, single-turn models, thought signatures)
+ * - Apply the active brand style guide to every user message
  * - Handle re-hydration from webview history
+ * - Restore exact state saved by ConversationStore
+ * - Branch a new conversation from an earlier turn
+ * - Narrow a continuation to the images the user picked from the latest turn
  */
 import {
   ImageConversationMessage,
@@ -12,6 +17,15 @@ import {
   ImageGenerationResult,
 } from '../clients/ImageGenerationClient';
 import { LoggingService } from '@logging';
+import { ImageInpaintMask, StyleProfile } from '@messages';
+import { describeStyleProfile, styleReferenceContent } from './StyleGuide';
+import { getModelCapabilities } from '../providers/ModelCapabilities';
+
+/**
+ * Instruction sent with the highlighted guidance image when the model has no mask parameter
+ */
+const INPAINT_GUIDANCE = 'Edit only the region highlighted in magenta in the second image. '
+  + 'Keep everything outside it identical to the first image, and return the full edited image without the highlight.';
 
 /**
  * State for a single image generation conversation
@@ -36,6 +50,7 @@ export interface RehydrationTurn {
     seed: number;
   }>;
   referenceSvgText?: string;
+  text?: string;  // assistant commentary (the whole reply of a text-only turn)
 }
 
 export class ImageConversationManager {
@@ -47,7 +62,7 @@ export class ImageConversationManager {
    * Create a new conversation
    */
   create(model: string, aspectRatio: string): ImageConversationState {
-    const id = `img-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    const id = this.createId();
     const conversation: ImageConversationState = {
       id,
       messages: [],
@@ -87,25 +102,40 @@ export class ImageConversationManager {
 
   /**
    * Add a user message to a conversation
+   * @param referenceImages - Capped at the model's maxReferenceImages
+   * @param style - Brand style guide appended to the text; its reference images are
+   *   attached to the first message only (they stay in the conversation context),
+   *   or to every message for single-turn models
    */
   addUserMessage(
     conversationId: string,
     prompt: string,
     referenceImages?: string[],
-    referenceSvgText?: string
+    referenceSvgText?: string,
+    style?: StyleProfile
   ): void {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    const content: ImageMessageContent[] = [
-      { type: 'text', text: referenceSvgText ? `${prompt}\n\nReference SVG:\n${referenceSvgText}` : prompt }
-    ];
+    const capabilities = getModelCapabilities(conversation.model);
+    const styleGuide = style ? describeStyleProfile(style) : '';
+    const text = [
+      prompt,
+      referenceSvgText ? `Reference SVG:\n${referenceSvgText}` : '',
+      styleGuide,
+    ].filter(Boolean).join('\n\n');
+    const content: ImageMessageContent[] = [{ type: 'text', text }];
 
     // Add reference images if provided
     if (referenceImages?.length) {
-      for (const imageData of referenceImages) {
+      if (referenceImages.length > capabilities.maxReferenceImages) {
+        this.logger.warn(
+          `${conversation.model} takes ${capabilities.maxReferenceImages} reference images - dropping ${referenceImages.length - capabilities.maxReferenceImages}`
+        );
+      }
+      for (const imageData of referenceImages.slice(0, capabilities.maxReferenceImages)) {
         content.push({
           type: 'image_url',
           image_url: { url: imageData }
@@ -113,12 +143,109 @@ export class ImageConversationManager {
       }
     }
 
+    if (style && (conversation.messages.length === 0 || !capabilities.multiTurn)) {
+      content.push(...styleReferenceContent(style));
+    }
+
     conversation.messages.push({
       role: 'user',
       content
     });
   }
 
+  /**
+   * Add an inpainting edit - the source image plus a native mask block where the model
+   * accepts one, otherwise a composited guidance image with instructions
+   */
+  addInpaintMessage(
+    conversationId: string,
+    prompt: string,
+    mask: ImageInpaintMask
+  ): void {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const source: ImageMessageContent = { type: 'image_url', image_url: { url: mask.sourceImage } };
+    const content: ImageMessageContent[] = getModelCapabilities(conversation.model).nativeMask
+      ? [
+          { type: 'text', text: prompt },
+          source,
+          { type: 'image_url', image_url: { url: mask.maskImage }, mask: true },
+        ]
+      : [
+          { type: 'text', text: `${prompt}\n\n${INPAINT_GUIDANCE}` },
+          source,
+          { type: 'image_url', image_url: { url: mask.guidanceImage } },
+        ];
+
+    conversation.messages.push({
+      role: 'user',
+      content
+    });
+  }
+
+  /**
+   * Messages to send for the next turn - single-turn models only see the latest
+   * user message (continuations carry the previous images as references)
+   */
+  getRequestMessages(conversationId: string): ImageConversationMessage[] {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    return getModelCapabilities(conversation.model).multiTurn
+      ? conversation.messages
+      : conversation.messages.slice(-1);
+  }
+
+  /**
+   * The latest images the next turn refines - only the selected ones when a subset is
+   * picked, with a note naming them so the model's edit target is unambiguous
+   * @param targetImages - Data URLs from lastImages; unknown ones are ignored
+   */
+  getContinuationReferences(
+    conversationId: string,
+    targetImages?: string[]
+  ): { images: string[]; note?: string } {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const lastImages = conversation.lastImages ?? [];
+    const selected = lastImages.filter(img => targetImages?.includes(img));
+    if (selected.length === 0 || selected.length === lastImages.length) {
+      return { images: lastImages };
+    }
+
+    const positions = selected.map(img => lastImages.indexOf(img) + 1);
+    this.logger.debug(`Continuing ${conversationId} from image(s) ${positions.join(', ')} of ${lastImages.length}`);
+    return {
+      images: selected,
+      note: `Continue from ${positions.length === 1 ? 'image' : 'images'} ${positions.join(', ')} of the `
+        + `${lastImages.length} in your last reply (attached) and ignore the others.`,
+    };
+  }
+
+  /**
+   * Remove a trailing user message that never got a response (failed or cancelled turn)
+   * @returns true if a message was removed
+   */
+  removeLastUserMessage(conversationId: string): boolean {
+    const conversation = this.conversations.get(conversationId);
+    const last = conversation?.messages[conversation.messages.length - 1];
+    if (!conversation || last?.role !== 'user') {
+      return false;
+    }
+
+    conversation.messages.pop();
+    this.logger.debug(`Rolled back pending user message in conversation ${conversationId}`);
+    return true;
+  }
+
   /**
    * Add an assistant response with generated images
    */
@@ -147,12 +274,12 @@ export class ImageConversationManager {
     // Gemini image continuation is strict about thought signatures on model image parts.
     // If the provider response does not include signatures, do not replay assistant image parts.
     // We pass image context as user reference images on continuation instead.
-    if (this.isGeminiModel(conversation.model) && !this.hasThoughtSignatures(message)) {
+    if (getModelCapabilities(conversation.model).thoughtSignatures && !this.hasThoughtSignatures(message)) {
       if (Array.isArray(message.images) && message.images.length > 0) {
         delete message.images;
       }
       if (!Array.isArray(message.content)) {
-        message.content = [{ type: 'text', text: 'Generated images' }];
+        message.content = [{ type: 'text', text: result.text ?? 'Generated images' }];
       } else {
         message.content = message.content.filter(block => block.type !== 'image_url');
       }
@@ -162,7 +289,55 @@ export class ImageConversationManager {
 
     conversation.turnNumber++;
     conversation.lastSeed = result.seed;
-    conversation.lastImages = result.images.map(img => img.data);
+    // A text-only turn keeps the previous images as the ones to refine
+    if (result.images.length > 0) {
+      conversation.lastImages = result.images.map(img => img.data);
+    }
+  }
+
+  /**
+   * Start a new conversation from the source's messages up to and including turnNumber.
+   * The provider messages are reused as they are, so thought signatures and
+   * reasoning_details carry over to the branch.
+   * @param turnImages - Images (with seed) to refine on the branch - the latest ones up to
+   *   the branch turn, which the assistant message may no longer carry
+   */
+  branch(
+    sourceId: string,
+    turnNumber: number,
+    turnImages?: RehydrationTurn['images']
+  ): ImageConversationState {
+    const source = this.conversations.get(sourceId);
+    if (!source) {
+      throw new Error(`Conversation ${sourceId} not found`);
+    }
+
+    const end = this.findTurnEnd(source.messages, turnNumber);
+    if (end < 0) {
+      throw new Error(`Conversation ${sourceId} has no turn ${turnNumber}`);
+    }
+
+    const conversation: ImageConversationState = {
+      id: this.createId(),
+      messages: source.messages.slice(0, end + 1),
+      model: source.model,
+      aspectRatio: source.aspectRatio,
+      turnNumber,
+      lastSeed: turnImages?.[0]?.seed ?? source.lastSeed,
+      lastImages: turnImages?.map(img => img.data) ?? [],
+    };
+    this.conversations.set(conversation.id, conversation);
+    this.logger.debug(`Branched image conversation ${conversation.id} from ${sourceId} at turn ${turnNumber}`);
+    return conversation;
+  }
+
+  /**
+   * Restore a conversation saved by ConversationStore (exact provider messages)
+   */
+  restore(state: ImageConversationState): ImageConversationState {
+    this.conversations.set(state.id, state);
+    this.logger.info(`Restored image conversation ${state.id} from storage (${state.turnNumber} turns)`);
+    return state;
   }
 
   /**
@@ -202,11 +377,11 @@ export class ImageConversationManager {
         content: userContent
       });
 
-      // Add assistant response with images
+      // Add assistant response with its text and images
       conversation.messages.push({
         role: 'assistant',
-        content: [{ type: 'text', text: 'Generated images' }],
-        images: turn.images.map(img => ({ image_url: { url: img.data } }))
+        content: [{ type: 'text', text: turn.text ?? 'Generated images' }],
+        ...(turn.images.length > 0 ? { images: turn.images.map(img => ({ image_url: { url: img.data } })) } : {}),
       });
 
       conversation.turnNumber++;
@@ -240,8 +415,16 @@ export class ImageConversationManager {
     this.logger.debug('Cleared all image conversations');
   }
 
-  private isGeminiModel(model: string): boolean {
-    return model.toLowerCase().includes('gemini');
+  private createId(): string {
+    return `img-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  }
+
+  /**
+   * Index of the assistant message that completes turn n (1-based), or -1
+   */
+  private findTurnEnd(messages: ImageConversationMessage[], turnNumber: number): number {
+    let turns = 0;
+    return messages.findIndex(message => message.role === 'assistant' && ++turns === turnNumber);
   }
 
   private hasThoughtSignatures(message: ImageConversationMessage): boolean {
@@ -5,15 +5,23 @@
  * Responsibilities:
  * - Coordinates between ImageConversationManager and ImageGenerationClient
  * - Handles conversation lifecycle and re-hydration
+ * - Fans out batch variations and model comparisons with capped concurrency
+ * - Persists conversations through an optional ConversationStore
+ * - Branches new conversations from earlier turns
+ * - Applies the active brand style profile to every user message
  * - Provides clean interface for handlers
  */
 import {
   ImageGenerationClient,
   ImageGenerationResult,
 } from '../clients/ImageGenerationClient';
-import { TokenUsage } from '@messages';
-import { ImageConversationManager, RehydrationTurn } from './ImageConversationManager';
+import { RetryOptions } from '../clients/TextClient';
+import { ImageInpaintMask, TokenUsage } from '@messages';
+import { ImageConversationManager, ImageConversationState, RehydrationTurn } from './ImageConversationManager';
 import { LoggingService } from '@logging';
+import { ConversationStore, StyleProfileStore } from '@storage';
+import { ModelComparisonResult, runModelComparison } from './ModelComparison';
+import { InvalidApiKeyError } from '../clients/ProviderErrors';
 
 export interface ImageGenerationOptions {
   model: string;
@@ -21,6 +29,9 @@ export interface ImageGenerationOptions {
   seed?: number;
   referenceImages?: string[];
   referenceSvgText?: string;
+  mask?: ImageInpaintMask;  // Inpainting edit - replaces referenceImages with the source + mask
+  signal?: AbortSignal;  // Cancels the request; the pending user message is rolled back
+  retry?: RetryOptions;  // Fallback model and retry notices
 }
 
 export interface ImageTurnResult {
@@ -28,11 +39,28 @@ export interface ImageTurnResult {
   result: ImageGenerationResult;
   turnNumber: number;
   usage?: TokenUsage;
+  model: string;         // the conversation's model and aspect ratio (provenance)
+  aspectRatio: string;
+}
+
+/**
+ * Outcome of one variation in a batch - a failed variation carries the error instead of a turn
+ */
+export interface ImageVariationResult {
+  index: number;
+  seed: number;
+  turn?: ImageTurnResult;
+  error?: Error;
 }
 
+const MAX_SEED = 2147483647;
+const DEFAULT_VARIATION_CONCURRENCY = 3;
+
 export class ImageOrchestrator {
   private readonly conversationManager: ImageConversationManager;
   private client: ImageGenerationClient | null = null;
+  private store: ConversationStore | null = null;
+  private styleProfiles: StyleProfileStore | null = null;
 
   constructor(private readonly logger: LoggingService) {
     this.conversationManager = new ImageConversationManager(logger);
@@ -46,6 +74,22 @@ export class ImageOrchestrator {
     this.logger.debug('ImageOrchestrator client configured');
   }
 
+  /**
+   * Set the conversation store used to survive restarts (optional)
+   */
+  setStore(store: ConversationStore): void {
+    this.store = store;
+    this.logger.debug('ImageOrchestrator conversation store configured');
+  }
+
+  /**
+   * Set the store whose active brand style profile is applied to generations (optional)
+   */
+  setStyleProfiles(store: StyleProfileStore): void {
+    this.styleProfiles = store;
+    this.logger.debug('ImageOrchestrator style profiles configured');
+  }
+
   /**
    * Check if a client is configured
    */
@@ -72,16 +116,19 @@ export class ImageOrchestrator {
       throw new Error('No image generation client configured. Call setClient() first.');
     }
 
-    if (!(await this.client.isConfigured())) {
-      throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+    if (!(await this.client.isConfigured(options.model))) {
+      throw new InvalidApiKeyError(`API key not configured for ${options.model}. Please add its provider's API key in Settings.`);
     }
 
+    const style = await this.styleProfiles?.getActive();
+
     // Get or create conversation
     const conversation = this.conversationManager.getOrCreate(
       conversationId,
       options.model,
       options.aspectRatio
     );
+    const isNewConversation = conversation.id !== conversationId;
 
     // Use provided seed or generate new one
     const seed = options.seed ?? this.generateSeed();
@@ -89,19 +136,45 @@ export class ImageOrchestrator {
     this.logger.debug(`Generating image for conversation ${conversation.id} (seed: ${seed})`);
 
     // Add user message
-    this.conversationManager.addUserMessage(conversation.id, prompt, options.referenceImages, options.referenceSvgText);
+    if (options.mask) {
+      this.conversationManager.addInpaintMessage(conversation.id, prompt, options.mask);
+    } else {
+      this.conversationManager.addUserMessage(
+        conversation.id,
+        prompt,
+        options.referenceImages,
+        options.referenceSvgText,
+        style
+      );
+    }
     conversation.lastSeed = seed;
 
-    // Call the client
-    const result = await this.client.generateImages({
-      messages: conversation.messages,
-      model: conversation.model,
-      aspectRatio: conversation.aspectRatio,
-      seed,
-    });
+    // Call the client - on failure or cancel, undo the user message so the thread stays consistent
+    let result: ImageGenerationResult;
+    try {
+      result = await this.client.generateImages({
+        messages: this.conversationManager.getRequestMessages(conversation.id),
+        model: conversation.model,
+        aspectRatio: conversation.aspectRatio,
+        seed,
+        signal: options.signal,
+        retry: options.retry,
+      });
+      options.signal?.throwIfAborted();
+    } catch (error) {
+      this.rollbackTurn(conversation.id, isNewConversation);
+      throw error;
+    }
+
+    // The fallback model answered - the thread continues on it and provenance names it
+    if (result.model && result.model !== conversation.model) {
+      this.logger.info(`Conversation ${conversation.id} switched from ${conversation.model} to fallback ${result.model}`);
+      conversation.model = result.model;
+    }
 
-    // Add assistant response
+    // Add assistant response and persist the exact provider messages
     this.conversationManager.addAssistantResponse(conversation.id, result);
+    void this.store?.save('image', conversation);
 
     this.logger.info(`Image generation complete (turn ${conversation.turnNumber})`);
 
@@ -118,11 +191,91 @@ export class ImageOrchestrator {
       result,
       turnNumber: conversation.turnNumber,
       usage,
+      model: conversation.model,
+      aspectRatio: conversation.aspectRatio,
     };
   }
 
+  /**
+   * Generate several variations of a new image, each in its own conversation so any
+   * of them can be continued. Seeds count up from options.seed (or a random base).
+   * @param onVariation - Called as each variation finishes, in completion order
+   * @returns Results in variation order; throws only if every variation failed or the batch was cancelled
+   */
+  async generateVariations(
+    prompt: string,
+    options: ImageGenerationOptions,
+    count: number,
+    concurrency: number = DEFAULT_VARIATION_CONCURRENCY,
+    onVariation?: (variation: ImageVariationResult) => void
+  ): Promise<ImageVariationResult[]> {
+    const baseSeed = options.seed ?? this.generateSeed();
+    const results: ImageVariationResult[] = [];
+    let nextIndex = 0;
+
+    this.logger.debug(`Generating ${count} variations (base seed: ${baseSeed}, concurrency: ${concurrency})`);
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < count) {
+        const index = nextIndex++;
+        const seed = (baseSeed + index) % MAX_SEED;
+        let variation: ImageVariationResult;
+        try {
+          const turn = await this.generateImage(prompt, { ...options, seed });
+          variation = { index, seed, turn };
+        } catch (error) {
+          options.signal?.throwIfAborted();
+          this.logger.warn(`Variation ${index + 1}/${count} failed`, error);
+          variation = { index, seed, error: error instanceof Error ? error : new Error(String(error)) };
+        }
+        results[index] = variation;
+        onVariation?.(variation);
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, count));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    if (!results.some((variation) => variation.turn)) {
+      throw results[0]?.error ?? new Error('All variations failed');
+    }
+    return results;
+  }
+
+  /**
+   * Send one prompt, its references and one seed to several models, each in its own
+   * conversation so any result can be continued. Failed models are reported, not thrown.
+   * Retries never switch to the fallback model - each result must come from its own model.
+   * @param onResult - Called as each model finishes, in completion order
+   */
+  async compareModels(
+    prompt: string,
+    options: Omit<ImageGenerationOptions, 'model' | 'mask'>,
+    models: string[],
+    concurrency: number = DEFAULT_VARIATION_CONCURRENCY,
+    onResult?: (result: ModelComparisonResult<ImageTurnResult>) => void
+  ): Promise<ModelComparisonResult<ImageTurnResult>[]> {
+    const seed = options.seed ?? this.generateSeed();
+    this.logger.debug(`Comparing ${models.length} image models (seed: ${seed}, concurrency: ${concurrency})`);
+
+    return runModelComparison(
+      models,
+      concurrency,
+      (model) => this.generateImage(prompt, {
+        ...options,
+        model,
+        seed,
+        retry: { onRetry: options.retry?.onRetry },
+      }),
+      options.signal,
+      onResult
+    );
+  }
+
   /**
    * Continue an existing conversation with re-hydration support
+   * @param mask - Inpainting edit of an earlier image instead of refining the latest one
+   * @param targetImages - Refine only these of the latest images (default: all of them)
    */
   async continueConversation(
     conversationId: string,
@@ -130,11 +283,15 @@ export class ImageOrchestrator {
     history?: RehydrationTurn[],
     model?: string,
     aspectRatio?: string,
-    referenceSvgText?: string
+    referenceSvgText?: string,
+    signal?: AbortSignal,
+    mask?: ImageInpaintMask,
+    retry?: RetryOptions,
+    targetImages?: string[]
   ): Promise<ImageTurnResult> {
-    let conversation = this.conversationManager.get(conversationId);
+    let conversation = this.conversationManager.get(conversationId) ?? await this.restoreFromStore(conversationId);
 
-    // Re-hydrate if conversation not found but history provided
+    // Re-hydrate from (lossy) webview history if the conversation was never stored
     if (!conversation && history && history.length > 0 && model && aspectRatio) {
       this.logger.info(`Re-hydrating conversation ${conversationId} from ${history.length} turns`);
       conversation = this.conversationManager.rehydrate(conversationId, model, aspectRatio, history);
@@ -145,20 +302,55 @@ export class ImageOrchestrator {
     }
 
     // Continue with existing conversation settings, reusing last seed
-    return this.generateImage(prompt, {
+    // An inpainting edit targets mask.sourceImage instead
+    const references = this.conversationManager.getContinuationReferences(conversation.id, mask ? undefined : targetImages);
+    return this.generateImage(references.note ? `${prompt}\n\n${references.note}` : prompt, {
       model: conversation.model,
       aspectRatio: conversation.aspectRatio,
       seed: conversation.lastSeed,
-      referenceImages: conversation.lastImages,
+      referenceImages: references.images,
       referenceSvgText,
+      mask,
+      signal,
+      retry,
     }, conversationId);
   }
 
+  /**
+   * Start a new conversation from an earlier turn - the source stays as it is
+   * @param history - The source's full webview history (re-hydration, and the images
+   *   to refine when the stored messages no longer carry them)
+   */
+  async branchConversation(
+    conversationId: string,
+    turnNumber: number,
+    history?: RehydrationTurn[],
+    model?: string,
+    aspectRatio?: string
+  ): Promise<ImageConversationState> {
+    let source = this.conversationManager.get(conversationId) ?? await this.restoreFromStore(conversationId);
+
+    if (!source && history && history.length > 0 && model && aspectRatio) {
+      this.logger.info(`Re-hydrating conversation ${conversationId} from ${history.length} turns to branch it`);
+      source = this.conversationManager.rehydrate(conversationId, model, aspectRatio, history);
+    }
+
+    if (!source) {
+      throw new Error(`Conversation ${conversationId} not found and no history provided for re-hydration.`);
+    }
+
+    const turnImages = history?.slice(0, turnNumber).reverse().find(turn => turn.images.length > 0)?.images;
+    const branch = this.conversationManager.branch(source.id, turnNumber, turnImages);
+    void this.store?.save('image', branch);
+    return branch;
+  }
+
   /**
    * Clear a conversation
    */
   clearConversation(conversationId: string): void {
     this.conversationManager.clear(conversationId);
+    void this.store?.delete('image', conversationId);
   }
 
   /**
@@ -175,10 +367,29 @@ export class ImageOrchestrator {
     return this.conversationManager.get(conversationId);
   }
 
+  /**
+   * Load a conversation saved before a restart - keeps thought signatures and reasoning_details
+   */
+  private async restoreFromStore(conversationId: string): Promise<ImageConversationState | undefined> {
+    const stored = await this.store?.load<ImageConversationState>('image', conversationId);
+    return stored ? this.conversationManager.restore(stored) : undefined;
+  }
+
+  /**
+   * Drop the unanswered user message (or the whole conversation if this turn created it)
+   */
+  private rollbackTurn(conversationId: string, isNewConversation: boolean): void {
+    if (isNewConversation) {
+      this.conversationManager.clear(conversationId);
+    } else {
+      this.conversationManager.removeLastUserMessage(conversationId);
+    }
+  }
+
   /**
    * Generate a random seed (0 to 2^31-1)
    */
   private generateSeed(): number {
-    return Math.floor(Math.random() * 2147483647);
+    return Math.floor(Math.random() * MAX_SEED);
   }
 }
@@ -0,0 +1,60 @@
+/**
+ * ModelComparison - Runs the same generation against several models
+ *
+ * Shared by the image and SVG orchestrators. Models run with capped concurrency,
+ * each in its own conversation; every outcome is reported as it lands with its
+ * wall-clock latency, and one failing model does not stop the others.
+ */
+
+/**
+ * Outcome for one compared model - a failed model carries the error instead of a turn
+ */
+export interface ModelComparisonResult<T> {
+  index: number;       // position in the requested model list
+  model: string;
+  latencyMs: number;
+  turn?: T;
+  error?: Error;
+}
+
+/**
+ * @param onResult - Called as each model finishes, in completion order
+ * @returns Results in model order; throws only when cancelled
+ */
+export async function runModelComparison<T>(
+  models: string[],
+  concurrency: number,
+  generate: (model: string) => Promise<T>,
+  signal?: AbortSignal,
+  onResult?: (result: ModelComparisonResult<T>) => void
+): Promise<ModelComparisonResult<T>[]> {
+  const results: ModelComparisonResult<T>[] = [];
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < models.length) {
+      const index = nextIndex++;
+      const model = models[index];
+      const startedAt = Date.now();
+      let result: ModelComparisonResult<T>;
+      try {
+        const turn = await generate(model);
+        result = { index, model, latencyMs: Date.now() - startedAt, turn };
+      } catch (error) {
+        signal?.throwIfAborted();
+        result = {
+          index,
+          model,
+          latencyMs: Date.now() - startedAt,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+      results[index] = result;
+      onResult?.(result);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, models.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
@@ -0,0 +1,219 @@
+/**
+ * SVGArchitectConversationManager - Manages SVG Architect session state
+ *
+ * Responsibilities:
+ * - Store the original input, blueprint, and every render/validate iteration
+ * - Track the pipeline status and accumulated token usage
+ * - Select which images stay in the validation context (original + latest render only)
+ *
+ * Unlike the chat-style managers, agent calls are stateless: each step builds its
+ * own messages from this state rather than replaying a transcript.
+ */
+import { LoggingService } from '@logging';
+import { AspectRatio, SVGArchitectStatus, TokenUsage } from '@messages';
+
+/** Iteration cap bounds - every iteration is a paid render and validation call */
+export const SVG_ARCHITECT_MIN_ITERATIONS = 1;
+export const SVG_ARCHITECT_MAX_ITERATIONS = 10;
+
+/**
+ * The user's original request
+ */
+export interface SVGArchitectInput {
+  prompt: string;
+  referenceImage?: string;
+  referenceSvgText?: string;
+}
+
+/**
+ * One render/validate pass
+ */
+export interface SVGArchitectIteration {
+  iterationNumber: number;
+  svgCode: string;
+  renderedPng?: string;
+  renderError?: string;
+  confidenceScore?: number;
+  corrections?: string;
+}
+
+/**
+ * State for a single SVG Architect session
+ */
+export interface SVGArchitectConversationState {
+  id: string;
+  input: SVGArchitectInput;
+  blueprintModel: string;
+  renderModel: string;
+  aspectRatio: AspectRatio;
+  maxIterations: number;
+  status: SVGArchitectStatus;
+  description: string;
+  blueprint: string;
+  iterations: SVGArchitectIteration[];
+  usage: TokenUsage;
+}
+
+export interface SVGArchitectSessionOptions {
+  blueprintModel: string;
+  renderModel: string;
+  aspectRatio: AspectRatio;
+  maxIterations: number;
+}
+
+export class SVGArchitectConversationManager {
+  private readonly conversations = new Map<string, SVGArchitectConversationState>();
+
+  constructor(private readonly logger: LoggingService) {}
+
+  /**
+   * Create a new architect session
+   */
+  create(input: SVGArchitectInput, options: SVGArchitectSessionOptions): SVGArchitectConversationState {
+    const id = `svgarch-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+    const conversation: SVGArchitectConversationState = {
+      id,
+      input,
+      blueprintModel: options.blueprintModel,
+      renderModel: options.renderModel,
+      aspectRatio: options.aspectRatio,
+      maxIterations: Math.min(
+        SVG_ARCHITECT_MAX_ITERATIONS,
+        Math.max(SVG_ARCHITECT_MIN_ITERATIONS, Math.floor(options.maxIterations) || SVG_ARCHITECT_MIN_ITERATIONS)
+      ),
+      status: 'analyzing',
+      description: '',
+      blueprint: '',
+      iterations: [],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 },
+    };
+
+    this.conversations.set(id, conversation);
+    this.logger.debug(`Created SVG Architect session: ${id} (max ${conversation.maxIterations} iterations)`);
+    return conversation;
+  }
+
+  /**
+   * Get an existing session
+   */
+  get(id: string): SVGArchitectConversationState | undefined {
+    return this.conversations.get(id);
+  }
+
+  /**
+   * Get a session or throw if it no longer exists
+   */
+  require(id: string): SVGArchitectConversationState {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      throw new Error(`SVG Architect session ${id} not found. Please start a new generation.`);
+    }
+    return conversation;
+  }
+
+  setStatus(id: string, status: SVGArchitectStatus): void {
+    this.require(id).status = status;
+  }
+
+  /**
+   * Store the Blueprint Agent's analysis
+   */
+  setBlueprint(id: string, description: string, blueprint: string): void {
+    const conversation = this.require(id);
+    conversation.description = description;
+    conversation.blueprint = blueprint;
+  }
+
+  /**
+   * Record a newly rendered SVG as the next iteration
+   */
+  addIteration(id: string, svgCode: string): SVGArchitectIteration {
+    const conversation = this.require(id);
+    const iteration: SVGArchitectIteration = {
+      iterationNumber: conversation.iterations.length + 1,
+      svgCode,
+    };
+    conversation.iterations.push(iteration);
+    return iteration;
+  }
+
+  getLatestIteration(id: string): SVGArchitectIteration | undefined {
+    const { iterations } = this.require(id);
+    return iterations[iterations.length - 1];
+  }
+
+  /**
+   * Attach the webview's rasterized PNG (or render failure) to the latest iteration.
+   * Earlier renders are dropped so only the first input and latest PNG stay in context.
+   */
+  attachRender(id: string, renderedPng?: string, renderError?: string): SVGArchitectIteration {
+    const conversation = this.require(id);
+    const latest = this.getLatestIteration(id);
+    if (!latest) {
+      throw new Error(`SVG Architect session ${id} has no render awaiting a PNG`);
+    }
+
+    for (const iteration of conversation.iterations) {
+      iteration.renderedPng = undefined;
+    }
+    latest.renderedPng = renderedPng;
+    latest.renderError = renderError;
+    return latest;
+  }
+
+  /**
+   * Store the Validation Agent's verdict on the latest iteration
+   */
+  recordValidation(id: string, confidenceScore: number, corrections: string): void {
+    const latest = this.getLatestIteration(id);
+    if (!latest) {
+      throw new Error(`SVG Architect session ${id} has no iteration to validate`);
+    }
+    latest.confidenceScore = confidenceScore;
+    latest.corrections = corrections;
+  }
+
+  /**
+   * Pick the highest-confidence iteration (latest wins ties)
+   */
+  getBestIteration(id: string): SVGArchitectIteration | undefined {
+    const { iterations } = this.require(id);
+    return iterations.reduce<SVGArchitectIteration | undefined>((best, iteration) => {
+      if (!best || (iteration.confidenceScore ?? 0) >= (best.confidenceScore ?? 0)) {
+        return iteration;
+      }
+      return best;
+    }, undefined);
+  }
+
+  /**
+   * Accumulate usage from a single agent call
+   */
+  addUsage(id: string, usage: TokenUsage | undefined): void {
+    if (!usage) {
+      return;
+    }
+    const totals = this.require(id).usage;
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+    totals.costUsd = (totals.costUsd ?? 0) + (usage.costUsd ?? 0);
+  }
+
+  /**
+   * Clear a session
+   */
+  clear(conversationId: string): void {
+    this.conversations.delete(conversationId);
+    this.logger.debug(`Cleared SVG Architect session: ${conversationId}`);
+  }
+
+  /**
+   * Clear all sessions
+   */
+  clearAll(): void {
+    this.conversations.clear();
+    this.logger.debug('Cleared all SVG Architect sessions');
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * SVGArchitectOrchestrator - Multi-agent SVG generation pipeline
+ *
+ * Pattern: Dependency Injection - client is injected, orchestrator is agnostic
+ * Pipeline:
+ * 1. Blueprint Agent analyzes the input (prompt, reference image, or SVG) → description + blueprint
+ * 2. Render model converts the blueprint into SVG code
+ * 3. Webview rasterizes the SVG to PNG (extension host has no canvas)
+ * 4. Validation Agent compares the PNG to the original → confidence score + corrections
+ * 5. Steps 2-4 repeat until confident or the iteration cap is reached
+ *
+ * The pipeline pauses after every render; the handler resumes it with
+ * submitRender() once the webview posts the PNG back. The signal passed to
+ * start() / submitRender() aborts the agent calls of that step.
+ */
+import { TextClient, TextCompletionResult, TextMessage, TextMessageContent } from '../clients/TextClient';
+import {
+  SVGArchitectConversationManager,
+  SVGArchitectConversationState,
+  SVGArchitectInput,
+  SVGArchitectSessionOptions,
+} from './SVGArchitectConversationManager';
+import { extractSVGCode } from './svgExtraction';
+import { LoggingService } from '@logging';
+import { PromptLoader } from '@resources';
+import {
+  ASPECT_RATIO_DIMENSIONS,
+  SVGArchitectProgressPayload,
+  SVGArchitectResultPayload,
+  TokenUsage,
+} from '@messages';
+import { InvalidApiKeyError } from '../clients/ProviderErrors';
+
+const PROMPT_CATEGORY = 'svg-architect';
+
+/** Validation confidence at which the pipeline stops iterating */
+export const SVG_ARCHITECT_ACCEPT_THRESHOLD = 85;
+
+export type SVGArchitectProgressCallback = (progress: SVGArchitectProgressPayload) => void;
+
+export interface SVGArchitectStepResult {
+  conversationId: string;
+  /** Usage from the agent calls made during this step */
+  usage?: TokenUsage;
+  /** Present once the pipeline has finished; otherwise a PNG is awaited */
+  result?: SVGArchitectResultPayload;
+}
+
+/** An error thrown by a step after some of its agent calls had already spent tokens */
+type FailedStepError = Error & { stepUsage?: TokenUsage };
+
+/**
+ * Usage a failed start() / submitRender() step had spent before it threw
+ */
+export function getFailedStepUsage(error: unknown): TokenUsage | undefined {
+  return error instanceof Error ? (error as FailedStepError).stepUsage : undefined;
+}
+
+interface ValidationVerdict {
+  confidenceScore: number;
+  corrections: string;
+}
+
+export class SVGArchitectOrchestrator {
+  private readonly conversationManager: SVGArchitectConversationManager;
+  private client: TextClient | null = null;
+
+  constructor(
+    private readonly logger: LoggingService,
+    private readonly promptLoader: PromptLoader
+  ) {
+    this.conversationManager = new SVGArchitectConversationManager(logger);
+  }
+
+  /**
+   * Set the text client (dependency injection)
+   */
+  setClient(client: TextClient): void {
+    this.client = client;
+    this.logger.debug('SVGArchitectOrchestrator client configured');
+  }
+
+  /**
+   * Check if a client is configured
+   */
+  hasClient(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Start a new session: analyze the input, then render the first SVG.
+   * Returns with the session awaiting a PNG of iteration 1.
+   */
+  async start(
+    input: SVGArchitectInput,
+    options: SVGArchitectSessionOptions,
+    onProgress: SVGArchitectProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SVGArchitectStepResult> {
+    await this.ensureConfigured();
+
+    const conversation = this.conversationManager.create(input, options);
+    const stepUsage = this.createUsage();
+
+    return this.trackStep(stepUsage, async () => {
+      this.emit(conversation, onProgress, 'Blueprint Agent is analyzing the input...');
+      const analysis = await this.complete(conversation, conversation.blueprintModel, [
+        { role: 'system', content: await this.buildSystemPrompt(conversation, 'blueprint-analysis') },
+        { role: 'user', content: this.buildAnalysisContent(conversation) },
+      ], stepUsage, signal);
+
+      const { description, blueprint } = this.parseAnalysis(analysis.content);
+      this.conversationManager.setBlueprint(conversation.id, description, blueprint);
+
+      await this.render(conversation, onProgress, stepUsage, signal);
+
+      return { conversationId: conversation.id, usage: stepUsage };
+    });
+  }
+
+  /**
+   * Resume a session with the webview's PNG of the latest render.
+   * Validates it, then either finishes or renders the next iteration.
+   */
+  async submitRender(
+    conversationId: string,
+    iterationNumber: number,
+    pngData: string | undefined,
+    renderError: string | undefined,
+    onProgress: SVGArchitectProgressCallback,
+    signal?: AbortSignal
+  ): Promise<SVGArchitectStepResult> {
+    await this.ensureConfigured();
+
+    const conversation = this.conversationManager.require(conversationId);
+    const latest = this.conversationManager.getLatestIteration(conversationId);
+    if (conversation.status !== 'awaiting-png' || latest?.iterationNumber !== iterationNumber) {
+      throw new Error(`SVG Architect session ${conversationId} is not awaiting a render for iteration ${iterationNumber}`);
+    }
+
+    this.conversationManager.attachRender(conversationId, pngData, renderError);
+    const stepUsage = this.createUsage();
+
+    return this.trackStep(stepUsage, async () => {
+      const verdict = await this.validate(conversation, onProgress, stepUsage, signal);
+      this.conversationManager.recordValidation(conversationId, verdict.confidenceScore, verdict.corrections);
+
+      const accepted = verdict.confidenceScore >= SVG_ARCHITECT_ACCEPT_THRESHOLD;
+      this.emit(
+        conversation,
+        onProgress,
+        `Iteration ${iterationNumber} scored ${verdict.confidenceScore}/100`,
+        { confidenceScore: verdict.confidenceScore, corrections: verdict.corrections }
+      );
+
+      if (accepted || conversation.iterations.length >= conversation.maxIterations) {
+        return {
+          conversationId,
+          usage: stepUsage,
+          result: this.finish(conversation, accepted, onProgress),
+        };
+      }
+
+      await this.render(conversation, onProgress, stepUsage, signal);
+      return { conversationId, usage: stepUsage };
+    });
+  }
+
+  /**
+   * Clear a session
+   */
+  clearConversation(conversationId: string): void {
+    this.conversationManager.clear(conversationId);
+  }
+
+  /**
+   * Clear all sessions
+   */
+  clearAll(): void {
+    this.conversationManager.clearAll();
+  }
+
+  /**
+   * Get session info
+   */
+  getConversation(conversationId: string): SVGArchitectConversationState | undefined {
+    return this.conversationManager.get(conversationId);
+  }
+
+  /**
+   * Render model: blueprint (plus previous SVG and corrections) → SVG code
+   */
+  private async render(
+    conversation: SVGArchitectConversationState,
+    onProgress: SVGArchitectProgressCallback,
+    stepUsage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const previous = conversation.iterations[conversation.iterations.length - 1];
+    const iterationNumber = conversation.iterations.length + 1;
+
+    this.conversationManager.setStatus(conversation.id, 'rendering');
+    this.emit(conversation, onProgress, `Rendering SVG (iteration ${iterationNumber})...`, {
+      iteration: iterationNumber,
+    });
+
+    let text = `## Description\n${conversation.description}\n\n## Blueprint\n${conversation.blueprint}`;
+    if (conversation.input.prompt) {
+      text += `\n\n## User Instructions\n${conversation.input.prompt}`;
+    }
+    if (conversation.input.referenceSvgText) {
+      text += `\n\n## Original SVG\n${conversation.input.referenceSvgText}`;
+    }
+    if (previous) {
+      text += `\n\n## Previous SVG (iteration ${previous.iterationNumber})\n${previous.svgCode}`;
+      text += `\n\n## Corrections From Validation\n${previous.corrections ?? 'None provided.'}`;
+      text += '\n\nApply the corrections and output the complete updated SVG.';
+    }
+
+    const completion = await this.complete(conversation, conversation.renderModel, [
+      { role: 'system', content: await this.buildSystemPrompt(conversation, 'blueprint-render') },
+      { role: 'user', content: this.withImages(text, [conversation.input.referenceImage]) },
+    ], stepUsage, signal);
+
+    const svgCode = extractSVGCode(completion.content);
+    if (!svgCode) {
+      this.logger.warn('SVG Architect render returned no SVG', {
+        contentLength: completion.content.length,
+        contentPreview: completion.content.substring(0, 200) + (completion.content.length > 200 ? '...' : '')
+      });
+      throw new Error('No valid SVG code found in render response. The AI may have returned an explanation instead of SVG code.');
+    }
+
+    const iteration = this.conversationManager.addIteration(conversation.id, svgCode);
+    this.conversationManager.setStatus(conversation.id, 'awaiting-png');
+    this.emit(conversation, onProgress, `Rasterizing iteration ${iteration.iterationNumber}...`, {
+      iteration: iteration.iterationNumber,
+      svgCode,
+    });
+  }
+
+  /**
+   * Validation Agent: compare the original against the latest rendered PNG
+   */
+  private async validate(
+    conversation: SVGArchitectConversationState,
+    onProgress: SVGArchitectProgressCallback,
+    stepUsage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<ValidationVerdict> {
+    const latest = conversation.iterations[conversation.iterations.length - 1];
+
+    // A render that the browser can't rasterize can't be compared - send it straight back
+    if (latest.renderError || !latest.renderedPng) {
+      this.logger.warn(`SVG Architect iteration ${latest.iterationNumber} failed to render: ${latest.renderError ?? 'no PNG'}`);
+      return {
+        confidenceScore: 0,
+        corrections: `The SVG failed to render in the browser (${latest.renderError ?? 'no PNG produced'}). Fix structural errors and output valid, well-formed SVG.`,
+      };
+    }
+
+    this.conversationManager.setStatus(conversation.id, 'validating');
+    this.emit(conversation, onProgress, `Validating iteration ${latest.iterationNumber}...`);
+
+    const { referenceImage, referenceSvgText, prompt } = conversation.input;
+    let text = referenceImage
+      ? 'The first image is the original input. The second image is a PNG rendering of the generated SVG.'
+      : 'There is no original image. The attached image is a PNG rendering of the generated SVG; judge it against the description and instructions.';
+    if (prompt) {
+      text += `\n\n## User Instructions\n${prompt}`;
+    }
+    if (referenceSvgText) {
+      text += `\n\n## Original SVG\n${referenceSvgText}`;
+    }
+    text += `\n\n## Description\n${conversation.description}\n\n## Current Blueprint\n${conversation.blueprint}`;
+    text += `\n\n## Generated SVG (iteration ${latest.iterationNumber})\n${latest.svgCode}`;
+
+    const completion = await this.complete(conversation, conversation.blueprintModel, [
+      { role: 'system', content: await this.buildSystemPrompt(conversation, 'blueprint-validation') },
+      { role: 'user', content: this.withImages(text, [referenceImage, latest.renderedPng]) },
+    ], stepUsage, signal);
+
+    return this.parseValidation(completion.content);
+  }
+
+  /**
+   * Mark the session complete and build the result from the best iteration
+   */
+  private finish(
+    conversation: SVGArchitectConversationState,
+    accepted: boolean,
+    onProgress: SVGArchitectProgressCallback
+  ): SVGArchitectResultPayload {
+    const best = this.conversationManager.getBestIteration(conversation.id)!;
+    this.conversationManager.setStatus(conversation.id, 'complete');
+    this.emit(
+      conversation,
+      onProgress,
+      accepted
+        ? `Accepted iteration ${best.iterationNumber}`
+        : `Reached ${conversation.maxIterations} iterations - using iteration ${best.iterationNumber}`,
+      { iteration: best.iterationNumber, confidenceScore: best.confidenceScore }
+    );
+
+    this.logger.info(`SVG Architect complete: ${conversation.id} (iteration ${best.iterationNumber}, confidence ${best.confidenceScore ?? 0})`);
+
+    return {
+      conversationId: conversation.id,
+      svgCode: best.svgCode,
+      iteration: best.iterationNumber,
+      iterationCount: conversation.iterations.length,
+      confidenceScore: best.confidenceScore ?? 0,
+      accepted,
+      description: conversation.description,
+      blueprint: conversation.blueprint,
+      usage: { ...conversation.usage },
+    };
+  }
+
+  private async ensureConfigured(): Promise<void> {
+    if (!this.client) {
+      throw new Error('No text client configured. Call setClient() first.');
+    }
+
+    if (!(await this.client.isConfigured())) {
+      throw new InvalidApiKeyError('API key not configured. Please add a provider API key in Settings.');
+    }
+  }
+
+  /**
+   * Run a step's agent calls. If one throws, the usage the earlier calls spent
+   * rides on the error so the handler can still account for it.
+   */
+  private async trackStep(
+    stepUsage: TokenUsage,
+    step: () => Promise<SVGArchitectStepResult>
+  ): Promise<SVGArchitectStepResult> {
+    try {
+      return await step();
+    } catch (error) {
+      if (error instanceof Error && (stepUsage.totalTokens > 0 || (stepUsage.costUsd ?? 0) > 0)) {
+        (error as FailedStepError).stepUsage = { ...stepUsage };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call the client and fold its usage into the step and session totals
+   */
+  private async complete(
+    conversation: SVGArchitectConversationState,
+    model: string,
+    messages: TextMessage[],
+    stepUsage: TokenUsage,
+    signal?: AbortSignal
+  ): Promise<TextCompletionResult> {
+    const result = await this.client!.createCompletion(messages, { model, signal });
+
+    if (result.usage) {
+      const usage: TokenUsage = {
+        promptTokens: result.usage.promptTokens,
+        completionTokens: result.usage.completionTokens,
+        totalTokens: result.usage.totalTokens,
+        costUsd: result.usage.costUsd,
+      };
+      this.conversationManager.addUsage(conversation.id, usage);
+      stepUsage.promptTokens += usage.promptTokens;
+      stepUsage.completionTokens += usage.completionTokens;
+      stepUsage.totalTokens += usage.totalTokens;
+      stepUsage.costUsd = (stepUsage.costUsd ?? 0) + (usage.costUsd ?? 0);
+    }
+
+    return result;
+  }
+
+  private createUsage(): TokenUsage {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+  }
+
+  private emit(
+    conversation: SVGArchitectConversationState,
+    onProgress: SVGArchitectProgressCallback,
+    message: string,
+    extra: Partial<SVGArchitectProgressPayload> = {}
+  ): void {
+    onProgress({
+      conversationId: conversation.id,
+      status: conversation.status,
+      iteration: conversation.iterations.length,
+      maxIterations: conversation.maxIterations,
+      message,
+      description: conversation.description || undefined,
+      blueprint: conversation.blueprint || undefined,
+      ...extra,
+    });
+  }
+
+  private async buildSystemPrompt(
+    conversation: SVGArchitectConversationState,
+    name: string
+  ): Promise<string> {
+    const prompt = await this.promptLoader.load(PROMPT_CATEGORY, name);
+    const dimensions = ASPECT_RATIO_DIMENSIONS[conversation.aspectRatio];
+    return `${prompt}\n\nTarget canvas: viewBox="0 0 ${dimensions.width} ${dimensions.height}" (${conversation.aspectRatio} aspect ratio).`;
+  }
+
+  private buildAnalysisContent(conversation: SVGArchitectConversationState): string | TextMessageContent[] {
+    const { prompt, referenceImage, referenceSvgText } = conversation.input;
+
+    let text = referenceImage
+      ? 'Analyze the attached image and produce a blueprint for recreating it as SVG.'
+      : 'Produce a blueprint for an SVG that fulfils the instructions below.';
+    if (prompt) {
+      text += `\n\n## User Instructions\n${prompt}`;
+    }
+    if (referenceSvgText) {
+      text += `\n\n## Original SVG\n${referenceSvgText}`;
+    }
+
+    return this.withImages(text, [referenceImage]);
+  }
+
+  /**
+   * Build multimodal content, skipping missing images
+   */
+  private withImages(text: string, images: Array<string | undefined>): string | TextMessageContent[] {
+    const urls = images.filter((url): url is string => !!url);
+    if (urls.length === 0) {
+      return text;
+    }
+    return [
+      { type: 'text', text },
+      ...urls.map((url): TextMessageContent => ({ type: 'image_url', image_url: { url } })),
+    ];
+  }
+
+  /**
+   * Split a markdown response into the named "### Heading" sections (keys lowercased).
+   * Other headings stay inside their section so nested blueprint structure survives.
+   */
+  private parseSections(content: string, names: string[]): Map<string, string> {
+    const sections = new Map<string, string>();
+    const headings = [...content.matchAll(/^#{1,4}\s+(.+?)\s*:?\s*$/gm)]
+      .filter((match) => names.includes(match[1].toLowerCase()));
+
+    headings.forEach((match, index) => {
+      const start = match.index! + match[0].length;
+      const end = index + 1 < headings.length ? headings[index + 1].index! : content.length;
+      sections.set(match[1].toLowerCase(), content.slice(start, end).trim());
+    });
+
+    return sections;
+  }
+
+  private parseAnalysis(content: string): { description: string; blueprint: string } {
+    const sections = this.parseSections(content, ['description', 'blueprint', 'confidence']);
+    const blueprint = sections.get('blueprint');
+
+    if (!blueprint) {
+      this.logger.warn('SVG Architect analysis had no Blueprint section - using full response');
+    }
+
+    return {
+      description: sections.get('description') ?? '',
+      blueprint: blueprint || content.trim(),
+    };
+  }
+
+  private parseValidation(content: string): ValidationVerdict {
+    const sections = this.parseSections(content, [
+      'comparison analysis',
+      'issues found',
+      'blueprint corrections',
+      'confidence score',
+      'recommendation',
+    ]);
+
+    const scoreSection = sections.get('confidence score');
+    const scoreMatch = scoreSection
+      ? scoreSection.match(/\d{1,3}/)
+      : content.match(/confidence[^\d]{0,20}(\d{1,3})/i)?.slice(1);
+    const confidenceScore = scoreMatch ? Math.min(100, Math.max(0, parseInt(scoreMatch[0], 10))) : 0;
+
+    const corrections = [sections.get('issues found'), sections.get('blueprint corrections')]
+      .filter((section): section is string => !!section)
+      .join('\n\n');
+
+    return {
+      confidenceScore,
+      corrections: corrections || content.trim(),
+    };
+  }
+}
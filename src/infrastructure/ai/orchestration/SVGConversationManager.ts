@@ -4,11 +4,13 @@
  * Responsibilities:
  * - Store and retrieve conversation state
  * - Build messages for text completion API calls
- * - Manage SVG system prompt with aspect ratio configuration
+ * - Manage SVG system prompt with aspect ratio configuration and the brand style guide
+ * - Branch a new conversation from an earlier turn
  */
-import { TextMessage } from '../clients/TextClient';
+import { TextMessage, TextMessageContent } from '../clients/TextClient';
 import { LoggingService } from '@logging';
-import { AspectRatio, ASPECT_RATIO_DIMENSIONS } from '@messages';
+import { AspectRatio, ASPECT_RATIO_DIMENSIONS, StyleProfile } from '@messages';
+import { describeStyleProfile, styleReferenceContent } from './StyleGuide';
 
 /**
  * State for a single SVG generation conversation
@@ -51,13 +53,17 @@ export class SVGConversationManager {
 
   /**
    * Create a new conversation with system prompt configured for aspect ratio
+   * @param style - Brand style guide added to the system prompt (its reference
+   *   images go with the first user message)
    */
-  create(model: string, aspectRatio: AspectRatio): SVGConversationState {
-    const id = `svg-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  create(model: string, aspectRatio: AspectRatio, style?: StyleProfile): SVGConversationState {
+    const id = this.createId();
 
     // Get dimensions for the aspect ratio
     const dimensions = ASPECT_RATIO_DIMENSIONS[aspectRatio];
-    const systemPrompt = `${SVG_SYSTEM_PROMPT}\n\nFor this conversation, use viewBox="0 0 ${dimensions.width} ${dimensions.height}" for the ${aspectRatio} aspect ratio.`;
+    const styleGuide = style ? describeStyleProfile(style) : '';
+    const systemPrompt = `${SVG_SYSTEM_PROMPT}\n\nFor this conversation, use viewBox="0 0 ${dimensions.width} ${dimensions.height}" for the ${aspectRatio} aspect ratio.`
+      + (styleGuide ? `\n\n${styleGuide}` : '');
 
     const conversation: SVGConversationState = {
       id,
@@ -90,7 +96,8 @@ export class SVGConversationManager {
   getOrCreate(
     id: string | undefined,
     model: string,
-    aspectRatio: AspectRatio
+    aspectRatio: AspectRatio,
+    style?: StyleProfile
   ): SVGConversationState {
     if (id) {
       const existing = this.conversations.get(id);
@@ -98,18 +105,20 @@ export class SVGConversationManager {
         return existing;
       }
     }
-    return this.create(model, aspectRatio);
+    return this.create(model, aspectRatio, style);
   }
 
   /**
    * Add a user message to a conversation
    * Supports both simple text and multimodal messages with reference images
+   * @param style - Its labeled reference images are attached to the first user message
    */
   addUserMessage(
     conversationId: string,
     prompt: string,
     referenceImage?: string,
-    referenceSvgText?: string
+    referenceSvgText?: string,
+    style?: StyleProfile
   ): void {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
@@ -117,7 +126,7 @@ export class SVGConversationManager {
     }
 
     // Build message content
-    let content: string | Array<{ type: 'text' | 'image_url'; text?: string; image_url?: { url: string } }>;
+    let content: string | TextMessageContent[];
 
     // If an SVG text is provided, append it to the prompt as text.
     if (referenceSvgText) {
@@ -137,12 +146,36 @@ export class SVGConversationManager {
       content = prompt;
     }
 
+    const isFirstUserMessage = !conversation.messages.some((message) => message.role === 'user');
+    if (style?.referenceImages.length && isFirstUserMessage) {
+      content = [
+        ...(typeof content === 'string' ? [{ type: 'text' as const, text: content }] : content),
+        ...styleReferenceContent(style),
+      ];
+    }
+
     conversation.messages.push({
       role: 'user',
       content
     });
   }
 
+  /**
+   * Remove a trailing user message that never got a response (failed or cancelled turn)
+   * @returns true if a message was removed
+   */
+  removeLastUserMessage(conversationId: string): boolean {
+    const conversation = this.conversations.get(conversationId);
+    const last = conversation?.messages[conversation.messages.length - 1];
+    if (!conversation || last?.role !== 'user') {
+      return false;
+    }
+
+    conversation.messages.pop();
+    this.logger.debug(`Rolled back pending user message in SVG conversation ${conversationId}`);
+    return true;
+  }
+
   /**
    * Add an assistant response with the generated SVG code
    */
@@ -179,6 +212,43 @@ export class SVGConversationManager {
     this.logger.debug('Cleared all SVG conversations');
   }
 
+  /**
+   * Start a new conversation from the source's messages (system prompt included) up to
+   * and including turnNumber
+   */
+  branch(sourceId: string, turnNumber: number): SVGConversationState {
+    const source = this.conversations.get(sourceId);
+    if (!source) {
+      throw new Error(`Conversation ${sourceId} not found`);
+    }
+
+    let turns = 0;
+    const end = source.messages.findIndex(message => message.role === 'assistant' && ++turns === turnNumber);
+    if (end < 0) {
+      throw new Error(`SVG conversation ${sourceId} has no turn ${turnNumber}`);
+    }
+
+    const conversation: SVGConversationState = {
+      id: this.createId(),
+      messages: source.messages.slice(0, end + 1),
+      model: source.model,
+      aspectRatio: source.aspectRatio,
+      turnNumber,
+    };
+    this.conversations.set(conversation.id, conversation);
+    this.logger.debug(`Branched SVG conversation ${conversation.id} from ${sourceId} at turn ${turnNumber}`);
+    return conversation;
+  }
+
+  /**
+   * Restore a conversation saved by ConversationStore (exact provider messages)
+   */
+  restore(state: SVGConversationState): SVGConversationState {
+    this.conversations.set(state.id, state);
+    this.logger.info(`Restored SVG conversation ${state.id} from storage (${state.turnNumber} turns)`);
+    return state;
+  }
+
   /**
    * Re-hydrate a conversation from persisted history
    */
@@ -223,4 +293,8 @@ export class SVGConversationManager {
     this.logger.info(`Re-hydrated SVG conversation ${conversationId} with ${conversation.turnNumber} turns`);
     return conversation;
   }
+
+  private createId(): string {
+    return `svg-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  }
 }
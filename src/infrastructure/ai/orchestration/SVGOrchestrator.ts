@@ -4,22 +4,32 @@
  * Pattern: Dependency Injection - client is injected, orchestrator is agnostic
  * Responsibilities:
  * - Coordinates between SVGConversationManager and TextClient
- * - Handles conversation lifecycle
+ * - Handles conversation lifecycle (persisted through an optional ConversationStore)
+ * - Branches new conversations from earlier turns
  * - Extracts SVG code from AI responses
+ * - Streams partial responses to an optional chunk callback
+ * - Runs model comparisons (one new conversation per model)
+ * - Applies the active brand style profile to new conversations
  * - Provides clean interface for handlers
  *
- * Note: Uses OpenRouterDynamicTextClient which allows model to be set per request
+ * Note: The client must honour options.model so the model can be set per request
  */
-import { OpenRouterDynamicTextClient } from '../clients/OpenRouterDynamicTextClient';
+import { RetryOptions, TextClient, TextCompletionResult } from '../clients/TextClient';
 import { SVGConversationManager, SVGConversationState, SVGRehydrationTurn } from './SVGConversationManager';
+import { extractSVGCode } from './svgExtraction';
+import { ModelComparisonResult, runModelComparison } from './ModelComparison';
 import { LoggingService } from '@logging';
+import { ConversationStore, StyleProfileStore } from '@storage';
 import { AspectRatio, TokenUsage } from '@messages';
+import { InvalidApiKeyError } from '../clients/ProviderErrors';
 
 export interface SVGGenerationOptions {
   model: string;
   aspectRatio: AspectRatio;
   referenceImage?: string;  // base64 encoded image
   referenceSvgText?: string; // raw SVG content
+  signal?: AbortSignal;      // Cancels the request; the pending user message is rolled back
+  retry?: RetryOptions;      // Fallback model and retry notices
 }
 
 export interface SVGTurnResult {
@@ -27,11 +37,24 @@ export interface SVGTurnResult {
   svgCode: string;
   turnNumber: number;
   usage?: TokenUsage;
+  model: string;         // the conversation's model and aspect ratio (provenance)
+  aspectRatio: AspectRatio;
+}
+
+/**
+ * Partial response text for the turn being generated
+ */
+export interface SVGStreamChunk {
+  conversationId: string;
+  turnNumber: number;
+  content: string;  // raw model output so far (may include prose or code fences)
 }
 
 export class SVGOrchestrator {
   private readonly conversationManager: SVGConversationManager;
-  private client: OpenRouterDynamicTextClient | null = null;
+  private client: TextClient | null = null;
+  private store: ConversationStore | null = null;
+  private styleProfiles: StyleProfileStore | null = null;
 
   constructor(private readonly logger: LoggingService) {
     this.conversationManager = new SVGConversationManager(logger);
@@ -40,11 +63,27 @@ export class SVGOrchestrator {
   /**
    * Set the text client (dependency injection)
    */
-  setClient(client: OpenRouterDynamicTextClient): void {
+  setClient(client: TextClient): void {
     this.client = client;
     this.logger.debug('SVGOrchestrator client configured');
   }
 
+  /**
+   * Set the conversation store used to survive restarts (optional)
+   */
+  setStore(store: ConversationStore): void {
+    this.store = store;
+    this.logger.debug('SVGOrchestrator conversation store configured');
+  }
+
+  /**
+   * Set the store whose active brand style profile is applied to generations (optional)
+   */
+  setStyleProfiles(store: StyleProfileStore): void {
+    this.styleProfiles = store;
+    this.logger.debug('SVGOrchestrator style profiles configured');
+  }
+
   /**
    * Check if a client is configured
    */
@@ -65,38 +104,72 @@ export class SVGOrchestrator {
   async generateSVG(
     prompt: string,
     options: SVGGenerationOptions,
-    conversationId?: string
+    conversationId?: string,
+    onChunk?: (chunk: SVGStreamChunk) => void
   ): Promise<SVGTurnResult> {
     if (!this.client) {
       throw new Error('No text client configured. Call setClient() first.');
     }
 
     if (!(await this.client.isConfigured())) {
-      throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+      throw new InvalidApiKeyError('API key not configured. Please add a provider API key in Settings.');
     }
 
+    const style = await this.styleProfiles?.getActive();
+
     // Get or create conversation
     const conversation = this.conversationManager.getOrCreate(
       conversationId,
       options.model,
-      options.aspectRatio
+      options.aspectRatio,
+      style
     );
+    const isNewConversation = conversation.id !== conversationId;
 
     this.logger.debug(`Generating SVG for conversation ${conversation.id}`);
 
     // Add user message (handles multimodal if reference image provided)
-    this.conversationManager.addUserMessage(conversation.id, prompt, options.referenceImage, options.referenceSvgText);
+    this.conversationManager.addUserMessage(
+      conversation.id,
+      prompt,
+      options.referenceImage,
+      options.referenceSvgText,
+      style
+    );
 
     // Call the text client with conversation messages, passing model directly to avoid race conditions
-    const result = await this.client.createCompletion(conversation.messages, {
-      model: options.model
-    });
+    // Stream when a chunk callback is provided - the final result is identical either way
+    // On failure or cancel, undo the user message so the thread stays consistent
+    const pendingTurn = conversation.turnNumber + 1;
+    let result: TextCompletionResult;
+    let svgCode: string;
+    try {
+      result = await this.client.createCompletion(conversation.messages, {
+        model: options.model,
+        signal: options.signal,
+        retry: options.retry,
+        onChunk: onChunk
+          ? (chunk) => onChunk({ conversationId: conversation.id, turnNumber: pendingTurn, content: chunk.content })
+          : undefined,
+      });
+      options.signal?.throwIfAborted();
 
-    // Extract SVG from the response (throws if no valid SVG found)
-    const svgCode = this.extractSVG(result.content);
+      // Extract SVG from the response (throws if no valid SVG found)
+      svgCode = this.extractSVG(result.content);
+    } catch (error) {
+      this.rollbackTurn(conversation.id, isNewConversation);
+      throw error;
+    }
+
+    // The fallback model answered - the thread continues on it and provenance names it
+    if (result.model && result.model !== conversation.model) {
+      this.logger.info(`Conversation ${conversation.id} switched from ${conversation.model} to fallback ${result.model}`);
+      conversation.model = result.model;
+    }
 
-    // Add assistant response
+    // Add assistant response and persist the conversation
     this.conversationManager.addAssistantResponse(conversation.id, svgCode);
+    void this.store?.save('svg', conversation);
 
     this.logger.info(`SVG generation complete (turn ${conversation.turnNumber})`);
 
@@ -113,9 +186,34 @@ export class SVGOrchestrator {
       svgCode,
       turnNumber: conversation.turnNumber,
       usage,
+      model: conversation.model,
+      aspectRatio: conversation.aspectRatio,
     };
   }
 
+  /**
+   * Send one prompt and its reference to several models, each in its own conversation
+   * so any result can be continued. Failed models are reported, not thrown.
+   * Retries never switch to the fallback model - each result must come from its own model.
+   * @param onResult - Called as each model finishes, in completion order
+   */
+  async compareModels(
+    prompt: string,
+    options: Omit<SVGGenerationOptions, 'model'>,
+    models: string[],
+    concurrency: number,
+    onResult?: (result: ModelComparisonResult<SVGTurnResult>) => void
+  ): Promise<ModelComparisonResult<SVGTurnResult>[]> {
+    this.logger.debug(`Comparing ${models.length} SVG models (concurrency: ${concurrency})`);
+    return runModelComparison(
+      models,
+      concurrency,
+      (model) => this.generateSVG(prompt, { ...options, model, retry: { onRetry: options.retry?.onRetry } }),
+      options.signal,
+      onResult
+    );
+  }
+
   /**
    * Continue an existing conversation
    */
@@ -125,10 +223,14 @@ export class SVGOrchestrator {
     history?: SVGRehydrationTurn[],
     model?: string,
     aspectRatio?: AspectRatio,
-    referenceSvgText?: string
+    referenceSvgText?: string,
+    onChunk?: (chunk: SVGStreamChunk) => void,
+    signal?: AbortSignal,
+    retry?: RetryOptions
   ): Promise<SVGTurnResult> {
-    let conversation = this.conversationManager.get(conversationId);
+    let conversation = this.conversationManager.get(conversationId) ?? await this.restoreFromStore(conversationId);
 
+    // Fall back to webview history if the conversation was never stored
     if (!conversation && history?.length && model && aspectRatio) {
       this.logger.info(`Re-hydrating SVG conversation ${conversationId} from history (${history.length} turns)`);
       conversation = this.conversationManager.rehydrate(conversationId, model, aspectRatio, history);
@@ -143,7 +245,35 @@ export class SVGOrchestrator {
       model: conversation.model,
       aspectRatio: conversation.aspectRatio,
       referenceSvgText,
-    }, conversationId);
+      signal,
+      retry,
+    }, conversationId, onChunk);
+  }
+
+  /**
+   * Start a new conversation from an earlier turn - the source stays as it is
+   */
+  async branchSVG(
+    conversationId: string,
+    turnNumber: number,
+    history?: SVGRehydrationTurn[],
+    model?: string,
+    aspectRatio?: AspectRatio
+  ): Promise<SVGConversationState> {
+    let source = this.conversationManager.get(conversationId) ?? await this.restoreFromStore(conversationId);
+
+    if (!source && history?.length && model && aspectRatio) {
+      this.logger.info(`Re-hydrating SVG conversation ${conversationId} from history (${history.length} turns) to branch it`);
+      source = this.conversationManager.rehydrate(conversationId, model, aspectRatio, history);
+    }
+
+    if (!source) {
+      throw new Error(`Conversation ${conversationId} not found. Please start a new generation.`);
+    }
+
+    const branch = this.conversationManager.branch(source.id, turnNumber);
+    void this.store?.save('svg', branch);
+    return branch;
   }
 
   /**
@@ -151,6 +281,7 @@ export class SVGOrchestrator {
    */
   clearConversation(conversationId: string): void {
     this.conversationManager.clear(conversationId);
+    void this.store?.delete('svg', conversationId);
   }
 
   /**
@@ -167,25 +298,33 @@ export class SVGOrchestrator {
     return this.conversationManager.get(conversationId);
   }
 
+  /**
+   * Load a conversation saved before a restart
+   */
+  private async restoreFromStore(conversationId: string): Promise<SVGConversationState | undefined> {
+    const stored = await this.store?.load<SVGConversationState>('svg', conversationId);
+    return stored ? this.conversationManager.restore(stored) : undefined;
+  }
+
+  /**
+   * Drop the unanswered user message (or the whole conversation if this turn created it)
+   */
+  private rollbackTurn(conversationId: string, isNewConversation: boolean): void {
+    if (isNewConversation) {
+      this.conversationManager.clear(conversationId);
+    } else {
+      this.conversationManager.removeLastUserMessage(conversationId);
+    }
+  }
+
   /**
    * Extract SVG code from AI response
    * The response may include markdown code blocks, so we need to extract the SVG
    */
   private extractSVG(content: string): string {
-    // Try to extract from markdown code block first
-    const codeBlockMatch = content.match(/```(?:svg|xml)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      const extracted = codeBlockMatch[1].trim();
-      // Verify it contains SVG tags
-      if (/<svg[\s\S]*<\/svg>/i.test(extracted)) {
-        return extracted;
-      }
-    }
-
-    // Try to extract raw SVG
-    const svgMatch = content.match(/<svg[\s\S]*<\/svg>/i);
-    if (svgMatch) {
-      return svgMatch[0].trim();
+    const svgCode = extractSVGCode(content);
+    if (svgCode) {
+      return svgCode;
     }
 
     // No valid SVG found - log for debugging and throw error
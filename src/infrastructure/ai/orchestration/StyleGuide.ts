@@ -0,0 +1,42 @@
+/**
+ * StyleGuide - Turns a brand style profile into prompt text and labeled references
+ *
+ * Shared by the image manager (appended to every user message) and the SVG
+ * manager (appended to the system prompt). Reference images are labeled so the
+ * model copies their look rather than their subject.
+ */
+import { StyleProfile } from '@messages';
+
+export type StyleReferenceContent =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * @returns The guide as a prompt section, or '' when the profile has no guidance
+ */
+export function describeStyleProfile(profile: StyleProfile): string {
+  const lines = [
+    profile.palette.length > 0 ? `- Palette: ${profile.palette.join(', ')} (stay within these colors)` : '',
+    profile.descriptors ? `- Style: ${profile.descriptors}` : '',
+    profile.negativeGuidance ? `- Avoid: ${profile.negativeGuidance}` : '',
+    profile.referenceImages.length > 0 ? '- Match the attached style reference images' : '',
+  ].filter(Boolean);
+
+  return lines.length > 0
+    ? `Brand style guide "${profile.name}" - apply it to everything you create:\n${lines.join('\n')}`
+    : '';
+}
+
+/**
+ * One label plus image per reference, after the user's own content
+ */
+export function styleReferenceContent(profile: StyleProfile): StyleReferenceContent[] {
+  const count = profile.referenceImages.length;
+  return profile.referenceImages.flatMap((url, index): StyleReferenceContent[] => [
+    {
+      type: 'text',
+      text: `Style reference ${index + 1} of ${count} ("${profile.name}") - match its palette, line work and mood, not its subject:`,
+    },
+    { type: 'image_url', image_url: { url } },
+  ]);
+}
@@ -89,6 +89,23 @@ export class TextConversationManager {
     return true;
   }
 
+  /**
+   * Undo addUserMessage for a turn that never got a response (failed or cancelled)
+   * @returns true if a message was removed
+   */
+  removeLastUserMessage(conversationId: string): boolean {
+    const conversation = this.conversations.get(conversationId);
+    const last = conversation?.messages[conversation.messages.length - 1];
+    if (!conversation || last?.role !== 'user') {
+      return false;
+    }
+
+    conversation.messages.pop();
+    conversation.turnCount--;
+    conversation.lastUpdatedAt = Date.now();
+    return true;
+  }
+
   /**
    * Add an assistant response
    */
@@ -142,6 +159,14 @@ export class TextConversationManager {
     this.conversations.clear();
   }
 
+  /**
+   * Restore a conversation saved by ConversationStore
+   */
+  restore(conversation: TextConversation): TextConversation {
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
   /**
    * Rehydrate a conversation from history (after restart)
    */
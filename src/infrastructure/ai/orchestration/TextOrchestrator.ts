@@ -8,7 +8,8 @@
  * - Provides clean interface for consumers
  */
 import { TextClient, TextCompletionResult, TextCompletionOptions } from '../clients/TextClient';
-import { TextConversationManager, TextConversationManagerOptions } from './TextConversationManager';
+import { TextConversationManager, TextConversationManagerOptions, TextConversation } from './TextConversationManager';
+import { ConversationStore } from '@storage';
 
 export interface TextOrchestratorOptions extends TextConversationManagerOptions {
   // Extend with orchestrator-specific options if needed
@@ -29,6 +30,7 @@ export interface TextTurnResult {
 export class TextOrchestrator {
   private readonly conversationManager: TextConversationManager;
   private client: TextClient | null = null;
+  private store: ConversationStore | null = null;
 
   constructor(options: TextOrchestratorOptions = {}) {
     this.conversationManager = new TextConversationManager(options);
@@ -41,6 +43,13 @@ export class TextOrchestrator {
     this.client = client;
   }
 
+  /**
+   * Set the conversation store used to survive restarts (optional)
+   */
+  setStore(store: ConversationStore): void {
+    this.store = store;
+  }
+
   /**
    * Check if a client is configured
    */
@@ -64,6 +73,19 @@ export class TextOrchestrator {
     return this.conversationManager.hasConversation(conversationId);
   }
 
+  /**
+   * Load a conversation saved before a restart
+   * @returns true if the conversation is now available
+   */
+  async loadConversation(conversationId: string): Promise<boolean> {
+    const stored = await this.store?.load<TextConversation>('text', conversationId);
+    if (!stored) {
+      return false;
+    }
+    this.conversationManager.restore(stored);
+    return true;
+  }
+
   /**
    * Rehydrate a conversation from history
    */
@@ -98,11 +120,23 @@ export class TextOrchestrator {
     }
 
     // Get all messages and call the AI
+    // Undo the user message if the call fails or is cancelled (options.signal)
     const messages = this.conversationManager.getMessages(conversationId);
-    const result = await this.client.createCompletion(messages, options);
+    let result: TextCompletionResult;
+    try {
+      result = await this.client.createCompletion(messages, options);
+      options?.signal?.throwIfAborted();
+    } catch (error) {
+      this.conversationManager.removeLastUserMessage(conversationId);
+      throw error;
+    }
 
     // Store the assistant's response
     this.conversationManager.addAssistantMessage(conversationId, result.content);
+    const conversation = this.conversationManager.getConversation(conversationId);
+    if (conversation) {
+      void this.store?.save('text', conversation);
+    }
 
     const turnNumber = this.conversationManager.getTurnCount(conversationId);
     const isComplete = this.conversationManager.isAtMaxTurns(conversationId);
@@ -142,6 +176,7 @@ export class TextOrchestrator {
    */
   clearConversation(conversationId: string): void {
     this.conversationManager.clearConversation(conversationId);
+    void this.store?.delete('text', conversationId);
   }
 
   /**
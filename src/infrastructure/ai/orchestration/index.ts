@@ -8,10 +8,26 @@ export type { TextOrchestratorOptions, TextTurnResult } from './TextOrchestrator
 export { ImageConversationManager } from './ImageConversationManager';
 export type { ImageConversationState, RehydrationTurn } from './ImageConversationManager';
 export { ImageOrchestrator } from './ImageOrchestrator';
-export type { ImageGenerationOptions, ImageTurnResult } from './ImageOrchestrator';
+export type { ImageGenerationOptions, ImageTurnResult, ImageVariationResult } from './ImageOrchestrator';
 
 // SVG orchestration
 export { SVGConversationManager } from './SVGConversationManager';
 export type { SVGConversationState, SVGRehydrationTurn } from './SVGConversationManager';
 export { SVGOrchestrator } from './SVGOrchestrator';
-export type { SVGGenerationOptions, SVGTurnResult } from './SVGOrchestrator';
+export type { SVGGenerationOptions, SVGTurnResult, SVGStreamChunk } from './SVGOrchestrator';
+
+// Model comparison (image and SVG)
+export { runModelComparison } from './ModelComparison';
+export type { ModelComparisonResult } from './ModelComparison';
+
+// SVG Architect orchestration (multi-agent)
+export { SVGArchitectConversationManager } from './SVGArchitectConversationManager';
+export type {
+  SVGArchitectConversationState,
+  SVGArchitectInput,
+  SVGArchitectIteration,
+  SVGArchitectSessionOptions,
+} from './SVGArchitectConversationManager';
+export { SVGArchitectOrchestrator, SVG_ARCHITECT_ACCEPT_THRESHOLD, getFailedStepUsage } from './SVGArchitectOrchestrator';
+export type { SVGArchitectProgressCallback, SVGArchitectStepResult } from './SVGArchitectOrchestrator';
+export { extractSVGCode } from './svgExtraction';
@@ -0,0 +1,31 @@
+/**
+ * SVG extraction - pulls SVG markup out of free-form model responses
+ *
+ * Shared by SVGOrchestrator and SVGArchitectOrchestrator.
+ */
+
+/**
+ * Extract SVG code from an AI response.
+ * The response may wrap the SVG in a markdown code block or surround it with prose.
+ *
+ * @returns The SVG markup, or null if the response contains no <svg>...</svg> element
+ */
+export function extractSVGCode(content: string): string | null {
+  // Try to extract from markdown code block first
+  const codeBlockMatch = content.match(/```(?:svg|xml)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch) {
+    const extracted = codeBlockMatch[1].trim();
+    // Verify it contains SVG tags
+    if (/<svg[\s\S]*<\/svg>/i.test(extracted)) {
+      return extracted;
+    }
+  }
+
+  // Try to extract raw SVG
+  const svgMatch = content.match(/<svg[\s\S]*<\/svg>/i);
+  if (svgMatch) {
+    return svgMatch[0].trim();
+  }
+
+  return null;
+}
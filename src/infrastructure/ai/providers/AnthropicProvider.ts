@@ -0,0 +1,27 @@
+/**
+ * Anthropic Provider Configuration
+ *
+ * Curated models for the Anthropic Messages API - text only, so SVG generation and Blueprint Agent.
+ */
+
+import { ProviderConfig, ModelDefinition } from '../../../shared/types/providers';
+
+export const ANTHROPIC_SVG_MODELS: ModelDefinition[] = [
+  { id: 'anthropic:claude-opus-4-6', displayName: 'Claude Opus 4.6', provider: 'anthropic', inputCost: 5.00, outputCost: 25.00 },
+  { id: 'anthropic:claude-sonnet-4-5', displayName: 'Claude Sonnet 4.5', provider: 'anthropic', inputCost: 3.00, outputCost: 15.00 },
+];
+
+export const ANTHROPIC_CONFIG: ProviderConfig = {
+  id: 'anthropic',
+  displayName: 'Anthropic',
+  baseUrl: 'https://api.anthropic.com/v1',
+  apiStyle: 'anthropic',
+  requiresApiKey: true,
+  supportsImageInput: true,
+  supportsImageOutput: false,
+  models: {
+    image: [],
+    svg: ANTHROPIC_SVG_MODELS,
+    svgBlueprint: ANTHROPIC_SVG_MODELS,
+  },
+};
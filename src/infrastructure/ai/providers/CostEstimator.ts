@@ -0,0 +1,124 @@
+/**
+ * Cost Estimator - Rough pre-flight cost of a generation from model pricing
+ *
+ * Token counts are heuristics (characters / 4 for text, a fixed count per
+ * ~1024px image, scaled down for small uploads); the real cost arrives
+ * afterwards as usage.costUsd.
+ * Models without pricing estimate to null - callers treat that as unknown.
+ *
+ * No VS Code dependencies - shared by the extension and the webview.
+ */
+
+import { ModelDefinition } from '../../../shared/types/providers';
+
+export const CHARS_PER_TOKEN = 4;
+
+/** Tokens for one ~1024px image, as input or output */
+export const IMAGE_TOKENS = 1290;
+
+/** Fewest tokens an image input costs (one 768px tile) */
+export const MIN_IMAGE_TOKENS = 258;
+
+/** Encoded bytes per image token - small uploads cost fewer tiles, capped at IMAGE_TOKENS */
+export const IMAGE_BYTES_PER_TOKEN = 600;
+
+/** Typical length of a generated SVG response */
+export const SVG_OUTPUT_TOKENS = 4000;
+
+/** Typical length of a blueprint or validation report (SVG Architect) */
+export const REPORT_OUTPUT_TOKENS = 1000;
+
+export interface GenerationCostInput {
+  promptChars: number;
+  historyChars?: number;        // earlier turns re-sent with a continuation
+  referenceImageCount?: number;       // unsized images, IMAGE_TOKENS each
+  referenceImageBytes?: number[];     // sized images (decoded bytes), see estimateImageTokens
+  outputImages?: number;        // image generation
+  outputTokens?: number;        // text generation
+}
+
+export interface CostEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;  // null when the model has no pricing
+}
+
+export interface ArchitectCostInput {
+  promptChars: number;
+  hasReferenceImage: boolean;
+  maxIterations: number;
+}
+
+export function estimateTextTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+export function estimateImageTokens(bytes: number): number {
+  return Math.min(IMAGE_TOKENS, Math.max(MIN_IMAGE_TOKENS, Math.ceil(bytes / IMAGE_BYTES_PER_TOKEN)));
+}
+
+/**
+ * Estimate one model call
+ */
+export function estimateGenerationCost(
+  model: ModelDefinition | undefined,
+  input: GenerationCostInput
+): CostEstimate {
+  const inputTokens = estimateTextTokens(input.promptChars + (input.historyChars ?? 0))
+    + (input.referenceImageCount ?? 0) * IMAGE_TOKENS
+    + (input.referenceImageBytes ?? []).reduce((sum, bytes) => sum + estimateImageTokens(bytes), 0);
+  const outputTokens = (input.outputImages ?? 0) * IMAGE_TOKENS + (input.outputTokens ?? 0);
+
+  const hasPricing = model?.inputCost !== undefined || model?.outputCost !== undefined;
+  const costUsd = hasPricing
+    ? (inputTokens * (model?.inputCost ?? 0) + outputTokens * (model?.outputCost ?? 0)) / 1_000_000
+    : null;
+
+  return { inputTokens, outputTokens, costUsd };
+}
+
+/**
+ * Add estimates (e.g. the calls of an SVG Architect run) - null only when no call could be priced
+ */
+export function sumCostEstimates(estimates: CostEstimate[]): CostEstimate {
+  const priced = estimates.filter((estimate) => estimate.costUsd !== null);
+  return {
+    inputTokens: estimates.reduce((sum, estimate) => sum + estimate.inputTokens, 0),
+    outputTokens: estimates.reduce((sum, estimate) => sum + estimate.outputTokens, 0),
+    costUsd: priced.length > 0 ? priced.reduce((sum, estimate) => sum + (estimate.costUsd ?? 0), 0) : null,
+  };
+}
+
+/**
+ * Worst case for an SVG Architect run: analysis, then render + validation for every iteration
+ */
+export function estimateArchitectCost(
+  blueprintModel: ModelDefinition | undefined,
+  renderModel: ModelDefinition | undefined,
+  input: ArchitectCostInput
+): CostEstimate {
+  const referenceImageCount = input.hasReferenceImage ? 1 : 0;
+  // Render and validation prompts carry the blueprint/corrections report
+  const reportChars = REPORT_OUTPUT_TOKENS * CHARS_PER_TOKEN;
+
+  const analysis = estimateGenerationCost(blueprintModel, {
+    promptChars: input.promptChars,
+    referenceImageCount,
+    outputTokens: REPORT_OUTPUT_TOKENS,
+  });
+  const render = estimateGenerationCost(renderModel, {
+    promptChars: input.promptChars + reportChars,
+    outputTokens: SVG_OUTPUT_TOKENS,
+  });
+  const validation = estimateGenerationCost(blueprintModel, {
+    promptChars: input.promptChars + reportChars,
+    referenceImageCount: referenceImageCount + 1,  // plus the rendered PNG
+    outputTokens: REPORT_OUTPUT_TOKENS,
+  });
+
+  const iterations = Math.max(1, input.maxIterations);
+  return sumCostEstimates([
+    analysis,
+    ...Array.from({ length: iterations }, () => sumCostEstimates([render, validation])),
+  ]);
+}
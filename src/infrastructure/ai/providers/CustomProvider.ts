@@ -0,0 +1,34 @@
+/**
+ * Custom (OpenAI-compatible) Provider Configuration
+ *
+ * Any server that speaks Chat Completions - Ollama, LM Studio, vLLM, a corporate gateway.
+ * Base URL and model names come from settings, so the curated lists are empty;
+ * the API key is optional because local servers usually have none.
+ */
+
+import { ProviderConfig, ModelDefinition } from '../../../shared/types/providers';
+
+export const CUSTOM_CONFIG: ProviderConfig = {
+  id: 'custom',
+  displayName: 'Custom Endpoint',
+  baseUrl: '',
+  apiStyle: 'openai',
+  requiresApiKey: false,
+  supportsImageInput: false,
+  supportsImageOutput: false,
+  models: {
+    image: [],
+    svg: [],
+    svgBlueprint: [],
+  },
+};
+
+/**
+ * Model definitions for the model names configured for the custom endpoint
+ */
+export function getCustomModels(modelNames: string[]): ModelDefinition[] {
+  return modelNames
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+    .map((name) => ({ id: `custom:${name}`, displayName: name, provider: 'custom' }));
+}
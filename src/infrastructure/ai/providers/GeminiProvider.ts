@@ -0,0 +1,38 @@
+/**
+ * Google Gemini Provider Configuration
+ *
+ * Curated models for the Gemini API (generativelanguage.googleapis.com) - used with a Google AI Studio key.
+ * Image models use generateContent; text models use Gemini's OpenAI-compatible endpoint.
+ */
+
+import { ProviderConfig, ModelDefinition } from '../../../shared/types/providers';
+
+export const GEMINI_IMAGE_MODELS: ModelDefinition[] = [
+  { id: 'gemini:gemini-3.1-flash-image-preview', displayName: 'Nano Banana 2 (Gemini 3.1 Flash Image Preview)', provider: 'gemini', inputCost: 0.50, outputCost: 3.00 },
+  { id: 'gemini:gemini-2.5-flash-image', displayName: 'Nano Banana (Gemini 2.5 Flash Image)', provider: 'gemini', inputCost: 0.30, outputCost: 2.50, capabilities: { maxReferenceImages: 3 } },
+  { id: 'gemini:gemini-3-pro-image-preview', displayName: 'Nano Banana Pro (Gemini 3 Pro Image Preview)', provider: 'gemini', inputCost: 2.00, outputCost: 12.00 },
+];
+
+export const GEMINI_SVG_MODELS: ModelDefinition[] = [
+  { id: 'gemini:gemini-3.1-pro-preview', displayName: 'Gemini Pro 3.1', provider: 'gemini', inputCost: 2.00, outputCost: 12.00 },
+  { id: 'gemini:gemini-3-flash-preview', displayName: 'Gemini Flash 3.0', provider: 'gemini', inputCost: 0.15, outputCost: 0.60 },
+];
+
+export const GEMINI_SVG_BLUEPRINT_MODELS: ModelDefinition[] = [
+  { id: 'gemini:gemini-3.1-pro-preview', displayName: 'Gemini Pro 3.1', provider: 'gemini', inputCost: 2.00, outputCost: 12.00 },
+];
+
+export const GEMINI_CONFIG: ProviderConfig = {
+  id: 'gemini',
+  displayName: 'Google Gemini',
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  apiStyle: 'gemini',
+  requiresApiKey: true,
+  supportsImageInput: true,
+  supportsImageOutput: true,
+  models: {
+    image: GEMINI_IMAGE_MODELS,
+    svg: GEMINI_SVG_MODELS,
+    svgBlueprint: GEMINI_SVG_BLUEPRINT_MODELS,
+  },
+};
@@ -0,0 +1,85 @@
+/**
+ * Model Capabilities - What each image model accepts, for request shaping and the UI
+ *
+ * Capabilities resolve in three layers: defaults, then the model's family (matched on
+ * its ID), then the curated ModelDefinition's own `capabilities`. Live catalog models
+ * and restored conversations only carry an ID, so the family rules must stand alone.
+ *
+ * No VS Code dependencies - shared by the extension and the webview.
+ */
+
+import { AspectRatio, ASPECT_RATIO_DIMENSIONS } from '../../../shared/types/messages/imageGeneration';
+import { ModelCapabilities } from '../../../shared/types/providers';
+import { PROVIDER_CONFIGS } from './ProviderCatalog';
+
+/** Every aspect ratio the UI offers, in display order */
+export const ALL_ASPECT_RATIOS = Object.keys(ASPECT_RATIO_DIMENSIONS) as AspectRatio[];
+
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  aspectRatios: ALL_ASPECT_RATIOS,
+  maxReferenceImages: 4,
+  multiTurn: true,
+  seed: true,
+  outputModalities: ['image', 'text'],
+  thoughtSignatures: false,
+  nativeMask: false,
+};
+
+interface ModelFamily {
+  matches: (modelId: string) => boolean;  // receives the lower-cased ID
+  capabilities: Partial<ModelCapabilities>;
+}
+
+/** Applied in order - later families win on shared fields */
+const MODEL_FAMILIES: ModelFamily[] = [
+  {
+    // Gemini rejects replayed model images that lost their thought signatures
+    matches: (id) => id.includes('gemini'),
+    capabilities: { thoughtSignatures: true },
+  },
+  {
+    // FLUX endpoints are image-only (they reject ["image", "text"]) and single-turn
+    matches: (id) => id.startsWith('black-forest-labs/'),
+    capabilities: { outputModalities: ['image'], multiTurn: false },
+  },
+  {
+    // Sourceful also caps the whole request at 4.5MB
+    matches: (id) => id.startsWith('sourceful/'),
+    capabilities: { outputModalities: ['image'], multiTurn: false, maxReferenceBytes: 4.5 * 1024 * 1024 },
+  },
+  {
+    // GPT image models render 1024x1024, 1536x1024 or 1024x1536 and take no seed
+    matches: (id) => id.startsWith('openai/') || id.startsWith('openai:'),
+    capabilities: { aspectRatios: ['1:1', '3:2', '2:3'], seed: false },
+  },
+  {
+    // The OpenAI Images API is stateless and takes the inpainting mask as a file
+    matches: (id) => id.startsWith('openai:'),
+    capabilities: { multiTurn: false, nativeMask: true },
+  },
+];
+
+/**
+ * Resolve an image model's capabilities from its (qualified) model ID
+ */
+export function getModelCapabilities(modelId: string): ModelCapabilities {
+  const id = modelId.toLowerCase();
+  const curated = PROVIDER_CONFIGS
+    .flatMap((config) => config.models.image)
+    .find((model) => model.id === modelId);
+
+  const familyCapabilities = MODEL_FAMILIES
+    .filter((family) => family.matches(id))
+    .reduce<ModelCapabilities>(
+      (capabilities, family) => ({ ...capabilities, ...family.capabilities }),
+      DEFAULT_MODEL_CAPABILITIES
+    );
+  return { ...familyCapabilities, ...curated?.capabilities };
+}
+
+/**
+ * The requested aspect ratio if the model renders it, otherwise its first supported one
+ */
+export function resolveAspectRatio(capabilities: ModelCapabilities, aspectRatio: AspectRatio): AspectRatio {
+  return capabilities.aspectRatios.includes(aspectRatio) ? aspectRatio : capabilities.aspectRatios[0];
+}
@@ -0,0 +1,194 @@
+/**
+ * ModelCatalogService - Live OpenRouter model catalog with a globalState cache
+ *
+ * Pattern: Cache-aside over GET /api/v1/models (public, no API key needed)
+ * Responsibilities:
+ * - Fetch the model list and sort it into generation types by modality
+ * - Merge the curated lists: curated models keep their names, get the
+ *   `recommended` flag and are listed first
+ * - Cache the result in globalState for the TTL; serve a stale cache, then the
+ *   curated lists, when the endpoint is unreachable
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import { ModelCatalogPayload } from '@messages';
+import { GenerationType, ModelDefinition } from '../../../shared/types/providers';
+import { OPENROUTER_CONFIG } from './OpenRouterProvider';
+import { PROVIDER_CONFIGS } from './ProviderCatalog';
+
+export const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CACHE_KEY = 'pixelMinion.modelCatalog';
+const MODELS_URL = `${OPENROUTER_CONFIG.baseUrl}/models`;
+
+/**
+ * Model record as returned by OpenRouter (fields we use)
+ * https://openrouter.ai/docs/api-reference/list-available-models
+ */
+export interface OpenRouterModelRecord {
+  id: string;
+  name?: string;
+  context_length?: number;
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  pricing?: {
+    prompt?: string;      // $ per token
+    completion?: string;
+  };
+}
+
+interface CachedCatalog {
+  fetchedAt: number;
+  models: Record<GenerationType, ModelDefinition[]>;
+}
+
+/**
+ * Sort live records into generation types and merge the curated lists
+ * - image: outputs images
+ * - svg: outputs text only
+ * - svgBlueprint: outputs text only and accepts images (compares rendered PNGs)
+ */
+export function buildModelCatalog(
+  records: OpenRouterModelRecord[],
+  curated: Record<GenerationType, ModelDefinition[]> = OPENROUTER_CONFIG.models
+): Record<GenerationType, ModelDefinition[]> {
+  const outputs = (record: OpenRouterModelRecord) => record.architecture?.output_modalities ?? ['text'];
+  const inputs = (record: OpenRouterModelRecord) => record.architecture?.input_modalities ?? ['text'];
+
+  const imageRecords = records.filter((record) => outputs(record).includes('image'));
+  const textRecords = records.filter((record) => outputs(record).includes('text') && !outputs(record).includes('image'));
+  const visionRecords = textRecords.filter((record) => inputs(record).includes('image'));
+
+  return {
+    image: mergeWithCurated(imageRecords, curated.image),
+    svg: mergeWithCurated(textRecords, curated.svg),
+    svgBlueprint: mergeWithCurated(visionRecords, curated.svgBlueprint),
+  };
+}
+
+/**
+ * Curated models first (in curated order, live data applied), then the rest by name.
+ * Curated models missing from the live list are kept - they may be temporarily unlisted.
+ */
+function mergeWithCurated(records: OpenRouterModelRecord[], curated: ModelDefinition[]): ModelDefinition[] {
+  const live = new Map(records.map((record) => [record.id, toModelDefinition(record)]));
+
+  const recommended = curated.map((model) => {
+    const liveModel = live.get(model.id);
+    return {
+      ...model,
+      ...(liveModel ? {
+        inputCost: liveModel.inputCost ?? model.inputCost,
+        outputCost: liveModel.outputCost ?? model.outputCost,
+        contextLength: liveModel.contextLength,
+        inputModalities: liveModel.inputModalities,
+      } : {}),
+      recommended: true,
+    };
+  });
+
+  const curatedIds = new Set(curated.map((model) => model.id));
+  const others = [...live.values()]
+    .filter((model) => !curatedIds.has(model.id))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  return [...recommended, ...others];
+}
+
+function toModelDefinition(record: OpenRouterModelRecord): ModelDefinition {
+  return {
+    id: record.id,
+    displayName: record.name || record.id,
+    inputCost: perMillion(record.pricing?.prompt),
+    outputCost: perMillion(record.pricing?.completion),
+    contextLength: record.context_length,
+    inputModalities: record.architecture?.input_modalities,
+  };
+}
+
+/**
+ * Convert a per-token price string to $ per 1M tokens (negative = variable pricing, unknown)
+ */
+function perMillion(perToken: string | undefined): number | undefined {
+  const value = Number(perToken);
+  if (perToken === undefined || !Number.isFinite(value) || value < 0) {
+    return undefined;
+  }
+  return Math.round(value * 1e9) / 1e3;
+}
+
+export class ModelCatalogService {
+  private pending: Promise<ModelCatalogPayload> | null = null;
+
+  constructor(
+    private readonly state: vscode.Memento,
+    private readonly logger: LoggingService,
+    private readonly ttlMs: number = MODEL_CATALOG_TTL_MS
+  ) {}
+
+  /**
+   * Get the catalog - cached while fresh, otherwise fetched (concurrent callers share one fetch)
+   */
+  getCatalog(forceRefresh = false): Promise<ModelCatalogPayload> {
+    const cached = this.state.get<CachedCatalog>(CACHE_KEY);
+    if (!forceRefresh && cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return Promise.resolve({ models: cached.models, source: 'cache', fetchedAt: cached.fetchedAt });
+    }
+
+    if (!this.pending) {
+      this.pending = this.refresh(cached).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Look up a model's details (pricing) - cached live data first, then the curated lists
+   */
+  findModel(modelId: string): ModelDefinition | undefined {
+    const cached = this.state.get<CachedCatalog>(CACHE_KEY);
+    const candidates = [
+      ...(cached ? Object.values(cached.models).flat() : []),
+      ...PROVIDER_CONFIGS.flatMap((config) => Object.values(config.models).flat()),
+    ];
+    return candidates.find((model) => model.id === modelId);
+  }
+
+  private async refresh(cached: CachedCatalog | undefined): Promise<ModelCatalogPayload> {
+    try {
+      const records = await this.fetchRecords();
+      const catalog: CachedCatalog = { fetchedAt: Date.now(), models: buildModelCatalog(records) };
+      await this.state.update(CACHE_KEY, catalog);
+      this.logger.info(`Model catalog refreshed (${records.length} models)`);
+      return { models: catalog.models, source: 'live', fetchedAt: catalog.fetchedAt };
+    } catch (error) {
+      this.logger.warn('Failed to fetch model catalog, using fallback', error);
+      if (cached) {
+        return { models: cached.models, source: 'cache', fetchedAt: cached.fetchedAt };
+      }
+      return { models: OPENROUTER_CONFIG.models, source: 'fallback' };
+    }
+  }
+
+  private async fetchRecords(): Promise<OpenRouterModelRecord[]> {
+    const response = await fetch(MODELS_URL, {
+      headers: {
+        'HTTP-Referer': 'https://github.com/pixel-minion-vscode',
+        'X-Title': 'Pixel Minion VS Code Extension',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenRouter models error: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as { data?: OpenRouterModelRecord[] };
+    if (!Array.isArray(result.data)) {
+      throw new Error('OpenRouter models response has no data');
+    }
+    return result.data;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * OpenAI Provider Configuration
+ *
+ * Curated models for the direct OpenAI API (api.openai.com) - used with a personal OpenAI key.
+ * Image models go through the Images API; text models through Chat Completions.
+ */
+
+import { ProviderConfig, ModelDefinition } from '../../../shared/types/providers';
+
+export const OPENAI_IMAGE_MODELS: ModelDefinition[] = [
+  { id: 'openai:gpt-image-1', displayName: 'GPT Image 1', provider: 'openai', inputCost: 5.00, outputCost: 40.00 },
+  { id: 'openai:gpt-image-1-mini', displayName: 'GPT Image 1 Mini', provider: 'openai', inputCost: 2.00, outputCost: 8.00 },
+];
+
+export const OPENAI_SVG_MODELS: ModelDefinition[] = [
+  { id: 'openai:gpt-5.2', displayName: 'GPT-5.2', provider: 'openai', inputCost: 1.75, outputCost: 14.00 },
+  { id: 'openai:gpt-5-mini', displayName: 'GPT-5 Mini', provider: 'openai', inputCost: 0.25, outputCost: 2.00 },
+];
+
+export const OPENAI_SVG_BLUEPRINT_MODELS: ModelDefinition[] = [
+  { id: 'openai:gpt-5.2', displayName: 'GPT-5.2', provider: 'openai', inputCost: 1.75, outputCost: 14.00 },
+];
+
+export const OPENAI_CONFIG: ProviderConfig = {
+  id: 'openai',
+  displayName: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiStyle: 'openai',
+  requiresApiKey: true,
+  supportsImageInput: true,
+  supportsImageOutput: true,
+  models: {
+    image: OPENAI_IMAGE_MODELS,
+    svg: OPENAI_SVG_MODELS,
+    svgBlueprint: OPENAI_SVG_BLUEPRINT_MODELS,
+  },
+};
@@ -8,8 +8,8 @@ import { ProviderConfig, ModelDefinition } from '../../../shared/types/providers
 
 export const OPENROUTER_IMAGE_MODELS: ModelDefinition[] = [
   { id: 'google/gemini-3.1-flash-image-preview', displayName: '⭐ Nano Banana 2 (Google: Gemini 3.1 Flash Image Preview) - Recommended', inputCost: 0.50, outputCost: 3.00 },
-  { id: 'google/gemini-2.5-flash-image', displayName: 'Nano Banana 10/25 (Google: Gemini 2.5 Flash Image)', inputCost: 0.30, outputCost: 2.50 },
-  { id: 'google/gemini-2.5-flash-image-preview', displayName: 'Nano Banana 8/25 (Google: Gemini 2.5 Flash Image Preview)', inputCost: 0.30, outputCost: 2.50 },
+  { id: 'google/gemini-2.5-flash-image', displayName: 'Nano Banana 10/25 (Google: Gemini 2.5 Flash Image)', inputCost: 0.30, outputCost: 2.50, capabilities: { maxReferenceImages: 3 } },
+  { id: 'google/gemini-2.5-flash-image-preview', displayName: 'Nano Banana 8/25 (Google: Gemini 2.5 Flash Image Preview)', inputCost: 0.30, outputCost: 2.50, capabilities: { maxReferenceImages: 3 } },
   { id: 'google/gemini-3-pro-image-preview', displayName: 'Nano Banana Pro (Google: Gemini 3 Pro Image Preview)', inputCost: 2.00, outputCost: 12.00 },
   { id: 'openai/gpt-5.4-image-2', displayName: 'GPT-5.4 Image 2', inputCost: 8.00, outputCost: 15.00 },
   { id: 'openai/gpt-5-image-mini', displayName: 'GPT-5 Image Mini', inputCost: 2.50, outputCost: 2.00 },
@@ -37,15 +37,29 @@ export const OPENROUTER_SVG_MODELS: ModelDefinition[] = [
   { id: 'openai/gpt-5.1-codex', displayName: 'OpenAI: GPT-5.1 Codex' },
 ];
 
+/**
+ * Blueprint Agent models for SVG Architect mode.
+ * Must accept image input - the agent compares rendered PNGs against the original.
+ */
+export const OPENROUTER_SVG_BLUEPRINT_MODELS: ModelDefinition[] = [
+  { id: 'google/gemini-3.1-pro-preview', displayName: 'Gemini Pro 3.1', inputCost: 2.00, outputCost: 12.00 },
+  { id: 'google/gemini-3-pro-preview', displayName: 'Gemini Pro 3.0', inputCost: 1.25, outputCost: 10.00 },
+  { id: 'anthropic/claude-opus-4.6', displayName: 'Claude Opus 4.6', inputCost: 5.00, outputCost: 25.00 },
+  { id: 'openai/gpt-5.3-codex', displayName: 'OpenAI: GPT-5.3 Codex', inputCost: 1.75, outputCost: 14.00 },
+];
+
 export const OPENROUTER_CONFIG: ProviderConfig = {
   id: 'openrouter',
   displayName: 'OpenRouter',
   baseUrl: 'https://openrouter.ai/api/v1',
+  apiStyle: 'openrouter',
+  requiresApiKey: true,
   supportsImageInput: true,
   supportsImageOutput: true,
   models: {
     image: OPENROUTER_IMAGE_MODELS,
     svg: OPENROUTER_SVG_MODELS,
+    svgBlueprint: OPENROUTER_SVG_BLUEPRINT_MODELS,
   },
 };
 
@@ -54,3 +68,9 @@ export const DEFAULT_IMAGE_MODEL = 'google/gemini-3.1-flash-image-preview';
 
 /** Default model for SVG generation */
 export const DEFAULT_SVG_MODEL = 'openai/gpt-5.3-codex';
+
+/** Default model for the SVG Architect Blueprint Agent */
+export const DEFAULT_SVG_BLUEPRINT_MODEL = 'google/gemini-3.1-pro-preview';
+
+/** Default refinement iteration cap for SVG Architect mode */
+export const DEFAULT_SVG_ARCHITECT_MAX_ITERATIONS = 5;
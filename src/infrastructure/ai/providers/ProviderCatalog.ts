@@ -0,0 +1,88 @@
+/**
+ * Provider Catalog - Every supported provider and the models each offers
+ *
+ * Model IDs are qualified with a provider prefix ('openai:gpt-image-1', 'custom:llama3.1').
+ * Unprefixed IDs are OpenRouter models, so settings and conversations saved before
+ * direct providers existed keep working. OpenRouter IDs can contain ':' ('...:free'),
+ * which is why only the known provider prefixes are recognized.
+ *
+ * No VS Code dependencies - shared by the extension and the webview.
+ */
+
+import { GenerationType, ModelDefinition, ProviderConfig, ProviderId } from '../../../shared/types/providers';
+import { OPENROUTER_CONFIG } from './OpenRouterProvider';
+import { OPENAI_CONFIG } from './OpenAIProvider';
+import { GEMINI_CONFIG } from './GeminiProvider';
+import { ANTHROPIC_CONFIG } from './AnthropicProvider';
+import { CUSTOM_CONFIG, getCustomModels } from './CustomProvider';
+
+/** Providers in display order */
+export const PROVIDER_CONFIGS: ProviderConfig[] = [
+  OPENROUTER_CONFIG,
+  OPENAI_CONFIG,
+  GEMINI_CONFIG,
+  ANTHROPIC_CONFIG,
+  CUSTOM_CONFIG,
+];
+
+export interface ParsedModelId {
+  providerId: ProviderId;
+  model: string;  // ID the provider's API expects
+}
+
+export interface ModelGroup {
+  providerId: ProviderId;
+  label: string;
+  models: ModelDefinition[];
+}
+
+/**
+ * Look up a provider's configuration
+ */
+export function getProviderConfig(providerId: ProviderId): ProviderConfig {
+  return PROVIDER_CONFIGS.find((config) => config.id === providerId) ?? OPENROUTER_CONFIG;
+}
+
+/**
+ * Split a qualified model ID into provider and provider-native model ID
+ */
+export function parseModelId(modelId: string): ParsedModelId {
+  const separator = modelId.indexOf(':');
+  if (separator > 0) {
+    const prefix = modelId.slice(0, separator);
+    const provider = PROVIDER_CONFIGS.find((config) => config.id === prefix && config.id !== 'openrouter');
+    if (provider) {
+      return { providerId: provider.id, model: modelId.slice(separator + 1) };
+    }
+  }
+  return { providerId: 'openrouter', model: modelId };
+}
+
+/**
+ * Models for a generation type across all providers, plus the custom endpoint's models
+ * (custom servers are text-only, so they never appear for image generation).
+ * OpenRouter's curated list is replaced by the live catalog when one is available.
+ */
+export function getModelsForType(
+  type: GenerationType,
+  customModelNames: string[] = [],
+  openRouterModels?: ModelDefinition[]
+): ModelDefinition[] {
+  const models = PROVIDER_CONFIGS.flatMap((config) =>
+    config.id === 'openrouter' && openRouterModels ? openRouterModels : config.models[type]
+  );
+  return type === 'image' ? models : [...models, ...getCustomModels(customModelNames)];
+}
+
+/**
+ * Group models by provider (display order), dropping empty groups
+ */
+export function groupModelsByProvider(models: ModelDefinition[]): ModelGroup[] {
+  return PROVIDER_CONFIGS
+    .map((config) => ({
+      providerId: config.id,
+      label: config.displayName,
+      models: models.filter((model) => (model.provider ?? parseModelId(model.id).providerId) === config.id),
+    }))
+    .filter((group) => group.models.length > 0);
+}
@@ -0,0 +1,90 @@
+/**
+ * ProviderRegistry - Resolves a model ID to the endpoint and credentials that serve it
+ *
+ * Pattern: Registry over the static ProviderCatalog
+ * Responsibilities:
+ * - Pick the provider for a (prefixed) model ID
+ * - Read the provider's API key from SecretStorageService
+ * - Read the custom endpoint's base URL from settings
+ * - Report which providers are usable (Settings, API key alert)
+ */
+import * as vscode from 'vscode';
+import { SecretStorageService } from '@secrets';
+import { LoggingService } from '@logging';
+import { ProviderConfig, ProviderId } from '../../../shared/types/providers';
+import { PROVIDER_CONFIGS, getProviderConfig, parseModelId } from './ProviderCatalog';
+import { InvalidApiKeyError } from '../clients/ProviderErrors';
+
+export interface ResolvedProvider {
+  config: ProviderConfig;
+  model: string;      // ID the provider's API expects (prefix removed)
+  baseUrl: string;    // without trailing slash
+  apiKey?: string;    // absent only for providers that do not require one
+}
+
+export class ProviderRegistry {
+  private readonly configSection = 'pixelMinion';
+
+  constructor(
+    private readonly secretStorage: SecretStorageService,
+    private readonly logger: LoggingService
+  ) {}
+
+  /**
+   * Resolve the provider endpoint for a model
+   * @throws if the provider is missing its API key or base URL
+   */
+  async resolve(modelId: string): Promise<ResolvedProvider> {
+    const { providerId, model } = parseModelId(modelId);
+    const config = getProviderConfig(providerId);
+
+    const baseUrl = this.getBaseUrl(config);
+    if (!baseUrl) {
+      throw new Error(`${config.displayName} has no base URL. Set it in Settings (pixelMinion.customProviderBaseUrl).`);
+    }
+
+    const apiKey = await this.secretStorage.getApiKey(providerId);
+    if (config.requiresApiKey && !apiKey) {
+      throw new InvalidApiKeyError(`API key not configured. Please add your ${config.displayName} API key in Settings.`);
+    }
+
+    this.logger.debug(`Resolved model ${modelId} to ${config.displayName} (${model})`);
+    return { config, model, baseUrl, apiKey: apiKey || undefined };
+  }
+
+  /**
+   * Check whether a provider can serve requests (key stored, or base URL set for keyless providers)
+   */
+  async isConfigured(providerId: ProviderId): Promise<boolean> {
+    const config = getProviderConfig(providerId);
+    if (!config.requiresApiKey) {
+      return this.getBaseUrl(config).length > 0;
+    }
+    return this.secretStorage.hasApiKey(providerId);
+  }
+
+  /**
+   * Usable state of every provider
+   */
+  async getStatus(): Promise<Record<ProviderId, boolean>> {
+    const entries = await Promise.all(
+      PROVIDER_CONFIGS.map(async (config) => [config.id, await this.isConfigured(config.id)] as const)
+    );
+    return Object.fromEntries(entries) as Record<ProviderId, boolean>;
+  }
+
+  /**
+   * Check whether at least one provider is usable
+   */
+  async hasAnyConfigured(): Promise<boolean> {
+    const status = await this.getStatus();
+    return Object.values(status).some(Boolean);
+  }
+
+  private getBaseUrl(config: ProviderConfig): string {
+    const baseUrl = config.id === 'custom'
+      ? vscode.workspace.getConfiguration(this.configSection).get<string>('customProviderBaseUrl', '')
+      : config.baseUrl;
+    return (baseUrl ?? '').trim().replace(/\/+$/, '');
+  }
+}
@@ -2,3 +2,14 @@
  * AI Provider exports
  */
 export * from './OpenRouterProvider';
+export * from './OpenAIProvider';
+export * from './GeminiProvider';
+export * from './AnthropicProvider';
+export * from './CustomProvider';
+export * from './ProviderCatalog';
+export * from './CostEstimator';
+export * from './ModelCapabilities';
+export { ProviderRegistry } from './ProviderRegistry';
+export type { ResolvedProvider } from './ProviderRegistry';
+export { ModelCatalogService, buildModelCatalog, MODEL_CATALOG_TTL_MS } from './ModelCatalogService';
+export type { OpenRouterModelRecord } from './ModelCatalogService';
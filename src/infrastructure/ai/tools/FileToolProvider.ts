@@ -3,6 +3,7 @@
  *
  * Example implementation showing the ToolProvider pattern.
  * Provides basic file listing and reading capabilities.
+ * findFiles is also used directly by the workspace reference picker.
  */
 import * as vscode from 'vscode';
 import { ToolProvider, ToolDefinition, ToolExecutionResult } from './ToolProvider';
@@ -73,6 +74,14 @@ export class FileToolProvider implements ToolProvider {
     }
   }
 
+  /**
+   * Workspace files matching a glob pattern
+   * @param exclude - Glob of files to leave out (default: the files.exclude setting)
+   */
+  async findFiles(pattern: string, maxResults = 100, exclude?: string): Promise<vscode.Uri[]> {
+    return vscode.workspace.findFiles(pattern, exclude, maxResults);
+  }
+
   private async listFiles(params: Record<string, unknown>): Promise<ToolExecutionResult> {
     const pattern = params.pattern as string;
     const maxResults = (params.maxResults as number) ?? 100;
@@ -81,7 +90,7 @@ export class FileToolProvider implements ToolProvider {
       return { success: false, error: 'Pattern parameter is required' };
     }
 
-    const files = await vscode.workspace.findFiles(pattern, undefined, maxResults);
+    const files = await this.findFiles(pattern, maxResults);
     const paths = files.map(f => vscode.workspace.asRelativePath(f));
 
     return {
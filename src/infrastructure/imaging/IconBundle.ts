@@ -0,0 +1,163 @@
+/**
+ * IconBundle - Favicon, touch and PWA icons from one source image
+ *
+ * The source is center-cropped to a square, then resized to each target size.
+ * Icons that platforms show on a solid tile (apple-touch, maskable) are
+ * flattened onto a background taken from the source's corner pixel when it is
+ * opaque, white otherwise.
+ */
+import { RasterImage, createRasterImage } from './RasterImage';
+import { encodePng } from './PngCodec';
+import { cropToAspect, resizeImage } from './ImageTransforms';
+
+export interface IconBundleFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+export interface IconBundleOptions {
+  appName?: string;   // manifest name / short_name
+  svgCode?: string;   // written as favicon.svg and linked ahead of the PNGs
+}
+
+export const FAVICON_ICO_SIZES = [16, 32, 48];
+
+/** Maskable icons keep their content inside the central 80% safe zone */
+const MASKABLE_CONTENT_SCALE = 0.8;
+
+const PNG_ICONS: Array<{ name: string; size: number; opaque?: boolean }> = [
+  { name: 'favicon-16x16.png', size: 16 },
+  { name: 'favicon-32x32.png', size: 32 },
+  { name: 'apple-touch-icon.png', size: 180, opaque: true },
+  { name: 'android-chrome-192x192.png', size: 192 },
+  { name: 'android-chrome-512x512.png', size: 512 },
+];
+
+const MASKABLE_ICON = { name: 'maskable-icon-512x512.png', size: 512 };
+
+export function buildIconBundle(source: RasterImage, options: IconBundleOptions = {}): IconBundleFile[] {
+  const square = cropToAspect(source, 1, 1);
+  const background = backgroundColor(square);
+  const encoder = new TextEncoder();
+
+  const files: IconBundleFile[] = [
+    { name: 'favicon.ico', bytes: encodeIco(FAVICON_ICO_SIZES.map((size) => resizeImage(square, size, size))) },
+  ];
+
+  for (const icon of PNG_ICONS) {
+    const resized = resizeImage(square, icon.size, icon.size);
+    files.push({ name: icon.name, bytes: encodePng(icon.opaque ? flatten(resized, background) : resized) });
+  }
+
+  const contentSize = Math.round(MASKABLE_ICON.size * MASKABLE_CONTENT_SCALE);
+  files.push({
+    name: MASKABLE_ICON.name,
+    bytes: encodePng(pad(resizeImage(square, contentSize, contentSize), MASKABLE_ICON.size, background)),
+  });
+
+  if (options.svgCode) {
+    files.push({ name: 'favicon.svg', bytes: encoder.encode(options.svgCode) });
+  }
+
+  const hex = toHex(background);
+  files.push({ name: 'manifest.webmanifest', bytes: encoder.encode(buildManifest(options.appName, hex)) });
+  files.push({ name: 'icon-links.html', bytes: encoder.encode(buildLinkSnippet(!!options.svgCode, hex)) });
+
+  return files;
+}
+
+/**
+ * ICO container with PNG-compressed entries (supported by every current browser)
+ */
+export function encodeIco(images: RasterImage[]): Uint8Array {
+  const pngs = images.map((image) => encodePng(image));
+  const headerSize = 6 + images.length * 16;
+  const out = new Uint8Array(headerSize + pngs.reduce((sum, png) => sum + png.length, 0));
+  const view = new DataView(out.buffer);
+
+  view.setUint16(2, 1, true);                 // type: icon
+  view.setUint16(4, images.length, true);
+
+  let offset = headerSize;
+  images.forEach((image, i) => {
+    const entry = 6 + i * 16;
+    out[entry] = image.width >= 256 ? 0 : image.width;     // 0 means 256
+    out[entry + 1] = image.height >= 256 ? 0 : image.height;
+    view.setUint16(entry + 4, 1, true);       // color planes
+    view.setUint16(entry + 6, 32, true);      // bits per pixel
+    view.setUint32(entry + 8, pngs[i].length, true);
+    view.setUint32(entry + 12, offset, true);
+    out.set(pngs[i], offset);
+    offset += pngs[i].length;
+  });
+
+  return out;
+}
+
+function backgroundColor(image: RasterImage): [number, number, number] {
+  const [r, g, b, a] = image.data;
+  return a === 255 ? [r, g, b] : [255, 255, 255];
+}
+
+function flatten(image: RasterImage, [r, g, b]: [number, number, number]): RasterImage {
+  const out = createRasterImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const alpha = image.data[i + 3] / 255;
+    out.data[i] = Math.round(image.data[i] * alpha + r * (1 - alpha));
+    out.data[i + 1] = Math.round(image.data[i + 1] * alpha + g * (1 - alpha));
+    out.data[i + 2] = Math.round(image.data[i + 2] * alpha + b * (1 - alpha));
+    out.data[i + 3] = 255;
+  }
+  return out;
+}
+
+/** Center the image on an opaque size x size tile */
+function pad(image: RasterImage, size: number, background: [number, number, number]): RasterImage {
+  const tile = createRasterImage(size, size);
+  for (let i = 0; i < tile.data.length; i += 4) {
+    tile.data.set(background, i);
+    tile.data[i + 3] = 255;
+  }
+  const flattened = flatten(image, background);
+  const left = Math.floor((size - image.width) / 2);
+  const top = Math.floor((size - image.height) / 2);
+  for (let y = 0; y < image.height; y++) {
+    const start = y * image.width * 4;
+    tile.data.set(flattened.data.subarray(start, start + image.width * 4), ((top + y) * size + left) * 4);
+  }
+  return tile;
+}
+
+function toHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function buildManifest(appName: string | undefined, color: string): string {
+  const name = appName?.trim() || 'My App';
+  const manifest = {
+    name,
+    short_name: name,
+    icons: [
+      { src: '/android-chrome-192x192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/android-chrome-512x512.png', sizes: '512x512', type: 'image/png' },
+      { src: `/${MASKABLE_ICON.name}`, sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+    theme_color: color,
+    background_color: color,
+    display: 'standalone',
+  };
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+function buildLinkSnippet(hasSvg: boolean, color: string): string {
+  return [
+    '<link rel="icon" href="/favicon.ico" sizes="48x48">',
+    ...(hasSvg ? ['<link rel="icon" href="/favicon.svg" type="image/svg+xml">'] : []),
+    '<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+    '<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+    '<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">',
+    '<link rel="manifest" href="/manifest.webmanifest">',
+    `<meta name="theme-color" content="${color}">`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,71 @@
+/**
+ * ImageMetadata - Remove embedded metadata without re-encoding pixels
+ *
+ * - PNG: text (tEXt/zTXt/iTXt), EXIF and timestamp chunks
+ * - JPEG: comments and APPn segments (EXIF, XMP, Photoshop), except APP0 (JFIF),
+ *   APP2 (ICC profile) and APP14 (Adobe colour transform)
+ * - WebP: EXIF and XMP chunks, with the VP8X flags updated to match
+ */
+import { ImageFormat, concatBytes, readAscii } from './RasterImage';
+import { readPngChunks, writePngChunks } from './PngCodec';
+
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+const JPEG_KEPT_APP_SEGMENTS = new Set([0xe0, 0xe2, 0xee]);
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+export function stripImageMetadata(bytes: Uint8Array, format: ImageFormat): Uint8Array {
+  switch (format) {
+    case 'png':
+      return writePngChunks(readPngChunks(bytes).filter((chunk) => !PNG_METADATA_CHUNKS.has(chunk.type)));
+    case 'jpeg':
+      return stripJpegMetadata(bytes);
+    case 'webp':
+      return stripWebpMetadata(bytes);
+  }
+}
+
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) {
+      break;  // start of scan: the rest is image data
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const isMetadata = marker === 0xfe || (marker >= 0xe1 && marker <= 0xef && !JPEG_KEPT_APP_SEGMENTS.has(marker));
+    if (!isMetadata) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  parts.push(bytes.subarray(offset));
+  return concatBytes(parts);
+}
+
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4);
+    const size = bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24);
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+    if (!WEBP_METADATA_CHUNKS.has(type)) {
+      const chunk = bytes.slice(offset, end);
+      if (type === 'VP8X') {
+        chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      }
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concatBytes(chunks);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12), 0);
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return out;
+}
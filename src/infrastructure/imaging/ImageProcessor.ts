@@ -0,0 +1,102 @@
+/**
+ * ImageProcessor - Turn provider output into the asset the user asked for
+ *
+ * Pipeline: decode -> crop -> resize -> encode. When no pixel change or format
+ * conversion is requested the original bytes are kept (metadata optionally
+ * stripped), so saving as-is never re-compresses.
+ */
+import { ImageSaveOptions } from '@messages';
+import {
+  ImageFormat,
+  RasterImage,
+  IMAGE_FORMAT_EXTENSIONS,
+  IMAGE_FORMAT_MIME_TYPES,
+  detectImageFormat,
+} from './RasterImage';
+import { decodePng, encodePng } from './PngCodec';
+import { decodeJpeg } from './JpegDecoder';
+import { encodeJpeg } from './JpegEncoder';
+import { encodeWebp } from './WebpEncoder';
+import { cropImage, cropToAspect, resizeImage } from './ImageTransforms';
+import { stripImageMetadata } from './ImageMetadata';
+
+export interface ProcessedImage {
+  bytes: Uint8Array;
+  format: ImageFormat;
+  mimeType: string;
+  extension: string;
+}
+
+export function decodeImage(bytes: Uint8Array): RasterImage {
+  switch (detectImageFormat(bytes)) {
+    case 'png':
+      return decodePng(bytes);
+    case 'jpeg':
+      return decodeJpeg(bytes);
+    case 'webp':
+      throw new Error('WebP images can only be saved in their original format');
+    default:
+      throw new Error('Unrecognized image format');
+  }
+}
+
+export function encodeImage(image: RasterImage, format: ImageFormat, quality: number): Uint8Array {
+  switch (format) {
+    case 'png':
+      return encodePng(image);
+    case 'jpeg':
+      return encodeJpeg(image, quality);
+    case 'webp':
+      return encodeWebp(image, quality);
+  }
+}
+
+/**
+ * Output size for the requested width/height (either may be omitted)
+ */
+function targetSize(image: RasterImage, width?: number, height?: number): { width: number; height: number } {
+  if (width && height) {
+    return { width, height };
+  }
+  if (width) {
+    return { width, height: Math.max(1, Math.round((image.height * width) / image.width)) };
+  }
+  if (height) {
+    return { width: Math.max(1, Math.round((image.width * height) / image.height)), height };
+  }
+  return { width: image.width, height: image.height };
+}
+
+export function processImage(bytes: Uint8Array, options: ImageSaveOptions): ProcessedImage {
+  const sourceFormat = detectImageFormat(bytes);
+  if (!sourceFormat) {
+    throw new Error('Unrecognized image format');
+  }
+
+  const format = options.format === 'original' ? sourceFormat : options.format;
+  const result = (output: Uint8Array): ProcessedImage => ({
+    bytes: output,
+    format,
+    mimeType: IMAGE_FORMAT_MIME_TYPES[format],
+    extension: IMAGE_FORMAT_EXTENSIONS[format],
+  });
+
+  const resizing = !!(options.width || options.height);
+  if (format === sourceFormat && !resizing && !options.crop) {
+    return result(options.stripMetadata ? stripImageMetadata(bytes, format) : bytes);
+  }
+
+  // Re-encoding writes pixels only, so metadata is dropped either way
+  let image = decodeImage(bytes);
+  if (options.crop) {
+    image = cropImage(image, options.crop);
+  }
+  if (resizing) {
+    if (options.width && options.height && options.fit === 'cover') {
+      image = cropToAspect(image, options.width, options.height);
+    }
+    const size = targetSize(image, options.width, options.height);
+    image = resizeImage(image, size.width, size.height);
+  }
+  return result(encodeImage(image, format, options.quality));
+}
@@ -0,0 +1,133 @@
+/**
+ * ImageTransforms - Crop and resize RasterImages
+ *
+ * Resizing is separable with a triangle filter widened to the scale factor when
+ * shrinking (so every source pixel contributes), in premultiplied alpha to avoid
+ * dark fringes around transparent edges.
+ */
+import { ImageCropRegion } from '@messages';
+import { RasterImage, createRasterImage } from './RasterImage';
+
+export const MAX_OUTPUT_DIMENSION = 8192;
+
+export function cropImage(image: RasterImage, region: ImageCropRegion): RasterImage {
+  const left = Math.max(0, Math.round(region.x));
+  const top = Math.max(0, Math.round(region.y));
+  const right = Math.min(image.width, Math.round(region.x + region.width));
+  const bottom = Math.min(image.height, Math.round(region.y + region.height));
+  if (right <= left || bottom <= top) {
+    throw new Error(`Crop region is outside the ${image.width}x${image.height} image`);
+  }
+
+  const cropped = createRasterImage(right - left, bottom - top);
+  for (let y = top; y < bottom; y++) {
+    const start = (y * image.width + left) * 4;
+    cropped.data.set(image.data.subarray(start, start + cropped.width * 4), (y - top) * cropped.width * 4);
+  }
+  return cropped;
+}
+
+/**
+ * Centered crop to the aspect ratio of width:height (for "cover" resizing)
+ */
+export function cropToAspect(image: RasterImage, width: number, height: number): RasterImage {
+  const target = width / height;
+  const current = image.width / image.height;
+  if (Math.abs(target - current) < 1e-3) {
+    return image;
+  }
+  if (current > target) {
+    const cropWidth = Math.round(image.height * target);
+    return cropImage(image, { x: Math.floor((image.width - cropWidth) / 2), y: 0, width: cropWidth, height: image.height });
+  }
+  const cropHeight = Math.round(image.width / target);
+  return cropImage(image, { x: 0, y: Math.floor((image.height - cropHeight) / 2), width: image.width, height: cropHeight });
+}
+
+/** Per output index: first source index and normalized weights */
+function buildKernel(sourceSize: number, targetSize: number): Array<{ start: number; weights: Float64Array }> {
+  const scale = sourceSize / targetSize;
+  const support = Math.max(1, scale);
+  return Array.from({ length: targetSize }, (_, i) => {
+    const center = (i + 0.5) * scale - 0.5;
+    const start = Math.ceil(center - support);
+    const end = Math.floor(center + support);
+    const weights = new Float64Array(end - start + 1);
+    let total = 0;
+    for (let j = start; j <= end; j++) {
+      const weight = Math.max(0, 1 - Math.abs(j - center) / support);
+      weights[j - start] = weight;
+      total += weight;
+    }
+    weights.forEach((weight, j) => { weights[j] = total > 0 ? weight / total : 0; });
+    return { start, weights };
+  });
+}
+
+export function resizeImage(image: RasterImage, width: number, height: number): RasterImage {
+  width = Math.round(width);
+  height = Math.round(height);
+  if (width < 1 || height < 1 || width > MAX_OUTPUT_DIMENSION || height > MAX_OUTPUT_DIMENSION) {
+    throw new Error(`Output size must be between 1 and ${MAX_OUTPUT_DIMENSION} pixels per side`);
+  }
+  if (width === image.width && height === image.height) {
+    return image;
+  }
+
+  const { width: sourceWidth, height: sourceHeight, data } = image;
+  const premultiplied = new Float64Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    premultiplied[i] = data[i] * alpha;
+    premultiplied[i + 1] = data[i + 1] * alpha;
+    premultiplied[i + 2] = data[i + 2] * alpha;
+    premultiplied[i + 3] = data[i + 3];
+  }
+
+  // Horizontal pass: sourceHeight rows of `width` pixels
+  const horizontal = new Float64Array(width * sourceHeight * 4);
+  const columns = buildKernel(sourceWidth, width);
+  for (let y = 0; y < sourceHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      const target = (y * width + x) * 4;
+      for (let k = 0; k < weights.length; k++) {
+        const sx = Math.min(sourceWidth - 1, Math.max(0, start + k));
+        const source = (y * sourceWidth + sx) * 4;
+        for (let c = 0; c < 4; c++) {
+          horizontal[target + c] += premultiplied[source + c] * weights[k];
+        }
+      }
+    }
+  }
+
+  const resized = createRasterImage(width, height);
+  const rows = buildKernel(sourceHeight, height);
+  const pixel = new Float64Array(4);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      pixel.fill(0);
+      for (let k = 0; k < weights.length; k++) {
+        const sy = Math.min(sourceHeight - 1, Math.max(0, start + k));
+        const source = (sy * width + x) * 4;
+        for (let c = 0; c < 4; c++) {
+          pixel[c] += horizontal[source + c] * weights[k];
+        }
+      }
+      const target = (y * width + x) * 4;
+      const alpha = pixel[3];
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+      resized.data[target] = clamp(pixel[0] * unpremultiply);
+      resized.data[target + 1] = clamp(pixel[1] * unpremultiply);
+      resized.data[target + 2] = clamp(pixel[2] * unpremultiply);
+      resized.data[target + 3] = clamp(alpha);
+    }
+  }
+  return resized;
+}
+
+function clamp(value: number): number {
+  const rounded = Math.round(value);
+  return rounded < 0 ? 0 : rounded > 255 ? 255 : rounded;
+}
@@ -0,0 +1,447 @@
+/**
+ * JpegDecoder - Baseline JPEG decoding to RGBA
+ *
+ * Supports sequential Huffman JPEGs (SOF0/SOF1) with any sampling factors,
+ * restart intervals and grayscale, YCbCr or Adobe RGB components.
+ * Progressive, arithmetic-coded and CMYK files are rejected with a clear error.
+ */
+import { RasterImage, createRasterImage } from './RasterImage';
+
+/** Zigzag scan position -> natural (row-major) coefficient index */
+export const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** cos((2x + 1) * u * PI / 16) scaled by C(u), shared with the encoder */
+export const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    for (let x = 0; x < 8; x++) {
+      basis[u * 8 + x] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array;  // per code length, -1 when unused
+  valueOffset: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;    // blocks covering the image
+  blocksPerColumn: number;
+  paddedBlocksPerLine: number;  // blocks covering whole MCUs
+  pixels: Uint8Array;       // decoded samples, paddedBlocksPerLine * 8 wide
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  predictor: number;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count) {
+      valueOffset[length] = index;
+      minCode[length] = code;
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valueOffset, minCode, values };
+}
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      this.bitBuffer = this.nextByte();
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length++;
+      if (length > 16) {
+        throw new Error('Invalid JPEG Huffman code');
+      }
+    }
+    return table.values[table.valueOffset[length] + code - table.minCode[length]];
+  }
+
+  /** Skip to just past the next RSTn marker and drop buffered bits */
+  restart(): void {
+    this.bitCount = 0;
+    while (this.position + 1 < this.data.length) {
+      if (this.data[this.position] === 0xff && this.data[this.position + 1] >= 0xd0 && this.data[this.position + 1] <= 0xd7) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+
+  private nextByte(): number {
+    if (this.position >= this.data.length) {
+      return 0;
+    }
+    const byte = this.data[this.position];
+    if (byte === 0xff) {
+      const next = this.data[this.position + 1];
+      if (next === 0x00) {
+        this.position += 2;
+        return 0xff;
+      }
+      // A marker ends the entropy-coded data - pad with zeros
+      return 0;
+    }
+    this.position++;
+    return byte;
+  }
+}
+
+/** Sign-extend a received magnitude of `size` bits (JPEG F.2.2.1) */
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+export function decodeJpeg(bytes: Uint8Array): RasterImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const quantTables: Int32Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+
+  if (view.getUint16(0) !== 0xffd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  let offset = 2;
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    offset += 2;
+    if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset -= marker === 0xff ? 1 : 0;
+      continue;
+    }
+    if (marker === 0xd9) {
+      break;
+    }
+
+    const length = view.getUint16(offset);
+    const segment = bytes.subarray(offset + 2, offset + length);
+    offset += length;
+
+    switch (marker) {
+      case 0xdb:
+        readQuantTables(segment, quantTables);
+        break;
+      case 0xc4:
+        readHuffmanTables(segment, dcTables, acTables);
+        break;
+      case 0xc0:
+      case 0xc1:
+        frame = readFrame(segment);
+        break;
+      case 0xc2:
+        throw new Error('Progressive JPEGs are not supported');
+      case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+      case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+        throw new Error('Only baseline JPEGs are supported');
+      case 0xdd:
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+      case 0xee:
+        if (String.fromCharCode(...segment.subarray(0, 5)) === 'Adobe') {
+          adobeTransform = segment[11];
+        }
+        break;
+      case 0xda: {
+        if (!frame) {
+          throw new Error('JPEG scan before frame header');
+        }
+        const reader = new BitReader(bytes, offset);
+        decodeScan(segment, frame, reader, quantTables, dcTables, acTables, restartInterval);
+        offset = reader.position;
+        break;
+      }
+      default:
+        break;  // APPn, COM and other segments carry nothing we decode
+    }
+  }
+
+  if (!frame) {
+    throw new Error('JPEG has no frame header');
+  }
+  return toRgba(frame, adobeTransform);
+}
+
+function readQuantTables(segment: Uint8Array, tables: Int32Array[]): void {
+  let i = 0;
+  while (i < segment.length) {
+    const precision = segment[i] >> 4;
+    const id = segment[i] & 15;
+    i++;
+    const table = new Int32Array(64);
+    for (let k = 0; k < 64; k++) {
+      table[ZIGZAG[k]] = precision ? (segment[i] << 8) | segment[i + 1] : segment[i];
+      i += precision ? 2 : 1;
+    }
+    tables[id] = table;
+  }
+}
+
+function readHuffmanTables(segment: Uint8Array, dcTables: HuffmanTable[], acTables: HuffmanTable[]): void {
+  let i = 0;
+  while (i < segment.length) {
+    const tableClass = segment[i] >> 4;
+    const id = segment[i] & 15;
+    const counts = segment.subarray(i + 1, i + 17);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const values = segment.slice(i + 17, i + 17 + total);
+    (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+    i += 17 + total;
+  }
+}
+
+function readFrame(segment: Uint8Array): Frame {
+  if (segment[0] !== 8) {
+    throw new Error(`Unsupported JPEG sample precision ${segment[0]}`);
+  }
+  const height = (segment[1] << 8) | segment[2];
+  const width = (segment[3] << 8) | segment[4];
+  const count = segment[5];
+  if (!width || !height) {
+    throw new Error('JPEG has no dimensions');
+  }
+  if (count !== 1 && count !== 3) {
+    throw new Error(`Unsupported JPEG with ${count} components (CMYK is not supported)`);
+  }
+
+  const components: Component[] = [];
+  for (let c = 0; c < count; c++) {
+    const base = 6 + c * 3;
+    components.push({
+      id: segment[base],
+      h: segment[base + 1] >> 4,
+      v: segment[base + 1] & 15,
+      quantTable: segment[base + 2],
+      blocksPerLine: 0,
+      blocksPerColumn: 0,
+      paddedBlocksPerLine: 0,
+      pixels: new Uint8Array(0),
+      predictor: 0,
+    });
+  }
+
+  const maxH = Math.max(...components.map((component) => component.h));
+  const maxV = Math.max(...components.map((component) => component.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+  for (const component of components) {
+    component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+    component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+    component.paddedBlocksPerLine = mcusPerLine * component.h;
+    component.pixels = new Uint8Array(component.paddedBlocksPerLine * 8 * mcusPerColumn * component.v * 8);
+  }
+
+  return { width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+}
+
+function decodeScan(
+  segment: Uint8Array,
+  frame: Frame,
+  reader: BitReader,
+  quantTables: Int32Array[],
+  dcTables: HuffmanTable[],
+  acTables: HuffmanTable[],
+  restartInterval: number
+): void {
+  const scanComponents = Array.from({ length: segment[0] }, (_, i) => {
+    const component = frame.components.find((candidate) => candidate.id === segment[1 + i * 2]);
+    if (!component) {
+      throw new Error('JPEG scan references an unknown component');
+    }
+    component.dcTable = dcTables[segment[2 + i * 2] >> 4];
+    component.acTable = acTables[segment[2 + i * 2] & 15];
+    component.predictor = 0;
+    return component;
+  });
+
+  const coefficients = new Int32Array(64);
+  const decodeBlock = (component: Component, blockRow: number, blockCol: number) => {
+    const quant = quantTables[component.quantTable];
+    if (!component.dcTable || !component.acTable || !quant) {
+      throw new Error('JPEG scan is missing a Huffman or quantization table');
+    }
+    coefficients.fill(0);
+
+    const size = reader.decode(component.dcTable);
+    component.predictor += size === 0 ? 0 : extend(reader.readBits(size), size);
+    coefficients[0] = component.predictor * quant[0];
+
+    for (let k = 1; k < 64;) {
+      const symbol = reader.decode(component.acTable);
+      const run = symbol >> 4;
+      const magnitude = symbol & 15;
+      if (magnitude === 0) {
+        if (run !== 15) {
+          break;  // end of block
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) {
+        break;
+      }
+      const index = ZIGZAG[k];
+      coefficients[index] = extend(reader.readBits(magnitude), magnitude) * quant[index];
+      k++;
+    }
+
+    inverseDct(coefficients, component.pixels, (blockRow * 8) * component.paddedBlocksPerLine * 8 + blockCol * 8, component.paddedBlocksPerLine * 8);
+  };
+
+  const single = scanComponents.length === 1 ? scanComponents[0] : null;
+  const totalMcus = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      scanComponents.forEach((component) => { component.predictor = 0; });
+    }
+
+    if (single) {
+      // Non-interleaved scans cover only the blocks inside the image
+      decodeBlock(single, Math.floor(mcu / single.blocksPerLine), mcu % single.blocksPerLine);
+      continue;
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+    const mcuCol = mcu % frame.mcusPerLine;
+    for (const component of scanComponents) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          decodeBlock(component, mcuRow * component.v + v, mcuCol * component.h + h);
+        }
+      }
+    }
+  }
+
+}
+
+function inverseDct(coefficients: Int32Array, out: Uint8Array, offset: number, stride: number): void {
+  const temp = new Float64Array(64);
+  // Rows: temp[v][x] = sum_u C(u) F(v,u) cos(...)
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) {
+        sum += DCT_BASIS[u * 8 + x] * coefficients[v * 8 + u];
+      }
+      temp[v * 8 + x] = sum;
+    }
+  }
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += DCT_BASIS[v * 8 + y] * temp[v * 8 + x];
+      }
+      const value = Math.round(sum / 4 + 128);
+      out[offset + y * stride + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+    }
+  }
+}
+
+function toRgba(frame: Frame, adobeTransform: number | null): RasterImage {
+  const image = createRasterImage(frame.width, frame.height);
+  const { components, maxH, maxV } = frame;
+  // Adobe transform 0 on three components means plain RGB
+  const isRgb = components.length === 3 && adobeTransform === 0;
+
+  for (let y = 0; y < frame.height; y++) {
+    for (let x = 0; x < frame.width; x++) {
+      const samples = components.map((component) => {
+        const sx = Math.floor((x * component.h) / maxH);
+        const sy = Math.floor((y * component.v) / maxV);
+        return component.pixels[sy * component.paddedBlocksPerLine * 8 + sx];
+      });
+      const target = (y * frame.width + x) * 4;
+
+      if (samples.length === 1) {
+        image.data[target] = image.data[target + 1] = image.data[target + 2] = samples[0];
+      } else if (isRgb) {
+        image.data[target] = samples[0];
+        image.data[target + 1] = samples[1];
+        image.data[target + 2] = samples[2];
+      } else {
+        const [luma, cb, cr] = samples;
+        image.data[target] = clampByte(luma + 1.402 * (cr - 128));
+        image.data[target + 1] = clampByte(luma - 0.344136 * (cb - 128) - 0.714136 * (cr - 128));
+        image.data[target + 2] = clampByte(luma + 1.772 * (cb - 128));
+      }
+      image.data[target + 3] = 255;
+    }
+  }
+  return image;
+}
+
+export function clampByte(value: number): number {
+  const rounded = Math.round(value);
+  return rounded < 0 ? 0 : rounded > 255 ? 255 : rounded;
+}
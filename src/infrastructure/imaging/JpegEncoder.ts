@@ -0,0 +1,284 @@
+/**
+ * JpegEncoder - Baseline JPEG encoding with 4:2:0 chroma subsampling
+ *
+ * Uses the standard (Annex K) quantization and Huffman tables, with quantization
+ * scaled by quality the same way libjpeg does. Transparent pixels are flattened
+ * onto white since JPEG has no alpha.
+ */
+import { RasterImage } from './RasterImage';
+import { DCT_BASIS, ZIGZAG } from './JpegDecoder';
+
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+const DC_LUMA_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_CHROMA_COUNTS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+const AC_LUMA_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_LUMA_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+
+const AC_CHROMA_COUNTS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+const AC_CHROMA_VALUES = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+  0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+  0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+  0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+  0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+  0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+
+interface HuffmanCodes {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+function buildCodes(counts: number[], values: number[]): HuffmanCodes {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[values[index]] = code++;
+      lengths[values[index]] = length;
+      index++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+/**
+ * libjpeg quality scaling: 50 = the standard tables, 100 = all ones
+ */
+function scaleQuantTable(base: number[], quality: number): Int32Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return Int32Array.from(base, (value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number): void {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      this.buffer = (this.buffer << 1) | ((value >> bit) & 1);
+      this.count++;
+      if (this.count === 8) {
+        this.bytes.push(this.buffer);
+        if (this.buffer === 0xff) {
+          this.bytes.push(0x00);  // byte stuffing
+        }
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte with ones */
+  finish(): number[] {
+    if (this.count > 0) {
+      this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+    }
+    return this.bytes;
+  }
+}
+
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value);
+  let length = 0;
+  while (magnitude) {
+    length++;
+    magnitude >>= 1;
+  }
+  return length;
+}
+
+export function encodeJpeg(image: RasterImage, quality: number): Uint8Array {
+  const { width, height, data } = image;
+  if (width > 0xffff || height > 0xffff) {
+    throw new Error('Image is too large for JPEG');
+  }
+
+  const lumaQuant = scaleQuantTable(LUMA_QUANT, quality);
+  const chromaQuant = scaleQuantTable(CHROMA_QUANT, quality);
+  const dcLuma = buildCodes(DC_LUMA_COUNTS, DC_VALUES);
+  const dcChroma = buildCodes(DC_CHROMA_COUNTS, DC_VALUES);
+  const acLuma = buildCodes(AC_LUMA_COUNTS, AC_LUMA_VALUES);
+  const acChroma = buildCodes(AC_CHROMA_COUNTS, AC_CHROMA_VALUES);
+
+  // Full-resolution planes, alpha flattened onto white
+  const size = width * height;
+  const luma = new Float64Array(size);
+  const cb = new Float64Array(size);
+  const cr = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const r = data[i * 4] * alpha + 255 * (1 - alpha);
+    const g = data[i * 4 + 1] * alpha + 255 * (1 - alpha);
+    const b = data[i * 4 + 2] * alpha + 255 * (1 - alpha);
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+    cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+  }
+
+  const writer = new BitWriter();
+  const block = new Float64Array(64);
+  const predictors = [0, 0, 0];
+
+  const encodeBlock = (quant: Int32Array, dc: HuffmanCodes, ac: HuffmanCodes, component: number) => {
+    const coefficients = forwardDct(block, quant);
+
+    const diff = coefficients[0] - predictors[component];
+    predictors[component] = coefficients[0];
+    const dcSize = bitLength(diff);
+    writer.write(dc.codes[dcSize], dc.lengths[dcSize]);
+    if (dcSize) {
+      writer.write(diff < 0 ? diff - 1 : diff, dcSize);
+    }
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = coefficients[ZIGZAG[k]];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.write(ac.codes[0xf0], ac.lengths[0xf0]);
+        run -= 16;
+      }
+      const size = bitLength(value);
+      const symbol = (run << 4) | size;
+      writer.write(ac.codes[symbol], ac.lengths[symbol]);
+      writer.write(value < 0 ? value - 1 : value, size);
+      run = 0;
+    }
+    if (run > 0) {
+      writer.write(ac.codes[0x00], ac.lengths[0x00]);
+    }
+  };
+
+  // Sample a plane with edge replication; `scale` 2 averages 2x2 pixels (chroma)
+  const fillBlock = (plane: Float64Array, left: number, top: number, scale: number) => {
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            const px = Math.min(width - 1, left + x * scale + dx);
+            const py = Math.min(height - 1, top + y * scale + dy);
+            sum += plane[py * width + px];
+          }
+        }
+        block[y * 8 + x] = sum / (scale * scale) - 128;
+      }
+    }
+  };
+
+  for (let mcuY = 0; mcuY < height; mcuY += 16) {
+    for (let mcuX = 0; mcuX < width; mcuX += 16) {
+      for (let by = 0; by < 2; by++) {
+        for (let bx = 0; bx < 2; bx++) {
+          fillBlock(luma, mcuX + bx * 8, mcuY + by * 8, 1);
+          encodeBlock(lumaQuant, dcLuma, acLuma, 0);
+        }
+      }
+      fillBlock(cb, mcuX, mcuY, 2);
+      encodeBlock(chromaQuant, dcChroma, acChroma, 1);
+      fillBlock(cr, mcuX, mcuY, 2);
+      encodeBlock(chromaQuant, dcChroma, acChroma, 2);
+    }
+  }
+
+  const out: number[] = [0xff, 0xd8];
+  const segment = (marker: number, payload: number[]) => {
+    out.push(0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload);
+  };
+
+  segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]);  // JFIF 1.01, no thumbnail
+  segment(0xdb, [
+    0x00, ...ZIGZAG.map((index) => lumaQuant[index]),
+    0x01, ...ZIGZAG.map((index) => chromaQuant[index]),
+  ]);
+  segment(0xc0, [
+    8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3,
+    1, 0x22, 0,
+    2, 0x11, 1,
+    3, 0x11, 1,
+  ]);
+  segment(0xc4, [
+    0x00, ...DC_LUMA_COUNTS, ...DC_VALUES,
+    0x10, ...AC_LUMA_COUNTS, ...AC_LUMA_VALUES,
+    0x01, ...DC_CHROMA_COUNTS, ...DC_VALUES,
+    0x11, ...AC_CHROMA_COUNTS, ...AC_CHROMA_VALUES,
+  ]);
+  segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+  const scan = writer.finish();
+  const result = new Uint8Array(out.length + scan.length + 2);
+  result.set(out, 0);
+  result.set(scan, out.length);
+  result[result.length - 2] = 0xff;
+  result[result.length - 1] = 0xd9;
+  return result;
+}
+
+/**
+ * Separable float DCT-II of a level-shifted block, quantized (natural order)
+ */
+function forwardDct(block: Float64Array, quant: Int32Array): Int32Array {
+  const temp = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) {
+        sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+      }
+      temp[y * 8 + u] = sum;
+    }
+  }
+
+  const out = new Int32Array(64);
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) {
+        sum += DCT_BASIS[v * 8 + y] * temp[y * 8 + u];
+      }
+      out[v * 8 + u] = Math.round(sum / 4 / quant[v * 8 + u]);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,330 @@
+/**
+ * PngCodec - PNG decoding/encoding on top of Node's zlib
+ *
+ * Decodes every standard colour type and bit depth (including palettes, tRNS and
+ * Adam7 interlacing) to RGBA. Encodes 8-bit RGB or RGBA with per-row adaptive filtering.
+ */
+import { deflateSync, inflateSync } from 'zlib';
+import { RasterImage, createRasterImage, readAscii } from './RasterImage';
+
+const PNG_SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+
+/** Channels per colour type: gray, -, RGB, palette, gray+alpha, -, RGBA */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes: x start, y start, x step, y step */
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Split a PNG into its chunks (CRCs are not verified)
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const start = offset + 8;
+    if (start + length > bytes.length) {
+      throw new Error(`PNG chunk ${type} is truncated`);
+    }
+    chunks.push({ type, data: bytes.subarray(start, start + length) });
+    offset = start + length + 4;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Assemble a PNG from chunks, computing lengths and CRCs
+ */
+export function writePngChunks(chunks: PngChunk[]): Uint8Array {
+  const size = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + chunk.data.length + 12, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.data.length);
+    for (let i = 0; i < 4; i++) {
+      out[offset + 4 + i] = chunk.type.charCodeAt(i);
+    }
+    out.set(chunk.data, offset + 8);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(out.subarray(offset + 4, offset + 8 + chunk.data.length)));
+    offset += chunk.data.length + 12;
+  }
+  return out;
+}
+
+export function decodePng(bytes: Uint8Array): RasterImage {
+  const chunks = readPngChunks(bytes);
+  const ihdr = chunks.find((chunk) => chunk.type === 'IHDR');
+  if (!ihdr) {
+    throw new Error('PNG has no IHDR chunk');
+  }
+
+  const ihdrView = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength);
+  const header: PngHeader = {
+    width: ihdrView.getUint32(0),
+    height: ihdrView.getUint32(4),
+    bitDepth: ihdr.data[8],
+    colorType: ihdr.data[9],
+    interlace: ihdr.data[12],
+  };
+  if (!CHANNELS[header.colorType]) {
+    throw new Error(`Unsupported PNG colour type ${header.colorType}`);
+  }
+
+  const palette = chunks.find((chunk) => chunk.type === 'PLTE')?.data;
+  const transparency = chunks.find((chunk) => chunk.type === 'tRNS')?.data;
+  const compressed = Buffer.concat(chunks.filter((chunk) => chunk.type === 'IDAT').map((chunk) => chunk.data));
+  const raw = new Uint8Array(inflateSync(compressed));
+
+  const image = createRasterImage(header.width, header.height);
+  const bitsPerPixel = CHANNELS[header.colorType] * header.bitDepth;
+  const passes = header.interlace ? ADAM7 : [[0, 0, 1, 1]];
+
+  let offset = 0;
+  for (const [xStart, yStart, xStep, yStep] of passes) {
+    const passWidth = Math.ceil((header.width - xStart) / xStep);
+    const passHeight = Math.ceil((header.height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const rows = unfilter(raw, offset, stride, passHeight, Math.max(1, bitsPerPixel >> 3));
+    offset += (stride + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = rows.subarray(y * stride, (y + 1) * stride);
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((yStart + y * yStep) * header.width + xStart + x * xStep) * 4;
+        writePixel(image.data, target, row, x, header, palette, transparency);
+      }
+    }
+  }
+
+  return image;
+}
+
+function unfilter(raw: Uint8Array, offset: number, stride: number, height: number, bpp: number): Uint8Array {
+  if (offset + (stride + 1) * height > raw.length) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[offset + y * (stride + 1)];
+    const source = offset + y * (stride + 1) + 1;
+    const current = y * stride;
+    const previous = current - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[current + i - bpp] : 0;
+      const up = y > 0 ? out[previous + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[previous + i - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[current + i] = (raw[source + i] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function writePixel(
+  out: Uint8Array,
+  target: number,
+  row: Uint8Array,
+  x: number,
+  { bitDepth, colorType }: PngHeader,
+  palette: Uint8Array | undefined,
+  transparency: Uint8Array | undefined
+): void {
+  const channels = CHANNELS[colorType];
+  const sample = (channel: number): number => {
+    const index = x * channels + channel;
+    if (bitDepth === 16) {
+      return (row[index * 2] << 8) | row[index * 2 + 1];
+    }
+    if (bitDepth === 8) {
+      return row[index];
+    }
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  const to8Bit = (value: number): number =>
+    bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+  const trnsSample = (channel: number): number => transparency
+    ? (transparency[channel * 2] << 8) | transparency[channel * 2 + 1]
+    : -1;
+
+  switch (colorType) {
+    case 0: {
+      const gray = sample(0);
+      out[target] = out[target + 1] = out[target + 2] = to8Bit(gray);
+      out[target + 3] = gray === trnsSample(0) ? 0 : 255;
+      break;
+    }
+    case 2: {
+      const [r, g, b] = [sample(0), sample(1), sample(2)];
+      out[target] = to8Bit(r);
+      out[target + 1] = to8Bit(g);
+      out[target + 2] = to8Bit(b);
+      out[target + 3] = r === trnsSample(0) && g === trnsSample(1) && b === trnsSample(2) ? 0 : 255;
+      break;
+    }
+    case 3: {
+      const index = sample(0);
+      if (!palette || index * 3 + 2 >= palette.length) {
+        throw new Error('PNG palette index out of range');
+      }
+      out[target] = palette[index * 3];
+      out[target + 1] = palette[index * 3 + 1];
+      out[target + 2] = palette[index * 3 + 2];
+      out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      break;
+    }
+    case 4:
+      out[target] = out[target + 1] = out[target + 2] = to8Bit(sample(0));
+      out[target + 3] = to8Bit(sample(1));
+      break;
+    default:
+      out[target] = to8Bit(sample(0));
+      out[target + 1] = to8Bit(sample(1));
+      out[target + 2] = to8Bit(sample(2));
+      out[target + 3] = to8Bit(sample(3));
+  }
+}
+
+/**
+ * Encode as 8-bit RGBA, or RGB when every pixel is opaque
+ */
+export function encodePng(image: RasterImage): Uint8Array {
+  const { width, height, data } = image;
+  let hasAlpha = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) {
+      hasAlpha = true;
+      break;
+    }
+  }
+
+  const bpp = hasAlpha ? 4 : 3;
+  const stride = width * bpp;
+  const pixels = new Uint8Array(stride * height);
+  for (let p = 0, o = 0; p < data.length; p += 4) {
+    pixels[o++] = data[p];
+    pixels[o++] = data[p + 1];
+    pixels[o++] = data[p + 2];
+    if (hasAlpha) {
+      pixels[o++] = data[p + 3];
+    }
+  }
+
+  const filtered = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    // Pick the filter with the smallest sum of signed residuals (the usual heuristic)
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const current = y * stride + i;
+        const left = i >= bpp ? pixels[current - bpp] : 0;
+        const up = y > 0 ? pixels[current - stride] : 0;
+        const upLeft = y > 0 && i >= bpp ? pixels[current - stride - bpp] : 0;
+        const predictor = filter === 0 ? 0
+          : filter === 1 ? left
+            : filter === 2 ? up
+              : filter === 3 ? (left + up) >> 1
+                : paeth(left, up, upLeft);
+        const residual = (pixels[current] - predictor) & 0xff;
+        candidate[i] = residual;
+        score += residual < 128 ? residual : 256 - residual;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        filtered[y * (stride + 1)] = filter;
+        filtered.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+    filtered[y * (stride + 1)] = bestFilter;
+  }
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8;
+  ihdr[9] = hasAlpha ? 6 : 2;
+
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    { type: 'IDAT', data: new Uint8Array(deflateSync(filtered, { level: 9 })) },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ]);
+}
@@ -0,0 +1,422 @@
+/**
+ * Provenance - Embed what made an asset (prompt, model, seed...) in the saved file
+ *
+ * - PNG: one text chunk per field under "pixel-minion:<field>" keywords - tEXt
+ *   when the value is Latin-1, iTXt (UTF-8) otherwise - plus Software
+ * - JPEG: XMP packet in an APP1 segment after the JFIF header
+ * - WebP: XMP chunk, switching to the extended (VP8X) layout when needed
+ * - SVG: the same RDF description inside a <metadata> element
+ *
+ * Provenance from an earlier save is replaced; other metadata is kept. The
+ * read* functions recover it (also from a JSON sidecar written next to the file).
+ */
+import { inflateSync } from 'zlib';
+import { GenerationProvenance } from '@messages';
+import { ImageFormat, concatBytes, readAscii } from './RasterImage';
+import { PngChunk, readPngChunks, writePngChunks } from './PngCodec';
+
+export const PROVENANCE_NAMESPACE = 'https://github.com/okeylanders/pixel-minion-vscode/ns/provenance/1.0/';
+export const PNG_PROVENANCE_PREFIX = 'pixel-minion:';
+export const SVG_METADATA_ID = 'pixel-minion-provenance';
+
+const SOFTWARE = 'Pixel Minion';
+const XMP_APP1_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+/** Keeps the XMP packet inside one 64KB JPEG segment, even fully escaped */
+const MAX_JPEG_PROMPT_CHARS = 4000;
+const VP8X_ALPHA_FLAG = 0x10;
+const VP8X_XMP_FLAG = 0x04;
+
+const FIELDS: Array<keyof GenerationProvenance> = ['prompt', 'model', 'seed', 'aspectRatio', 'conversationId', 'timestamp'];
+
+/** Appended to the saved file's name: image.png -> image.png.json */
+export const PROVENANCE_SIDECAR_SUFFIX = '.json';
+
+export function embedProvenance(bytes: Uint8Array, format: ImageFormat, provenance: GenerationProvenance): Uint8Array {
+  switch (format) {
+    case 'png':
+      return embedPng(bytes, provenance);
+    case 'jpeg':
+      return embedJpeg(bytes, buildXmpPacket({
+        ...provenance,
+        prompt: provenance.prompt.slice(0, MAX_JPEG_PROMPT_CHARS),
+      }));
+    case 'webp':
+      return embedWebp(bytes, buildXmpPacket(provenance));
+  }
+}
+
+/**
+ * Add (or replace) the <metadata> element right after the opening <svg> tag
+ */
+export function embedSvgProvenance(svgCode: string, provenance: GenerationProvenance): string {
+  const cleaned = svgCode.replace(new RegExp(`\\s*<metadata id="${SVG_METADATA_ID}">[\\s\\S]*?</metadata>`), '');
+  const openTag = cleaned.match(/<svg\b[^>]*>/i);
+  if (!openTag || openTag.index === undefined || openTag[0].endsWith('/>')) {
+    return svgCode;
+  }
+
+  const insertAt = openTag.index + openTag[0].length;
+  const metadata = `\n<metadata id="${SVG_METADATA_ID}">\n${buildRdf(provenance)}\n</metadata>`;
+  return cleaned.slice(0, insertAt) + metadata + cleaned.slice(insertAt);
+}
+
+/**
+ * Provenance embedded in a PNG, JPEG or WebP - null when the file carries none
+ */
+export function readProvenance(bytes: Uint8Array, format: ImageFormat): Partial<GenerationProvenance> | null {
+  switch (format) {
+    case 'png':
+      return readPng(bytes);
+    case 'jpeg':
+      return parseXmp(readJpegXmp(bytes));
+    case 'webp': {
+      const chunk = readRiffChunks(bytes).find((candidate) => candidate.type === 'XMP ');
+      return parseXmp(chunk ? new TextDecoder().decode(chunk.data) : null);
+    }
+  }
+}
+
+export function readSvgProvenance(svgCode: string): Partial<GenerationProvenance> | null {
+  const metadata = svgCode.match(new RegExp(`<metadata id="${SVG_METADATA_ID}">([\\s\\S]*?)</metadata>`));
+  return parseXmp(metadata ? metadata[1] : null);
+}
+
+export function serializeProvenanceSidecar(provenance: GenerationProvenance): string {
+  return `${JSON.stringify({ generator: SOFTWARE, ...Object.fromEntries(fieldEntries(provenance)) }, null, 2)}\n`;
+}
+
+export function parseProvenanceSidecar(json: string): Partial<GenerationProvenance> | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+  const fields = Object.entries(parsed).filter((entry): entry is [string, string | number] =>
+    typeof entry[1] === 'string' || typeof entry[1] === 'number'
+  );
+  return fromFieldEntries(fields.map(([field, value]) => [field, String(value)]));
+}
+
+/** Field values as text - the timestamp as ISO 8601, absent fields skipped */
+function fieldEntries(provenance: GenerationProvenance): Array<[string, string]> {
+  return FIELDS.flatMap((field): Array<[string, string]> => {
+    const value = provenance[field];
+    if (value === undefined || value === '') {
+      return [];
+    }
+    return [[field, field === 'timestamp' ? new Date(value).toISOString() : String(value)]];
+  });
+}
+
+/** Inverse of fieldEntries - null unless a prompt or model was found */
+function fromFieldEntries(entries: Array<[string, string]>): Partial<GenerationProvenance> | null {
+  const provenance: Partial<GenerationProvenance> = {};
+  for (const [field, value] of entries) {
+    switch (field) {
+      case 'prompt':
+      case 'model':
+      case 'aspectRatio':
+      case 'conversationId':
+        provenance[field] = value;
+        break;
+      case 'seed': {
+        const seed = Number(value);
+        if (Number.isInteger(seed)) {
+          provenance.seed = seed;
+        }
+        break;
+      }
+      case 'timestamp': {
+        const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+        if (!Number.isNaN(timestamp)) {
+          provenance.timestamp = timestamp;
+        }
+        break;
+      }
+    }
+  }
+  return provenance.prompt || provenance.model ? provenance : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PNG
+// ─────────────────────────────────────────────────────────────────────────────
+
+function embedPng(bytes: Uint8Array, provenance: GenerationProvenance): Uint8Array {
+  const [header, ...rest] = readPngChunks(bytes).filter((chunk) => !isProvenanceChunk(chunk));
+  const text = [
+    textChunk('Software', SOFTWARE),
+    ...fieldEntries(provenance).map(([field, value]) => textChunk(`${PNG_PROVENANCE_PREFIX}${field}`, value)),
+  ];
+  // Ahead of the image data, so readers that stop at IDAT still find them
+  return writePngChunks([header, ...text, ...rest]);
+}
+
+function isProvenanceChunk(chunk: PngChunk): boolean {
+  if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') {
+    return false;
+  }
+  const separator = chunk.data.indexOf(0);
+  const keyword = readAscii(chunk.data, 0, separator < 0 ? chunk.data.length : separator);
+  if (keyword === 'Software') {
+    return readAscii(chunk.data, separator + 1, chunk.data.length - separator - 1).endsWith(SOFTWARE);
+  }
+  return keyword.startsWith(PNG_PROVENANCE_PREFIX);
+}
+
+function textChunk(keyword: string, value: string): PngChunk {
+  if (Array.from(value).every((char) => char.charCodeAt(0) > 0 && char.charCodeAt(0) <= 0xff)) {
+    return { type: 'tEXt', data: concatBytes([latin1(keyword), new Uint8Array([0]), latin1(value)]) };
+  }
+  // keyword, compression flag + method, empty language tag and translated keyword
+  return {
+    type: 'iTXt',
+    data: concatBytes([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(value)]),
+  };
+}
+
+function readPng(bytes: Uint8Array): Partial<GenerationProvenance> | null {
+  const entries: Array<[string, string]> = [];
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') {
+      continue;
+    }
+    const separator = chunk.data.indexOf(0);
+    if (separator < 0) {
+      continue;
+    }
+    const keyword = readAscii(chunk.data, 0, separator);
+    if (keyword.startsWith(PNG_PROVENANCE_PREFIX)) {
+      entries.push([keyword.slice(PNG_PROVENANCE_PREFIX.length), readTextChunkValue(chunk, separator)]);
+    } else if (keyword === 'XML:com.adobe.xmp' && chunk.type === 'iTXt') {
+      // Provenance kept by tools that convert our chunks to XMP
+      const fromXmp = parseXmp(readTextChunkValue(chunk, separator));
+      if (fromXmp) {
+        return fromXmp;
+      }
+    }
+  }
+  return fromFieldEntries(entries);
+}
+
+function readTextChunkValue(chunk: PngChunk, separator: number): string {
+  if (chunk.type === 'tEXt') {
+    return readAscii(chunk.data, separator + 1, chunk.data.length - separator - 1);
+  }
+  // iTXt: compression flag and method, then language tag and translated keyword (each NUL-terminated)
+  const compressed = chunk.data[separator + 1] === 1;
+  const languageEnd = chunk.data.indexOf(0, separator + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) {
+    return '';
+  }
+  const text = chunk.data.subarray(translatedEnd + 1);
+  return new TextDecoder().decode(compressed ? inflateSync(text) : text);
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// XMP (JPEG, WebP) and RDF (SVG)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function buildXmpPacket(provenance: GenerationProvenance): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    buildRdf(provenance),
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+function buildRdf(provenance: GenerationProvenance): string {
+  const attributes = fieldEntries(provenance).map(([field, value]) => `\n    pm:${field}="${escapeXml(value)}"`);
+  return [
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    `    xmlns:pm="${PROVENANCE_NAMESPACE}"`,
+    `    xmp:CreatorTool="${SOFTWARE}"`,
+    `    xmp:CreateDate="${new Date(provenance.timestamp).toISOString()}"${attributes.join('')}>`,
+    `    <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+    '  </rdf:Description>',
+    '</rdf:RDF>',
+  ].join('\n');
+}
+
+/** pm:<field>="..." attributes of our RDF description */
+function parseXmp(xml: string | null): Partial<GenerationProvenance> | null {
+  if (!xml) {
+    return null;
+  }
+  const entries: Array<[string, string]> = [];
+  for (const [, field, value] of xml.matchAll(/\bpm:(\w+)="([^"]*)"/g)) {
+    entries.push([field, unescapeXml(value)]);
+  }
+  return fromFieldEntries(entries);
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** Escaped for attributes and text; line breaks survive attribute normalization */
+function escapeXml(value: string): string {
+  // Control characters other than tab and line breaks are not allowed in XML 1.0
+  return Array.from(value)
+    .filter((char) => char.charCodeAt(0) >= 0x20 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// JPEG
+// ─────────────────────────────────────────────────────────────────────────────
+
+function embedJpeg(bytes: Uint8Array, packet: string): Uint8Array {
+  const payload = concatBytes([latin1(XMP_APP1_HEADER), new TextEncoder().encode(packet)]);
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  // Replace any existing XMP; insert after APP0 (JFIF) so the file stays JFIF-compliant
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let inserted = false;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker !== 0xe0 && !inserted) {
+      parts.push(segment);
+      inserted = true;
+    }
+    if (marker === 0xda) {
+      break;  // start of scan: the rest is image data
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    const isXmp = marker === 0xe1 && readAscii(bytes, offset + 4, XMP_APP1_HEADER.length) === XMP_APP1_HEADER;
+    if (!isXmp) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (!inserted) {
+    parts.push(segment);
+  }
+  parts.push(bytes.subarray(offset));
+  return concatBytes(parts);
+}
+
+function readJpegXmp(bytes: Uint8Array): string | null {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (bytes[offset + 1] === 0xe1 && readAscii(bytes, offset + 4, XMP_APP1_HEADER.length) === XMP_APP1_HEADER) {
+      return new TextDecoder().decode(bytes.subarray(offset + 4 + XMP_APP1_HEADER.length, end));
+    }
+    offset = end;
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WebP
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function embedWebp(bytes: Uint8Array, packet: string): Uint8Array {
+  const chunks = readRiffChunks(bytes).filter((chunk) => chunk.type !== 'XMP ');
+  const existing = chunks.find((chunk) => chunk.type === 'VP8X');
+  const vp8x = existing ? existing.data.slice() : createVp8x(chunks);
+  vp8x[0] |= VP8X_XMP_FLAG;
+
+  return writeRiff([
+    { type: 'VP8X', data: vp8x },
+    ...chunks.filter((chunk) => chunk.type !== 'VP8X'),
+    { type: 'XMP ', data: new TextEncoder().encode(packet) },
+  ]);
+}
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4);
+    const size = (bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)) >>> 0;
+    chunks.push({ type, data: bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size)) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeRiff(chunks: RiffChunk[]): Uint8Array {
+  const parts = chunks.flatMap((chunk) => {
+    const header = new Uint8Array(8);
+    header.set(latin1(chunk.type));
+    new DataView(header.buffer).setUint32(4, chunk.data.length, true);
+    return chunk.data.length % 2 ? [header, chunk.data, new Uint8Array(1)] : [header, chunk.data];
+  });
+  const body = concatBytes(parts);
+  const out = new Uint8Array(12 + body.length);
+  out.set(latin1('RIFF'), 0);
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(latin1('WEBP'), 8);
+  out.set(body, 12);
+  return out;
+}
+
+/**
+ * Extended-format header for a simple (single VP8/VP8L chunk) WebP, sized from its bitstream
+ */
+function createVp8x(chunks: RiffChunk[]): Uint8Array {
+  const image = chunks.find((chunk) => chunk.type === 'VP8L' || chunk.type === 'VP8 ');
+  if (!image) {
+    throw new Error('WebP file has no image data');
+  }
+
+  let width: number;
+  let height: number;
+  let alpha = false;
+  const data = image.data;
+  if (image.type === 'VP8L') {
+    // Signature byte, then 14-bit width-1, 14-bit height-1 and the alpha hint
+    const bits = (data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)) >>> 0;
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = ((bits >>> 28) & 1) === 1;
+  } else {
+    // Frame tag and start code, then 14-bit width and height
+    width = (data[6] | (data[7] << 8)) & 0x3fff;
+    height = (data[8] | (data[9] << 8)) & 0x3fff;
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = alpha ? VP8X_ALPHA_FLAG : 0;
+  vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+  vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+  return vp8x;
+}
@@ -0,0 +1,96 @@
+/**
+ * RasterImage - Decoded pixels shared by the codecs and transforms
+ *
+ * Pixels are 8-bit RGBA, row-major, not premultiplied.
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;  // width * height * 4
+}
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export const IMAGE_FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+export function createRasterImage(width: number, height: number): RasterImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+/**
+ * Identify an encoded image by its signature (the provider's mimeType is not always accurate)
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length >= 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (bytes.length >= 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * Why decodeImage cannot read an image (WebP, progressive or other non-baseline JPEG),
+ * or null when it can. Such images are only saved as-is - no resize, crop or conversion.
+ * Reads the JPEG segments up to the frame header, so a truncated prefix of the file will do.
+ */
+export function getUndecodableReason(bytes: Uint8Array): string | null {
+  const format = detectImageFormat(bytes);
+  if (format === 'webp') {
+    return 'WebP images cannot be resized or converted';
+  }
+  if (format !== 'jpeg') {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      return null;  // scan data before any frame header - let the decoder report it
+    }
+    if (marker === 0xc2) {
+      return 'Progressive JPEGs cannot be resized or converted';
+    }
+    if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return 'Only baseline JPEGs can be resized or converted';
+    }
+    if (marker === 0xc0 || marker === 0xc1) {
+      return null;
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return null;
+}
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,412 @@
+/**
+ * WebpEncoder - Lossless WebP (VP8L) encoding
+ *
+ * Applies the subtract-green and predictor transforms (left, top or gradient per
+ * 16px block), then prefix-codes the residuals with simple run-length backward
+ * references. Quality below 100 quantizes colour channels first (near-lossless),
+ * trading exactness for size the same way cwebp's -near_lossless does.
+ */
+import { RasterImage } from './RasterImage';
+
+const MAX_DIMENSION = 16384;
+const PREDICTOR_BITS = 4;  // 16x16 blocks
+const PREDICTOR_MODES = [1, 2, 12];  // left, top, clamped gradient
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_COPY_LENGTH = 4096;
+const MIN_COPY_LENGTH = 3;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/** A literal pixel or a backward copy (distance in pixels) */
+type Token = { argb: number } | { length: number; distance: number };
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  /** LSB-first, up to 16 bits at a time */
+  write(value: number, bits: number): void {
+    this.buffer |= (value & ((1 << bits) - 1)) << this.count;
+    this.count += bits;
+    while (this.count >= 8) {
+      this.bytes.push(this.buffer & 0xff);
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  finish(): number[] {
+    if (this.count > 0) {
+      this.bytes.push(this.buffer & 0xff);
+      this.buffer = 0;
+      this.count = 0;
+    }
+    return this.bytes;
+  }
+}
+
+interface PrefixCode {
+  lengths: Uint8Array;
+  codes: Uint16Array;  // bit-reversed, ready to write LSB-first
+}
+
+/**
+ * Huffman code lengths limited to `maxLength`. Rare symbols are boosted until the
+ * tree fits, which keeps the code complete (VP8L decoders reject incomplete codes).
+ */
+function buildCodeLengths(histogram: Uint32Array, maxLength: number): Uint8Array {
+  const lengths = new Uint8Array(histogram.length);
+  const used = [...histogram.keys()].filter((symbol) => histogram[symbol] > 0);
+  if (used.length <= 1) {
+    // Callers write single-symbol codes as simple codes; pad others to two symbols
+    used.forEach((symbol) => { lengths[symbol] = 1; });
+    return lengths;
+  }
+
+  for (let floor = 1; ; floor *= 2) {
+    let nodes = used.map((symbol) => ({ weight: Math.max(histogram[symbol], floor), symbols: [symbol] }));
+    lengths.fill(0);
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [first, second] = nodes;
+      const merged = { weight: first.weight + second.weight, symbols: [...first.symbols, ...second.symbols] };
+      merged.symbols.forEach((symbol) => { lengths[symbol]++; });
+      nodes = [merged, ...nodes.slice(2)];
+    }
+    if (Math.max(...lengths) <= maxLength) {
+      return lengths;
+    }
+  }
+}
+
+/** Canonical codes from lengths (deflate order), bit-reversed for LSB-first output */
+function buildPrefixCode(lengths: Uint8Array): PrefixCode {
+  const counts = new Uint16Array(16);
+  lengths.forEach((length) => { counts[length]++; });
+  counts[0] = 0;
+
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let length = 1; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1;
+    next[length] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length) {
+      let value = next[length]++;
+      let reversed = 0;
+      for (let i = 0; i < length; i++) {
+        reversed = (reversed << 1) | (value & 1);
+        value >>= 1;
+      }
+      codes[symbol] = reversed;
+    }
+  });
+  return { lengths, codes };
+}
+
+/**
+ * Write a prefix code for the histogram and return it. A code with a single
+ * symbol is written as a "simple" code, whose symbol then takes zero bits.
+ */
+function writePrefixCode(writer: BitWriter, histogram: Uint32Array): PrefixCode {
+  const used = [...histogram.keys()].filter((symbol) => histogram[symbol] > 0);
+  if (used.length <= 1 && (used[0] ?? 0) < 256) {
+    const symbol = used[0] ?? 0;
+    writer.write(1, 1);              // simple code
+    writer.write(0, 1);              // one symbol
+    writer.write(symbol > 1 ? 1 : 0, 1);
+    writer.write(symbol, symbol > 1 ? 8 : 1);
+    return { lengths: new Uint8Array(histogram.length), codes: new Uint16Array(histogram.length) };
+  }
+
+  if (used.length === 1) {
+    histogram = Uint32Array.from(histogram);
+    histogram[used[0] === 0 ? 1 : 0] = 1;  // a lone symbol >= 256 needs a partner
+  }
+  const lengths = buildCodeLengths(histogram, 15);
+
+  // Code lengths as symbols: 0-15 literal, 17/18 zero runs
+  const tokens: Array<{ symbol: number; extra?: number; extraBits?: number }> = [];
+  for (let i = 0; i < lengths.length;) {
+    if (lengths[i] === 0) {
+      let run = 1;
+      while (i + run < lengths.length && lengths[i + run] === 0 && run < 138) {
+        run++;
+      }
+      if (run >= 11) {
+        tokens.push({ symbol: 18, extra: run - 11, extraBits: 7 });
+        i += run;
+        continue;
+      }
+      if (run >= 3) {
+        tokens.push({ symbol: 17, extra: run - 3, extraBits: 3 });
+        i += run;
+        continue;
+      }
+    }
+    tokens.push({ symbol: lengths[i] });
+    i++;
+  }
+
+  const lengthHistogram = new Uint32Array(19);
+  tokens.forEach((token) => { lengthHistogram[token.symbol]++; });
+  if (tokens.every((token) => token.symbol === tokens[0].symbol)) {
+    lengthHistogram[tokens[0].symbol === 0 ? 1 : 0] = 1;
+  }
+  const lengthCode = buildPrefixCode(buildCodeLengths(lengthHistogram, 7));
+
+  let count = CODE_LENGTH_ORDER.length;
+  while (count > 4 && lengthCode.lengths[CODE_LENGTH_ORDER[count - 1]] === 0) {
+    count--;
+  }
+
+  writer.write(0, 1);            // normal code
+  writer.write(count - 4, 4);
+  for (let i = 0; i < count; i++) {
+    writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  writer.write(0, 1);            // lengths for the whole alphabet
+  for (const token of tokens) {
+    writer.write(lengthCode.codes[token.symbol], lengthCode.lengths[token.symbol]);
+    if (token.extraBits) {
+      writer.write(token.extra ?? 0, token.extraBits);
+    }
+  }
+
+  return buildPrefixCode(lengths);
+}
+
+/** VP8L prefix coding of copy lengths and distances (value >= 1) */
+function toPrefix(value: number): { code: number; extraBits: number; extra: number } {
+  const d = value - 1;
+  if (d < 4) {
+    return { code: d, extraBits: 0, extra: 0 };
+  }
+  const highest = 31 - Math.clz32(d);
+  const second = (d >> (highest - 1)) & 1;
+  const extraBits = highest - 1;
+  return { code: 2 * highest + second, extraBits, extra: d & ((1 << extraBits) - 1) };
+}
+
+/**
+ * Literals plus copies of the previous pixel or the pixel above - cheap, and
+ * enough for the flat areas generated art is full of
+ */
+function tokenize(pixels: Uint32Array, width: number): Token[] {
+  const tokens: Token[] = [];
+  for (let i = 0; i < pixels.length;) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    for (const distance of [1, width]) {
+      if (distance > i) {
+        continue;
+      }
+      let length = 0;
+      while (i + length < pixels.length && length < MAX_COPY_LENGTH && pixels[i + length] === pixels[i + length - distance]) {
+        length++;
+      }
+      if (length > bestLength) {
+        bestLength = length;
+        bestDistance = distance;
+      }
+    }
+
+    if (bestLength >= MIN_COPY_LENGTH) {
+      tokens.push({ length: bestLength, distance: bestDistance });
+      i += bestLength;
+    } else {
+      tokens.push({ argb: pixels[i] });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Write an entropy-coded image: five prefix codes, then the tokens
+ */
+function writeImageData(writer: BitWriter, tokens: Token[]): void {
+  const green = new Uint32Array(256 + NUM_LENGTH_CODES);
+  const red = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const alpha = new Uint32Array(256);
+  const distance = new Uint32Array(NUM_DISTANCE_CODES);
+
+  for (const token of tokens) {
+    if ('argb' in token) {
+      green[(token.argb >>> 8) & 0xff]++;
+      red[(token.argb >>> 16) & 0xff]++;
+      blue[token.argb & 0xff]++;
+      alpha[token.argb >>> 24]++;
+    } else {
+      green[256 + toPrefix(token.length).code]++;
+      distance[toPrefix(token.distance + 120).code]++;
+    }
+  }
+
+  const codes = [green, red, blue, alpha, distance].map((histogram) => writePrefixCode(writer, histogram));
+  const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+  const emit = (code: PrefixCode, symbol: number) => writer.write(code.codes[symbol], code.lengths[symbol]);
+
+  for (const token of tokens) {
+    if ('argb' in token) {
+      emit(greenCode, (token.argb >>> 8) & 0xff);
+      emit(redCode, (token.argb >>> 16) & 0xff);
+      emit(blueCode, token.argb & 0xff);
+      emit(alphaCode, token.argb >>> 24);
+    } else {
+      // Distance codes 1-120 are 2D neighbourhood shortcuts; plain distances start at 121
+      const length = toPrefix(token.length);
+      emit(greenCode, 256 + length.code);
+      writer.write(length.extra, length.extraBits);
+      const dist = toPrefix(token.distance + 120);
+      emit(distanceCode, dist.code);
+      writer.write(dist.extra, dist.extraBits);
+    }
+  }
+}
+
+function subtractPixels(a: number, b: number): number {
+  return (((a >>> 24) - (b >>> 24)) & 0xff) << 24
+    | ((((a >>> 16) & 0xff) - ((b >>> 16) & 0xff)) & 0xff) << 16
+    | ((((a >>> 8) & 0xff) - ((b >>> 8) & 0xff)) & 0xff) << 8
+    | (((a & 0xff) - (b & 0xff)) & 0xff);
+}
+
+function clampedGradient(left: number, top: number, topLeft: number): number {
+  let result = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = ((left >>> shift) & 0xff) + ((top >>> shift) & 0xff) - ((topLeft >>> shift) & 0xff);
+    result |= (value < 0 ? 0 : value > 255 ? 255 : value) << shift;
+  }
+  return result >>> 0;
+}
+
+function predict(mode: number, pixels: Uint32Array, index: number, width: number): number {
+  const left = pixels[index - 1];
+  const top = pixels[index - width];
+  switch (mode) {
+    case 1: return left;
+    case 2: return top;
+    default: return clampedGradient(left, top, pixels[index - width - 1]);
+  }
+}
+
+function absResidual(a: number, b: number): number {
+  let sum = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const diff = (((a >>> shift) & 0xff) - ((b >>> shift) & 0xff)) & 0xff;
+    sum += diff < 128 ? diff : 256 - diff;
+  }
+  return sum;
+}
+
+/**
+ * Predictor transform: choose a mode per block, return the block modes and residuals
+ */
+function applyPredictor(pixels: Uint32Array, width: number, height: number): { modes: Uint32Array; residuals: Uint32Array } {
+  const blockSize = 1 << PREDICTOR_BITS;
+  const blocksWide = Math.ceil(width / blockSize);
+  const blocksHigh = Math.ceil(height / blockSize);
+  const modes = new Uint32Array(blocksWide * blocksHigh);
+  const residuals = new Uint32Array(pixels.length);
+
+  for (let by = 0; by < blocksHigh; by++) {
+    for (let bx = 0; bx < blocksWide; bx++) {
+      let bestMode = PREDICTOR_MODES[0];
+      let bestCost = Infinity;
+      for (const mode of PREDICTOR_MODES) {
+        let cost = 0;
+        for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+          for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+            if (x > 0 && y > 0) {
+              const index = y * width + x;
+              cost += absResidual(pixels[index], predict(mode, pixels, index, width));
+            }
+          }
+        }
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestMode = mode;
+        }
+      }
+      modes[by * blocksWide + bx] = (0xff000000 | (bestMode << 8)) >>> 0;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      // Fixed rules for the edges: black for the first pixel, left along the top row, top down the left column
+      const prediction = x === 0 && y === 0 ? 0xff000000
+        : y === 0 ? pixels[index - 1]
+          : x === 0 ? pixels[index - width]
+            : predict((modes[(y >> PREDICTOR_BITS) * blocksWide + (x >> PREDICTOR_BITS)] >>> 8) & 0xff, pixels, index, width);
+      residuals[index] = subtractPixels(pixels[index], prediction) >>> 0;
+    }
+  }
+
+  return { modes, residuals };
+}
+
+/**
+ * Encode as lossless WebP. quality < 100 rounds colour channels to coarser steps first.
+ */
+export function encodeWebp(image: RasterImage, quality = 100): Uint8Array {
+  const { width, height, data } = image;
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`WebP images are limited to ${MAX_DIMENSION}px per side`);
+  }
+
+  const step = quality >= 100 ? 1 : quality >= 90 ? 2 : quality >= 70 ? 4 : quality >= 40 ? 8 : 16;
+  const quantize = (value: number) => step === 1 ? value : Math.min(255, Math.round(value / step) * step);
+
+  let hasAlpha = false;
+  const pixels = new Uint32Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const a = data[i * 4 + 3];
+    const r = quantize(data[i * 4]);
+    const g = quantize(data[i * 4 + 1]);
+    const b = quantize(data[i * 4 + 2]);
+    hasAlpha ||= a !== 255;
+    // Subtract green: red and blue are coded relative to green
+    pixels[i] = ((a << 24) | (((r - g) & 0xff) << 16) | (g << 8) | ((b - g) & 0xff)) >>> 0;
+  }
+
+  const writer = new BitWriter();
+  writer.write(0x2f, 8);                 // VP8L signature
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(hasAlpha ? 1 : 0, 1);
+  writer.write(0, 3);                    // version
+
+  writer.write(1, 1);                    // transform: subtract green
+  writer.write(2, 2);
+
+  const { modes, residuals } = applyPredictor(pixels, width, height);
+  writer.write(1, 1);                    // transform: predictor
+  writer.write(0, 2);
+  writer.write(PREDICTOR_BITS - 2, 3);
+  writer.write(0, 1);                    // block modes: no color cache
+  writeImageData(writer, tokenize(modes, Math.ceil(width / (1 << PREDICTOR_BITS))));
+
+  writer.write(0, 1);                    // no more transforms
+  writer.write(0, 1);                    // no color cache
+  writer.write(0, 1);                    // single prefix code group
+  writeImageData(writer, tokenize(residuals, width));
+
+  const payload = writer.finish();
+  const padding = payload.length % 2;
+  const out = new Uint8Array(20 + payload.length + padding);
+  const view = new DataView(out.buffer);
+  out.set([0x52, 0x49, 0x46, 0x46], 0);  // RIFF
+  view.setUint32(4, 12 + payload.length + padding, true);
+  out.set([0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x4c], 8);  // WEBPVP8L
+  view.setUint32(16, payload.length, true);
+  out.set(payload, 20);
+  return out;
+}
@@ -0,0 +1,28 @@
+export { processImage, decodeImage, encodeImage } from './ImageProcessor';
+export type { ProcessedImage } from './ImageProcessor';
+export { cropImage, cropToAspect, resizeImage, MAX_OUTPUT_DIMENSION } from './ImageTransforms';
+export { stripImageMetadata } from './ImageMetadata';
+export {
+  embedProvenance,
+  embedSvgProvenance,
+  readProvenance,
+  readSvgProvenance,
+  serializeProvenanceSidecar,
+  parseProvenanceSidecar,
+  PROVENANCE_SIDECAR_SUFFIX,
+} from './Provenance';
+export { buildIconBundle, encodeIco, FAVICON_ICO_SIZES } from './IconBundle';
+export type { IconBundleFile, IconBundleOptions } from './IconBundle';
+export { decodePng, encodePng, readPngChunks, writePngChunks } from './PngCodec';
+export type { PngChunk } from './PngCodec';
+export { decodeJpeg } from './JpegDecoder';
+export { encodeJpeg } from './JpegEncoder';
+export { encodeWebp } from './WebpEncoder';
+export {
+  createRasterImage,
+  detectImageFormat,
+  getUndecodableReason,
+  IMAGE_FORMAT_EXTENSIONS,
+  IMAGE_FORMAT_MIME_TYPES,
+} from './RasterImage';
+export type { ImageFormat, RasterImage } from './RasterImage';
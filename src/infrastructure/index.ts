@@ -7,3 +7,5 @@ export * from './secrets';
 export * from './ai';
 export * from './logging';
 export * from './resources';
+export * from './storage';
+export * from './imaging';
@@ -0,0 +1,92 @@
+/**
+ * PromptTemplates - The markdown file format of prompt templates
+ *
+ * A template is a markdown file whose body is the prompt, with {{variable}}
+ * placeholders, and an optional front matter block of `key: value` lines:
+ *
+ *   ---
+ *   name: Isometric icon
+ *   type: image
+ *   model: google/gemini-2.5-flash-image
+ *   aspectRatio: 1:1
+ *   ---
+ *   Isometric icon of {{subject}} in the {{brand}} palette
+ *
+ * Pure functions (no vscode) - the webview fills templates with the same code.
+ */
+import { PromptTemplate, PromptTemplateSavePayload, isAspectRatio } from '@messages';
+
+export const PROMPT_TEMPLATE_EXTENSION = '.md';
+
+export type ParsedPromptTemplate = Omit<PromptTemplate, 'id' | 'scope'>;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const VARIABLE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Placeholder names in order of first appearance
+ */
+export function extractTemplateVariables(body: string): string[] {
+  const names = Array.from(body.matchAll(VARIABLE), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace placeholders with their values - unfilled placeholders are kept as written
+ */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * @param fallbackName - Used when the front matter has no name (usually the file name)
+ */
+export function parsePromptTemplate(markdown: string, fallbackName: string): ParsedPromptTemplate {
+  const frontMatter = FRONT_MATTER.exec(markdown);
+  const fields = new Map<string, string>();
+  for (const line of frontMatter?.[1].split(/\r?\n/) ?? []) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields.set(line.slice(0, separator).trim(), unquote(line.slice(separator + 1).trim()));
+    }
+  }
+
+  const body = (frontMatter ? markdown.slice(frontMatter[0].length) : markdown).trim();
+  const aspectRatio = fields.get('aspectRatio');
+  return {
+    name: fields.get('name') || fallbackName,
+    description: fields.get('description') || undefined,
+    type: fields.get('type') === 'svg' ? 'svg' : 'image',
+    model: fields.get('model') || undefined,
+    aspectRatio: aspectRatio && isAspectRatio(aspectRatio) ? aspectRatio : undefined,
+    body,
+    variables: extractTemplateVariables(body),
+  };
+}
+
+export function serializePromptTemplate(template: PromptTemplateSavePayload): string {
+  const fields: Array<[string, string | undefined]> = [
+    ['name', template.name],
+    ['description', template.description],
+    ['type', template.type],
+    ['model', template.model],
+    ['aspectRatio', template.aspectRatio],
+  ];
+  const lines = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([key, value]) => `${key}: ${value.replace(/\s*\r?\n\s*/g, ' ')}`);
+  return `---\n${lines.join('\n')}\n---\n${template.body.trim()}\n`;
+}
+
+/**
+ * File name for a new template: "Isometric Icon!" -> isometric-icon.md
+ */
+export function promptTemplateFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'template'}${PROMPT_TEMPLATE_EXTENSION}`;
+}
+
+function unquote(value: string): string {
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  return quoted ? quoted[2] : value;
+}
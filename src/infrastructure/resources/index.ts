@@ -1 +1,10 @@
 export { PromptLoader } from './PromptLoader';
+export {
+  PROMPT_TEMPLATE_EXTENSION,
+  extractTemplateVariables,
+  fillTemplate,
+  parsePromptTemplate,
+  serializePromptTemplate,
+  promptTemplateFileName,
+} from './PromptTemplates';
+export type { ParsedPromptTemplate } from './PromptTemplates';
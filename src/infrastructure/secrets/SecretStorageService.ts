@@ -6,10 +6,14 @@
  * - Windows: Credential Manager
  * - Linux: libsecret
  *
+ * One key per provider. The OpenRouter key keeps its original secret name so
+ * existing installs stay configured.
+ *
  * Reference: docs/example-repo/src/infrastructure/secrets/SecretStorageService.ts
  */
 import * as vscode from 'vscode';
 import { LoggingService } from '@logging';
+import { ProviderId } from '../../shared/types/providers';
 
 export class SecretStorageService {
   private static readonly API_KEY_SECRET = 'openRouterApiKey';
@@ -21,11 +25,12 @@ export class SecretStorageService {
 
   /**
    * Get the stored API key
+   * @param provider Provider the key belongs to (defaults to OpenRouter)
    * @returns The API key or undefined if not set
    */
-  async getApiKey(): Promise<string | undefined> {
+  async getApiKey(provider: ProviderId = 'openrouter'): Promise<string | undefined> {
     try {
-      return await this.secrets.get(SecretStorageService.API_KEY_SECRET);
+      return await this.secrets.get(SecretStorageService.secretName(provider));
     } catch (error) {
       this.logger.error('Failed to retrieve API key from SecretStorage', error);
       return undefined;
@@ -35,10 +40,11 @@ export class SecretStorageService {
   /**
    * Store the API key securely
    * @param key The API key to store
+   * @param provider Provider the key belongs to (defaults to OpenRouter)
    */
-  async setApiKey(key: string): Promise<void> {
+  async setApiKey(key: string, provider: ProviderId = 'openrouter'): Promise<void> {
     try {
-      await this.secrets.store(SecretStorageService.API_KEY_SECRET, key);
+      await this.secrets.store(SecretStorageService.secretName(provider), key);
       this.logger.info('API key stored successfully');
     } catch (error) {
       this.logger.error('Failed to store API key in SecretStorage', error);
@@ -48,10 +54,11 @@ export class SecretStorageService {
 
   /**
    * Delete the stored API key
+   * @param provider Provider the key belongs to (defaults to OpenRouter)
    */
-  async deleteApiKey(): Promise<void> {
+  async deleteApiKey(provider: ProviderId = 'openrouter'): Promise<void> {
     try {
-      await this.secrets.delete(SecretStorageService.API_KEY_SECRET);
+      await this.secrets.delete(SecretStorageService.secretName(provider));
       this.logger.info('API key deleted successfully');
     } catch (error) {
       this.logger.error('Failed to delete API key from SecretStorage', error);
@@ -61,10 +68,11 @@ export class SecretStorageService {
 
   /**
    * Check if an API key is configured (without revealing the key)
+   * @param provider Provider the key belongs to (defaults to OpenRouter)
    * @returns true if an API key is stored
    */
-  async hasApiKey(): Promise<boolean> {
-    const key = await this.getApiKey();
+  async hasApiKey(provider: ProviderId = 'openrouter'): Promise<boolean> {
+    const key = await this.getApiKey(provider);
     return key !== undefined && key.length > 0;
   }
 
@@ -78,4 +86,10 @@ export class SecretStorageService {
       listener();
     });
   }
+
+  private static secretName(provider: ProviderId): string {
+    return provider === 'openrouter'
+      ? SecretStorageService.API_KEY_SECRET
+      : `${provider}ApiKey`;
+  }
 }
@@ -0,0 +1,233 @@
+/**
+ * BudgetStore - Spending caps and spend per period, kept in ExtensionContext.globalState
+ *
+ * Session spend lives in memory (one VS Code session); daily and monthly spend are
+ * persisted and roll over when the local calendar day/month changes. Token display
+ * resets in the webview do not touch these totals.
+ *
+ * Running generations hold a reservation of their estimated cost, keyed by their correlationId,
+ * so generations admitted side by side cannot all pass a cap. Spend recorded for a generation
+ * settles its own reservation; the rest is released when it ends.
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import {
+  BudgetLimits,
+  BudgetPeriod,
+  BudgetSpend,
+  BudgetStatusPayload,
+  DEFAULT_BUDGET_LIMITS,
+} from '@messages';
+
+const LIMITS_KEY = 'pixelMinion.budget.limits';
+const SPEND_KEY = 'pixelMinion.budget.spend';
+
+interface StoredSpend {
+  day: string;     // YYYY-MM-DD
+  dailyUsd: number;
+  dailyWarned: boolean;
+  month: string;   // YYYY-MM
+  monthlyUsd: number;
+  monthlyWarned: boolean;
+}
+
+/**
+ * Why a generation was refused
+ */
+export interface BudgetBlock {
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  reservedUsd: number;  // held by generations still running
+  estimateUsd: number;
+}
+
+/**
+ * A cap whose warning threshold was just reached
+ */
+export interface BudgetWarning {
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+}
+
+export class BudgetStore {
+  private sessionUsd = 0;
+  private sessionWarned = false;
+  // Open reservations by generation - amounts shrink as its spend is recorded
+  private readonly reservations = new Map<string, number>();
+  // Serializes spend updates so concurrent variations never lose an amount
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly state: vscode.Memento,
+    private readonly logger: LoggingService,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  getLimits(): BudgetLimits {
+    return { ...DEFAULT_BUDGET_LIMITS, ...this.state.get<Partial<BudgetLimits>>(LIMITS_KEY, {}) };
+  }
+
+  /**
+   * Update some caps - negative amounts become 0 (no cap), the threshold is kept within 1-100
+   */
+  async setLimits(update: Partial<BudgetLimits>): Promise<BudgetLimits> {
+    const limits = { ...this.getLimits(), ...update };
+    const sanitized: BudgetLimits = {
+      sessionUsd: Math.max(0, Number(limits.sessionUsd) || 0),
+      dailyUsd: Math.max(0, Number(limits.dailyUsd) || 0),
+      monthlyUsd: Math.max(0, Number(limits.monthlyUsd) || 0),
+      warnAtPercent: Math.min(100, Math.max(1, Number(limits.warnAtPercent) || DEFAULT_BUDGET_LIMITS.warnAtPercent)),
+    };
+    await this.state.update(LIMITS_KEY, sanitized);
+    this.logger.info('Budget limits updated', sanitized);
+    return sanitized;
+  }
+
+  getSpend(): BudgetSpend {
+    const stored = this.currentSpend();
+    return {
+      sessionUsd: this.sessionUsd,
+      dailyUsd: stored.dailyUsd,
+      monthlyUsd: stored.monthlyUsd,
+    };
+  }
+
+  getStatus(): BudgetStatusPayload {
+    const limits = this.getLimits();
+    const spend = this.getSpend();
+    const remaining = this.activeCaps(limits, spend).map(({ limitUsd, spentUsd }) => Math.max(0, limitUsd - spentUsd));
+    return {
+      limits,
+      spend,
+      remainingUsd: remaining.length > 0 ? Math.min(...remaining) : null,
+    };
+  }
+
+  /**
+   * Check whether a generation estimated at `estimateUsd` fits every cap, next to what
+   * running generations have reserved.
+   * A cap that is already used up blocks even when the estimate is unknown (0).
+   */
+  check(estimateUsd: number): BudgetBlock | null {
+    const limits = this.getLimits();
+    const reservedUsd = this.getReservedUsd();
+    for (const cap of this.activeCaps(limits, this.getSpend())) {
+      if (cap.spentUsd >= cap.limitUsd || cap.spentUsd + reservedUsd + estimateUsd > cap.limitUsd) {
+        return { ...cap, reservedUsd, estimateUsd };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Hold an admitted generation's estimate until it ends - call right after a passing check()
+   * @param reservationKey - the generation's correlationId, which its recorded spend names
+   */
+  reserve(reservationKey: string, estimateUsd: number): void {
+    this.reservations.set(reservationKey, Math.max(0, estimateUsd));
+  }
+
+  /**
+   * Drop what is left of a reservation once its generation ends. Queued behind pending
+   * spend, so the generation's own usage settles against it first.
+   */
+  release(reservationKey: string): Promise<void> {
+    const run = this.queue.then(() => {
+      this.reservations.delete(reservationKey);
+    });
+    this.queue = run;
+    return run;
+  }
+
+  getReservedUsd(): number {
+    let total = 0;
+    for (const amount of this.reservations.values()) {
+      total += amount;
+    }
+    return total;
+  }
+
+  /**
+   * Add spend to every period; resolves with caps whose warning threshold was just reached
+   * @param reservationKey - the generation the spend came from, whose reservation it settles
+   */
+  recordSpend(costUsd: number, reservationKey?: string): Promise<BudgetWarning[]> {
+    const run = this.queue.then(async () => {
+      if (!(costUsd > 0)) {
+        return [];
+      }
+
+      const stored = this.currentSpend();
+      this.sessionUsd += costUsd;
+      stored.dailyUsd += costUsd;
+      stored.monthlyUsd += costUsd;
+      this.settleReservation(costUsd, reservationKey);
+
+      const limits = this.getLimits();
+      const reached = (limitUsd: number, spentUsd: number) =>
+        limitUsd > 0 && spentUsd >= (limitUsd * limits.warnAtPercent) / 100;
+
+      const warnings: BudgetWarning[] = [];
+      if (!this.sessionWarned && reached(limits.sessionUsd, this.sessionUsd)) {
+        this.sessionWarned = true;
+        warnings.push({ period: 'session', limitUsd: limits.sessionUsd, spentUsd: this.sessionUsd });
+      }
+      if (!stored.dailyWarned && reached(limits.dailyUsd, stored.dailyUsd)) {
+        stored.dailyWarned = true;
+        warnings.push({ period: 'daily', limitUsd: limits.dailyUsd, spentUsd: stored.dailyUsd });
+      }
+      if (!stored.monthlyWarned && reached(limits.monthlyUsd, stored.monthlyUsd)) {
+        stored.monthlyWarned = true;
+        warnings.push({ period: 'monthly', limitUsd: limits.monthlyUsd, spentUsd: stored.monthlyUsd });
+      }
+
+      await this.state.update(SPEND_KEY, stored);
+      return warnings;
+    });
+    this.queue = run.catch((error) => this.logger.error('Failed to record spend', error));
+    return run;
+  }
+
+  /**
+   * Recorded spend replaces the estimate its generation holds. Spend from calls that
+   * reserved nothing (text, enhance) leaves every reservation as it is.
+   */
+  private settleReservation(costUsd: number, reservationKey?: string): void {
+    const amount = reservationKey !== undefined ? this.reservations.get(reservationKey) : undefined;
+    if (reservationKey !== undefined && amount !== undefined) {
+      this.reservations.set(reservationKey, Math.max(0, amount - costUsd));
+    }
+  }
+
+  private activeCaps(limits: BudgetLimits, spend: BudgetSpend): Omit<BudgetBlock, 'estimateUsd' | 'reservedUsd'>[] {
+    const caps: Omit<BudgetBlock, 'estimateUsd' | 'reservedUsd'>[] = [
+      { period: 'session', limitUsd: limits.sessionUsd, spentUsd: spend.sessionUsd },
+      { period: 'daily', limitUsd: limits.dailyUsd, spentUsd: spend.dailyUsd },
+      { period: 'monthly', limitUsd: limits.monthlyUsd, spentUsd: spend.monthlyUsd },
+    ];
+    return caps.filter((cap) => cap.limitUsd > 0);
+  }
+
+  /**
+   * Stored spend with periods that have ended reset to zero
+   */
+  private currentSpend(): StoredSpend {
+    const date = this.now();
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const day = `${month}-${String(date.getDate()).padStart(2, '0')}`;
+    const stored = this.state.get<StoredSpend>(SPEND_KEY);
+
+    const sameMonth = stored?.month === month;
+    const sameDay = sameMonth && stored?.day === day;
+    return {
+      day,
+      dailyUsd: sameDay ? stored.dailyUsd : 0,
+      dailyWarned: sameDay ? stored.dailyWarned : false,
+      month,
+      monthlyUsd: sameMonth ? stored.monthlyUsd : 0,
+      monthlyWarned: sameMonth ? stored.monthlyWarned : false,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * ConversationStore - Persists conversation state under ExtensionContext.globalStorageUri
+ *
+ * The in-memory conversation managers lose everything on restart, and the webview
+ * history they fall back to is lossy (no thought signatures or reasoning_details).
+ * This store keeps the exact provider messages so continuation survives a restart.
+ *
+ * Layout: <globalStorage>/conversations/<kind>/<id>.json plus an index.json used for eviction
+ * Limits: per-conversation size cap, total size cap and max count (least recently saved evicted first)
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import { JsonIndexStore } from './JsonIndexStore';
+
+export type ConversationKind = 'image' | 'svg' | 'text';
+
+export interface ConversationStoreOptions {
+  maxConversationBytes?: number;
+  maxTotalBytes?: number;
+  maxConversations?: number;
+}
+
+interface ConversationIndexEntry {
+  id: string;
+  kind: ConversationKind;
+  bytes: number;
+  updatedAt: number;
+}
+
+const DEFAULT_MAX_CONVERSATION_BYTES = 32 * 1024 * 1024;  // 32MB - a few turns of base64 images
+const DEFAULT_MAX_TOTAL_BYTES = 256 * 1024 * 1024;        // 256MB
+const DEFAULT_MAX_CONVERSATIONS = 100;
+
+export class ConversationStore {
+  private readonly store: JsonIndexStore<ConversationIndexEntry>;
+  private readonly maxConversationBytes: number;
+  private readonly maxTotalBytes: number;
+  private readonly maxConversations: number;
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly logger: LoggingService,
+    options: ConversationStoreOptions = {}
+  ) {
+    this.store = new JsonIndexStore(vscode.Uri.joinPath(storageUri, 'conversations'), logger, 'Conversation store');
+    this.maxConversationBytes = options.maxConversationBytes ?? DEFAULT_MAX_CONVERSATION_BYTES;
+    this.maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+    this.maxConversations = options.maxConversations ?? DEFAULT_MAX_CONVERSATIONS;
+  }
+
+  /**
+   * Save a conversation snapshot. The state is serialized immediately, so later
+   * mutations by the caller are not written. Never rejects - failures are logged.
+   */
+  save<T extends { id: string }>(kind: ConversationKind, state: T): Promise<void> {
+    const json = JSON.stringify(state);
+    const bytes = Buffer.byteLength(json, 'utf-8');
+
+    return this.store.enqueue(async () => {
+      if (bytes > this.maxConversationBytes) {
+        this.logger.warn(`Conversation ${state.id} is too large to persist (${bytes} bytes); dropping stored copy`);
+        await this.removeEntry(kind, state.id);
+        return;
+      }
+
+      await this.store.ensureDirectory(kind);
+      await vscode.workspace.fs.writeFile(this.store.fileUri(state.id, kind), Buffer.from(json, 'utf-8'));
+
+      const index = await this.store.loadIndex();
+      const entries = index.filter((entry) => !(entry.kind === kind && entry.id === state.id));
+      entries.push({ id: state.id, kind, bytes, updatedAt: Date.now() });
+      this.store.setIndex(entries);
+
+      await this.evict(kind, state.id);
+      await this.store.writeIndex();
+      this.logger.debug(`Persisted ${kind} conversation ${state.id} (${bytes} bytes)`);
+    }, undefined);
+  }
+
+  /**
+   * Load a stored conversation
+   * @returns undefined if not stored or unreadable
+   */
+  load<T extends { id: string }>(kind: ConversationKind, id: string): Promise<T | undefined> {
+    return this.store.enqueue(async () => {
+      const index = await this.store.loadIndex();
+      if (!index.some((entry) => entry.kind === kind && entry.id === id)) {
+        return undefined;
+      }
+
+      const content = await vscode.workspace.fs.readFile(this.store.fileUri(id, kind));
+      const state = JSON.parse(Buffer.from(content).toString('utf-8')) as T;
+      this.logger.debug(`Loaded ${kind} conversation ${id} from storage`);
+      return state;
+    }, undefined);
+  }
+
+  /**
+   * Delete a stored conversation
+   */
+  delete(kind: ConversationKind, id: string): Promise<void> {
+    return this.store.enqueue(async () => {
+      await this.removeEntry(kind, id);
+    }, undefined);
+  }
+
+  /**
+   * Delete every stored conversation
+   */
+  clearAll(): Promise<void> {
+    return this.store.enqueue(async () => {
+      try {
+        await vscode.workspace.fs.delete(this.store.rootUri, { recursive: true, useTrash: false });
+      } catch {
+        // Nothing stored yet
+      }
+      this.store.setIndex([]);
+      this.logger.info('Cleared all stored conversations');
+    }, undefined);
+  }
+
+  /**
+   * Drop least recently saved conversations until within limits (keeps the one just saved)
+   */
+  private async evict(keepKind: ConversationKind, keepId: string): Promise<void> {
+    const index = await this.store.loadIndex();
+    const candidates = index
+      .filter((entry) => !(entry.kind === keepKind && entry.id === keepId))
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+
+    let totalBytes = index.reduce((sum, entry) => sum + entry.bytes, 0);
+    let count = index.length;
+
+    for (const entry of candidates) {
+      if (count <= this.maxConversations && totalBytes <= this.maxTotalBytes) {
+        break;
+      }
+      await this.removeEntry(entry.kind, entry.id);
+      totalBytes -= entry.bytes;
+      count--;
+      this.logger.debug(`Evicted stored ${entry.kind} conversation ${entry.id}`);
+    }
+  }
+
+  private async removeEntry(kind: ConversationKind, id: string): Promise<void> {
+    const index = await this.store.loadIndex();
+    const remaining = index.filter((entry) => !(entry.kind === kind && entry.id === id));
+    if (remaining.length === index.length) {
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.delete(this.store.fileUri(id, kind));
+    } catch {
+      // File already gone - the index entry is still dropped
+    }
+    this.store.setIndex(remaining);
+    await this.store.writeIndex();
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * GenerationHistoryStore - Keeps past image/SVG conversations for the History tab
+ *
+ * Stores what the webview displays (turns, thumbnail, cost), not provider messages -
+ * those live in ConversationStore. Restoring a history entry fills the view, and
+ * continueChat then picks up the stored provider conversation by id.
+ *
+ * Layout: <globalStorage>/history/index.json (summaries) plus <id>.json (turns)
+ * Limits: per-entry size cap, total size cap and max count (oldest updated evicted first)
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import { JsonIndexStore } from './JsonIndexStore';
+import {
+  ConversationTurn,
+  HistoryConversation,
+  HistoryEntry,
+  HistoryRecordPayload,
+  SVGConversationHistoryTurn,
+} from '@messages';
+
+type HistoryTurn = ConversationTurn | SVGConversationHistoryTurn;
+
+export interface GenerationHistoryStoreOptions {
+  maxEntryBytes?: number;
+  maxTotalBytes?: number;
+  maxEntries?: number;
+}
+
+interface HistoryIndexEntry extends HistoryEntry {
+  bytes?: number;  // size of <id>.json; missing in indexes written before the size caps
+}
+
+const DEFAULT_MAX_ENTRY_BYTES = 32 * 1024 * 1024;  // 32MB - a few turns of base64 images
+const DEFAULT_MAX_TOTAL_BYTES = 256 * 1024 * 1024; // 256MB
+const DEFAULT_MAX_ENTRIES = 200;
+
+export class GenerationHistoryStore {
+  private readonly store: JsonIndexStore<HistoryIndexEntry>;
+  private readonly maxEntryBytes: number;
+  private readonly maxTotalBytes: number;
+  private readonly maxEntries: number;
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly logger: LoggingService,
+    options: GenerationHistoryStoreOptions = {}
+  ) {
+    this.store = new JsonIndexStore(vscode.Uri.joinPath(storageUri, 'history'), logger, 'Generation history');
+    this.maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+    this.maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Add or replace a turn (matched by turn number) and refresh the entry summary.
+   * Model and aspect ratio are fixed by the first recorded turn.
+   * A conversation that outgrows the per-entry cap is dropped from history.
+   */
+  record(payload: HistoryRecordPayload): Promise<void> {
+    return this.store.enqueue(async () => {
+      const existing = await this.readConversation(payload.conversationId);
+      const turns: HistoryTurn[] = existing && existing.type === payload.type
+        ? existing.turns.filter((turn) => turn.turnNumber !== payload.turn.turnNumber)
+        : [];
+      turns.push(payload.turn);
+      turns.sort((a, b) => (a.turnNumber ?? 0) - (b.turnNumber ?? 0));
+
+      const now = Date.now();
+      const firstTurn = turns[0];
+      const entry: HistoryEntry = {
+        conversationId: payload.conversationId,
+        type: payload.type,
+        prompt: firstTurn.prompt,
+        prompts: turns.map((turn) => turn.prompt),
+        model: existing?.entry.model ?? payload.model,
+        aspectRatio: existing?.entry.aspectRatio ?? payload.aspectRatio,
+        seed: payload.type === 'image' ? (firstTurn as ConversationTurn).images[0]?.seed : undefined,
+        thumbnail: payload.thumbnail ?? existing?.entry.thumbnail,
+        turnCount: turns.length,
+        costUsd: turns.reduce((sum, turn) => sum + (turn.usage?.costUsd ?? 0), 0),
+        createdAt: existing?.entry.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      const json = JSON.stringify({ type: entry.type, entry, turns });
+      const bytes = Buffer.byteLength(json, 'utf-8');
+      if (bytes > this.maxEntryBytes) {
+        this.logger.warn(`History entry ${entry.conversationId} is too large to keep (${bytes} bytes); dropping it`);
+        await this.removeEntry(entry.conversationId);
+        await this.store.writeIndex();
+        return;
+      }
+
+      await this.store.ensureDirectory();
+      await vscode.workspace.fs.writeFile(this.store.fileUri(entry.conversationId), Buffer.from(json, 'utf-8'));
+
+      const index = await this.store.loadIndex();
+      this.store.setIndex([{ ...entry, bytes }, ...index.filter((item) => item.conversationId !== entry.conversationId)]);
+      await this.evict();
+      await this.store.writeIndex();
+      this.logger.debug(`Recorded ${entry.type} history turn for ${entry.conversationId} (${entry.turnCount} turns, ${bytes} bytes)`);
+    }, undefined);
+  }
+
+  /**
+   * List history entries, newest first
+   */
+  list(): Promise<HistoryEntry[]> {
+    return this.store.enqueue<HistoryEntry[]>(async () => [...await this.store.loadIndex()], []);
+  }
+
+  /**
+   * Load a conversation with its turns
+   * @returns undefined if the entry no longer exists
+   */
+  get(conversationId: string): Promise<HistoryConversation | undefined> {
+    return this.store.enqueue(() => this.readConversation(conversationId), undefined);
+  }
+
+  /**
+   * Remove an entry and its turns
+   */
+  delete(conversationId: string): Promise<void> {
+    return this.store.enqueue(async () => {
+      await this.removeEntry(conversationId);
+      await this.store.writeIndex();
+    }, undefined);
+  }
+
+  private async readConversation(conversationId: string): Promise<HistoryConversation | undefined> {
+    const index = await this.store.loadIndex();
+    if (!index.some((entry) => entry.conversationId === conversationId)) {
+      return undefined;
+    }
+
+    const content = await vscode.workspace.fs.readFile(this.store.fileUri(conversationId));
+    return JSON.parse(Buffer.from(content).toString('utf-8')) as HistoryConversation;
+  }
+
+  /**
+   * Drop the oldest entries until within limits (index is kept newest first; the newest always stays)
+   */
+  private async evict(): Promise<void> {
+    const index = await this.store.loadIndex();
+    let totalBytes = index.reduce((sum, entry) => sum + (entry.bytes ?? 0), 0);
+    let count = index.length;
+
+    for (const entry of index.slice(1).reverse()) {
+      if (count <= this.maxEntries && totalBytes <= this.maxTotalBytes) {
+        break;
+      }
+      await this.removeEntry(entry.conversationId);
+      totalBytes -= entry.bytes ?? 0;
+      count--;
+      this.logger.debug(`Evicted history entry ${entry.conversationId}`);
+    }
+  }
+
+  private async removeEntry(conversationId: string): Promise<void> {
+    const index = await this.store.loadIndex();
+    try {
+      await vscode.workspace.fs.delete(this.store.fileUri(conversationId));
+    } catch {
+      // File already gone - the index entry is still dropped
+    }
+    this.store.setIndex(index.filter((entry) => entry.conversationId !== conversationId));
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * JsonIndexStore - One JSON file per record plus an index.json, under a storage directory
+ *
+ * Shared by ConversationStore and GenerationHistoryStore, which keep their own record
+ * layout and eviction rules. Provides:
+ * - a queue that serializes file operations so index updates never interleave
+ * - the cached index (loaded lazily, written back whole)
+ * - filename-safe record URIs
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+
+export class JsonIndexStore<TEntry> {
+  private index: TEntry[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param label - Names the store in failure logs, e.g. "Conversation store"
+   */
+  constructor(
+    readonly rootUri: vscode.Uri,
+    private readonly logger: LoggingService,
+    private readonly label: string
+  ) {}
+
+  /**
+   * Run an operation after the queued ones. Never rejects - failures are logged and yield the fallback.
+   */
+  enqueue<R>(operation: () => Promise<R>, fallback: R): Promise<R> {
+    const run = this.queue.then(operation).catch((error) => {
+      this.logger.error(`${this.label} operation failed`, error);
+      return fallback;
+    });
+    this.queue = run;
+    return run;
+  }
+
+  async loadIndex(): Promise<TEntry[]> {
+    if (this.index) {
+      return this.index;
+    }
+
+    try {
+      const content = await vscode.workspace.fs.readFile(this.indexUri());
+      const parsed = JSON.parse(Buffer.from(content).toString('utf-8'));
+      this.index = Array.isArray(parsed) ? parsed as TEntry[] : [];
+    } catch {
+      this.index = [];
+    }
+    return this.index;
+  }
+
+  /**
+   * Replace the cached index - writeIndex persists it
+   */
+  setIndex(entries: TEntry[]): void {
+    this.index = entries;
+  }
+
+  async writeIndex(): Promise<void> {
+    await this.ensureDirectory();
+    await vscode.workspace.fs.writeFile(
+      this.indexUri(),
+      Buffer.from(JSON.stringify(this.index ?? []), 'utf-8')
+    );
+  }
+
+  async ensureDirectory(subdirectory?: string): Promise<void> {
+    const uri = subdirectory ? vscode.Uri.joinPath(this.rootUri, subdirectory) : this.rootUri;
+    try {
+      await vscode.workspace.fs.createDirectory(uri);
+    } catch {
+      // Directory may already exist
+    }
+  }
+
+  fileUri(id: string, subdirectory?: string): vscode.Uri {
+    // IDs can come from the webview - keep them filename-safe
+    const fileName = `${id.replace(/[^\w.-]/g, '_')}.json`;
+    return subdirectory
+      ? vscode.Uri.joinPath(this.rootUri, subdirectory, fileName)
+      : vscode.Uri.joinPath(this.rootUri, fileName);
+  }
+
+  private indexUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.rootUri, 'index.json');
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * PromptTemplateStore - Prompt templates from the workspace and global storage
+ *
+ * Workspace templates live in <first workspace folder>/.pixel-minion/templates/*.md
+ * so a team can commit them; global ones in <globalStorage>/templates/*.md follow
+ * the user across workspaces. Files are read on every list, so templates edited
+ * by hand show up the next time the picker opens.
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import { PromptTemplate, PromptTemplateSavePayload, PromptTemplateScope } from '@messages';
+import {
+  PROMPT_TEMPLATE_EXTENSION,
+  parsePromptTemplate,
+  serializePromptTemplate,
+  promptTemplateFileName,
+} from '@resources';
+
+export const WORKSPACE_TEMPLATES_PATH = ['.pixel-minion', 'templates'];
+
+export class PromptTemplateStore {
+  private readonly globalUri: vscode.Uri;
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly logger: LoggingService
+  ) {
+    this.globalUri = vscode.Uri.joinPath(storageUri, 'templates');
+  }
+
+  /**
+   * Whether workspace templates can be read and saved (a folder is open)
+   */
+  hasWorkspace(): boolean {
+    return !!this.workspaceUri();
+  }
+
+  /**
+   * All templates - workspace first, then global, each sorted by name
+   */
+  async list(): Promise<PromptTemplate[]> {
+    const workspaceUri = this.workspaceUri();
+    const workspace = workspaceUri ? await this.readDirectory('workspace', workspaceUri) : [];
+    const global = await this.readDirectory('global', this.globalUri);
+    return [...workspace, ...global];
+  }
+
+  /**
+   * Write a template, replacing one with the same name in that scope
+   * @throws Error if the workspace scope is requested with no folder open
+   */
+  async save(template: PromptTemplateSavePayload): Promise<PromptTemplate> {
+    const directoryUri = this.directoryUri(template.scope);
+    const fileName = promptTemplateFileName(template.name);
+    const markdown = serializePromptTemplate(template);
+
+    await vscode.workspace.fs.createDirectory(directoryUri);
+    await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(directoryUri, fileName), Buffer.from(markdown, 'utf-8'));
+    this.logger.info(`Saved ${template.scope} prompt template ${fileName}`);
+
+    return {
+      id: `${template.scope}/${fileName}`,
+      scope: template.scope,
+      ...parsePromptTemplate(markdown, template.name),
+    };
+  }
+
+  /**
+   * Remove a template file by id
+   * @throws Error for an id that is not a template file directly inside a template directory
+   */
+  async delete(id: string): Promise<void> {
+    const [scope, fileName, ...rest] = id.split('/');
+    const isTemplateFile = !!fileName
+      && fileName !== '.'
+      && fileName !== '..'
+      && fileName.toLowerCase().endsWith(PROMPT_TEMPLATE_EXTENSION);
+    if ((scope !== 'workspace' && scope !== 'global') || !isTemplateFile || rest.length > 0) {
+      throw new Error(`Invalid template id: ${id}`);
+    }
+    await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.directoryUri(scope), fileName));
+    this.logger.info(`Deleted prompt template ${id}`);
+  }
+
+  private workspaceUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, ...WORKSPACE_TEMPLATES_PATH) : undefined;
+  }
+
+  private directoryUri(scope: PromptTemplateScope): vscode.Uri {
+    if (scope === 'global') {
+      return this.globalUri;
+    }
+    const workspaceUri = this.workspaceUri();
+    if (!workspaceUri) {
+      throw new Error('Open a folder to save workspace templates');
+    }
+    return workspaceUri;
+  }
+
+  private async readDirectory(scope: PromptTemplateScope, directoryUri: vscode.Uri): Promise<PromptTemplate[]> {
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(directoryUri);
+    } catch {
+      // No templates directory yet
+      return [];
+    }
+
+    const templates: PromptTemplate[] = [];
+    for (const [fileName, fileType] of entries) {
+      if (fileType !== vscode.FileType.File || !fileName.toLowerCase().endsWith(PROMPT_TEMPLATE_EXTENSION)) {
+        continue;
+      }
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(directoryUri, fileName));
+        templates.push({
+          id: `${scope}/${fileName}`,
+          scope,
+          ...parsePromptTemplate(
+            Buffer.from(content).toString('utf-8'),
+            fileName.slice(0, -PROMPT_TEMPLATE_EXTENSION.length)
+          ),
+        });
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable prompt template ${fileName}`, error);
+      }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
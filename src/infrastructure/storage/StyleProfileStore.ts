@@ -0,0 +1,139 @@
+/**
+ * StyleProfileStore - Brand style profiles and which one is active
+ *
+ * Kept in a file rather than globalState because profiles carry reference images
+ * (data URLs). The orchestrators read the active profile for every generation,
+ * so the file is loaded once and served from memory afterwards.
+ *
+ * Layout: <globalStorage>/style-profiles.json
+ */
+import * as vscode from 'vscode';
+import { LoggingService } from '@logging';
+import {
+  StyleProfile,
+  StyleProfilesPayload,
+  MAX_STYLE_REFERENCE_IMAGES,
+  isHexColor,
+} from '@messages';
+
+export class StyleProfileStore {
+  private readonly fileUri: vscode.Uri;
+  private readonly storageUri: vscode.Uri;
+  private state: StyleProfilesPayload | null = null;
+  // Serializes file operations so saves never interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    storageUri: vscode.Uri,
+    private readonly logger: LoggingService
+  ) {
+    this.storageUri = storageUri;
+    this.fileUri = vscode.Uri.joinPath(storageUri, 'style-profiles.json');
+  }
+
+  /**
+   * All profiles plus the active profile id
+   */
+  getState(): Promise<StyleProfilesPayload> {
+    return this.enqueue(async () => {
+      const state = await this.load();
+      return { profiles: [...state.profiles], activeProfileId: state.activeProfileId };
+    }, { profiles: [], activeProfileId: null });
+  }
+
+  /**
+   * The profile applied to generations, if any
+   */
+  getActive(): Promise<StyleProfile | undefined> {
+    return this.enqueue(async () => {
+      const state = await this.load();
+      return state.profiles.find((profile) => profile.id === state.activeProfileId);
+    }, undefined);
+  }
+
+  /**
+   * Add a profile (empty id) or replace one - invalid hex codes and extra images are dropped
+   * @returns The saved profile
+   */
+  save(profile: StyleProfile): Promise<StyleProfile> {
+    return this.enqueueWrite((state) => {
+      const saved: StyleProfile = {
+        id: profile.id || `style-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        name: profile.name.trim() || 'Untitled style',
+        palette: profile.palette.map((color) => color.trim()).filter(isHexColor),
+        descriptors: profile.descriptors.trim(),
+        negativeGuidance: profile.negativeGuidance.trim(),
+        referenceImages: profile.referenceImages.slice(0, MAX_STYLE_REFERENCE_IMAGES),
+      };
+      const index = state.profiles.findIndex((candidate) => candidate.id === saved.id);
+      state.profiles = index >= 0
+        ? state.profiles.map((candidate, i) => (i === index ? saved : candidate))
+        : [...state.profiles, saved];
+      this.logger.info(`Saved style profile "${saved.name}" (${saved.id})`);
+      return saved;
+    });
+  }
+
+  /**
+   * Remove a profile - deleting the active one turns brand styling off
+   */
+  delete(id: string): Promise<void> {
+    return this.enqueueWrite((state) => {
+      state.profiles = state.profiles.filter((profile) => profile.id !== id);
+      if (state.activeProfileId === id) {
+        state.activeProfileId = null;
+      }
+      this.logger.info(`Deleted style profile ${id}`);
+    });
+  }
+
+  /**
+   * @param id - Profile to apply to generations, or null for none
+   */
+  setActive(id: string | null): Promise<void> {
+    return this.enqueueWrite((state) => {
+      state.activeProfileId = id && state.profiles.some((profile) => profile.id === id) ? id : null;
+      this.logger.info(`Active style profile: ${state.activeProfileId ?? 'none'}`);
+    });
+  }
+
+  private enqueue<R>(operation: () => Promise<R>, fallback: R): Promise<R> {
+    const run = this.queue.then(operation).catch((error) => {
+      this.logger.error('Style profile operation failed', error);
+      return fallback;
+    });
+    this.queue = run;
+    return run;
+  }
+
+  /**
+   * Apply a change to a copy of the state and keep it once written (rejects on failure)
+   */
+  private enqueueWrite<R>(change: (state: StyleProfilesPayload) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      const current = await this.load();
+      const next = { profiles: [...current.profiles], activeProfileId: current.activeProfileId };
+      const result = change(next);
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(JSON.stringify(next), 'utf-8'));
+      this.state = next;
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<StyleProfilesPayload> {
+    if (this.state) {
+      return this.state;
+    }
+    try {
+      const content = await vscode.workspace.fs.readFile(this.fileUri);
+      this.state = JSON.parse(Buffer.from(content).toString('utf-8')) as StyleProfilesPayload;
+    } catch {
+      // No profiles saved yet
+      this.state = { profiles: [], activeProfileId: null };
+    }
+    return this.state;
+  }
+}
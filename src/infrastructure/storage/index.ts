@@ -0,0 +1,8 @@
+export { ConversationStore } from './ConversationStore';
+export type { ConversationKind, ConversationStoreOptions } from './ConversationStore';
+export { GenerationHistoryStore } from './GenerationHistoryStore';
+export type { GenerationHistoryStoreOptions } from './GenerationHistoryStore';
+export { BudgetStore } from './BudgetStore';
+export type { BudgetBlock, BudgetWarning } from './BudgetStore';
+export { PromptTemplateStore, WORKSPACE_TEMPLATES_PATH } from './PromptTemplateStore';
+export { StyleProfileStore } from './StyleProfileStore';
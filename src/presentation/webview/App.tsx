@@ -13,7 +13,7 @@
  * Reference: docs/example-repo/src/presentation/webview/App.tsx
  */
 import React, { useState, useEffect } from 'react';
-import { MessageType, TabId } from '@messages';
+import { MessageType, PromptTemplate, ReferenceFilesPayload, TabId } from '@messages';
 import {
   AppHeader,
   TabBar,
@@ -23,6 +23,7 @@ import {
   Tab,
   ImageGenerationView,
   SVGGenerationView,
+  HistoryView,
   OpenRouterAlert,
 } from './components';
 import {
@@ -31,13 +32,22 @@ import {
   useMessageRouter,
   useImageGeneration,
   useSVGGeneration,
+  useSVGArchitect,
   useTokenTracking,
+  useHistory,
+  useModelCatalog,
+  useBudget,
+  useIconBundle,
+  useModelComparison,
+  usePromptTemplates,
+  useStyleProfiles,
 } from './hooks';
 
 // Define available tabs with icons (Prose Minion style)
 const TABS: Tab[] = [
   { id: 'image', label: 'Image', icon: '🎨' },
   { id: 'svg', label: 'SVG', icon: '📐' },
+  { id: 'history', label: 'History', icon: '🕘' },
 ];
 
 /**
@@ -85,26 +95,97 @@ export function App(): JSX.Element {
   // Initialize domain hooks with persisted state
   const settings = useSettings(persistedState.settings);
   const tokenTracking = useTokenTracking(persistedState.tokenTracking);
+  const modelCatalog = useModelCatalog();
+  const budget = useBudget();
+  const iconBundle = useIconBundle();
+  const promptTemplates = usePromptTemplates();
+  const styleProfiles = useStyleProfiles();
   const imageGeneration = useImageGeneration(persistedState.imageGeneration, {
     selectedModel: settings.imageModel,
     onModelChange: (model) => settings.updateSetting('imageModel', model),
+    onTurnComplete: (context, turn) => history.recordImageTurn(context, turn),
+    catalogModels: modelCatalog.models?.image,
   });
   const svgGeneration = useSVGGeneration(persistedState.svgGeneration, {
     selectedModel: settings.svgModel,
     onModelChange: (model) => settings.updateSetting('svgModel', model),
+    onTurnComplete: (context, turn) => history.recordSVGTurn(context, turn),
+    catalogModels: modelCatalog.models?.svg,
+  });
+  const svgArchitect = useSVGArchitect(persistedState.svgArchitect, {
+    selectedBlueprintModel: settings.svgBlueprintModel,
+    onBlueprintModelChange: (model) => settings.updateSetting('svgBlueprintModel', model),
+    maxIterations: settings.svgArchitectMaxIterations,
+  });
+  const history = useHistory(persistedState.history, {
+    // Load the conversation into its view and switch there so continueChat works
+    onRestore: (conversation) => {
+      const { conversationId, model, aspectRatio } = conversation.entry;
+      if (conversation.type === 'image') {
+        imageGeneration.restoreConversation({ conversationId, model, aspectRatio, turns: conversation.turns });
+      } else {
+        svgGeneration.restoreConversation({ conversationId, model, aspectRatio, turns: conversation.turns });
+      }
+      setActiveTab(conversation.type);
+    },
+  });
+
+  // Compare mode - a promoted cell becomes the view's conversation (and a history entry)
+  const imageComparison = useModelComparison('image', persistedState.imageComparison, {
+    onPromote: ({ conversationId, model, aspectRatio, prompt, referenceSvgText, cell }) => {
+      const turn = {
+        id: `${conversationId}-1`,
+        prompt,
+        images: cell.images ?? [],
+        turnNumber: 1,
+        timestamp: Date.now(),
+        usage: cell.usage,
+        referenceSvgText,
+      };
+      imageGeneration.restoreConversation({ conversationId, model, aspectRatio, turns: [turn] });
+      history.recordImageTurn({ conversationId, model, aspectRatio }, turn);
+    },
+  });
+  const svgComparison = useModelComparison('svg', persistedState.svgComparison, {
+    onPromote: ({ conversationId, model, aspectRatio, prompt, referenceSvgText, cell }) => {
+      const turn = { prompt, svgCode: cell.svgCode ?? '', turnNumber: 1, usage: cell.usage, referenceSvgText };
+      svgGeneration.restoreConversation({ conversationId, model, aspectRatio, turns: [turn] });
+      history.recordSVGTurn({ conversationId, model, aspectRatio }, turn);
+    },
   });
 
+  // A template applies to the view it was written for, with its default model and aspect ratio
+  const applyPromptTemplate = (template: PromptTemplate, prompt: string) => {
+    const target = template.type === 'svg' ? svgGeneration : imageGeneration;
+    target.setPrompt(prompt);
+    if (template.model) {
+      target.setModel(template.model);
+    }
+    if (template.aspectRatio) {
+      target.setAspectRatio(template.aspectRatio);
+    }
+    setActiveTab(template.type);
+  };
+
   // Message routing at App level (prose-minion pattern)
   // Handlers stay registered even when views unmount
   useMessageRouter({
     // Image Generation messages
     [MessageType.IMAGE_GENERATION_RESPONSE]: imageGeneration.handleGenerationResponse,
+    [MessageType.IMAGE_GENERATION_VARIATION]: imageGeneration.handleVariation,
+    [MessageType.IMAGE_GENERATION_BRANCH_RESULT]: imageGeneration.handleBranchResult,
     [MessageType.IMAGE_SAVE_RESULT]: imageGeneration.handleSaveResult,
 
     // SVG Generation messages
     [MessageType.SVG_GENERATION_RESPONSE]: svgGeneration.handleGenerationResponse,
+    [MessageType.SVG_GENERATION_CHUNK]: svgGeneration.handleGenerationChunk,
+    [MessageType.SVG_GENERATION_BRANCH_RESULT]: svgGeneration.handleBranchResult,
     [MessageType.SVG_SAVE_RESULT]: svgGeneration.handleSaveResult,
 
+    // SVG Architect messages
+    [MessageType.SVG_ARCHITECT_PROGRESS]: svgArchitect.handleProgress,
+    [MessageType.SVG_ARCHITECT_RESULT]: svgArchitect.handleResult,
+
     // Prompt Enhancement messages - route based on type
     [MessageType.ENHANCE_PROMPT_RESPONSE]: (msg) => {
       const payload = msg.payload as { type?: string };
@@ -115,21 +196,99 @@ export function App(): JSX.Element {
       }
     },
 
+    // Load Parameters From File (Explorer command) - fill the matching view and show it
+    [MessageType.LOAD_GENERATION_PARAMETERS]: (msg) => {
+      const payload = msg.payload as { target: 'image' | 'svg' };
+      if (payload.target === 'svg') {
+        svgGeneration.handleLoadParameters(msg);
+      } else {
+        imageGeneration.handleLoadParameters(msg);
+      }
+      setActiveTab(payload.target);
+    },
+
+    // Workspace reference files - the picker names its tab; Explorer files go to the active
+    // generation tab (SVG tab for an SVG when another tab is open)
+    [MessageType.REFERENCE_FILES]: (msg) => {
+      const payload = msg.payload as ReferenceFilesPayload;
+      const target = payload.target
+        ?? (activeTab === 'image' || activeTab === 'svg'
+          ? activeTab
+          : payload.files[0]?.referenceSvgText ? 'svg' : 'image');
+      if (target === 'svg') {
+        svgGeneration.handleReferenceFiles(msg);
+      } else {
+        imageGeneration.handleReferenceFiles(msg);
+      }
+      setActiveTab(target);
+    },
+
+    // Compare mode messages - route based on type
+    [MessageType.COMPARISON_RESULT]: (msg) => {
+      const payload = msg.payload as { type: 'image' | 'svg' };
+      if (payload.type === 'svg') {
+        svgComparison.handleResult(msg);
+      } else {
+        imageComparison.handleResult(msg);
+      }
+    },
+
+    // Icon bundle messages
+    [MessageType.ICON_BUNDLE_EXPORT_RESULT]: iconBundle.handleExportResult,
+
+    // Prompt Template messages
+    [MessageType.PROMPT_TEMPLATE_LIST]: promptTemplates.handleTemplateList,
+
+    // Brand style profile messages
+    [MessageType.STYLE_PROFILES]: styleProfiles.handleStyleProfiles,
+
+    // Generation History messages
+    [MessageType.HISTORY_LIST]: history.handleHistoryList,
+    [MessageType.HISTORY_RESTORE_RESULT]: history.handleRestoreResult,
+
     // Settings messages
     [MessageType.SETTINGS_DATA]: settings.handleSettingsData,
     [MessageType.API_KEY_STATUS]: settings.handleApiKeyStatus,
 
+    // Model catalog messages
+    [MessageType.MODEL_CATALOG]: modelCatalog.handleModelCatalog,
+
     // Token tracking messages
     [MessageType.TOKEN_USAGE_UPDATE]: tokenTracking.handleTokenUsageUpdate,
 
+    // Budget messages
+    [MessageType.BUDGET_STATUS]: budget.handleBudgetStatus,
+
     // Settings overlay
     [MessageType.OPEN_SETTINGS_OVERLAY]: () => setShowSettingsOverlay(true),
 
+    // Loading status - only image and SVG generation show retry notices
+    [MessageType.STATUS]: (msg) => {
+      const source = msg.source ?? '';
+      if (source.includes('imageGeneration')) {
+        imageGeneration.handleStatus(msg);
+      } else if (source.includes('svgGeneration')) {
+        svgGeneration.handleStatus(msg);
+      }
+    },
+
     // Error routing - check source to route to correct handler
     [MessageType.ERROR]: (msg) => {
       const source = msg.source ?? '';
-      if (source.includes('image') || source.includes('Image')) {
+      if (source.includes('history')) {
+        history.handleError(msg);
+      } else if (source.includes('templates')) {
+        promptTemplates.handleError(msg);
+      } else if (source.includes('styleProfiles')) {
+        styleProfiles.handleError(msg);
+      } else if (source.includes('comparison')) {
+        // Only the comparison that is running takes it
+        imageComparison.handleError(msg);
+        svgComparison.handleError(msg);
+      } else if (source.includes('image') || source.includes('Image')) {
         imageGeneration.handleError(msg);
+      } else if (source.includes('svgArchitect')) {
+        svgArchitect.handleError(msg);
       } else if (source.includes('svg') || source.includes('SVG')) {
         svgGeneration.handleError(msg);
       } else if (source.includes('enhance')) {
@@ -151,14 +310,22 @@ export function App(): JSX.Element {
       settings: settings.persistedState,
       imageGeneration: imageGeneration.persistedState,
       svgGeneration: svgGeneration.persistedState,
+      svgArchitect: svgArchitect.persistedState,
       tokenTracking: tokenTracking.persistedState,
+      history: history.persistedState,
+      imageComparison: imageComparison.persistedState,
+      svgComparison: svgComparison.persistedState,
     });
   }, [
     activeTab,
     settings.persistedState,
     imageGeneration.persistedState,
     svgGeneration.persistedState,
+    svgArchitect.persistedState,
     tokenTracking.persistedState,
+    history.persistedState,
+    imageComparison.persistedState,
+    svgComparison.persistedState,
     saveState,
   ]);
 
@@ -179,6 +346,7 @@ export function App(): JSX.Element {
       <AppHeader
         tokenCount={tokenTracking.usage.totalTokens}
         tokenCost={tokenTracking.usage.costUsd ?? 0}
+        remainingBudget={budget.remainingUsd}
       />
 
       <TabBar
@@ -194,11 +362,35 @@ export function App(): JSX.Element {
         )}
 
         <TabPanel id="image" activeTab={activeTab}>
-          <ImageGenerationView imageGeneration={imageGeneration} />
+          <ImageGenerationView
+            imageGeneration={imageGeneration}
+            comparison={imageComparison}
+            iconBundle={iconBundle}
+            promptTemplates={promptTemplates}
+            onApplyTemplate={applyPromptTemplate}
+            styleProfiles={styleProfiles}
+            openRouterModels={modelCatalog.models?.image}
+            onOpenSettings={handleOpenSettings}
+          />
         </TabPanel>
 
         <TabPanel id="svg" activeTab={activeTab}>
-          <SVGGenerationView svgGeneration={svgGeneration} />
+          <SVGGenerationView
+            svgGeneration={svgGeneration}
+            svgArchitect={svgArchitect}
+            comparison={svgComparison}
+            iconBundle={iconBundle}
+            promptTemplates={promptTemplates}
+            onApplyTemplate={applyPromptTemplate}
+            styleProfiles={styleProfiles}
+            customProviderModels={settings.customProviderModels}
+            modelCatalog={modelCatalog.models}
+            onOpenSettings={handleOpenSettings}
+          />
+        </TabPanel>
+
+        <TabPanel id="history" activeTab={activeTab}>
+          <HistoryView history={history} />
         </TabPanel>
       </ViewContainer>
 
@@ -221,7 +413,13 @@ export function App(): JSX.Element {
                 Close
               </button>
             </header>
-            <SettingsView settings={settings} tokenTracking={tokenTracking} />
+            <SettingsView
+              settings={settings}
+              tokenTracking={tokenTracking}
+              modelCatalog={modelCatalog}
+              budget={budget}
+              styleProfiles={styleProfiles}
+            />
           </div>
         </div>
       )}
@@ -0,0 +1,40 @@
+/**
+ * ToggleSwitch - VSCode-styled on/off switch
+ *
+ * Pattern: Reusable UI component with VSCode theme integration
+ */
+import React from 'react';
+import '../../styles/components/toggle-switch.css';
+
+export interface ToggleSwitchProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+export function ToggleSwitch({
+  checked,
+  onChange,
+  label,
+  description,
+  disabled = false,
+}: ToggleSwitchProps): JSX.Element {
+  return (
+    <label className={`toggle-switch ${disabled ? 'disabled' : ''}`.trim()} title={description}>
+      <input
+        type="checkbox"
+        role="switch"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        aria-checked={checked}
+      />
+      <span className="toggle-switch-track" aria-hidden="true">
+        <span className="toggle-switch-thumb" />
+      </span>
+      <span className="toggle-switch-label">{label}</span>
+    </label>
+  );
+}
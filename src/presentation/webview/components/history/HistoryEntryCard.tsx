@@ -0,0 +1,86 @@
+/**
+ * HistoryEntryCard - One past conversation in the History tab
+ *
+ * Features:
+ * - Thumbnail of the latest result (falls back to a type icon)
+ * - Prompt, model, seed, date, turn count and total cost
+ * - Restore and delete actions
+ */
+import React from 'react';
+import { HistoryEntry } from '@messages';
+import '../../styles/components/history-entry-card.css';
+
+export interface HistoryEntryCardProps {
+  entry: HistoryEntry;
+  onRestore: (conversationId: string) => void;
+  onDelete: (conversationId: string) => void;
+  restoring?: boolean;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const HistoryEntryCard: React.FC<HistoryEntryCardProps> = ({
+  entry,
+  onRestore,
+  onDelete,
+  restoring = false,
+}) => {
+  // Model IDs are provider/name - the name is enough in a narrow sidebar
+  const modelName = entry.model.split('/').pop() ?? entry.model;
+
+  return (
+    <div className="history-entry-card">
+      <div className="history-entry-thumbnail">
+        {entry.thumbnail ? (
+          <img src={entry.thumbnail} alt={entry.prompt} />
+        ) : (
+          <span className="history-entry-thumbnail-icon" aria-hidden="true">
+            {entry.type === 'image' ? '🎨' : '📐'}
+          </span>
+        )}
+      </div>
+
+      <div className="history-entry-details">
+        <span className="history-entry-prompt" title={entry.prompts.join('\n\n')}>
+          {entry.prompt}
+        </span>
+        <div className="history-entry-meta">
+          <span className="history-entry-type">{entry.type === 'image' ? 'Image' : 'SVG'}</span>
+          <span title={entry.model}>{modelName}</span>
+          {entry.seed !== undefined && <span>🎲 {entry.seed}</span>}
+          <span>{formatDateTime(entry.updatedAt)}</span>
+          <span>{entry.turnCount} {entry.turnCount === 1 ? 'turn' : 'turns'}</span>
+          <span>${entry.costUsd.toFixed(3)}</span>
+        </div>
+      </div>
+
+      <div className="history-entry-actions">
+        <button
+          type="button"
+          className="history-entry-restore"
+          onClick={() => onRestore(entry.conversationId)}
+          disabled={restoring}
+          title="Restore this conversation to continue it"
+        >
+          {restoring ? 'Restoring...' : '↩ Restore'}
+        </button>
+        <button
+          type="button"
+          className="history-entry-delete"
+          onClick={() => onDelete(entry.conversationId)}
+          disabled={restoring}
+          title="Delete from history"
+          aria-label="Delete from history"
+        >
+          <span aria-hidden="true">&#128465;</span>
+        </button>
+      </div>
+    </div>
+  );
+};
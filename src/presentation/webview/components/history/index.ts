@@ -0,0 +1,2 @@
+export { HistoryEntryCard } from './HistoryEntryCard';
+export type { HistoryEntryCardProps } from './HistoryEntryCard';
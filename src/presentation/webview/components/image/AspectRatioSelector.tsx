@@ -2,22 +2,24 @@
  * AspectRatioSelector - Dropdown component for selecting aspect ratios
  *
  * Pattern: Reusable UI component with VSCode theme integration
+ * Lists only the ratios the selected model renders (all of them by default).
  */
 import React from 'react';
 import { AspectRatio, ASPECT_RATIO_DIMENSIONS } from '../../../../shared/types/messages/imageGeneration';
+import { ALL_ASPECT_RATIOS } from '../../../../infrastructure/ai/providers/ModelCapabilities';
 import '../../styles/components/aspect-ratio-selector.css';
 
 export interface AspectRatioSelectorProps {
   selectedRatio: AspectRatio;
   onRatioChange: (ratio: AspectRatio) => void;
+  supportedRatios?: AspectRatio[];  // from the model's capabilities
   disabled?: boolean;
 }
 
-const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16', '3:2', '2:3'];
-
 export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({
   selectedRatio,
   onRatioChange,
+  supportedRatios = ALL_ASPECT_RATIOS,
   disabled = false,
 }) => {
   return (
@@ -30,7 +32,7 @@ export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({
         disabled={disabled}
         className="aspect-ratio-select"
       >
-        {ASPECT_RATIOS.map((ratio) => {
+        {supportedRatios.map((ratio) => {
           const dims = ASPECT_RATIO_DIMENSIONS[ratio];
           return (
             <option key={ratio} value={ratio}>
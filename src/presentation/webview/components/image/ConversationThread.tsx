@@ -1,12 +1,19 @@
 /**
  * ConversationThread - Chat-style display of conversation history
  *
- * Displays each turn as a prompt bubble followed by generated images.
+ * Displays each turn as a prompt bubble followed by the model's commentary (markdown) and
+ * generated images - a text-only reply (question, refusal) is a turn without images.
  * Supports saving images and copying seeds from within the thread.
+ * On a latest turn holding batch variations, each image can be picked as the base to refine.
+ * Any image can be opened for a region edit; those turns are labelled as such.
+ * Any image can be exported as an icon bundle.
+ * Any turn can start a new branch of the conversation ("Branch from here").
  */
 import React from 'react';
 import { ConversationTurn, GeneratedImage } from '@messages';
 import { ImageCard } from './ImageCard';
+import { MarkdownRenderer } from '../common/MarkdownRenderer';
+import { describeEstimateAccuracy, formatUsd } from '@utils/costEstimate';
 import '../../styles/components/conversation-thread.css';
 
 export interface ConversationThreadProps {
@@ -14,19 +21,26 @@ export interface ConversationThreadProps {
   onSaveImage: (image: GeneratedImage) => void;
   savingImageIds?: Set<string>;
   savedImageIds?: Set<string>;
+  activeConversationId?: string | null;
+  onSelectImage?: (image: GeneratedImage) => void;
+  onEditImage?: (image: GeneratedImage) => void;
+  onExportIcons?: (image: GeneratedImage) => void;
+  exportingIconsId?: string | null;
+  exportedIconIds?: Set<string>;
+  onBranchTurn?: (turn: ConversationTurn) => void;
 }
 
 /**
- * Format token usage for display
+ * Format token usage for display, with the pre-flight estimate when one was made
  */
-function formatUsage(usage: ConversationTurn['usage']): string | null {
+function formatUsage({ usage, estimatedCostUsd }: ConversationTurn): string | null {
   if (!usage) return null;
   const tokens = usage.totalTokens.toLocaleString();
   if (usage.costUsd !== undefined) {
-    const cost = usage.costUsd < 0.01
-      ? `$${usage.costUsd.toFixed(4)}`
-      : `$${usage.costUsd.toFixed(2)}`;
-    return `${tokens} tokens · ${cost}`;
+    const estimate = estimatedCostUsd !== undefined
+      ? ` · ${describeEstimateAccuracy(estimatedCostUsd, usage.costUsd)}`
+      : '';
+    return `${tokens} tokens · ${formatUsd(usage.costUsd)}${estimate}`;
   }
   return `${tokens} tokens`;
 }
@@ -36,21 +50,40 @@ export const ConversationThread: React.FC<ConversationThreadProps> = ({
   onSaveImage,
   savingImageIds = new Set(),
   savedImageIds = new Set(),
+  activeConversationId,
+  onSelectImage,
+  onEditImage,
+  onExportIcons,
+  exportingIconsId = null,
+  exportedIconIds = new Set(),
+  onBranchTurn,
 }) => {
   if (turns.length === 0) {
     return null;
   }
 
+  const lastTurn = turns[turns.length - 1];
+  const isVariationTurn = (turn: ConversationTurn) =>
+    new Set(turn.images.map((image) => image.conversationId)).size > 1;
+
   return (
     <div className="conversation-thread">
       {turns.map((turn) => (
         <div key={turn.id} className="conversation-turn">
           {/* User prompt bubble */}
           <div className="conversation-prompt">
-            <div className="conversation-prompt-label">You</div>
+            <div className="conversation-prompt-label">{turn.inpaint ? 'You · Region edit' : 'You'}</div>
             <div className="conversation-prompt-text">{turn.prompt}</div>
           </div>
 
+          {/* Model commentary */}
+          {turn.text && (
+            <div className="conversation-reply">
+              <div className="conversation-reply-label">{turn.images.length > 0 ? 'Model' : 'Model · No image'}</div>
+              <MarkdownRenderer content={turn.text} className="conversation-reply-text" />
+            </div>
+          )}
+
           {/* Generated images */}
           <div className="conversation-images">
             {turn.images.map((image) => (
@@ -60,14 +93,34 @@ export const ConversationThread: React.FC<ConversationThreadProps> = ({
                 onSave={onSaveImage}
                 saving={savingImageIds.has(image.id)}
                 saved={savedImageIds.has(image.id)}
+                selected={isVariationTurn(turn) && image.conversationId === activeConversationId}
+                onSelect={turn === lastTurn && isVariationTurn(turn) ? onSelectImage : undefined}
+                onEdit={onEditImage}
+                onExportIcons={onExportIcons}
+                exportingIcons={exportingIconsId === image.id}
+                exportedIcons={exportedIconIds.has(image.id)}
               />
             ))}
           </div>
 
-          {/* Token usage */}
-          {turn.usage && (
-            <div className="conversation-turn-usage">
-              {formatUsage(turn.usage)}
+          {/* Token usage and turn actions */}
+          {(turn.usage || onBranchTurn) && (
+            <div className="conversation-turn-footer">
+              {onBranchTurn && (
+                <button
+                  type="button"
+                  className="conversation-turn-branch"
+                  onClick={() => onBranchTurn(turn)}
+                  title="Start a new branch that continues from this turn"
+                >
+                  ⑂ Branch from here
+                </button>
+              )}
+              {turn.usage && (
+                <div className="conversation-turn-usage">
+                  {formatUsage(turn)}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -6,6 +6,10 @@
  * - Image preview with object-fit contain
  * - Truncated prompt display with full text on hover
  * - Save button integration
+ * - Optional "use as base" toggle for batch variations
+ * - Optional "continue from" toggle that picks it as a target of the next refinement
+ * - Optional "edit region" action that opens the MaskEditor
+ * - Optional favicon / PWA icon bundle export
  */
 import React from 'react';
 import { GeneratedImage } from '../../../../shared/types/messages/imageGeneration';
@@ -17,6 +21,14 @@ export interface ImageCardProps {
   onSave: (image: GeneratedImage) => void;
   saving?: boolean;
   saved?: boolean;
+  selected?: boolean;                       // this variation is the one continueChat extends
+  onSelect?: (image: GeneratedImage) => void;
+  targeted?: boolean;                       // picked as a target of the next refinement
+  onToggleTarget?: (image: GeneratedImage) => void;
+  onEdit?: (image: GeneratedImage) => void;  // inpaint a brushed region
+  onExportIcons?: (image: GeneratedImage) => void;
+  exportingIcons?: boolean;
+  exportedIcons?: boolean;
 }
 
 export const ImageCard: React.FC<ImageCardProps> = ({
@@ -24,6 +36,14 @@ export const ImageCard: React.FC<ImageCardProps> = ({
   onSave,
   saving = false,
   saved = false,
+  selected = false,
+  onSelect,
+  targeted = false,
+  onToggleTarget,
+  onEdit,
+  onExportIcons,
+  exportingIcons = false,
+  exportedIcons = false,
 }) => {
   const [seedCopied, setSeedCopied] = React.useState(false);
 
@@ -39,7 +59,7 @@ export const ImageCard: React.FC<ImageCardProps> = ({
   };
 
   return (
-    <div className="image-card">
+    <div className={`image-card${selected || targeted ? ' image-card--selected' : ''}`}>
       <div className="image-card-image-container">
         <img
           src={image.data}
@@ -60,6 +80,49 @@ export const ImageCard: React.FC<ImageCardProps> = ({
           >
             🎲 {image.seed}
           </button>
+          {onSelect && (
+            <button
+              type="button"
+              className="image-card-select"
+              onClick={() => onSelect(image)}
+              disabled={selected}
+              title={selected ? 'Refinements continue from this image' : 'Continue refining from this image'}
+            >
+              {selected ? '✓ Base' : 'Use as base'}
+            </button>
+          )}
+          {onToggleTarget && (
+            <button
+              type="button"
+              className={`image-card-select${targeted ? ' image-card-select--on' : ''}`}
+              onClick={() => onToggleTarget(image)}
+              aria-pressed={targeted}
+              title={targeted ? 'Refinements continue from this image' : 'Continue refining from this image only'}
+            >
+              {targeted ? '☑ Continue from' : '☐ Continue from'}
+            </button>
+          )}
+          {onEdit && (
+            <button
+              type="button"
+              className="image-card-select"
+              onClick={() => onEdit(image)}
+              title="Paint over a region and describe the change"
+            >
+              🖌 Edit region
+            </button>
+          )}
+          {onExportIcons && (
+            <button
+              type="button"
+              className="image-card-select"
+              onClick={() => onExportIcons(image)}
+              disabled={exportingIcons}
+              title="Export favicon.ico, touch and PWA icons with manifest and <link> snippets"
+            >
+              {exportingIcons ? 'Exporting…' : exportedIcons ? '✓ Icons' : '🧩 Icons'}
+            </button>
+          )}
         </div>
         <SaveButton onClick={handleSave} saving={saving} saved={saved} />
       </div>
@@ -2,6 +2,7 @@
  * ImageGallery - Component for displaying a grid of generated images
  *
  * Pattern: Displays generated images using ImageCard in a responsive grid layout
+ * With onToggleTarget, each image can be picked as a target of the next refinement.
  */
 import React from 'react';
 import { GeneratedImage } from '../../../../shared/types/messages/imageGeneration';
@@ -13,6 +14,10 @@ export interface ImageGalleryProps {
   onSaveImage: (image: GeneratedImage) => void;
   savingImageIds?: Set<string>;
   savedImageIds?: Set<string>;
+  title?: string;
+  hint?: string;
+  targetImageIds?: Set<string>;
+  onToggleTarget?: (image: GeneratedImage) => void;
 }
 
 export const ImageGallery: React.FC<ImageGalleryProps> = ({
@@ -20,6 +25,10 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
   onSaveImage,
   savingImageIds = new Set(),
   savedImageIds = new Set(),
+  title = 'Generated Images',
+  hint,
+  targetImageIds = new Set(),
+  onToggleTarget,
 }) => {
   if (images.length === 0) {
     return null;
@@ -27,7 +36,8 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
 
   return (
     <div className="image-gallery">
-      <h3 className="image-gallery-title">Generated Images</h3>
+      <h3 className="image-gallery-title">{title}</h3>
+      {hint && <p className="image-gallery-hint">{hint}</p>}
       <div className="image-gallery-grid">
         {images.map((image) => (
           <ImageCard
@@ -36,6 +46,8 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
             onSave={onSaveImage}
             saving={savingImageIds.has(image.id)}
             saved={savedImageIds.has(image.id)}
+            targeted={targetImageIds.has(image.id)}
+            onToggleTarget={onToggleTarget}
           />
         ))}
       </div>
@@ -2,6 +2,7 @@
  * ImageUploader - Component for uploading and managing reference images
  *
  * Pattern: Controlled component for image-to-image generation workflow
+ * With onPickFromWorkspace, images can also be picked from the workspace (extension QuickPick).
  */
 import React, { useRef, useCallback } from 'react';
 import '../../styles/components/image-uploader.css';
@@ -11,6 +12,7 @@ export interface ImageUploaderProps {
   onAddImage: (dataUrl: string, svgText?: string | null) => void;
   onRemoveImage: (index: number) => void;
   onClear: () => void;
+  onPickFromWorkspace?: () => void;
   disabled?: boolean;
   maxImages?: number;
 }
@@ -20,6 +22,7 @@ export function ImageUploader({
   onAddImage,
   onRemoveImage,
   onClear,
+  onPickFromWorkspace,
   disabled = false,
   maxImages = 4,
 }: ImageUploaderProps): JSX.Element {
@@ -72,6 +75,17 @@ export function ImageUploader({
         >
           + Add Reference Image{images.length > 0 ? ` (${images.length}/${maxImages})` : ''}
         </button>
+        {onPickFromWorkspace && (
+          <button
+            type="button"
+            onClick={onPickFromWorkspace}
+            disabled={disabled || images.length >= maxImages}
+            className="add-image-button"
+            title="Pick reference images or SVGs from the workspace"
+          >
+            From Workspace…
+          </button>
+        )}
         {images.length > 0 && (
           <button
             type="button"
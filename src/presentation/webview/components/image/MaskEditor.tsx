@@ -0,0 +1,179 @@
+/**
+ * MaskEditor - Brush over a region of a generated image and describe the edit
+ *
+ * Features:
+ * - Stroke canvas over the image at its natural size (so the mask matches pixel for pixel)
+ * - Adjustable brush size and clear
+ * - Edit instruction; Apply rasterizes the mask and guidance images (inpaintMask)
+ */
+import React from 'react';
+import { GeneratedImage, ImageInpaintMask } from '@messages';
+import { Button } from '../common/Button';
+import { Textarea } from '../common/Textarea';
+import { MASK_COLOR, buildInpaintMask } from '@utils/inpaintMask';
+import '../../styles/components/mask-editor.css';
+
+const DEFAULT_BRUSH_SIZE = 32;
+
+export interface MaskEditorProps {
+  image: GeneratedImage;
+  onApply: (instruction: string, mask: Omit<ImageInpaintMask, 'sourceImage'>) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({
+  image,
+  onApply,
+  onCancel,
+  disabled = false,
+}) => {
+  const imageRef = React.useRef<HTMLImageElement>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const lastPointRef = React.useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = React.useState(DEFAULT_BRUSH_SIZE);
+  const [instruction, setInstruction] = React.useState('');
+  const [hasMask, setHasMask] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleImageLoad = () => {
+    const source = imageRef.current;
+    const canvas = canvasRef.current;
+    if (!source || !canvas) return;
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    setHasMask(false);
+  };
+
+  // Pointer position in canvas pixels, plus the displayed-to-natural scale for the brush
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return {
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale,
+      scale,
+    };
+  };
+
+  const paint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y, scale } = toCanvasPoint(event);
+    const from = lastPointRef.current ?? { x, y };
+
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = brushSize * scale;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(x, y);
+    context.stroke();
+
+    lastPointRef.current = { x, y };
+    setHasMask(true);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    paint(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) {
+      paint(event);
+    }
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleApply = () => {
+    const source = imageRef.current;
+    const canvas = canvasRef.current;
+    if (!source || !canvas) return;
+    try {
+      onApply(instruction.trim(), buildInpaintMask(source, canvas));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build the mask');
+    }
+  };
+
+  return (
+    <div className="mask-editor">
+      <div className="mask-editor-header">
+        <span className="mask-editor-title">Edit region</span>
+        <span className="mask-editor-hint">Paint over the area to change</span>
+      </div>
+
+      <div className="mask-editor-canvas-wrapper">
+        <img
+          ref={imageRef}
+          src={image.data}
+          alt={image.prompt}
+          className="mask-editor-image"
+          onLoad={handleImageLoad}
+        />
+        <canvas
+          ref={canvasRef}
+          className="mask-editor-canvas"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="mask-editor-tools">
+        <label className="mask-editor-brush">
+          Brush
+          <input
+            type="range"
+            min={4}
+            max={96}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            disabled={disabled}
+          />
+        </label>
+        <Button variant="ghost" size="sm" onClick={handleClear} disabled={disabled || !hasMask}>
+          Clear
+        </Button>
+      </div>
+
+      <Textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="Describe the change: Replace the hat with a red beret..."
+        disabled={disabled}
+        rows={2}
+      />
+
+      {error && <div className="mask-editor-error">{error}</div>}
+
+      <div className="mask-editor-actions">
+        <Button variant="secondary" onClick={onCancel} disabled={disabled}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleApply}
+          disabled={disabled || !hasMask || !instruction.trim()}
+        >
+          🖌 Apply Edit
+        </Button>
+      </div>
+    </div>
+  );
+};
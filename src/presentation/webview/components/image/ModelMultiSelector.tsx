@@ -0,0 +1,79 @@
+/**
+ * ModelMultiSelector - Checkbox list of models for Compare mode
+ *
+ * Pattern: Reusable UI component with VSCode theme integration
+ * Lists curated (recommended) models first, then the picked ones that are not
+ * curated, so a long live catalog does not bury the list. Further catalog
+ * models are added from the dropdown below it.
+ */
+import React from 'react';
+import { ModelDefinition } from '../../../../shared/types/providers';
+import '../../styles/components/model-multi-selector.css';
+
+export interface ModelMultiSelectorProps {
+  models: ModelDefinition[];
+  selectedModels: string[];
+  onToggleModel: (modelId: string) => void;
+  maxSelected: number;
+  disabled?: boolean;
+  label?: string;
+}
+
+export const ModelMultiSelector: React.FC<ModelMultiSelectorProps> = ({
+  models,
+  selectedModels,
+  onToggleModel,
+  maxSelected,
+  disabled = false,
+  label = 'Compare models',
+}) => {
+  const listed = React.useMemo(() => {
+    const curated = models.filter((model) => model.recommended);
+    const shortlist = curated.length > 0 ? curated : models;
+    const extra = selectedModels
+      .filter((id) => !shortlist.some((model) => model.id === id))
+      .map((id) => models.find((model) => model.id === id) ?? { id, displayName: `Custom: ${id}` });
+    return [...shortlist, ...extra];
+  }, [models, selectedModels]);
+
+  const others = models.filter((model) => !listed.some((candidate) => candidate.id === model.id));
+  const atLimit = selectedModels.length >= maxSelected;
+
+  return (
+    <div className="model-multi-selector">
+      <span className="model-multi-selector-label">
+        {label} ({selectedModels.length}/{maxSelected})
+      </span>
+      <div className="model-multi-selector-options">
+        {listed.map((model) => {
+          const checked = selectedModels.includes(model.id);
+          return (
+            <label key={model.id} className="model-multi-selector-option">
+              <input
+                type="checkbox"
+                checked={checked}
+                onChange={() => onToggleModel(model.id)}
+                disabled={disabled || (!checked && atLimit)}
+              />
+              {model.displayName}
+            </label>
+          );
+        })}
+      </div>
+      {others.length > 0 && (
+        <select
+          className="model-select"
+          value=""
+          onChange={(e) => e.target.value && onToggleModel(e.target.value)}
+          disabled={disabled || atLimit}
+          aria-label="Add another model"
+        >
+          <option value="">Add another model…</option>
+          {others.map((model) => (
+            <option key={model.id} value={model.id}>{model.displayName}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -2,16 +2,65 @@
  * ModelSelector - Dropdown component for selecting AI models
  *
  * Pattern: Reusable UI component with VSCode theme integration
+ * Models from more than one provider are grouped by provider; within a provider,
+ * curated (recommended) models are listed ahead of the full live catalog.
+ * Pricing, context length and input modalities of the selected model are shown below.
  */
 import React from 'react';
 import { ModelDefinition } from '../../../../shared/types/providers';
+import { groupModelsByProvider, ModelGroup } from '../../../../infrastructure/ai/providers/ProviderCatalog';
 import '../../styles/components/model-selector.css';
 
+function formatPrice(cost: number): string {
+  return cost >= 0.01 || cost === 0 ? `$${cost.toFixed(2)}` : `$${cost.toPrecision(2)}`;
+}
+
+function formatContext(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${Number((tokens / 1_000_000).toFixed(1))}M`
+    : `${Math.round(tokens / 1000)}K`;
+}
+
+/**
+ * One-line summary of what the model costs and accepts, or null when nothing is known
+ */
+function describeModel(model: ModelDefinition): string | null {
+  const parts: string[] = [];
+  if (model.inputCost !== undefined || model.outputCost !== undefined) {
+    const input = model.inputCost !== undefined ? formatPrice(model.inputCost) : '—';
+    const output = model.outputCost !== undefined ? formatPrice(model.outputCost) : '—';
+    parts.push(`${input} in / ${output} out per 1M tokens`);
+  }
+  if (model.contextLength) {
+    parts.push(`${formatContext(model.contextLength)} context`);
+  }
+  if (model.inputModalities?.length) {
+    parts.push(`Input: ${model.inputModalities.join(', ')}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Split a provider group into recommended and remaining models when it has both
+ */
+function splitRecommended(group: ModelGroup): ModelGroup[] {
+  const recommended = group.models.filter((model) => model.recommended);
+  if (recommended.length === 0 || recommended.length === group.models.length) {
+    return [group];
+  }
+  return [
+    { ...group, label: `${group.label} · Recommended`, models: recommended },
+    { ...group, label: `${group.label} · All Models`, models: group.models.filter((model) => !model.recommended) },
+  ];
+}
+
 export interface ModelSelectorProps {
   models: ModelDefinition[];
   selectedModel: string;
   onModelChange: (modelId: string) => void;
   disabled?: boolean;
+  label?: string;
+  id?: string;  // required when more than one selector is on screen
 }
 
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
@@ -19,28 +68,39 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
   selectedModel,
   onModelChange,
   disabled = false,
+  label = 'Model',
+  id = 'model-select',
 }) => {
-  const hasSelected = models.some((m) => m.id === selectedModel);
-  const options = hasSelected
-    ? models
-    : [...models, { id: selectedModel, displayName: `Custom: ${selectedModel}` }];
+  const selected = models.find((m) => m.id === selectedModel);
+  const groups = React.useMemo(() => groupModelsByProvider(models).flatMap(splitRecommended), [models]);
+  const details = selected ? describeModel(selected) : null;
+
+  const renderOption = (model: ModelDefinition) => (
+    <option key={model.id} value={model.id}>
+      {model.displayName}
+    </option>
+  );
 
   return (
     <div className="model-selector">
-      <label htmlFor="model-select">Model</label>
+      <label htmlFor={id}>{label}</label>
       <select
-        id="model-select"
+        id={id}
         value={selectedModel}
         onChange={(e) => onModelChange(e.target.value)}
         disabled={disabled}
         className="model-select"
       >
-        {options.map((model) => (
-          <option key={model.id} value={model.id}>
-            {model.displayName}
-          </option>
-        ))}
+        {groups.length > 1
+          ? groups.map((group) => (
+              <optgroup key={group.label} label={group.label}>
+                {group.models.map(renderOption)}
+              </optgroup>
+            ))
+          : models.map(renderOption)}
+        {!selected && renderOption({ id: selectedModel, displayName: `Custom: ${selectedModel}` })}
       </select>
+      {details && <span className="model-selector-details">{details}</span>}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+/**
+ * SaveOptionsPanel - Collapsible post-processing options applied when saving images
+ *
+ * Pattern: Reusable UI component with VSCode theme integration
+ * Empty width/height keep the original size; setting one keeps the aspect ratio.
+ * WebP and progressive JPEG images are saved as-is: asIsLimit explains it, and turns off
+ * format and size when it covers every image.
+ */
+import React from 'react';
+import { ImageSaveFormat, ImageSaveOptions } from '../../../../shared/types/messages/imageGeneration';
+import '../../styles/components/save-options-panel.css';
+
+export interface SaveOptionsPanelProps {
+  options: ImageSaveOptions;
+  onChange: (options: Partial<ImageSaveOptions>) => void;
+  disabled?: boolean;
+  asIsLimit?: { reason: string; allImages: boolean } | null;
+}
+
+const FORMATS: Array<{ value: ImageSaveFormat; label: string }> = [
+  { value: 'original', label: 'Original' },
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP (lossless)' },
+];
+
+/**
+ * One-line summary shown while collapsed, e.g. "JPEG 85% · 512×512 · no metadata"
+ */
+function summarize(options: ImageSaveOptions): string {
+  const parts: string[] = [];
+  if (options.format !== 'original') {
+    const label = FORMATS.find((format) => format.value === options.format)?.label.split(' ')[0];
+    parts.push(options.format === 'png' ? `${label}` : `${label} ${options.quality}%`);
+  }
+  if (options.width || options.height) {
+    parts.push(`${options.width ?? 'auto'}×${options.height ?? 'auto'}`);
+  }
+  if (options.stripMetadata) {
+    parts.push('no metadata');
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'as generated';
+}
+
+function parseSize(value: string): number | undefined {
+  const size = parseInt(value, 10);
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+export const SaveOptionsPanel: React.FC<SaveOptionsPanelProps> = ({
+  options,
+  onChange,
+  disabled = false,
+  asIsLimit = null,
+}) => {
+  const conversionDisabled = disabled || !!asIsLimit?.allImages;
+  const hasQuality = options.format === 'jpeg' || options.format === 'webp';
+
+  return (
+    <details className="save-options-panel">
+      <summary className="save-options-summary">
+        Save options <span className="save-options-summary-value">({summarize(options)})</span>
+      </summary>
+
+      <div className="save-options-grid">
+        <label className="save-options-field">
+          <span>Format</span>
+          <select
+            value={options.format}
+            onChange={(e) => onChange({ format: e.target.value as ImageSaveFormat })}
+            disabled={conversionDisabled}
+          >
+            {FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {hasQuality && (
+          <label className="save-options-field">
+            <span>Quality ({options.quality})</span>
+            <input
+              type="range"
+              min={1}
+              max={100}
+              value={options.quality}
+              onChange={(e) => onChange({ quality: Number(e.target.value) })}
+              disabled={conversionDisabled}
+              title={options.format === 'webp' ? 'Below 100 rounds colours slightly for smaller files' : undefined}
+            />
+          </label>
+        )}
+
+        <label className="save-options-field">
+          <span>Width (px)</span>
+          <input
+            type="number"
+            min={1}
+            value={options.width ?? ''}
+            placeholder="original"
+            onChange={(e) => onChange({ width: parseSize(e.target.value) })}
+            disabled={conversionDisabled}
+          />
+        </label>
+
+        <label className="save-options-field">
+          <span>Height (px)</span>
+          <input
+            type="number"
+            min={1}
+            value={options.height ?? ''}
+            placeholder="original"
+            onChange={(e) => onChange({ height: parseSize(e.target.value) })}
+            disabled={conversionDisabled}
+          />
+        </label>
+
+        {options.width && options.height && (
+          <label className="save-options-field">
+            <span>Fit</span>
+            <select
+              value={options.fit ?? 'cover'}
+              onChange={(e) => onChange({ fit: e.target.value as ImageSaveOptions['fit'] })}
+              disabled={conversionDisabled}
+            >
+              <option value="cover">Crop to fill</option>
+              <option value="stretch">Stretch</option>
+            </select>
+          </label>
+        )}
+
+        <label
+          className="save-options-checkbox"
+          title="Also leaves out the prompt, model and seed Pixel Minion embeds"
+        >
+          <input
+            type="checkbox"
+            checked={options.stripMetadata}
+            onChange={(e) => onChange({ stripMetadata: e.target.checked })}
+            disabled={disabled}
+          />
+          Strip metadata
+        </label>
+      </div>
+
+      {asIsLimit && (
+        <p className="save-options-note">
+          {asIsLimit.reason} - {asIsLimit.allImages ? 'these images' : 'those images'} are saved in their
+          original format and size. Strip metadata still applies.
+        </p>
+      )}
+    </details>
+  );
+};
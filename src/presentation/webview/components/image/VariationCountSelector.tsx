@@ -0,0 +1,41 @@
+/**
+ * VariationCountSelector - Dropdown for how many variations a generation produces
+ *
+ * Pattern: Reusable UI component with VSCode theme integration
+ */
+import React from 'react';
+import { MAX_IMAGE_VARIATIONS } from '../../../../shared/types/messages/imageGeneration';
+import '../../styles/components/variation-count-selector.css';
+
+export interface VariationCountSelectorProps {
+  count: number;
+  onCountChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+const VARIATION_COUNTS = Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1);
+
+export const VariationCountSelector: React.FC<VariationCountSelectorProps> = ({
+  count,
+  onCountChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="variation-count-selector">
+      <label htmlFor="variation-count-select">Variations</label>
+      <select
+        id="variation-count-select"
+        value={count}
+        onChange={(e) => onCountChange(Number(e.target.value))}
+        disabled={disabled}
+        className="variation-count-select"
+      >
+        {VARIATION_COUNTS.map((value) => (
+          <option key={value} value={value}>
+            {value === 1 ? '1 (single)' : value}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -12,3 +12,15 @@ export type { ImageUploaderProps } from './ImageUploader';
 
 export { ModelSelector } from './ModelSelector';
 export type { ModelSelectorProps } from './ModelSelector';
+
+export { ModelMultiSelector } from './ModelMultiSelector';
+export type { ModelMultiSelectorProps } from './ModelMultiSelector';
+
+export { VariationCountSelector } from './VariationCountSelector';
+export type { VariationCountSelectorProps } from './VariationCountSelector';
+
+export { MaskEditor } from './MaskEditor';
+export type { MaskEditorProps } from './MaskEditor';
+
+export { SaveOptionsPanel } from './SaveOptionsPanel';
+export type { SaveOptionsPanelProps } from './SaveOptionsPanel';
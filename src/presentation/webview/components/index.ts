@@ -15,3 +15,6 @@ export * from './image';
 
 // SVG components
 export * from './svg';
+
+// History components
+export * from './history';
@@ -14,6 +14,8 @@ export interface AppHeaderProps {
   tokenCount?: number;
   /** Estimated cost to display */
   tokenCost?: number;
+  /** Remaining spend under the tightest budget cap (null = no cap set) */
+  remainingBudget?: number | null;
 }
 
 /**
@@ -77,6 +79,7 @@ const PixelMinionIcon: React.FC<{ className?: string }> = ({ className }) => (
 export function AppHeader({
   tokenCount = 0,
   tokenCost = 0,
+  remainingBudget = null,
 }: AppHeaderProps): JSX.Element {
   const formattedCost = tokenCost.toFixed(3);
 
@@ -90,6 +93,11 @@ export function AppHeader({
         <PixelMinionIcon className="app-header-icon" />
         <span className="token-widget">
           {tokenCount.toLocaleString()} tokens | ${formattedCost}
+          {remainingBudget !== null && (
+            <span className={remainingBudget > 0 ? 'token-widget-budget' : 'token-widget-budget exhausted'}>
+              {' '}| ${remainingBudget.toFixed(2)} left
+            </span>
+          )}
         </span>
       </div>
     </header>
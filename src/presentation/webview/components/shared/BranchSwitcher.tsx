@@ -0,0 +1,53 @@
+/**
+ * BranchSwitcher - The branch tree of the current conversation
+ *
+ * Features:
+ * - One row per branch, indented under the branch it came from
+ * - Shows where it forked, how many turns it has and its latest prompt
+ * - Clicking a row makes that branch the conversation Refine extends
+ */
+import React from 'react';
+import { BranchTreeNode } from '@utils/conversationBranches';
+import '../../styles/components/branch-switcher.css';
+
+export interface BranchSwitcherProps {
+  tree: BranchTreeNode<{ prompt: string }>[];
+  activeBranchId: string;
+  onSwitch: (branchId: string) => void;
+  disabled?: boolean;
+}
+
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ tree, activeBranchId, onSwitch, disabled = false }) => {
+  if (tree.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="branch-switcher" role="list" aria-label="Conversation branches">
+      {tree.map(({ branch, depth, name }) => {
+        const latest = branch.turns[branch.turns.length - 1];
+        const active = branch.id === activeBranchId;
+        return (
+          <button
+            key={branch.id}
+            type="button"
+            role="listitem"
+            className={`branch-switcher-row${active ? ' active' : ''}`}
+            style={{ paddingLeft: `${8 + depth * 14}px` }}
+            onClick={() => onSwitch(branch.id)}
+            disabled={disabled || active}
+            aria-current={active}
+            title={latest?.prompt}
+          >
+            <span className="branch-switcher-name">{depth > 0 ? '↳ ' : ''}{name}</span>
+            <span className="branch-switcher-meta">
+              {branch.branchTurnNumber !== null ? `from turn ${branch.branchTurnNumber} · ` : ''}
+              {branch.turns.length} {branch.turns.length === 1 ? 'turn' : 'turns'}
+            </span>
+            {latest && <span className="branch-switcher-prompt">{latest.prompt}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * ComparisonGrid - Side-by-side results of a Compare run
+ *
+ * Features:
+ * - One cell per model, in the order they were picked, filled in as each lands
+ * - Latency and actual cost under every result (failed models show their error)
+ * - "Continue with this" promotes a cell's conversation into the view
+ */
+import React from 'react';
+import { ComparisonCell } from '../../hooks/domain/useModelComparison';
+import { ModelDefinition } from '../../../../shared/types/providers';
+import { formatUsd } from '@utils/costEstimate';
+import '../../styles/components/comparison-grid.css';
+
+export interface ComparisonGridProps {
+  cells: ComparisonCell[];
+  models: ModelDefinition[];      // display names
+  promotedConversationId: string | null;
+  onPromote?: (cell: ComparisonCell) => void;
+}
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export const ComparisonGrid: React.FC<ComparisonGridProps> = ({
+  cells,
+  models,
+  promotedConversationId,
+  onPromote,
+}) => {
+  if (cells.length === 0) {
+    return null;
+  }
+
+  const displayName = (id: string) => models.find((model) => model.id === id)?.displayName ?? id;
+
+  return (
+    <div className="comparison-grid">
+      {cells.map((cell) => {
+        const promoted = !!cell.conversationId && cell.conversationId === promotedConversationId;
+        const image = cell.images?.[0];
+        return (
+          <div key={cell.model} className={`comparison-cell ${promoted ? 'promoted' : ''}`.trim()}>
+            <div className="comparison-cell-header" title={cell.model}>{displayName(cell.model)}</div>
+
+            <div className="comparison-cell-result">
+              {cell.status === 'running' && <span className="comparison-cell-pending">Generating…</span>}
+              {cell.status === 'failed' && <span className="comparison-cell-error">{cell.error}</span>}
+              {cell.status === 'done' && image && <img src={image.data} alt={`Result from ${displayName(cell.model)}`} />}
+              {cell.status === 'done' && cell.svgCode && (
+                <div className="comparison-cell-svg" dangerouslySetInnerHTML={{ __html: cell.svgCode }} />
+              )}
+            </div>
+
+            {cell.latencyMs !== undefined && (
+              <div className="comparison-cell-meta">
+                {formatLatency(cell.latencyMs)}
+                {cell.usage?.costUsd !== undefined && <> · {formatUsd(cell.usage.costUsd)}</>}
+              </div>
+            )}
+
+            {cell.status === 'done' && onPromote && (
+              <button
+                type="button"
+                className="comparison-cell-promote"
+                onClick={() => onPromote(cell)}
+                disabled={promoted}
+              >
+                {promoted ? '✓ Continuing' : 'Continue with this'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+/**
+ * CostEstimateLabel - Pre-flight cost shown next to a Generate button
+ *
+ * Features:
+ * - "~$0.0390" from the selected model's pricing, "cost unknown" without pricing
+ * - Token breakdown in the tooltip
+ */
+import React from 'react';
+import { CostEstimate } from '../../../../infrastructure/ai/providers/CostEstimator';
+import { formatCostEstimate } from '@utils/costEstimate';
+import '../../styles/components/cost-estimate.css';
+
+export interface CostEstimateLabelProps {
+  estimate: CostEstimate;
+}
+
+export const CostEstimateLabel: React.FC<CostEstimateLabelProps> = ({ estimate }) => {
+  const title = estimate.costUsd !== null
+    ? `Estimated from model pricing: ~${estimate.inputTokens.toLocaleString()} input + ~${estimate.outputTokens.toLocaleString()} output tokens`
+    : 'This model has no published pricing';
+
+  return (
+    <span className="cost-estimate-label" title={title}>
+      {formatCostEstimate(estimate)}
+    </span>
+  );
+};
@@ -0,0 +1,61 @@
+/**
+ * ErrorRemediation - What to do about a recognised provider failure
+ *
+ * Shown under a generation error when its code is a ProviderErrorCode:
+ * - Credits: OpenRouter top-up link
+ * - Key / rate limit: open Settings (key, fallback model)
+ * - Model unavailable, moderation, timeout, offline: a short hint
+ * - Payload too large: remove the attached references
+ */
+import React from 'react';
+import { ProviderErrorCode, isProviderErrorCode } from '@messages';
+import '../../styles/components/error-remediation.css';
+
+export interface ErrorRemediationProps {
+  code: string | null;
+  onOpenSettings: () => void;
+  onClearReferences?: () => void;  // omitted when nothing is attached
+}
+
+const HINTS: Record<ProviderErrorCode, string> = {
+  INSUFFICIENT_CREDITS: 'Your OpenRouter balance cannot cover this request.',
+  INVALID_API_KEY: 'The API key is missing, revoked or mistyped.',
+  RATE_LIMITED: 'The provider is rate limiting requests. Wait a moment, or set a fallback model.',
+  MODEL_UNAVAILABLE: 'This model is not available right now. Pick a different model above.',
+  CONTENT_MODERATED: 'The request was flagged by moderation. Rephrase the prompt or change the references.',
+  PAYLOAD_TOO_LARGE: 'The request is too large for this model. Remove or shrink the reference images.',
+  TIMEOUT: 'The provider took too long to answer. Try again, or use a faster model.',
+  NETWORK_OFFLINE: 'OpenRouter could not be reached. Check your network connection and try again.',
+};
+
+export const ErrorRemediation: React.FC<ErrorRemediationProps> = ({ code, onOpenSettings, onClearReferences }) => {
+  if (!isProviderErrorCode(code)) {
+    return null;
+  }
+
+  return (
+    <div className="error-remediation">
+      <span className="error-remediation-hint">{HINTS[code]}</span>
+      {code === 'INSUFFICIENT_CREDITS' && (
+        <a
+          className="error-remediation-action"
+          href="https://openrouter.ai/settings/credits"
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          Add credits
+        </a>
+      )}
+      {(code === 'INVALID_API_KEY' || code === 'RATE_LIMITED') && (
+        <button type="button" className="error-remediation-action" onClick={onOpenSettings}>
+          ⚙️ Open Settings
+        </button>
+      )}
+      {code === 'PAYLOAD_TOO_LARGE' && onClearReferences && (
+        <button type="button" className="error-remediation-action" onClick={onClearReferences}>
+          Remove references
+        </button>
+      )}
+    </div>
+  );
+};
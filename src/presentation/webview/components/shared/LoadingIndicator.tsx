@@ -7,7 +7,7 @@
  * - Animated loading gif (vertically stacked)
  * - Optional progress bar
  * - Optional ticker message (scrolling text)
- * - Optional cancel button
+ * - Optional Stop button (onCancel)
  */
 import React from 'react';
 
@@ -33,6 +33,7 @@ export interface LoadingIndicatorProps {
   tickerMessage?: string;
   progress?: LoadingProgress;
   onCancel?: () => void;
+  cancelLabel?: string;
   className?: string;
 }
 
@@ -43,6 +44,7 @@ export function LoadingIndicator({
   tickerMessage,
   progress,
   onCancel,
+  cancelLabel = 'Stop',
   className = '',
 }: LoadingIndicatorProps): JSX.Element | null {
   if (!isLoading) {
@@ -64,15 +66,6 @@ export function LoadingIndicator({
         <div className="loading-spinner-row">
           <div className="spinner" />
           <span className="loading-text">{displayMessage}</span>
-          {onCancel && (
-            <button
-              className="loading-cancel-button"
-              onClick={onCancel}
-              aria-label="Cancel"
-            >
-              ✕
-            </button>
-          )}
         </div>
 
         {/* Animated loading gif */}
@@ -91,6 +84,16 @@ export function LoadingIndicator({
             </span>
           </div>
         )}
+
+        {onCancel && (
+          <button
+            type="button"
+            className="loading-cancel-button"
+            onClick={onCancel}
+          >
+            ■ {cancelLabel}
+          </button>
+        )}
       </div>
 
       {progress && (
@@ -18,10 +18,11 @@ export const OpenRouterAlert: React.FC<OpenRouterAlertProps> = ({
     <div className="openrouter-alert">
       <div className="openrouter-alert-header">
         <span className="openrouter-alert-icon">⚠️</span>
-        <span className="openrouter-alert-title">OpenRouter API key not configured</span>
+        <span className="openrouter-alert-title">No API key configured</span>
       </div>
       <p className="openrouter-alert-description">
-        To use AI-powered generation tools, you need to configure your OpenRouter API key:
+        To use AI-powered generation tools, you need to configure an OpenRouter API key
+        (or a key for a direct provider such as OpenAI, Gemini or Anthropic):
       </p>
       <ol className="openrouter-alert-steps">
         <li>
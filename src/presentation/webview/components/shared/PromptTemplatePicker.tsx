@@ -0,0 +1,201 @@
+/**
+ * PromptTemplatePicker - Template library next to a prompt Textarea
+ *
+ * Features:
+ * - Templates for this view first, then the other view's (applying one switches views)
+ * - A form with one field per {{variable}}, previewed live
+ * - Applies the template's default model and aspect ratio along with the prompt
+ * - Saves the current prompt as a workspace or global template
+ */
+import React from 'react';
+import {
+  AspectRatio,
+  PromptTemplate,
+  PromptTemplateSavePayload,
+  PromptTemplateScope,
+  PromptTemplateType,
+} from '@messages';
+import { fillTemplate } from '../../../../infrastructure/resources/PromptTemplates';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import '../../styles/components/prompt-template-picker.css';
+
+export interface PromptTemplatePickerProps {
+  templates: PromptTemplate[];
+  viewType: PromptTemplateType;
+  workspaceAvailable: boolean;
+  current: { prompt: string; model: string; aspectRatio: AspectRatio };  // what "Save" stores
+  onApply: (template: PromptTemplate, prompt: string) => void;
+  onSave: (template: PromptTemplateSavePayload) => void;
+  onDelete: (id: string) => void;
+  onOpen?: () => void;             // refresh the list - files may have changed
+  error?: string | null;
+  disabled?: boolean;
+}
+
+export const PromptTemplatePicker: React.FC<PromptTemplatePickerProps> = ({
+  templates,
+  viewType,
+  workspaceAvailable,
+  current,
+  onApply,
+  onSave,
+  onDelete,
+  onOpen,
+  error,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState('');
+  const [values, setValues] = React.useState<Record<string, string>>({});
+  const [newName, setNewName] = React.useState('');
+  const [newScope, setNewScope] = React.useState<PromptTemplateScope>('workspace');
+
+  const selected = templates.find((template) => template.id === selectedId);
+  const ownTemplates = templates.filter((template) => template.type === viewType);
+  const otherTemplates = templates.filter((template) => template.type !== viewType);
+  const scope = workspaceAvailable ? newScope : 'global';
+  const isComplete = !!selected && selected.variables.every((name) => values[name]?.trim());
+
+  const toggleOpen = () => {
+    if (!isOpen) {
+      onOpen?.();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setValues({});
+  };
+
+  const handleApply = () => {
+    if (selected) {
+      onApply(selected, fillTemplate(selected.body, values));
+      setIsOpen(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (selected) {
+      onDelete(selected.id);
+      setSelectedId('');
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      scope,
+      name: newName.trim(),
+      type: viewType,
+      model: current.model,
+      aspectRatio: current.aspectRatio,
+      body: current.prompt,
+    });
+    setNewName('');
+  };
+
+  const renderOption = (template: PromptTemplate) => (
+    <option key={template.id} value={template.id}>
+      {template.name}{template.scope === 'global' ? ' (global)' : ''}
+    </option>
+  );
+
+  return (
+    <div className="prompt-template-picker">
+      <Button
+        onClick={toggleOpen}
+        variant="secondary"
+        disabled={disabled}
+        className="prompt-template-toggle"
+        aria-expanded={isOpen}
+      >
+        📋 Templates{templates.length > 0 ? ` (${templates.length})` : ''}
+      </Button>
+
+      {isOpen && (
+        <div className="prompt-template-panel">
+          <select
+            className="model-select"
+            value={selectedId}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={disabled}
+            aria-label="Prompt template"
+          >
+            <option value="">{templates.length > 0 ? 'Choose a template…' : 'No templates yet'}</option>
+            {ownTemplates.length > 0 && (
+              <optgroup label={viewType === 'svg' ? 'SVG templates' : 'Image templates'}>
+                {ownTemplates.map(renderOption)}
+              </optgroup>
+            )}
+            {otherTemplates.length > 0 && (
+              <optgroup label={viewType === 'svg' ? 'Image templates' : 'SVG templates'}>
+                {otherTemplates.map(renderOption)}
+              </optgroup>
+            )}
+          </select>
+
+          {selected && (
+            <div className="prompt-template-form">
+              {selected.description && (
+                <div className="prompt-template-description">{selected.description}</div>
+              )}
+              {selected.variables.map((name) => (
+                <Input
+                  key={name}
+                  label={name}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  disabled={disabled}
+                />
+              ))}
+              <div className="prompt-template-preview">{fillTemplate(selected.body, values)}</div>
+              <div className="prompt-template-defaults">
+                {selected.type === 'svg' ? 'SVG' : 'Image'}
+                {selected.model && <> · {selected.model}</>}
+                {selected.aspectRatio && <> · {selected.aspectRatio}</>}
+              </div>
+              <div className="prompt-template-actions">
+                <Button onClick={handleApply} variant="primary" disabled={disabled || !isComplete}>
+                  Use template
+                </Button>
+                <Button onClick={handleDelete} variant="secondary" disabled={disabled} title="Delete template file">
+                  <span aria-hidden="true">&#128465;</span>
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="prompt-template-save">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Save current prompt as…"
+              disabled={disabled}
+              aria-label="Template name"
+            />
+            <select
+              className="model-select"
+              value={scope}
+              onChange={(e) => setNewScope(e.target.value as PromptTemplateScope)}
+              disabled={disabled || !workspaceAvailable}
+              aria-label="Save to"
+            >
+              <option value="workspace">Workspace</option>
+              <option value="global">Global</option>
+            </select>
+            <Button
+              onClick={handleSave}
+              variant="secondary"
+              disabled={disabled || !newName.trim() || !current.prompt.trim()}
+            >
+              Save
+            </Button>
+          </div>
+
+          {error && <div className="prompt-template-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+/**
+ * StyleProfileChip - Active brand style profile shown above a prompt
+ *
+ * Features:
+ * - Profile name with its palette swatches
+ * - × turns brand styling off (profiles are managed in Settings)
+ */
+import React from 'react';
+import { StyleProfile } from '@messages';
+import '../../styles/components/style-profile.css';
+
+export interface StyleProfileChipProps {
+  profile: StyleProfile;
+  onDeactivate: () => void;
+  disabled?: boolean;
+}
+
+export const StyleProfileChip: React.FC<StyleProfileChipProps> = ({ profile, onDeactivate, disabled = false }) => (
+  <div className="style-profile-chip" title="Brand style applied to every generation">
+    <span className="style-profile-chip-label">🎨 {profile.name}</span>
+    {profile.palette.length > 0 && (
+      <span className="style-profile-swatches">
+        {profile.palette.map((color, index) => (
+          <span key={`${color}-${index}`} className="style-profile-swatch small" style={{ backgroundColor: color }} />
+        ))}
+      </span>
+    )}
+    <button
+      type="button"
+      className="style-profile-chip-remove"
+      onClick={onDeactivate}
+      disabled={disabled}
+      aria-label="Turn off brand style"
+    >
+      ×
+    </button>
+  </div>
+);
@@ -0,0 +1,180 @@
+/**
+ * StyleProfileEditor - Brand style profiles card in Settings
+ *
+ * Features:
+ * - Pick a profile to edit, or start a new one
+ * - Palette as hex codes (invalid codes are dropped on save), previewed as swatches
+ * - Style descriptors, negative guidance and up to three reference images
+ * - Activate a profile for every image and SVG generation
+ */
+import React from 'react';
+import { MAX_STYLE_REFERENCE_IMAGES, StyleProfile, isHexColor } from '@messages';
+import { UseStyleProfilesReturn } from '@hooks';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Textarea } from '../common/Textarea';
+import { ImageUploader } from '../image/ImageUploader';
+import '../../styles/components/style-profile.css';
+
+export interface StyleProfileEditorProps {
+  styleProfiles: UseStyleProfilesReturn;
+}
+
+interface StyleProfileDraft {
+  name: string;
+  paletteText: string;  // comma or space separated hex codes
+  descriptors: string;
+  negativeGuidance: string;
+  referenceImages: string[];
+}
+
+const EMPTY_DRAFT: StyleProfileDraft = {
+  name: '',
+  paletteText: '',
+  descriptors: '',
+  negativeGuidance: '',
+  referenceImages: [],
+};
+
+function parsePalette(text: string): string[] {
+  return text.split(/[\s,]+/).filter(isHexColor);
+}
+
+function toDraft(profile: StyleProfile): StyleProfileDraft {
+  return {
+    name: profile.name,
+    paletteText: profile.palette.join(', '),
+    descriptors: profile.descriptors,
+    negativeGuidance: profile.negativeGuidance,
+    referenceImages: profile.referenceImages,
+  };
+}
+
+export const StyleProfileEditor: React.FC<StyleProfileEditorProps> = ({ styleProfiles }) => {
+  const { profiles, activeProfileId, error, saveProfile, deleteProfile, setActiveProfile } = styleProfiles;
+  const [selectedId, setSelectedId] = React.useState('');
+  const [draft, setDraft] = React.useState<StyleProfileDraft>(EMPTY_DRAFT);
+
+  const palette = parsePalette(draft.paletteText);
+  const isActive = !!selectedId && selectedId === activeProfileId;
+
+  const handleSelect = (id: string) => {
+    const profile = profiles.find((candidate) => candidate.id === id);
+    setSelectedId(profile ? id : '');
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+  };
+
+  const update = (change: Partial<StyleProfileDraft>) => {
+    setDraft((prev) => ({ ...prev, ...change }));
+  };
+
+  const handleSave = () => {
+    saveProfile({
+      id: selectedId,
+      name: draft.name,
+      palette,
+      descriptors: draft.descriptors,
+      negativeGuidance: draft.negativeGuidance,
+      referenceImages: draft.referenceImages,
+    });
+    // A new profile gets its id from the extension - start over with a blank form
+    if (!selectedId) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const handleDelete = () => {
+    deleteProfile(selectedId);
+    handleSelect('');
+  };
+
+  return (
+    <div className="style-profile-editor">
+      <select
+        className="settings-input"
+        value={selectedId}
+        onChange={(e) => handleSelect(e.target.value)}
+        aria-label="Style profile"
+      >
+        <option value="">+ New profile</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.id === activeProfileId ? ' (active)' : ''}
+          </option>
+        ))}
+      </select>
+
+      <Input
+        label="Name"
+        value={draft.name}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Acme brand"
+      />
+
+      <Input
+        label="Palette"
+        value={draft.paletteText}
+        onChange={(e) => update({ paletteText: e.target.value })}
+        placeholder="#1E3A8A, #F59E0B, #FFFFFF"
+        description="Hex codes separated by commas or spaces"
+      />
+      {palette.length > 0 && (
+        <div className="style-profile-swatches">
+          {palette.map((color, index) => (
+            <span key={`${color}-${index}`} className="style-profile-swatch" style={{ backgroundColor: color }} title={color} />
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        label="Style"
+        value={draft.descriptors}
+        onChange={(e) => update({ descriptors: e.target.value })}
+        placeholder="Flat vector, rounded corners, soft shadows"
+        rows={2}
+      />
+
+      <Textarea
+        label="Avoid"
+        value={draft.negativeGuidance}
+        onChange={(e) => update({ negativeGuidance: e.target.value })}
+        placeholder="Gradients, photorealism, text"
+        rows={2}
+      />
+
+      <ImageUploader
+        images={draft.referenceImages}
+        onAddImage={(dataUrl) => setDraft((prev) => ({
+          ...prev,
+          referenceImages: [...prev.referenceImages, dataUrl].slice(0, MAX_STYLE_REFERENCE_IMAGES),
+        }))}
+        onRemoveImage={(index) => update({
+          referenceImages: draft.referenceImages.filter((_, i) => i !== index),
+        })}
+        onClear={() => update({ referenceImages: [] })}
+        maxImages={MAX_STYLE_REFERENCE_IMAGES}
+      />
+
+      <div className="style-profile-actions">
+        <Button onClick={handleSave} variant="primary" disabled={!draft.name.trim()}>
+          {selectedId ? 'Save' : 'Create'}
+        </Button>
+        {selectedId && (
+          <Button
+            onClick={() => setActiveProfile(isActive ? null : selectedId)}
+            variant="secondary"
+          >
+            {isActive ? 'Deactivate' : 'Activate'}
+          </Button>
+        )}
+        {selectedId && (
+          <Button onClick={handleDelete} variant="secondary" title="Delete profile">
+            <span aria-hidden="true">&#128465;</span>
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="style-profile-error">{error}</div>}
+    </div>
+  );
+};
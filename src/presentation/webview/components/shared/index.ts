@@ -7,3 +7,24 @@ export type { SaveButtonProps } from './SaveButton';
 
 export { OpenRouterAlert } from './OpenRouterAlert';
 export type { OpenRouterAlertProps } from './OpenRouterAlert';
+
+export { CostEstimateLabel } from './CostEstimateLabel';
+export type { CostEstimateLabelProps } from './CostEstimateLabel';
+
+export { ComparisonGrid } from './ComparisonGrid';
+export type { ComparisonGridProps } from './ComparisonGrid';
+
+export { PromptTemplatePicker } from './PromptTemplatePicker';
+export type { PromptTemplatePickerProps } from './PromptTemplatePicker';
+
+export { StyleProfileEditor } from './StyleProfileEditor';
+export type { StyleProfileEditorProps } from './StyleProfileEditor';
+
+export { StyleProfileChip } from './StyleProfileChip';
+export type { StyleProfileChipProps } from './StyleProfileChip';
+
+export { ErrorRemediation } from './ErrorRemediation';
+export type { ErrorRemediationProps } from './ErrorRemediation';
+
+export { BranchSwitcher } from './BranchSwitcher';
+export type { BranchSwitcherProps } from './BranchSwitcher';
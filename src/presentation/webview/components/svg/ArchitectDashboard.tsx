@@ -0,0 +1,199 @@
+/**
+ * ArchitectDashboard - Progress and results for SVG Architect mode
+ *
+ * Features:
+ * - Pipeline status with iteration counter
+ * - Blueprint Agent description and (collapsible) blueprint
+ * - Per-iteration SVG, rasterized PNG, confidence score, and corrections
+ * - Final result with save/copy and icon bundle export
+ */
+import React, { useState } from 'react';
+import { AspectRatio, SVGArchitectStatus, SVGArchitectResultPayload } from '@messages';
+import type { SVGArchitectIterationView } from '../../hooks/domain/useSVGArchitect';
+import { SVGPreview } from './SVGPreview';
+import { SVGCodeView } from './SVGCodeView';
+import { MarkdownRenderer } from '../common/MarkdownRenderer';
+import { SaveButton } from '../shared/SaveButton';
+import '../../styles/components/architect-dashboard.css';
+
+export interface ArchitectDashboardProps {
+  status: SVGArchitectStatus | null;
+  statusMessage: string;
+  currentIteration: number;
+  maxIterations: number;
+  description: string;
+  blueprint: string;
+  iterations: SVGArchitectIterationView[];
+  result: SVGArchitectResultPayload | null;
+  aspectRatio: AspectRatio;
+  onSave: () => void;
+  onCopy: () => void;
+  onExportIcons?: () => void;
+  exportingIcons?: boolean;
+}
+
+const STATUS_LABELS: Record<SVGArchitectStatus, string> = {
+  'analyzing': 'Analyzing',
+  'rendering': 'Rendering',
+  'awaiting-png': 'Rasterizing',
+  'validating': 'Validating',
+  'complete': 'Complete',
+};
+
+function getScoreClass(score: number): string {
+  if (score >= 85) return 'high';
+  if (score >= 60) return 'medium';
+  return 'low';
+}
+
+export const ArchitectDashboard: React.FC<ArchitectDashboardProps> = ({
+  status,
+  statusMessage,
+  currentIteration,
+  maxIterations,
+  description,
+  blueprint,
+  iterations,
+  result,
+  aspectRatio,
+  onSave,
+  onCopy,
+  onExportIcons,
+  exportingIcons = false,
+}) => {
+  const [showBlueprint, setShowBlueprint] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Reset save states when a new result arrives
+  React.useEffect(() => {
+    setSaving(false);
+    setSaved(false);
+  }, [result]);
+
+  const handleSave = React.useCallback(() => {
+    setSaving(true);
+    onSave();
+    setTimeout(() => {
+      setSaving(false);
+      setSaved(true);
+    }, 1000);
+  }, [onSave]);
+
+  if (!status && !result && iterations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="architect-dashboard">
+      {status && (
+        <div className="architect-status">
+          <span className={`architect-status-badge ${status}`}>{STATUS_LABELS[status]}</span>
+          <span className="architect-status-iteration">
+            Iteration {currentIteration}/{maxIterations}
+          </span>
+          <span className="architect-status-message">{statusMessage}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="architect-result">
+          <div className="svg-result-header">
+            <div className="svg-result-title">
+              <h3>Architect Result</h3>
+              <span className={`architect-score ${getScoreClass(result.confidenceScore)}`}>
+                {result.confidenceScore}/100
+              </span>
+            </div>
+            <div className="svg-result-actions">
+              <SaveButton onClick={handleSave} saving={saving} saved={saved} />
+            </div>
+          </div>
+          <p className="architect-result-summary">
+            {result.accepted
+              ? `Accepted on iteration ${result.iteration} of ${result.iterationCount}.`
+              : `Iteration cap reached - showing best of ${result.iterationCount} (iteration ${result.iteration}).`}
+            {result.usage && (
+              <> · {result.usage.totalTokens.toLocaleString()} tokens
+                {result.usage.costUsd !== undefined && ` · $${result.usage.costUsd.toFixed(result.usage.costUsd < 0.01 ? 4 : 2)}`}
+              </>
+            )}
+          </p>
+          <SVGPreview
+            svgCode={result.svgCode}
+            aspectRatio={aspectRatio}
+            onExportIcons={onExportIcons}
+            exportingIcons={exportingIcons}
+          />
+          <SVGCodeView svgCode={result.svgCode} onCopy={onCopy} />
+        </div>
+      )}
+
+      {description && (
+        <div className="architect-section">
+          <h4>Blueprint Agent</h4>
+          <MarkdownRenderer content={description} className="architect-description" />
+          {blueprint && (
+            <>
+              <button
+                type="button"
+                className="svg-code-toggle"
+                onClick={() => setShowBlueprint(!showBlueprint)}
+              >
+                {showBlueprint ? '▼' : '▶'} Blueprint
+              </button>
+              {showBlueprint && <pre className="architect-blueprint">{blueprint}</pre>}
+            </>
+          )}
+        </div>
+      )}
+
+      {iterations.length > 0 && (
+        <div className="architect-section">
+          <h4>Iterations</h4>
+          <div className="architect-iterations">
+            {[...iterations].reverse().map((iteration) => (
+              <div
+                key={iteration.iterationNumber}
+                className={`architect-iteration ${result?.iteration === iteration.iterationNumber ? 'selected' : ''}`}
+              >
+                <div className="architect-iteration-header">
+                  <span>#{iteration.iterationNumber}</span>
+                  {iteration.confidenceScore !== undefined ? (
+                    <span className={`architect-score ${getScoreClass(iteration.confidenceScore)}`}>
+                      {iteration.confidenceScore}/100
+                    </span>
+                  ) : (
+                    <span className="architect-score pending">…</span>
+                  )}
+                </div>
+                <div className="architect-iteration-renders">
+                  <div className="architect-iteration-render">
+                    <SVGPreview svgCode={iteration.svgCode || null} aspectRatio={aspectRatio} />
+                    <span className="architect-render-label">SVG</span>
+                  </div>
+                  <div className="architect-iteration-render">
+                    {iteration.pngData ? (
+                      <img src={iteration.pngData} alt={`Iteration ${iteration.iterationNumber} render`} />
+                    ) : (
+                      <div className="architect-render-placeholder">
+                        {iteration.renderError ?? 'PNG not kept'}
+                      </div>
+                    )}
+                    <span className="architect-render-label">PNG</span>
+                  </div>
+                </div>
+                {iteration.corrections && (
+                  <details className="architect-corrections">
+                    <summary>Validation notes</summary>
+                    <MarkdownRenderer content={iteration.corrections} />
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,10 +4,17 @@ import '../../styles/components/svg-code-view.css';
 interface SVGCodeViewProps {
   svgCode: string | null;
   onCopy: () => void;
+  defaultExpanded?: boolean;
+  title?: string;
 }
 
-export const SVGCodeView: React.FC<SVGCodeViewProps> = ({ svgCode, onCopy }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+export const SVGCodeView: React.FC<SVGCodeViewProps> = ({
+  svgCode,
+  onCopy,
+  defaultExpanded = false,
+  title = 'SVG Code',
+}) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
 
   if (!svgCode) return null;
 
@@ -19,7 +26,7 @@ export const SVGCodeView: React.FC<SVGCodeViewProps> = ({ svgCode, onCopy }) =>
           onClick={() => setIsExpanded(!isExpanded)}
           className="svg-code-toggle"
         >
-          {isExpanded ? '▼' : '▶'} SVG Code
+          {isExpanded ? '▼' : '▶'} {title}
         </button>
         <button
           type="button"
@@ -4,9 +4,11 @@ import '../../styles/components/svg-preview.css';
 interface SVGPreviewProps {
   svgCode: string | null;
   aspectRatio: string;
+  onExportIcons?: () => void;   // shows an "Export icon bundle" action over the preview
+  exportingIcons?: boolean;
 }
 
-export const SVGPreview: React.FC<SVGPreviewProps> = ({ svgCode, aspectRatio }) => {
+export const SVGPreview: React.FC<SVGPreviewProps> = ({ svgCode, aspectRatio, onExportIcons, exportingIcons = false }) => {
   if (!svgCode) {
     return (
       <div className="svg-preview svg-preview-empty">
@@ -21,6 +23,17 @@ export const SVGPreview: React.FC<SVGPreviewProps> = ({ svgCode, aspectRatio })
         className="svg-preview-content"
         dangerouslySetInnerHTML={{ __html: svgCode }}
       />
+      {onExportIcons && (
+        <button
+          type="button"
+          className="svg-preview-action"
+          onClick={onExportIcons}
+          disabled={exportingIcons}
+          title="Export favicon.ico, favicon.svg, touch and PWA icons with manifest and <link> snippets"
+        >
+          {exportingIcons ? 'Exporting…' : '🧩 Export icon bundle'}
+        </button>
+      )}
     </div>
   );
 };
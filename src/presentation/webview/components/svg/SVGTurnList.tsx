@@ -0,0 +1,49 @@
+/**
+ * SVGTurnList - Compact list of the turns in the current SVG conversation
+ *
+ * Features:
+ * - One row per turn: thumbnail of its SVG and the prompt that produced it
+ * - "Branch from here" starts a new branch that continues from that turn
+ */
+import React from 'react';
+import { SVGConversationHistoryTurn } from '@messages';
+import { SVGPreview } from './SVGPreview';
+import '../../styles/components/svg-turn-list.css';
+
+export interface SVGTurnListProps {
+  turns: SVGConversationHistoryTurn[];
+  aspectRatio: string;
+  onBranchTurn?: (turn: SVGConversationHistoryTurn) => void;
+}
+
+export const SVGTurnList: React.FC<SVGTurnListProps> = ({ turns, aspectRatio, onBranchTurn }) => {
+  if (turns.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="svg-turn-list">
+      {turns.map((turn, index) => (
+        <li key={`${turn.turnNumber ?? index + 1}-${index}`} className="svg-turn-list-item">
+          <div className="svg-turn-list-thumbnail">
+            <SVGPreview svgCode={turn.svgCode} aspectRatio={aspectRatio} />
+          </div>
+          <div className="svg-turn-list-body">
+            <span className="svg-turn-list-label">Turn {turn.turnNumber ?? index + 1}</span>
+            <span className="svg-turn-list-prompt" title={turn.prompt}>{turn.prompt}</span>
+          </div>
+          {onBranchTurn && (
+            <button
+              type="button"
+              className="svg-turn-list-branch"
+              onClick={() => onBranchTurn(turn)}
+              title="Start a new branch that continues from this turn"
+            >
+              ⑂ Branch from here
+            </button>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -7,12 +7,14 @@ interface SingleImageUploaderProps {
     svgText: string | null;
   };
   onAttachmentChange: (data: { preview: string | null; svgText: string | null }) => void;
+  onPickFromWorkspace?: () => void;  // extension QuickPick of workspace images and SVGs
   disabled?: boolean;
 }
 
 export const SingleImageUploader: React.FC<SingleImageUploaderProps> = ({
   attachment,
   onAttachmentChange,
+  onPickFromWorkspace,
   disabled = false,
 }) => {
   const inputRef = useRef<HTMLInputElement>(null);
@@ -58,14 +60,27 @@ export const SingleImageUploader: React.FC<SingleImageUploaderProps> = ({
           </button>
         </div>
       ) : (
-        <button
-          type="button"
-          onClick={() => inputRef.current?.click()}
-          disabled={disabled}
-          className="add-reference-button"
-        >
-          + Add Reference Image (optional)
-        </button>
+        <div className="single-image-uploader-actions">
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+            className="add-reference-button"
+          >
+            + Add Reference Image (optional)
+          </button>
+          {onPickFromWorkspace && (
+            <button
+              type="button"
+              onClick={onPickFromWorkspace}
+              disabled={disabled}
+              className="add-reference-button"
+              title="Pick a reference image or SVG from the workspace"
+            >
+              From Workspace…
+            </button>
+          )}
+        </div>
       )}
       <input
         ref={inputRef}
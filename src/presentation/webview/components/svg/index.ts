@@ -1,3 +1,7 @@
 export { SVGPreview } from './SVGPreview';
 export { SVGCodeView } from './SVGCodeView';
 export { SingleImageUploader } from './SingleImageUploader';
+export { ArchitectDashboard } from './ArchitectDashboard';
+export type { ArchitectDashboardProps } from './ArchitectDashboard';
+export { SVGTurnList } from './SVGTurnList';
+export type { SVGTurnListProps } from './SVGTurnList';
@@ -0,0 +1,102 @@
+/**
+ * HistoryView - Browse and restore past image and SVG conversations
+ *
+ * Pattern: Composition of history components
+ * Responsibilities:
+ * - Full-text search over prompts, filters by type and model
+ * - Restore a conversation into its view (App switches tabs)
+ * - Receive hook instance as prop (prose-minion pattern)
+ */
+import React from 'react';
+import { HistoryEntryType } from '@messages';
+import { UseHistoryReturn } from '../../hooks/domain/useHistory';
+import { HistoryEntryCard } from '../history/HistoryEntryCard';
+import { Input } from '../common/Input';
+import '../../styles/components/history-view.css';
+
+export interface HistoryViewProps {
+  history: UseHistoryReturn;
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({
+  history,
+}) => {
+  const {
+    entries,
+    filteredEntries,
+    models,
+    query,
+    setQuery,
+    modelFilter,
+    setModelFilter,
+    typeFilter,
+    setTypeFilter,
+    restoringId,
+    error,
+    restore,
+    deleteEntry,
+  } = history;
+
+  return (
+    <div className="history-view">
+      <div className="well">
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prompts..."
+          aria-label="Search prompts"
+        />
+        <div className="history-filters">
+          <select
+            className="history-filter-select"
+            value={typeFilter ?? ''}
+            onChange={(e) => setTypeFilter((e.target.value || null) as HistoryEntryType | null)}
+            aria-label="Filter by type"
+          >
+            <option value="">All types</option>
+            <option value="image">Images</option>
+            <option value="svg">SVGs</option>
+          </select>
+          <select
+            className="history-filter-select"
+            value={modelFilter ?? ''}
+            onChange={(e) => setModelFilter(e.target.value || null)}
+            aria-label="Filter by model"
+          >
+            <option value="">All models</option>
+            {models.map((model) => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="history-error">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="well history-list-well">
+        {entries.length === 0 ? (
+          <p className="history-empty">Generated images and SVGs will appear here.</p>
+        ) : filteredEntries.length === 0 ? (
+          <p className="history-empty">No conversations match your search.</p>
+        ) : (
+          <div className="history-list">
+            {filteredEntries.map((entry) => (
+              <HistoryEntryCard
+                key={entry.conversationId}
+                entry={entry}
+                onRestore={restore}
+                onDelete={deleteEntry}
+                restoring={restoringId === entry.conversationId}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,31 +3,71 @@
  *
  * Pattern: Composition of existing image generation components
  * Responsibilities:
- * - Compose ModelSelector, AspectRatioSelector, ImageUploader, ImageGallery
+ * - Compose ModelSelector, AspectRatioSelector, VariationCountSelector, ImageUploader, ImageGallery
  * - Receive hook instance as prop (prose-minion pattern)
- * - Handle image save state tracking
+ * - Handle image save state tracking and save options (format, size, metadata)
+ * - Host the MaskEditor for region edits of any image in the thread
+ * - Export any image in the thread as an icon bundle
+ * - Compare mode: send the same request to several models and promote one result
+ * - Offer the prompt template library next to the prompt
+ * - Show the active brand style profile as a chip
+ * - Branch the conversation from any turn and switch between branches
+ * - Pick which of the latest images the next refinement continues from
+ * - Attach reference images from the workspace
  */
 import React from 'react';
 import { UseImageGenerationReturn } from '../../hooks/domain/useImageGeneration';
+import { UseIconBundleReturn } from '../../hooks/domain/useIconBundle';
+import { UseModelComparisonReturn } from '../../hooks/domain/useModelComparison';
+import { UsePromptTemplatesReturn } from '../../hooks/domain/usePromptTemplates';
+import { UseStyleProfilesReturn } from '../../hooks/domain/useStyleProfiles';
 import { ModelSelector } from '../image/ModelSelector';
+import { ModelMultiSelector } from '../image/ModelMultiSelector';
 import { AspectRatioSelector } from '../image/AspectRatioSelector';
+import { VariationCountSelector } from '../image/VariationCountSelector';
+import { ImageGallery } from '../image/ImageGallery';
 import { ImageUploader } from '../image/ImageUploader';
 import { ConversationThread } from '../image/ConversationThread';
+import { MaskEditor } from '../image/MaskEditor';
+import { SaveOptionsPanel } from '../image/SaveOptionsPanel';
 import { ContinueChatInput } from '../shared/ContinueChatInput';
 import { LoadingIndicator } from '../shared/LoadingIndicator';
-import { OPENROUTER_IMAGE_MODELS } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+import { CostEstimateLabel } from '../shared/CostEstimateLabel';
+import { ComparisonGrid } from '../shared/ComparisonGrid';
+import { PromptTemplatePicker } from '../shared/PromptTemplatePicker';
+import { StyleProfileChip } from '../shared/StyleProfileChip';
+import { ErrorRemediation } from '../shared/ErrorRemediation';
+import { BranchSwitcher } from '../shared/BranchSwitcher';
+import { getModelsForType } from '../../../../infrastructure/ai/providers/ProviderCatalog';
 import { Textarea } from '../common/Textarea';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
-import { GeneratedImage } from '@messages';
+import { ToggleSwitch } from '../common/ToggleSwitch';
+import { estimateComparisonCost } from '@utils/costEstimate';
+import { GeneratedImage, ImageInpaintMask, MAX_COMPARISON_MODELS, PromptTemplate } from '@messages';
+import { ModelDefinition } from '../../../../shared/types/providers';
 import '../../styles/components/image-generation-view.css';
 
 export interface ImageGenerationViewProps {
   imageGeneration: UseImageGenerationReturn;
+  comparison: UseModelComparisonReturn;
+  iconBundle: UseIconBundleReturn;
+  promptTemplates: UsePromptTemplatesReturn;
+  onApplyTemplate: (template: PromptTemplate, prompt: string) => void;
+  styleProfiles: UseStyleProfilesReturn;
+  openRouterModels?: ModelDefinition[];  // live catalog; curated list until it arrives
+  onOpenSettings: () => void;            // error remediation (API key, fallback model)
 }
 
 export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
   imageGeneration,
+  comparison,
+  iconBundle,
+  promptTemplates,
+  onApplyTemplate,
+  styleProfiles,
+  openRouterModels,
+  onOpenSettings,
 }) => {
   const {
     prompt,
@@ -38,25 +78,66 @@ export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
     setAspectRatio,
     seedInput,
     setSeedInput,
+    variationCount,
+    setVariationCount,
+    variationProgress,
+    variationImages,
+    costEstimate,
+    requestInput,
+    saveOptions,
+    saveAsIsLimit,
+    setSaveOptions,
+    selectVariation,
+    continuationCandidates,
+    continuationTargetIds,
+    toggleContinuationTarget,
     referenceImages,
     referenceSvgText,
     referenceSvgWarning,
     referenceImageSizeWarning,
+    capabilities,
     addReferenceImage,
     removeReferenceImage,
     clearReferenceImages,
+    pickWorkspaceReferences,
     conversationHistory,
     conversationId,
+    branchTree,
+    activeBranchId,
+    isBranching,
+    branchFromTurn,
+    switchBranch,
     isLoading,
+    retryStatus,
     isEnhancing,
     error,
+    errorCode,
     generate,
     continueChat,
+    inpaintImage,
     clearConversation,
     saveImage,
     enhancePrompt,
+    cancelEnhance,
+    cancelGeneration,
   } = imageGeneration;
 
+  const imageModels = React.useMemo(
+    () => getModelsForType('image', [], openRouterModels),
+    [openRouterModels]
+  );
+
+  // Compare mode replaces the model and variation pickers
+  const isCompareMode = comparison.enabled;
+  const isBusy = isLoading || comparison.isRunning;
+  const comparisonEstimate = React.useMemo(() => estimateComparisonCost(
+    'image',
+    comparison.models.map((id) => imageModels.find((candidate) => candidate.id === id)),
+    requestInput
+  ), [comparison.models, imageModels, requestInput]);
+  const activeError = (isCompareMode ? comparison.error : error) ?? iconBundle.error;
+  const activeErrorCode = isCompareMode ? comparison.errorCode : errorCode;
+
   // Format the conversation start time
   const formatDateTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -93,41 +174,98 @@ export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
     }, 1000);
   }, [saveImage]);
 
+  // Image open in the MaskEditor
+  const [editingImage, setEditingImage] = React.useState<GeneratedImage | null>(null);
+
+  const handleApplyEdit = React.useCallback((instruction: string, mask: Omit<ImageInpaintMask, 'sourceImage'>) => {
+    if (editingImage) {
+      inpaintImage(editingImage, instruction, mask);
+      setEditingImage(null);
+    }
+  }, [editingImage, inpaintImage]);
+
   return (
     <div className="image-generation-view">
       {/* Input well: Model, Aspect Ratio, Seed, Prompt, Reference Images, Generate button */}
       <div className="well">
-        {/* Header: Model + Aspect Ratio + Seed selectors */}
+        {/* Header: Model(s) + Aspect Ratio + Variations + Seed selectors */}
         <div className="image-generation-header">
-          <ModelSelector
-            models={OPENROUTER_IMAGE_MODELS}
-            selectedModel={model}
-            onModelChange={setModel}
-            disabled={isLoading}
-          />
+          {isCompareMode ? (
+            <ModelMultiSelector
+              models={imageModels}
+              selectedModels={comparison.models}
+              onToggleModel={comparison.toggleModel}
+              maxSelected={MAX_COMPARISON_MODELS}
+              disabled={isBusy}
+            />
+          ) : (
+            <ModelSelector
+              models={imageModels}
+              selectedModel={model}
+              onModelChange={setModel}
+              disabled={isBusy}
+            />
+          )}
           <AspectRatioSelector
             selectedRatio={aspectRatio}
             onRatioChange={setAspectRatio}
-            disabled={isLoading}
+            supportedRatios={isCompareMode ? undefined : capabilities.aspectRatios}
+            disabled={isBusy}
           />
+          {!isCompareMode && (
+            <VariationCountSelector
+              count={variationCount}
+              onCountChange={setVariationCount}
+              disabled={isBusy}
+            />
+          )}
           <Input
             type="text"
             value={seedInput}
             onChange={(e) => setSeedInput(e.target.value)}
-            placeholder="Auto Generate"
-            disabled={isLoading}
+            placeholder={isCompareMode || capabilities.seed ? 'Auto Generate' : 'Not supported'}
+            disabled={isBusy || (!isCompareMode && !capabilities.seed)}
             label="Seed"
             className="seed-input"
           />
         </div>
 
+        <div className="image-generation-mode-row">
+          <ToggleSwitch
+            checked={isCompareMode}
+            onChange={comparison.setEnabled}
+            label="Compare models"
+            description="Send the same prompt, references and seed to several models side by side, then continue with the best result."
+            disabled={isBusy}
+          />
+        </div>
+
         {/* Prompt input */}
         <div className="image-generation-prompt-section">
+          {styleProfiles.activeProfile && (
+            <StyleProfileChip
+              profile={styleProfiles.activeProfile}
+              onDeactivate={() => styleProfiles.setActiveProfile(null)}
+              disabled={isBusy}
+            />
+          )}
+          <PromptTemplatePicker
+            templates={promptTemplates.templates}
+            viewType="image"
+            workspaceAvailable={promptTemplates.workspaceAvailable}
+            current={{ prompt, model, aspectRatio }}
+            onApply={onApplyTemplate}
+            onSave={promptTemplates.saveTemplate}
+            onDelete={promptTemplates.deleteTemplate}
+            onOpen={promptTemplates.refreshTemplates}
+            error={promptTemplates.error}
+            disabled={isBusy}
+          />
           <Textarea
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             placeholder="Describe the image you want to generate..."
-            disabled={isLoading}
+            disabled={isBusy}
             rows={3}
           />
 
@@ -137,15 +275,18 @@ export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
               onAddImage={addReferenceImage}
               onRemoveImage={removeReferenceImage}
               onClear={clearReferenceImages}
-              disabled={isLoading}
+              onPickFromWorkspace={pickWorkspaceReferences}
+              disabled={isBusy}
+              maxImages={isCompareMode ? undefined : capabilities.maxReferenceImages}
             />
             <Button
-              onClick={enhancePrompt}
-              disabled={isLoading || isEnhancing || !prompt.trim()}
+              onClick={isEnhancing ? cancelEnhance : enhancePrompt}
+              disabled={isBusy || (!isEnhancing && !prompt.trim())}
               variant="secondary"
               className="enhance-prompt-button"
+              title={isEnhancing ? 'Stop enhancing' : undefined}
             >
-              {isEnhancing ? 'Enhancing...' : '🤖 Enhance Prompt'}
+              {isEnhancing ? '■ Enhancing... (stop)' : '🤖 Enhance Prompt'}
             </Button>
           </div>
           {referenceSvgText && (
@@ -159,19 +300,37 @@ export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
             </div>
           )}
 
-          <Button
-            onClick={generate}
-            disabled={isLoading || !prompt.trim()}
-            variant="primary"
-          >
-            {isLoading ? 'Generating...' : '⚡ Generate'}
-          </Button>
+          <div className="generate-action-row">
+            {isCompareMode ? (
+              <Button
+                onClick={() => comparison.compare(requestInput, prompt)}
+                disabled={isBusy || !prompt.trim() || comparison.models.length < 2}
+                variant="primary"
+              >
+                {comparison.isRunning ? 'Comparing...' : `⚖️ Compare ${comparison.models.length} models`}
+              </Button>
+            ) : (
+              <Button
+                onClick={generate}
+                disabled={isBusy || !prompt.trim()}
+                variant="primary"
+              >
+                {isLoading ? 'Generating...' : variationCount > 1 ? `⚡ Generate ${variationCount}` : '⚡ Generate'}
+              </Button>
+            )}
+            <CostEstimateLabel estimate={isCompareMode ? comparisonEstimate : costEstimate} />
+          </div>
         </div>
 
         {/* Error display */}
-        {error && (
+        {activeError && (
           <div className="image-generation-error">
-            {error}
+            {activeError}
+            <ErrorRemediation
+              code={activeErrorCode}
+              onOpenSettings={onOpenSettings}
+              onClearReferences={referenceImages.length > 0 ? clearReferenceImages : undefined}
+            />
           </div>
         )}
       </div>
@@ -199,20 +358,110 @@ export const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({
           </div>
         )}
 
+        <BranchSwitcher
+          tree={branchTree}
+          activeBranchId={activeBranchId}
+          onSwitch={switchBranch}
+          disabled={isBusy || isBranching}
+        />
+
+        {conversationHistory.length > 0 && (
+          <SaveOptionsPanel options={saveOptions} onChange={setSaveOptions} asIsLimit={saveAsIsLimit} />
+        )}
+
         {/* Scrollable conversation area */}
         <div className="image-generation-scroll-area">
+          {/* Compare results - any finished cell can become the conversation */}
+          {comparison.cells.length > 0 && (
+            <div className="comparison-section">
+              <div className="conversation-header">
+                <div className="conversation-header-info">
+                  <span className="conversation-header-title">Model comparison</span>
+                </div>
+                <button
+                  type="button"
+                  className="conversation-header-clear"
+                  onClick={comparison.clearComparison}
+                  title="Clear comparison"
+                  disabled={comparison.isRunning}
+                >
+                  <span aria-hidden="true">&#128465;</span>
+                </button>
+              </div>
+              <ComparisonGrid
+                cells={comparison.cells}
+                models={imageModels}
+                promotedConversationId={comparison.promotedConversationId}
+                onPromote={isBusy ? undefined : comparison.promote}
+              />
+            </div>
+          )}
+
           {/* Conversation thread - chat-style display of all turns */}
           <ConversationThread
             turns={conversationHistory}
             onSaveImage={handleSaveImage}
             savingImageIds={savingIds}
             savedImageIds={savedIds}
+            activeConversationId={conversationId}
+            onSelectImage={isLoading ? undefined : selectVariation}
+            onEditImage={isLoading ? undefined : setEditingImage}
+            onExportIcons={iconBundle.exportImageIcons}
+            exportingIconsId={iconBundle.exportingId}
+            exportedIconIds={iconBundle.exportedIds}
+            onBranchTurn={isBusy || isBranching || !conversationId ? undefined : branchFromTurn}
           />
 
+          {editingImage && conversationHistory.length > 0 && (
+            <MaskEditor
+              key={editingImage.id}
+              image={editingImage}
+              onApply={handleApplyEdit}
+              onCancel={() => setEditingImage(null)}
+              disabled={isLoading}
+            />
+          )}
+
+          {/* Continuation targets - only worth offering when the latest turn has several images */}
+          {!isLoading && continuationCandidates.length > 1 && (
+            <ImageGallery
+              images={continuationCandidates}
+              onSaveImage={handleSaveImage}
+              savingImageIds={savingIds}
+              savedImageIds={savedIds}
+              title="Continue from"
+              hint="Pick the images the next refinement should work on - none picked means all of them."
+              targetImageIds={new Set(continuationTargetIds)}
+              onToggleTarget={toggleContinuationTarget}
+            />
+          )}
+
+          {/* Variations that have landed while the rest of the batch is still running */}
+          {isLoading && (
+            <ImageGallery
+              images={variationImages}
+              onSaveImage={handleSaveImage}
+              savingImageIds={savingIds}
+              savedImageIds={savedIds}
+              title="Variations so far"
+            />
+          )}
+
           {/* Loading indicator - appears at bottom where new content will show */}
           <LoadingIndicator
             isLoading={isLoading}
-            defaultMessage="Generating image..."
+            defaultMessage={variationProgress ? 'Generating variations...' : 'Generating image...'}
+            progress={variationProgress
+              ? { current: variationProgress.completed, total: variationProgress.total, label: `${variationProgress.completed} of ${variationProgress.total} variations` }
+              : undefined}
+            tickerMessage={retryStatus ?? undefined}
+            onCancel={cancelGeneration}
+          />
+          <LoadingIndicator
+            isLoading={comparison.isRunning}
+            defaultMessage="Comparing models..."
+            tickerMessage={retryStatus ?? undefined}
+            onCancel={comparison.cancelComparison}
           />
         </div>
       </div>
@@ -4,30 +4,76 @@
  * Pattern: Composition of existing SVG generation components
  * Responsibilities:
  * - Compose ModelSelector, AspectRatioSelector, SingleImageUploader, SVGPreview, SVGCodeView
- * - Receive hook instance as prop (prose-minion pattern)
+ * - Switch between direct generation and SVG Architect (multi-agent) mode
+ * - Compare mode: send the same request to several models and promote one result
+ * - Offer the prompt template library next to the prompt
+ * - Show the active brand style profile as a chip
+ * - Show the pre-flight cost estimate (worst case for an Architect run)
+ * - Receive hook instances as props (prose-minion pattern)
  * - Handle SVG save state tracking
+ * - Export the result as an icon bundle
+ * - List the conversation's turns, branch from any of them and switch between branches
+ * - Attach the reference image or SVG from the workspace
  */
 import React from 'react';
 import { UseSVGGenerationReturn } from '../../hooks/domain/useSVGGeneration';
+import { UseSVGArchitectReturn } from '../../hooks/domain/useSVGArchitect';
+import { UseIconBundleReturn } from '../../hooks/domain/useIconBundle';
+import { UseModelComparisonReturn } from '../../hooks/domain/useModelComparison';
+import { UsePromptTemplatesReturn } from '../../hooks/domain/usePromptTemplates';
+import { UseStyleProfilesReturn } from '../../hooks/domain/useStyleProfiles';
 import { ModelSelector } from '../image/ModelSelector';
+import { ModelMultiSelector } from '../image/ModelMultiSelector';
 import { AspectRatioSelector } from '../image/AspectRatioSelector';
 import { SingleImageUploader } from '../svg/SingleImageUploader';
 import { SVGPreview } from '../svg/SVGPreview';
 import { SVGCodeView } from '../svg/SVGCodeView';
+import { ArchitectDashboard } from '../svg/ArchitectDashboard';
+import { SVGTurnList } from '../svg/SVGTurnList';
 import { ContinueChatInput } from '../shared/ContinueChatInput';
 import { LoadingIndicator } from '../shared/LoadingIndicator';
-import { OPENROUTER_SVG_MODELS } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+import { CostEstimateLabel } from '../shared/CostEstimateLabel';
+import { ComparisonGrid } from '../shared/ComparisonGrid';
+import { PromptTemplatePicker } from '../shared/PromptTemplatePicker';
+import { StyleProfileChip } from '../shared/StyleProfileChip';
+import { ErrorRemediation } from '../shared/ErrorRemediation';
+import { BranchSwitcher } from '../shared/BranchSwitcher';
+import { getModelsForType } from '../../../../infrastructure/ai/providers/ProviderCatalog';
+import { estimateArchitectCost } from '../../../../infrastructure/ai/providers/CostEstimator';
 import { Textarea } from '../common/Textarea';
 import { Button } from '../common/Button';
+import { ToggleSwitch } from '../common/ToggleSwitch';
 import { SaveButton } from '../shared/SaveButton';
+import { getStreamingSvgCode, balancePartialSvg } from '@utils/svgStreaming';
+import { describeEstimateAccuracy, estimateComparisonCost, formatUsd } from '@utils/costEstimate';
+import { MAX_COMPARISON_MODELS, PromptTemplate } from '@messages';
+import { GenerationType, ModelDefinition } from '../../../../shared/types/providers';
 import '../../styles/components/svg-generation-view.css';
 
 export interface SVGGenerationViewProps {
   svgGeneration: UseSVGGenerationReturn;
+  svgArchitect: UseSVGArchitectReturn;
+  comparison: UseModelComparisonReturn;
+  iconBundle: UseIconBundleReturn;
+  promptTemplates: UsePromptTemplatesReturn;
+  onApplyTemplate: (template: PromptTemplate, prompt: string) => void;
+  styleProfiles: UseStyleProfilesReturn;
+  customProviderModels?: string[];  // models served by the custom endpoint (Settings)
+  modelCatalog?: Record<GenerationType, ModelDefinition[]> | null;  // live OpenRouter catalog
+  onOpenSettings: () => void;       // error remediation (API key, fallback model)
 }
 
 export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
   svgGeneration,
+  svgArchitect,
+  comparison,
+  iconBundle,
+  promptTemplates,
+  onApplyTemplate,
+  styleProfiles,
+  customProviderModels = [],
+  modelCatalog,
+  onOpenSettings,
 }) => {
   const {
     prompt,
@@ -39,21 +85,89 @@ export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
     referenceImage,
     referenceSvgText,
     setReferenceAttachment,
+    pickWorkspaceReference,
     svgCode,
+    streamingContent,
+    costEstimate,
+    requestInput,
     conversationHistory,
     conversationId,
+    branchTree,
+    activeBranchId,
+    isBranching,
+    branchFromTurn,
+    switchBranch,
     isLoading,
+    retryStatus,
     error,
+    errorCode,
     generate,
     continueChat,
     saveSVG,
     copySVG,
+    cancelGeneration,
   } = svgGeneration;
 
-  // Get the latest turn's usage for display
-  const latestUsage = conversationHistory.length > 0
-    ? conversationHistory[conversationHistory.length - 1].usage
+  const isArchitectMode = svgArchitect.isArchitectMode;
+  const isCompareMode = !isArchitectMode && comparison.enabled;
+  const isBusy = isLoading || svgArchitect.isLoading || comparison.isRunning;
+  const modeError = isArchitectMode ? svgArchitect.error : isCompareMode ? comparison.error : error;
+  const activeError = modeError ?? iconBundle.error;
+  const activeErrorCode = isArchitectMode ? svgArchitect.errorCode : isCompareMode ? comparison.errorCode : errorCode;
+  const svgModels = React.useMemo(
+    () => getModelsForType('svg', customProviderModels, modelCatalog?.svg),
+    [customProviderModels, modelCatalog]
+  );
+  const blueprintModels = React.useMemo(
+    () => getModelsForType('svgBlueprint', customProviderModels, modelCatalog?.svgBlueprint),
+    [customProviderModels, modelCatalog]
+  );
+  const architectEstimate = React.useMemo(() => estimateArchitectCost(
+    blueprintModels.find((candidate) => candidate.id === svgArchitect.blueprintModel),
+    svgModels.find((candidate) => candidate.id === model),
+    {
+      promptChars: prompt.length + (referenceSvgText?.length ?? 0),
+      hasReferenceImage: !!referenceImage && !referenceSvgText,
+      maxIterations: svgArchitect.maxIterations,
+    }
+  ), [blueprintModels, svgModels, svgArchitect.blueprintModel, svgArchitect.maxIterations, model, prompt, referenceImage, referenceSvgText]);
+  const comparisonEstimate = React.useMemo(() => estimateComparisonCost(
+    'svg',
+    comparison.models.map((id) => svgModels.find((candidate) => candidate.id === id)),
+    requestInput
+  ), [comparison.models, svgModels, requestInput]);
+  const canGenerate = isArchitectMode
+    ? !!(prompt.trim() || referenceImage || referenceSvgText)
+    : !!prompt.trim();
+
+  const handleGenerate = React.useCallback(() => {
+    if (isArchitectMode) {
+      svgArchitect.generate({ prompt, renderModel: model, aspectRatio, referenceImage, referenceSvgText });
+    } else if (isCompareMode) {
+      comparison.compare(requestInput);
+    } else {
+      generate();
+    }
+  }, [isArchitectMode, isCompareMode, svgArchitect, comparison, requestInput, prompt, model, aspectRatio, referenceImage, referenceSvgText, generate]);
+
+  // Live preview while the response streams: raw code for the code view, balanced for rendering
+  const streamingSvgCode = isLoading && streamingContent ? getStreamingSvgCode(streamingContent) : null;
+  const streamingPreview = React.useMemo(
+    () => (streamingSvgCode ? balancePartialSvg(streamingSvgCode) : null),
+    [streamingSvgCode]
+  );
+
+  const copyStreamingCode = React.useCallback(() => {
+    if (streamingSvgCode) {
+      navigator.clipboard.writeText(streamingSvgCode).catch(() => undefined);
+    }
+  }, [streamingSvgCode]);
+
+  // Get the latest turn's usage (and how the estimate compared) for display
+  const latestTurn = conversationHistory.length > 0
+    ? conversationHistory[conversationHistory.length - 1]
     : undefined;
+  const latestUsage = latestTurn?.usage;
 
   const [saving, setSaving] = React.useState(false);
   const [saved, setSaved] = React.useState(false);
@@ -73,6 +187,20 @@ export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
     }, 1000);
   }, [saveSVG]);
 
+  // One export per SVG: the turn count changes with every new result
+  const iconSourceId = `svg-${conversationId ?? 'draft'}-${conversationHistory.length}`;
+  const handleExportIcons = React.useCallback(() => {
+    if (svgCode) {
+      void iconBundle.exportSVGIcons(iconSourceId, svgCode, aspectRatio);
+    }
+  }, [iconBundle, iconSourceId, svgCode, aspectRatio]);
+
+  const handleExportArchitectIcons = React.useCallback(() => {
+    if (svgArchitect.result) {
+      void iconBundle.exportSVGIcons('svg-architect', svgArchitect.result.svgCode, svgArchitect.aspectRatio);
+    }
+  }, [iconBundle, svgArchitect.result, svgArchitect.aspectRatio]);
+
   const renderSizedPreview = React.useCallback((size: number) => (
     <div key={size} className="svg-sized-preview">
       <div
@@ -89,50 +217,124 @@ export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
     <div className="svg-generation-view">
       {/* Input well: Model, Aspect Ratio, Prompt, Reference Image, Generate button */}
       <div className="well">
-        {/* Header: Model + Aspect Ratio selectors */}
+        {/* Header: Model(s) + Aspect Ratio selectors */}
         <div className="svg-generation-header">
-          <ModelSelector
-            models={OPENROUTER_SVG_MODELS}
-            selectedModel={model}
-            onModelChange={setModel}
-            disabled={isLoading}
-          />
+          {isCompareMode ? (
+            <ModelMultiSelector
+              models={svgModels}
+              selectedModels={comparison.models}
+              onToggleModel={comparison.toggleModel}
+              maxSelected={MAX_COMPARISON_MODELS}
+              disabled={isBusy}
+            />
+          ) : (
+            <ModelSelector
+              models={svgModels}
+              selectedModel={model}
+              onModelChange={setModel}
+              disabled={isBusy}
+              label={isArchitectMode ? 'Render Model' : 'Model'}
+            />
+          )}
+          {isArchitectMode && (
+            <ModelSelector
+              id="blueprint-model-select"
+              label="Blueprint Model"
+              models={blueprintModels}
+              selectedModel={svgArchitect.blueprintModel}
+              onModelChange={svgArchitect.setBlueprintModel}
+              disabled={isBusy}
+            />
+          )}
           <AspectRatioSelector
             selectedRatio={aspectRatio}
             onRatioChange={setAspectRatio}
-            disabled={isLoading}
+            disabled={isBusy}
+          />
+        </div>
+
+        <div className="svg-generation-mode-row">
+          <ToggleSwitch
+            checked={isArchitectMode}
+            onChange={svgArchitect.setArchitectMode}
+            label="Architect mode"
+            description="Multi-agent: a vision model blueprints the input, then validates each rendered SVG until confident. Slower and uses more tokens."
+            disabled={isBusy || isCompareMode}
+          />
+          <ToggleSwitch
+            checked={isCompareMode}
+            onChange={comparison.setEnabled}
+            label="Compare models"
+            description="Send the same prompt and attachment to several models side by side, then continue with the best result."
+            disabled={isBusy || isArchitectMode}
           />
         </div>
 
         {/* Prompt input */}
         <div className="svg-generation-prompt-section">
+          {styleProfiles.activeProfile && (
+            <StyleProfileChip
+              profile={styleProfiles.activeProfile}
+              onDeactivate={() => styleProfiles.setActiveProfile(null)}
+              disabled={isBusy}
+            />
+          )}
+          <PromptTemplatePicker
+            templates={promptTemplates.templates}
+            viewType="svg"
+            workspaceAvailable={promptTemplates.workspaceAvailable}
+            current={{ prompt, model, aspectRatio }}
+            onApply={onApplyTemplate}
+            onSave={promptTemplates.saveTemplate}
+            onDelete={promptTemplates.deleteTemplate}
+            onOpen={promptTemplates.refreshTemplates}
+            error={promptTemplates.error}
+            disabled={isBusy}
+          />
           <Textarea
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
-            placeholder="Describe the SVG you want to create..."
-            disabled={isLoading}
+            placeholder={isArchitectMode
+              ? 'Describe the SVG, or attach an image to recreate...'
+              : 'Describe the SVG you want to create...'}
+            disabled={isBusy}
             rows={3}
           />
 
           <SingleImageUploader
             attachment={{ preview: referenceImage, svgText: referenceSvgText }}
             onAttachmentChange={setReferenceAttachment}
-            disabled={isLoading}
+            onPickFromWorkspace={pickWorkspaceReference}
+            disabled={isBusy}
           />
 
-          <Button
-            onClick={generate}
-            disabled={isLoading || !prompt.trim()}
-            variant="primary"
-          >
-            {isLoading ? 'Generating...' : '⚡ Generate'}
-          </Button>
+          <div className="generate-action-row">
+            <Button
+              onClick={handleGenerate}
+              disabled={isBusy || !canGenerate || (isCompareMode && comparison.models.length < 2)}
+              variant="primary"
+            >
+              {isBusy
+                ? (comparison.isRunning ? 'Comparing...' : 'Generating...')
+                : isArchitectMode ? '🏗️ Architect' : isCompareMode ? `⚖️ Compare ${comparison.models.length} models` : '⚡ Generate'}
+            </Button>
+            <CostEstimateLabel
+              estimate={isArchitectMode ? architectEstimate : isCompareMode ? comparisonEstimate : costEstimate}
+            />
+          </div>
         </div>
 
         {/* Error display */}
-        {error && (
+        {activeError && (
           <div className="svg-generation-error">
-            {error}
+            {activeError}
+            <ErrorRemediation
+              code={activeErrorCode}
+              onOpenSettings={onOpenSettings}
+              onClearReferences={referenceImage || referenceSvgText
+                ? () => setReferenceAttachment({ preview: null, svgText: null })
+                : undefined}
+            />
           </div>
         )}
       </div>
@@ -140,8 +342,80 @@ export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
       {/* Output well: Scrollable result area */}
       <div className="well svg-generation-output-well">
         <div className="svg-generation-scroll-area">
+          {isArchitectMode && (
+            <>
+              <ArchitectDashboard
+                status={svgArchitect.status}
+                statusMessage={svgArchitect.statusMessage}
+                currentIteration={svgArchitect.currentIteration}
+                maxIterations={svgArchitect.maxIterations}
+                description={svgArchitect.description}
+                blueprint={svgArchitect.blueprint}
+                iterations={svgArchitect.iterations}
+                result={svgArchitect.result}
+                aspectRatio={svgArchitect.aspectRatio}
+                onSave={svgArchitect.saveSVG}
+                onCopy={svgArchitect.copySVG}
+                onExportIcons={handleExportArchitectIcons}
+                exportingIcons={iconBundle.exportingId === 'svg-architect'}
+              />
+              <LoadingIndicator
+                isLoading={svgArchitect.isLoading}
+                statusMessage={svgArchitect.statusMessage}
+                defaultMessage="Running SVG Architect..."
+                progress={svgArchitect.currentIteration > 0 ? {
+                  current: svgArchitect.currentIteration,
+                  total: svgArchitect.maxIterations,
+                  label: `Iteration ${svgArchitect.currentIteration} of ${svgArchitect.maxIterations}`,
+                } : undefined}
+                onCancel={svgArchitect.cancel}
+              />
+            </>
+          )}
+
+          {/* Compare results - any finished cell can become the conversation */}
+          {!isArchitectMode && comparison.cells.length > 0 && (
+            <div className="comparison-section">
+              <div className="svg-result-header">
+                <div className="svg-result-title">
+                  <h3>Model comparison</h3>
+                </div>
+                <div className="svg-result-actions">
+                  <Button onClick={comparison.clearComparison} disabled={comparison.isRunning} variant="secondary">
+                    Clear
+                  </Button>
+                </div>
+              </div>
+              <ComparisonGrid
+                cells={comparison.cells}
+                models={svgModels}
+                promotedConversationId={comparison.promotedConversationId}
+                onPromote={isBusy ? undefined : comparison.promote}
+              />
+            </div>
+          )}
+
+          {/* Branches and turns of the conversation */}
+          {!isArchitectMode && (
+            <>
+              <BranchSwitcher
+                tree={branchTree}
+                activeBranchId={activeBranchId}
+                onSwitch={switchBranch}
+                disabled={isBusy || isBranching}
+              />
+              {conversationId && (
+                <SVGTurnList
+                  turns={conversationHistory}
+                  aspectRatio={aspectRatio}
+                  onBranchTurn={isBusy || isBranching ? undefined : branchFromTurn}
+                />
+              )}
+            </>
+          )}
+
           {/* Generated SVG preview and code */}
-          {svgCode && (
+          {!isArchitectMode && svgCode && (
             <div className="svg-generation-result">
               <div className="svg-result-header">
                 <div className="svg-result-title">
@@ -157,31 +431,64 @@ export const SVGGenerationView: React.FC<SVGGenerationViewProps> = ({
               <div className="svg-preview-grid">
                 {[32, 64, 128].map(renderSizedPreview)}
               </div>
-              <SVGPreview svgCode={svgCode} aspectRatio={aspectRatio} />
+              <SVGPreview
+                svgCode={svgCode}
+                aspectRatio={aspectRatio}
+                onExportIcons={handleExportIcons}
+                exportingIcons={iconBundle.exportingId === iconSourceId}
+              />
               <SVGCodeView svgCode={svgCode} onCopy={copySVG} />
               {latestUsage && (
                 <div className="svg-usage-display">
                   {latestUsage.totalTokens.toLocaleString()} tokens
                   {latestUsage.costUsd !== undefined && (
-                    <> · {latestUsage.costUsd < 0.01
-                      ? `$${latestUsage.costUsd.toFixed(4)}`
-                      : `$${latestUsage.costUsd.toFixed(2)}`}</>
+                    <> · {formatUsd(latestUsage.costUsd)}</>
+                  )}
+                  {latestUsage.costUsd !== undefined && latestTurn?.estimatedCostUsd !== undefined && (
+                    <> · {describeEstimateAccuracy(latestTurn.estimatedCostUsd, latestUsage.costUsd)}</>
                   )}
                 </div>
               )}
             </div>
           )}
 
+          {/* Streaming preview - partial SVG grows until the final response replaces it */}
+          {!isArchitectMode && streamingSvgCode && (
+            <div className="svg-generation-result svg-streaming-result">
+              <div className="svg-result-header">
+                <div className="svg-result-title">
+                  <h3>Generating…</h3>
+                  <span className="svg-streaming-size">{streamingSvgCode.length.toLocaleString()} chars</span>
+                </div>
+              </div>
+              <SVGPreview svgCode={streamingPreview} aspectRatio={aspectRatio} />
+              <SVGCodeView
+                svgCode={streamingSvgCode}
+                onCopy={copyStreamingCode}
+                defaultExpanded
+                title="SVG Code (streaming)"
+              />
+            </div>
+          )}
+
           {/* Loading indicator - appears at bottom where new content will show */}
           <LoadingIndicator
-            isLoading={isLoading}
+            isLoading={!isArchitectMode && isLoading}
             defaultMessage="Generating SVG..."
+            tickerMessage={retryStatus ?? undefined}
+            onCancel={cancelGeneration}
+          />
+          <LoadingIndicator
+            isLoading={comparison.isRunning}
+            defaultMessage="Comparing models..."
+            tickerMessage={retryStatus ?? undefined}
+            onCancel={comparison.cancelComparison}
           />
         </div>
       </div>
 
       {/* Continue chat input - fixed at bottom */}
-      {conversationId && svgCode && (
+      {!isArchitectMode && conversationId && svgCode && (
         <ContinueChatInput
           onSubmit={continueChat}
           disabled={isLoading}
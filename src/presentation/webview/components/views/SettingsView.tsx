@@ -2,31 +2,100 @@
  * SettingsView - Settings panel with card sections (Prose Minion style)
  *
  * Features:
- * - Card sections for API key, models, general settings
- * - Secure API key input
+ * - Card sections for API keys, models, general settings
+ * - Secure API key input per provider (OpenRouter plus direct providers)
+ * - OpenAI-compatible custom endpoint (Ollama, LM Studio) for SVG text models
+ * - Live model catalog status and refresh
+ * - Spending caps per session/day/month with a warning threshold
+ * - Brand style profiles applied to every generation
  * - VSCode settings sync
  */
-import React from 'react';
-import { SecretInput } from '../common';
-import { UseSettingsReturn, UseTokenTrackingReturn } from '@hooks';
+import React, { useEffect, useState } from 'react';
+import { Button, SecretInput } from '../common';
+import { StyleProfileEditor } from '../shared/StyleProfileEditor';
+import {
+  UseBudgetReturn,
+  UseModelCatalogReturn,
+  UseSettingsReturn,
+  UseStyleProfilesReturn,
+  UseTokenTrackingReturn,
+} from '@hooks';
+import { BudgetLimits } from '@messages';
+import { PROVIDER_CONFIGS } from '../../../../infrastructure/ai/providers/ProviderCatalog';
+
+/** Providers with their own key field below the OpenRouter card */
+const DIRECT_PROVIDERS = PROVIDER_CONFIGS.filter(
+  (config) => config.requiresApiKey && config.id !== 'openrouter'
+);
+
+const KEY_PLACEHOLDERS: Record<string, string> = {
+  openai: 'sk-...',
+  gemini: 'AIza...',
+  anthropic: 'sk-ant-...',
+};
 
 export interface SettingsViewProps {
   settings: UseSettingsReturn;
   tokenTracking: UseTokenTrackingReturn;
+  modelCatalog: UseModelCatalogReturn;
+  budget: UseBudgetReturn;
+  styleProfiles: UseStyleProfilesReturn;
+}
+
+const BUDGET_CAPS: { key: keyof Omit<BudgetLimits, 'warnAtPercent'>; label: string; spent: keyof UseBudgetReturn['spend'] }[] = [
+  { key: 'sessionUsd', label: 'Session Cap ($)', spent: 'sessionUsd' },
+  { key: 'dailyUsd', label: 'Daily Cap ($)', spent: 'dailyUsd' },
+  { key: 'monthlyUsd', label: 'Monthly Cap ($)', spent: 'monthlyUsd' },
+];
+
+function describeCatalog({ source, fetchedAt }: UseModelCatalogReturn): string {
+  if (source === 'fallback') {
+    return 'OpenRouter is unreachable - showing the built-in model list.';
+  }
+  if (!source || !fetchedAt) {
+    return 'Loading the OpenRouter model list...';
+  }
+  const when = new Date(fetchedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `OpenRouter model list updated ${when}${source === 'cache' ? ' (cached)' : ''}.`;
 }
 
-export function SettingsView({ settings, tokenTracking }: SettingsViewProps): JSX.Element {
+export function SettingsView({ settings, tokenTracking, modelCatalog, budget, styleProfiles }: SettingsViewProps): JSX.Element {
   const {
     maxConversationTurns,
     imageModel,
     svgModel,
-    apiKeyConfigured,
+    fallbackImageModel,
+    fallbackSvgModel,
+    svgBlueprintModel,
+    svgArchitectMaxIterations,
+    customProviderBaseUrl,
+    customProviderModels,
+    providerKeys,
     isLoading,
     updateSetting,
     saveApiKey,
     clearApiKey,
   } = settings;
 
+  // Edited as text and committed on blur so typing a trailing comma isn't undone by the round trip
+  const [customModelsText, setCustomModelsText] = useState(customProviderModels.join(', '));
+  useEffect(() => {
+    setCustomModelsText(customProviderModels.join(', '));
+  }, [customProviderModels]);
+
+  const commitCustomModels = () => {
+    const models = customModelsText
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    updateSetting('customProviderModels', models);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center" style={{ padding: 'var(--spacing-xl)' }}>
@@ -45,9 +114,9 @@ export function SettingsView({ settings, tokenTracking }: SettingsViewProps): JS
           It will never appear in settings files or be synced to the cloud.
         </p>
         <SecretInput
-          isConfigured={apiKeyConfigured}
-          onSave={saveApiKey}
-          onClear={clearApiKey}
+          isConfigured={providerKeys.openrouter}
+          onSave={(key) => saveApiKey(key, 'openrouter')}
+          onClear={() => clearApiKey('openrouter')}
           placeholder="sk-or-..."
         />
         <p className="settings-description mt-sm">
@@ -61,9 +130,74 @@ export function SettingsView({ settings, tokenTracking }: SettingsViewProps): JS
         </p>
       </section>
 
+      {/* Direct Providers Section */}
+      <section className="settings-section">
+        <h3 className="settings-section-title">🔑 Direct Provider API Keys (Optional)</h3>
+        <p className="settings-description mb-sm">
+          Call a provider directly instead of through OpenRouter. Models from every provider
+          with a key appear grouped in the model dropdowns.
+        </p>
+        {DIRECT_PROVIDERS.map((provider) => (
+          <SecretInput
+            key={provider.id}
+            label={provider.displayName}
+            isConfigured={providerKeys[provider.id]}
+            onSave={(key) => saveApiKey(key, provider.id)}
+            onClear={() => clearApiKey(provider.id)}
+            placeholder={KEY_PLACEHOLDERS[provider.id]}
+          />
+        ))}
+      </section>
+
+      {/* Custom Endpoint Section */}
+      <section className="settings-section">
+        <h3 className="settings-section-title">Custom Endpoint</h3>
+
+        <label className="settings-label">
+          <span className="settings-label-title">Base URL</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={customProviderBaseUrl}
+            onChange={(e) => updateSetting('customProviderBaseUrl', e.target.value)}
+            placeholder="http://localhost:11434/v1"
+          />
+          <span className="settings-description">
+            Any OpenAI-compatible server, such as Ollama or LM Studio. Used for SVG text models only.
+          </span>
+        </label>
+
+        <label className="settings-label">
+          <span className="settings-label-title">Models</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={customModelsText}
+            onChange={(e) => setCustomModelsText(e.target.value)}
+            onBlur={commitCustomModels}
+            placeholder="qwen2.5-coder:32b, llama3.1"
+          />
+          <span className="settings-description">
+            Comma-separated model names served by the endpoint.
+          </span>
+        </label>
+      </section>
+
       {/* Models Section */}
       <section className="settings-section">
         <h3 className="settings-section-title">Models</h3>
+        <p className="settings-description mb-sm">
+          {describeCatalog(modelCatalog)} Prices and context lengths in the model menus come from this list.
+        </p>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="mb-sm"
+          onClick={modelCatalog.refreshCatalog}
+          disabled={modelCatalog.isRefreshing}
+        >
+          {modelCatalog.isRefreshing ? 'Refreshing...' : 'Refresh Model List'}
+        </Button>
 
         <label className="settings-label">
           <span className="settings-label-title">Image Model</span>
@@ -92,6 +226,48 @@ export function SettingsView({ settings, tokenTracking }: SettingsViewProps): JS
             Powers SVG code generation from text prompts. Recommended: GPT-5.2 Codex or Gemini Pro 3.
           </span>
         </label>
+
+        <label className="settings-label">
+          <span className="settings-label-title">Fallback Image Model</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={fallbackImageModel}
+            onChange={(e) => updateSetting('fallbackImageModel', e.target.value)}
+            placeholder="google/gemini-2.5-flash-image"
+          />
+          <span className="settings-description">
+            OpenRouter model tried after three failed attempts (rate limits, server errors). Leave empty to stop at the error.
+          </span>
+        </label>
+
+        <label className="settings-label">
+          <span className="settings-label-title">Fallback SVG Model</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={fallbackSvgModel}
+            onChange={(e) => updateSetting('fallbackSvgModel', e.target.value)}
+            placeholder="google/gemini-3.1-pro-preview"
+          />
+          <span className="settings-description">
+            Same for SVG generation. Model comparisons never fall back.
+          </span>
+        </label>
+
+        <label className="settings-label">
+          <span className="settings-label-title">SVG Architect Blueprint Model</span>
+          <input
+            type="text"
+            className="settings-input"
+            value={svgBlueprintModel}
+            onChange={(e) => updateSetting('svgBlueprintModel', e.target.value)}
+            placeholder="google/gemini-3.1-pro-preview"
+          />
+          <span className="settings-description">
+            Vision model that writes blueprints and validates rendered SVGs in Architect mode.
+          </span>
+        </label>
       </section>
 
       {/* General Section */}
@@ -114,6 +290,74 @@ export function SettingsView({ settings, tokenTracking }: SettingsViewProps): JS
             Maximum turns before a conversation resets. Higher values use more context.
           </span>
         </label>
+
+        <label className="settings-label">
+          <span className="settings-label-title">SVG Architect Max Iterations</span>
+          <input
+            type="number"
+            className="settings-input small"
+            min={1}
+            max={10}
+            value={svgArchitectMaxIterations}
+            onChange={(e) =>
+              updateSetting('svgArchitectMaxIterations', parseInt(e.target.value, 10) || 5)
+            }
+          />
+          <span className="settings-description">
+            Render/validate passes before Architect mode returns its best SVG. Each pass costs two model calls.
+          </span>
+        </label>
+      </section>
+
+      {/* Spending Budget Section */}
+      <section className="settings-section">
+        <h3 className="settings-section-title">Spending Budget</h3>
+        <p className="settings-description mb-sm">
+          Generations whose estimated cost would go over a cap are blocked. Set a cap to 0 for no limit.
+        </p>
+
+        {BUDGET_CAPS.map(({ key, label, spent }) => (
+          <label key={key} className="settings-label">
+            <span className="settings-label-title">{label}</span>
+            <input
+              type="number"
+              className="settings-input small"
+              min={0}
+              step={0.5}
+              value={budget.limits[key]}
+              onChange={(e) => budget.updateLimits({ [key]: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="settings-description">
+              Spent: ${budget.spend[spent].toFixed(3)}
+            </span>
+          </label>
+        ))}
+
+        <label className="settings-label">
+          <span className="settings-label-title">Warn At (%)</span>
+          <input
+            type="number"
+            className="settings-input small"
+            min={1}
+            max={100}
+            value={budget.limits.warnAtPercent}
+            onChange={(e) =>
+              budget.updateLimits({ warnAtPercent: parseInt(e.target.value, 10) || 80 })
+            }
+          />
+          <span className="settings-description">
+            Shows a notification once per period when spend reaches this share of a cap.
+          </span>
+        </label>
+      </section>
+
+      {/* Brand Style Profiles Section */}
+      <section className="settings-section">
+        <h3 className="settings-section-title">🎨 Brand Style Profiles</h3>
+        <p className="settings-description mb-sm">
+          The active profile's palette, style and reference images are added to every image and SVG generation.
+        </p>
+        <StyleProfileEditor styleProfiles={styleProfiles} />
       </section>
 
       {/* Token Usage Section */}
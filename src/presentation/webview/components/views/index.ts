@@ -9,3 +9,6 @@ export { Tab2View } from './Tab2View';
 export { ImageGenerationView } from './ImageGenerationView';
 
 export { SVGGenerationView } from './SVGGenerationView';
+
+export { HistoryView } from './HistoryView';
+export type { HistoryViewProps } from './HistoryView';
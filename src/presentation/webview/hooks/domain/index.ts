@@ -27,6 +27,7 @@ export type {
   ImageGenerationState,
   ImageGenerationActions,
   ImageGenerationPersistence,
+  RestoredImageConversation,
   UseImageGenerationReturn,
 } from './useImageGeneration';
 
@@ -35,5 +36,69 @@ export type {
   SVGGenerationState,
   SVGGenerationActions,
   SVGGenerationPersistence,
+  RestoredSVGConversation,
   UseSVGGenerationReturn,
 } from './useSVGGeneration';
+
+export { useSVGArchitect } from './useSVGArchitect';
+export type {
+  SVGArchitectState,
+  SVGArchitectActions,
+  SVGArchitectPersistence,
+  SVGArchitectIterationView,
+  UseSVGArchitectReturn,
+} from './useSVGArchitect';
+
+export { useHistory } from './useHistory';
+export type {
+  HistoryState,
+  HistoryActions,
+  HistoryPersistence,
+  HistoryTurnContext,
+  UseHistoryReturn,
+} from './useHistory';
+
+export { useModelCatalog } from './useModelCatalog';
+export type {
+  ModelCatalogState,
+  ModelCatalogActions,
+  UseModelCatalogReturn,
+} from './useModelCatalog';
+
+export { useBudget } from './useBudget';
+export type {
+  BudgetState,
+  BudgetActions,
+  UseBudgetReturn,
+} from './useBudget';
+
+export { useIconBundle } from './useIconBundle';
+export type {
+  IconBundleState,
+  IconBundleActions,
+  UseIconBundleReturn,
+} from './useIconBundle';
+
+export { useModelComparison } from './useModelComparison';
+export type {
+  ModelComparisonState,
+  ModelComparisonActions,
+  ModelComparisonPersistence,
+  ComparisonCell,
+  ComparisonPromotion,
+  UseModelComparisonReturn,
+} from './useModelComparison';
+
+export { usePromptTemplates } from './usePromptTemplates';
+export type {
+  PromptTemplatesState,
+  PromptTemplatesActions,
+  UsePromptTemplatesReturn,
+} from './usePromptTemplates';
+
+export { useStyleProfiles } from './useStyleProfiles';
+export type {
+  StyleProfilesState,
+  StyleProfilesActions,
+  UseStyleProfilesReturn,
+} from './useStyleProfiles';
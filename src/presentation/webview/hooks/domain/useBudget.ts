@@ -0,0 +1,82 @@
+/**
+ * useBudget - Spending caps hook
+ *
+ * Pattern: Tripartite Interface (State, Actions) - not persisted, the extension
+ * keeps limits and spend in globalState and sends status after every change.
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  BudgetLimits,
+  BudgetSpend,
+  BudgetStatusPayload,
+  BudgetUpdateLimitsPayload,
+  DEFAULT_BUDGET_LIMITS,
+} from '@messages';
+
+// 1. State Interface
+export interface BudgetState {
+  limits: BudgetLimits;
+  spend: BudgetSpend;
+  remainingUsd: number | null;  // tightest remaining cap, null when no cap is set
+}
+
+// 2. Actions Interface
+export interface BudgetActions {
+  updateLimits: (limits: BudgetUpdateLimitsPayload) => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface BudgetHandlers {
+  handleBudgetStatus: (message: MessageEnvelope) => void;
+}
+
+export type UseBudgetReturn = BudgetState & BudgetActions & BudgetHandlers;
+
+const EMPTY_SPEND: BudgetSpend = { sessionUsd: 0, dailyUsd: 0, monthlyUsd: 0 };
+
+export function useBudget(): UseBudgetReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [limits, setLimits] = useState<BudgetLimits>(DEFAULT_BUDGET_LIMITS);
+  const [spend, setSpend] = useState<BudgetSpend>(EMPTY_SPEND);
+  const [remainingUsd, setRemainingUsd] = useState<number | null>(null);
+
+  // Message handlers (exposed for App-level routing)
+  const handleBudgetStatus = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as BudgetStatusPayload;
+    setLimits(payload.limits);
+    setSpend(payload.spend);
+    setRemainingUsd(payload.remainingUsd);
+  }, []);
+
+  // Actions
+  const updateLimits = useCallback((update: BudgetUpdateLimitsPayload) => {
+    // Optimistic update - the extension answers with the sanitized status
+    setLimits(prev => ({ ...prev, ...update }));
+    vscode.postMessage(
+      createEnvelope<BudgetUpdateLimitsPayload>(MessageType.BUDGET_UPDATE_LIMITS, 'webview.budget', update)
+    );
+  }, [vscode]);
+
+  // Request initial status
+  useEffect(() => {
+    vscode.postMessage(createEnvelope(MessageType.BUDGET_STATUS_REQUEST, 'webview.budget', {}));
+  }, [vscode]);
+
+  return {
+    // State
+    limits,
+    spend,
+    remainingUsd,
+    // Actions
+    updateLimits,
+    // Message Handlers (for App-level routing)
+    handleBudgetStatus,
+  };
+}
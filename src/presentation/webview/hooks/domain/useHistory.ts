@@ -0,0 +1,199 @@
+/**
+ * useHistory - Generation history domain hook
+ *
+ * Pattern: Tripartite Interface (State, Actions, Persistence)
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ *
+ * The generation hooks report each completed turn here; this hook adds a
+ * thumbnail and hands it to the extension, which owns the stored history.
+ */
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  AspectRatio,
+  ConversationTurn,
+  SVGConversationHistoryTurn,
+  HistoryEntry,
+  HistoryEntryType,
+  HistoryConversation,
+  HistoryRecordPayload,
+  HistoryListPayload,
+  HistoryRestoreResultPayload,
+} from '@messages';
+import { createThumbnail, svgToDataUrl } from '@utils/thumbnail';
+import { filterHistory, getHistoryModels } from '@utils/historyFilter';
+
+export interface HistoryTurnContext {
+  conversationId: string;
+  model: string;
+  aspectRatio: AspectRatio;
+}
+
+// 1. State Interface (read-only)
+export interface HistoryState {
+  entries: HistoryEntry[];          // all entries, newest first
+  filteredEntries: HistoryEntry[];  // entries matching query + filters
+  models: string[];                 // models present in history (filter options)
+  query: string;
+  modelFilter: string | null;
+  typeFilter: HistoryEntryType | null;
+  restoringId: string | null;
+  error: string | null;
+}
+
+// 2. Actions Interface (write operations)
+export interface HistoryActions {
+  setQuery: (query: string) => void;
+  setModelFilter: (model: string | null) => void;
+  setTypeFilter: (type: HistoryEntryType | null) => void;
+  refresh: () => void;
+  restore: (conversationId: string) => void;
+  deleteEntry: (conversationId: string) => void;
+  recordImageTurn: (context: HistoryTurnContext, turn: ConversationTurn) => void;
+  recordSVGTurn: (context: HistoryTurnContext, turn: SVGConversationHistoryTurn) => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface HistoryHandlers {
+  handleHistoryList: (message: MessageEnvelope) => void;
+  handleRestoreResult: (message: MessageEnvelope) => void;
+  handleError: (message: MessageEnvelope) => void;
+}
+
+// 3. Persistence Interface (what gets saved) - entries live in the extension
+export interface HistoryPersistence {
+  query: string;
+  modelFilter: string | null;
+  typeFilter: HistoryEntryType | null;
+}
+
+// Composed return type
+export type UseHistoryReturn = HistoryState & HistoryActions & HistoryHandlers & {
+  persistedState: HistoryPersistence;
+};
+
+export function useHistory(
+  initialState?: Partial<HistoryPersistence>,
+  sync?: {
+    onRestore?: (conversation: HistoryConversation) => void;
+  }
+): UseHistoryReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState(initialState?.query ?? '');
+  const [modelFilter, setModelFilter] = useState<string | null>(initialState?.modelFilter ?? null);
+  const [typeFilter, setTypeFilter] = useState<HistoryEntryType | null>(initialState?.typeFilter ?? null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filteredEntries = useMemo(
+    () => filterHistory(entries, { query, model: modelFilter, type: typeFilter }),
+    [entries, query, modelFilter, typeFilter]
+  );
+  const models = useMemo(() => getHistoryModels(entries), [entries]);
+
+  // Message handlers (exposed for App-level routing)
+  const handleHistoryList = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as HistoryListPayload;
+    setEntries(payload.entries);
+  }, []);
+
+  const handleRestoreResult = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as HistoryRestoreResultPayload;
+    setRestoringId(null);
+    setError(null);
+    sync?.onRestore?.(payload);
+  }, [sync]);
+
+  const handleError = useCallback((message: MessageEnvelope) => {
+    setRestoringId(null);
+    setError((message.payload as { message: string }).message);
+  }, []);
+
+  // Actions
+  const refresh = useCallback(() => {
+    vscode.postMessage(
+      createEnvelope(MessageType.HISTORY_LIST_REQUEST, 'webview.history', {})
+    );
+  }, [vscode]);
+
+  // Load the list once on mount - later updates arrive after each record/delete
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const restore = useCallback((conversationId: string) => {
+    setRestoringId(conversationId);
+    setError(null);
+    vscode.postMessage(
+      createEnvelope(MessageType.HISTORY_RESTORE_REQUEST, 'webview.history', { conversationId })
+    );
+  }, [vscode]);
+
+  const deleteEntry = useCallback((conversationId: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.conversationId !== conversationId));
+    vscode.postMessage(
+      createEnvelope(MessageType.HISTORY_DELETE, 'webview.history', { conversationId })
+    );
+  }, [vscode]);
+
+  const postRecord = useCallback((payload: HistoryRecordPayload) => {
+    vscode.postMessage(
+      createEnvelope<HistoryRecordPayload>(MessageType.HISTORY_RECORD, 'webview.history', payload)
+    );
+  }, [vscode]);
+
+  const recordImageTurn = useCallback((context: HistoryTurnContext, turn: ConversationTurn) => {
+    const firstImage = turn.images[0];
+    const thumbnail = firstImage ? createThumbnail(firstImage.data) : Promise.resolve(undefined);
+    // A missing thumbnail should never lose the history entry
+    void thumbnail
+      .catch(() => undefined)
+      .then((data) => postRecord({ type: 'image', ...context, turn, thumbnail: data }));
+  }, [postRecord]);
+
+  const recordSVGTurn = useCallback((context: HistoryTurnContext, turn: SVGConversationHistoryTurn) => {
+    void createThumbnail(svgToDataUrl(turn.svgCode))
+      .catch(() => undefined)
+      .then((data) => postRecord({ type: 'svg', ...context, turn, thumbnail: data }));
+  }, [postRecord]);
+
+  // Persistence object
+  const persistedState: HistoryPersistence = {
+    query,
+    modelFilter,
+    typeFilter,
+  };
+
+  return {
+    // State
+    entries,
+    filteredEntries,
+    models,
+    query,
+    modelFilter,
+    typeFilter,
+    restoringId,
+    error,
+    // Actions
+    setQuery,
+    setModelFilter,
+    setTypeFilter,
+    refresh,
+    restore,
+    deleteEntry,
+    recordImageTurn,
+    recordSVGTurn,
+    // Message Handlers (for App-level routing)
+    handleHistoryList,
+    handleRestoreResult,
+    handleError,
+    // Persistence
+    persistedState,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * useIconBundle - Favicon / PWA icon bundle export for images and SVGs
+ *
+ * Pattern: Tripartite Interface (State, Actions) - not persisted, an export is a
+ * one-shot file write. SVGs are rasterized here (the extension host has no
+ * canvas) and their source is sent along for favicon.svg.
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ */
+import { useState, useCallback } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  AspectRatio,
+  GeneratedImage,
+  IconBundleExportRequestPayload,
+  IconBundleExportResultPayload,
+} from '@messages';
+import { svgToPng } from '../../utils/svgToPng';
+
+/** Large enough that the square crop still covers the 512px icons */
+const SVG_ICON_RENDER_EDGE = 1024;
+
+// 1. State Interface
+export interface IconBundleState {
+  exportingId: string | null;     // source currently being exported
+  exportedIds: Set<string>;
+  error: string | null;
+}
+
+// 2. Actions Interface
+export interface IconBundleActions {
+  exportImageIcons: (image: GeneratedImage) => void;
+  exportSVGIcons: (sourceId: string, svgCode: string, aspectRatio: AspectRatio) => Promise<void>;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface IconBundleHandlers {
+  handleExportResult: (message: MessageEnvelope) => void;
+}
+
+export type UseIconBundleReturn = IconBundleState & IconBundleActions & IconBundleHandlers;
+
+export function useIconBundle(): UseIconBundleReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [exportedIds, setExportedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // Message handlers (exposed for App-level routing)
+  const handleExportResult = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as IconBundleExportResultPayload;
+    setExportingId((current) => (current === payload.sourceId ? null : current));
+    if (payload.success) {
+      setExportedIds((prev) => new Set(prev).add(payload.sourceId));
+    } else {
+      setError(payload.error ?? 'Failed to export icon bundle');
+    }
+  }, []);
+
+  // Actions
+  const requestExport = useCallback((payload: IconBundleExportRequestPayload) => {
+    vscode.postMessage(
+      createEnvelope(MessageType.ICON_BUNDLE_EXPORT_REQUEST, 'webview.iconBundle', payload)
+    );
+  }, [vscode]);
+
+  const exportImageIcons = useCallback((image: GeneratedImage) => {
+    setError(null);
+    setExportingId(image.id);
+    requestExport({ sourceId: image.id, imageData: image.data, name: image.prompt });
+  }, [requestExport]);
+
+  const exportSVGIcons = useCallback(async (sourceId: string, svgCode: string, aspectRatio: AspectRatio) => {
+    setError(null);
+    setExportingId(sourceId);
+    try {
+      const imageData = await svgToPng(svgCode, aspectRatio, { longEdge: SVG_ICON_RENDER_EDGE, transparent: true });
+      requestExport({ sourceId, imageData, svgCode });
+    } catch (err) {
+      setExportingId(null);
+      setError(err instanceof Error ? err.message : 'Failed to render SVG');
+    }
+  }, [requestExport]);
+
+  return {
+    // State
+    exportingId,
+    exportedIds,
+    error,
+    // Actions
+    exportImageIcons,
+    exportSVGIcons,
+    // Message handlers
+    handleExportResult,
+  };
+}
@@ -3,9 +3,29 @@
  *
  * Pattern: Tripartite Interface (State, Actions, Persistence)
  * Message handlers are exposed for App-level registration (prose-minion pattern).
+ *
+ * A batch of variations lands as one turn whose images each carry their own
+ * conversationId; selecting one makes it the conversation continueChat extends.
+ *
+ * A region edit (inpainting) continues the image's conversation with the source
+ * image and a brushed mask; the resulting turn is flagged `inpaint`.
+ *
+ * The pre-flight cost estimate uses the selected model's pricing (live catalog
+ * when available) and is kept on each turn for comparison with usage.costUsd.
+ *
+ * "Branch from here" asks the extension for a new conversation sharing the turns up
+ * to the chosen one; the view keeps the resulting branch tree and can switch between
+ * branches (the active one is the conversation continueChat extends).
+ *
+ * Picking some of the latest images as continuation targets narrows the next
+ * refinement to them; with none picked the model works on all of them.
+ *
+ * Reference images can also come from the workspace: the extension shows a QuickPick
+ * (or the Explorer command picks the files), reads them and posts them back.
  */
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useVSCodeApi } from '../useVSCodeApi';
+import { useCancellableRequest } from '../useCancellableRequest';
 import {
   MessageType,
   MessageEnvelope,
@@ -15,27 +35,93 @@ import {
   ConversationTurn,
   ConversationHistoryTurn,
   ImageGenerationResponsePayload,
+  ImageGenerationBranchPayload,
+  ConversationBranchResultPayload,
+  ImageVariationPayload,
   ImageSaveResultPayload,
   EnhancePromptResponsePayload,
+  ImageInpaintMask,
+  ImageSaveOptions,
+  ImageSaveRequestPayload,
+  LoadGenerationParametersPayload,
+  ReferenceFilesPayload,
+  WorkspaceReferencePickPayload,
+  DEFAULT_IMAGE_SAVE_OPTIONS,
+  ComparisonInput,
+  isAspectRatio,
+  StatusPayload,
+  ErrorPayload,
 } from '@messages';
 import { DEFAULT_IMAGE_MODEL } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+import { getModelsForType } from '../../../../infrastructure/ai/providers/ProviderCatalog';
+import { CostEstimate } from '../../../../infrastructure/ai/providers/CostEstimator';
+import { getModelCapabilities, resolveAspectRatio } from '../../../../infrastructure/ai/providers/ModelCapabilities';
+import { ModelCapabilities, ModelDefinition } from '../../../../shared/types/providers';
+import { getUndecodableReason } from '../../../../infrastructure/imaging/RasterImage';
+import { calculateBase64Size, estimateImageRequestCost } from '../../utils/costEstimate';
+import {
+  ConversationBranch,
+  BranchTreeNode,
+  ROOT_BRANCH_ID,
+  snapshotBranch,
+  getBranchTree,
+} from '../../utils/conversationBranches';
+
+export { calculateBase64Size };
+
+/**
+ * Build the self-contained history for a continuation (enables re-hydration after extension restart).
+ * A variation turn only contributes the images of the selected variation.
+ */
+function toHistory(turns: ConversationTurn[], conversationId: string): ConversationHistoryTurn[] {
+  return turns.map(turn => ({
+    prompt: turn.prompt,
+    images: turn.images.filter(img => !img.conversationId || img.conversationId === conversationId).map(img => ({
+      data: img.data,
+      seed: img.seed,
+    })),
+    referenceSvgText: turn.referenceSvgText,
+    text: turn.text,
+  }));
+}
+
+/**
+ * The images a branch shows as its latest - a text-only turn keeps the ones before it
+ */
+function latestImages(turns: ConversationTurn[]): GeneratedImage[] {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].images.length > 0) {
+      return turns[i].images;
+    }
+  }
+  return [];
+}
 
-// Sourceful models have a 4.5MB request size limit for reference images
-const SOURCEFUL_SIZE_LIMIT_BYTES = 4.5 * 1024 * 1024; // 4.5MB
+// Base64 characters decoded to read an image's header (48 KB, past any EXIF/ICC segments)
+const IMAGE_HEADER_BASE64_LENGTH = 64 * 1024;
 
-/** Check if a model ID belongs to Sourceful provider */
-export function isSourcefulModel(modelId: string): boolean {
-  return modelId.startsWith('sourceful/');
+/**
+ * Why an image can only be saved as-is - the extension cannot decode WebP or progressive JPEG
+ * to resize or convert it (see getUndecodableReason)
+ */
+function saveAsIsReason(image: GeneratedImage): string | null {
+  const base64 = image.data.startsWith('data:') ? image.data.slice(image.data.indexOf(',') + 1) : image.data;
+  try {
+    const header = atob(base64.slice(0, IMAGE_HEADER_BASE64_LENGTH));
+    return getUndecodableReason(Uint8Array.from(header, (char) => char.charCodeAt(0)));
+  } catch {
+    return null;
+  }
 }
 
-/** Calculate approximate byte size of base64 data URLs */
-export function calculateBase64Size(dataUrls: string[]): number {
-  return dataUrls.reduce((total, dataUrl) => {
-    // Extract base64 portion after the comma
-    const base64 = dataUrl.split(',')[1] || '';
-    // Base64 decodes to approximately 75% of the encoded string length
-    return total + Math.ceil(base64.length * 0.75);
-  }, 0);
+/**
+ * A past conversation loaded back into the view - continueChat resumes it
+ */
+export interface RestoredImageConversation {
+  conversationId: string;
+  model: string;
+  aspectRatio: AspectRatio;
+  turns: ConversationTurn[];
 }
 
 // 1. State Interface (read-only)
@@ -46,14 +132,29 @@ export interface ImageGenerationState {
   referenceImages: string[];  // base64 data URLs
   referenceSvgText: string | null; // raw SVG text attachment
   referenceSvgWarning: string | null;
-  referenceImageSizeWarning: string | null; // Warning for Sourceful 4.5MB limit
+  referenceImageSizeWarning: string | null; // references over the model's size limit
+  capabilities: ModelCapabilities;  // what the selected model accepts (ratios, references, seed)
   seedInput: string;          // seed input field (empty = auto-generate)
+  variationCount: number;     // images per new generation (1 = single)
+  variationProgress: { completed: number; total: number } | null;  // while a batch is running
+  variationImages: GeneratedImage[];  // batch images received so far
+  costEstimate: CostEstimate;         // what Generate would cost with the current inputs
+  requestInput: ComparisonInput;      // prompt, references and seed as Generate sends them (reused by Compare)
+  saveOptions: ImageSaveOptions;      // post-processing applied on save
+  saveAsIsLimit: { reason: string; allImages: boolean } | null;  // thread images saved without resize/convert
   generatedImages: GeneratedImage[];
+  continuationCandidates: GeneratedImage[];  // latest images of the active conversation
+  continuationTargetIds: string[];          // picked candidates (empty = all of them)
   conversationHistory: ConversationTurn[];  // Full conversation thread
   conversationId: string | null;
+  branchTree: BranchTreeNode<ConversationTurn>[];  // empty until the first branch
+  activeBranchId: string;
+  isBranching: boolean;
   isLoading: boolean;
+  retryStatus: string | null;  // OpenRouter retry / fallback notice while loading
   isEnhancing: boolean;
   error: string | null;
+  errorCode: string | null;   // stable provider code of the shown error (picks the remediation)
 }
 
 // 2. Actions Interface (write operations)
@@ -62,21 +163,37 @@ export interface ImageGenerationActions {
   setModel: (model: string) => void;
   setAspectRatio: (ratio: AspectRatio) => void;
   setSeedInput: (seed: string) => void;
+  setVariationCount: (count: number) => void;
+  setSaveOptions: (options: Partial<ImageSaveOptions>) => void;
+  selectVariation: (image: GeneratedImage) => void;  // Continue from this variation's conversation
+  toggleContinuationTarget: (image: GeneratedImage) => void;  // Pick / unpick an image for the next refinement
   addReferenceImage: (dataUrl: string, svgText?: string | null) => void;
   removeReferenceImage: (index: number) => void;
   clearReferenceImages: () => void;
+  pickWorkspaceReferences: () => void;  // QuickPick of workspace images and SVGs
   generate: () => void;           // New generation (clears conversation)
   continueChat: (prompt: string) => void;  // Continue existing conversation
+  inpaintImage: (image: GeneratedImage, instruction: string, mask: Omit<ImageInpaintMask, 'sourceImage'>) => void;  // Edit a brushed region
   clearConversation: () => void;
+  cancelGeneration: () => void;   // Stop the in-flight generation (turn is discarded)
   saveImage: (image: GeneratedImage) => void;
-  enhancePrompt: () => void;      // Enhance current prompt using AI
+  enhancePrompt: () => void;
+  cancelEnhance: () => void;      // Enhance current prompt using AI
+  restoreConversation: (conversation: RestoredImageConversation) => void;  // Load a past conversation (History tab)
+  branchFromTurn: (turn: ConversationTurn) => void;  // New branch sharing the turns up to this one
+  switchBranch: (branchId: string) => void;
 }
 
 // 2b. Message Handlers Interface (for App-level routing)
 export interface ImageGenerationHandlers {
   handleGenerationResponse: (message: MessageEnvelope) => void;
+  handleVariation: (message: MessageEnvelope) => void;
+  handleBranchResult: (message: MessageEnvelope) => void;
   handleSaveResult: (message: MessageEnvelope) => void;
   handleEnhanceResponse: (message: MessageEnvelope) => void;
+  handleLoadParameters: (message: MessageEnvelope) => void;  // "Load Parameters From File"
+  handleReferenceFiles: (message: MessageEnvelope) => void;  // Workspace picker / "Use as Pixel Minion Reference"
+  handleStatus: (message: MessageEnvelope) => void;
   handleError: (message: MessageEnvelope) => void;
 }
 
@@ -87,9 +204,13 @@ export interface ImageGenerationPersistence {
   prompt: string;
   model: string;
   aspectRatio: AspectRatio;
+  variationCount: number;
+  saveOptions: ImageSaveOptions;
   conversationId: string | null;
   generatedImages: GeneratedImage[];
   conversationHistory: ConversationTurn[];
+  branches: ConversationBranch<ConversationTurn>[];  // inactive branches as last seen
+  activeBranchId: string;
 }
 
 // Composed return type
@@ -102,6 +223,11 @@ export function useImageGeneration(
   sync?: {
     selectedModel?: string;
     onModelChange?: (model: string) => void;
+    onTurnComplete?: (
+      context: { conversationId: string; model: string; aspectRatio: AspectRatio },
+      turn: ConversationTurn
+    ) => void;
+    catalogModels?: ModelDefinition[];  // live OpenRouter pricing
   }
 ): UseImageGenerationReturn {
   const vscode = useVSCodeApi();
@@ -119,6 +245,12 @@ export function useImageGeneration(
   const [referenceSvgIndex, setReferenceSvgIndex] = useState<number | null>(null);
   const [referenceImageSizeWarning, setReferenceImageSizeWarning] = useState<string | null>(null);
   const [seedInput, setSeedInput] = useState('');
+  const [variationCount, setVariationCount] = useState(initialState?.variationCount ?? 1);
+  const [saveOptions, setSaveOptionsState] = useState<ImageSaveOptions>(
+    initialState?.saveOptions ?? DEFAULT_IMAGE_SAVE_OPTIONS
+  );
+  const [variationProgress, setVariationProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [variationImages, setVariationImages] = useState<GeneratedImage[]>([]);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>(
     initialState?.generatedImages ?? []
   );
@@ -128,11 +260,26 @@ export function useImageGeneration(
   const [conversationId, setConversationId] = useState<string | null>(
     initialState?.conversationId ?? null
   );
+  const [branches, setBranches] = useState<ConversationBranch<ConversationTurn>[]>(
+    initialState?.branches ?? []
+  );
+  const [activeBranchId, setActiveBranchId] = useState(initialState?.activeBranchId ?? ROOT_BRANCH_ID);
+  // The branch being created: its inherited turns wait for the new conversation id
+  const [pendingBranch, setPendingBranch] = useState<{ sourceConversationId: string; turns: ConversationTurn[] } | null>(null);
+  const [continuationTargetIds, setContinuationTargetIds] = useState<string[]>([]);
   // Track the pending prompt for the current generation (to build history)
   const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const pendingEstimateRef = useRef<number | null>(null);
+  const pendingInpaintRef = useRef(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorPayload, setErrorPayload] = useState<ErrorPayload | null>(null);
+  // Only while the error it came with is still the one shown
+  const errorCode = errorPayload?.message === error ? errorPayload.code ?? null : null;
+  const generationRequest = useCancellableRequest('webview.imageGeneration');
+  const enhanceRequest = useCancellableRequest('webview.enhance');
   const setModel = useCallback((newModel: string) => {
     setModelState(newModel);
     sync?.onModelChange?.(newModel);
@@ -145,29 +292,117 @@ export function useImageGeneration(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sync?.selectedModel]);
 
-  // Check reference image size for Sourceful models (4.5MB limit)
+  // Report each newly completed turn (History tab) - the persisted turn on load was already reported
+  const lastTurn = conversationHistory[conversationHistory.length - 1];
+  const lastTurnKey = conversationId && lastTurn ? `${conversationId}:${lastTurn.turnNumber}` : null;
+  const reportedTurnKeyRef = useRef(lastTurnKey);
   useEffect(() => {
-    if (!isSourcefulModel(model) || referenceImages.length === 0) {
+    if (!conversationId || !lastTurn || lastTurnKey === reportedTurnKeyRef.current) {
+      return;
+    }
+    reportedTurnKeyRef.current = lastTurnKey;
+    sync?.onTurnComplete?.({ conversationId, model, aspectRatio }, lastTurn);
+  }, [lastTurnKey]);
+
+  const capabilities = useMemo(() => getModelCapabilities(model), [model]);
+
+  // Keep the aspect ratio to one the selected model renders
+  useEffect(() => {
+    setAspectRatio((current) => resolveAspectRatio(capabilities, current));
+  }, [capabilities]);
+
+  // Check reference image size against the model's request limit
+  useEffect(() => {
+    const limit = capabilities.maxReferenceBytes;
+    if (limit === undefined || referenceImages.length === 0) {
       setReferenceImageSizeWarning(null);
       return;
     }
 
     const totalBytes = calculateBase64Size(referenceImages);
-    if (totalBytes > SOURCEFUL_SIZE_LIMIT_BYTES) {
-      const sizeMB = (totalBytes / (1024 * 1024)).toFixed(1);
+    if (totalBytes > limit) {
+      const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
       setReferenceImageSizeWarning(
-        `Reference images total ${sizeMB}MB, exceeding Sourceful's 4.5MB limit. Generation may fail.`
+        `Reference images total ${toMB(totalBytes)}MB, exceeding this model's ${toMB(limit)}MB limit. Generation may fail.`
       );
     } else {
       setReferenceImageSizeWarning(null);
     }
-  }, [model, referenceImages]);
+  }, [capabilities, referenceImages]);
+
+  // Pre-flight cost of Generate
+  const modelDefinition = useMemo(
+    () => getModelsForType('image', [], sync?.catalogModels).find((candidate) => candidate.id === model),
+    [model, sync?.catalogModels]
+  );
+  const costEstimate = useMemo(() => estimateImageRequestCost(modelDefinition, {
+    prompt: referenceSvgText ? `${prompt}\n\nReference SVG:\n${referenceSvgText}` : prompt,
+    referenceImages: referenceImages.filter((_, i) => i !== referenceSvgIndex),
+    variations: variationCount,
+  }), [modelDefinition, prompt, referenceImages, referenceSvgText, referenceSvgIndex, variationCount]);
+
+  const requestInput = useMemo<ComparisonInput>(() => {
+    // Parse seed input - if valid number use it, otherwise let handler auto-generate
+    const parsedSeed = seedInput.trim() ? parseInt(seedInput, 10) : undefined;
+    const imagesForApi = referenceImages.filter((_, i) => i !== referenceSvgIndex);
+    return {
+      prompt: referenceSvgText ? `${prompt}\n\nReference SVG:\n${referenceSvgText}` : prompt,
+      aspectRatio,
+      referenceImages: imagesForApi.length > 0 ? imagesForApi : undefined,
+      referenceSvgText: referenceSvgText ?? undefined,
+      seed: parsedSeed !== undefined && !isNaN(parsedSeed) ? parsedSeed : undefined,
+    };
+  }, [prompt, aspectRatio, referenceImages, referenceSvgText, referenceSvgIndex, seedInput]);
+
+  // A batch shows every variation, but only the selected one's images belong to the conversation
+  const continuationCandidates = useMemo(() => generatedImages.filter(
+    (img) => !img.conversationId || img.conversationId === conversationId
+  ), [generatedImages, conversationId]);
+
+  // Picks only apply to the images they were made on
+  useEffect(() => {
+    setContinuationTargetIds([]);
+  }, [continuationCandidates]);
+
+  // The active branch is read live from the view's state
+  const branchTree = useMemo(() => (
+    branches.length > 0
+      ? getBranchTree(snapshotBranch(branches, activeBranchId, conversationId, conversationHistory))
+      : []
+  ), [branches, activeBranchId, conversationId, conversationHistory]);
+
+  // Images the save options cannot resize or convert (WebP, progressive JPEG)
+  const saveAsIsLimit = useMemo(() => {
+    const images = conversationHistory.flatMap((turn) => turn.images);
+    const reasons = images.map(saveAsIsReason).filter((reason): reason is string => reason !== null);
+    return reasons.length > 0 ? { reason: reasons[0], allImages: reasons.length === images.length } : null;
+  }, [conversationHistory]);
+
+  // Make a branch's conversation the one shown and extended
+  const showBranch = useCallback((branchId: string, branchConversationId: string | null, turns: ConversationTurn[]) => {
+    const last = turns[turns.length - 1];
+    reportedTurnKeyRef.current = branchConversationId && last ? `${branchConversationId}:${last.turnNumber}` : null;
+    setActiveBranchId(branchId);
+    setConversationId(branchConversationId);
+    setConversationHistory(turns);
+    setGeneratedImages(latestImages(turns));
+    setError(null);
+  }, []);
 
   // Message handlers (exposed for App-level routing)
   const handleGenerationResponse = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message)) {
+      return;
+    }
+    generationRequest.finish();
     const payload = message.payload as ImageGenerationResponsePayload;
     setConversationId(payload.conversationId);
-    setGeneratedImages(payload.images);
+    // A text-only reply leaves the latest images in place
+    if (payload.images.length > 0) {
+      setGeneratedImages(payload.images);
+    }
+    setVariationProgress(null);
+    setVariationImages([]);
 
     // Add to conversation history
     setPendingPrompt((currentPendingPrompt) => {
@@ -179,7 +414,10 @@ export function useImageGeneration(
           turnNumber: payload.turnNumber,
           timestamp: Date.now(),
           usage: payload.usage,
+          estimatedCostUsd: pendingEstimateRef.current ?? undefined,
           referenceSvgText: referenceSvgText ?? undefined,
+          inpaint: pendingInpaintRef.current || undefined,
+          text: payload.text,
         };
         setConversationHistory((prev) => [...prev, turn]);
       }
@@ -188,7 +426,37 @@ export function useImageGeneration(
 
     setIsLoading(false);
     setError(null);
-  }, []);
+  }, [generationRequest]);
+
+  const handleVariation = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message)) {
+      return;
+    }
+    const payload = message.payload as ImageVariationPayload;
+    setVariationProgress({ completed: payload.completed, total: payload.total });
+    setVariationImages((prev) => [...prev, ...payload.images]);
+  }, [generationRequest]);
+
+  const handleBranchResult = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as ConversationBranchResultPayload;
+    if (!pendingBranch || pendingBranch.sourceConversationId !== payload.sourceConversationId) {
+      return;
+    }
+
+    const branchId = `branch-${Date.now()}`;
+    setBranches([
+      ...snapshotBranch(branches, activeBranchId, conversationId, conversationHistory),
+      {
+        id: branchId,
+        parentId: activeBranchId,
+        branchTurnNumber: payload.turnNumber,
+        conversationId: payload.conversationId,
+        turns: pendingBranch.turns,
+      },
+    ]);
+    showBranch(branchId, payload.conversationId, pendingBranch.turns);
+    setPendingBranch(null);
+  }, [pendingBranch, branches, activeBranchId, conversationId, conversationHistory, showBranch]);
 
   const handleSaveResult = useCallback((message: MessageEnvelope) => {
     const payload = message.payload as ImageSaveResultPayload;
@@ -198,16 +466,33 @@ export function useImageGeneration(
   }, []);
 
   const handleEnhanceResponse = useCallback((message: MessageEnvelope) => {
+    if (enhanceRequest.isCancelled(message)) {
+      return;
+    }
+    enhanceRequest.finish();
     const payload = message.payload as EnhancePromptResponsePayload;
     setPrompt(payload.enhancedPrompt);
     setIsEnhancing(false);
+  }, [enhanceRequest]);
+
+  const handleStatus = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as StatusPayload;
+    setRetryStatus(payload.isLoading && payload.retry ? payload.message : null);
   }, []);
 
   const handleError = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message) || enhanceRequest.isCancelled(message)) {
+      return;
+    }
     setIsLoading(false);
     setIsEnhancing(false);
-    setError((message.payload as { message: string }).message);
-  }, []);
+    setPendingBranch(null);
+    setVariationProgress(null);
+    setVariationImages([]);
+    const payload = message.payload as ErrorPayload;
+    setErrorPayload(payload);
+    setError(payload.message);
+  }, [generationRequest, enhanceRequest]);
 
   // Actions
   const addReferenceImage = useCallback((dataUrl: string, svgText?: string | null) => {
@@ -253,6 +538,52 @@ export function useImageGeneration(
     setReferenceSvgIndex(null);
   }, []);
 
+  // "Load Parameters From File" - needs addReferenceImage, so it lives with the actions
+  const handleLoadParameters = useCallback((message: MessageEnvelope) => {
+    const { provenance, referenceImage, referenceSvgText: svgText } = message.payload as LoadGenerationParametersPayload;
+    if (provenance) {
+      setPrompt(provenance.prompt ?? '');
+      if (provenance.model) {
+        setModelState(provenance.model);
+      }
+      if (provenance.aspectRatio && isAspectRatio(provenance.aspectRatio)) {
+        setAspectRatio(provenance.aspectRatio);
+      }
+      setSeedInput(provenance.seed !== undefined ? String(provenance.seed) : '');
+    }
+    addReferenceImage(referenceImage, svgText);
+    setError(null);
+  }, [addReferenceImage]);
+
+  const pickWorkspaceReferences = useCallback(() => {
+    const maxFiles = capabilities.maxReferenceImages - referenceImages.length;
+    if (maxFiles <= 0) {
+      return;
+    }
+    vscode.postMessage(
+      createEnvelope<WorkspaceReferencePickPayload>(
+        MessageType.WORKSPACE_REFERENCE_PICK,
+        'webview.referenceFiles',
+        { target: 'image', maxFiles }
+      )
+    );
+  }, [capabilities, referenceImages.length, vscode]);
+
+  // Workspace files fill the free slots; only the last SVG is kept (one SVG text attachment)
+  const handleReferenceFiles = useCallback((message: MessageEnvelope) => {
+    const { files } = message.payload as ReferenceFilesPayload;
+    const lastSvg = files.filter((file) => file.referenceSvgText).pop();
+    const usable = files.filter((file) => !file.referenceSvgText || file === lastSvg);
+    const room = Math.max(capabilities.maxReferenceImages - referenceImages.length, 0);
+
+    for (const file of usable.slice(0, room)) {
+      addReferenceImage(file.referenceImage, file.referenceSvgText);
+    }
+    setError(usable.length > room
+      ? `This model takes ${capabilities.maxReferenceImages} reference images - ${usable.length - room} not attached`
+      : null);
+  }, [capabilities, referenceImages.length, addReferenceImage]);
+
   const generate = useCallback(() => {
     if (!prompt.trim()) {
       setError('Please enter a prompt');
@@ -264,31 +595,27 @@ export function useImageGeneration(
     setConversationId(null);  // Clear conversation for new generation
     setGeneratedImages([]);    // Clear previous images
     setConversationHistory([]); // Clear history for new conversation
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
     setPendingPrompt(prompt);   // Track prompt for history
-
-    // Parse seed input - if valid number use it, otherwise let handler auto-generate
-    const parsedSeed = seedInput.trim() ? parseInt(seedInput, 10) : undefined;
-    const seed = parsedSeed !== undefined && !isNaN(parsedSeed) ? parsedSeed : undefined;
-    const promptForApi = referenceSvgText
-      ? `${prompt}\n\nReference SVG:\n${referenceSvgText}`
-      : prompt;
-    const imagesForApi = referenceImages.filter((_, i) => i !== referenceSvgIndex);
+    pendingEstimateRef.current = costEstimate.costUsd;
+    pendingInpaintRef.current = false;
+    setVariationProgress(variationCount > 1 ? { completed: 0, total: variationCount } : null);
+    setVariationImages([]);
 
     vscode.postMessage(
       createEnvelope(
         MessageType.IMAGE_GENERATION_REQUEST,
         'webview.imageGeneration',
         {
-          prompt: promptForApi,
+          ...requestInput,
           model,
-          aspectRatio,
-          referenceImages: imagesForApi.length > 0 && !referenceSvgText ? imagesForApi : (imagesForApi.length > 0 && referenceSvgText ? imagesForApi : undefined),
-          referenceSvgText: referenceSvgText ?? undefined,
-          seed,
-        }
+          variations: variationCount,
+        },
+        generationRequest.start('img')
       )
     );
-  }, [prompt, model, aspectRatio, referenceImages, referenceSvgText, referenceSvgIndex, seedInput, vscode]);
+  }, [prompt, model, requestInput, variationCount, costEstimate, generationRequest, vscode]);
 
   const continueChat = useCallback(
     (chatPrompt: string) => {
@@ -305,21 +632,22 @@ export function useImageGeneration(
       setIsLoading(true);
       setError(null);
       setPendingPrompt(chatPrompt);  // Track prompt for history
+      pendingInpaintRef.current = false;
 
-      // Build history for self-contained request (enables re-hydration after extension restart)
-      const history: ConversationHistoryTurn[] = conversationHistory.map(turn => ({
-        prompt: turn.prompt,
-        images: turn.images.map(img => ({
-          data: img.data,
-          seed: img.seed,
-        })),
-        referenceSvgText: turn.referenceSvgText,
-      }));
+      const history = toHistory(conversationHistory, conversationId);
 
       const promptForApi = referenceSvgText
         ? `${chatPrompt}\n\nReference SVG:\n${referenceSvgText}`
         : chatPrompt;
       const imagesForApi = referenceImages.filter((_, i) => i !== referenceSvgIndex);
+      const targetImages = continuationCandidates
+        .filter((img) => continuationTargetIds.includes(img.id))
+        .map((img) => img.data);
+      pendingEstimateRef.current = estimateImageRequestCost(modelDefinition, {
+        prompt: promptForApi,
+        referenceImages: imagesForApi,
+        history,
+      }).costUsd;
 
       vscode.postMessage(
         createEnvelope(
@@ -333,29 +661,183 @@ export function useImageGeneration(
             aspectRatio,
             referenceImages: imagesForApi.length > 0 && !referenceSvgText ? imagesForApi : (imagesForApi.length > 0 && referenceSvgText ? imagesForApi : undefined),
             referenceSvgText: referenceSvgText ?? undefined,
-          }
+            targetImages: targetImages.length > 0 ? targetImages : undefined,
+          },
+          generationRequest.start('img')
+        )
+      );
+    },
+    [conversationId, conversationHistory, model, modelDefinition, aspectRatio, referenceImages, referenceSvgText, referenceSvgIndex, continuationCandidates, continuationTargetIds, generationRequest, vscode]
+  );
+
+  const inpaintImage = useCallback(
+    (image: GeneratedImage, instruction: string, mask: Omit<ImageInpaintMask, 'sourceImage'>) => {
+      if (!instruction.trim()) {
+        setError('Please describe the edit');
+        return;
+      }
+
+      // A batch variation is edited within its own conversation
+      const targetConversationId = image.conversationId ?? conversationId;
+      if (!targetConversationId) {
+        setError('No active conversation to continue');
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+      setConversationId(targetConversationId);
+      setPendingPrompt(instruction);
+      pendingInpaintRef.current = true;
+
+      const history = toHistory(conversationHistory, targetConversationId);
+      pendingEstimateRef.current = estimateImageRequestCost(modelDefinition, {
+        prompt: instruction,
+        referenceImages: [image.data, mask.guidanceImage],
+        history,
+      }).costUsd;
+
+      vscode.postMessage(
+        createEnvelope(
+          MessageType.IMAGE_GENERATION_CONTINUE,
+          'webview.imageGeneration',
+          {
+            prompt: instruction,
+            conversationId: targetConversationId,
+            history,
+            model,
+            aspectRatio,
+            mask: { ...mask, sourceImage: image.data },
+          },
+          generationRequest.start('img')
         )
       );
     },
-    [conversationId, conversationHistory, model, aspectRatio, referenceImages, referenceSvgText, referenceSvgIndex, vscode]
+    [conversationId, conversationHistory, model, modelDefinition, aspectRatio, generationRequest, vscode]
   );
 
+  const cancelGeneration = useCallback(() => {
+    if (!generationRequest.cancel()) {
+      return;
+    }
+    // The extension rolls back the turn, so drop it here too
+    setPendingPrompt(null);
+    setIsLoading(false);
+    setVariationProgress(null);
+    setVariationImages([]);
+  }, [generationRequest]);
+
   const clearConversation = useCallback(() => {
     setConversationId(null);
     setGeneratedImages([]);
     setConversationHistory([]);
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
     setPrompt('');
     setError(null);
   }, []);
 
+  const selectVariation = useCallback((image: GeneratedImage) => {
+    if (isLoading || !image.conversationId) {
+      return;
+    }
+    // Only the latest turn can be branched - earlier turns are already part of the thread
+    const last = conversationHistory[conversationHistory.length - 1];
+    if (!last?.images.some((img) => img.id === image.id)) {
+      return;
+    }
+    setConversationId(image.conversationId);
+  }, [isLoading, conversationHistory]);
+
+  const toggleContinuationTarget = useCallback((image: GeneratedImage) => {
+    if (isLoading || !continuationCandidates.some((img) => img.id === image.id)) {
+      return;
+    }
+    setContinuationTargetIds((prev) => (
+      prev.includes(image.id) ? prev.filter((id) => id !== image.id) : [...prev, image.id]
+    ));
+  }, [isLoading, continuationCandidates]);
+
+  const branchFromTurn = useCallback((turn: ConversationTurn) => {
+    const index = conversationHistory.findIndex((candidate) => candidate.id === turn.id);
+    if (isLoading || pendingBranch || !conversationId || index < 0) {
+      return;
+    }
+
+    // A variation turn branches from the selected variation's conversation
+    const sourceConversationId = turn.images.find((img) => img.conversationId === conversationId)?.conversationId
+      ?? turn.images[0]?.conversationId
+      ?? conversationId;
+    const turns = conversationHistory.slice(0, index + 1);
+    setPendingBranch({ sourceConversationId, turns });
+    setError(null);
+
+    vscode.postMessage(
+      createEnvelope<ImageGenerationBranchPayload>(
+        MessageType.IMAGE_GENERATION_BRANCH,
+        'webview.imageGeneration',
+        {
+          conversationId: sourceConversationId,
+          turnNumber: turn.turnNumber,
+          // Another variation's conversation only shares the turns up to the branch point
+          history: toHistory(sourceConversationId === conversationId ? conversationHistory : turns, sourceConversationId),
+          model,
+          aspectRatio,
+        }
+      )
+    );
+  }, [isLoading, pendingBranch, conversationId, conversationHistory, model, aspectRatio, vscode]);
+
+  const switchBranch = useCallback((branchId: string) => {
+    const target = branches.find((branch) => branch.id === branchId);
+    if (isLoading || pendingBranch || !target || branchId === activeBranchId) {
+      return;
+    }
+    setBranches(snapshotBranch(branches, activeBranchId, conversationId, conversationHistory));
+    showBranch(target.id, target.conversationId, target.turns);
+  }, [isLoading, pendingBranch, branches, activeBranchId, conversationId, conversationHistory, showBranch]);
+
+  const restoreConversation = useCallback((restored: RestoredImageConversation) => {
+    // A running generation would land in the wrong conversation
+    if (generationRequest.cancel()) {
+      setIsLoading(false);
+    }
+
+    const last = restored.turns[restored.turns.length - 1];
+    reportedTurnKeyRef.current = last ? `${restored.conversationId}:${last.turnNumber}` : null;
+    setConversationId(restored.conversationId);
+    setConversationHistory(restored.turns);
+    setGeneratedImages(last?.images ?? []);
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
+    setModelState(restored.model);
+    setAspectRatio(restored.aspectRatio);
+    setPendingPrompt(null);
+    setPrompt('');
+    setError(null);
+  }, [generationRequest]);
+
+  const setSaveOptions = useCallback((options: Partial<ImageSaveOptions>) => {
+    setSaveOptionsState((prev) => ({ ...prev, ...options }));
+  }, []);
+
   const saveImage = useCallback(
     (image: GeneratedImage) => {
       const timestamp = new Date(image.timestamp).toISOString().replace(/[:.]/g, '-');
       const extension = image.mimeType === 'image/png' ? 'png' : 'jpg';
       const suggestedFilename = `pixel-minion-${timestamp}.${extension}`;
+      // Images the extension cannot decode keep their format and size; metadata can still be stripped
+      const options = saveAsIsReason(image)
+        ? { ...saveOptions, format: 'original' as const, width: undefined, height: undefined, crop: undefined }
+        : saveOptions;
+      // Options only go along when they change something; the extension then sets the file extension
+      const processing = options.format !== 'original'
+        || !!options.width
+        || !!options.height
+        || options.stripMetadata;
 
       vscode.postMessage(
-        createEnvelope(
+        createEnvelope<ImageSaveRequestPayload>(
           MessageType.IMAGE_SAVE_REQUEST,
           'webview.imageGeneration',
           {
@@ -363,11 +845,21 @@ export function useImageGeneration(
             data: image.data,
             mimeType: image.mimeType,
             suggestedFilename,
+            options: processing ? options : undefined,
+            // Images from before model/aspect ratio were recorded fall back to the current conversation
+            provenance: {
+              prompt: image.prompt,
+              model: image.model ?? model,
+              aspectRatio: image.aspectRatio ?? aspectRatio,
+              seed: image.seed,
+              conversationId: image.conversationId ?? conversationId ?? undefined,
+              timestamp: image.timestamp,
+            },
           }
         )
       );
     },
-    [vscode]
+    [saveOptions, model, aspectRatio, conversationId, vscode]
   );
 
   const enhancePrompt = useCallback(() => {
@@ -386,19 +878,30 @@ export function useImageGeneration(
         {
           prompt: prompt.trim(),
           type: 'image',
-        }
+        },
+        enhanceRequest.start('enhance')
       )
     );
-  }, [prompt, vscode]);
+  }, [prompt, enhanceRequest, vscode]);
+
+  const cancelEnhance = useCallback(() => {
+    if (enhanceRequest.cancel()) {
+      setIsEnhancing(false);
+    }
+  }, [enhanceRequest]);
 
   // Persistence object (reference images excluded - they're per-request context)
   const persistedState: ImageGenerationPersistence = {
     prompt,
     model,
     aspectRatio,
+    variationCount,
+    saveOptions,
     conversationId,
     generatedImages,
     conversationHistory,
+    branches,
+    activeBranchId,
   };
 
   return {
@@ -410,30 +913,61 @@ export function useImageGeneration(
     referenceSvgText,
     referenceSvgWarning,
     referenceImageSizeWarning,
+    capabilities,
     seedInput,
+    variationCount,
+    variationProgress,
+    variationImages,
+    costEstimate,
+    requestInput,
+    saveOptions,
+    saveAsIsLimit,
     generatedImages,
+    continuationCandidates,
+    continuationTargetIds,
     conversationHistory,
     conversationId,
+    branchTree,
+    activeBranchId,
+    isBranching: pendingBranch !== null,
     isLoading,
+    retryStatus,
     isEnhancing,
     error,
+    errorCode,
     // Actions
     setPrompt,
     setModel,
     setAspectRatio,
     setSeedInput,
+    setVariationCount,
+    setSaveOptions,
+    selectVariation,
+    toggleContinuationTarget,
     addReferenceImage,
     removeReferenceImage,
     clearReferenceImages,
+    pickWorkspaceReferences,
     generate,
     continueChat,
+    inpaintImage,
     clearConversation,
+    cancelGeneration,
     saveImage,
     enhancePrompt,
+    cancelEnhance,
+    restoreConversation,
+    branchFromTurn,
+    switchBranch,
     // Message Handlers (for App-level routing)
     handleGenerationResponse,
+    handleVariation,
+    handleBranchResult,
     handleSaveResult,
     handleEnhanceResponse,
+    handleLoadParameters,
+    handleReferenceFiles,
+    handleStatus,
     handleError,
     // Persistence
     persistedState,
@@ -0,0 +1,85 @@
+/**
+ * useModelCatalog - Live OpenRouter model catalog hook
+ *
+ * Pattern: Tripartite Interface (State, Actions) - not persisted, the extension
+ * caches the catalog in globalState and answers the request on every load.
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  ModelCatalogPayload,
+  ModelCatalogSource,
+} from '@messages';
+import { GenerationType, ModelDefinition } from '../../../../shared/types/providers';
+
+// 1. State Interface
+export interface ModelCatalogState {
+  models: Record<GenerationType, ModelDefinition[]> | null;  // null until the first response
+  source: ModelCatalogSource | null;
+  fetchedAt: number | null;
+  isRefreshing: boolean;
+}
+
+// 2. Actions Interface
+export interface ModelCatalogActions {
+  refreshCatalog: () => void;  // refetch, ignoring the cache TTL
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface ModelCatalogHandlers {
+  handleModelCatalog: (message: MessageEnvelope) => void;
+}
+
+export type UseModelCatalogReturn = ModelCatalogState & ModelCatalogActions & ModelCatalogHandlers;
+
+export function useModelCatalog(): UseModelCatalogReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [models, setModels] = useState<Record<GenerationType, ModelDefinition[]> | null>(null);
+  const [source, setSource] = useState<ModelCatalogSource | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Message handlers (exposed for App-level routing)
+  const handleModelCatalog = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as ModelCatalogPayload;
+    setModels(payload.models);
+    setSource(payload.source);
+    setFetchedAt(payload.fetchedAt ?? null);
+    setIsRefreshing(false);
+  }, []);
+
+  // Actions
+  const requestCatalog = useCallback((forceRefresh: boolean) => {
+    vscode.postMessage(
+      createEnvelope(MessageType.MODEL_CATALOG_REQUEST, 'webview.modelCatalog', { forceRefresh })
+    );
+  }, [vscode]);
+
+  const refreshCatalog = useCallback(() => {
+    setIsRefreshing(true);
+    requestCatalog(true);
+  }, [requestCatalog]);
+
+  // Request initial data (cached by the extension)
+  useEffect(() => {
+    requestCatalog(false);
+  }, [requestCatalog]);
+
+  return {
+    // State
+    models,
+    source,
+    fetchedAt,
+    isRefreshing,
+    // Actions
+    refreshCatalog,
+    // Message Handlers (for App-level routing)
+    handleModelCatalog,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * useModelComparison - Compare mode: one prompt sent to several models at once
+ *
+ * Pattern: Tripartite Interface (State, Actions, Persistence)
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ *
+ * One instance per view ('image' or 'svg'). Every model answers in its own
+ * conversation, so promoting a cell hands that conversation to the view's
+ * generation hook (via sync.onPromote) where it continues like any other.
+ * Only the mode and the model picks are persisted - results are per run.
+ */
+import { useState, useCallback } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import { useCancellableRequest } from '../useCancellableRequest';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  AspectRatio,
+  GeneratedImage,
+  TokenUsage,
+  ComparisonType,
+  ComparisonInput,
+  ComparisonRequestPayload,
+  ComparisonResultPayload,
+  MAX_COMPARISON_MODELS,
+  ErrorPayload,
+} from '@messages';
+
+/** One model's column in the comparison grid */
+export interface ComparisonCell {
+  model: string;
+  status: 'running' | 'done' | 'failed';
+  latencyMs?: number;
+  usage?: TokenUsage;
+  conversationId?: string;
+  images?: GeneratedImage[];  // image comparisons
+  svgCode?: string;           // SVG comparisons
+  error?: string;
+}
+
+/** A finished cell handed over to the generation view */
+export interface ComparisonPromotion {
+  conversationId: string;
+  model: string;
+  aspectRatio: AspectRatio;
+  prompt: string;             // as typed - without appended reference SVG text
+  referenceSvgText?: string;
+  cell: ComparisonCell;
+}
+
+// 1. State Interface (read-only)
+export interface ModelComparisonState {
+  enabled: boolean;                 // Compare mode replaces the single model selector
+  models: string[];                 // models picked for the next comparison
+  cells: ComparisonCell[];          // last run, in model order
+  run: (ComparisonInput & { displayPrompt: string }) | null;  // what the last run sent
+  promotedConversationId: string | null;
+  isRunning: boolean;
+  error: string | null;
+  errorCode: string | null;   // stable provider code of the shown error (picks the remediation)
+}
+
+// 2. Actions Interface (write operations)
+export interface ModelComparisonActions {
+  setEnabled: (enabled: boolean) => void;
+  toggleModel: (model: string) => void;
+  compare: (input: ComparisonInput, displayPrompt?: string) => void;
+  cancelComparison: () => void;
+  clearComparison: () => void;
+  promote: (cell: ComparisonCell) => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface ModelComparisonHandlers {
+  handleResult: (message: MessageEnvelope) => void;
+  handleError: (message: MessageEnvelope) => void;
+}
+
+// 3. Persistence Interface (what gets saved)
+export interface ModelComparisonPersistence {
+  enabled: boolean;
+  models: string[];
+}
+
+export type UseModelComparisonReturn = ModelComparisonState & ModelComparisonActions & ModelComparisonHandlers & {
+  type: ComparisonType;
+  persistedState: ModelComparisonPersistence;
+};
+
+export function useModelComparison(
+  type: ComparisonType,
+  initialState?: Partial<ModelComparisonPersistence>,
+  sync?: {
+    onPromote?: (promotion: ComparisonPromotion) => void;
+  }
+): UseModelComparisonReturn {
+  const vscode = useVSCodeApi();
+  const comparisonRequest = useCancellableRequest('webview.comparison');
+
+  // State
+  const [enabled, setEnabled] = useState(initialState?.enabled ?? false);
+  const [models, setModels] = useState<string[]>(initialState?.models ?? []);
+  const [cells, setCells] = useState<ComparisonCell[]>([]);
+  const [run, setRun] = useState<ModelComparisonState['run']>(null);
+  const [promotedConversationId, setPromotedConversationId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorPayload, setErrorPayload] = useState<ErrorPayload | null>(null);
+  // Only while the error it came with is still the one shown
+  const errorCode = errorPayload?.message === error ? errorPayload.code ?? null : null;
+
+  // Message handlers (exposed for App-level routing)
+  const handleResult = useCallback((message: MessageEnvelope) => {
+    if (comparisonRequest.isCancelled(message)) {
+      return;
+    }
+    const payload = message.payload as ComparisonResultPayload;
+    setCells((prev) => prev.map((cell, index) => index !== payload.index ? cell : {
+      model: payload.model,
+      status: payload.error ? 'failed' : 'done',
+      latencyMs: payload.latencyMs,
+      usage: payload.usage,
+      conversationId: payload.conversationId,
+      images: payload.images,
+      svgCode: payload.svgCode,
+      error: payload.error,
+    }));
+    if (payload.completed >= payload.total) {
+      comparisonRequest.finish();
+      setIsRunning(false);
+    }
+  }, [comparisonRequest]);
+
+  const handleError = useCallback((message: MessageEnvelope) => {
+    if (!isRunning || comparisonRequest.isCancelled(message)) {
+      return;
+    }
+    comparisonRequest.finish();
+    setIsRunning(false);
+    setCells((prev) => prev.filter((cell) => cell.status !== 'running'));
+    const payload = message.payload as ErrorPayload;
+    setErrorPayload(payload);
+    setError(payload.message);
+  }, [isRunning, comparisonRequest]);
+
+  // Actions
+  const toggleModel = useCallback((model: string) => {
+    setModels((prev) => {
+      if (prev.includes(model)) {
+        return prev.filter((candidate) => candidate !== model);
+      }
+      return prev.length < MAX_COMPARISON_MODELS ? [...prev, model] : prev;
+    });
+  }, []);
+
+  const compare = useCallback((input: ComparisonInput, displayPrompt: string = input.prompt) => {
+    if (!input.prompt.trim()) {
+      setError('Please enter a prompt');
+      return;
+    }
+    if (models.length < 2) {
+      setError('Pick at least two models to compare');
+      return;
+    }
+
+    setError(null);
+    setIsRunning(true);
+    setRun({ ...input, displayPrompt });
+    setPromotedConversationId(null);
+    setCells(models.map((model) => ({ model, status: 'running' })));
+
+    vscode.postMessage(
+      createEnvelope<ComparisonRequestPayload>(
+        MessageType.COMPARISON_REQUEST,
+        'webview.comparison',
+        { type, models, ...input },
+        comparisonRequest.start(`compare-${type}`)
+      )
+    );
+  }, [type, models, comparisonRequest, vscode]);
+
+  const cancelComparison = useCallback(() => {
+    if (comparisonRequest.cancel()) {
+      setIsRunning(false);
+      setCells((prev) => prev.filter((cell) => cell.status !== 'running'));
+    }
+  }, [comparisonRequest]);
+
+  const clearComparison = useCallback(() => {
+    comparisonRequest.cancel();
+    setIsRunning(false);
+    setCells([]);
+    setRun(null);
+    setPromotedConversationId(null);
+    setError(null);
+  }, [comparisonRequest]);
+
+  const promote = useCallback((cell: ComparisonCell) => {
+    if (!run || !cell.conversationId || cell.status !== 'done') {
+      return;
+    }
+    // The promoted conversation continues in single-model mode
+    setPromotedConversationId(cell.conversationId);
+    setEnabled(false);
+    sync?.onPromote?.({
+      conversationId: cell.conversationId,
+      model: cell.model,
+      aspectRatio: run.aspectRatio,
+      prompt: run.displayPrompt,
+      referenceSvgText: run.referenceSvgText,
+      cell,
+    });
+  }, [run, sync]);
+
+  // Persistence object
+  const persistedState: ModelComparisonPersistence = {
+    enabled,
+    models,
+  };
+
+  return {
+    type,
+    // State
+    enabled,
+    models,
+    cells,
+    run,
+    promotedConversationId,
+    isRunning,
+    error,
+    errorCode,
+    // Actions
+    setEnabled,
+    toggleModel,
+    compare,
+    cancelComparison,
+    clearComparison,
+    promote,
+    // Message Handlers (for App-level routing)
+    handleResult,
+    handleError,
+    // Persistence
+    persistedState,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * usePromptTemplates - Prompt template library hook
+ *
+ * Pattern: Tripartite Interface (State, Actions) - not persisted, templates are
+ * files the extension re-reads on every list request.
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  PromptTemplate,
+  PromptTemplateListPayload,
+  PromptTemplateSavePayload,
+  PromptTemplateDeletePayload,
+} from '@messages';
+
+// 1. State Interface
+export interface PromptTemplatesState {
+  templates: PromptTemplate[];
+  workspaceAvailable: boolean;  // workspace templates need an open folder
+  error: string | null;
+}
+
+// 2. Actions Interface
+export interface PromptTemplatesActions {
+  refreshTemplates: () => void;
+  saveTemplate: (template: PromptTemplateSavePayload) => void;
+  deleteTemplate: (id: string) => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface PromptTemplatesHandlers {
+  handleTemplateList: (message: MessageEnvelope) => void;
+  handleError: (message: MessageEnvelope) => void;
+}
+
+export type UsePromptTemplatesReturn = PromptTemplatesState & PromptTemplatesActions & PromptTemplatesHandlers;
+
+export function usePromptTemplates(): UsePromptTemplatesReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [workspaceAvailable, setWorkspaceAvailable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Message handlers (exposed for App-level routing)
+  const handleTemplateList = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as PromptTemplateListPayload;
+    setTemplates(payload.templates);
+    setWorkspaceAvailable(payload.workspaceAvailable);
+  }, []);
+
+  const handleError = useCallback((message: MessageEnvelope) => {
+    setError((message.payload as { message: string }).message);
+  }, []);
+
+  // Actions
+  const refreshTemplates = useCallback(() => {
+    vscode.postMessage(createEnvelope(MessageType.PROMPT_TEMPLATE_LIST_REQUEST, 'webview.templates', {}));
+  }, [vscode]);
+
+  const saveTemplate = useCallback((template: PromptTemplateSavePayload) => {
+    setError(null);
+    vscode.postMessage(
+      createEnvelope<PromptTemplateSavePayload>(MessageType.PROMPT_TEMPLATE_SAVE, 'webview.templates', template)
+    );
+  }, [vscode]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setError(null);
+    vscode.postMessage(
+      createEnvelope<PromptTemplateDeletePayload>(MessageType.PROMPT_TEMPLATE_DELETE, 'webview.templates', { id })
+    );
+  }, [vscode]);
+
+  // Request initial list
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  return {
+    // State
+    templates,
+    workspaceAvailable,
+    error,
+    // Actions
+    refreshTemplates,
+    saveTemplate,
+    deleteTemplate,
+    // Message Handlers (for App-level routing)
+    handleTemplateList,
+    handleError,
+  };
+}
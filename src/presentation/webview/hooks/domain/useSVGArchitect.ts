@@ -0,0 +1,396 @@
+/**
+ * useSVGArchitect - SVG Architect (multi-agent) domain hook
+ *
+ * Pattern: Tripartite Interface (State, Actions, Persistence)
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ *
+ * The extension pauses after every render; this hook rasterizes the SVG to PNG
+ * and posts it back so the Validation Agent can compare it to the original.
+ * The whole session runs under the request's correlationId, so cancel() stops it.
+ */
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import { useCancellableRequest } from '../useCancellableRequest';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  AspectRatio,
+  SVGArchitectStatus,
+  SVGArchitectRequestPayload,
+  SVGArchitectProgressPayload,
+  SVGArchitectPngReadyPayload,
+  SVGArchitectResultPayload,
+  SVGSaveRequestPayload,
+  ErrorPayload,
+} from '@messages';
+import { svgToPng } from '@utils/svgToPng';
+import { DEFAULT_SVG_BLUEPRINT_MODEL } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+
+/**
+ * One render/validate pass as shown in the dashboard
+ */
+export interface SVGArchitectIterationView {
+  iterationNumber: number;
+  svgCode: string;
+  pngData?: string;
+  renderError?: string;
+  confidenceScore?: number;
+  corrections?: string;
+}
+
+export interface SVGArchitectGenerateInput {
+  prompt: string;
+  renderModel: string;
+  aspectRatio: AspectRatio;
+  referenceImage: string | null;
+  referenceSvgText: string | null;
+}
+
+// 1. State Interface (read-only)
+export interface SVGArchitectState {
+  isArchitectMode: boolean;
+  blueprintModel: string;
+  conversationId: string | null;
+  aspectRatio: AspectRatio;
+  status: SVGArchitectStatus | null;
+  statusMessage: string;
+  currentIteration: number;
+  maxIterations: number;
+  description: string;
+  blueprint: string;
+  iterations: SVGArchitectIterationView[];
+  result: SVGArchitectResultPayload | null;
+  isLoading: boolean;
+  error: string | null;
+  errorCode: string | null;   // stable provider code of the shown error (picks the remediation)
+}
+
+// 2. Actions Interface (write operations)
+export interface SVGArchitectActions {
+  setArchitectMode: (enabled: boolean) => void;
+  setBlueprintModel: (model: string) => void;
+  generate: (input: SVGArchitectGenerateInput) => void;
+  cancel: () => void;             // Stop the running session
+  clear: () => void;
+  saveSVG: () => void;
+  copySVG: () => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface SVGArchitectHandlers {
+  handleProgress: (message: MessageEnvelope) => void;
+  handleResult: (message: MessageEnvelope) => void;
+  handleError: (message: MessageEnvelope) => void;
+}
+
+// 3. Persistence Interface (what gets saved)
+export interface SVGArchitectPersistence {
+  isArchitectMode: boolean;
+  blueprintModel: string;
+  aspectRatio: AspectRatio;
+  description: string;
+  blueprint: string;
+  iterations: SVGArchitectIterationView[];  // PNGs are dropped to keep webview state small
+  result: SVGArchitectResultPayload | null;
+}
+
+// Composed return type
+export type UseSVGArchitectReturn = SVGArchitectState & SVGArchitectActions & SVGArchitectHandlers & {
+  persistedState: SVGArchitectPersistence;
+};
+
+export function useSVGArchitect(
+  initialState?: Partial<SVGArchitectPersistence>,
+  sync?: {
+    selectedBlueprintModel?: string;
+    onBlueprintModelChange?: (model: string) => void;
+    maxIterations?: number;
+  }
+): UseSVGArchitectReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [isArchitectMode, setArchitectMode] = useState(initialState?.isArchitectMode ?? false);
+  const [blueprintModel, setBlueprintModelState] = useState(
+    initialState?.blueprintModel ?? (sync?.selectedBlueprintModel ?? DEFAULT_SVG_BLUEPRINT_MODEL)
+  );
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(initialState?.aspectRatio ?? '1:1');
+  const [status, setStatus] = useState<SVGArchitectStatus | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [currentIteration, setCurrentIteration] = useState(0);
+  const [maxIterations, setMaxIterations] = useState(sync?.maxIterations ?? 5);
+  const [description, setDescription] = useState(initialState?.description ?? '');
+  const [blueprint, setBlueprint] = useState(initialState?.blueprint ?? '');
+  const [iterations, setIterations] = useState<SVGArchitectIterationView[]>(initialState?.iterations ?? []);
+  const [result, setResult] = useState<SVGArchitectResultPayload | null>(initialState?.result ?? null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorPayload, setErrorPayload] = useState<ErrorPayload | null>(null);
+  // Only while the error it came with is still the one shown
+  const errorCode = errorPayload?.message === error ? errorPayload.code ?? null : null;
+  const architectRequest = useCancellableRequest('webview.svgArchitect');
+
+  // Aspect ratio of the running session - read inside the async rasterize step
+  const aspectRatioRef = useRef<AspectRatio>(aspectRatio);
+  // Prompt and render model of the running session (provenance on save)
+  const requestRef = useRef<{ prompt: string; renderModel: string; completedAt?: number } | null>(null);
+
+  const setBlueprintModel = useCallback((newModel: string) => {
+    setBlueprintModelState(newModel);
+    sync?.onBlueprintModelChange?.(newModel);
+  }, [sync]);
+
+  useEffect(() => {
+    if (sync?.selectedBlueprintModel && !isLoading) {
+      setBlueprintModelState(sync.selectedBlueprintModel);
+    }
+  }, [sync?.selectedBlueprintModel]);
+
+  const updateIteration = useCallback((iterationNumber: number, update: Partial<SVGArchitectIterationView>) => {
+    setIterations((prev) => {
+      const exists = prev.some((item) => item.iterationNumber === iterationNumber);
+      if (!exists) {
+        return [...prev, { iterationNumber, svgCode: '', ...update }];
+      }
+      return prev.map((item) =>
+        item.iterationNumber === iterationNumber ? { ...item, ...update } : item
+      );
+    });
+  }, []);
+
+  /**
+   * Rasterize an iteration and hand the PNG back to the extension
+   */
+  const submitRender = useCallback(async (id: string, iterationNumber: number, svgCode: string) => {
+    const payload: SVGArchitectPngReadyPayload = { conversationId: id, iteration: iterationNumber };
+
+    try {
+      payload.pngData = await svgToPng(svgCode, aspectRatioRef.current);
+      updateIteration(iterationNumber, { pngData: payload.pngData });
+    } catch (err) {
+      payload.renderError = err instanceof Error ? err.message : 'Failed to rasterize SVG';
+      updateIteration(iterationNumber, { renderError: payload.renderError });
+    }
+
+    vscode.postMessage(
+      createEnvelope(MessageType.SVG_ARCHITECT_PNG_READY, 'webview.svgArchitect', payload)
+    );
+  }, [updateIteration, vscode]);
+
+  // Message handlers (exposed for App-level routing)
+  const handleProgress = useCallback((message: MessageEnvelope) => {
+    if (architectRequest.isCancelled(message)) {
+      return;
+    }
+    const payload = message.payload as SVGArchitectProgressPayload;
+    setConversationId(payload.conversationId);
+    setStatus(payload.status);
+    setStatusMessage(payload.message);
+    setCurrentIteration(payload.iteration);
+    setMaxIterations(payload.maxIterations);
+    if (payload.description !== undefined) {
+      setDescription(payload.description);
+    }
+    if (payload.blueprint !== undefined) {
+      setBlueprint(payload.blueprint);
+    }
+
+    if (payload.status === 'awaiting-png' && payload.svgCode) {
+      updateIteration(payload.iteration, { svgCode: payload.svgCode });
+      void submitRender(payload.conversationId, payload.iteration, payload.svgCode);
+    } else if (payload.confidenceScore !== undefined && payload.status !== 'complete') {
+      updateIteration(payload.iteration, {
+        confidenceScore: payload.confidenceScore,
+        corrections: payload.corrections,
+      });
+    }
+  }, [architectRequest, submitRender, updateIteration]);
+
+  const handleResult = useCallback((message: MessageEnvelope) => {
+    if (architectRequest.isCancelled(message)) {
+      return;
+    }
+    architectRequest.finish();
+    const payload = message.payload as SVGArchitectResultPayload;
+    if (requestRef.current) {
+      requestRef.current.completedAt = Date.now();
+    }
+    setResult(payload);
+    setDescription(payload.description);
+    setBlueprint(payload.blueprint);
+    setStatus('complete');
+    setIsLoading(false);
+    setError(null);
+  }, [architectRequest]);
+
+  const handleError = useCallback((message: MessageEnvelope) => {
+    if (architectRequest.isCancelled(message)) {
+      return;
+    }
+    architectRequest.finish();
+    setIsLoading(false);
+    setStatus(null);
+    const payload = message.payload as ErrorPayload;
+    setErrorPayload(payload);
+    setError(payload.message);
+  }, [architectRequest]);
+
+  // Actions
+  const generate = useCallback((input: SVGArchitectGenerateInput) => {
+    if (!input.prompt.trim() && !input.referenceImage && !input.referenceSvgText) {
+      setError('Please enter a prompt or attach a reference');
+      return;
+    }
+
+    if (conversationId) {
+      vscode.postMessage(
+        createEnvelope(MessageType.SVG_ARCHITECT_CLEAR, 'webview.svgArchitect', { conversationId })
+      );
+    }
+
+    aspectRatioRef.current = input.aspectRatio;
+    requestRef.current = { prompt: input.prompt, renderModel: input.renderModel };
+    setAspectRatio(input.aspectRatio);
+    setIsLoading(true);
+    setError(null);
+    setConversationId(null);
+    setStatus('analyzing');
+    setStatusMessage('Starting SVG Architect...');
+    setCurrentIteration(0);
+    setMaxIterations(sync?.maxIterations ?? 5);
+    setDescription('');
+    setBlueprint('');
+    setIterations([]);
+    setResult(null);
+
+    vscode.postMessage(
+      createEnvelope<SVGArchitectRequestPayload>(
+        MessageType.SVG_ARCHITECT_REQUEST,
+        'webview.svgArchitect',
+        {
+          prompt: input.prompt,
+          blueprintModel,
+          renderModel: input.renderModel,
+          aspectRatio: input.aspectRatio,
+          maxIterations: sync?.maxIterations ?? 5,
+          referenceImage: input.referenceSvgText ? undefined : (input.referenceImage ?? undefined),
+          referenceSvgText: input.referenceSvgText ?? undefined,
+        },
+        architectRequest.start('arch')
+      )
+    );
+  }, [blueprintModel, conversationId, sync?.maxIterations, architectRequest, vscode]);
+
+  const cancel = useCallback(() => {
+    if (!architectRequest.cancel()) {
+      return;
+    }
+    // The extension drops the session, so the dashboard keeps what has been rendered so far
+    setIsLoading(false);
+    setStatus(null);
+    setStatusMessage('');
+    setConversationId(null);
+  }, [architectRequest]);
+
+  const clear = useCallback(() => {
+    architectRequest.cancel();
+    setIsLoading(false);
+    if (conversationId) {
+      vscode.postMessage(
+        createEnvelope(MessageType.SVG_ARCHITECT_CLEAR, 'webview.svgArchitect', { conversationId })
+      );
+    }
+    setConversationId(null);
+    setStatus(null);
+    setStatusMessage('');
+    setDescription('');
+    setBlueprint('');
+    setIterations([]);
+    setResult(null);
+    setError(null);
+  }, [conversationId, architectRequest, vscode]);
+
+  const saveSVG = useCallback(() => {
+    if (!result) {
+      setError('No SVG code to save');
+      return;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const request = requestRef.current;
+    vscode.postMessage(
+      createEnvelope<SVGSaveRequestPayload>(
+        MessageType.SVG_SAVE_REQUEST,
+        'webview.svgArchitect',
+        {
+          svgCode: result.svgCode,
+          suggestedFilename: `pixel-minion-architect-${timestamp}.svg`,
+          provenance: request ? {
+            prompt: request.prompt,
+            model: request.renderModel,
+            aspectRatio,
+            conversationId: result.conversationId,
+            timestamp: request.completedAt ?? Date.now(),
+          } : undefined,
+        }
+      )
+    );
+  }, [result, aspectRatio, vscode]);
+
+  const copySVG = useCallback(() => {
+    if (!result) {
+      setError('No SVG code to copy');
+      return;
+    }
+
+    navigator.clipboard.writeText(result.svgCode).catch((err) => {
+      setError(`Failed to copy SVG: ${err.message}`);
+    });
+  }, [result]);
+
+  // Persistence object
+  const persistedState: SVGArchitectPersistence = {
+    isArchitectMode,
+    blueprintModel,
+    aspectRatio,
+    description,
+    blueprint,
+    iterations: iterations.map(({ pngData: _pngData, ...rest }) => rest),
+    result,
+  };
+
+  return {
+    // State
+    isArchitectMode,
+    blueprintModel,
+    conversationId,
+    aspectRatio,
+    status,
+    statusMessage,
+    currentIteration,
+    maxIterations,
+    description,
+    blueprint,
+    iterations,
+    result,
+    isLoading,
+    error,
+    errorCode,
+    // Actions
+    setArchitectMode,
+    setBlueprintModel,
+    generate,
+    cancel,
+    clear,
+    saveSVG,
+    copySVG,
+    // Message Handlers (for App-level routing)
+    handleProgress,
+    handleResult,
+    handleError,
+    // Persistence
+    persistedState,
+  };
+}
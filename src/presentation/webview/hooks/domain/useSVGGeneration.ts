@@ -3,20 +3,57 @@
  *
  * Pattern: Tripartite Interface (State, Actions, Persistence)
  * Message handlers are exposed for App-level registration (prose-minion pattern).
+ * Each turn keeps its pre-flight cost estimate for comparison with usage.costUsd.
+ * "Branch from here" starts a new conversation sharing the turns up to the chosen one;
+ * the branch tree can be switched like in the image view.
+ * The attachment can also be picked from the workspace (extension-side QuickPick).
  */
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useVSCodeApi } from '../useVSCodeApi';
+import { useCancellableRequest } from '../useCancellableRequest';
 import {
   MessageType,
   MessageEnvelope,
   createEnvelope,
   AspectRatio,
   SVGGenerationResponsePayload,
+  SVGGenerationChunkPayload,
+  SVGGenerationBranchPayload,
+  ConversationBranchResultPayload,
   SVGSaveResultPayload,
+  SVGSaveRequestPayload,
   SVGConversationHistoryTurn,
   EnhancePromptResponsePayload,
+  LoadGenerationParametersPayload,
+  ReferenceFilesPayload,
+  WorkspaceReferencePickPayload,
+  isAspectRatio,
+  ComparisonInput,
+  StatusPayload,
+  ErrorPayload,
 } from '@messages';
 import { DEFAULT_SVG_MODEL } from '../../../../infrastructure/ai/providers/OpenRouterProvider';
+import { getModelsForType } from '../../../../infrastructure/ai/providers/ProviderCatalog';
+import { CostEstimate } from '../../../../infrastructure/ai/providers/CostEstimator';
+import { ModelDefinition } from '../../../../shared/types/providers';
+import { estimateSVGRequestCost } from '../../utils/costEstimate';
+import {
+  ConversationBranch,
+  BranchTreeNode,
+  ROOT_BRANCH_ID,
+  snapshotBranch,
+  getBranchTree,
+} from '../../utils/conversationBranches';
+
+/**
+ * A past conversation loaded back into the view - continueChat resumes it
+ */
+export interface RestoredSVGConversation {
+  conversationId: string;
+  model: string;
+  aspectRatio: AspectRatio;
+  turns: SVGConversationHistoryTurn[];
+}
 
 // 1. State Interface (read-only)
 export interface SVGGenerationState {
@@ -26,11 +63,19 @@ export interface SVGGenerationState {
   referenceImage: string | null;  // Single image preview (data URL)
   referenceSvgText: string | null; // Raw SVG text if attachment is SVG
   svgCode: string | null;
+  streamingContent: string | null; // Raw model output while a response streams in
+  costEstimate: CostEstimate;      // what Generate would cost with the current inputs
+  requestInput: ComparisonInput;   // prompt and attachment as Generate sends them (reused by Compare)
   conversationHistory: SVGConversationHistoryTurn[];
   conversationId: string | null;
+  branchTree: BranchTreeNode<SVGConversationHistoryTurn>[];  // empty until the first branch
+  activeBranchId: string;
+  isBranching: boolean;
   isLoading: boolean;
+  retryStatus: string | null;     // OpenRouter retry / fallback notice while loading
   isEnhancing: boolean;
   error: string | null;
+  errorCode: string | null;   // stable provider code of the shown error (picks the remediation)
 }
 
 // 2. Actions Interface (write operations)
@@ -39,19 +84,30 @@ export interface SVGGenerationActions {
   setModel: (model: string) => void;
   setAspectRatio: (ratio: AspectRatio) => void;
   setReferenceAttachment: (attachment: { preview: string | null; svgText: string | null }) => void;
+  pickWorkspaceReference: () => void;  // QuickPick of workspace images and SVGs
   generate: () => void;
   continueChat: (prompt: string) => void;
   clearConversation: () => void;
+  cancelGeneration: () => void;  // Stop the in-flight generation (turn is discarded)
   saveSVG: () => void;
   copySVG: () => void;
   enhancePrompt: () => void;
+  cancelEnhance: () => void;
+  restoreConversation: (conversation: RestoredSVGConversation) => void;  // Load a past conversation (History tab)
+  branchFromTurn: (turn: SVGConversationHistoryTurn) => void;  // New branch sharing the turns up to this one
+  switchBranch: (branchId: string) => void;
 }
 
 // 2b. Message Handlers Interface (for App-level routing)
 export interface SVGGenerationHandlers {
   handleGenerationResponse: (message: MessageEnvelope) => void;
+  handleGenerationChunk: (message: MessageEnvelope) => void;
+  handleBranchResult: (message: MessageEnvelope) => void;
   handleSaveResult: (message: MessageEnvelope) => void;
   handleEnhanceResponse: (message: MessageEnvelope) => void;
+  handleLoadParameters: (message: MessageEnvelope) => void;  // "Load Parameters From File"
+  handleReferenceFiles: (message: MessageEnvelope) => void;  // Workspace picker / "Use as Pixel Minion Reference"
+  handleStatus: (message: MessageEnvelope) => void;
   handleError: (message: MessageEnvelope) => void;
 }
 
@@ -65,6 +121,8 @@ export interface SVGGenerationPersistence {
   conversationHistory: SVGConversationHistoryTurn[];
   referenceSvgText: string | null;
   referenceImage: string | null;
+  branches: ConversationBranch<SVGConversationHistoryTurn>[];  // inactive branches as last seen
+  activeBranchId: string;
 }
 
 // Composed return type
@@ -77,6 +135,11 @@ export function useSVGGeneration(
   sync?: {
     selectedModel?: string;
     onModelChange?: (model: string) => void;
+    onTurnComplete?: (
+      context: { conversationId: string; model: string; aspectRatio: AspectRatio },
+      turn: SVGConversationHistoryTurn
+    ) => void;
+    catalogModels?: ModelDefinition[];  // live OpenRouter pricing
   }
 ): UseSVGGenerationReturn {
   const vscode = useVSCodeApi();
@@ -92,16 +155,32 @@ export function useSVGGeneration(
   const [svgCode, setSvgCode] = useState<string | null>(
     initialState?.svgCode ?? null
   );
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
   const [conversationHistory, setConversationHistory] = useState<SVGConversationHistoryTurn[]>(
     initialState?.conversationHistory ?? []
   );
   const [conversationId, setConversationId] = useState<string | null>(
     initialState?.conversationId ?? null
   );
+  const [branches, setBranches] = useState<ConversationBranch<SVGConversationHistoryTurn>[]>(
+    initialState?.branches ?? []
+  );
+  const [activeBranchId, setActiveBranchId] = useState(initialState?.activeBranchId ?? ROOT_BRANCH_ID);
+  // The branch being created: its inherited turns wait for the new conversation id
+  const [pendingBranch, setPendingBranch] = useState<{ sourceConversationId: string; turns: SVGConversationHistoryTurn[] } | null>(null);
   const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const pendingEstimateRef = useRef<number | null>(null);
+  // What produced the current SVG (provenance on save) - absent after a reload or restore
+  const generatedWithRef = useRef<{ model: string; aspectRatio: string; timestamp: number } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorPayload, setErrorPayload] = useState<ErrorPayload | null>(null);
+  // Only while the error it came with is still the one shown
+  const errorCode = errorPayload?.message === error ? errorPayload.code ?? null : null;
+  const generationRequest = useCancellableRequest('webview.svgGeneration');
+  const enhanceRequest = useCancellableRequest('webview.enhance');
   const setModel = useCallback((newModel: string) => {
     setModelState(newModel);
     sync?.onModelChange?.(newModel);
@@ -114,16 +193,85 @@ export function useSVGGeneration(
   // eslint-disable-next-line react-hooks/exhaustive-deps
 }, [sync?.selectedModel]);
 
+  // Report each newly completed turn (History tab) - the persisted turn on load was already reported
+  const lastTurn = conversationHistory[conversationHistory.length - 1];
+  const lastTurnKey = conversationId && lastTurn
+    ? `${conversationId}:${lastTurn.turnNumber ?? conversationHistory.length}`
+    : null;
+  const reportedTurnKeyRef = useRef(lastTurnKey);
+  useEffect(() => {
+    if (!conversationId || !lastTurn || lastTurnKey === reportedTurnKeyRef.current) {
+      return;
+    }
+    reportedTurnKeyRef.current = lastTurnKey;
+    sync?.onTurnComplete?.({ conversationId, model, aspectRatio }, lastTurn);
+  }, [lastTurnKey]);
+
   const setReferenceAttachment = useCallback((attachment: { preview: string | null; svgText: string | null }) => {
     setReferenceImage(attachment.preview);
     setReferenceSvgText(attachment.svgText);
   }, []);
 
+  const pickWorkspaceReference = useCallback(() => {
+    vscode.postMessage(
+      createEnvelope<WorkspaceReferencePickPayload>(
+        MessageType.WORKSPACE_REFERENCE_PICK,
+        'webview.referenceFiles',
+        { target: 'svg', maxFiles: 1 }
+      )
+    );
+  }, [vscode]);
+
+  // Pre-flight cost of Generate
+  const modelDefinition = useMemo(
+    () => getModelsForType('svg', [], sync?.catalogModels).find((candidate) => candidate.id === model),
+    [model, sync?.catalogModels]
+  );
+  const costEstimate = useMemo(() => estimateSVGRequestCost(modelDefinition, {
+    prompt: prompt + (referenceSvgText ?? ''),
+    referenceImage: referenceSvgText ? null : referenceImage,
+  }), [modelDefinition, prompt, referenceImage, referenceSvgText]);
+
+  const requestInput = useMemo<ComparisonInput>(() => ({
+    prompt,
+    aspectRatio,
+    referenceImages: !referenceSvgText && referenceImage ? [referenceImage] : undefined,
+    referenceSvgText: referenceSvgText ?? undefined,
+  }), [prompt, aspectRatio, referenceImage, referenceSvgText]);
+
+  // The active branch is read live from the view's state
+  const branchTree = useMemo(() => (
+    branches.length > 0
+      ? getBranchTree(snapshotBranch(branches, activeBranchId, conversationId, conversationHistory))
+      : []
+  ), [branches, activeBranchId, conversationId, conversationHistory]);
+
+  // Make a branch's conversation the one shown and extended
+  const showBranch = useCallback((branchId: string, branchConversationId: string | null, turns: SVGConversationHistoryTurn[]) => {
+    const last = turns[turns.length - 1];
+    reportedTurnKeyRef.current = branchConversationId && last
+      ? `${branchConversationId}:${last.turnNumber ?? turns.length}`
+      : null;
+    setActiveBranchId(branchId);
+    setConversationId(branchConversationId);
+    setConversationHistory(turns);
+    setSvgCode(last?.svgCode ?? null);
+    generatedWithRef.current = null;
+    setError(null);
+  }, []);
+
   // Message handlers (exposed for App-level routing)
   const handleGenerationResponse = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message)) {
+      return;
+    }
+    generationRequest.finish();
     const payload = message.payload as SVGGenerationResponsePayload;
     setConversationId(payload.conversationId);
     setSvgCode(payload.svgCode);
+    generatedWithRef.current = payload.model && payload.aspectRatio
+      ? { model: payload.model, aspectRatio: payload.aspectRatio, timestamp: Date.now() }
+      : null;
     setPendingPrompt((currentPrompt) => {
       if (currentPrompt) {
         const turn: SVGConversationHistoryTurn = {
@@ -132,14 +280,45 @@ export function useSVGGeneration(
           turnNumber: payload.turnNumber,
           referenceSvgText: referenceSvgText ?? undefined,
           usage: payload.usage,
+          estimatedCostUsd: pendingEstimateRef.current ?? undefined,
         };
         setConversationHistory((prev) => [...prev, turn]);
       }
       return null;
     });
+    setStreamingContent(null);
     setIsLoading(false);
     setError(null);
-  }, []);
+  }, [generationRequest]);
+
+  const handleGenerationChunk = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message)) {
+      return;
+    }
+    const payload = message.payload as SVGGenerationChunkPayload;
+    setStreamingContent(payload.content);
+  }, [generationRequest]);
+
+  const handleBranchResult = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as ConversationBranchResultPayload;
+    if (!pendingBranch || pendingBranch.sourceConversationId !== payload.sourceConversationId) {
+      return;
+    }
+
+    const branchId = `branch-${Date.now()}`;
+    setBranches([
+      ...snapshotBranch(branches, activeBranchId, conversationId, conversationHistory),
+      {
+        id: branchId,
+        parentId: activeBranchId,
+        branchTurnNumber: payload.turnNumber,
+        conversationId: payload.conversationId,
+        turns: pendingBranch.turns,
+      },
+    ]);
+    showBranch(branchId, payload.conversationId, pendingBranch.turns);
+    setPendingBranch(null);
+  }, [pendingBranch, branches, activeBranchId, conversationId, conversationHistory, showBranch]);
 
   const handleSaveResult = useCallback((message: MessageEnvelope) => {
     const payload = message.payload as SVGSaveResultPayload;
@@ -149,16 +328,59 @@ export function useSVGGeneration(
   }, []);
 
   const handleEnhanceResponse = useCallback((message: MessageEnvelope) => {
+    if (enhanceRequest.isCancelled(message)) {
+      return;
+    }
+    enhanceRequest.finish();
     const payload = message.payload as EnhancePromptResponsePayload;
     setPrompt(payload.enhancedPrompt);
     setIsEnhancing(false);
+  }, [enhanceRequest]);
+
+  const handleLoadParameters = useCallback((message: MessageEnvelope) => {
+    const { provenance, referenceImage: preview, referenceSvgText: svgText } = message.payload as LoadGenerationParametersPayload;
+    if (provenance) {
+      setPrompt(provenance.prompt ?? '');
+      if (provenance.model) {
+        setModelState(provenance.model);
+      }
+      if (provenance.aspectRatio && isAspectRatio(provenance.aspectRatio)) {
+        setAspectRatio(provenance.aspectRatio);
+      }
+    }
+    setReferenceImage(preview);
+    setReferenceSvgText(svgText ?? null);
+    setError(null);
+  }, []);
+
+  // The single attachment slot takes the first file
+  const handleReferenceFiles = useCallback((message: MessageEnvelope) => {
+    const [file] = (message.payload as ReferenceFilesPayload).files;
+    if (!file) {
+      return;
+    }
+    setReferenceImage(file.referenceImage);
+    setReferenceSvgText(file.referenceSvgText ?? null);
+    setError(null);
+  }, []);
+
+  const handleStatus = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as StatusPayload;
+    setRetryStatus(payload.isLoading && payload.retry ? payload.message : null);
   }, []);
 
   const handleError = useCallback((message: MessageEnvelope) => {
+    if (generationRequest.isCancelled(message) || enhanceRequest.isCancelled(message)) {
+      return;
+    }
+    setStreamingContent(null);
     setIsLoading(false);
     setIsEnhancing(false);
-    setError((message.payload as { message: string }).message);
-  }, []);
+    setPendingBranch(null);
+    const payload = message.payload as ErrorPayload;
+    setErrorPayload(payload);
+    setError(payload.message);
+  }, [generationRequest, enhanceRequest]);
 
   // Actions
   const generate = useCallback(() => {
@@ -171,8 +393,12 @@ export function useSVGGeneration(
     setError(null);
     setConversationId(null);  // Clear conversation for new generation
     setSvgCode(null);          // Clear previous SVG
+    setStreamingContent(null);
     setConversationHistory([]); // Clear history
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
     setPendingPrompt(prompt);
+    pendingEstimateRef.current = costEstimate.costUsd;
 
     vscode.postMessage(
       createEnvelope(
@@ -184,10 +410,11 @@ export function useSVGGeneration(
           aspectRatio,
           referenceImage: referenceSvgText ? undefined : (referenceImage ?? undefined),
           referenceSvgText: referenceSvgText ?? undefined,
-        }
+        },
+        generationRequest.start('svg')
       )
     );
-  }, [prompt, model, aspectRatio, referenceImage, referenceSvgText, vscode]);
+  }, [prompt, model, aspectRatio, referenceImage, referenceSvgText, costEstimate, generationRequest, vscode]);
 
   const continueChat = useCallback(
     (chatPrompt: string) => {
@@ -203,6 +430,7 @@ export function useSVGGeneration(
 
       setIsLoading(true);
       setError(null);
+      setStreamingContent(null);
       setPendingPrompt(chatPrompt);
 
       const history: SVGConversationHistoryTurn[] = conversationHistory.map((turn) => ({
@@ -211,6 +439,10 @@ export function useSVGGeneration(
         turnNumber: turn.turnNumber,
         referenceSvgText: turn.referenceSvgText,
       }));
+      pendingEstimateRef.current = estimateSVGRequestCost(modelDefinition, {
+        prompt: chatPrompt + (referenceSvgText ?? ''),
+        history,
+      }).costUsd;
 
       vscode.postMessage(
         createEnvelope(
@@ -223,20 +455,96 @@ export function useSVGGeneration(
             model,
             aspectRatio,
             referenceSvgText: referenceSvgText ?? undefined,
-          }
+          },
+          generationRequest.start('svg')
         )
       );
     },
-    [conversationHistory, conversationId, model, aspectRatio, referenceSvgText, vscode]
+    [conversationHistory, conversationId, model, modelDefinition, aspectRatio, referenceSvgText, generationRequest, vscode]
   );
 
+  const cancelGeneration = useCallback(() => {
+    if (!generationRequest.cancel()) {
+      return;
+    }
+    // The extension rolls back the turn, so drop it here too
+    setPendingPrompt(null);
+    setStreamingContent(null);
+    setIsLoading(false);
+  }, [generationRequest]);
+
   const clearConversation = useCallback(() => {
     setConversationId(null);
     setSvgCode(null);
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
     setPrompt('');
     setError(null);
   }, []);
 
+  const restoreConversation = useCallback((restored: RestoredSVGConversation) => {
+    // A running generation would land in the wrong conversation
+    if (generationRequest.cancel()) {
+      setIsLoading(false);
+    }
+
+    const last = restored.turns[restored.turns.length - 1];
+    reportedTurnKeyRef.current = last
+      ? `${restored.conversationId}:${last.turnNumber ?? restored.turns.length}`
+      : null;
+    setConversationId(restored.conversationId);
+    setConversationHistory(restored.turns);
+    setSvgCode(last?.svgCode ?? null);
+    generatedWithRef.current = null;
+    setBranches([]);
+    setActiveBranchId(ROOT_BRANCH_ID);
+    setStreamingContent(null);
+    setModelState(restored.model);
+    setAspectRatio(restored.aspectRatio);
+    setPendingPrompt(null);
+    setPrompt('');
+    setError(null);
+  }, [generationRequest]);
+
+  const branchFromTurn = useCallback((turn: SVGConversationHistoryTurn) => {
+    const index = conversationHistory.indexOf(turn);
+    if (isLoading || pendingBranch || !conversationId || index < 0) {
+      return;
+    }
+
+    const turns = conversationHistory.slice(0, index + 1);
+    setPendingBranch({ sourceConversationId: conversationId, turns });
+    setError(null);
+
+    vscode.postMessage(
+      createEnvelope<SVGGenerationBranchPayload>(
+        MessageType.SVG_GENERATION_BRANCH,
+        'webview.svgGeneration',
+        {
+          conversationId,
+          turnNumber: turn.turnNumber ?? index + 1,
+          history: conversationHistory.map((historyTurn) => ({
+            prompt: historyTurn.prompt,
+            svgCode: historyTurn.svgCode,
+            turnNumber: historyTurn.turnNumber,
+            referenceSvgText: historyTurn.referenceSvgText,
+          })),
+          model,
+          aspectRatio,
+        }
+      )
+    );
+  }, [isLoading, pendingBranch, conversationId, conversationHistory, model, aspectRatio, vscode]);
+
+  const switchBranch = useCallback((branchId: string) => {
+    const target = branches.find((branch) => branch.id === branchId);
+    if (isLoading || pendingBranch || !target || branchId === activeBranchId) {
+      return;
+    }
+    setBranches(snapshotBranch(branches, activeBranchId, conversationId, conversationHistory));
+    showBranch(target.id, target.conversationId, target.turns);
+  }, [isLoading, pendingBranch, branches, activeBranchId, conversationId, conversationHistory, showBranch]);
+
   const saveSVG = useCallback(() => {
     if (!svgCode) {
       setError('No SVG code to save');
@@ -245,18 +553,27 @@ export function useSVGGeneration(
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const suggestedFilename = `pixel-minion-${timestamp}.svg`;
+    const latestTurn = conversationHistory[conversationHistory.length - 1];
+    const generatedWith = generatedWithRef.current;
 
     vscode.postMessage(
-      createEnvelope(
+      createEnvelope<SVGSaveRequestPayload>(
         MessageType.SVG_SAVE_REQUEST,
         'webview.svgGeneration',
         {
           svgCode,
           suggestedFilename,
+          provenance: latestTurn ? {
+            prompt: latestTurn.prompt,
+            model: generatedWith?.model ?? model,
+            aspectRatio: generatedWith?.aspectRatio ?? aspectRatio,
+            conversationId: conversationId ?? undefined,
+            timestamp: generatedWith?.timestamp ?? Date.now(),
+          } : undefined,
         }
       )
     );
-  }, [svgCode, vscode]);
+  }, [svgCode, conversationHistory, model, aspectRatio, conversationId, vscode]);
 
   const copySVG = useCallback(() => {
     if (!svgCode) {
@@ -285,10 +602,17 @@ export function useSVGGeneration(
         {
           prompt: prompt.trim(),
           type: 'svg',
-        }
+        },
+        enhanceRequest.start('enhance')
       )
     );
-  }, [prompt, vscode]);
+  }, [prompt, enhanceRequest, vscode]);
+
+  const cancelEnhance = useCallback(() => {
+    if (enhanceRequest.cancel()) {
+      setIsEnhancing(false);
+    }
+  }, [enhanceRequest]);
 
   // Persistence object
   const persistedState: SVGGenerationPersistence = {
@@ -300,6 +624,8 @@ export function useSVGGeneration(
     conversationHistory,
     referenceSvgText,
     referenceImage,
+    branches,
+    activeBranchId,
   };
 
   return {
@@ -310,26 +636,45 @@ export function useSVGGeneration(
     referenceImage,
     referenceSvgText,
     svgCode,
+    streamingContent,
+    costEstimate,
+    requestInput,
     conversationHistory,
     conversationId,
+    branchTree,
+    activeBranchId,
+    isBranching: pendingBranch !== null,
     isLoading,
+    retryStatus,
     isEnhancing,
     error,
+    errorCode,
     // Actions
     setPrompt,
     setModel,
     setAspectRatio,
     setReferenceAttachment,
+    pickWorkspaceReference,
     generate,
     continueChat,
     clearConversation,
+    cancelGeneration,
     saveSVG,
     copySVG,
     enhancePrompt,
+    cancelEnhance,
+    restoreConversation,
+    branchFromTurn,
+    switchBranch,
     // Message Handlers (for App-level routing)
     handleGenerationResponse,
+    handleGenerationChunk,
+    handleBranchResult,
     handleSaveResult,
     handleEnhanceResponse,
+    handleLoadParameters,
+    handleReferenceFiles,
+    handleStatus,
     handleError,
     // Persistence
     persistedState,
@@ -14,6 +14,15 @@ import {
   ApiKeyStatusPayload,
   AspectRatio,
 } from '@messages';
+import { ProviderId } from '../../../../shared/types/providers';
+
+const NO_PROVIDER_KEYS: Record<ProviderId, boolean> = {
+  openrouter: false,
+  openai: false,
+  gemini: false,
+  anthropic: false,
+  custom: false,
+};
 
 // 1. State Interface
 export interface SettingsState {
@@ -21,7 +30,14 @@ export interface SettingsState {
   openRouterModel: string;
   imageModel: string;
   svgModel: string;
-  apiKeyConfigured: boolean;
+  fallbackImageModel: string;
+  fallbackSvgModel: string;
+  svgBlueprintModel: string;
+  svgArchitectMaxIterations: number;
+  customProviderBaseUrl: string;
+  customProviderModels: string[];
+  apiKeyConfigured: boolean;  // at least one provider is usable
+  providerKeys: Record<ProviderId, boolean>;
   isLoading: boolean;
 }
 
@@ -31,8 +47,8 @@ export interface SettingsActions {
     key: K,
     value: SettingsPayload[K]
   ) => void;
-  saveApiKey: (apiKey: string) => void;
-  clearApiKey: () => void;
+  saveApiKey: (apiKey: string, provider?: ProviderId) => void;
+  clearApiKey: (provider?: ProviderId) => void;
   refreshSettings: () => void;
   refreshApiKeyStatus: () => void;
 }
@@ -49,6 +65,12 @@ export interface SettingsPersistence {
   openRouterModel: string;
   imageModel: string;
   svgModel: string;
+  fallbackImageModel: string;
+  fallbackSvgModel: string;
+  svgBlueprintModel: string;
+  svgArchitectMaxIterations: number;
+  customProviderBaseUrl: string;
+  customProviderModels: string[];
 }
 
 export type UseSettingsReturn = SettingsState & SettingsActions & SettingsHandlers & {
@@ -73,7 +95,26 @@ export function useSettings(
   const [svgModel, setSvgModel] = useState(
     initialState?.svgModel ?? 'openai/gpt-5.3-codex'
   );
+  const [fallbackImageModel, setFallbackImageModel] = useState(
+    initialState?.fallbackImageModel ?? ''
+  );
+  const [fallbackSvgModel, setFallbackSvgModel] = useState(
+    initialState?.fallbackSvgModel ?? ''
+  );
+  const [svgBlueprintModel, setSvgBlueprintModel] = useState(
+    initialState?.svgBlueprintModel ?? 'google/gemini-3.1-pro-preview'
+  );
+  const [svgArchitectMaxIterations, setSvgArchitectMaxIterations] = useState(
+    initialState?.svgArchitectMaxIterations ?? 5
+  );
+  const [customProviderBaseUrl, setCustomProviderBaseUrl] = useState(
+    initialState?.customProviderBaseUrl ?? ''
+  );
+  const [customProviderModels, setCustomProviderModels] = useState<string[]>(
+    initialState?.customProviderModels ?? []
+  );
   const [apiKeyConfigured, setApiKeyConfigured] = useState(false);
+  const [providerKeys, setProviderKeys] = useState<Record<ProviderId, boolean>>(NO_PROVIDER_KEYS);
   const [isLoading, setIsLoading] = useState(true);
 
   // Message handlers (exposed for App-level routing)
@@ -83,12 +124,19 @@ export function useSettings(
     setOpenRouterModel(payload.openRouterModel);
     setImageModel(payload.imageModel);
     setSvgModel(payload.svgModel);
+    setFallbackImageModel(payload.fallbackImageModel ?? '');
+    setFallbackSvgModel(payload.fallbackSvgModel ?? '');
+    setSvgBlueprintModel(payload.svgBlueprintModel);
+    setSvgArchitectMaxIterations(payload.svgArchitectMaxIterations);
+    setCustomProviderBaseUrl(payload.customProviderBaseUrl ?? '');
+    setCustomProviderModels(payload.customProviderModels ?? []);
     setIsLoading(false);
   }, []);
 
   const handleApiKeyStatus = useCallback((message: MessageEnvelope) => {
     const payload = message.payload as ApiKeyStatusPayload;
     setApiKeyConfigured(payload.isConfigured);
+    setProviderKeys({ ...NO_PROVIDER_KEYS, ...payload.providers });
   }, []);
 
   // Actions
@@ -110,23 +158,35 @@ export function useSettings(
         setImageModel(value as string);
       } else if (key === 'svgModel') {
         setSvgModel(value as string);
+      } else if (key === 'fallbackImageModel') {
+        setFallbackImageModel(value as string);
+      } else if (key === 'fallbackSvgModel') {
+        setFallbackSvgModel(value as string);
+      } else if (key === 'svgBlueprintModel') {
+        setSvgBlueprintModel(value as string);
+      } else if (key === 'svgArchitectMaxIterations') {
+        setSvgArchitectMaxIterations(value as number);
+      } else if (key === 'customProviderBaseUrl') {
+        setCustomProviderBaseUrl(value as string);
+      } else if (key === 'customProviderModels') {
+        setCustomProviderModels(value as string[]);
       }
     },
     [vscode]
   );
 
   const saveApiKey = useCallback(
-    (apiKey: string) => {
+    (apiKey: string, provider?: ProviderId) => {
       vscode.postMessage(
-        createEnvelope(MessageType.SAVE_API_KEY, 'webview.settings', { apiKey })
+        createEnvelope(MessageType.SAVE_API_KEY, 'webview.settings', { apiKey, provider })
       );
     },
     [vscode]
   );
 
-  const clearApiKey = useCallback(() => {
+  const clearApiKey = useCallback((provider?: ProviderId) => {
     vscode.postMessage(
-      createEnvelope(MessageType.CLEAR_API_KEY, 'webview.settings', {})
+      createEnvelope(MessageType.CLEAR_API_KEY, 'webview.settings', { provider })
     );
   }, [vscode]);
 
@@ -156,6 +216,12 @@ export function useSettings(
     openRouterModel,
     imageModel,
     svgModel,
+    fallbackImageModel,
+    fallbackSvgModel,
+    svgBlueprintModel,
+    svgArchitectMaxIterations,
+    customProviderBaseUrl,
+    customProviderModels,
   };
 
   return {
@@ -164,7 +230,14 @@ export function useSettings(
     openRouterModel,
     imageModel,
     svgModel,
+    fallbackImageModel,
+    fallbackSvgModel,
+    svgBlueprintModel,
+    svgArchitectMaxIterations,
+    customProviderBaseUrl,
+    customProviderModels,
     apiKeyConfigured,
+    providerKeys,
     isLoading,
     // Actions
     updateSetting,
@@ -0,0 +1,107 @@
+/**
+ * useStyleProfiles - Brand style profile hook
+ *
+ * Pattern: Tripartite Interface (State, Actions) - not persisted, the extension
+ * owns the profiles and applies the active one to every generation.
+ * Message handlers are exposed for App-level registration (prose-minion pattern).
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { useVSCodeApi } from '../useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  createEnvelope,
+  StyleProfile,
+  StyleProfilesPayload,
+  StyleProfileSavePayload,
+  StyleProfileDeletePayload,
+  StyleProfileActivatePayload,
+} from '@messages';
+
+// 1. State Interface
+export interface StyleProfilesState {
+  profiles: StyleProfile[];
+  activeProfileId: string | null;
+  activeProfile: StyleProfile | undefined;  // derived from activeProfileId
+  error: string | null;
+}
+
+// 2. Actions Interface
+export interface StyleProfilesActions {
+  saveProfile: (profile: StyleProfileSavePayload) => void;
+  deleteProfile: (id: string) => void;
+  setActiveProfile: (id: string | null) => void;
+}
+
+// 2b. Message Handlers Interface (for App-level routing)
+export interface StyleProfilesHandlers {
+  handleStyleProfiles: (message: MessageEnvelope) => void;
+  handleError: (message: MessageEnvelope) => void;
+}
+
+export type UseStyleProfilesReturn = StyleProfilesState & StyleProfilesActions & StyleProfilesHandlers;
+
+export function useStyleProfiles(): UseStyleProfilesReturn {
+  const vscode = useVSCodeApi();
+
+  // State
+  const [profiles, setProfiles] = useState<StyleProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+
+  // Message handlers (exposed for App-level routing)
+  const handleStyleProfiles = useCallback((message: MessageEnvelope) => {
+    const payload = message.payload as StyleProfilesPayload;
+    setProfiles(payload.profiles);
+    setActiveProfileId(payload.activeProfileId);
+  }, []);
+
+  const handleError = useCallback((message: MessageEnvelope) => {
+    setError((message.payload as { message: string }).message);
+  }, []);
+
+  // Actions
+  const saveProfile = useCallback((profile: StyleProfileSavePayload) => {
+    setError(null);
+    vscode.postMessage(
+      createEnvelope<StyleProfileSavePayload>(MessageType.STYLE_PROFILE_SAVE, 'webview.styleProfiles', profile)
+    );
+  }, [vscode]);
+
+  const deleteProfile = useCallback((id: string) => {
+    setError(null);
+    vscode.postMessage(
+      createEnvelope<StyleProfileDeletePayload>(MessageType.STYLE_PROFILE_DELETE, 'webview.styleProfiles', { id })
+    );
+  }, [vscode]);
+
+  const setActiveProfile = useCallback((id: string | null) => {
+    setError(null);
+    setActiveProfileId(id);  // optimistic - the chip updates before the round trip
+    vscode.postMessage(
+      createEnvelope<StyleProfileActivatePayload>(MessageType.STYLE_PROFILE_ACTIVATE, 'webview.styleProfiles', { id })
+    );
+  }, [vscode]);
+
+  // Request initial profiles
+  useEffect(() => {
+    vscode.postMessage(createEnvelope(MessageType.STYLE_PROFILES_REQUEST, 'webview.styleProfiles', {}));
+  }, [vscode]);
+
+  return {
+    // State
+    profiles,
+    activeProfileId,
+    activeProfile,
+    error,
+    // Actions
+    saveProfile,
+    deleteProfile,
+    setActiveProfile,
+    // Message Handlers (for App-level routing)
+    handleStyleProfiles,
+    handleError,
+  };
+}
@@ -4,6 +4,8 @@ export { usePersistence } from './usePersistence';
 export type { PersistenceState } from './usePersistence';
 export { useMessageRouter } from './useMessageRouter';
 export type { MessageHandler, MessageHandlerMap } from './useMessageRouter';
+export { useCancellableRequest } from './useCancellableRequest';
+export type { CancellableRequest } from './useCancellableRequest';
 
 // Domain hooks
 export * from './domain';
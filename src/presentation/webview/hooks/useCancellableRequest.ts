@@ -0,0 +1,69 @@
+/**
+ * useCancellableRequest - Tracks the in-flight request of a domain hook so it can be stopped
+ *
+ * Pattern: Infrastructure hook used inside domain hooks
+ * - start() issues the correlationId to send with the request
+ * - cancel() posts GENERATION_CANCEL for it
+ * - isCancelled() lets message handlers drop late responses for a stopped request
+ */
+import { useRef, useCallback, useMemo } from 'react';
+import { useVSCodeApi } from './useVSCodeApi';
+import {
+  MessageType,
+  MessageEnvelope,
+  MessageSource,
+  createEnvelope,
+  createCorrelationId,
+  GenerationCancelPayload,
+} from '@messages';
+
+export interface CancellableRequest {
+  start: (prefix: string) => string;
+  finish: () => void;
+  cancel: () => boolean;
+  isCancelled: (message: MessageEnvelope) => boolean;
+}
+
+export function useCancellableRequest(source: MessageSource): CancellableRequest {
+  const vscode = useVSCodeApi();
+  const activeRef = useRef<string | null>(null);
+  const cancelledRef = useRef<Set<string>>(new Set());
+
+  const start = useCallback((prefix: string) => {
+    const correlationId = createCorrelationId(prefix);
+    activeRef.current = correlationId;
+    return correlationId;
+  }, []);
+
+  const finish = useCallback(() => {
+    activeRef.current = null;
+  }, []);
+
+  /**
+   * @returns false if nothing was in flight
+   */
+  const cancel = useCallback(() => {
+    const correlationId = activeRef.current;
+    if (!correlationId) {
+      return false;
+    }
+
+    cancelledRef.current.add(correlationId);
+    activeRef.current = null;
+    vscode.postMessage(
+      createEnvelope<GenerationCancelPayload>(
+        MessageType.GENERATION_CANCEL,
+        source,
+        { correlationId },
+        correlationId
+      )
+    );
+    return true;
+  }, [source, vscode]);
+
+  const isCancelled = useCallback((message: MessageEnvelope) => {
+    return !!message.correlationId && cancelledRef.current.has(message.correlationId);
+  }, []);
+
+  return useMemo(() => ({ start, finish, cancel, isCancelled }), [start, finish, cancel, isCancelled]);
+}
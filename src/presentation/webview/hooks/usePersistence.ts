@@ -8,7 +8,10 @@ import { useEffect, useCallback } from 'react';
 import { useVSCodeApi } from './useVSCodeApi';
 import type { ImageGenerationPersistence } from './domain/useImageGeneration';
 import type { SVGGenerationPersistence } from './domain/useSVGGeneration';
+import type { SVGArchitectPersistence } from './domain/useSVGArchitect';
 import type { TokenTrackingPersistence } from './domain/useTokenTracking';
+import type { HistoryPersistence } from './domain/useHistory';
+import type { ModelComparisonPersistence } from './domain/useModelComparison';
 import type { AspectRatio } from '@messages';
 
 export interface PersistenceState {
@@ -21,10 +24,16 @@ export interface PersistenceState {
     openRouterModel: string;
     imageModel: string;
     svgModel: string;
+    svgBlueprintModel?: string;
+    svgArchitectMaxIterations?: number;
   };
   imageGeneration?: ImageGenerationPersistence;
   svgGeneration?: SVGGenerationPersistence;
+  svgArchitect?: SVGArchitectPersistence;
   tokenTracking?: TokenTrackingPersistence;
+  history?: HistoryPersistence;
+  imageComparison?: ModelComparisonPersistence;
+  svgComparison?: ModelComparisonPersistence;
   activeTab?: string;
 }
 
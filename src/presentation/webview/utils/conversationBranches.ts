@@ -0,0 +1,61 @@
+/**
+ * conversationBranches - The branch tree behind "Branch from here"
+ *
+ * Every branch is its own extension-side conversation. The active branch's turns live
+ * in the view's state; the others are kept here as snapshots and swapped in on switch.
+ * The tree only exists once the first branch is made - until then it is empty.
+ */
+
+export const ROOT_BRANCH_ID = 'main';
+
+export interface ConversationBranch<TTurn> {
+  id: string;
+  parentId: string | null;          // null for the original conversation
+  branchTurnNumber: number | null;  // last turn shared with the parent
+  conversationId: string | null;
+  turns: TTurn[];
+}
+
+/**
+ * A branch placed in the tree, in display order
+ */
+export interface BranchTreeNode<TTurn> {
+  branch: ConversationBranch<TTurn>;
+  depth: number;
+  name: string;       // "Main", "Branch 1", ... in creation order
+}
+
+/**
+ * Write the active branch's current conversation into the tree (creating the root on first use)
+ */
+export function snapshotBranch<TTurn>(
+  branches: ConversationBranch<TTurn>[],
+  activeBranchId: string,
+  conversationId: string | null,
+  turns: TTurn[]
+): ConversationBranch<TTurn>[] {
+  if (branches.length === 0) {
+    return [{ id: ROOT_BRANCH_ID, parentId: null, branchTurnNumber: null, conversationId, turns }];
+  }
+  return branches.map((branch) => (
+    branch.id === activeBranchId ? { ...branch, conversationId, turns } : branch
+  ));
+}
+
+/**
+ * Depth-first display order - children follow their parent, oldest first
+ */
+export function getBranchTree<TTurn>(branches: ConversationBranch<TTurn>[]): BranchTreeNode<TTurn>[] {
+  const names = new Map(branches.map((branch, index) => [branch.id, index === 0 ? 'Main' : `Branch ${index}`]));
+  const nodes: BranchTreeNode<TTurn>[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    for (const branch of branches.filter((candidate) => candidate.parentId === parentId)) {
+      nodes.push({ branch, depth, name: names.get(branch.id) ?? branch.id });
+      visit(branch.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return nodes;
+}
@@ -0,0 +1,110 @@
+/**
+ * costEstimate - Pre-flight cost of the request a view is about to send
+ *
+ * Builds CostEstimator inputs from what the views hold (prompt, reference data
+ * URLs, conversation history) and formats estimates against actual usage.
+ */
+import { ConversationHistoryTurn, SVGConversationHistoryTurn, ComparisonInput, ComparisonType } from '@messages';
+import { ModelDefinition } from '../../../shared/types/providers';
+import {
+  CostEstimate,
+  SVG_OUTPUT_TOKENS,
+  estimateGenerationCost,
+  sumCostEstimates,
+} from '../../../infrastructure/ai/providers/CostEstimator';
+
+/** Calculate approximate byte size of base64 data URLs */
+export function calculateBase64Size(dataUrls: string[]): number {
+  return dataUrls.reduce((total, dataUrl) => {
+    // Extract base64 portion after the comma
+    const base64 = dataUrl.split(',')[1] || '';
+    // Base64 decodes to approximately 75% of the encoded string length
+    return total + Math.ceil(base64.length * 0.75);
+  }, 0);
+}
+
+export interface ImageRequestCostInput {
+  prompt: string;                        // as sent (reference SVG text included)
+  referenceImages?: string[];            // data URLs
+  history?: ConversationHistoryTurn[];   // continuation: earlier turns are re-sent
+  variations?: number;                   // parallel calls for a new generation
+}
+
+export interface SVGRequestCostInput {
+  prompt: string;
+  referenceImage?: string | null;
+  history?: SVGConversationHistoryTurn[];
+}
+
+/**
+ * Image generation: every reference and history image is priced by its size
+ */
+export function estimateImageRequestCost(
+  model: ModelDefinition | undefined,
+  { prompt, referenceImages = [], history = [], variations = 1 }: ImageRequestCostInput
+): CostEstimate {
+  const historyImages = history.flatMap((turn) => turn.images.map((image) => image.data));
+  const single = estimateGenerationCost(model, {
+    promptChars: prompt.length,
+    historyChars: history.reduce((sum, turn) => sum + turn.prompt.length + (turn.referenceSvgText?.length ?? 0), 0),
+    referenceImageBytes: [...referenceImages, ...historyImages].map((dataUrl) => calculateBase64Size([dataUrl])),
+    outputImages: 1,
+  });
+  return sumCostEstimates(Array.from({ length: Math.max(1, variations) }, () => single));
+}
+
+/**
+ * SVG generation: earlier prompts and SVG code are re-sent with a continuation
+ */
+export function estimateSVGRequestCost(
+  model: ModelDefinition | undefined,
+  { prompt, referenceImage, history = [] }: SVGRequestCostInput
+): CostEstimate {
+  return estimateGenerationCost(model, {
+    promptChars: prompt.length,
+    historyChars: history.reduce((sum, turn) => sum + turn.prompt.length + turn.svgCode.length, 0),
+    referenceImageBytes: referenceImage ? [calculateBase64Size([referenceImage])] : [],
+    outputTokens: SVG_OUTPUT_TOKENS,
+  });
+}
+
+/**
+ * Compare mode: the same request once per compared model
+ */
+export function estimateComparisonCost(
+  type: ComparisonType,
+  models: Array<ModelDefinition | undefined>,
+  input: ComparisonInput
+): CostEstimate {
+  return sumCostEstimates(models.map((model) => (type === 'svg'
+    ? estimateSVGRequestCost(model, {
+      prompt: input.prompt + (input.referenceSvgText ?? ''),
+      referenceImage: input.referenceImages?.[0],
+    })
+    : estimateImageRequestCost(model, { prompt: input.prompt, referenceImages: input.referenceImages }))));
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Label for the Generate button, e.g. "~$0.0390"
+ */
+export function formatCostEstimate(estimate: CostEstimate): string {
+  return estimate.costUsd !== null ? `~${formatUsd(estimate.costUsd)}` : 'cost unknown';
+}
+
+/**
+ * Estimate vs actual, e.g. "est. $0.0390 (actual 12% higher)"
+ */
+export function describeEstimateAccuracy(estimatedUsd: number, actualUsd: number): string {
+  if (estimatedUsd <= 0) {
+    return `est. ${formatUsd(estimatedUsd)}`;
+  }
+  const diffPercent = Math.round(((actualUsd - estimatedUsd) / estimatedUsd) * 100);
+  const comparison = diffPercent === 0
+    ? 'on target'
+    : `actual ${Math.abs(diffPercent)}% ${diffPercent > 0 ? 'higher' : 'lower'}`;
+  return `est. ${formatUsd(estimatedUsd)} (${comparison})`;
+}
@@ -0,0 +1,39 @@
+/**
+ * historyFilter - Search and filter helpers for the History tab
+ */
+import { HistoryEntry, HistoryEntryType } from '@messages';
+
+export interface HistoryFilter {
+  query: string;
+  model: string | null;             // null = all models
+  type: HistoryEntryType | null;    // null = images and SVGs
+}
+
+/**
+ * Filter entries by type, model and a full-text query over every turn's prompt.
+ * All whitespace-separated query terms must match (case-insensitive).
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter((entry) => {
+    if (filter.type && entry.type !== filter.type) {
+      return false;
+    }
+    if (filter.model && entry.model !== filter.model) {
+      return false;
+    }
+    if (terms.length === 0) {
+      return true;
+    }
+    const text = entry.prompts.join('\n').toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
+
+/**
+ * Models that appear in the history (for the model filter dropdown), sorted
+ */
+export function getHistoryModels(entries: HistoryEntry[]): string[] {
+  return [...new Set(entries.map((entry) => entry.model))].sort();
+}
@@ -0,0 +1,63 @@
+/**
+ * inpaintMask - Rasterize a brushed region into the images an inpainting edit sends
+ *
+ * The MaskEditor paints strokes onto a canvas at the source image's natural size.
+ * From those strokes this builds:
+ * - maskImage: opaque PNG, transparent where painted (OpenAI Images edit mask format)
+ * - guidanceImage: the source with the region highlighted, for models without a mask parameter
+ */
+import { ImageInpaintMask } from '@messages';
+
+/** Stroke colour - also the highlight colour the guidance instruction refers to */
+export const MASK_COLOR = '#ff00ff';
+
+const GUIDANCE_OPACITY = 0.55;
+
+/**
+ * Load a data URL into an image element
+ */
+export function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Browser could not load the image'));
+    image.src = dataUrl;
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  return { canvas, context };
+}
+
+/**
+ * Build the mask and guidance PNGs from the stroke canvas (same size as the source)
+ */
+export function buildInpaintMask(
+  source: HTMLImageElement,
+  strokes: HTMLCanvasElement
+): Omit<ImageInpaintMask, 'sourceImage'> {
+  const { naturalWidth: width, naturalHeight: height } = source;
+
+  const mask = createCanvas(width, height);
+  mask.context.fillStyle = '#000000';
+  mask.context.fillRect(0, 0, width, height);
+  mask.context.globalCompositeOperation = 'destination-out';
+  mask.context.drawImage(strokes, 0, 0, width, height);
+
+  const guidance = createCanvas(width, height);
+  guidance.context.drawImage(source, 0, 0, width, height);
+  guidance.context.globalAlpha = GUIDANCE_OPACITY;
+  guidance.context.drawImage(strokes, 0, 0, width, height);
+
+  return {
+    maskImage: mask.canvas.toDataURL('image/png'),
+    guidanceImage: guidance.canvas.toDataURL('image/png'),
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * svgStreaming - Helpers for previewing SVG while it streams in
+ *
+ * Streamed model output is raw text: it may open with prose or a code fence and
+ * usually stops mid-tag. These helpers cut out the SVG portion and close any
+ * open elements so the partial drawing can be rendered.
+ */
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+
+/**
+ * Pull the SVG code out of streamed model output.
+ * @returns Code from the opening <svg up to the closing </svg> (or the end so far), or null if no <svg yet
+ */
+export function getStreamingSvgCode(content: string): string | null {
+  const start = content.search(/<svg[\s>]/i);
+  if (start === -1) {
+    return null;
+  }
+
+  const rest = content.slice(start);
+  const closeMatch = rest.match(/<\/svg\s*>/i);
+  if (closeMatch && closeMatch.index !== undefined) {
+    return rest.slice(0, closeMatch.index + closeMatch[0].length);
+  }
+
+  // Drop a trailing code fence that arrived before </svg> (truncated output)
+  const fenceIndex = rest.indexOf('```');
+  return fenceIndex === -1 ? rest : rest.slice(0, fenceIndex);
+}
+
+/**
+ * Make partial SVG well-formed enough to render:
+ * drops an unfinished trailing tag, comment, or CDATA section, then closes open elements.
+ */
+export function balancePartialSvg(code: string): string {
+  let balanced = code;
+
+  // Unterminated comment or CDATA - cut at its start
+  const openComment = balanced.lastIndexOf('<!--');
+  if (openComment !== -1 && balanced.indexOf('-->', openComment) === -1) {
+    balanced = balanced.slice(0, openComment);
+  }
+  const openCdata = balanced.lastIndexOf('<![CDATA[');
+  if (openCdata !== -1 && balanced.indexOf(']]>', openCdata) === -1) {
+    balanced = balanced.slice(0, openCdata);
+  }
+
+  // Unfinished tag at the end (e.g. `<path d="M10 2`) - cut at its '<'
+  const lastOpen = balanced.lastIndexOf('<');
+  if (lastOpen !== -1 && !isTagComplete(balanced.slice(lastOpen))) {
+    balanced = balanced.slice(0, lastOpen);
+  }
+
+  // Partial entity at the end (e.g. `&am`)
+  balanced = balanced.replace(/&[#\w]*$/, '');
+
+  const stack: string[] = [];
+  const withoutComments = balanced
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+
+  for (const match of withoutComments.matchAll(TAG_PATTERN)) {
+    const [, closing, name, , selfClosing] = match;
+    if (selfClosing) {
+      continue;
+    }
+    if (closing) {
+      const index = stack.lastIndexOf(name);
+      if (index !== -1) {
+        stack.length = index;
+      }
+    } else {
+      stack.push(name);
+    }
+  }
+
+  return balanced + stack.reverse().map((name) => `</${name}>`).join('');
+}
+
+/**
+ * Check whether text starting at '<' contains a complete tag (quote-aware)
+ */
+function isTagComplete(fragment: string): boolean {
+  let quote: string | null = null;
+  for (let i = 1; i < fragment.length; i++) {
+    const char = fragment[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return true;
+    }
+  }
+  return false;
+}
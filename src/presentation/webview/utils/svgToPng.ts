@@ -0,0 +1,75 @@
+/**
+ * svgToPng - Rasterize SVG markup to a PNG data URL in the browser
+ *
+ * Used by SVG Architect mode: the extension host has no canvas, so the webview
+ * renders each iteration and posts the PNG back for validation. Icon bundle
+ * exports render larger and keep transparency.
+ */
+import { AspectRatio, ASPECT_RATIO_DIMENSIONS } from '@messages';
+
+/** Longest edge of the rasterized PNG - enough detail for comparison, small enough for context */
+const RENDER_LONG_EDGE = 512;
+
+export interface SvgToPngOptions {
+  longEdge?: number;      // defaults to RENDER_LONG_EDGE
+  transparent?: boolean;  // skip the white backdrop
+}
+
+/**
+ * Get the PNG dimensions for an aspect ratio, scaled to the long edge
+ */
+export function getRenderSize(
+  aspectRatio: AspectRatio,
+  longEdge: number = RENDER_LONG_EDGE
+): { width: number; height: number } {
+  const { width, height } = ASPECT_RATIO_DIMENSIONS[aspectRatio];
+  const scale = longEdge / Math.max(width, height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Render SVG code onto a canvas (white unless transparent) and return a PNG data URL.
+ * Rejects if the browser cannot parse or draw the SVG.
+ */
+export function svgToPng(
+  svgCode: string,
+  aspectRatio: AspectRatio,
+  { longEdge = RENDER_LONG_EDGE, transparent = false }: SvgToPngOptions = {}
+): Promise<string> {
+  const { width, height } = getRenderSize(aspectRatio, longEdge);
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+
+      // White backdrop so transparent regions compare consistently
+      if (!transparent) {
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+      }
+      context.drawImage(image, 0, 0, width, height);
+
+      try {
+        resolve(canvas.toDataURL('image/png'));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error('Failed to export PNG'));
+      }
+    };
+
+    image.onerror = () => reject(new Error('Browser could not parse the SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgCode)}`;
+  });
+}
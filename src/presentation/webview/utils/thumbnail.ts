@@ -0,0 +1,52 @@
+/**
+ * thumbnail - Downscale images to small PNG data URLs for the History tab
+ *
+ * Full generations can be several MB of base64; the history list only needs
+ * a preview, so the webview shrinks it before reporting the turn.
+ */
+
+/** Longest edge of a history thumbnail */
+const THUMBNAIL_LONG_EDGE = 160;
+
+/**
+ * Wrap SVG markup in a data URL so it can be drawn like any other image
+ */
+export function svgToDataUrl(svgCode: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgCode)}`;
+}
+
+/**
+ * Draw an image (data URL) onto a small canvas and return a PNG data URL.
+ * Rejects if the browser cannot decode the image.
+ */
+export function createThumbnail(src: string, longEdge: number = THUMBNAIL_LONG_EDGE): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const naturalWidth = image.naturalWidth || longEdge;
+      const naturalHeight = image.naturalHeight || longEdge;
+      const scale = Math.min(1, longEdge / Math.max(naturalWidth, naturalHeight));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      try {
+        resolve(canvas.toDataURL('image/png'));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error('Failed to export thumbnail'));
+      }
+    };
+
+    image.onerror = () => reject(new Error('Browser could not decode the image'));
+    image.src = src;
+  });
+}
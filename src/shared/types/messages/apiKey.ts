@@ -1,11 +1,18 @@
 import { MessageType, MessageEnvelope } from './base';
+import { ProviderId } from '../providers';
 
 export interface ApiKeyStatusPayload {
-  isConfigured: boolean;
+  isConfigured: boolean;                   // at least one provider is usable
+  providers: Record<ProviderId, boolean>;  // per provider (custom: base URL set)
 }
 
 export interface SaveApiKeyPayload {
   apiKey: string;
+  provider?: ProviderId;  // defaults to OpenRouter
+}
+
+export interface ClearApiKeyPayload {
+  provider?: ProviderId;  // defaults to OpenRouter
 }
 
 // Note: We NEVER send the actual API key back to the webview
@@ -13,4 +20,4 @@ export interface SaveApiKeyPayload {
 export type RequestApiKeyStatusMessage = MessageEnvelope<void>;
 export type ApiKeyStatusMessage = MessageEnvelope<ApiKeyStatusPayload>;
 export type SaveApiKeyMessage = MessageEnvelope<SaveApiKeyPayload>;
-export type ClearApiKeyMessage = MessageEnvelope<void>;
+export type ClearApiKeyMessage = MessageEnvelope<ClearApiKeyPayload>;
@@ -29,6 +29,9 @@ export enum MessageType {
   STATUS = 'STATUS',
   ERROR = 'ERROR',
 
+  // Generation control
+  GENERATION_CANCEL = 'GENERATION_CANCEL',
+
   // UI
   TAB_CHANGED = 'TAB_CHANGED',
   OPEN_SETTINGS_OVERLAY = 'OPEN_SETTINGS_OVERLAY',
@@ -40,22 +43,80 @@ export enum MessageType {
   // Image Generation
   IMAGE_GENERATION_REQUEST = 'IMAGE_GENERATION_REQUEST',
   IMAGE_GENERATION_RESPONSE = 'IMAGE_GENERATION_RESPONSE',
+  IMAGE_GENERATION_VARIATION = 'IMAGE_GENERATION_VARIATION',
   IMAGE_GENERATION_CONTINUE = 'IMAGE_GENERATION_CONTINUE',
   IMAGE_GENERATION_CLEAR = 'IMAGE_GENERATION_CLEAR',
+  IMAGE_GENERATION_BRANCH = 'IMAGE_GENERATION_BRANCH',
+  IMAGE_GENERATION_BRANCH_RESULT = 'IMAGE_GENERATION_BRANCH_RESULT',
   IMAGE_SAVE_REQUEST = 'IMAGE_SAVE_REQUEST',
   IMAGE_SAVE_RESULT = 'IMAGE_SAVE_RESULT',
 
   // SVG Generation
   SVG_GENERATION_REQUEST = 'SVG_GENERATION_REQUEST',
   SVG_GENERATION_RESPONSE = 'SVG_GENERATION_RESPONSE',
+  SVG_GENERATION_CHUNK = 'SVG_GENERATION_CHUNK',
   SVG_GENERATION_CONTINUE = 'SVG_GENERATION_CONTINUE',
   SVG_GENERATION_CLEAR = 'SVG_GENERATION_CLEAR',
+  SVG_GENERATION_BRANCH = 'SVG_GENERATION_BRANCH',
+  SVG_GENERATION_BRANCH_RESULT = 'SVG_GENERATION_BRANCH_RESULT',
   SVG_SAVE_REQUEST = 'SVG_SAVE_REQUEST',
   SVG_SAVE_RESULT = 'SVG_SAVE_RESULT',
 
+  // SVG Architect (multi-agent)
+  SVG_ARCHITECT_REQUEST = 'SVG_ARCHITECT_REQUEST',
+  SVG_ARCHITECT_PROGRESS = 'SVG_ARCHITECT_PROGRESS',
+  SVG_ARCHITECT_PNG_READY = 'SVG_ARCHITECT_PNG_READY',
+  SVG_ARCHITECT_RESULT = 'SVG_ARCHITECT_RESULT',
+  SVG_ARCHITECT_CLEAR = 'SVG_ARCHITECT_CLEAR',
+
   // Prompt Enhancement
   ENHANCE_PROMPT_REQUEST = 'ENHANCE_PROMPT_REQUEST',
   ENHANCE_PROMPT_RESPONSE = 'ENHANCE_PROMPT_RESPONSE',
+
+  // Generation History
+  HISTORY_RECORD = 'HISTORY_RECORD',
+  HISTORY_LIST_REQUEST = 'HISTORY_LIST_REQUEST',
+  HISTORY_LIST = 'HISTORY_LIST',
+  HISTORY_RESTORE_REQUEST = 'HISTORY_RESTORE_REQUEST',
+  HISTORY_RESTORE_RESULT = 'HISTORY_RESTORE_RESULT',
+  HISTORY_DELETE = 'HISTORY_DELETE',
+
+  // Model Catalog
+  MODEL_CATALOG_REQUEST = 'MODEL_CATALOG_REQUEST',
+  MODEL_CATALOG = 'MODEL_CATALOG',
+
+  // Spending Budget
+  BUDGET_STATUS_REQUEST = 'BUDGET_STATUS_REQUEST',
+  BUDGET_STATUS = 'BUDGET_STATUS',
+  BUDGET_UPDATE_LIMITS = 'BUDGET_UPDATE_LIMITS',
+
+  // Icon Bundle Export
+  ICON_BUNDLE_EXPORT_REQUEST = 'ICON_BUNDLE_EXPORT_REQUEST',
+  ICON_BUNDLE_EXPORT_RESULT = 'ICON_BUNDLE_EXPORT_RESULT',
+
+  // Load Parameters From File
+  LOAD_GENERATION_PARAMETERS = 'LOAD_GENERATION_PARAMETERS',
+
+  // Workspace Reference Files
+  WORKSPACE_REFERENCE_PICK = 'WORKSPACE_REFERENCE_PICK',
+  REFERENCE_FILES = 'REFERENCE_FILES',
+
+  // Model Comparison
+  COMPARISON_REQUEST = 'COMPARISON_REQUEST',
+  COMPARISON_RESULT = 'COMPARISON_RESULT',
+
+  // Prompt Templates
+  PROMPT_TEMPLATE_LIST_REQUEST = 'PROMPT_TEMPLATE_LIST_REQUEST',
+  PROMPT_TEMPLATE_LIST = 'PROMPT_TEMPLATE_LIST',
+  PROMPT_TEMPLATE_SAVE = 'PROMPT_TEMPLATE_SAVE',
+  PROMPT_TEMPLATE_DELETE = 'PROMPT_TEMPLATE_DELETE',
+
+  // Brand Style Profiles
+  STYLE_PROFILES_REQUEST = 'STYLE_PROFILES_REQUEST',
+  STYLE_PROFILES = 'STYLE_PROFILES',
+  STYLE_PROFILE_SAVE = 'STYLE_PROFILE_SAVE',
+  STYLE_PROFILE_DELETE = 'STYLE_PROFILE_DELETE',
+  STYLE_PROFILE_ACTIVATE = 'STYLE_PROFILE_ACTIVATE',
 }
 
 export type MessageSource =
@@ -64,13 +125,32 @@ export type MessageSource =
   | 'extension.ai'
   | 'extension.imageGeneration'
   | 'extension.svgGeneration'
+  | 'extension.svgArchitect'
   | 'extension.enhance'
+  | 'extension.history'
+  | 'extension.modelCatalog'
+  | 'extension.budget'
+  | 'extension.iconBundle'
+  | 'extension.provenance'
+  | 'extension.referenceFiles'
+  | 'extension.comparison'
+  | 'extension.templates'
+  | 'extension.styleProfiles'
   | 'webview.helloWorld'
   | 'webview.settings'
   | 'webview.ai'
   | 'webview.imageGeneration'
   | 'webview.svgGeneration'
-  | 'webview.enhance';
+  | 'webview.svgArchitect'
+  | 'webview.enhance'
+  | 'webview.history'
+  | 'webview.modelCatalog'
+  | 'webview.budget'
+  | 'webview.iconBundle'
+  | 'webview.referenceFiles'
+  | 'webview.comparison'
+  | 'webview.templates'
+  | 'webview.styleProfiles';
 
 /**
  * Message Envelope - wraps all messages with metadata
@@ -101,3 +181,8 @@ export function createEnvelope<T>(
     correlationId,
   };
 }
+
+// Correlation IDs tie a request to its responses and to GENERATION_CANCEL
+export function createCorrelationId(prefix = 'req'): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
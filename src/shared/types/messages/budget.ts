@@ -0,0 +1,36 @@
+/**
+ * Spending Budget Message Payloads
+ *
+ * Caps are checked by the extension before each generation; spend comes from
+ * the costUsd reported with token usage. A cap of 0 means no limit.
+ */
+
+export type BudgetPeriod = 'session' | 'daily' | 'monthly';
+
+export interface BudgetLimits {
+  sessionUsd: number;     // since VS Code started
+  dailyUsd: number;       // calendar day (local time)
+  monthlyUsd: number;     // calendar month (local time)
+  warnAtPercent: number;  // notify once per period when spend reaches this share of a cap
+}
+
+export interface BudgetSpend {
+  sessionUsd: number;
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+export interface BudgetStatusPayload {
+  limits: BudgetLimits;
+  spend: BudgetSpend;
+  remainingUsd: number | null;  // tightest remaining amount across active caps; null = no caps
+}
+
+export type BudgetUpdateLimitsPayload = Partial<BudgetLimits>;
+
+export const DEFAULT_BUDGET_LIMITS: BudgetLimits = {
+  sessionUsd: 0,
+  dailyUsd: 0,
+  monthlyUsd: 0,
+  warnAtPercent: 80,
+};
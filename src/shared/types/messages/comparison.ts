@@ -0,0 +1,44 @@
+/**
+ * Model Comparison Message Payloads
+ *
+ * Compare mode sends one prompt - with the same references and, for images, the
+ * same seed - to several models in parallel. Each model's result starts its own
+ * conversation, so any cell can be promoted into the Image or SVG view and continued.
+ */
+import { TokenUsage } from './tokenUsage';
+import { AspectRatio, GeneratedImage } from './imageGeneration';
+
+export type ComparisonType = 'image' | 'svg';
+
+/** Most models one comparison may run */
+export const MAX_COMPARISON_MODELS = 4;
+
+export interface ComparisonRequestPayload {
+  type: ComparisonType;
+  prompt: string;
+  models: string[];
+  aspectRatio: AspectRatio;
+  seed?: number;                 // images only - shared by every model (auto-generated if not provided)
+  referenceImages?: string[];    // base64 data URLs; SVG comparisons use the first
+  referenceSvgText?: string;
+}
+
+/** The part of a request every compared model shares - what Generate would send */
+export type ComparisonInput = Omit<ComparisonRequestPayload, 'type' | 'models'>;
+
+/**
+ * Sent as each model finishes - a failed model carries the error instead of a result
+ */
+export interface ComparisonResultPayload {
+  type: ComparisonType;
+  index: number;               // position in the requested model list
+  model: string;
+  total: number;
+  completed: number;           // models finished so far, including failures
+  latencyMs: number;
+  conversationId?: string;
+  images?: GeneratedImage[];   // image comparisons
+  svgCode?: string;            // SVG comparisons
+  usage?: TokenUsage;
+  error?: string;
+}
@@ -0,0 +1,70 @@
+/**
+ * Generation History Message Payloads
+ *
+ * The webview records each completed image/SVG turn; the extension keeps the
+ * history in global storage so it survives new generations and restarts.
+ */
+import { AspectRatio, ConversationTurn } from './imageGeneration';
+import { SVGConversationHistoryTurn } from './svgGeneration';
+
+export type HistoryEntryType = 'image' | 'svg';
+
+/**
+ * Summary row shown in the History tab (one per conversation)
+ */
+export interface HistoryEntry {
+  conversationId: string;
+  type: HistoryEntryType;
+  prompt: string;            // first prompt of the conversation
+  prompts: string[];         // every turn's prompt - used for full-text search
+  model: string;
+  aspectRatio: AspectRatio;
+  seed?: number;             // seed of the first image (image conversations only)
+  thumbnail?: string;        // small PNG data URL of the latest result
+  turnCount: number;
+  costUsd: number;           // summed across turns
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A completed turn reported by the webview
+ */
+export type HistoryRecordPayload =
+  | {
+    type: 'image';
+    conversationId: string;
+    model: string;
+    aspectRatio: AspectRatio;
+    turn: ConversationTurn;
+    thumbnail?: string;
+  }
+  | {
+    type: 'svg';
+    conversationId: string;
+    model: string;
+    aspectRatio: AspectRatio;
+    turn: SVGConversationHistoryTurn;
+    thumbnail?: string;
+  };
+
+export interface HistoryListPayload {
+  entries: HistoryEntry[];  // newest first
+}
+
+export interface HistoryRestoreRequestPayload {
+  conversationId: string;
+}
+
+/**
+ * Full conversation as displayed by its view - restored so continueChat can pick it up
+ */
+export type HistoryConversation =
+  | { type: 'image'; entry: HistoryEntry; turns: ConversationTurn[] }
+  | { type: 'svg'; entry: HistoryEntry; turns: SVGConversationHistoryTurn[] };
+
+export type HistoryRestoreResultPayload = HistoryConversation;
+
+export interface HistoryDeletePayload {
+  conversationId: string;
+}
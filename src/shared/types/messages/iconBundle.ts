@@ -0,0 +1,22 @@
+/**
+ * Icon Bundle Message Payloads
+ *
+ * Exports favicon.ico, touch and PWA icons plus manifest and <link> snippets
+ * from a generated image or SVG. SVGs are rasterized by the webview and also
+ * written as favicon.svg.
+ */
+
+export interface IconBundleExportRequestPayload {
+  sourceId: string;   // image id or SVG identifier, echoed in the result
+  imageData: string;  // PNG/JPEG data URL, square sources give the best results
+  svgCode?: string;   // SVG source (SVG generation only)
+  name?: string;      // bundle folder prefix (slugified), e.g. the prompt
+}
+
+export interface IconBundleExportResultPayload {
+  success: boolean;
+  sourceId: string;
+  directory?: string;  // folder the files were written to
+  files?: string[];
+  error?: string;
+}
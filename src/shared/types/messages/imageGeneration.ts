@@ -2,6 +2,7 @@
  * Image Generation Message Payloads
  */
 import { TokenUsage } from './tokenUsage';
+import { GenerationProvenance } from './provenance';
 
 export type AspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16' | '3:2' | '2:3';
 
@@ -15,6 +16,13 @@ export const ASPECT_RATIO_DIMENSIONS: Record<AspectRatio, { width: number; heigh
   '2:3': { width: 683, height: 1024 },
 };
 
+export function isAspectRatio(value: string): value is AspectRatio {
+  return Object.prototype.hasOwnProperty.call(ASPECT_RATIO_DIMENSIONS, value);
+}
+
+/** Most variations a single generate request may fan out to */
+export const MAX_IMAGE_VARIATIONS = 8;
+
 export interface ImageGenerationRequestPayload {
   prompt: string;
   model: string;
@@ -23,6 +31,7 @@ export interface ImageGenerationRequestPayload {
   referenceSvgText?: string;   // raw SVG text (if attachment was SVG)
   conversationId?: string;     // for continuation
   seed?: number;               // optional seed for reproducibility (auto-generated if not provided)
+  variations?: number;         // new conversations only: 1-8 parallel images, consecutive seeds from `seed`
 }
 
 /**
@@ -35,6 +44,17 @@ export interface ConversationHistoryTurn {
     seed: number;
   }>;
   referenceSvgText?: string;
+  text?: string;       // assistant commentary
+}
+
+/**
+ * Inpainting edit - only the painted region of the source image should change.
+ * The webview rasterizes both images because the extension host has no canvas.
+ */
+export interface ImageInpaintMask {
+  sourceImage: string;    // data URL of the image being edited
+  maskImage: string;      // PNG data URL at the source size: transparent = edit, opaque = keep
+  guidanceImage: string;  // source with the region highlighted, for models without a mask parameter
 }
 
 export interface ImageGenerationContinuePayload {
@@ -51,6 +71,29 @@ export interface ImageGenerationContinuePayload {
   model?: string;
   aspectRatio?: AspectRatio;
   referenceSvgText?: string;
+  mask?: ImageInpaintMask;  // inpainting variant: edit the painted region of mask.sourceImage
+  targetImages?: string[];  // data URLs of the latest images to refine (default: all of them)
+}
+
+/**
+ * "Branch from here" - a new conversation holding the source's provider messages up to
+ * and including turnNumber; the source conversation is left as it is
+ */
+export interface ImageGenerationBranchPayload {
+  conversationId: string;
+  turnNumber: number;
+  history?: ConversationHistoryTurn[];  // the source's full history, for re-hydration
+  model?: string;
+  aspectRatio?: AspectRatio;
+}
+
+/**
+ * Answers IMAGE_GENERATION_BRANCH and SVG_GENERATION_BRANCH
+ */
+export interface ConversationBranchResultPayload {
+  sourceConversationId: string;
+  conversationId: string;    // the new branch conversation
+  turnNumber: number;        // last turn it shares with the source
 }
 
 export interface GeneratedImage {
@@ -60,6 +103,9 @@ export interface GeneratedImage {
   prompt: string;        // prompt that generated it
   timestamp: number;
   seed: number;          // seed used for generation (for reproducibility)
+  conversationId?: string;  // conversation the image belongs to (each variation is its own conversation)
+  model?: string;           // model and aspect ratio of the conversation that made it
+  aspectRatio?: string;
 }
 
 /**
@@ -72,21 +118,69 @@ export interface ConversationTurn {
   turnNumber: number;
   timestamp: number;
   usage?: TokenUsage;
+  estimatedCostUsd?: number;  // pre-flight estimate, compared with usage.costUsd
   referenceSvgText?: string;
+  inpaint?: boolean;          // turn edited a masked region of an earlier image
+  text?: string;              // model commentary (markdown); the whole reply when images is empty
 }
 
 export interface ImageGenerationResponsePayload {
   conversationId: string;
-  images: GeneratedImage[];
+  images: GeneratedImage[];   // empty for a text-only reply (clarifying question, refusal)
   turnNumber: number;
   usage?: TokenUsage;
+  text?: string;              // model commentary (markdown)
 }
 
+/**
+ * Sent as each variation of a batch finishes; the final IMAGE_GENERATION_RESPONSE
+ * carries every successful variation with summed usage
+ */
+export interface ImageVariationPayload {
+  index: number;             // variation index (0-based)
+  total: number;
+  completed: number;         // variations finished so far, including failures
+  images: GeneratedImage[];  // empty when this variation failed
+  error?: string;
+}
+
+export type ImageSaveFormat = 'original' | 'png' | 'jpeg' | 'webp';
+
+/** Pixel region in the source image */
+export interface ImageCropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Post-processing applied by the extension before writing a saved image
+ */
+export interface ImageSaveOptions {
+  format: ImageSaveFormat;   // 'original' keeps the provider's encoding
+  quality: number;           // 1-100, JPEG and WebP
+  width?: number;            // output size; one side alone keeps the aspect ratio
+  height?: number;
+  fit?: 'stretch' | 'cover'; // both sides set: cover center-crops to the target aspect first
+  crop?: ImageCropRegion;    // applied before resizing
+  stripMetadata: boolean;
+}
+
+export const DEFAULT_IMAGE_SAVE_OPTIONS: ImageSaveOptions = {
+  format: 'original',
+  quality: 90,
+  fit: 'cover',
+  stripMetadata: false,
+};
+
 export interface ImageSaveRequestPayload {
   imageId: string;
   data: string;              // base64
   mimeType: string;
   suggestedFilename: string;
+  options?: ImageSaveOptions;
+  provenance?: GenerationProvenance;  // embedded unless options.stripMetadata
 }
 
 export interface ImageSaveResultPayload {
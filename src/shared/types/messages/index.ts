@@ -13,4 +13,14 @@ export * from './ui';
 export * from './tokenUsage';
 export * from './imageGeneration';
 export * from './svgGeneration';
+export * from './svgArchitect';
 export * from './enhance';
+export * from './history';
+export * from './modelCatalog';
+export * from './budget';
+export * from './iconBundle';
+export * from './provenance';
+export * from './referenceFile';
+export * from './comparison';
+export * from './promptTemplate';
+export * from './styleProfile';
@@ -0,0 +1,20 @@
+/**
+ * Model Catalog Message Payloads
+ *
+ * The extension fetches OpenRouter's model list, caches it in globalState and
+ * sends the per-generation-type lists to the webview. The curated static lists
+ * are the offline fallback.
+ */
+import { GenerationType, ModelDefinition } from '../providers';
+
+export type ModelCatalogSource = 'live' | 'cache' | 'fallback';
+
+export interface ModelCatalogRequestPayload {
+  forceRefresh?: boolean;  // bypass the cache TTL
+}
+
+export interface ModelCatalogPayload {
+  models: Record<GenerationType, ModelDefinition[]>;  // OpenRouter models only
+  source: ModelCatalogSource;
+  fetchedAt?: number;  // when the live data was fetched (absent for fallback)
+}
@@ -0,0 +1,35 @@
+/**
+ * Prompt Template Message Payloads
+ *
+ * Reusable prompts with {{variable}} placeholders, kept as markdown files in the
+ * workspace (.pixel-minion/templates/) or in global storage. Each template carries
+ * the generation type, model and aspect ratio it was written for.
+ */
+import { AspectRatio } from './imageGeneration';
+
+export type PromptTemplateScope = 'workspace' | 'global';
+
+export type PromptTemplateType = 'image' | 'svg';
+
+export interface PromptTemplate {
+  id: string;                // `${scope}/${fileName}` - stable while the file exists
+  scope: PromptTemplateScope;
+  name: string;
+  description?: string;
+  type: PromptTemplateType;  // the view the template applies to
+  model?: string;
+  aspectRatio?: AspectRatio;
+  body: string;              // prompt text with {{variable}} placeholders
+  variables: string[];       // placeholder names, in order of first appearance
+}
+
+export interface PromptTemplateListPayload {
+  templates: PromptTemplate[];  // workspace first, then global, by name
+  workspaceAvailable: boolean;  // false when no folder is open (global only)
+}
+
+export type PromptTemplateSavePayload = Omit<PromptTemplate, 'id' | 'variables'>;
+
+export interface PromptTemplateDeletePayload {
+  id: string;
+}
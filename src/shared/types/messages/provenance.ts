@@ -0,0 +1,28 @@
+/**
+ * Generation Provenance
+ *
+ * What made a saved asset: written into PNG text chunks, JPEG/WebP XMP and an
+ * SVG <metadata> element when the webview saves an image or SVG, and read back
+ * by the "Load Parameters From File" command.
+ */
+
+export interface GenerationProvenance {
+  prompt: string;
+  model: string;
+  aspectRatio: string;
+  seed?: number;            // image generation only
+  conversationId?: string;
+  timestamp: number;        // when the asset was generated (ms since epoch)
+}
+
+/**
+ * Sent after "Load Parameters From File": the file's parameters (when it has any)
+ * and the file itself, attached as a reference
+ */
+export interface LoadGenerationParametersPayload {
+  target: 'image' | 'svg';                      // SVG files go to the SVG tab
+  fileName: string;
+  provenance: Partial<GenerationProvenance> | null;
+  referenceImage: string;                       // data URL of the file
+  referenceSvgText?: string;                    // SVG source, for SVG files
+}
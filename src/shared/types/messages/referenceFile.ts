@@ -0,0 +1,25 @@
+/**
+ * Workspace Reference File Payloads
+ *
+ * Workspace images and SVGs attached as references, either through the
+ * "Use as Pixel Minion Reference" Explorer command or the webview's workspace
+ * picker. The extension reads the files; SVGs also carry their source text.
+ */
+
+export type ReferenceTarget = 'image' | 'svg';
+
+export interface WorkspaceReferencePickPayload {
+  target: ReferenceTarget;  // tab the picked files go to
+  maxFiles: number;         // free reference slots (the SVG tab has one)
+}
+
+export interface ReferenceFile {
+  fileName: string;
+  referenceImage: string;     // data URL of the file
+  referenceSvgText?: string;  // SVG source, for SVG files
+}
+
+export interface ReferenceFilesPayload {
+  target?: ReferenceTarget;  // absent from the Explorer command - the active tab takes them
+  files: ReferenceFile[];
+}
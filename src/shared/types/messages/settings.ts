@@ -5,6 +5,12 @@ export interface SettingsPayload {
   openRouterModel: string;
   imageModel: string;
   svgModel: string;
+  fallbackImageModel: string;       // OpenRouter retry fallback; empty = none
+  fallbackSvgModel: string;
+  svgBlueprintModel: string;
+  svgArchitectMaxIterations: number;
+  customProviderBaseUrl: string;    // OpenAI-compatible endpoint (Ollama, LM Studio); empty = disabled
+  customProviderModels: string[];   // model names served by the custom endpoint
 }
 
 export interface UpdateSettingPayload {
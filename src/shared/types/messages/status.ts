@@ -3,13 +3,41 @@ import { MessageType, MessageEnvelope } from './base';
 export interface StatusPayload {
   message: string;
   isLoading?: boolean;
+  retry?: boolean;  // an OpenRouter retry / fallback notice for the running request
 }
 
 export interface ErrorPayload {
   message: string;
-  code?: string;
+  code?: string;      // a ProviderErrorCode when the provider failure is recognised
   details?: unknown;
 }
 
+/**
+ * Stable codes for provider failures - the webview offers a remediation for each
+ */
+export const PROVIDER_ERROR_CODES = [
+  'INSUFFICIENT_CREDITS',
+  'INVALID_API_KEY',
+  'RATE_LIMITED',
+  'MODEL_UNAVAILABLE',
+  'CONTENT_MODERATED',
+  'PAYLOAD_TOO_LARGE',
+  'TIMEOUT',
+  'NETWORK_OFFLINE',
+] as const;
+
+export type ProviderErrorCode = typeof PROVIDER_ERROR_CODES[number];
+
+export function isProviderErrorCode(code: unknown): code is ProviderErrorCode {
+  return typeof code === 'string' && (PROVIDER_ERROR_CODES as readonly string[]).includes(code);
+}
+
+/**
+ * Stop an in-flight request - correlationId is the one sent with the original request
+ */
+export interface GenerationCancelPayload {
+  correlationId: string;
+}
+
 export type StatusMessage = MessageEnvelope<StatusPayload>;
 export type ErrorMessage = MessageEnvelope<ErrorPayload>;
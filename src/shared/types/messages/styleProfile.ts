@@ -0,0 +1,40 @@
+/**
+ * Brand Style Profile Message Payloads
+ *
+ * A style profile is a named brand guide - palette, style descriptors, negative
+ * guidance and optional reference images. The active profile is applied to every
+ * image and SVG generation; profiles are managed in Settings and kept by the extension.
+ */
+
+/** Reference images one profile may carry (each is sent with every new conversation) */
+export const MAX_STYLE_REFERENCE_IMAGES = 3;
+
+export interface StyleProfile {
+  id: string;                 // empty when saving a new profile
+  name: string;
+  palette: string[];          // hex codes, e.g. '#1E88E5'
+  descriptors: string;        // style, line weight, mood
+  negativeGuidance: string;   // what to avoid
+  referenceImages: string[];  // data URLs
+}
+
+export interface StyleProfilesPayload {
+  profiles: StyleProfile[];
+  activeProfileId: string | null;
+}
+
+export type StyleProfileSavePayload = StyleProfile;
+
+export interface StyleProfileDeletePayload {
+  id: string;
+}
+
+export interface StyleProfileActivatePayload {
+  id: string | null;  // null turns brand styling off
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value);
+}
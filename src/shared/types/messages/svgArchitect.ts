@@ -0,0 +1,62 @@
+/**
+ * SVG Architect Message Payloads
+ *
+ * Multi-agent SVG pipeline: Blueprint Agent analyzes the input, a render model
+ * writes SVG, the webview rasterizes it to PNG, and the Blueprint Agent validates
+ * the render against the original until confident or the iteration cap is hit.
+ */
+import { AspectRatio } from './imageGeneration';
+import { TokenUsage } from './tokenUsage';
+
+export type SVGArchitectStatus =
+  | 'analyzing'     // Blueprint Agent is describing the input
+  | 'rendering'     // Render model is writing SVG from the blueprint
+  | 'awaiting-png'  // Waiting for the webview to rasterize the SVG
+  | 'validating'    // Blueprint Agent is comparing the render to the original
+  | 'complete';
+
+export interface SVGArchitectRequestPayload {
+  prompt: string;
+  blueprintModel: string;      // vision model for analysis + validation
+  renderModel: string;         // SVG code model
+  aspectRatio: AspectRatio;
+  maxIterations: number;
+  referenceImage?: string;     // base64 data URL of the original
+  referenceSvgText?: string;   // raw SVG text (if attachment is SVG)
+}
+
+export interface SVGArchitectProgressPayload {
+  conversationId: string;
+  status: SVGArchitectStatus;
+  iteration: number;           // 1-based, 0 while analyzing
+  maxIterations: number;
+  message: string;
+  description?: string;
+  blueprint?: string;
+  svgCode?: string;            // present when status is 'awaiting-png'
+  confidenceScore?: number;    // 0-100, present after validation
+  corrections?: string;        // validation notes fed into the next render
+}
+
+export interface SVGArchitectPngReadyPayload {
+  conversationId: string;
+  iteration: number;
+  pngData?: string;            // base64 PNG data URL of the rendered SVG
+  renderError?: string;        // set when the browser could not rasterize the SVG
+}
+
+export interface SVGArchitectResultPayload {
+  conversationId: string;
+  svgCode: string;
+  iteration: number;           // iteration that produced the selected SVG
+  iterationCount: number;
+  confidenceScore: number;
+  accepted: boolean;           // false when the iteration cap was hit first
+  description: string;
+  blueprint: string;
+  usage?: TokenUsage;          // total across all agent calls
+}
+
+export interface SVGArchitectClearPayload {
+  conversationId: string;
+}
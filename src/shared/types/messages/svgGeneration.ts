@@ -3,6 +3,7 @@
  */
 import { AspectRatio } from './imageGeneration';
 import { TokenUsage } from './tokenUsage';
+import { GenerationProvenance } from './provenance';
 
 export interface SVGGenerationRequestPayload {
   prompt: string;
@@ -19,6 +20,7 @@ export interface SVGConversationHistoryTurn {
   turnNumber?: number;
   referenceSvgText?: string;
   usage?: TokenUsage;
+  estimatedCostUsd?: number;  // pre-flight estimate, compared with usage.costUsd
 }
 
 export interface SVGGenerationContinuePayload {
@@ -30,16 +32,41 @@ export interface SVGGenerationContinuePayload {
   referenceSvgText?: string;
 }
 
+/**
+ * "Branch from here" - answered with a ConversationBranchResultPayload
+ */
+export interface SVGGenerationBranchPayload {
+  conversationId: string;
+  turnNumber: number;
+  history?: SVGConversationHistoryTurn[];  // the source's full history, for re-hydration
+  model?: string;
+  aspectRatio?: AspectRatio;
+}
+
 export interface SVGGenerationResponsePayload {
   conversationId: string;
   svgCode: string;
   turnNumber: number;
   usage?: TokenUsage;
+  model?: string;        // model and aspect ratio of the conversation
+  aspectRatio?: string;
+}
+
+/**
+ * Streamed partial output for an in-flight generation.
+ * Content is the raw model text so far - the webview balances it for preview.
+ * SVG_GENERATION_RESPONSE still follows with the extracted SVG and usage.
+ */
+export interface SVGGenerationChunkPayload {
+  conversationId: string;
+  turnNumber: number;
+  content: string;
 }
 
 export interface SVGSaveRequestPayload {
   svgCode: string;
   suggestedFilename: string;
+  provenance?: GenerationProvenance;  // written as a <metadata> element
 }
 
 export interface SVGSaveResultPayload {
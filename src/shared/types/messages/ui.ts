@@ -1,6 +1,6 @@
 import { MessageEnvelope } from './base';
 
-export type TabId = 'image' | 'svg' | 'settings';
+export type TabId = 'image' | 'svg' | 'history' | 'settings';
 
 export interface TabChangedPayload {
   tabId: TabId;
@@ -1,26 +1,56 @@
 /**
  * Provider Interface Types
  *
- * Defines the interface for AI providers (OpenRouter, future custom endpoints).
+ * Defines the interface for AI providers (OpenRouter, direct OpenAI/Gemini/Anthropic,
+ * and any OpenAI-compatible endpoint such as Ollama or LM Studio).
  * Each provider exposes curated model lists per generation type.
  */
 
 import { TextClient } from '../../infrastructure/ai/clients/TextClient';
+import { AspectRatio } from './messages/imageGeneration';
 
-export type GenerationType = 'image' | 'svg';
+export type GenerationType = 'image' | 'svg' | 'svgBlueprint';
+
+export type ProviderId = 'openrouter' | 'openai' | 'gemini' | 'anthropic' | 'custom';
+
+/** Wire protocol a provider speaks - decides which client handles a request */
+export type ProviderApiStyle = 'openrouter' | 'openai' | 'gemini' | 'anthropic';
 
 export interface ModelDefinition {
-  id: string;           // e.g., 'google/gemini-2.5-flash-image'
+  id: string;           // e.g., 'google/gemini-2.5-flash-image' (OpenRouter) or 'gemini:gemini-2.5-flash-image'
   displayName: string;  // e.g., 'Gemini 2.5 Flash Image'
   description?: string;
   inputCost?: number;   // $ per 1M tokens
   outputCost?: number;
+  provider?: ProviderId;  // omitted = OpenRouter
+  contextLength?: number;       // tokens (live catalog only)
+  inputModalities?: string[];   // e.g. ['text', 'image'] (live catalog only)
+  recommended?: boolean;        // curated pick
+  capabilities?: Partial<ModelCapabilities>;  // overrides the model family's (image models)
+}
+
+/**
+ * What an image model accepts - resolved by getModelCapabilities from the model's
+ * family and its curated definition
+ */
+export interface ModelCapabilities {
+  aspectRatios: AspectRatio[];
+  maxReferenceImages: number;
+  maxReferenceBytes?: number;       // total decoded size of the reference images
+  multiTurn: boolean;               // false = only the latest user message is sent
+  seed: boolean;
+  outputModalities: Array<'image' | 'text'>;
+  thoughtSignatures: boolean;       // assistant image parts replay only with their signatures (Gemini)
+  nativeMask: boolean;              // inpainting mask sent as its own file instead of a guidance image
+  imageConfig?: Record<string, string | number | boolean>;  // extra OpenRouter image_config fields
 }
 
 export interface ProviderConfig {
-  id: string;
+  id: ProviderId;
   displayName: string;
-  baseUrl: string;
+  baseUrl: string;       // default endpoint - the custom provider's comes from settings
+  apiStyle: ProviderApiStyle;
+  requiresApiKey: boolean;
   models: Record<GenerationType, ModelDefinition[]>;
   supportsImageInput: boolean;
   supportsImageOutput: boolean;
@@ -25,7 +25,10 @@ const extensionConfig = {
       '@secrets': path.resolve(__dirname, 'src/infrastructure/secrets'),
       '@ai': path.resolve(__dirname, 'src/infrastructure/ai'),
       '@providers': path.resolve(__dirname, 'src/infrastructure/ai/providers'),
-      '@logging': path.resolve(__dirname, 'src/infrastructure/logging')
+      '@logging': path.resolve(__dirname, 'src/infrastructure/logging'),
+      '@resources': path.resolve(__dirname, 'src/infrastructure/resources'),
+      '@storage': path.resolve(__dirname, 'src/infrastructure/storage'),
+      '@imaging': path.resolve(__dirname, 'src/infrastructure/imaging')
     }
   },
   module: {